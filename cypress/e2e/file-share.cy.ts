@@ -99,10 +99,15 @@ describe("File Share", () => {
             // Wait for dialog to close
             cy.get('[role="alertdialog"]').should('not.exist');
             
-            // Request the presigned S3 URL to get the file content
-            cy.request({
-                url: shareLink as string,
-                encoding: 'utf-8'
+            // The link opens the shared file page; its API route hands out the presigned S3 URL
+            const { origin, pathname } = new URL(shareLink as string);
+            expect(pathname).to.match(/^\/shared\/file\//);
+            cy.request(`${origin}/api${pathname}`).then((shared) => {
+                expect(shared.status).to.equal(200);
+                return cy.request({
+                    url: shared.body.url,
+                    encoding: 'utf-8'
+                });
             }).then((response) => {
                 // Verify the response is successful
                 expect(response.status).to.equal(200);
@@ -128,12 +128,10 @@ exports.Prisma.FolderScalarFieldEnum = {
   updated_at: 'updated_at',
   is_root: 'is_root',
   s3_link: 's3_link',
-  shared: 'shared',
-  expires_at: 'expires_at',
   parent_folder_id: 'parent_folder_id',
   owner_clerk_id: 'owner_clerk_id',
   s3_key: 's3_key',
-  shareToken: 'shareToken'
+  deleted_at: 'deleted_at'
 };
 
 exports.Prisma.FileScalarFieldEnum = {
@@ -141,12 +139,61 @@ exports.Prisma.FileScalarFieldEnum = {
   file_name: 'file_name',
   size: 'size',
   created_at: 'created_at',
-  shared: 'shared',
   s3_link: 's3_link',
-  expires_at: 'expires_at',
   parent_folder_id: 'parent_folder_id',
   owner_clerk_id: 'owner_clerk_id',
-  s3_key: 's3_key'
+  s3_key: 's3_key',
+  deleted_at: 'deleted_at',
+  pending_until: 'pending_until',
+  multipart_upload_id: 'multipart_upload_id',
+  version: 'version',
+  version_created_at: 'version_created_at',
+  blob_id: 'blob_id',
+  dedup_pending: 'dedup_pending',
+  extension: 'extension',
+  thumbnail_key: 'thumbnail_key',
+  thumbnail_version: 'thumbnail_version'
+};
+
+exports.Prisma.FileVersionScalarFieldEnum = {
+  id: 'id',
+  file_id: 'file_id',
+  version: 'version',
+  size: 'size',
+  s3_key: 's3_key',
+  created_at: 'created_at',
+  blob_id: 'blob_id'
+};
+
+exports.Prisma.BlobScalarFieldEnum = {
+  id: 'id',
+  size: 'size',
+  s3_key: 's3_key',
+  ref_count: 'ref_count',
+  created_at: 'created_at',
+  content_text: 'content_text'
+};
+
+exports.Prisma.ShareLinkScalarFieldEnum = {
+  id: 'id',
+  token: 'token',
+  label: 'label',
+  permission: 'permission',
+  expires_at: 'expires_at',
+  password_hash: 'password_hash',
+  max_downloads: 'max_downloads',
+  download_count: 'download_count',
+  created_at: 'created_at',
+  owner_clerk_id: 'owner_clerk_id',
+  folder_id: 'folder_id',
+  file_id: 'file_id'
+};
+
+exports.Prisma.ShareUnlockAttemptScalarFieldEnum = {
+  link_id: 'link_id',
+  client: 'client',
+  failed_attempts: 'failed_attempts',
+  locked_until: 'locked_until'
 };
 
 exports.Prisma.SortOrder = {
@@ -163,11 +210,18 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
-
+exports.SharePermission = exports.$Enums.SharePermission = {
+  view: 'view',
+  download: 'download'
+};
 
 exports.Prisma.ModelName = {
   Folder: 'Folder',
-  File: 'File'
+  File: 'File',
+  FileVersion: 'FileVersion',
+  Blob: 'Blob',
+  ShareLink: 'ShareLink',
+  ShareUnlockAttempt: 'ShareUnlockAttempt'
 };
 
 /**
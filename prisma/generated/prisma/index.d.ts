@@ -23,6 +23,43 @@ export type Folder = $Result.DefaultSelection<Prisma.$FolderPayload>
  * 
  */
 export type File = $Result.DefaultSelection<Prisma.$FilePayload>
+/**
+ * Model FileVersion
+ * 
+ */
+export type FileVersion = $Result.DefaultSelection<Prisma.$FileVersionPayload>
+/**
+ * Model Blob
+ * 
+ */
+export type Blob = $Result.DefaultSelection<Prisma.$BlobPayload>
+/**
+ * Model ShareLink
+ * 
+ */
+export type ShareLink = $Result.DefaultSelection<Prisma.$ShareLinkPayload>
+/**
+ * Model ShareUnlockAttempt
+ * 
+ */
+export type ShareUnlockAttempt = $Result.DefaultSelection<Prisma.$ShareUnlockAttemptPayload>
+
+/**
+ * Enums
+ */
+export namespace $Enums {
+  export const SharePermission: {
+  view: 'view',
+  download: 'download'
+};
+
+export type SharePermission = (typeof SharePermission)[keyof typeof SharePermission]
+
+}
+
+export type SharePermission = $Enums.SharePermission
+
+export const SharePermission: typeof $Enums.SharePermission
 
 /**
  * ##  Prisma Client ʲˢ
@@ -161,6 +198,46 @@ export class PrismaClient<
     * ```
     */
   get file(): Prisma.FileDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.fileVersion`: Exposes CRUD operations for the **FileVersion** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more FileVersions
+    * const fileVersions = await prisma.fileVersion.findMany()
+    * ```
+    */
+  get fileVersion(): Prisma.FileVersionDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.blob`: Exposes CRUD operations for the **Blob** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Blobs
+    * const blobs = await prisma.blob.findMany()
+    * ```
+    */
+  get blob(): Prisma.BlobDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.shareLink`: Exposes CRUD operations for the **ShareLink** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShareLinks
+    * const shareLinks = await prisma.shareLink.findMany()
+    * ```
+    */
+  get shareLink(): Prisma.ShareLinkDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.shareUnlockAttempt`: Exposes CRUD operations for the **ShareUnlockAttempt** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShareUnlockAttempts
+    * const shareUnlockAttempts = await prisma.shareUnlockAttempt.findMany()
+    * ```
+    */
+  get shareUnlockAttempt(): Prisma.ShareUnlockAttemptDelegate<ExtArgs, ClientOptions>;
 }
 
 export namespace Prisma {
@@ -603,7 +680,11 @@ export namespace Prisma {
 
   export const ModelName: {
     Folder: 'Folder',
-    File: 'File'
+    File: 'File',
+    FileVersion: 'FileVersion',
+    Blob: 'Blob',
+    ShareLink: 'ShareLink',
+    ShareUnlockAttempt: 'ShareUnlockAttempt'
   };
 
   export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -622,7 +703,7 @@ export namespace Prisma {
       omit: GlobalOmitOptions
     }
     meta: {
-      modelProps: "folder" | "file"
+      modelProps: "folder" | "file" | "fileVersion" | "blob" | "shareLink" | "shareUnlockAttempt"
       txIsolationLevel: Prisma.TransactionIsolationLevel
     }
     model: {
@@ -774,6 +855,302 @@ export namespace Prisma {
           }
         }
       }
+      FileVersion: {
+        payload: Prisma.$FileVersionPayload<ExtArgs>
+        fields: Prisma.FileVersionFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.FileVersionFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.FileVersionFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload>
+          }
+          findFirst: {
+            args: Prisma.FileVersionFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.FileVersionFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload>
+          }
+          findMany: {
+            args: Prisma.FileVersionFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload>[]
+          }
+          create: {
+            args: Prisma.FileVersionCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload>
+          }
+          createMany: {
+            args: Prisma.FileVersionCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.FileVersionCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload>[]
+          }
+          delete: {
+            args: Prisma.FileVersionDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload>
+          }
+          update: {
+            args: Prisma.FileVersionUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload>
+          }
+          deleteMany: {
+            args: Prisma.FileVersionDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.FileVersionUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.FileVersionUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload>[]
+          }
+          upsert: {
+            args: Prisma.FileVersionUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$FileVersionPayload>
+          }
+          aggregate: {
+            args: Prisma.FileVersionAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateFileVersion>
+          }
+          groupBy: {
+            args: Prisma.FileVersionGroupByArgs<ExtArgs>
+            result: $Utils.Optional<FileVersionGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.FileVersionCountArgs<ExtArgs>
+            result: $Utils.Optional<FileVersionCountAggregateOutputType> | number
+          }
+        }
+      }
+      Blob: {
+        payload: Prisma.$BlobPayload<ExtArgs>
+        fields: Prisma.BlobFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.BlobFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.BlobFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload>
+          }
+          findFirst: {
+            args: Prisma.BlobFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.BlobFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload>
+          }
+          findMany: {
+            args: Prisma.BlobFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload>[]
+          }
+          create: {
+            args: Prisma.BlobCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload>
+          }
+          createMany: {
+            args: Prisma.BlobCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.BlobCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload>[]
+          }
+          delete: {
+            args: Prisma.BlobDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload>
+          }
+          update: {
+            args: Prisma.BlobUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload>
+          }
+          deleteMany: {
+            args: Prisma.BlobDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.BlobUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.BlobUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload>[]
+          }
+          upsert: {
+            args: Prisma.BlobUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$BlobPayload>
+          }
+          aggregate: {
+            args: Prisma.BlobAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateBlob>
+          }
+          groupBy: {
+            args: Prisma.BlobGroupByArgs<ExtArgs>
+            result: $Utils.Optional<BlobGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.BlobCountArgs<ExtArgs>
+            result: $Utils.Optional<BlobCountAggregateOutputType> | number
+          }
+        }
+      }
+      ShareLink: {
+        payload: Prisma.$ShareLinkPayload<ExtArgs>
+        fields: Prisma.ShareLinkFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.ShareLinkFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.ShareLinkFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload>
+          }
+          findFirst: {
+            args: Prisma.ShareLinkFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.ShareLinkFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload>
+          }
+          findMany: {
+            args: Prisma.ShareLinkFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload>[]
+          }
+          create: {
+            args: Prisma.ShareLinkCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload>
+          }
+          createMany: {
+            args: Prisma.ShareLinkCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.ShareLinkCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload>[]
+          }
+          delete: {
+            args: Prisma.ShareLinkDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload>
+          }
+          update: {
+            args: Prisma.ShareLinkUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload>
+          }
+          deleteMany: {
+            args: Prisma.ShareLinkDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.ShareLinkUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.ShareLinkUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload>[]
+          }
+          upsert: {
+            args: Prisma.ShareLinkUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareLinkPayload>
+          }
+          aggregate: {
+            args: Prisma.ShareLinkAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateShareLink>
+          }
+          groupBy: {
+            args: Prisma.ShareLinkGroupByArgs<ExtArgs>
+            result: $Utils.Optional<ShareLinkGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.ShareLinkCountArgs<ExtArgs>
+            result: $Utils.Optional<ShareLinkCountAggregateOutputType> | number
+          }
+        }
+      }
+      ShareUnlockAttempt: {
+        payload: Prisma.$ShareUnlockAttemptPayload<ExtArgs>
+        fields: Prisma.ShareUnlockAttemptFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.ShareUnlockAttemptFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.ShareUnlockAttemptFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload>
+          }
+          findFirst: {
+            args: Prisma.ShareUnlockAttemptFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.ShareUnlockAttemptFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload>
+          }
+          findMany: {
+            args: Prisma.ShareUnlockAttemptFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload>[]
+          }
+          create: {
+            args: Prisma.ShareUnlockAttemptCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload>
+          }
+          createMany: {
+            args: Prisma.ShareUnlockAttemptCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.ShareUnlockAttemptCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload>[]
+          }
+          delete: {
+            args: Prisma.ShareUnlockAttemptDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload>
+          }
+          update: {
+            args: Prisma.ShareUnlockAttemptUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload>
+          }
+          deleteMany: {
+            args: Prisma.ShareUnlockAttemptDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.ShareUnlockAttemptUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.ShareUnlockAttemptUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload>[]
+          }
+          upsert: {
+            args: Prisma.ShareUnlockAttemptUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ShareUnlockAttemptPayload>
+          }
+          aggregate: {
+            args: Prisma.ShareUnlockAttemptAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateShareUnlockAttempt>
+          }
+          groupBy: {
+            args: Prisma.ShareUnlockAttemptGroupByArgs<ExtArgs>
+            result: $Utils.Optional<ShareUnlockAttemptGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.ShareUnlockAttemptCountArgs<ExtArgs>
+            result: $Utils.Optional<ShareUnlockAttemptCountAggregateOutputType> | number
+          }
+        }
+      }
     }
   } & {
     other: {
@@ -872,6 +1249,10 @@ export namespace Prisma {
   export type GlobalOmitConfig = {
     folder?: FolderOmit
     file?: FileOmit
+    fileVersion?: FileVersionOmit
+    blob?: BlobOmit
+    shareLink?: ShareLinkOmit
+    shareUnlockAttempt?: ShareUnlockAttemptOmit
   }
 
   /* Types for Logging */
@@ -954,11 +1335,13 @@ export namespace Prisma {
   export type FolderCountOutputType = {
     files: number
     subfolders: number
+    share_links: number
   }
 
   export type FolderCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     files?: boolean | FolderCountOutputTypeCountFilesArgs
     subfolders?: boolean | FolderCountOutputTypeCountSubfoldersArgs
+    share_links?: boolean | FolderCountOutputTypeCountShare_linksArgs
   }
 
   // Custom InputTypes
@@ -986,51 +1369,165 @@ export namespace Prisma {
     where?: FolderWhereInput
   }
 
+  /**
+   * FolderCountOutputType without action
+   */
+  export type FolderCountOutputTypeCountShare_linksArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ShareLinkWhereInput
+  }
+
 
   /**
-   * Models
+   * Count Type FileCountOutputType
    */
 
+  export type FileCountOutputType = {
+    versions: number
+    share_links: number
+  }
+
+  export type FileCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    versions?: boolean | FileCountOutputTypeCountVersionsArgs
+    share_links?: boolean | FileCountOutputTypeCountShare_linksArgs
+  }
+
+  // Custom InputTypes
   /**
-   * Model Folder
+   * FileCountOutputType without action
    */
+  export type FileCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileCountOutputType
+     */
+    select?: FileCountOutputTypeSelect<ExtArgs> | null
+  }
 
-  export type AggregateFolder = {
-    _count: FolderCountAggregateOutputType | null
-    _min: FolderMinAggregateOutputType | null
-    _max: FolderMaxAggregateOutputType | null
+  /**
+   * FileCountOutputType without action
+   */
+  export type FileCountOutputTypeCountVersionsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: FileVersionWhereInput
   }
 
-  export type FolderMinAggregateOutputType = {
-    id: string | null
-    folder_name: string | null
-    display_name: string | null
-    created_at: Date | null
-    updated_at: Date | null
-    is_root: boolean | null
-    s3_link: string | null
-    shared: boolean | null
-    expires_at: Date | null
-    parent_folder_id: string | null
-    owner_clerk_id: string | null
-    s3_key: string | null
-    shareToken: string | null
+  /**
+   * FileCountOutputType without action
+   */
+  export type FileCountOutputTypeCountShare_linksArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ShareLinkWhereInput
   }
 
-  export type FolderMaxAggregateOutputType = {
-    id: string | null
-    folder_name: string | null
-    display_name: string | null
-    created_at: Date | null
-    updated_at: Date | null
-    is_root: boolean | null
-    s3_link: string | null
-    shared: boolean | null
-    expires_at: Date | null
-    parent_folder_id: string | null
-    owner_clerk_id: string | null
-    s3_key: string | null
-    shareToken: string | null
+
+  /**
+   * Count Type BlobCountOutputType
+   */
+
+  export type BlobCountOutputType = {
+    files: number
+    versions: number
+  }
+
+  export type BlobCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    files?: boolean | BlobCountOutputTypeCountFilesArgs
+    versions?: boolean | BlobCountOutputTypeCountVersionsArgs
+  }
+
+  // Custom InputTypes
+  /**
+   * BlobCountOutputType without action
+   */
+  export type BlobCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BlobCountOutputType
+     */
+    select?: BlobCountOutputTypeSelect<ExtArgs> | null
+  }
+
+  /**
+   * BlobCountOutputType without action
+   */
+  export type BlobCountOutputTypeCountFilesArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: FileWhereInput
+  }
+
+  /**
+   * BlobCountOutputType without action
+   */
+  export type BlobCountOutputTypeCountVersionsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: FileVersionWhereInput
+  }
+
+
+  /**
+   * Count Type ShareLinkCountOutputType
+   */
+
+  export type ShareLinkCountOutputType = {
+    unlock_attempts: number
+  }
+
+  export type ShareLinkCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    unlock_attempts?: boolean | ShareLinkCountOutputTypeCountUnlock_attemptsArgs
+  }
+
+  // Custom InputTypes
+  /**
+   * ShareLinkCountOutputType without action
+   */
+  export type ShareLinkCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLinkCountOutputType
+     */
+    select?: ShareLinkCountOutputTypeSelect<ExtArgs> | null
+  }
+
+  /**
+   * ShareLinkCountOutputType without action
+   */
+  export type ShareLinkCountOutputTypeCountUnlock_attemptsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ShareUnlockAttemptWhereInput
+  }
+
+
+  /**
+   * Models
+   */
+
+  /**
+   * Model Folder
+   */
+
+  export type AggregateFolder = {
+    _count: FolderCountAggregateOutputType | null
+    _min: FolderMinAggregateOutputType | null
+    _max: FolderMaxAggregateOutputType | null
+  }
+
+  export type FolderMinAggregateOutputType = {
+    id: string | null
+    folder_name: string | null
+    display_name: string | null
+    created_at: Date | null
+    updated_at: Date | null
+    is_root: boolean | null
+    s3_link: string | null
+    parent_folder_id: string | null
+    owner_clerk_id: string | null
+    s3_key: string | null
+    deleted_at: Date | null
+  }
+
+  export type FolderMaxAggregateOutputType = {
+    id: string | null
+    folder_name: string | null
+    display_name: string | null
+    created_at: Date | null
+    updated_at: Date | null
+    is_root: boolean | null
+    s3_link: string | null
+    parent_folder_id: string | null
+    owner_clerk_id: string | null
+    s3_key: string | null
+    deleted_at: Date | null
   }
 
   export type FolderCountAggregateOutputType = {
@@ -1041,12 +1538,10 @@ export namespace Prisma {
     updated_at: number
     is_root: number
     s3_link: number
-    shared: number
-    expires_at: number
     parent_folder_id: number
     owner_clerk_id: number
     s3_key: number
-    shareToken: number
+    deleted_at: number
     _all: number
   }
 
@@ -1059,12 +1554,10 @@ export namespace Prisma {
     updated_at?: true
     is_root?: true
     s3_link?: true
-    shared?: true
-    expires_at?: true
     parent_folder_id?: true
     owner_clerk_id?: true
     s3_key?: true
-    shareToken?: true
+    deleted_at?: true
   }
 
   export type FolderMaxAggregateInputType = {
@@ -1075,12 +1568,10 @@ export namespace Prisma {
     updated_at?: true
     is_root?: true
     s3_link?: true
-    shared?: true
-    expires_at?: true
     parent_folder_id?: true
     owner_clerk_id?: true
     s3_key?: true
-    shareToken?: true
+    deleted_at?: true
   }
 
   export type FolderCountAggregateInputType = {
@@ -1091,12 +1582,10 @@ export namespace Prisma {
     updated_at?: true
     is_root?: true
     s3_link?: true
-    shared?: true
-    expires_at?: true
     parent_folder_id?: true
     owner_clerk_id?: true
     s3_key?: true
-    shareToken?: true
+    deleted_at?: true
     _all?: true
   }
 
@@ -1180,12 +1669,10 @@ export namespace Prisma {
     updated_at: Date
     is_root: boolean
     s3_link: string | null
-    shared: boolean
-    expires_at: Date | null
     parent_folder_id: string | null
     owner_clerk_id: string
     s3_key: string | null
-    shareToken: string | null
+    deleted_at: Date | null
     _count: FolderCountAggregateOutputType | null
     _min: FolderMinAggregateOutputType | null
     _max: FolderMaxAggregateOutputType | null
@@ -1213,15 +1700,14 @@ export namespace Prisma {
     updated_at?: boolean
     is_root?: boolean
     s3_link?: boolean
-    shared?: boolean
-    expires_at?: boolean
     parent_folder_id?: boolean
     owner_clerk_id?: boolean
     s3_key?: boolean
-    shareToken?: boolean
+    deleted_at?: boolean
     files?: boolean | Folder$filesArgs<ExtArgs>
     parent_folder?: boolean | Folder$parent_folderArgs<ExtArgs>
     subfolders?: boolean | Folder$subfoldersArgs<ExtArgs>
+    share_links?: boolean | Folder$share_linksArgs<ExtArgs>
     _count?: boolean | FolderCountOutputTypeDefaultArgs<ExtArgs>
   }, ExtArgs["result"]["folder"]>
 
@@ -1233,12 +1719,10 @@ export namespace Prisma {
     updated_at?: boolean
     is_root?: boolean
     s3_link?: boolean
-    shared?: boolean
-    expires_at?: boolean
     parent_folder_id?: boolean
     owner_clerk_id?: boolean
     s3_key?: boolean
-    shareToken?: boolean
+    deleted_at?: boolean
     parent_folder?: boolean | Folder$parent_folderArgs<ExtArgs>
   }, ExtArgs["result"]["folder"]>
 
@@ -1250,12 +1734,10 @@ export namespace Prisma {
     updated_at?: boolean
     is_root?: boolean
     s3_link?: boolean
-    shared?: boolean
-    expires_at?: boolean
     parent_folder_id?: boolean
     owner_clerk_id?: boolean
     s3_key?: boolean
-    shareToken?: boolean
+    deleted_at?: boolean
     parent_folder?: boolean | Folder$parent_folderArgs<ExtArgs>
   }, ExtArgs["result"]["folder"]>
 
@@ -1267,19 +1749,18 @@ export namespace Prisma {
     updated_at?: boolean
     is_root?: boolean
     s3_link?: boolean
-    shared?: boolean
-    expires_at?: boolean
     parent_folder_id?: boolean
     owner_clerk_id?: boolean
     s3_key?: boolean
-    shareToken?: boolean
+    deleted_at?: boolean
   }
 
-  export type FolderOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "folder_name" | "display_name" | "created_at" | "updated_at" | "is_root" | "s3_link" | "shared" | "expires_at" | "parent_folder_id" | "owner_clerk_id" | "s3_key" | "shareToken", ExtArgs["result"]["folder"]>
+  export type FolderOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "folder_name" | "display_name" | "created_at" | "updated_at" | "is_root" | "s3_link" | "parent_folder_id" | "owner_clerk_id" | "s3_key" | "deleted_at", ExtArgs["result"]["folder"]>
   export type FolderInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     files?: boolean | Folder$filesArgs<ExtArgs>
     parent_folder?: boolean | Folder$parent_folderArgs<ExtArgs>
     subfolders?: boolean | Folder$subfoldersArgs<ExtArgs>
+    share_links?: boolean | Folder$share_linksArgs<ExtArgs>
     _count?: boolean | FolderCountOutputTypeDefaultArgs<ExtArgs>
   }
   export type FolderIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
@@ -1295,6 +1776,7 @@ export namespace Prisma {
       files: Prisma.$FilePayload<ExtArgs>[]
       parent_folder: Prisma.$FolderPayload<ExtArgs> | null
       subfolders: Prisma.$FolderPayload<ExtArgs>[]
+      share_links: Prisma.$ShareLinkPayload<ExtArgs>[]
     }
     scalars: $Extensions.GetPayloadResult<{
       id: string
@@ -1304,12 +1786,10 @@ export namespace Prisma {
       updated_at: Date
       is_root: boolean
       s3_link: string | null
-      shared: boolean
-      expires_at: Date | null
       parent_folder_id: string | null
       owner_clerk_id: string
       s3_key: string | null
-      shareToken: string | null
+      deleted_at: Date | null
     }, ExtArgs["result"]["folder"]>
     composites: {}
   }
@@ -1707,6 +2187,7 @@ export namespace Prisma {
     files<T extends Folder$filesArgs<ExtArgs> = {}>(args?: Subset<T, Folder$filesArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
     parent_folder<T extends Folder$parent_folderArgs<ExtArgs> = {}>(args?: Subset<T, Folder$parent_folderArgs<ExtArgs>>): Prisma__FolderClient<$Result.GetResult<Prisma.$FolderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
     subfolders<T extends Folder$subfoldersArgs<ExtArgs> = {}>(args?: Subset<T, Folder$subfoldersArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$FolderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    share_links<T extends Folder$share_linksArgs<ExtArgs> = {}>(args?: Subset<T, Folder$share_linksArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
     /**
      * Attaches callbacks for the resolution and/or rejection of the Promise.
      * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1743,12 +2224,10 @@ export namespace Prisma {
     readonly updated_at: FieldRef<"Folder", 'DateTime'>
     readonly is_root: FieldRef<"Folder", 'Boolean'>
     readonly s3_link: FieldRef<"Folder", 'String'>
-    readonly shared: FieldRef<"Folder", 'Boolean'>
-    readonly expires_at: FieldRef<"Folder", 'DateTime'>
     readonly parent_folder_id: FieldRef<"Folder", 'String'>
     readonly owner_clerk_id: FieldRef<"Folder", 'String'>
     readonly s3_key: FieldRef<"Folder", 'String'>
-    readonly shareToken: FieldRef<"Folder", 'String'>
+    readonly deleted_at: FieldRef<"Folder", 'DateTime'>
   }
     
 
@@ -2211,6 +2690,30 @@ export namespace Prisma {
     distinct?: FolderScalarFieldEnum | FolderScalarFieldEnum[]
   }
 
+  /**
+   * Folder.share_links
+   */
+  export type Folder$share_linksArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    where?: ShareLinkWhereInput
+    orderBy?: ShareLinkOrderByWithRelationInput | ShareLinkOrderByWithRelationInput[]
+    cursor?: ShareLinkWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: ShareLinkScalarFieldEnum | ShareLinkScalarFieldEnum[]
+  }
+
   /**
    * Folder without action
    */
@@ -2244,36 +2747,56 @@ export namespace Prisma {
 
   export type FileAvgAggregateOutputType = {
     size: number | null
+    version: number | null
+    thumbnail_version: number | null
   }
 
   export type FileSumAggregateOutputType = {
-    size: number | null
+    size: bigint | null
+    version: number | null
+    thumbnail_version: number | null
   }
 
   export type FileMinAggregateOutputType = {
     id: string | null
     file_name: string | null
-    size: number | null
+    size: bigint | null
     created_at: Date | null
-    shared: boolean | null
     s3_link: string | null
-    expires_at: Date | null
     parent_folder_id: string | null
     owner_clerk_id: string | null
     s3_key: string | null
+    deleted_at: Date | null
+    pending_until: Date | null
+    multipart_upload_id: string | null
+    version: number | null
+    version_created_at: Date | null
+    blob_id: string | null
+    dedup_pending: boolean | null
+    extension: string | null
+    thumbnail_key: string | null
+    thumbnail_version: number | null
   }
 
   export type FileMaxAggregateOutputType = {
     id: string | null
     file_name: string | null
-    size: number | null
+    size: bigint | null
     created_at: Date | null
-    shared: boolean | null
     s3_link: string | null
-    expires_at: Date | null
     parent_folder_id: string | null
     owner_clerk_id: string | null
     s3_key: string | null
+    deleted_at: Date | null
+    pending_until: Date | null
+    multipart_upload_id: string | null
+    version: number | null
+    version_created_at: Date | null
+    blob_id: string | null
+    dedup_pending: boolean | null
+    extension: string | null
+    thumbnail_key: string | null
+    thumbnail_version: number | null
   }
 
   export type FileCountAggregateOutputType = {
@@ -2281,22 +2804,34 @@ export namespace Prisma {
     file_name: number
     size: number
     created_at: number
-    shared: number
     s3_link: number
-    expires_at: number
     parent_folder_id: number
     owner_clerk_id: number
     s3_key: number
+    deleted_at: number
+    pending_until: number
+    multipart_upload_id: number
+    version: number
+    version_created_at: number
+    blob_id: number
+    dedup_pending: number
+    extension: number
+    thumbnail_key: number
+    thumbnail_version: number
     _all: number
   }
 
 
   export type FileAvgAggregateInputType = {
     size?: true
+    version?: true
+    thumbnail_version?: true
   }
 
   export type FileSumAggregateInputType = {
     size?: true
+    version?: true
+    thumbnail_version?: true
   }
 
   export type FileMinAggregateInputType = {
@@ -2304,12 +2839,20 @@ export namespace Prisma {
     file_name?: true
     size?: true
     created_at?: true
-    shared?: true
     s3_link?: true
-    expires_at?: true
     parent_folder_id?: true
     owner_clerk_id?: true
     s3_key?: true
+    deleted_at?: true
+    pending_until?: true
+    multipart_upload_id?: true
+    version?: true
+    version_created_at?: true
+    blob_id?: true
+    dedup_pending?: true
+    extension?: true
+    thumbnail_key?: true
+    thumbnail_version?: true
   }
 
   export type FileMaxAggregateInputType = {
@@ -2317,12 +2860,20 @@ export namespace Prisma {
     file_name?: true
     size?: true
     created_at?: true
-    shared?: true
     s3_link?: true
-    expires_at?: true
     parent_folder_id?: true
     owner_clerk_id?: true
     s3_key?: true
+    deleted_at?: true
+    pending_until?: true
+    multipart_upload_id?: true
+    version?: true
+    version_created_at?: true
+    blob_id?: true
+    dedup_pending?: true
+    extension?: true
+    thumbnail_key?: true
+    thumbnail_version?: true
   }
 
   export type FileCountAggregateInputType = {
@@ -2330,12 +2881,20 @@ export namespace Prisma {
     file_name?: true
     size?: true
     created_at?: true
-    shared?: true
     s3_link?: true
-    expires_at?: true
     parent_folder_id?: true
     owner_clerk_id?: true
     s3_key?: true
+    deleted_at?: true
+    pending_until?: true
+    multipart_upload_id?: true
+    version?: true
+    version_created_at?: true
+    blob_id?: true
+    dedup_pending?: true
+    extension?: true
+    thumbnail_key?: true
+    thumbnail_version?: true
     _all?: true
   }
 
@@ -2428,14 +2987,22 @@ export namespace Prisma {
   export type FileGroupByOutputType = {
     id: string
     file_name: string
-    size: number
+    size: bigint
     created_at: Date
-    shared: boolean
     s3_link: string | null
-    expires_at: Date | null
     parent_folder_id: string | null
     owner_clerk_id: string
     s3_key: string | null
+    deleted_at: Date | null
+    pending_until: Date | null
+    multipart_upload_id: string | null
+    version: number
+    version_created_at: Date
+    blob_id: string | null
+    dedup_pending: boolean
+    extension: string
+    thumbnail_key: string | null
+    thumbnail_version: number | null
     _count: FileCountAggregateOutputType | null
     _avg: FileAvgAggregateOutputType | null
     _sum: FileSumAggregateOutputType | null
@@ -2462,13 +3029,25 @@ export namespace Prisma {
     file_name?: boolean
     size?: boolean
     created_at?: boolean
-    shared?: boolean
     s3_link?: boolean
-    expires_at?: boolean
     parent_folder_id?: boolean
     owner_clerk_id?: boolean
     s3_key?: boolean
+    deleted_at?: boolean
+    pending_until?: boolean
+    multipart_upload_id?: boolean
+    version?: boolean
+    version_created_at?: boolean
+    blob_id?: boolean
+    dedup_pending?: boolean
+    extension?: boolean
+    thumbnail_key?: boolean
+    thumbnail_version?: boolean
     parent_folder?: boolean | File$parent_folderArgs<ExtArgs>
+    versions?: boolean | File$versionsArgs<ExtArgs>
+    blob?: boolean | File$blobArgs<ExtArgs>
+    share_links?: boolean | File$share_linksArgs<ExtArgs>
+    _count?: boolean | FileCountOutputTypeDefaultArgs<ExtArgs>
   }, ExtArgs["result"]["file"]>
 
   export type FileSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
@@ -2476,13 +3055,22 @@ export namespace Prisma {
     file_name?: boolean
     size?: boolean
     created_at?: boolean
-    shared?: boolean
     s3_link?: boolean
-    expires_at?: boolean
     parent_folder_id?: boolean
     owner_clerk_id?: boolean
     s3_key?: boolean
+    deleted_at?: boolean
+    pending_until?: boolean
+    multipart_upload_id?: boolean
+    version?: boolean
+    version_created_at?: boolean
+    blob_id?: boolean
+    dedup_pending?: boolean
+    extension?: boolean
+    thumbnail_key?: boolean
+    thumbnail_version?: boolean
     parent_folder?: boolean | File$parent_folderArgs<ExtArgs>
+    blob?: boolean | File$blobArgs<ExtArgs>
   }, ExtArgs["result"]["file"]>
 
   export type FileSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
@@ -2490,13 +3078,22 @@ export namespace Prisma {
     file_name?: boolean
     size?: boolean
     created_at?: boolean
-    shared?: boolean
     s3_link?: boolean
-    expires_at?: boolean
     parent_folder_id?: boolean
     owner_clerk_id?: boolean
     s3_key?: boolean
+    deleted_at?: boolean
+    pending_until?: boolean
+    multipart_upload_id?: boolean
+    version?: boolean
+    version_created_at?: boolean
+    blob_id?: boolean
+    dedup_pending?: boolean
+    extension?: boolean
+    thumbnail_key?: boolean
+    thumbnail_version?: boolean
     parent_folder?: boolean | File$parent_folderArgs<ExtArgs>
+    blob?: boolean | File$blobArgs<ExtArgs>
   }, ExtArgs["result"]["file"]>
 
   export type FileSelectScalar = {
@@ -2504,41 +3101,66 @@ export namespace Prisma {
     file_name?: boolean
     size?: boolean
     created_at?: boolean
-    shared?: boolean
     s3_link?: boolean
-    expires_at?: boolean
     parent_folder_id?: boolean
     owner_clerk_id?: boolean
     s3_key?: boolean
-  }
-
-  export type FileOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "file_name" | "size" | "created_at" | "shared" | "s3_link" | "expires_at" | "parent_folder_id" | "owner_clerk_id" | "s3_key", ExtArgs["result"]["file"]>
+    deleted_at?: boolean
+    pending_until?: boolean
+    multipart_upload_id?: boolean
+    version?: boolean
+    version_created_at?: boolean
+    blob_id?: boolean
+    dedup_pending?: boolean
+    extension?: boolean
+    thumbnail_key?: boolean
+    thumbnail_version?: boolean
+  }
+
+  export type FileOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "file_name" | "size" | "created_at" | "s3_link" | "parent_folder_id" | "owner_clerk_id" | "s3_key" | "deleted_at" | "pending_until" | "multipart_upload_id" | "version" | "version_created_at" | "blob_id" | "dedup_pending" | "extension" | "thumbnail_key" | "thumbnail_version", ExtArgs["result"]["file"]>
   export type FileInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     parent_folder?: boolean | File$parent_folderArgs<ExtArgs>
+    versions?: boolean | File$versionsArgs<ExtArgs>
+    blob?: boolean | File$blobArgs<ExtArgs>
+    share_links?: boolean | File$share_linksArgs<ExtArgs>
+    _count?: boolean | FileCountOutputTypeDefaultArgs<ExtArgs>
   }
   export type FileIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     parent_folder?: boolean | File$parent_folderArgs<ExtArgs>
+    blob?: boolean | File$blobArgs<ExtArgs>
   }
   export type FileIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     parent_folder?: boolean | File$parent_folderArgs<ExtArgs>
+    blob?: boolean | File$blobArgs<ExtArgs>
   }
 
   export type $FilePayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     name: "File"
     objects: {
       parent_folder: Prisma.$FolderPayload<ExtArgs> | null
+      versions: Prisma.$FileVersionPayload<ExtArgs>[]
+      blob: Prisma.$BlobPayload<ExtArgs> | null
+      share_links: Prisma.$ShareLinkPayload<ExtArgs>[]
     }
     scalars: $Extensions.GetPayloadResult<{
       id: string
       file_name: string
-      size: number
+      size: bigint
       created_at: Date
-      shared: boolean
       s3_link: string | null
-      expires_at: Date | null
       parent_folder_id: string | null
       owner_clerk_id: string
       s3_key: string | null
+      deleted_at: Date | null
+      pending_until: Date | null
+      multipart_upload_id: string | null
+      version: number
+      version_created_at: Date
+      blob_id: string | null
+      dedup_pending: boolean
+      extension: string
+      thumbnail_key: string | null
+      thumbnail_version: number | null
     }, ExtArgs["result"]["file"]>
     composites: {}
   }
@@ -2934,6 +3556,9 @@ export namespace Prisma {
   export interface Prisma__FileClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
     readonly [Symbol.toStringTag]: "PrismaPromise"
     parent_folder<T extends File$parent_folderArgs<ExtArgs> = {}>(args?: Subset<T, File$parent_folderArgs<ExtArgs>>): Prisma__FolderClient<$Result.GetResult<Prisma.$FolderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    versions<T extends File$versionsArgs<ExtArgs> = {}>(args?: Subset<T, File$versionsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    blob<T extends File$blobArgs<ExtArgs> = {}>(args?: Subset<T, File$blobArgs<ExtArgs>>): Prisma__BlobClient<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    share_links<T extends File$share_linksArgs<ExtArgs> = {}>(args?: Subset<T, File$share_linksArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
     /**
      * Attaches callbacks for the resolution and/or rejection of the Promise.
      * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2965,14 +3590,22 @@ export namespace Prisma {
   interface FileFieldRefs {
     readonly id: FieldRef<"File", 'String'>
     readonly file_name: FieldRef<"File", 'String'>
-    readonly size: FieldRef<"File", 'Int'>
+    readonly size: FieldRef<"File", 'BigInt'>
     readonly created_at: FieldRef<"File", 'DateTime'>
-    readonly shared: FieldRef<"File", 'Boolean'>
     readonly s3_link: FieldRef<"File", 'String'>
-    readonly expires_at: FieldRef<"File", 'DateTime'>
     readonly parent_folder_id: FieldRef<"File", 'String'>
     readonly owner_clerk_id: FieldRef<"File", 'String'>
     readonly s3_key: FieldRef<"File", 'String'>
+    readonly deleted_at: FieldRef<"File", 'DateTime'>
+    readonly pending_until: FieldRef<"File", 'DateTime'>
+    readonly multipart_upload_id: FieldRef<"File", 'String'>
+    readonly version: FieldRef<"File", 'Int'>
+    readonly version_created_at: FieldRef<"File", 'DateTime'>
+    readonly blob_id: FieldRef<"File", 'String'>
+    readonly dedup_pending: FieldRef<"File", 'Boolean'>
+    readonly extension: FieldRef<"File", 'String'>
+    readonly thumbnail_key: FieldRef<"File", 'String'>
+    readonly thumbnail_version: FieldRef<"File", 'Int'>
   }
     
 
@@ -3387,6 +4020,73 @@ export namespace Prisma {
     where?: FolderWhereInput
   }
 
+  /**
+   * File.versions
+   */
+  export type File$versionsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    where?: FileVersionWhereInput
+    orderBy?: FileVersionOrderByWithRelationInput | FileVersionOrderByWithRelationInput[]
+    cursor?: FileVersionWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: FileVersionScalarFieldEnum | FileVersionScalarFieldEnum[]
+  }
+
+  /**
+   * File.blob
+   */
+  export type File$blobArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    where?: BlobWhereInput
+  }
+
+  /**
+   * File.share_links
+   */
+  export type File$share_linksArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    where?: ShareLinkWhereInput
+    orderBy?: ShareLinkOrderByWithRelationInput | ShareLinkOrderByWithRelationInput[]
+    cursor?: ShareLinkWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: ShareLinkScalarFieldEnum | ShareLinkScalarFieldEnum[]
+  }
+
   /**
    * File without action
    */
@@ -3407,542 +4107,7048 @@ export namespace Prisma {
 
 
   /**
-   * Enums
+   * Model FileVersion
    */
 
-  export const TransactionIsolationLevel: {
-    ReadUncommitted: 'ReadUncommitted',
-    ReadCommitted: 'ReadCommitted',
-    RepeatableRead: 'RepeatableRead',
-    Serializable: 'Serializable'
-  };
-
-  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
-
-
-  export const FolderScalarFieldEnum: {
-    id: 'id',
-    folder_name: 'folder_name',
-    display_name: 'display_name',
-    created_at: 'created_at',
-    updated_at: 'updated_at',
-    is_root: 'is_root',
-    s3_link: 's3_link',
-    shared: 'shared',
-    expires_at: 'expires_at',
-    parent_folder_id: 'parent_folder_id',
-    owner_clerk_id: 'owner_clerk_id',
-    s3_key: 's3_key',
-    shareToken: 'shareToken'
-  };
-
-  export type FolderScalarFieldEnum = (typeof FolderScalarFieldEnum)[keyof typeof FolderScalarFieldEnum]
-
-
-  export const FileScalarFieldEnum: {
-    id: 'id',
-    file_name: 'file_name',
-    size: 'size',
-    created_at: 'created_at',
-    shared: 'shared',
-    s3_link: 's3_link',
-    expires_at: 'expires_at',
-    parent_folder_id: 'parent_folder_id',
-    owner_clerk_id: 'owner_clerk_id',
-    s3_key: 's3_key'
-  };
-
-  export type FileScalarFieldEnum = (typeof FileScalarFieldEnum)[keyof typeof FileScalarFieldEnum]
-
+  export type AggregateFileVersion = {
+    _count: FileVersionCountAggregateOutputType | null
+    _avg: FileVersionAvgAggregateOutputType | null
+    _sum: FileVersionSumAggregateOutputType | null
+    _min: FileVersionMinAggregateOutputType | null
+    _max: FileVersionMaxAggregateOutputType | null
+  }
 
-  export const SortOrder: {
-    asc: 'asc',
-    desc: 'desc'
-  };
+  export type FileVersionAvgAggregateOutputType = {
+    version: number | null
+    size: number | null
+  }
 
-  export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
+  export type FileVersionSumAggregateOutputType = {
+    version: number | null
+    size: bigint | null
+  }
 
+  export type FileVersionMinAggregateOutputType = {
+    id: string | null
+    file_id: string | null
+    version: number | null
+    size: bigint | null
+    s3_key: string | null
+    created_at: Date | null
+    blob_id: string | null
+  }
 
-  export const QueryMode: {
-    default: 'default',
-    insensitive: 'insensitive'
-  };
+  export type FileVersionMaxAggregateOutputType = {
+    id: string | null
+    file_id: string | null
+    version: number | null
+    size: bigint | null
+    s3_key: string | null
+    created_at: Date | null
+    blob_id: string | null
+  }
 
-  export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
+  export type FileVersionCountAggregateOutputType = {
+    id: number
+    file_id: number
+    version: number
+    size: number
+    s3_key: number
+    created_at: number
+    blob_id: number
+    _all: number
+  }
 
 
-  export const NullsOrder: {
-    first: 'first',
-    last: 'last'
-  };
+  export type FileVersionAvgAggregateInputType = {
+    version?: true
+    size?: true
+  }
 
-  export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+  export type FileVersionSumAggregateInputType = {
+    version?: true
+    size?: true
+  }
 
+  export type FileVersionMinAggregateInputType = {
+    id?: true
+    file_id?: true
+    version?: true
+    size?: true
+    s3_key?: true
+    created_at?: true
+    blob_id?: true
+  }
 
-  /**
-   * Field references
-   */
+  export type FileVersionMaxAggregateInputType = {
+    id?: true
+    file_id?: true
+    version?: true
+    size?: true
+    s3_key?: true
+    created_at?: true
+    blob_id?: true
+  }
 
+  export type FileVersionCountAggregateInputType = {
+    id?: true
+    file_id?: true
+    version?: true
+    size?: true
+    s3_key?: true
+    created_at?: true
+    blob_id?: true
+    _all?: true
+  }
 
-  /**
-   * Reference to a field of type 'String'
-   */
+  export type FileVersionAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which FileVersion to aggregate.
+     */
+    where?: FileVersionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of FileVersions to fetch.
+     */
+    orderBy?: FileVersionOrderByWithRelationInput | FileVersionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: FileVersionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` FileVersions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` FileVersions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned FileVersions
+    **/
+    _count?: true | FileVersionCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: FileVersionAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: FileVersionSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: FileVersionMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: FileVersionMaxAggregateInputType
+  }
+
+  export type GetFileVersionAggregateType<T extends FileVersionAggregateArgs> = {
+        [P in keyof T & keyof AggregateFileVersion]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateFileVersion[P]>
+      : GetScalarType<T[P], AggregateFileVersion[P]>
+  }
+
+
+
+
+  export type FileVersionGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: FileVersionWhereInput
+    orderBy?: FileVersionOrderByWithAggregationInput | FileVersionOrderByWithAggregationInput[]
+    by: FileVersionScalarFieldEnum[] | FileVersionScalarFieldEnum
+    having?: FileVersionScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: FileVersionCountAggregateInputType | true
+    _avg?: FileVersionAvgAggregateInputType
+    _sum?: FileVersionSumAggregateInputType
+    _min?: FileVersionMinAggregateInputType
+    _max?: FileVersionMaxAggregateInputType
+  }
+
+  export type FileVersionGroupByOutputType = {
+    id: string
+    file_id: string
+    version: number
+    size: bigint
+    s3_key: string
+    created_at: Date
+    blob_id: string | null
+    _count: FileVersionCountAggregateOutputType | null
+    _avg: FileVersionAvgAggregateOutputType | null
+    _sum: FileVersionSumAggregateOutputType | null
+    _min: FileVersionMinAggregateOutputType | null
+    _max: FileVersionMaxAggregateOutputType | null
+  }
+
+  type GetFileVersionGroupByPayload<T extends FileVersionGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<FileVersionGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof FileVersionGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], FileVersionGroupByOutputType[P]>
+            : GetScalarType<T[P], FileVersionGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type FileVersionSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    file_id?: boolean
+    version?: boolean
+    size?: boolean
+    s3_key?: boolean
+    created_at?: boolean
+    blob_id?: boolean
+    file?: boolean | FileDefaultArgs<ExtArgs>
+    blob?: boolean | FileVersion$blobArgs<ExtArgs>
+  }, ExtArgs["result"]["fileVersion"]>
+
+  export type FileVersionSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    file_id?: boolean
+    version?: boolean
+    size?: boolean
+    s3_key?: boolean
+    created_at?: boolean
+    blob_id?: boolean
+    file?: boolean | FileDefaultArgs<ExtArgs>
+    blob?: boolean | FileVersion$blobArgs<ExtArgs>
+  }, ExtArgs["result"]["fileVersion"]>
+
+  export type FileVersionSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    file_id?: boolean
+    version?: boolean
+    size?: boolean
+    s3_key?: boolean
+    created_at?: boolean
+    blob_id?: boolean
+    file?: boolean | FileDefaultArgs<ExtArgs>
+    blob?: boolean | FileVersion$blobArgs<ExtArgs>
+  }, ExtArgs["result"]["fileVersion"]>
+
+  export type FileVersionSelectScalar = {
+    id?: boolean
+    file_id?: boolean
+    version?: boolean
+    size?: boolean
+    s3_key?: boolean
+    created_at?: boolean
+    blob_id?: boolean
+  }
+
+  export type FileVersionOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "file_id" | "version" | "size" | "s3_key" | "created_at" | "blob_id", ExtArgs["result"]["fileVersion"]>
+  export type FileVersionInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    file?: boolean | FileDefaultArgs<ExtArgs>
+    blob?: boolean | FileVersion$blobArgs<ExtArgs>
+  }
+  export type FileVersionIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    file?: boolean | FileDefaultArgs<ExtArgs>
+    blob?: boolean | FileVersion$blobArgs<ExtArgs>
+  }
+  export type FileVersionIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    file?: boolean | FileDefaultArgs<ExtArgs>
+    blob?: boolean | FileVersion$blobArgs<ExtArgs>
+  }
+
+  export type $FileVersionPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "FileVersion"
+    objects: {
+      file: Prisma.$FilePayload<ExtArgs>
+      blob: Prisma.$BlobPayload<ExtArgs> | null
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      file_id: string
+      version: number
+      size: bigint
+      s3_key: string
+      created_at: Date
+      blob_id: string | null
+    }, ExtArgs["result"]["fileVersion"]>
+    composites: {}
+  }
+
+  type FileVersionGetPayload<S extends boolean | null | undefined | FileVersionDefaultArgs> = $Result.GetResult<Prisma.$FileVersionPayload, S>
+
+  type FileVersionCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<FileVersionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: FileVersionCountAggregateInputType | true
+    }
+
+  export interface FileVersionDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['FileVersion'], meta: { name: 'FileVersion' } }
+    /**
+     * Find zero or one FileVersion that matches the filter.
+     * @param {FileVersionFindUniqueArgs} args - Arguments to find a FileVersion
+     * @example
+     * // Get one FileVersion
+     * const fileVersion = await prisma.fileVersion.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends FileVersionFindUniqueArgs>(args: SelectSubset<T, FileVersionFindUniqueArgs<ExtArgs>>): Prisma__FileVersionClient<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one FileVersion that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {FileVersionFindUniqueOrThrowArgs} args - Arguments to find a FileVersion
+     * @example
+     * // Get one FileVersion
+     * const fileVersion = await prisma.fileVersion.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends FileVersionFindUniqueOrThrowArgs>(args: SelectSubset<T, FileVersionFindUniqueOrThrowArgs<ExtArgs>>): Prisma__FileVersionClient<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first FileVersion that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {FileVersionFindFirstArgs} args - Arguments to find a FileVersion
+     * @example
+     * // Get one FileVersion
+     * const fileVersion = await prisma.fileVersion.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends FileVersionFindFirstArgs>(args?: SelectSubset<T, FileVersionFindFirstArgs<ExtArgs>>): Prisma__FileVersionClient<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first FileVersion that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {FileVersionFindFirstOrThrowArgs} args - Arguments to find a FileVersion
+     * @example
+     * // Get one FileVersion
+     * const fileVersion = await prisma.fileVersion.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends FileVersionFindFirstOrThrowArgs>(args?: SelectSubset<T, FileVersionFindFirstOrThrowArgs<ExtArgs>>): Prisma__FileVersionClient<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more FileVersions that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {FileVersionFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all FileVersions
+     * const fileVersions = await prisma.fileVersion.findMany()
+     * 
+     * // Get first 10 FileVersions
+     * const fileVersions = await prisma.fileVersion.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const fileVersionWithIdOnly = await prisma.fileVersion.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends FileVersionFindManyArgs>(args?: SelectSubset<T, FileVersionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a FileVersion.
+     * @param {FileVersionCreateArgs} args - Arguments to create a FileVersion.
+     * @example
+     * // Create one FileVersion
+     * const FileVersion = await prisma.fileVersion.create({
+     *   data: {
+     *     // ... data to create a FileVersion
+     *   }
+     * })
+     * 
+     */
+    create<T extends FileVersionCreateArgs>(args: SelectSubset<T, FileVersionCreateArgs<ExtArgs>>): Prisma__FileVersionClient<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many FileVersions.
+     * @param {FileVersionCreateManyArgs} args - Arguments to create many FileVersions.
+     * @example
+     * // Create many FileVersions
+     * const fileVersion = await prisma.fileVersion.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends FileVersionCreateManyArgs>(args?: SelectSubset<T, FileVersionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many FileVersions and returns the data saved in the database.
+     * @param {FileVersionCreateManyAndReturnArgs} args - Arguments to create many FileVersions.
+     * @example
+     * // Create many FileVersions
+     * const fileVersion = await prisma.fileVersion.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many FileVersions and only return the `id`
+     * const fileVersionWithIdOnly = await prisma.fileVersion.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends FileVersionCreateManyAndReturnArgs>(args?: SelectSubset<T, FileVersionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a FileVersion.
+     * @param {FileVersionDeleteArgs} args - Arguments to delete one FileVersion.
+     * @example
+     * // Delete one FileVersion
+     * const FileVersion = await prisma.fileVersion.delete({
+     *   where: {
+     *     // ... filter to delete one FileVersion
+     *   }
+     * })
+     * 
+     */
+    delete<T extends FileVersionDeleteArgs>(args: SelectSubset<T, FileVersionDeleteArgs<ExtArgs>>): Prisma__FileVersionClient<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one FileVersion.
+     * @param {FileVersionUpdateArgs} args - Arguments to update one FileVersion.
+     * @example
+     * // Update one FileVersion
+     * const fileVersion = await prisma.fileVersion.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends FileVersionUpdateArgs>(args: SelectSubset<T, FileVersionUpdateArgs<ExtArgs>>): Prisma__FileVersionClient<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more FileVersions.
+     * @param {FileVersionDeleteManyArgs} args - Arguments to filter FileVersions to delete.
+     * @example
+     * // Delete a few FileVersions
+     * const { count } = await prisma.fileVersion.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends FileVersionDeleteManyArgs>(args?: SelectSubset<T, FileVersionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more FileVersions.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {FileVersionUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many FileVersions
+     * const fileVersion = await prisma.fileVersion.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends FileVersionUpdateManyArgs>(args: SelectSubset<T, FileVersionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more FileVersions and returns the data updated in the database.
+     * @param {FileVersionUpdateManyAndReturnArgs} args - Arguments to update many FileVersions.
+     * @example
+     * // Update many FileVersions
+     * const fileVersion = await prisma.fileVersion.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more FileVersions and only return the `id`
+     * const fileVersionWithIdOnly = await prisma.fileVersion.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends FileVersionUpdateManyAndReturnArgs>(args: SelectSubset<T, FileVersionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one FileVersion.
+     * @param {FileVersionUpsertArgs} args - Arguments to update or create a FileVersion.
+     * @example
+     * // Update or create a FileVersion
+     * const fileVersion = await prisma.fileVersion.upsert({
+     *   create: {
+     *     // ... data to create a FileVersion
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the FileVersion we want to update
+     *   }
+     * })
+     */
+    upsert<T extends FileVersionUpsertArgs>(args: SelectSubset<T, FileVersionUpsertArgs<ExtArgs>>): Prisma__FileVersionClient<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of FileVersions.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {FileVersionCountArgs} args - Arguments to filter FileVersions to count.
+     * @example
+     * // Count the number of FileVersions
+     * const count = await prisma.fileVersion.count({
+     *   where: {
+     *     // ... the filter for the FileVersions we want to count
+     *   }
+     * })
+    **/
+    count<T extends FileVersionCountArgs>(
+      args?: Subset<T, FileVersionCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], FileVersionCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a FileVersion.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {FileVersionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends FileVersionAggregateArgs>(args: Subset<T, FileVersionAggregateArgs>): Prisma.PrismaPromise<GetFileVersionAggregateType<T>>
+
+    /**
+     * Group by FileVersion.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {FileVersionGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends FileVersionGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: FileVersionGroupByArgs['orderBy'] }
+        : { orderBy?: FileVersionGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, FileVersionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetFileVersionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the FileVersion model
+   */
+  readonly fields: FileVersionFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for FileVersion.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__FileVersionClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    file<T extends FileDefaultArgs<ExtArgs> = {}>(args?: Subset<T, FileDefaultArgs<ExtArgs>>): Prisma__FileClient<$Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    blob<T extends FileVersion$blobArgs<ExtArgs> = {}>(args?: Subset<T, FileVersion$blobArgs<ExtArgs>>): Prisma__BlobClient<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the FileVersion model
+   */
+  interface FileVersionFieldRefs {
+    readonly id: FieldRef<"FileVersion", 'String'>
+    readonly file_id: FieldRef<"FileVersion", 'String'>
+    readonly version: FieldRef<"FileVersion", 'Int'>
+    readonly size: FieldRef<"FileVersion", 'BigInt'>
+    readonly s3_key: FieldRef<"FileVersion", 'String'>
+    readonly created_at: FieldRef<"FileVersion", 'DateTime'>
+    readonly blob_id: FieldRef<"FileVersion", 'String'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * FileVersion findUnique
+   */
+  export type FileVersionFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    /**
+     * Filter, which FileVersion to fetch.
+     */
+    where: FileVersionWhereUniqueInput
+  }
+
+  /**
+   * FileVersion findUniqueOrThrow
+   */
+  export type FileVersionFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    /**
+     * Filter, which FileVersion to fetch.
+     */
+    where: FileVersionWhereUniqueInput
+  }
+
+  /**
+   * FileVersion findFirst
+   */
+  export type FileVersionFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    /**
+     * Filter, which FileVersion to fetch.
+     */
+    where?: FileVersionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of FileVersions to fetch.
+     */
+    orderBy?: FileVersionOrderByWithRelationInput | FileVersionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for FileVersions.
+     */
+    cursor?: FileVersionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` FileVersions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` FileVersions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of FileVersions.
+     */
+    distinct?: FileVersionScalarFieldEnum | FileVersionScalarFieldEnum[]
+  }
+
+  /**
+   * FileVersion findFirstOrThrow
+   */
+  export type FileVersionFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    /**
+     * Filter, which FileVersion to fetch.
+     */
+    where?: FileVersionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of FileVersions to fetch.
+     */
+    orderBy?: FileVersionOrderByWithRelationInput | FileVersionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for FileVersions.
+     */
+    cursor?: FileVersionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` FileVersions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` FileVersions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of FileVersions.
+     */
+    distinct?: FileVersionScalarFieldEnum | FileVersionScalarFieldEnum[]
+  }
+
+  /**
+   * FileVersion findMany
+   */
+  export type FileVersionFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    /**
+     * Filter, which FileVersions to fetch.
+     */
+    where?: FileVersionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of FileVersions to fetch.
+     */
+    orderBy?: FileVersionOrderByWithRelationInput | FileVersionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing FileVersions.
+     */
+    cursor?: FileVersionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` FileVersions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` FileVersions.
+     */
+    skip?: number
+    distinct?: FileVersionScalarFieldEnum | FileVersionScalarFieldEnum[]
+  }
+
+  /**
+   * FileVersion create
+   */
+  export type FileVersionCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    /**
+     * The data needed to create a FileVersion.
+     */
+    data: XOR<FileVersionCreateInput, FileVersionUncheckedCreateInput>
+  }
+
+  /**
+   * FileVersion createMany
+   */
+  export type FileVersionCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many FileVersions.
+     */
+    data: FileVersionCreateManyInput | FileVersionCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * FileVersion createManyAndReturn
+   */
+  export type FileVersionCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * The data used to create many FileVersions.
+     */
+    data: FileVersionCreateManyInput | FileVersionCreateManyInput[]
+    skipDuplicates?: boolean
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * FileVersion update
+   */
+  export type FileVersionUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    /**
+     * The data needed to update a FileVersion.
+     */
+    data: XOR<FileVersionUpdateInput, FileVersionUncheckedUpdateInput>
+    /**
+     * Choose, which FileVersion to update.
+     */
+    where: FileVersionWhereUniqueInput
+  }
+
+  /**
+   * FileVersion updateMany
+   */
+  export type FileVersionUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update FileVersions.
+     */
+    data: XOR<FileVersionUpdateManyMutationInput, FileVersionUncheckedUpdateManyInput>
+    /**
+     * Filter which FileVersions to update
+     */
+    where?: FileVersionWhereInput
+    /**
+     * Limit how many FileVersions to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * FileVersion updateManyAndReturn
+   */
+  export type FileVersionUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * The data used to update FileVersions.
+     */
+    data: XOR<FileVersionUpdateManyMutationInput, FileVersionUncheckedUpdateManyInput>
+    /**
+     * Filter which FileVersions to update
+     */
+    where?: FileVersionWhereInput
+    /**
+     * Limit how many FileVersions to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * FileVersion upsert
+   */
+  export type FileVersionUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    /**
+     * The filter to search for the FileVersion to update in case it exists.
+     */
+    where: FileVersionWhereUniqueInput
+    /**
+     * In case the FileVersion found by the `where` argument doesn't exist, create a new FileVersion with this data.
+     */
+    create: XOR<FileVersionCreateInput, FileVersionUncheckedCreateInput>
+    /**
+     * In case the FileVersion was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<FileVersionUpdateInput, FileVersionUncheckedUpdateInput>
+  }
+
+  /**
+   * FileVersion delete
+   */
+  export type FileVersionDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    /**
+     * Filter which FileVersion to delete.
+     */
+    where: FileVersionWhereUniqueInput
+  }
+
+  /**
+   * FileVersion deleteMany
+   */
+  export type FileVersionDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which FileVersions to delete
+     */
+    where?: FileVersionWhereInput
+    /**
+     * Limit how many FileVersions to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * FileVersion.blob
+   */
+  export type FileVersion$blobArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    where?: BlobWhereInput
+  }
+
+  /**
+   * FileVersion without action
+   */
+  export type FileVersionDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model Blob
+   */
+
+  export type AggregateBlob = {
+    _count: BlobCountAggregateOutputType | null
+    _avg: BlobAvgAggregateOutputType | null
+    _sum: BlobSumAggregateOutputType | null
+    _min: BlobMinAggregateOutputType | null
+    _max: BlobMaxAggregateOutputType | null
+  }
+
+  export type BlobAvgAggregateOutputType = {
+    size: number | null
+    ref_count: number | null
+  }
+
+  export type BlobSumAggregateOutputType = {
+    size: bigint | null
+    ref_count: number | null
+  }
+
+  export type BlobMinAggregateOutputType = {
+    id: string | null
+    size: bigint | null
+    s3_key: string | null
+    ref_count: number | null
+    created_at: Date | null
+    content_text: string | null
+  }
+
+  export type BlobMaxAggregateOutputType = {
+    id: string | null
+    size: bigint | null
+    s3_key: string | null
+    ref_count: number | null
+    created_at: Date | null
+    content_text: string | null
+  }
+
+  export type BlobCountAggregateOutputType = {
+    id: number
+    size: number
+    s3_key: number
+    ref_count: number
+    created_at: number
+    content_text: number
+    _all: number
+  }
+
+
+  export type BlobAvgAggregateInputType = {
+    size?: true
+    ref_count?: true
+  }
+
+  export type BlobSumAggregateInputType = {
+    size?: true
+    ref_count?: true
+  }
+
+  export type BlobMinAggregateInputType = {
+    id?: true
+    size?: true
+    s3_key?: true
+    ref_count?: true
+    created_at?: true
+    content_text?: true
+  }
+
+  export type BlobMaxAggregateInputType = {
+    id?: true
+    size?: true
+    s3_key?: true
+    ref_count?: true
+    created_at?: true
+    content_text?: true
+  }
+
+  export type BlobCountAggregateInputType = {
+    id?: true
+    size?: true
+    s3_key?: true
+    ref_count?: true
+    created_at?: true
+    content_text?: true
+    _all?: true
+  }
+
+  export type BlobAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Blob to aggregate.
+     */
+    where?: BlobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Blobs to fetch.
+     */
+    orderBy?: BlobOrderByWithRelationInput | BlobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: BlobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Blobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Blobs.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned Blobs
+    **/
+    _count?: true | BlobCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: BlobAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: BlobSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: BlobMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: BlobMaxAggregateInputType
+  }
+
+  export type GetBlobAggregateType<T extends BlobAggregateArgs> = {
+        [P in keyof T & keyof AggregateBlob]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateBlob[P]>
+      : GetScalarType<T[P], AggregateBlob[P]>
+  }
+
+
+
+
+  export type BlobGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: BlobWhereInput
+    orderBy?: BlobOrderByWithAggregationInput | BlobOrderByWithAggregationInput[]
+    by: BlobScalarFieldEnum[] | BlobScalarFieldEnum
+    having?: BlobScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: BlobCountAggregateInputType | true
+    _avg?: BlobAvgAggregateInputType
+    _sum?: BlobSumAggregateInputType
+    _min?: BlobMinAggregateInputType
+    _max?: BlobMaxAggregateInputType
+  }
+
+  export type BlobGroupByOutputType = {
+    id: string
+    size: bigint
+    s3_key: string
+    ref_count: number
+    created_at: Date
+    content_text: string | null
+    _count: BlobCountAggregateOutputType | null
+    _avg: BlobAvgAggregateOutputType | null
+    _sum: BlobSumAggregateOutputType | null
+    _min: BlobMinAggregateOutputType | null
+    _max: BlobMaxAggregateOutputType | null
+  }
+
+  type GetBlobGroupByPayload<T extends BlobGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<BlobGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof BlobGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], BlobGroupByOutputType[P]>
+            : GetScalarType<T[P], BlobGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type BlobSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    size?: boolean
+    s3_key?: boolean
+    ref_count?: boolean
+    created_at?: boolean
+    content_text?: boolean
+    files?: boolean | Blob$filesArgs<ExtArgs>
+    versions?: boolean | Blob$versionsArgs<ExtArgs>
+    _count?: boolean | BlobCountOutputTypeDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["blob"]>
+
+  export type BlobSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    size?: boolean
+    s3_key?: boolean
+    ref_count?: boolean
+    created_at?: boolean
+    content_text?: boolean
+  }, ExtArgs["result"]["blob"]>
+
+  export type BlobSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    size?: boolean
+    s3_key?: boolean
+    ref_count?: boolean
+    created_at?: boolean
+    content_text?: boolean
+  }, ExtArgs["result"]["blob"]>
+
+  export type BlobSelectScalar = {
+    id?: boolean
+    size?: boolean
+    s3_key?: boolean
+    ref_count?: boolean
+    created_at?: boolean
+    content_text?: boolean
+  }
+
+  export type BlobOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "size" | "s3_key" | "ref_count" | "created_at" | "content_text", ExtArgs["result"]["blob"]>
+  export type BlobInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    files?: boolean | Blob$filesArgs<ExtArgs>
+    versions?: boolean | Blob$versionsArgs<ExtArgs>
+    _count?: boolean | BlobCountOutputTypeDefaultArgs<ExtArgs>
+  }
+  export type BlobIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+  export type BlobIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+
+  export type $BlobPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "Blob"
+    objects: {
+      files: Prisma.$FilePayload<ExtArgs>[]
+      versions: Prisma.$FileVersionPayload<ExtArgs>[]
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      size: bigint
+      s3_key: string
+      ref_count: number
+      created_at: Date
+      content_text: string | null
+    }, ExtArgs["result"]["blob"]>
+    composites: {}
+  }
+
+  type BlobGetPayload<S extends boolean | null | undefined | BlobDefaultArgs> = $Result.GetResult<Prisma.$BlobPayload, S>
+
+  type BlobCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<BlobFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: BlobCountAggregateInputType | true
+    }
+
+  export interface BlobDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Blob'], meta: { name: 'Blob' } }
+    /**
+     * Find zero or one Blob that matches the filter.
+     * @param {BlobFindUniqueArgs} args - Arguments to find a Blob
+     * @example
+     * // Get one Blob
+     * const blob = await prisma.blob.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends BlobFindUniqueArgs>(args: SelectSubset<T, BlobFindUniqueArgs<ExtArgs>>): Prisma__BlobClient<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one Blob that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {BlobFindUniqueOrThrowArgs} args - Arguments to find a Blob
+     * @example
+     * // Get one Blob
+     * const blob = await prisma.blob.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends BlobFindUniqueOrThrowArgs>(args: SelectSubset<T, BlobFindUniqueOrThrowArgs<ExtArgs>>): Prisma__BlobClient<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Blob that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BlobFindFirstArgs} args - Arguments to find a Blob
+     * @example
+     * // Get one Blob
+     * const blob = await prisma.blob.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends BlobFindFirstArgs>(args?: SelectSubset<T, BlobFindFirstArgs<ExtArgs>>): Prisma__BlobClient<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Blob that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BlobFindFirstOrThrowArgs} args - Arguments to find a Blob
+     * @example
+     * // Get one Blob
+     * const blob = await prisma.blob.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends BlobFindFirstOrThrowArgs>(args?: SelectSubset<T, BlobFindFirstOrThrowArgs<ExtArgs>>): Prisma__BlobClient<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more Blobs that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BlobFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all Blobs
+     * const blobs = await prisma.blob.findMany()
+     * 
+     * // Get first 10 Blobs
+     * const blobs = await prisma.blob.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const blobWithIdOnly = await prisma.blob.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends BlobFindManyArgs>(args?: SelectSubset<T, BlobFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a Blob.
+     * @param {BlobCreateArgs} args - Arguments to create a Blob.
+     * @example
+     * // Create one Blob
+     * const Blob = await prisma.blob.create({
+     *   data: {
+     *     // ... data to create a Blob
+     *   }
+     * })
+     * 
+     */
+    create<T extends BlobCreateArgs>(args: SelectSubset<T, BlobCreateArgs<ExtArgs>>): Prisma__BlobClient<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many Blobs.
+     * @param {BlobCreateManyArgs} args - Arguments to create many Blobs.
+     * @example
+     * // Create many Blobs
+     * const blob = await prisma.blob.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends BlobCreateManyArgs>(args?: SelectSubset<T, BlobCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many Blobs and returns the data saved in the database.
+     * @param {BlobCreateManyAndReturnArgs} args - Arguments to create many Blobs.
+     * @example
+     * // Create many Blobs
+     * const blob = await prisma.blob.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many Blobs and only return the `id`
+     * const blobWithIdOnly = await prisma.blob.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends BlobCreateManyAndReturnArgs>(args?: SelectSubset<T, BlobCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a Blob.
+     * @param {BlobDeleteArgs} args - Arguments to delete one Blob.
+     * @example
+     * // Delete one Blob
+     * const Blob = await prisma.blob.delete({
+     *   where: {
+     *     // ... filter to delete one Blob
+     *   }
+     * })
+     * 
+     */
+    delete<T extends BlobDeleteArgs>(args: SelectSubset<T, BlobDeleteArgs<ExtArgs>>): Prisma__BlobClient<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one Blob.
+     * @param {BlobUpdateArgs} args - Arguments to update one Blob.
+     * @example
+     * // Update one Blob
+     * const blob = await prisma.blob.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends BlobUpdateArgs>(args: SelectSubset<T, BlobUpdateArgs<ExtArgs>>): Prisma__BlobClient<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more Blobs.
+     * @param {BlobDeleteManyArgs} args - Arguments to filter Blobs to delete.
+     * @example
+     * // Delete a few Blobs
+     * const { count } = await prisma.blob.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends BlobDeleteManyArgs>(args?: SelectSubset<T, BlobDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Blobs.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BlobUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many Blobs
+     * const blob = await prisma.blob.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends BlobUpdateManyArgs>(args: SelectSubset<T, BlobUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Blobs and returns the data updated in the database.
+     * @param {BlobUpdateManyAndReturnArgs} args - Arguments to update many Blobs.
+     * @example
+     * // Update many Blobs
+     * const blob = await prisma.blob.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more Blobs and only return the `id`
+     * const blobWithIdOnly = await prisma.blob.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends BlobUpdateManyAndReturnArgs>(args: SelectSubset<T, BlobUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one Blob.
+     * @param {BlobUpsertArgs} args - Arguments to update or create a Blob.
+     * @example
+     * // Update or create a Blob
+     * const blob = await prisma.blob.upsert({
+     *   create: {
+     *     // ... data to create a Blob
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the Blob we want to update
+     *   }
+     * })
+     */
+    upsert<T extends BlobUpsertArgs>(args: SelectSubset<T, BlobUpsertArgs<ExtArgs>>): Prisma__BlobClient<$Result.GetResult<Prisma.$BlobPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of Blobs.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BlobCountArgs} args - Arguments to filter Blobs to count.
+     * @example
+     * // Count the number of Blobs
+     * const count = await prisma.blob.count({
+     *   where: {
+     *     // ... the filter for the Blobs we want to count
+     *   }
+     * })
+    **/
+    count<T extends BlobCountArgs>(
+      args?: Subset<T, BlobCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], BlobCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a Blob.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BlobAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends BlobAggregateArgs>(args: Subset<T, BlobAggregateArgs>): Prisma.PrismaPromise<GetBlobAggregateType<T>>
+
+    /**
+     * Group by Blob.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BlobGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends BlobGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: BlobGroupByArgs['orderBy'] }
+        : { orderBy?: BlobGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, BlobGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBlobGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the Blob model
+   */
+  readonly fields: BlobFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for Blob.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__BlobClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    files<T extends Blob$filesArgs<ExtArgs> = {}>(args?: Subset<T, Blob$filesArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    versions<T extends Blob$versionsArgs<ExtArgs> = {}>(args?: Subset<T, Blob$versionsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$FileVersionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the Blob model
+   */
+  interface BlobFieldRefs {
+    readonly id: FieldRef<"Blob", 'String'>
+    readonly size: FieldRef<"Blob", 'BigInt'>
+    readonly s3_key: FieldRef<"Blob", 'String'>
+    readonly ref_count: FieldRef<"Blob", 'Int'>
+    readonly created_at: FieldRef<"Blob", 'DateTime'>
+    readonly content_text: FieldRef<"Blob", 'String'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * Blob findUnique
+   */
+  export type BlobFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    /**
+     * Filter, which Blob to fetch.
+     */
+    where: BlobWhereUniqueInput
+  }
+
+  /**
+   * Blob findUniqueOrThrow
+   */
+  export type BlobFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    /**
+     * Filter, which Blob to fetch.
+     */
+    where: BlobWhereUniqueInput
+  }
+
+  /**
+   * Blob findFirst
+   */
+  export type BlobFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    /**
+     * Filter, which Blob to fetch.
+     */
+    where?: BlobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Blobs to fetch.
+     */
+    orderBy?: BlobOrderByWithRelationInput | BlobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Blobs.
+     */
+    cursor?: BlobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Blobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Blobs.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Blobs.
+     */
+    distinct?: BlobScalarFieldEnum | BlobScalarFieldEnum[]
+  }
+
+  /**
+   * Blob findFirstOrThrow
+   */
+  export type BlobFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    /**
+     * Filter, which Blob to fetch.
+     */
+    where?: BlobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Blobs to fetch.
+     */
+    orderBy?: BlobOrderByWithRelationInput | BlobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Blobs.
+     */
+    cursor?: BlobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Blobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Blobs.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Blobs.
+     */
+    distinct?: BlobScalarFieldEnum | BlobScalarFieldEnum[]
+  }
+
+  /**
+   * Blob findMany
+   */
+  export type BlobFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    /**
+     * Filter, which Blobs to fetch.
+     */
+    where?: BlobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Blobs to fetch.
+     */
+    orderBy?: BlobOrderByWithRelationInput | BlobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing Blobs.
+     */
+    cursor?: BlobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Blobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Blobs.
+     */
+    skip?: number
+    distinct?: BlobScalarFieldEnum | BlobScalarFieldEnum[]
+  }
+
+  /**
+   * Blob create
+   */
+  export type BlobCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    /**
+     * The data needed to create a Blob.
+     */
+    data: XOR<BlobCreateInput, BlobUncheckedCreateInput>
+  }
+
+  /**
+   * Blob createMany
+   */
+  export type BlobCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many Blobs.
+     */
+    data: BlobCreateManyInput | BlobCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * Blob createManyAndReturn
+   */
+  export type BlobCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * The data used to create many Blobs.
+     */
+    data: BlobCreateManyInput | BlobCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * Blob update
+   */
+  export type BlobUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    /**
+     * The data needed to update a Blob.
+     */
+    data: XOR<BlobUpdateInput, BlobUncheckedUpdateInput>
+    /**
+     * Choose, which Blob to update.
+     */
+    where: BlobWhereUniqueInput
+  }
+
+  /**
+   * Blob updateMany
+   */
+  export type BlobUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update Blobs.
+     */
+    data: XOR<BlobUpdateManyMutationInput, BlobUncheckedUpdateManyInput>
+    /**
+     * Filter which Blobs to update
+     */
+    where?: BlobWhereInput
+    /**
+     * Limit how many Blobs to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * Blob updateManyAndReturn
+   */
+  export type BlobUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * The data used to update Blobs.
+     */
+    data: XOR<BlobUpdateManyMutationInput, BlobUncheckedUpdateManyInput>
+    /**
+     * Filter which Blobs to update
+     */
+    where?: BlobWhereInput
+    /**
+     * Limit how many Blobs to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * Blob upsert
+   */
+  export type BlobUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    /**
+     * The filter to search for the Blob to update in case it exists.
+     */
+    where: BlobWhereUniqueInput
+    /**
+     * In case the Blob found by the `where` argument doesn't exist, create a new Blob with this data.
+     */
+    create: XOR<BlobCreateInput, BlobUncheckedCreateInput>
+    /**
+     * In case the Blob was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<BlobUpdateInput, BlobUncheckedUpdateInput>
+  }
+
+  /**
+   * Blob delete
+   */
+  export type BlobDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+    /**
+     * Filter which Blob to delete.
+     */
+    where: BlobWhereUniqueInput
+  }
+
+  /**
+   * Blob deleteMany
+   */
+  export type BlobDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Blobs to delete
+     */
+    where?: BlobWhereInput
+    /**
+     * Limit how many Blobs to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * Blob.files
+   */
+  export type Blob$filesArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the File
+     */
+    select?: FileSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the File
+     */
+    omit?: FileOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileInclude<ExtArgs> | null
+    where?: FileWhereInput
+    orderBy?: FileOrderByWithRelationInput | FileOrderByWithRelationInput[]
+    cursor?: FileWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: FileScalarFieldEnum | FileScalarFieldEnum[]
+  }
+
+  /**
+   * Blob.versions
+   */
+  export type Blob$versionsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the FileVersion
+     */
+    select?: FileVersionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the FileVersion
+     */
+    omit?: FileVersionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileVersionInclude<ExtArgs> | null
+    where?: FileVersionWhereInput
+    orderBy?: FileVersionOrderByWithRelationInput | FileVersionOrderByWithRelationInput[]
+    cursor?: FileVersionWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: FileVersionScalarFieldEnum | FileVersionScalarFieldEnum[]
+  }
+
+  /**
+   * Blob without action
+   */
+  export type BlobDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Blob
+     */
+    select?: BlobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Blob
+     */
+    omit?: BlobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: BlobInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model ShareLink
+   */
+
+  export type AggregateShareLink = {
+    _count: ShareLinkCountAggregateOutputType | null
+    _avg: ShareLinkAvgAggregateOutputType | null
+    _sum: ShareLinkSumAggregateOutputType | null
+    _min: ShareLinkMinAggregateOutputType | null
+    _max: ShareLinkMaxAggregateOutputType | null
+  }
+
+  export type ShareLinkAvgAggregateOutputType = {
+    max_downloads: number | null
+    download_count: number | null
+  }
+
+  export type ShareLinkSumAggregateOutputType = {
+    max_downloads: number | null
+    download_count: number | null
+  }
+
+  export type ShareLinkMinAggregateOutputType = {
+    id: string | null
+    token: string | null
+    label: string | null
+    permission: $Enums.SharePermission | null
+    expires_at: Date | null
+    password_hash: string | null
+    max_downloads: number | null
+    download_count: number | null
+    created_at: Date | null
+    owner_clerk_id: string | null
+    folder_id: string | null
+    file_id: string | null
+  }
+
+  export type ShareLinkMaxAggregateOutputType = {
+    id: string | null
+    token: string | null
+    label: string | null
+    permission: $Enums.SharePermission | null
+    expires_at: Date | null
+    password_hash: string | null
+    max_downloads: number | null
+    download_count: number | null
+    created_at: Date | null
+    owner_clerk_id: string | null
+    folder_id: string | null
+    file_id: string | null
+  }
+
+  export type ShareLinkCountAggregateOutputType = {
+    id: number
+    token: number
+    label: number
+    permission: number
+    expires_at: number
+    password_hash: number
+    max_downloads: number
+    download_count: number
+    created_at: number
+    owner_clerk_id: number
+    folder_id: number
+    file_id: number
+    _all: number
+  }
+
+
+  export type ShareLinkAvgAggregateInputType = {
+    max_downloads?: true
+    download_count?: true
+  }
+
+  export type ShareLinkSumAggregateInputType = {
+    max_downloads?: true
+    download_count?: true
+  }
+
+  export type ShareLinkMinAggregateInputType = {
+    id?: true
+    token?: true
+    label?: true
+    permission?: true
+    expires_at?: true
+    password_hash?: true
+    max_downloads?: true
+    download_count?: true
+    created_at?: true
+    owner_clerk_id?: true
+    folder_id?: true
+    file_id?: true
+  }
+
+  export type ShareLinkMaxAggregateInputType = {
+    id?: true
+    token?: true
+    label?: true
+    permission?: true
+    expires_at?: true
+    password_hash?: true
+    max_downloads?: true
+    download_count?: true
+    created_at?: true
+    owner_clerk_id?: true
+    folder_id?: true
+    file_id?: true
+  }
+
+  export type ShareLinkCountAggregateInputType = {
+    id?: true
+    token?: true
+    label?: true
+    permission?: true
+    expires_at?: true
+    password_hash?: true
+    max_downloads?: true
+    download_count?: true
+    created_at?: true
+    owner_clerk_id?: true
+    folder_id?: true
+    file_id?: true
+    _all?: true
+  }
+
+  export type ShareLinkAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which ShareLink to aggregate.
+     */
+    where?: ShareLinkWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ShareLinks to fetch.
+     */
+    orderBy?: ShareLinkOrderByWithRelationInput | ShareLinkOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: ShareLinkWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ShareLinks from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ShareLinks.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned ShareLinks
+    **/
+    _count?: true | ShareLinkCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: ShareLinkAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: ShareLinkSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: ShareLinkMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: ShareLinkMaxAggregateInputType
+  }
+
+  export type GetShareLinkAggregateType<T extends ShareLinkAggregateArgs> = {
+        [P in keyof T & keyof AggregateShareLink]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateShareLink[P]>
+      : GetScalarType<T[P], AggregateShareLink[P]>
+  }
+
+
+
+
+  export type ShareLinkGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ShareLinkWhereInput
+    orderBy?: ShareLinkOrderByWithAggregationInput | ShareLinkOrderByWithAggregationInput[]
+    by: ShareLinkScalarFieldEnum[] | ShareLinkScalarFieldEnum
+    having?: ShareLinkScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: ShareLinkCountAggregateInputType | true
+    _avg?: ShareLinkAvgAggregateInputType
+    _sum?: ShareLinkSumAggregateInputType
+    _min?: ShareLinkMinAggregateInputType
+    _max?: ShareLinkMaxAggregateInputType
+  }
+
+  export type ShareLinkGroupByOutputType = {
+    id: string
+    token: string
+    label: string | null
+    permission: $Enums.SharePermission
+    expires_at: Date | null
+    password_hash: string | null
+    max_downloads: number | null
+    download_count: number
+    created_at: Date
+    owner_clerk_id: string
+    folder_id: string | null
+    file_id: string | null
+    _count: ShareLinkCountAggregateOutputType | null
+    _avg: ShareLinkAvgAggregateOutputType | null
+    _sum: ShareLinkSumAggregateOutputType | null
+    _min: ShareLinkMinAggregateOutputType | null
+    _max: ShareLinkMaxAggregateOutputType | null
+  }
+
+  type GetShareLinkGroupByPayload<T extends ShareLinkGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<ShareLinkGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof ShareLinkGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], ShareLinkGroupByOutputType[P]>
+            : GetScalarType<T[P], ShareLinkGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type ShareLinkSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    token?: boolean
+    label?: boolean
+    permission?: boolean
+    expires_at?: boolean
+    password_hash?: boolean
+    max_downloads?: boolean
+    download_count?: boolean
+    created_at?: boolean
+    owner_clerk_id?: boolean
+    folder_id?: boolean
+    file_id?: boolean
+    folder?: boolean | ShareLink$folderArgs<ExtArgs>
+    file?: boolean | ShareLink$fileArgs<ExtArgs>
+    unlock_attempts?: boolean | ShareLink$unlock_attemptsArgs<ExtArgs>
+    _count?: boolean | ShareLinkCountOutputTypeDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["shareLink"]>
+
+  export type ShareLinkSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    token?: boolean
+    label?: boolean
+    permission?: boolean
+    expires_at?: boolean
+    password_hash?: boolean
+    max_downloads?: boolean
+    download_count?: boolean
+    created_at?: boolean
+    owner_clerk_id?: boolean
+    folder_id?: boolean
+    file_id?: boolean
+    folder?: boolean | ShareLink$folderArgs<ExtArgs>
+    file?: boolean | ShareLink$fileArgs<ExtArgs>
+  }, ExtArgs["result"]["shareLink"]>
+
+  export type ShareLinkSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    token?: boolean
+    label?: boolean
+    permission?: boolean
+    expires_at?: boolean
+    password_hash?: boolean
+    max_downloads?: boolean
+    download_count?: boolean
+    created_at?: boolean
+    owner_clerk_id?: boolean
+    folder_id?: boolean
+    file_id?: boolean
+    folder?: boolean | ShareLink$folderArgs<ExtArgs>
+    file?: boolean | ShareLink$fileArgs<ExtArgs>
+  }, ExtArgs["result"]["shareLink"]>
+
+  export type ShareLinkSelectScalar = {
+    id?: boolean
+    token?: boolean
+    label?: boolean
+    permission?: boolean
+    expires_at?: boolean
+    password_hash?: boolean
+    max_downloads?: boolean
+    download_count?: boolean
+    created_at?: boolean
+    owner_clerk_id?: boolean
+    folder_id?: boolean
+    file_id?: boolean
+  }
+
+  export type ShareLinkOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "token" | "label" | "permission" | "expires_at" | "password_hash" | "max_downloads" | "download_count" | "created_at" | "owner_clerk_id" | "folder_id" | "file_id", ExtArgs["result"]["shareLink"]>
+  export type ShareLinkInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    folder?: boolean | ShareLink$folderArgs<ExtArgs>
+    file?: boolean | ShareLink$fileArgs<ExtArgs>
+    unlock_attempts?: boolean | ShareLink$unlock_attemptsArgs<ExtArgs>
+    _count?: boolean | ShareLinkCountOutputTypeDefaultArgs<ExtArgs>
+  }
+  export type ShareLinkIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    folder?: boolean | ShareLink$folderArgs<ExtArgs>
+    file?: boolean | ShareLink$fileArgs<ExtArgs>
+  }
+  export type ShareLinkIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    folder?: boolean | ShareLink$folderArgs<ExtArgs>
+    file?: boolean | ShareLink$fileArgs<ExtArgs>
+  }
+
+  export type $ShareLinkPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "ShareLink"
+    objects: {
+      folder: Prisma.$FolderPayload<ExtArgs> | null
+      file: Prisma.$FilePayload<ExtArgs> | null
+      unlock_attempts: Prisma.$ShareUnlockAttemptPayload<ExtArgs>[]
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      token: string
+      label: string | null
+      permission: $Enums.SharePermission
+      expires_at: Date | null
+      password_hash: string | null
+      max_downloads: number | null
+      download_count: number
+      created_at: Date
+      owner_clerk_id: string
+      folder_id: string | null
+      file_id: string | null
+    }, ExtArgs["result"]["shareLink"]>
+    composites: {}
+  }
+
+  type ShareLinkGetPayload<S extends boolean | null | undefined | ShareLinkDefaultArgs> = $Result.GetResult<Prisma.$ShareLinkPayload, S>
+
+  type ShareLinkCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<ShareLinkFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: ShareLinkCountAggregateInputType | true
+    }
+
+  export interface ShareLinkDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShareLink'], meta: { name: 'ShareLink' } }
+    /**
+     * Find zero or one ShareLink that matches the filter.
+     * @param {ShareLinkFindUniqueArgs} args - Arguments to find a ShareLink
+     * @example
+     * // Get one ShareLink
+     * const shareLink = await prisma.shareLink.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends ShareLinkFindUniqueArgs>(args: SelectSubset<T, ShareLinkFindUniqueArgs<ExtArgs>>): Prisma__ShareLinkClient<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one ShareLink that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {ShareLinkFindUniqueOrThrowArgs} args - Arguments to find a ShareLink
+     * @example
+     * // Get one ShareLink
+     * const shareLink = await prisma.shareLink.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends ShareLinkFindUniqueOrThrowArgs>(args: SelectSubset<T, ShareLinkFindUniqueOrThrowArgs<ExtArgs>>): Prisma__ShareLinkClient<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first ShareLink that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareLinkFindFirstArgs} args - Arguments to find a ShareLink
+     * @example
+     * // Get one ShareLink
+     * const shareLink = await prisma.shareLink.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends ShareLinkFindFirstArgs>(args?: SelectSubset<T, ShareLinkFindFirstArgs<ExtArgs>>): Prisma__ShareLinkClient<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first ShareLink that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareLinkFindFirstOrThrowArgs} args - Arguments to find a ShareLink
+     * @example
+     * // Get one ShareLink
+     * const shareLink = await prisma.shareLink.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends ShareLinkFindFirstOrThrowArgs>(args?: SelectSubset<T, ShareLinkFindFirstOrThrowArgs<ExtArgs>>): Prisma__ShareLinkClient<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more ShareLinks that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareLinkFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all ShareLinks
+     * const shareLinks = await prisma.shareLink.findMany()
+     * 
+     * // Get first 10 ShareLinks
+     * const shareLinks = await prisma.shareLink.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const shareLinkWithIdOnly = await prisma.shareLink.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends ShareLinkFindManyArgs>(args?: SelectSubset<T, ShareLinkFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a ShareLink.
+     * @param {ShareLinkCreateArgs} args - Arguments to create a ShareLink.
+     * @example
+     * // Create one ShareLink
+     * const ShareLink = await prisma.shareLink.create({
+     *   data: {
+     *     // ... data to create a ShareLink
+     *   }
+     * })
+     * 
+     */
+    create<T extends ShareLinkCreateArgs>(args: SelectSubset<T, ShareLinkCreateArgs<ExtArgs>>): Prisma__ShareLinkClient<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many ShareLinks.
+     * @param {ShareLinkCreateManyArgs} args - Arguments to create many ShareLinks.
+     * @example
+     * // Create many ShareLinks
+     * const shareLink = await prisma.shareLink.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends ShareLinkCreateManyArgs>(args?: SelectSubset<T, ShareLinkCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many ShareLinks and returns the data saved in the database.
+     * @param {ShareLinkCreateManyAndReturnArgs} args - Arguments to create many ShareLinks.
+     * @example
+     * // Create many ShareLinks
+     * const shareLink = await prisma.shareLink.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many ShareLinks and only return the `id`
+     * const shareLinkWithIdOnly = await prisma.shareLink.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends ShareLinkCreateManyAndReturnArgs>(args?: SelectSubset<T, ShareLinkCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a ShareLink.
+     * @param {ShareLinkDeleteArgs} args - Arguments to delete one ShareLink.
+     * @example
+     * // Delete one ShareLink
+     * const ShareLink = await prisma.shareLink.delete({
+     *   where: {
+     *     // ... filter to delete one ShareLink
+     *   }
+     * })
+     * 
+     */
+    delete<T extends ShareLinkDeleteArgs>(args: SelectSubset<T, ShareLinkDeleteArgs<ExtArgs>>): Prisma__ShareLinkClient<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one ShareLink.
+     * @param {ShareLinkUpdateArgs} args - Arguments to update one ShareLink.
+     * @example
+     * // Update one ShareLink
+     * const shareLink = await prisma.shareLink.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends ShareLinkUpdateArgs>(args: SelectSubset<T, ShareLinkUpdateArgs<ExtArgs>>): Prisma__ShareLinkClient<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more ShareLinks.
+     * @param {ShareLinkDeleteManyArgs} args - Arguments to filter ShareLinks to delete.
+     * @example
+     * // Delete a few ShareLinks
+     * const { count } = await prisma.shareLink.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends ShareLinkDeleteManyArgs>(args?: SelectSubset<T, ShareLinkDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more ShareLinks.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareLinkUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many ShareLinks
+     * const shareLink = await prisma.shareLink.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends ShareLinkUpdateManyArgs>(args: SelectSubset<T, ShareLinkUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more ShareLinks and returns the data updated in the database.
+     * @param {ShareLinkUpdateManyAndReturnArgs} args - Arguments to update many ShareLinks.
+     * @example
+     * // Update many ShareLinks
+     * const shareLink = await prisma.shareLink.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more ShareLinks and only return the `id`
+     * const shareLinkWithIdOnly = await prisma.shareLink.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends ShareLinkUpdateManyAndReturnArgs>(args: SelectSubset<T, ShareLinkUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one ShareLink.
+     * @param {ShareLinkUpsertArgs} args - Arguments to update or create a ShareLink.
+     * @example
+     * // Update or create a ShareLink
+     * const shareLink = await prisma.shareLink.upsert({
+     *   create: {
+     *     // ... data to create a ShareLink
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the ShareLink we want to update
+     *   }
+     * })
+     */
+    upsert<T extends ShareLinkUpsertArgs>(args: SelectSubset<T, ShareLinkUpsertArgs<ExtArgs>>): Prisma__ShareLinkClient<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of ShareLinks.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareLinkCountArgs} args - Arguments to filter ShareLinks to count.
+     * @example
+     * // Count the number of ShareLinks
+     * const count = await prisma.shareLink.count({
+     *   where: {
+     *     // ... the filter for the ShareLinks we want to count
+     *   }
+     * })
+    **/
+    count<T extends ShareLinkCountArgs>(
+      args?: Subset<T, ShareLinkCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], ShareLinkCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a ShareLink.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareLinkAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends ShareLinkAggregateArgs>(args: Subset<T, ShareLinkAggregateArgs>): Prisma.PrismaPromise<GetShareLinkAggregateType<T>>
+
+    /**
+     * Group by ShareLink.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareLinkGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends ShareLinkGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: ShareLinkGroupByArgs['orderBy'] }
+        : { orderBy?: ShareLinkGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, ShareLinkGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShareLinkGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the ShareLink model
+   */
+  readonly fields: ShareLinkFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for ShareLink.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__ShareLinkClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    folder<T extends ShareLink$folderArgs<ExtArgs> = {}>(args?: Subset<T, ShareLink$folderArgs<ExtArgs>>): Prisma__FolderClient<$Result.GetResult<Prisma.$FolderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    file<T extends ShareLink$fileArgs<ExtArgs> = {}>(args?: Subset<T, ShareLink$fileArgs<ExtArgs>>): Prisma__FileClient<$Result.GetResult<Prisma.$FilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    unlock_attempts<T extends ShareLink$unlock_attemptsArgs<ExtArgs> = {}>(args?: Subset<T, ShareLink$unlock_attemptsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the ShareLink model
+   */
+  interface ShareLinkFieldRefs {
+    readonly id: FieldRef<"ShareLink", 'String'>
+    readonly token: FieldRef<"ShareLink", 'String'>
+    readonly label: FieldRef<"ShareLink", 'String'>
+    readonly permission: FieldRef<"ShareLink", 'SharePermission'>
+    readonly expires_at: FieldRef<"ShareLink", 'DateTime'>
+    readonly password_hash: FieldRef<"ShareLink", 'String'>
+    readonly max_downloads: FieldRef<"ShareLink", 'Int'>
+    readonly download_count: FieldRef<"ShareLink", 'Int'>
+    readonly created_at: FieldRef<"ShareLink", 'DateTime'>
+    readonly owner_clerk_id: FieldRef<"ShareLink", 'String'>
+    readonly folder_id: FieldRef<"ShareLink", 'String'>
+    readonly file_id: FieldRef<"ShareLink", 'String'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * ShareLink findUnique
+   */
+  export type ShareLinkFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    /**
+     * Filter, which ShareLink to fetch.
+     */
+    where: ShareLinkWhereUniqueInput
+  }
+
+  /**
+   * ShareLink findUniqueOrThrow
+   */
+  export type ShareLinkFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    /**
+     * Filter, which ShareLink to fetch.
+     */
+    where: ShareLinkWhereUniqueInput
+  }
+
+  /**
+   * ShareLink findFirst
+   */
+  export type ShareLinkFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    /**
+     * Filter, which ShareLink to fetch.
+     */
+    where?: ShareLinkWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ShareLinks to fetch.
+     */
+    orderBy?: ShareLinkOrderByWithRelationInput | ShareLinkOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for ShareLinks.
+     */
+    cursor?: ShareLinkWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ShareLinks from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ShareLinks.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of ShareLinks.
+     */
+    distinct?: ShareLinkScalarFieldEnum | ShareLinkScalarFieldEnum[]
+  }
+
+  /**
+   * ShareLink findFirstOrThrow
+   */
+  export type ShareLinkFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    /**
+     * Filter, which ShareLink to fetch.
+     */
+    where?: ShareLinkWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ShareLinks to fetch.
+     */
+    orderBy?: ShareLinkOrderByWithRelationInput | ShareLinkOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for ShareLinks.
+     */
+    cursor?: ShareLinkWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ShareLinks from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ShareLinks.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of ShareLinks.
+     */
+    distinct?: ShareLinkScalarFieldEnum | ShareLinkScalarFieldEnum[]
+  }
+
+  /**
+   * ShareLink findMany
+   */
+  export type ShareLinkFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    /**
+     * Filter, which ShareLinks to fetch.
+     */
+    where?: ShareLinkWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ShareLinks to fetch.
+     */
+    orderBy?: ShareLinkOrderByWithRelationInput | ShareLinkOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing ShareLinks.
+     */
+    cursor?: ShareLinkWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ShareLinks from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ShareLinks.
+     */
+    skip?: number
+    distinct?: ShareLinkScalarFieldEnum | ShareLinkScalarFieldEnum[]
+  }
+
+  /**
+   * ShareLink create
+   */
+  export type ShareLinkCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    /**
+     * The data needed to create a ShareLink.
+     */
+    data: XOR<ShareLinkCreateInput, ShareLinkUncheckedCreateInput>
+  }
+
+  /**
+   * ShareLink createMany
+   */
+  export type ShareLinkCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many ShareLinks.
+     */
+    data: ShareLinkCreateManyInput | ShareLinkCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * ShareLink createManyAndReturn
+   */
+  export type ShareLinkCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * The data used to create many ShareLinks.
+     */
+    data: ShareLinkCreateManyInput | ShareLinkCreateManyInput[]
+    skipDuplicates?: boolean
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * ShareLink update
+   */
+  export type ShareLinkUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    /**
+     * The data needed to update a ShareLink.
+     */
+    data: XOR<ShareLinkUpdateInput, ShareLinkUncheckedUpdateInput>
+    /**
+     * Choose, which ShareLink to update.
+     */
+    where: ShareLinkWhereUniqueInput
+  }
+
+  /**
+   * ShareLink updateMany
+   */
+  export type ShareLinkUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update ShareLinks.
+     */
+    data: XOR<ShareLinkUpdateManyMutationInput, ShareLinkUncheckedUpdateManyInput>
+    /**
+     * Filter which ShareLinks to update
+     */
+    where?: ShareLinkWhereInput
+    /**
+     * Limit how many ShareLinks to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * ShareLink updateManyAndReturn
+   */
+  export type ShareLinkUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * The data used to update ShareLinks.
+     */
+    data: XOR<ShareLinkUpdateManyMutationInput, ShareLinkUncheckedUpdateManyInput>
+    /**
+     * Filter which ShareLinks to update
+     */
+    where?: ShareLinkWhereInput
+    /**
+     * Limit how many ShareLinks to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * ShareLink upsert
+   */
+  export type ShareLinkUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    /**
+     * The filter to search for the ShareLink to update in case it exists.
+     */
+    where: ShareLinkWhereUniqueInput
+    /**
+     * In case the ShareLink found by the `where` argument doesn't exist, create a new ShareLink with this data.
+     */
+    create: XOR<ShareLinkCreateInput, ShareLinkUncheckedCreateInput>
+    /**
+     * In case the ShareLink was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<ShareLinkUpdateInput, ShareLinkUncheckedUpdateInput>
+  }
+
+  /**
+   * ShareLink delete
+   */
+  export type ShareLinkDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+    /**
+     * Filter which ShareLink to delete.
+     */
+    where: ShareLinkWhereUniqueInput
+  }
+
+  /**
+   * ShareLink deleteMany
+   */
+  export type ShareLinkDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which ShareLinks to delete
+     */
+    where?: ShareLinkWhereInput
+    /**
+     * Limit how many ShareLinks to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * ShareLink.folder
+   */
+  export type ShareLink$folderArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Folder
+     */
+    select?: FolderSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Folder
+     */
+    omit?: FolderOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FolderInclude<ExtArgs> | null
+    where?: FolderWhereInput
+  }
+
+  /**
+   * ShareLink.file
+   */
+  export type ShareLink$fileArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the File
+     */
+    select?: FileSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the File
+     */
+    omit?: FileOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: FileInclude<ExtArgs> | null
+    where?: FileWhereInput
+  }
+
+  /**
+   * ShareLink.unlock_attempts
+   */
+  export type ShareLink$unlock_attemptsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+    where?: ShareUnlockAttemptWhereInput
+    orderBy?: ShareUnlockAttemptOrderByWithRelationInput | ShareUnlockAttemptOrderByWithRelationInput[]
+    cursor?: ShareUnlockAttemptWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: ShareUnlockAttemptScalarFieldEnum | ShareUnlockAttemptScalarFieldEnum[]
+  }
+
+  /**
+   * ShareLink without action
+   */
+  export type ShareLinkDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareLink
+     */
+    select?: ShareLinkSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareLink
+     */
+    omit?: ShareLinkOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareLinkInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model ShareUnlockAttempt
+   */
+
+  export type AggregateShareUnlockAttempt = {
+    _count: ShareUnlockAttemptCountAggregateOutputType | null
+    _avg: ShareUnlockAttemptAvgAggregateOutputType | null
+    _sum: ShareUnlockAttemptSumAggregateOutputType | null
+    _min: ShareUnlockAttemptMinAggregateOutputType | null
+    _max: ShareUnlockAttemptMaxAggregateOutputType | null
+  }
+
+  export type ShareUnlockAttemptAvgAggregateOutputType = {
+    failed_attempts: number | null
+  }
+
+  export type ShareUnlockAttemptSumAggregateOutputType = {
+    failed_attempts: number | null
+  }
+
+  export type ShareUnlockAttemptMinAggregateOutputType = {
+    link_id: string | null
+    client: string | null
+    failed_attempts: number | null
+    locked_until: Date | null
+  }
+
+  export type ShareUnlockAttemptMaxAggregateOutputType = {
+    link_id: string | null
+    client: string | null
+    failed_attempts: number | null
+    locked_until: Date | null
+  }
+
+  export type ShareUnlockAttemptCountAggregateOutputType = {
+    link_id: number
+    client: number
+    failed_attempts: number
+    locked_until: number
+    _all: number
+  }
+
+
+  export type ShareUnlockAttemptAvgAggregateInputType = {
+    failed_attempts?: true
+  }
+
+  export type ShareUnlockAttemptSumAggregateInputType = {
+    failed_attempts?: true
+  }
+
+  export type ShareUnlockAttemptMinAggregateInputType = {
+    link_id?: true
+    client?: true
+    failed_attempts?: true
+    locked_until?: true
+  }
+
+  export type ShareUnlockAttemptMaxAggregateInputType = {
+    link_id?: true
+    client?: true
+    failed_attempts?: true
+    locked_until?: true
+  }
+
+  export type ShareUnlockAttemptCountAggregateInputType = {
+    link_id?: true
+    client?: true
+    failed_attempts?: true
+    locked_until?: true
+    _all?: true
+  }
+
+  export type ShareUnlockAttemptAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which ShareUnlockAttempt to aggregate.
+     */
+    where?: ShareUnlockAttemptWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ShareUnlockAttempts to fetch.
+     */
+    orderBy?: ShareUnlockAttemptOrderByWithRelationInput | ShareUnlockAttemptOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: ShareUnlockAttemptWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ShareUnlockAttempts from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ShareUnlockAttempts.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned ShareUnlockAttempts
+    **/
+    _count?: true | ShareUnlockAttemptCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: ShareUnlockAttemptAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: ShareUnlockAttemptSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: ShareUnlockAttemptMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: ShareUnlockAttemptMaxAggregateInputType
+  }
+
+  export type GetShareUnlockAttemptAggregateType<T extends ShareUnlockAttemptAggregateArgs> = {
+        [P in keyof T & keyof AggregateShareUnlockAttempt]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateShareUnlockAttempt[P]>
+      : GetScalarType<T[P], AggregateShareUnlockAttempt[P]>
+  }
+
+
+
+
+  export type ShareUnlockAttemptGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ShareUnlockAttemptWhereInput
+    orderBy?: ShareUnlockAttemptOrderByWithAggregationInput | ShareUnlockAttemptOrderByWithAggregationInput[]
+    by: ShareUnlockAttemptScalarFieldEnum[] | ShareUnlockAttemptScalarFieldEnum
+    having?: ShareUnlockAttemptScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: ShareUnlockAttemptCountAggregateInputType | true
+    _avg?: ShareUnlockAttemptAvgAggregateInputType
+    _sum?: ShareUnlockAttemptSumAggregateInputType
+    _min?: ShareUnlockAttemptMinAggregateInputType
+    _max?: ShareUnlockAttemptMaxAggregateInputType
+  }
+
+  export type ShareUnlockAttemptGroupByOutputType = {
+    link_id: string
+    client: string
+    failed_attempts: number
+    locked_until: Date | null
+    _count: ShareUnlockAttemptCountAggregateOutputType | null
+    _avg: ShareUnlockAttemptAvgAggregateOutputType | null
+    _sum: ShareUnlockAttemptSumAggregateOutputType | null
+    _min: ShareUnlockAttemptMinAggregateOutputType | null
+    _max: ShareUnlockAttemptMaxAggregateOutputType | null
+  }
+
+  type GetShareUnlockAttemptGroupByPayload<T extends ShareUnlockAttemptGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<ShareUnlockAttemptGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof ShareUnlockAttemptGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], ShareUnlockAttemptGroupByOutputType[P]>
+            : GetScalarType<T[P], ShareUnlockAttemptGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type ShareUnlockAttemptSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    link_id?: boolean
+    client?: boolean
+    failed_attempts?: boolean
+    locked_until?: boolean
+    link?: boolean | ShareLinkDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["shareUnlockAttempt"]>
+
+  export type ShareUnlockAttemptSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    link_id?: boolean
+    client?: boolean
+    failed_attempts?: boolean
+    locked_until?: boolean
+    link?: boolean | ShareLinkDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["shareUnlockAttempt"]>
+
+  export type ShareUnlockAttemptSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    link_id?: boolean
+    client?: boolean
+    failed_attempts?: boolean
+    locked_until?: boolean
+    link?: boolean | ShareLinkDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["shareUnlockAttempt"]>
+
+  export type ShareUnlockAttemptSelectScalar = {
+    link_id?: boolean
+    client?: boolean
+    failed_attempts?: boolean
+    locked_until?: boolean
+  }
+
+  export type ShareUnlockAttemptOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"link_id" | "client" | "failed_attempts" | "locked_until", ExtArgs["result"]["shareUnlockAttempt"]>
+  export type ShareUnlockAttemptInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    link?: boolean | ShareLinkDefaultArgs<ExtArgs>
+  }
+  export type ShareUnlockAttemptIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    link?: boolean | ShareLinkDefaultArgs<ExtArgs>
+  }
+  export type ShareUnlockAttemptIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    link?: boolean | ShareLinkDefaultArgs<ExtArgs>
+  }
+
+  export type $ShareUnlockAttemptPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "ShareUnlockAttempt"
+    objects: {
+      link: Prisma.$ShareLinkPayload<ExtArgs>
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      link_id: string
+      client: string
+      failed_attempts: number
+      locked_until: Date | null
+    }, ExtArgs["result"]["shareUnlockAttempt"]>
+    composites: {}
+  }
+
+  type ShareUnlockAttemptGetPayload<S extends boolean | null | undefined | ShareUnlockAttemptDefaultArgs> = $Result.GetResult<Prisma.$ShareUnlockAttemptPayload, S>
+
+  type ShareUnlockAttemptCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<ShareUnlockAttemptFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: ShareUnlockAttemptCountAggregateInputType | true
+    }
+
+  export interface ShareUnlockAttemptDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShareUnlockAttempt'], meta: { name: 'ShareUnlockAttempt' } }
+    /**
+     * Find zero or one ShareUnlockAttempt that matches the filter.
+     * @param {ShareUnlockAttemptFindUniqueArgs} args - Arguments to find a ShareUnlockAttempt
+     * @example
+     * // Get one ShareUnlockAttempt
+     * const shareUnlockAttempt = await prisma.shareUnlockAttempt.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends ShareUnlockAttemptFindUniqueArgs>(args: SelectSubset<T, ShareUnlockAttemptFindUniqueArgs<ExtArgs>>): Prisma__ShareUnlockAttemptClient<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one ShareUnlockAttempt that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {ShareUnlockAttemptFindUniqueOrThrowArgs} args - Arguments to find a ShareUnlockAttempt
+     * @example
+     * // Get one ShareUnlockAttempt
+     * const shareUnlockAttempt = await prisma.shareUnlockAttempt.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends ShareUnlockAttemptFindUniqueOrThrowArgs>(args: SelectSubset<T, ShareUnlockAttemptFindUniqueOrThrowArgs<ExtArgs>>): Prisma__ShareUnlockAttemptClient<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first ShareUnlockAttempt that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareUnlockAttemptFindFirstArgs} args - Arguments to find a ShareUnlockAttempt
+     * @example
+     * // Get one ShareUnlockAttempt
+     * const shareUnlockAttempt = await prisma.shareUnlockAttempt.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends ShareUnlockAttemptFindFirstArgs>(args?: SelectSubset<T, ShareUnlockAttemptFindFirstArgs<ExtArgs>>): Prisma__ShareUnlockAttemptClient<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first ShareUnlockAttempt that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareUnlockAttemptFindFirstOrThrowArgs} args - Arguments to find a ShareUnlockAttempt
+     * @example
+     * // Get one ShareUnlockAttempt
+     * const shareUnlockAttempt = await prisma.shareUnlockAttempt.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends ShareUnlockAttemptFindFirstOrThrowArgs>(args?: SelectSubset<T, ShareUnlockAttemptFindFirstOrThrowArgs<ExtArgs>>): Prisma__ShareUnlockAttemptClient<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more ShareUnlockAttempts that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareUnlockAttemptFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all ShareUnlockAttempts
+     * const shareUnlockAttempts = await prisma.shareUnlockAttempt.findMany()
+     * 
+     * // Get first 10 ShareUnlockAttempts
+     * const shareUnlockAttempts = await prisma.shareUnlockAttempt.findMany({ take: 10 })
+     * 
+     * // Only select the `link_id`
+     * const shareUnlockAttemptWithLink_idOnly = await prisma.shareUnlockAttempt.findMany({ select: { link_id: true } })
+     * 
+     */
+    findMany<T extends ShareUnlockAttemptFindManyArgs>(args?: SelectSubset<T, ShareUnlockAttemptFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a ShareUnlockAttempt.
+     * @param {ShareUnlockAttemptCreateArgs} args - Arguments to create a ShareUnlockAttempt.
+     * @example
+     * // Create one ShareUnlockAttempt
+     * const ShareUnlockAttempt = await prisma.shareUnlockAttempt.create({
+     *   data: {
+     *     // ... data to create a ShareUnlockAttempt
+     *   }
+     * })
+     * 
+     */
+    create<T extends ShareUnlockAttemptCreateArgs>(args: SelectSubset<T, ShareUnlockAttemptCreateArgs<ExtArgs>>): Prisma__ShareUnlockAttemptClient<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many ShareUnlockAttempts.
+     * @param {ShareUnlockAttemptCreateManyArgs} args - Arguments to create many ShareUnlockAttempts.
+     * @example
+     * // Create many ShareUnlockAttempts
+     * const shareUnlockAttempt = await prisma.shareUnlockAttempt.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends ShareUnlockAttemptCreateManyArgs>(args?: SelectSubset<T, ShareUnlockAttemptCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many ShareUnlockAttempts and returns the data saved in the database.
+     * @param {ShareUnlockAttemptCreateManyAndReturnArgs} args - Arguments to create many ShareUnlockAttempts.
+     * @example
+     * // Create many ShareUnlockAttempts
+     * const shareUnlockAttempt = await prisma.shareUnlockAttempt.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many ShareUnlockAttempts and only return the `link_id`
+     * const shareUnlockAttemptWithLink_idOnly = await prisma.shareUnlockAttempt.createManyAndReturn({
+     *   select: { link_id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends ShareUnlockAttemptCreateManyAndReturnArgs>(args?: SelectSubset<T, ShareUnlockAttemptCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a ShareUnlockAttempt.
+     * @param {ShareUnlockAttemptDeleteArgs} args - Arguments to delete one ShareUnlockAttempt.
+     * @example
+     * // Delete one ShareUnlockAttempt
+     * const ShareUnlockAttempt = await prisma.shareUnlockAttempt.delete({
+     *   where: {
+     *     // ... filter to delete one ShareUnlockAttempt
+     *   }
+     * })
+     * 
+     */
+    delete<T extends ShareUnlockAttemptDeleteArgs>(args: SelectSubset<T, ShareUnlockAttemptDeleteArgs<ExtArgs>>): Prisma__ShareUnlockAttemptClient<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one ShareUnlockAttempt.
+     * @param {ShareUnlockAttemptUpdateArgs} args - Arguments to update one ShareUnlockAttempt.
+     * @example
+     * // Update one ShareUnlockAttempt
+     * const shareUnlockAttempt = await prisma.shareUnlockAttempt.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends ShareUnlockAttemptUpdateArgs>(args: SelectSubset<T, ShareUnlockAttemptUpdateArgs<ExtArgs>>): Prisma__ShareUnlockAttemptClient<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more ShareUnlockAttempts.
+     * @param {ShareUnlockAttemptDeleteManyArgs} args - Arguments to filter ShareUnlockAttempts to delete.
+     * @example
+     * // Delete a few ShareUnlockAttempts
+     * const { count } = await prisma.shareUnlockAttempt.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends ShareUnlockAttemptDeleteManyArgs>(args?: SelectSubset<T, ShareUnlockAttemptDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more ShareUnlockAttempts.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareUnlockAttemptUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many ShareUnlockAttempts
+     * const shareUnlockAttempt = await prisma.shareUnlockAttempt.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends ShareUnlockAttemptUpdateManyArgs>(args: SelectSubset<T, ShareUnlockAttemptUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more ShareUnlockAttempts and returns the data updated in the database.
+     * @param {ShareUnlockAttemptUpdateManyAndReturnArgs} args - Arguments to update many ShareUnlockAttempts.
+     * @example
+     * // Update many ShareUnlockAttempts
+     * const shareUnlockAttempt = await prisma.shareUnlockAttempt.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more ShareUnlockAttempts and only return the `link_id`
+     * const shareUnlockAttemptWithLink_idOnly = await prisma.shareUnlockAttempt.updateManyAndReturn({
+     *   select: { link_id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends ShareUnlockAttemptUpdateManyAndReturnArgs>(args: SelectSubset<T, ShareUnlockAttemptUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one ShareUnlockAttempt.
+     * @param {ShareUnlockAttemptUpsertArgs} args - Arguments to update or create a ShareUnlockAttempt.
+     * @example
+     * // Update or create a ShareUnlockAttempt
+     * const shareUnlockAttempt = await prisma.shareUnlockAttempt.upsert({
+     *   create: {
+     *     // ... data to create a ShareUnlockAttempt
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the ShareUnlockAttempt we want to update
+     *   }
+     * })
+     */
+    upsert<T extends ShareUnlockAttemptUpsertArgs>(args: SelectSubset<T, ShareUnlockAttemptUpsertArgs<ExtArgs>>): Prisma__ShareUnlockAttemptClient<$Result.GetResult<Prisma.$ShareUnlockAttemptPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of ShareUnlockAttempts.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareUnlockAttemptCountArgs} args - Arguments to filter ShareUnlockAttempts to count.
+     * @example
+     * // Count the number of ShareUnlockAttempts
+     * const count = await prisma.shareUnlockAttempt.count({
+     *   where: {
+     *     // ... the filter for the ShareUnlockAttempts we want to count
+     *   }
+     * })
+    **/
+    count<T extends ShareUnlockAttemptCountArgs>(
+      args?: Subset<T, ShareUnlockAttemptCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], ShareUnlockAttemptCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a ShareUnlockAttempt.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareUnlockAttemptAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends ShareUnlockAttemptAggregateArgs>(args: Subset<T, ShareUnlockAttemptAggregateArgs>): Prisma.PrismaPromise<GetShareUnlockAttemptAggregateType<T>>
+
+    /**
+     * Group by ShareUnlockAttempt.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ShareUnlockAttemptGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends ShareUnlockAttemptGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: ShareUnlockAttemptGroupByArgs['orderBy'] }
+        : { orderBy?: ShareUnlockAttemptGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, ShareUnlockAttemptGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShareUnlockAttemptGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the ShareUnlockAttempt model
+   */
+  readonly fields: ShareUnlockAttemptFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for ShareUnlockAttempt.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__ShareUnlockAttemptClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    link<T extends ShareLinkDefaultArgs<ExtArgs> = {}>(args?: Subset<T, ShareLinkDefaultArgs<ExtArgs>>): Prisma__ShareLinkClient<$Result.GetResult<Prisma.$ShareLinkPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the ShareUnlockAttempt model
+   */
+  interface ShareUnlockAttemptFieldRefs {
+    readonly link_id: FieldRef<"ShareUnlockAttempt", 'String'>
+    readonly client: FieldRef<"ShareUnlockAttempt", 'String'>
+    readonly failed_attempts: FieldRef<"ShareUnlockAttempt", 'Int'>
+    readonly locked_until: FieldRef<"ShareUnlockAttempt", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * ShareUnlockAttempt findUnique
+   */
+  export type ShareUnlockAttemptFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+    /**
+     * Filter, which ShareUnlockAttempt to fetch.
+     */
+    where: ShareUnlockAttemptWhereUniqueInput
+  }
+
+  /**
+   * ShareUnlockAttempt findUniqueOrThrow
+   */
+  export type ShareUnlockAttemptFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+    /**
+     * Filter, which ShareUnlockAttempt to fetch.
+     */
+    where: ShareUnlockAttemptWhereUniqueInput
+  }
+
+  /**
+   * ShareUnlockAttempt findFirst
+   */
+  export type ShareUnlockAttemptFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+    /**
+     * Filter, which ShareUnlockAttempt to fetch.
+     */
+    where?: ShareUnlockAttemptWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ShareUnlockAttempts to fetch.
+     */
+    orderBy?: ShareUnlockAttemptOrderByWithRelationInput | ShareUnlockAttemptOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for ShareUnlockAttempts.
+     */
+    cursor?: ShareUnlockAttemptWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ShareUnlockAttempts from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ShareUnlockAttempts.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of ShareUnlockAttempts.
+     */
+    distinct?: ShareUnlockAttemptScalarFieldEnum | ShareUnlockAttemptScalarFieldEnum[]
+  }
+
+  /**
+   * ShareUnlockAttempt findFirstOrThrow
+   */
+  export type ShareUnlockAttemptFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+    /**
+     * Filter, which ShareUnlockAttempt to fetch.
+     */
+    where?: ShareUnlockAttemptWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ShareUnlockAttempts to fetch.
+     */
+    orderBy?: ShareUnlockAttemptOrderByWithRelationInput | ShareUnlockAttemptOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for ShareUnlockAttempts.
+     */
+    cursor?: ShareUnlockAttemptWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ShareUnlockAttempts from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ShareUnlockAttempts.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of ShareUnlockAttempts.
+     */
+    distinct?: ShareUnlockAttemptScalarFieldEnum | ShareUnlockAttemptScalarFieldEnum[]
+  }
+
+  /**
+   * ShareUnlockAttempt findMany
+   */
+  export type ShareUnlockAttemptFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+    /**
+     * Filter, which ShareUnlockAttempts to fetch.
+     */
+    where?: ShareUnlockAttemptWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ShareUnlockAttempts to fetch.
+     */
+    orderBy?: ShareUnlockAttemptOrderByWithRelationInput | ShareUnlockAttemptOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing ShareUnlockAttempts.
+     */
+    cursor?: ShareUnlockAttemptWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ShareUnlockAttempts from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ShareUnlockAttempts.
+     */
+    skip?: number
+    distinct?: ShareUnlockAttemptScalarFieldEnum | ShareUnlockAttemptScalarFieldEnum[]
+  }
+
+  /**
+   * ShareUnlockAttempt create
+   */
+  export type ShareUnlockAttemptCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+    /**
+     * The data needed to create a ShareUnlockAttempt.
+     */
+    data: XOR<ShareUnlockAttemptCreateInput, ShareUnlockAttemptUncheckedCreateInput>
+  }
+
+  /**
+   * ShareUnlockAttempt createMany
+   */
+  export type ShareUnlockAttemptCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many ShareUnlockAttempts.
+     */
+    data: ShareUnlockAttemptCreateManyInput | ShareUnlockAttemptCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * ShareUnlockAttempt createManyAndReturn
+   */
+  export type ShareUnlockAttemptCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * The data used to create many ShareUnlockAttempts.
+     */
+    data: ShareUnlockAttemptCreateManyInput | ShareUnlockAttemptCreateManyInput[]
+    skipDuplicates?: boolean
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * ShareUnlockAttempt update
+   */
+  export type ShareUnlockAttemptUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+    /**
+     * The data needed to update a ShareUnlockAttempt.
+     */
+    data: XOR<ShareUnlockAttemptUpdateInput, ShareUnlockAttemptUncheckedUpdateInput>
+    /**
+     * Choose, which ShareUnlockAttempt to update.
+     */
+    where: ShareUnlockAttemptWhereUniqueInput
+  }
+
+  /**
+   * ShareUnlockAttempt updateMany
+   */
+  export type ShareUnlockAttemptUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update ShareUnlockAttempts.
+     */
+    data: XOR<ShareUnlockAttemptUpdateManyMutationInput, ShareUnlockAttemptUncheckedUpdateManyInput>
+    /**
+     * Filter which ShareUnlockAttempts to update
+     */
+    where?: ShareUnlockAttemptWhereInput
+    /**
+     * Limit how many ShareUnlockAttempts to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * ShareUnlockAttempt updateManyAndReturn
+   */
+  export type ShareUnlockAttemptUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * The data used to update ShareUnlockAttempts.
+     */
+    data: XOR<ShareUnlockAttemptUpdateManyMutationInput, ShareUnlockAttemptUncheckedUpdateManyInput>
+    /**
+     * Filter which ShareUnlockAttempts to update
+     */
+    where?: ShareUnlockAttemptWhereInput
+    /**
+     * Limit how many ShareUnlockAttempts to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * ShareUnlockAttempt upsert
+   */
+  export type ShareUnlockAttemptUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+    /**
+     * The filter to search for the ShareUnlockAttempt to update in case it exists.
+     */
+    where: ShareUnlockAttemptWhereUniqueInput
+    /**
+     * In case the ShareUnlockAttempt found by the `where` argument doesn't exist, create a new ShareUnlockAttempt with this data.
+     */
+    create: XOR<ShareUnlockAttemptCreateInput, ShareUnlockAttemptUncheckedCreateInput>
+    /**
+     * In case the ShareUnlockAttempt was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<ShareUnlockAttemptUpdateInput, ShareUnlockAttemptUncheckedUpdateInput>
+  }
+
+  /**
+   * ShareUnlockAttempt delete
+   */
+  export type ShareUnlockAttemptDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+    /**
+     * Filter which ShareUnlockAttempt to delete.
+     */
+    where: ShareUnlockAttemptWhereUniqueInput
+  }
+
+  /**
+   * ShareUnlockAttempt deleteMany
+   */
+  export type ShareUnlockAttemptDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which ShareUnlockAttempts to delete
+     */
+    where?: ShareUnlockAttemptWhereInput
+    /**
+     * Limit how many ShareUnlockAttempts to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * ShareUnlockAttempt without action
+   */
+  export type ShareUnlockAttemptDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ShareUnlockAttempt
+     */
+    select?: ShareUnlockAttemptSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ShareUnlockAttempt
+     */
+    omit?: ShareUnlockAttemptOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ShareUnlockAttemptInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Enums
+   */
+
+  export const TransactionIsolationLevel: {
+    ReadUncommitted: 'ReadUncommitted',
+    ReadCommitted: 'ReadCommitted',
+    RepeatableRead: 'RepeatableRead',
+    Serializable: 'Serializable'
+  };
+
+  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
+
+
+  export const FolderScalarFieldEnum: {
+    id: 'id',
+    folder_name: 'folder_name',
+    display_name: 'display_name',
+    created_at: 'created_at',
+    updated_at: 'updated_at',
+    is_root: 'is_root',
+    s3_link: 's3_link',
+    parent_folder_id: 'parent_folder_id',
+    owner_clerk_id: 'owner_clerk_id',
+    s3_key: 's3_key',
+    deleted_at: 'deleted_at'
+  };
+
+  export type FolderScalarFieldEnum = (typeof FolderScalarFieldEnum)[keyof typeof FolderScalarFieldEnum]
+
+
+  export const FileScalarFieldEnum: {
+    id: 'id',
+    file_name: 'file_name',
+    size: 'size',
+    created_at: 'created_at',
+    s3_link: 's3_link',
+    parent_folder_id: 'parent_folder_id',
+    owner_clerk_id: 'owner_clerk_id',
+    s3_key: 's3_key',
+    deleted_at: 'deleted_at',
+    pending_until: 'pending_until',
+    multipart_upload_id: 'multipart_upload_id',
+    version: 'version',
+    version_created_at: 'version_created_at',
+    blob_id: 'blob_id',
+    dedup_pending: 'dedup_pending',
+    extension: 'extension',
+    thumbnail_key: 'thumbnail_key',
+    thumbnail_version: 'thumbnail_version'
+  };
+
+  export type FileScalarFieldEnum = (typeof FileScalarFieldEnum)[keyof typeof FileScalarFieldEnum]
+
+
+  export const FileVersionScalarFieldEnum: {
+    id: 'id',
+    file_id: 'file_id',
+    version: 'version',
+    size: 'size',
+    s3_key: 's3_key',
+    created_at: 'created_at',
+    blob_id: 'blob_id'
+  };
+
+  export type FileVersionScalarFieldEnum = (typeof FileVersionScalarFieldEnum)[keyof typeof FileVersionScalarFieldEnum]
+
+
+  export const BlobScalarFieldEnum: {
+    id: 'id',
+    size: 'size',
+    s3_key: 's3_key',
+    ref_count: 'ref_count',
+    created_at: 'created_at',
+    content_text: 'content_text'
+  };
+
+  export type BlobScalarFieldEnum = (typeof BlobScalarFieldEnum)[keyof typeof BlobScalarFieldEnum]
+
+
+  export const ShareLinkScalarFieldEnum: {
+    id: 'id',
+    token: 'token',
+    label: 'label',
+    permission: 'permission',
+    expires_at: 'expires_at',
+    password_hash: 'password_hash',
+    max_downloads: 'max_downloads',
+    download_count: 'download_count',
+    created_at: 'created_at',
+    owner_clerk_id: 'owner_clerk_id',
+    folder_id: 'folder_id',
+    file_id: 'file_id'
+  };
+
+  export type ShareLinkScalarFieldEnum = (typeof ShareLinkScalarFieldEnum)[keyof typeof ShareLinkScalarFieldEnum]
+
+
+  export const ShareUnlockAttemptScalarFieldEnum: {
+    link_id: 'link_id',
+    client: 'client',
+    failed_attempts: 'failed_attempts',
+    locked_until: 'locked_until'
+  };
+
+  export type ShareUnlockAttemptScalarFieldEnum = (typeof ShareUnlockAttemptScalarFieldEnum)[keyof typeof ShareUnlockAttemptScalarFieldEnum]
+
+
+  export const SortOrder: {
+    asc: 'asc',
+    desc: 'desc'
+  };
+
+  export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
+
+
+  export const QueryMode: {
+    default: 'default',
+    insensitive: 'insensitive'
+  };
+
+  export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
+
+
+  export const NullsOrder: {
+    first: 'first',
+    last: 'last'
+  };
+
+  export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+
+
+  /**
+   * Field references
+   */
+
+
+  /**
+   * Reference to a field of type 'String'
+   */
   export type StringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String'>
     
 
 
-  /**
-   * Reference to a field of type 'String[]'
-   */
-  export type ListStringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String[]'>
-    
+  /**
+   * Reference to a field of type 'String[]'
+   */
+  export type ListStringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'DateTime'
+   */
+  export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
+    
+
+
+  /**
+   * Reference to a field of type 'DateTime[]'
+   */
+  export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'Boolean'
+   */
+  export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>
+    
+
+
+  /**
+   * Reference to a field of type 'BigInt'
+   */
+  export type BigIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BigInt'>
+    
+
+
+  /**
+   * Reference to a field of type 'BigInt[]'
+   */
+  export type ListBigIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BigInt[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'Int'
+   */
+  export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
+    
+
+
+  /**
+   * Reference to a field of type 'Int[]'
+   */
+  export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'SharePermission'
+   */
+  export type EnumSharePermissionFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SharePermission'>
+    
+
+
+  /**
+   * Reference to a field of type 'SharePermission[]'
+   */
+  export type ListEnumSharePermissionFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SharePermission[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'Float'
+   */
+  export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
+    
+
+
+  /**
+   * Reference to a field of type 'Float[]'
+   */
+  export type ListFloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float[]'>
+    
+  /**
+   * Deep Input Types
+   */
+
+
+  export type FolderWhereInput = {
+    AND?: FolderWhereInput | FolderWhereInput[]
+    OR?: FolderWhereInput[]
+    NOT?: FolderWhereInput | FolderWhereInput[]
+    id?: StringFilter<"Folder"> | string
+    folder_name?: StringFilter<"Folder"> | string
+    display_name?: StringNullableFilter<"Folder"> | string | null
+    created_at?: DateTimeFilter<"Folder"> | Date | string
+    updated_at?: DateTimeFilter<"Folder"> | Date | string
+    is_root?: BoolFilter<"Folder"> | boolean
+    s3_link?: StringNullableFilter<"Folder"> | string | null
+    parent_folder_id?: StringNullableFilter<"Folder"> | string | null
+    owner_clerk_id?: StringFilter<"Folder"> | string
+    s3_key?: StringNullableFilter<"Folder"> | string | null
+    deleted_at?: DateTimeNullableFilter<"Folder"> | Date | string | null
+    files?: FileListRelationFilter
+    parent_folder?: XOR<FolderNullableScalarRelationFilter, FolderWhereInput> | null
+    subfolders?: FolderListRelationFilter
+    share_links?: ShareLinkListRelationFilter
+  }
+
+  export type FolderOrderByWithRelationInput = {
+    id?: SortOrder
+    folder_name?: SortOrder
+    display_name?: SortOrderInput | SortOrder
+    created_at?: SortOrder
+    updated_at?: SortOrder
+    is_root?: SortOrder
+    s3_link?: SortOrderInput | SortOrder
+    parent_folder_id?: SortOrderInput | SortOrder
+    owner_clerk_id?: SortOrder
+    s3_key?: SortOrderInput | SortOrder
+    deleted_at?: SortOrderInput | SortOrder
+    files?: FileOrderByRelationAggregateInput
+    parent_folder?: FolderOrderByWithRelationInput
+    subfolders?: FolderOrderByRelationAggregateInput
+    share_links?: ShareLinkOrderByRelationAggregateInput
+  }
+
+  export type FolderWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: FolderWhereInput | FolderWhereInput[]
+    OR?: FolderWhereInput[]
+    NOT?: FolderWhereInput | FolderWhereInput[]
+    folder_name?: StringFilter<"Folder"> | string
+    display_name?: StringNullableFilter<"Folder"> | string | null
+    created_at?: DateTimeFilter<"Folder"> | Date | string
+    updated_at?: DateTimeFilter<"Folder"> | Date | string
+    is_root?: BoolFilter<"Folder"> | boolean
+    s3_link?: StringNullableFilter<"Folder"> | string | null
+    parent_folder_id?: StringNullableFilter<"Folder"> | string | null
+    owner_clerk_id?: StringFilter<"Folder"> | string
+    s3_key?: StringNullableFilter<"Folder"> | string | null
+    deleted_at?: DateTimeNullableFilter<"Folder"> | Date | string | null
+    files?: FileListRelationFilter
+    parent_folder?: XOR<FolderNullableScalarRelationFilter, FolderWhereInput> | null
+    subfolders?: FolderListRelationFilter
+    share_links?: ShareLinkListRelationFilter
+  }, "id">
+
+  export type FolderOrderByWithAggregationInput = {
+    id?: SortOrder
+    folder_name?: SortOrder
+    display_name?: SortOrderInput | SortOrder
+    created_at?: SortOrder
+    updated_at?: SortOrder
+    is_root?: SortOrder
+    s3_link?: SortOrderInput | SortOrder
+    parent_folder_id?: SortOrderInput | SortOrder
+    owner_clerk_id?: SortOrder
+    s3_key?: SortOrderInput | SortOrder
+    deleted_at?: SortOrderInput | SortOrder
+    _count?: FolderCountOrderByAggregateInput
+    _max?: FolderMaxOrderByAggregateInput
+    _min?: FolderMinOrderByAggregateInput
+  }
+
+  export type FolderScalarWhereWithAggregatesInput = {
+    AND?: FolderScalarWhereWithAggregatesInput | FolderScalarWhereWithAggregatesInput[]
+    OR?: FolderScalarWhereWithAggregatesInput[]
+    NOT?: FolderScalarWhereWithAggregatesInput | FolderScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"Folder"> | string
+    folder_name?: StringWithAggregatesFilter<"Folder"> | string
+    display_name?: StringNullableWithAggregatesFilter<"Folder"> | string | null
+    created_at?: DateTimeWithAggregatesFilter<"Folder"> | Date | string
+    updated_at?: DateTimeWithAggregatesFilter<"Folder"> | Date | string
+    is_root?: BoolWithAggregatesFilter<"Folder"> | boolean
+    s3_link?: StringNullableWithAggregatesFilter<"Folder"> | string | null
+    parent_folder_id?: StringNullableWithAggregatesFilter<"Folder"> | string | null
+    owner_clerk_id?: StringWithAggregatesFilter<"Folder"> | string
+    s3_key?: StringNullableWithAggregatesFilter<"Folder"> | string | null
+    deleted_at?: DateTimeNullableWithAggregatesFilter<"Folder"> | Date | string | null
+  }
+
+  export type FileWhereInput = {
+    AND?: FileWhereInput | FileWhereInput[]
+    OR?: FileWhereInput[]
+    NOT?: FileWhereInput | FileWhereInput[]
+    id?: StringFilter<"File"> | string
+    file_name?: StringFilter<"File"> | string
+    size?: BigIntFilter<"File"> | bigint | number
+    created_at?: DateTimeFilter<"File"> | Date | string
+    s3_link?: StringNullableFilter<"File"> | string | null
+    parent_folder_id?: StringNullableFilter<"File"> | string | null
+    owner_clerk_id?: StringFilter<"File"> | string
+    s3_key?: StringNullableFilter<"File"> | string | null
+    deleted_at?: DateTimeNullableFilter<"File"> | Date | string | null
+    pending_until?: DateTimeNullableFilter<"File"> | Date | string | null
+    multipart_upload_id?: StringNullableFilter<"File"> | string | null
+    version?: IntFilter<"File"> | number
+    version_created_at?: DateTimeFilter<"File"> | Date | string
+    blob_id?: StringNullableFilter<"File"> | string | null
+    dedup_pending?: BoolFilter<"File"> | boolean
+    extension?: StringFilter<"File"> | string
+    thumbnail_key?: StringNullableFilter<"File"> | string | null
+    thumbnail_version?: IntNullableFilter<"File"> | number | null
+    parent_folder?: XOR<FolderNullableScalarRelationFilter, FolderWhereInput> | null
+    versions?: FileVersionListRelationFilter
+    blob?: XOR<BlobNullableScalarRelationFilter, BlobWhereInput> | null
+    share_links?: ShareLinkListRelationFilter
+  }
+
+  export type FileOrderByWithRelationInput = {
+    id?: SortOrder
+    file_name?: SortOrder
+    size?: SortOrder
+    created_at?: SortOrder
+    s3_link?: SortOrderInput | SortOrder
+    parent_folder_id?: SortOrderInput | SortOrder
+    owner_clerk_id?: SortOrder
+    s3_key?: SortOrderInput | SortOrder
+    deleted_at?: SortOrderInput | SortOrder
+    pending_until?: SortOrderInput | SortOrder
+    multipart_upload_id?: SortOrderInput | SortOrder
+    version?: SortOrder
+    version_created_at?: SortOrder
+    blob_id?: SortOrderInput | SortOrder
+    dedup_pending?: SortOrder
+    extension?: SortOrder
+    thumbnail_key?: SortOrderInput | SortOrder
+    thumbnail_version?: SortOrderInput | SortOrder
+    parent_folder?: FolderOrderByWithRelationInput
+    versions?: FileVersionOrderByRelationAggregateInput
+    blob?: BlobOrderByWithRelationInput
+    share_links?: ShareLinkOrderByRelationAggregateInput
+  }
+
+  export type FileWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: FileWhereInput | FileWhereInput[]
+    OR?: FileWhereInput[]
+    NOT?: FileWhereInput | FileWhereInput[]
+    file_name?: StringFilter<"File"> | string
+    size?: BigIntFilter<"File"> | bigint | number
+    created_at?: DateTimeFilter<"File"> | Date | string
+    s3_link?: StringNullableFilter<"File"> | string | null
+    parent_folder_id?: StringNullableFilter<"File"> | string | null
+    owner_clerk_id?: StringFilter<"File"> | string
+    s3_key?: StringNullableFilter<"File"> | string | null
+    deleted_at?: DateTimeNullableFilter<"File"> | Date | string | null
+    pending_until?: DateTimeNullableFilter<"File"> | Date | string | null
+    multipart_upload_id?: StringNullableFilter<"File"> | string | null
+    version?: IntFilter<"File"> | number
+    version_created_at?: DateTimeFilter<"File"> | Date | string
+    blob_id?: StringNullableFilter<"File"> | string | null
+    dedup_pending?: BoolFilter<"File"> | boolean
+    extension?: StringFilter<"File"> | string
+    thumbnail_key?: StringNullableFilter<"File"> | string | null
+    thumbnail_version?: IntNullableFilter<"File"> | number | null
+    parent_folder?: XOR<FolderNullableScalarRelationFilter, FolderWhereInput> | null
+    versions?: FileVersionListRelationFilter
+    blob?: XOR<BlobNullableScalarRelationFilter, BlobWhereInput> | null
+    share_links?: ShareLinkListRelationFilter
+  }, "id">
+
+  export type FileOrderByWithAggregationInput = {
+    id?: SortOrder
+    file_name?: SortOrder
+    size?: SortOrder
+    created_at?: SortOrder
+    s3_link?: SortOrderInput | SortOrder
+    parent_folder_id?: SortOrderInput | SortOrder
+    owner_clerk_id?: SortOrder
+    s3_key?: SortOrderInput | SortOrder
+    deleted_at?: SortOrderInput | SortOrder
+    pending_until?: SortOrderInput | SortOrder
+    multipart_upload_id?: SortOrderInput | SortOrder
+    version?: SortOrder
+    version_created_at?: SortOrder
+    blob_id?: SortOrderInput | SortOrder
+    dedup_pending?: SortOrder
+    extension?: SortOrder
+    thumbnail_key?: SortOrderInput | SortOrder
+    thumbnail_version?: SortOrderInput | SortOrder
+    _count?: FileCountOrderByAggregateInput
+    _avg?: FileAvgOrderByAggregateInput
+    _max?: FileMaxOrderByAggregateInput
+    _min?: FileMinOrderByAggregateInput
+    _sum?: FileSumOrderByAggregateInput
+  }
+
+  export type FileScalarWhereWithAggregatesInput = {
+    AND?: FileScalarWhereWithAggregatesInput | FileScalarWhereWithAggregatesInput[]
+    OR?: FileScalarWhereWithAggregatesInput[]
+    NOT?: FileScalarWhereWithAggregatesInput | FileScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"File"> | string
+    file_name?: StringWithAggregatesFilter<"File"> | string
+    size?: BigIntWithAggregatesFilter<"File"> | bigint | number
+    created_at?: DateTimeWithAggregatesFilter<"File"> | Date | string
+    s3_link?: StringNullableWithAggregatesFilter<"File"> | string | null
+    parent_folder_id?: StringNullableWithAggregatesFilter<"File"> | string | null
+    owner_clerk_id?: StringWithAggregatesFilter<"File"> | string
+    s3_key?: StringNullableWithAggregatesFilter<"File"> | string | null
+    deleted_at?: DateTimeNullableWithAggregatesFilter<"File"> | Date | string | null
+    pending_until?: DateTimeNullableWithAggregatesFilter<"File"> | Date | string | null
+    multipart_upload_id?: StringNullableWithAggregatesFilter<"File"> | string | null
+    version?: IntWithAggregatesFilter<"File"> | number
+    version_created_at?: DateTimeWithAggregatesFilter<"File"> | Date | string
+    blob_id?: StringNullableWithAggregatesFilter<"File"> | string | null
+    dedup_pending?: BoolWithAggregatesFilter<"File"> | boolean
+    extension?: StringWithAggregatesFilter<"File"> | string
+    thumbnail_key?: StringNullableWithAggregatesFilter<"File"> | string | null
+    thumbnail_version?: IntNullableWithAggregatesFilter<"File"> | number | null
+  }
+
+  export type FileVersionWhereInput = {
+    AND?: FileVersionWhereInput | FileVersionWhereInput[]
+    OR?: FileVersionWhereInput[]
+    NOT?: FileVersionWhereInput | FileVersionWhereInput[]
+    id?: StringFilter<"FileVersion"> | string
+    file_id?: StringFilter<"FileVersion"> | string
+    version?: IntFilter<"FileVersion"> | number
+    size?: BigIntFilter<"FileVersion"> | bigint | number
+    s3_key?: StringFilter<"FileVersion"> | string
+    created_at?: DateTimeFilter<"FileVersion"> | Date | string
+    blob_id?: StringNullableFilter<"FileVersion"> | string | null
+    file?: XOR<FileScalarRelationFilter, FileWhereInput>
+    blob?: XOR<BlobNullableScalarRelationFilter, BlobWhereInput> | null
+  }
+
+  export type FileVersionOrderByWithRelationInput = {
+    id?: SortOrder
+    file_id?: SortOrder
+    version?: SortOrder
+    size?: SortOrder
+    s3_key?: SortOrder
+    created_at?: SortOrder
+    blob_id?: SortOrderInput | SortOrder
+    file?: FileOrderByWithRelationInput
+    blob?: BlobOrderByWithRelationInput
+  }
+
+  export type FileVersionWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    file_id_version?: FileVersionFile_idVersionCompoundUniqueInput
+    AND?: FileVersionWhereInput | FileVersionWhereInput[]
+    OR?: FileVersionWhereInput[]
+    NOT?: FileVersionWhereInput | FileVersionWhereInput[]
+    file_id?: StringFilter<"FileVersion"> | string
+    version?: IntFilter<"FileVersion"> | number
+    size?: BigIntFilter<"FileVersion"> | bigint | number
+    s3_key?: StringFilter<"FileVersion"> | string
+    created_at?: DateTimeFilter<"FileVersion"> | Date | string
+    blob_id?: StringNullableFilter<"FileVersion"> | string | null
+    file?: XOR<FileScalarRelationFilter, FileWhereInput>
+    blob?: XOR<BlobNullableScalarRelationFilter, BlobWhereInput> | null
+  }, "id" | "file_id_version">
+
+  export type FileVersionOrderByWithAggregationInput = {
+    id?: SortOrder
+    file_id?: SortOrder
+    version?: SortOrder
+    size?: SortOrder
+    s3_key?: SortOrder
+    created_at?: SortOrder
+    blob_id?: SortOrderInput | SortOrder
+    _count?: FileVersionCountOrderByAggregateInput
+    _avg?: FileVersionAvgOrderByAggregateInput
+    _max?: FileVersionMaxOrderByAggregateInput
+    _min?: FileVersionMinOrderByAggregateInput
+    _sum?: FileVersionSumOrderByAggregateInput
+  }
+
+  export type FileVersionScalarWhereWithAggregatesInput = {
+    AND?: FileVersionScalarWhereWithAggregatesInput | FileVersionScalarWhereWithAggregatesInput[]
+    OR?: FileVersionScalarWhereWithAggregatesInput[]
+    NOT?: FileVersionScalarWhereWithAggregatesInput | FileVersionScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"FileVersion"> | string
+    file_id?: StringWithAggregatesFilter<"FileVersion"> | string
+    version?: IntWithAggregatesFilter<"FileVersion"> | number
+    size?: BigIntWithAggregatesFilter<"FileVersion"> | bigint | number
+    s3_key?: StringWithAggregatesFilter<"FileVersion"> | string
+    created_at?: DateTimeWithAggregatesFilter<"FileVersion"> | Date | string
+    blob_id?: StringNullableWithAggregatesFilter<"FileVersion"> | string | null
+  }
+
+  export type BlobWhereInput = {
+    AND?: BlobWhereInput | BlobWhereInput[]
+    OR?: BlobWhereInput[]
+    NOT?: BlobWhereInput | BlobWhereInput[]
+    id?: StringFilter<"Blob"> | string
+    size?: BigIntFilter<"Blob"> | bigint | number
+    s3_key?: StringFilter<"Blob"> | string
+    ref_count?: IntFilter<"Blob"> | number
+    created_at?: DateTimeFilter<"Blob"> | Date | string
+    content_text?: StringNullableFilter<"Blob"> | string | null
+    files?: FileListRelationFilter
+    versions?: FileVersionListRelationFilter
+  }
+
+  export type BlobOrderByWithRelationInput = {
+    id?: SortOrder
+    size?: SortOrder
+    s3_key?: SortOrder
+    ref_count?: SortOrder
+    created_at?: SortOrder
+    content_text?: SortOrderInput | SortOrder
+    files?: FileOrderByRelationAggregateInput
+    versions?: FileVersionOrderByRelationAggregateInput
+  }
+
+  export type BlobWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: BlobWhereInput | BlobWhereInput[]
+    OR?: BlobWhereInput[]
+    NOT?: BlobWhereInput | BlobWhereInput[]
+    size?: BigIntFilter<"Blob"> | bigint | number
+    s3_key?: StringFilter<"Blob"> | string
+    ref_count?: IntFilter<"Blob"> | number
+    created_at?: DateTimeFilter<"Blob"> | Date | string
+    content_text?: StringNullableFilter<"Blob"> | string | null
+    files?: FileListRelationFilter
+    versions?: FileVersionListRelationFilter
+  }, "id">
+
+  export type BlobOrderByWithAggregationInput = {
+    id?: SortOrder
+    size?: SortOrder
+    s3_key?: SortOrder
+    ref_count?: SortOrder
+    created_at?: SortOrder
+    content_text?: SortOrderInput | SortOrder
+    _count?: BlobCountOrderByAggregateInput
+    _avg?: BlobAvgOrderByAggregateInput
+    _max?: BlobMaxOrderByAggregateInput
+    _min?: BlobMinOrderByAggregateInput
+    _sum?: BlobSumOrderByAggregateInput
+  }
+
+  export type BlobScalarWhereWithAggregatesInput = {
+    AND?: BlobScalarWhereWithAggregatesInput | BlobScalarWhereWithAggregatesInput[]
+    OR?: BlobScalarWhereWithAggregatesInput[]
+    NOT?: BlobScalarWhereWithAggregatesInput | BlobScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"Blob"> | string
+    size?: BigIntWithAggregatesFilter<"Blob"> | bigint | number
+    s3_key?: StringWithAggregatesFilter<"Blob"> | string
+    ref_count?: IntWithAggregatesFilter<"Blob"> | number
+    created_at?: DateTimeWithAggregatesFilter<"Blob"> | Date | string
+    content_text?: StringNullableWithAggregatesFilter<"Blob"> | string | null
+  }
+
+  export type ShareLinkWhereInput = {
+    AND?: ShareLinkWhereInput | ShareLinkWhereInput[]
+    OR?: ShareLinkWhereInput[]
+    NOT?: ShareLinkWhereInput | ShareLinkWhereInput[]
+    id?: StringFilter<"ShareLink"> | string
+    token?: StringFilter<"ShareLink"> | string
+    label?: StringNullableFilter<"ShareLink"> | string | null
+    permission?: EnumSharePermissionFilter<"ShareLink"> | $Enums.SharePermission
+    expires_at?: DateTimeNullableFilter<"ShareLink"> | Date | string | null
+    password_hash?: StringNullableFilter<"ShareLink"> | string | null
+    max_downloads?: IntNullableFilter<"ShareLink"> | number | null
+    download_count?: IntFilter<"ShareLink"> | number
+    created_at?: DateTimeFilter<"ShareLink"> | Date | string
+    owner_clerk_id?: StringFilter<"ShareLink"> | string
+    folder_id?: StringNullableFilter<"ShareLink"> | string | null
+    file_id?: StringNullableFilter<"ShareLink"> | string | null
+    folder?: XOR<FolderNullableScalarRelationFilter, FolderWhereInput> | null
+    file?: XOR<FileNullableScalarRelationFilter, FileWhereInput> | null
+    unlock_attempts?: ShareUnlockAttemptListRelationFilter
+  }
+
+  export type ShareLinkOrderByWithRelationInput = {
+    id?: SortOrder
+    token?: SortOrder
+    label?: SortOrderInput | SortOrder
+    permission?: SortOrder
+    expires_at?: SortOrderInput | SortOrder
+    password_hash?: SortOrderInput | SortOrder
+    max_downloads?: SortOrderInput | SortOrder
+    download_count?: SortOrder
+    created_at?: SortOrder
+    owner_clerk_id?: SortOrder
+    folder_id?: SortOrderInput | SortOrder
+    file_id?: SortOrderInput | SortOrder
+    folder?: FolderOrderByWithRelationInput
+    file?: FileOrderByWithRelationInput
+    unlock_attempts?: ShareUnlockAttemptOrderByRelationAggregateInput
+  }
+
+  export type ShareLinkWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    token?: string
+    AND?: ShareLinkWhereInput | ShareLinkWhereInput[]
+    OR?: ShareLinkWhereInput[]
+    NOT?: ShareLinkWhereInput | ShareLinkWhereInput[]
+    label?: StringNullableFilter<"ShareLink"> | string | null
+    permission?: EnumSharePermissionFilter<"ShareLink"> | $Enums.SharePermission
+    expires_at?: DateTimeNullableFilter<"ShareLink"> | Date | string | null
+    password_hash?: StringNullableFilter<"ShareLink"> | string | null
+    max_downloads?: IntNullableFilter<"ShareLink"> | number | null
+    download_count?: IntFilter<"ShareLink"> | number
+    created_at?: DateTimeFilter<"ShareLink"> | Date | string
+    owner_clerk_id?: StringFilter<"ShareLink"> | string
+    folder_id?: StringNullableFilter<"ShareLink"> | string | null
+    file_id?: StringNullableFilter<"ShareLink"> | string | null
+    folder?: XOR<FolderNullableScalarRelationFilter, FolderWhereInput> | null
+    file?: XOR<FileNullableScalarRelationFilter, FileWhereInput> | null
+    unlock_attempts?: ShareUnlockAttemptListRelationFilter
+  }, "id" | "token">
+
+  export type ShareLinkOrderByWithAggregationInput = {
+    id?: SortOrder
+    token?: SortOrder
+    label?: SortOrderInput | SortOrder
+    permission?: SortOrder
+    expires_at?: SortOrderInput | SortOrder
+    password_hash?: SortOrderInput | SortOrder
+    max_downloads?: SortOrderInput | SortOrder
+    download_count?: SortOrder
+    created_at?: SortOrder
+    owner_clerk_id?: SortOrder
+    folder_id?: SortOrderInput | SortOrder
+    file_id?: SortOrderInput | SortOrder
+    _count?: ShareLinkCountOrderByAggregateInput
+    _avg?: ShareLinkAvgOrderByAggregateInput
+    _max?: ShareLinkMaxOrderByAggregateInput
+    _min?: ShareLinkMinOrderByAggregateInput
+    _sum?: ShareLinkSumOrderByAggregateInput
+  }
+
+  export type ShareLinkScalarWhereWithAggregatesInput = {
+    AND?: ShareLinkScalarWhereWithAggregatesInput | ShareLinkScalarWhereWithAggregatesInput[]
+    OR?: ShareLinkScalarWhereWithAggregatesInput[]
+    NOT?: ShareLinkScalarWhereWithAggregatesInput | ShareLinkScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"ShareLink"> | string
+    token?: StringWithAggregatesFilter<"ShareLink"> | string
+    label?: StringNullableWithAggregatesFilter<"ShareLink"> | string | null
+    permission?: EnumSharePermissionWithAggregatesFilter<"ShareLink"> | $Enums.SharePermission
+    expires_at?: DateTimeNullableWithAggregatesFilter<"ShareLink"> | Date | string | null
+    password_hash?: StringNullableWithAggregatesFilter<"ShareLink"> | string | null
+    max_downloads?: IntNullableWithAggregatesFilter<"ShareLink"> | number | null
+    download_count?: IntWithAggregatesFilter<"ShareLink"> | number
+    created_at?: DateTimeWithAggregatesFilter<"ShareLink"> | Date | string
+    owner_clerk_id?: StringWithAggregatesFilter<"ShareLink"> | string
+    folder_id?: StringNullableWithAggregatesFilter<"ShareLink"> | string | null
+    file_id?: StringNullableWithAggregatesFilter<"ShareLink"> | string | null
+  }
+
+  export type ShareUnlockAttemptWhereInput = {
+    AND?: ShareUnlockAttemptWhereInput | ShareUnlockAttemptWhereInput[]
+    OR?: ShareUnlockAttemptWhereInput[]
+    NOT?: ShareUnlockAttemptWhereInput | ShareUnlockAttemptWhereInput[]
+    link_id?: StringFilter<"ShareUnlockAttempt"> | string
+    client?: StringFilter<"ShareUnlockAttempt"> | string
+    failed_attempts?: IntFilter<"ShareUnlockAttempt"> | number
+    locked_until?: DateTimeNullableFilter<"ShareUnlockAttempt"> | Date | string | null
+    link?: XOR<ShareLinkScalarRelationFilter, ShareLinkWhereInput>
+  }
+
+  export type ShareUnlockAttemptOrderByWithRelationInput = {
+    link_id?: SortOrder
+    client?: SortOrder
+    failed_attempts?: SortOrder
+    locked_until?: SortOrderInput | SortOrder
+    link?: ShareLinkOrderByWithRelationInput
+  }
+
+  export type ShareUnlockAttemptWhereUniqueInput = Prisma.AtLeast<{
+    link_id_client?: ShareUnlockAttemptLink_idClientCompoundUniqueInput
+    AND?: ShareUnlockAttemptWhereInput | ShareUnlockAttemptWhereInput[]
+    OR?: ShareUnlockAttemptWhereInput[]
+    NOT?: ShareUnlockAttemptWhereInput | ShareUnlockAttemptWhereInput[]
+    link_id?: StringFilter<"ShareUnlockAttempt"> | string
+    client?: StringFilter<"ShareUnlockAttempt"> | string
+    failed_attempts?: IntFilter<"ShareUnlockAttempt"> | number
+    locked_until?: DateTimeNullableFilter<"ShareUnlockAttempt"> | Date | string | null
+    link?: XOR<ShareLinkScalarRelationFilter, ShareLinkWhereInput>
+  }, "link_id_client">
+
+  export type ShareUnlockAttemptOrderByWithAggregationInput = {
+    link_id?: SortOrder
+    client?: SortOrder
+    failed_attempts?: SortOrder
+    locked_until?: SortOrderInput | SortOrder
+    _count?: ShareUnlockAttemptCountOrderByAggregateInput
+    _avg?: ShareUnlockAttemptAvgOrderByAggregateInput
+    _max?: ShareUnlockAttemptMaxOrderByAggregateInput
+    _min?: ShareUnlockAttemptMinOrderByAggregateInput
+    _sum?: ShareUnlockAttemptSumOrderByAggregateInput
+  }
+
+  export type ShareUnlockAttemptScalarWhereWithAggregatesInput = {
+    AND?: ShareUnlockAttemptScalarWhereWithAggregatesInput | ShareUnlockAttemptScalarWhereWithAggregatesInput[]
+    OR?: ShareUnlockAttemptScalarWhereWithAggregatesInput[]
+    NOT?: ShareUnlockAttemptScalarWhereWithAggregatesInput | ShareUnlockAttemptScalarWhereWithAggregatesInput[]
+    link_id?: StringWithAggregatesFilter<"ShareUnlockAttempt"> | string
+    client?: StringWithAggregatesFilter<"ShareUnlockAttempt"> | string
+    failed_attempts?: IntWithAggregatesFilter<"ShareUnlockAttempt"> | number
+    locked_until?: DateTimeNullableWithAggregatesFilter<"ShareUnlockAttempt"> | Date | string | null
+  }
+
+  export type FolderCreateInput = {
+    id?: string
+    folder_name: string
+    display_name?: string | null
+    created_at?: Date | string
+    updated_at?: Date | string
+    is_root?: boolean
+    s3_link?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    files?: FileCreateNestedManyWithoutParent_folderInput
+    parent_folder?: FolderCreateNestedOneWithoutSubfoldersInput
+    subfolders?: FolderCreateNestedManyWithoutParent_folderInput
+    share_links?: ShareLinkCreateNestedManyWithoutFolderInput
+  }
+
+  export type FolderUncheckedCreateInput = {
+    id?: string
+    folder_name: string
+    display_name?: string | null
+    created_at?: Date | string
+    updated_at?: Date | string
+    is_root?: boolean
+    s3_link?: string | null
+    parent_folder_id?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    files?: FileUncheckedCreateNestedManyWithoutParent_folderInput
+    subfolders?: FolderUncheckedCreateNestedManyWithoutParent_folderInput
+    share_links?: ShareLinkUncheckedCreateNestedManyWithoutFolderInput
+  }
+
+  export type FolderUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    folder_name?: StringFieldUpdateOperationsInput | string
+    display_name?: NullableStringFieldUpdateOperationsInput | string | null
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    is_root?: BoolFieldUpdateOperationsInput | boolean
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    files?: FileUpdateManyWithoutParent_folderNestedInput
+    parent_folder?: FolderUpdateOneWithoutSubfoldersNestedInput
+    subfolders?: FolderUpdateManyWithoutParent_folderNestedInput
+    share_links?: ShareLinkUpdateManyWithoutFolderNestedInput
+  }
+
+  export type FolderUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    folder_name?: StringFieldUpdateOperationsInput | string
+    display_name?: NullableStringFieldUpdateOperationsInput | string | null
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    is_root?: BoolFieldUpdateOperationsInput | boolean
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    files?: FileUncheckedUpdateManyWithoutParent_folderNestedInput
+    subfolders?: FolderUncheckedUpdateManyWithoutParent_folderNestedInput
+    share_links?: ShareLinkUncheckedUpdateManyWithoutFolderNestedInput
+  }
+
+  export type FolderCreateManyInput = {
+    id?: string
+    folder_name: string
+    display_name?: string | null
+    created_at?: Date | string
+    updated_at?: Date | string
+    is_root?: boolean
+    s3_link?: string | null
+    parent_folder_id?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+  }
+
+  export type FolderUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    folder_name?: StringFieldUpdateOperationsInput | string
+    display_name?: NullableStringFieldUpdateOperationsInput | string | null
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    is_root?: BoolFieldUpdateOperationsInput | boolean
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  }
+
+  export type FolderUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    folder_name?: StringFieldUpdateOperationsInput | string
+    display_name?: NullableStringFieldUpdateOperationsInput | string | null
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    is_root?: BoolFieldUpdateOperationsInput | boolean
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  }
+
+  export type FileCreateInput = {
+    id?: string
+    file_name: string
+    size: bigint | number
+    created_at?: Date | string
+    s3_link?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+    parent_folder?: FolderCreateNestedOneWithoutFilesInput
+    versions?: FileVersionCreateNestedManyWithoutFileInput
+    blob?: BlobCreateNestedOneWithoutFilesInput
+    share_links?: ShareLinkCreateNestedManyWithoutFileInput
+  }
+
+  export type FileUncheckedCreateInput = {
+    id?: string
+    file_name: string
+    size: bigint | number
+    created_at?: Date | string
+    s3_link?: string | null
+    parent_folder_id?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    blob_id?: string | null
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+    versions?: FileVersionUncheckedCreateNestedManyWithoutFileInput
+    share_links?: ShareLinkUncheckedCreateNestedManyWithoutFileInput
+  }
+
+  export type FileUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+    parent_folder?: FolderUpdateOneWithoutFilesNestedInput
+    versions?: FileVersionUpdateManyWithoutFileNestedInput
+    blob?: BlobUpdateOneWithoutFilesNestedInput
+    share_links?: ShareLinkUpdateManyWithoutFileNestedInput
+  }
+
+  export type FileUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob_id?: NullableStringFieldUpdateOperationsInput | string | null
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+    versions?: FileVersionUncheckedUpdateManyWithoutFileNestedInput
+    share_links?: ShareLinkUncheckedUpdateManyWithoutFileNestedInput
+  }
+
+  export type FileCreateManyInput = {
+    id?: string
+    file_name: string
+    size: bigint | number
+    created_at?: Date | string
+    s3_link?: string | null
+    parent_folder_id?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    blob_id?: string | null
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+  }
+
+  export type FileUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+  }
+
+  export type FileUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob_id?: NullableStringFieldUpdateOperationsInput | string | null
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+  }
+
+  export type FileVersionCreateInput = {
+    id?: string
+    version: number
+    size: bigint | number
+    s3_key: string
+    created_at: Date | string
+    file: FileCreateNestedOneWithoutVersionsInput
+    blob?: BlobCreateNestedOneWithoutVersionsInput
+  }
+
+  export type FileVersionUncheckedCreateInput = {
+    id?: string
+    file_id: string
+    version: number
+    size: bigint | number
+    s3_key: string
+    created_at: Date | string
+    blob_id?: string | null
+  }
+
+  export type FileVersionUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    version?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    file?: FileUpdateOneRequiredWithoutVersionsNestedInput
+    blob?: BlobUpdateOneWithoutVersionsNestedInput
+  }
+
+  export type FileVersionUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_id?: StringFieldUpdateOperationsInput | string
+    version?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob_id?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type FileVersionCreateManyInput = {
+    id?: string
+    file_id: string
+    version: number
+    size: bigint | number
+    s3_key: string
+    created_at: Date | string
+    blob_id?: string | null
+  }
+
+  export type FileVersionUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    version?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type FileVersionUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_id?: StringFieldUpdateOperationsInput | string
+    version?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob_id?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type BlobCreateInput = {
+    id: string
+    size: bigint | number
+    s3_key: string
+    ref_count?: number
+    created_at?: Date | string
+    content_text?: string | null
+    files?: FileCreateNestedManyWithoutBlobInput
+    versions?: FileVersionCreateNestedManyWithoutBlobInput
+  }
+
+  export type BlobUncheckedCreateInput = {
+    id: string
+    size: bigint | number
+    s3_key: string
+    ref_count?: number
+    created_at?: Date | string
+    content_text?: string | null
+    files?: FileUncheckedCreateNestedManyWithoutBlobInput
+    versions?: FileVersionUncheckedCreateNestedManyWithoutBlobInput
+  }
+
+  export type BlobUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    ref_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    content_text?: NullableStringFieldUpdateOperationsInput | string | null
+    files?: FileUpdateManyWithoutBlobNestedInput
+    versions?: FileVersionUpdateManyWithoutBlobNestedInput
+  }
+
+  export type BlobUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    ref_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    content_text?: NullableStringFieldUpdateOperationsInput | string | null
+    files?: FileUncheckedUpdateManyWithoutBlobNestedInput
+    versions?: FileVersionUncheckedUpdateManyWithoutBlobNestedInput
+  }
+
+  export type BlobCreateManyInput = {
+    id: string
+    size: bigint | number
+    s3_key: string
+    ref_count?: number
+    created_at?: Date | string
+    content_text?: string | null
+  }
+
+  export type BlobUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    ref_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    content_text?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type BlobUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    ref_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    content_text?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type ShareLinkCreateInput = {
+    id?: string
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
+    expires_at?: Date | string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
+    owner_clerk_id: string
+    folder?: FolderCreateNestedOneWithoutShare_linksInput
+    file?: FileCreateNestedOneWithoutShare_linksInput
+    unlock_attempts?: ShareUnlockAttemptCreateNestedManyWithoutLinkInput
+  }
+
+  export type ShareLinkUncheckedCreateInput = {
+    id?: string
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
+    expires_at?: Date | string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
+    owner_clerk_id: string
+    folder_id?: string | null
+    file_id?: string | null
+    unlock_attempts?: ShareUnlockAttemptUncheckedCreateNestedManyWithoutLinkInput
+  }
+
+  export type ShareLinkUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    folder?: FolderUpdateOneWithoutShare_linksNestedInput
+    file?: FileUpdateOneWithoutShare_linksNestedInput
+    unlock_attempts?: ShareUnlockAttemptUpdateManyWithoutLinkNestedInput
+  }
+
+  export type ShareLinkUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    file_id?: NullableStringFieldUpdateOperationsInput | string | null
+    unlock_attempts?: ShareUnlockAttemptUncheckedUpdateManyWithoutLinkNestedInput
+  }
+
+  export type ShareLinkCreateManyInput = {
+    id?: string
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
+    expires_at?: Date | string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
+    owner_clerk_id: string
+    folder_id?: string | null
+    file_id?: string | null
+  }
+
+  export type ShareLinkUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+  }
+
+  export type ShareLinkUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    file_id?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type ShareUnlockAttemptCreateInput = {
+    client: string
+    failed_attempts?: number
+    locked_until?: Date | string | null
+    link: ShareLinkCreateNestedOneWithoutUnlock_attemptsInput
+  }
+
+  export type ShareUnlockAttemptUncheckedCreateInput = {
+    link_id: string
+    client: string
+    failed_attempts?: number
+    locked_until?: Date | string | null
+  }
+
+  export type ShareUnlockAttemptUpdateInput = {
+    client?: StringFieldUpdateOperationsInput | string
+    failed_attempts?: IntFieldUpdateOperationsInput | number
+    locked_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    link?: ShareLinkUpdateOneRequiredWithoutUnlock_attemptsNestedInput
+  }
+
+  export type ShareUnlockAttemptUncheckedUpdateInput = {
+    link_id?: StringFieldUpdateOperationsInput | string
+    client?: StringFieldUpdateOperationsInput | string
+    failed_attempts?: IntFieldUpdateOperationsInput | number
+    locked_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  }
+
+  export type ShareUnlockAttemptCreateManyInput = {
+    link_id: string
+    client: string
+    failed_attempts?: number
+    locked_until?: Date | string | null
+  }
+
+  export type ShareUnlockAttemptUpdateManyMutationInput = {
+    client?: StringFieldUpdateOperationsInput | string
+    failed_attempts?: IntFieldUpdateOperationsInput | number
+    locked_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  }
+
+  export type ShareUnlockAttemptUncheckedUpdateManyInput = {
+    link_id?: StringFieldUpdateOperationsInput | string
+    client?: StringFieldUpdateOperationsInput | string
+    failed_attempts?: IntFieldUpdateOperationsInput | number
+    locked_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  }
+
+  export type StringFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[] | ListStringFieldRefInput<$PrismaModel>
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    mode?: QueryMode
+    not?: NestedStringFilter<$PrismaModel> | string
+  }
+
+  export type StringNullableFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    mode?: QueryMode
+    not?: NestedStringNullableFilter<$PrismaModel> | string | null
+  }
+
+  export type DateTimeFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
+  }
+
+  export type BoolFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
+    not?: NestedBoolFilter<$PrismaModel> | boolean
+  }
+
+  export type DateTimeNullableFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+  }
+
+  export type FileListRelationFilter = {
+    every?: FileWhereInput
+    some?: FileWhereInput
+    none?: FileWhereInput
+  }
+
+  export type FolderNullableScalarRelationFilter = {
+    is?: FolderWhereInput | null
+    isNot?: FolderWhereInput | null
+  }
+
+  export type FolderListRelationFilter = {
+    every?: FolderWhereInput
+    some?: FolderWhereInput
+    none?: FolderWhereInput
+  }
+
+  export type ShareLinkListRelationFilter = {
+    every?: ShareLinkWhereInput
+    some?: ShareLinkWhereInput
+    none?: ShareLinkWhereInput
+  }
+
+  export type SortOrderInput = {
+    sort: SortOrder
+    nulls?: NullsOrder
+  }
+
+  export type FileOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type FolderOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type ShareLinkOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type FolderCountOrderByAggregateInput = {
+    id?: SortOrder
+    folder_name?: SortOrder
+    display_name?: SortOrder
+    created_at?: SortOrder
+    updated_at?: SortOrder
+    is_root?: SortOrder
+    s3_link?: SortOrder
+    parent_folder_id?: SortOrder
+    owner_clerk_id?: SortOrder
+    s3_key?: SortOrder
+    deleted_at?: SortOrder
+  }
+
+  export type FolderMaxOrderByAggregateInput = {
+    id?: SortOrder
+    folder_name?: SortOrder
+    display_name?: SortOrder
+    created_at?: SortOrder
+    updated_at?: SortOrder
+    is_root?: SortOrder
+    s3_link?: SortOrder
+    parent_folder_id?: SortOrder
+    owner_clerk_id?: SortOrder
+    s3_key?: SortOrder
+    deleted_at?: SortOrder
+  }
+
+  export type FolderMinOrderByAggregateInput = {
+    id?: SortOrder
+    folder_name?: SortOrder
+    display_name?: SortOrder
+    created_at?: SortOrder
+    updated_at?: SortOrder
+    is_root?: SortOrder
+    s3_link?: SortOrder
+    parent_folder_id?: SortOrder
+    owner_clerk_id?: SortOrder
+    s3_key?: SortOrder
+    deleted_at?: SortOrder
+  }
+
+  export type StringWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[] | ListStringFieldRefInput<$PrismaModel>
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    mode?: QueryMode
+    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedStringFilter<$PrismaModel>
+    _max?: NestedStringFilter<$PrismaModel>
+  }
+
+  export type StringNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    mode?: QueryMode
+    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedStringNullableFilter<$PrismaModel>
+    _max?: NestedStringNullableFilter<$PrismaModel>
+  }
+
+  export type DateTimeWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedDateTimeFilter<$PrismaModel>
+    _max?: NestedDateTimeFilter<$PrismaModel>
+  }
+
+  export type BoolWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
+    not?: NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedBoolFilter<$PrismaModel>
+    _max?: NestedBoolFilter<$PrismaModel>
+  }
+
+  export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedDateTimeNullableFilter<$PrismaModel>
+    _max?: NestedDateTimeNullableFilter<$PrismaModel>
+  }
+
+  export type BigIntFilter<$PrismaModel = never> = {
+    equals?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    in?: bigint[] | number[] | ListBigIntFieldRefInput<$PrismaModel>
+    notIn?: bigint[] | number[] | ListBigIntFieldRefInput<$PrismaModel>
+    lt?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    lte?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    gt?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    gte?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    not?: NestedBigIntFilter<$PrismaModel> | bigint | number
+  }
+
+  export type IntFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[] | ListIntFieldRefInput<$PrismaModel>
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntFilter<$PrismaModel> | number
+  }
+
+  export type IntNullableFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableFilter<$PrismaModel> | number | null
+  }
+
+  export type FileVersionListRelationFilter = {
+    every?: FileVersionWhereInput
+    some?: FileVersionWhereInput
+    none?: FileVersionWhereInput
+  }
+
+  export type BlobNullableScalarRelationFilter = {
+    is?: BlobWhereInput | null
+    isNot?: BlobWhereInput | null
+  }
+
+  export type FileVersionOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type FileCountOrderByAggregateInput = {
+    id?: SortOrder
+    file_name?: SortOrder
+    size?: SortOrder
+    created_at?: SortOrder
+    s3_link?: SortOrder
+    parent_folder_id?: SortOrder
+    owner_clerk_id?: SortOrder
+    s3_key?: SortOrder
+    deleted_at?: SortOrder
+    pending_until?: SortOrder
+    multipart_upload_id?: SortOrder
+    version?: SortOrder
+    version_created_at?: SortOrder
+    blob_id?: SortOrder
+    dedup_pending?: SortOrder
+    extension?: SortOrder
+    thumbnail_key?: SortOrder
+    thumbnail_version?: SortOrder
+  }
+
+  export type FileAvgOrderByAggregateInput = {
+    size?: SortOrder
+    version?: SortOrder
+    thumbnail_version?: SortOrder
+  }
+
+  export type FileMaxOrderByAggregateInput = {
+    id?: SortOrder
+    file_name?: SortOrder
+    size?: SortOrder
+    created_at?: SortOrder
+    s3_link?: SortOrder
+    parent_folder_id?: SortOrder
+    owner_clerk_id?: SortOrder
+    s3_key?: SortOrder
+    deleted_at?: SortOrder
+    pending_until?: SortOrder
+    multipart_upload_id?: SortOrder
+    version?: SortOrder
+    version_created_at?: SortOrder
+    blob_id?: SortOrder
+    dedup_pending?: SortOrder
+    extension?: SortOrder
+    thumbnail_key?: SortOrder
+    thumbnail_version?: SortOrder
+  }
+
+  export type FileMinOrderByAggregateInput = {
+    id?: SortOrder
+    file_name?: SortOrder
+    size?: SortOrder
+    created_at?: SortOrder
+    s3_link?: SortOrder
+    parent_folder_id?: SortOrder
+    owner_clerk_id?: SortOrder
+    s3_key?: SortOrder
+    deleted_at?: SortOrder
+    pending_until?: SortOrder
+    multipart_upload_id?: SortOrder
+    version?: SortOrder
+    version_created_at?: SortOrder
+    blob_id?: SortOrder
+    dedup_pending?: SortOrder
+    extension?: SortOrder
+    thumbnail_key?: SortOrder
+    thumbnail_version?: SortOrder
+  }
+
+  export type FileSumOrderByAggregateInput = {
+    size?: SortOrder
+    version?: SortOrder
+    thumbnail_version?: SortOrder
+  }
+
+  export type BigIntWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    in?: bigint[] | number[] | ListBigIntFieldRefInput<$PrismaModel>
+    notIn?: bigint[] | number[] | ListBigIntFieldRefInput<$PrismaModel>
+    lt?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    lte?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    gt?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    gte?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    not?: NestedBigIntWithAggregatesFilter<$PrismaModel> | bigint | number
+    _count?: NestedIntFilter<$PrismaModel>
+    _avg?: NestedFloatFilter<$PrismaModel>
+    _sum?: NestedBigIntFilter<$PrismaModel>
+    _min?: NestedBigIntFilter<$PrismaModel>
+    _max?: NestedBigIntFilter<$PrismaModel>
+  }
+
+  export type IntWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[] | ListIntFieldRefInput<$PrismaModel>
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntWithAggregatesFilter<$PrismaModel> | number
+    _count?: NestedIntFilter<$PrismaModel>
+    _avg?: NestedFloatFilter<$PrismaModel>
+    _sum?: NestedIntFilter<$PrismaModel>
+    _min?: NestedIntFilter<$PrismaModel>
+    _max?: NestedIntFilter<$PrismaModel>
+  }
+
+  export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _avg?: NestedFloatNullableFilter<$PrismaModel>
+    _sum?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedIntNullableFilter<$PrismaModel>
+    _max?: NestedIntNullableFilter<$PrismaModel>
+  }
+
+  export type FileScalarRelationFilter = {
+    is?: FileWhereInput
+    isNot?: FileWhereInput
+  }
+
+  export type FileVersionFile_idVersionCompoundUniqueInput = {
+    file_id: string
+    version: number
+  }
+
+  export type FileVersionCountOrderByAggregateInput = {
+    id?: SortOrder
+    file_id?: SortOrder
+    version?: SortOrder
+    size?: SortOrder
+    s3_key?: SortOrder
+    created_at?: SortOrder
+    blob_id?: SortOrder
+  }
+
+  export type FileVersionAvgOrderByAggregateInput = {
+    version?: SortOrder
+    size?: SortOrder
+  }
+
+  export type FileVersionMaxOrderByAggregateInput = {
+    id?: SortOrder
+    file_id?: SortOrder
+    version?: SortOrder
+    size?: SortOrder
+    s3_key?: SortOrder
+    created_at?: SortOrder
+    blob_id?: SortOrder
+  }
+
+  export type FileVersionMinOrderByAggregateInput = {
+    id?: SortOrder
+    file_id?: SortOrder
+    version?: SortOrder
+    size?: SortOrder
+    s3_key?: SortOrder
+    created_at?: SortOrder
+    blob_id?: SortOrder
+  }
+
+  export type FileVersionSumOrderByAggregateInput = {
+    version?: SortOrder
+    size?: SortOrder
+  }
+
+  export type BlobCountOrderByAggregateInput = {
+    id?: SortOrder
+    size?: SortOrder
+    s3_key?: SortOrder
+    ref_count?: SortOrder
+    created_at?: SortOrder
+    content_text?: SortOrder
+  }
+
+  export type BlobAvgOrderByAggregateInput = {
+    size?: SortOrder
+    ref_count?: SortOrder
+  }
 
+  export type BlobMaxOrderByAggregateInput = {
+    id?: SortOrder
+    size?: SortOrder
+    s3_key?: SortOrder
+    ref_count?: SortOrder
+    created_at?: SortOrder
+    content_text?: SortOrder
+  }
 
-  /**
-   * Reference to a field of type 'DateTime'
-   */
-  export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
-    
+  export type BlobMinOrderByAggregateInput = {
+    id?: SortOrder
+    size?: SortOrder
+    s3_key?: SortOrder
+    ref_count?: SortOrder
+    created_at?: SortOrder
+    content_text?: SortOrder
+  }
 
+  export type BlobSumOrderByAggregateInput = {
+    size?: SortOrder
+    ref_count?: SortOrder
+  }
 
-  /**
-   * Reference to a field of type 'DateTime[]'
-   */
-  export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime[]'>
-    
+  export type EnumSharePermissionFilter<$PrismaModel = never> = {
+    equals?: $Enums.SharePermission | EnumSharePermissionFieldRefInput<$PrismaModel>
+    in?: $Enums.SharePermission[] | ListEnumSharePermissionFieldRefInput<$PrismaModel>
+    notIn?: $Enums.SharePermission[] | ListEnumSharePermissionFieldRefInput<$PrismaModel>
+    not?: NestedEnumSharePermissionFilter<$PrismaModel> | $Enums.SharePermission
+  }
 
+  export type FileNullableScalarRelationFilter = {
+    is?: FileWhereInput | null
+    isNot?: FileWhereInput | null
+  }
 
-  /**
-   * Reference to a field of type 'Boolean'
-   */
-  export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>
-    
+  export type ShareUnlockAttemptListRelationFilter = {
+    every?: ShareUnlockAttemptWhereInput
+    some?: ShareUnlockAttemptWhereInput
+    none?: ShareUnlockAttemptWhereInput
+  }
 
+  export type ShareUnlockAttemptOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
 
-  /**
-   * Reference to a field of type 'Int'
-   */
-  export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
-    
+  export type ShareLinkCountOrderByAggregateInput = {
+    id?: SortOrder
+    token?: SortOrder
+    label?: SortOrder
+    permission?: SortOrder
+    expires_at?: SortOrder
+    password_hash?: SortOrder
+    max_downloads?: SortOrder
+    download_count?: SortOrder
+    created_at?: SortOrder
+    owner_clerk_id?: SortOrder
+    folder_id?: SortOrder
+    file_id?: SortOrder
+  }
 
+  export type ShareLinkAvgOrderByAggregateInput = {
+    max_downloads?: SortOrder
+    download_count?: SortOrder
+  }
 
-  /**
-   * Reference to a field of type 'Int[]'
-   */
-  export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
-    
+  export type ShareLinkMaxOrderByAggregateInput = {
+    id?: SortOrder
+    token?: SortOrder
+    label?: SortOrder
+    permission?: SortOrder
+    expires_at?: SortOrder
+    password_hash?: SortOrder
+    max_downloads?: SortOrder
+    download_count?: SortOrder
+    created_at?: SortOrder
+    owner_clerk_id?: SortOrder
+    folder_id?: SortOrder
+    file_id?: SortOrder
+  }
 
+  export type ShareLinkMinOrderByAggregateInput = {
+    id?: SortOrder
+    token?: SortOrder
+    label?: SortOrder
+    permission?: SortOrder
+    expires_at?: SortOrder
+    password_hash?: SortOrder
+    max_downloads?: SortOrder
+    download_count?: SortOrder
+    created_at?: SortOrder
+    owner_clerk_id?: SortOrder
+    folder_id?: SortOrder
+    file_id?: SortOrder
+  }
 
-  /**
-   * Reference to a field of type 'Float'
-   */
-  export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
-    
+  export type ShareLinkSumOrderByAggregateInput = {
+    max_downloads?: SortOrder
+    download_count?: SortOrder
+  }
 
+  export type EnumSharePermissionWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.SharePermission | EnumSharePermissionFieldRefInput<$PrismaModel>
+    in?: $Enums.SharePermission[] | ListEnumSharePermissionFieldRefInput<$PrismaModel>
+    notIn?: $Enums.SharePermission[] | ListEnumSharePermissionFieldRefInput<$PrismaModel>
+    not?: NestedEnumSharePermissionWithAggregatesFilter<$PrismaModel> | $Enums.SharePermission
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumSharePermissionFilter<$PrismaModel>
+    _max?: NestedEnumSharePermissionFilter<$PrismaModel>
+  }
 
-  /**
-   * Reference to a field of type 'Float[]'
-   */
-  export type ListFloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float[]'>
-    
-  /**
-   * Deep Input Types
-   */
+  export type ShareLinkScalarRelationFilter = {
+    is?: ShareLinkWhereInput
+    isNot?: ShareLinkWhereInput
+  }
 
+  export type ShareUnlockAttemptLink_idClientCompoundUniqueInput = {
+    link_id: string
+    client: string
+  }
 
-  export type FolderWhereInput = {
-    AND?: FolderWhereInput | FolderWhereInput[]
-    OR?: FolderWhereInput[]
-    NOT?: FolderWhereInput | FolderWhereInput[]
-    id?: StringFilter<"Folder"> | string
-    folder_name?: StringFilter<"Folder"> | string
-    display_name?: StringNullableFilter<"Folder"> | string | null
-    created_at?: DateTimeFilter<"Folder"> | Date | string
-    updated_at?: DateTimeFilter<"Folder"> | Date | string
-    is_root?: BoolFilter<"Folder"> | boolean
-    s3_link?: StringNullableFilter<"Folder"> | string | null
-    shared?: BoolFilter<"Folder"> | boolean
-    expires_at?: DateTimeNullableFilter<"Folder"> | Date | string | null
-    parent_folder_id?: StringNullableFilter<"Folder"> | string | null
-    owner_clerk_id?: StringFilter<"Folder"> | string
-    s3_key?: StringNullableFilter<"Folder"> | string | null
-    shareToken?: StringNullableFilter<"Folder"> | string | null
-    files?: FileListRelationFilter
-    parent_folder?: XOR<FolderNullableScalarRelationFilter, FolderWhereInput> | null
-    subfolders?: FolderListRelationFilter
+  export type ShareUnlockAttemptCountOrderByAggregateInput = {
+    link_id?: SortOrder
+    client?: SortOrder
+    failed_attempts?: SortOrder
+    locked_until?: SortOrder
   }
 
-  export type FolderOrderByWithRelationInput = {
-    id?: SortOrder
-    folder_name?: SortOrder
-    display_name?: SortOrderInput | SortOrder
-    created_at?: SortOrder
-    updated_at?: SortOrder
-    is_root?: SortOrder
-    s3_link?: SortOrderInput | SortOrder
-    shared?: SortOrder
-    expires_at?: SortOrderInput | SortOrder
-    parent_folder_id?: SortOrderInput | SortOrder
-    owner_clerk_id?: SortOrder
-    s3_key?: SortOrderInput | SortOrder
-    shareToken?: SortOrderInput | SortOrder
-    files?: FileOrderByRelationAggregateInput
-    parent_folder?: FolderOrderByWithRelationInput
-    subfolders?: FolderOrderByRelationAggregateInput
+  export type ShareUnlockAttemptAvgOrderByAggregateInput = {
+    failed_attempts?: SortOrder
+  }
+
+  export type ShareUnlockAttemptMaxOrderByAggregateInput = {
+    link_id?: SortOrder
+    client?: SortOrder
+    failed_attempts?: SortOrder
+    locked_until?: SortOrder
+  }
+
+  export type ShareUnlockAttemptMinOrderByAggregateInput = {
+    link_id?: SortOrder
+    client?: SortOrder
+    failed_attempts?: SortOrder
+    locked_until?: SortOrder
+  }
+
+  export type ShareUnlockAttemptSumOrderByAggregateInput = {
+    failed_attempts?: SortOrder
+  }
+
+  export type FileCreateNestedManyWithoutParent_folderInput = {
+    create?: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput> | FileCreateWithoutParent_folderInput[] | FileUncheckedCreateWithoutParent_folderInput[]
+    connectOrCreate?: FileCreateOrConnectWithoutParent_folderInput | FileCreateOrConnectWithoutParent_folderInput[]
+    createMany?: FileCreateManyParent_folderInputEnvelope
+    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+  }
+
+  export type FolderCreateNestedOneWithoutSubfoldersInput = {
+    create?: XOR<FolderCreateWithoutSubfoldersInput, FolderUncheckedCreateWithoutSubfoldersInput>
+    connectOrCreate?: FolderCreateOrConnectWithoutSubfoldersInput
+    connect?: FolderWhereUniqueInput
+  }
+
+  export type FolderCreateNestedManyWithoutParent_folderInput = {
+    create?: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput> | FolderCreateWithoutParent_folderInput[] | FolderUncheckedCreateWithoutParent_folderInput[]
+    connectOrCreate?: FolderCreateOrConnectWithoutParent_folderInput | FolderCreateOrConnectWithoutParent_folderInput[]
+    createMany?: FolderCreateManyParent_folderInputEnvelope
+    connect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+  }
+
+  export type ShareLinkCreateNestedManyWithoutFolderInput = {
+    create?: XOR<ShareLinkCreateWithoutFolderInput, ShareLinkUncheckedCreateWithoutFolderInput> | ShareLinkCreateWithoutFolderInput[] | ShareLinkUncheckedCreateWithoutFolderInput[]
+    connectOrCreate?: ShareLinkCreateOrConnectWithoutFolderInput | ShareLinkCreateOrConnectWithoutFolderInput[]
+    createMany?: ShareLinkCreateManyFolderInputEnvelope
+    connect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+  }
+
+  export type FileUncheckedCreateNestedManyWithoutParent_folderInput = {
+    create?: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput> | FileCreateWithoutParent_folderInput[] | FileUncheckedCreateWithoutParent_folderInput[]
+    connectOrCreate?: FileCreateOrConnectWithoutParent_folderInput | FileCreateOrConnectWithoutParent_folderInput[]
+    createMany?: FileCreateManyParent_folderInputEnvelope
+    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+  }
+
+  export type FolderUncheckedCreateNestedManyWithoutParent_folderInput = {
+    create?: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput> | FolderCreateWithoutParent_folderInput[] | FolderUncheckedCreateWithoutParent_folderInput[]
+    connectOrCreate?: FolderCreateOrConnectWithoutParent_folderInput | FolderCreateOrConnectWithoutParent_folderInput[]
+    createMany?: FolderCreateManyParent_folderInputEnvelope
+    connect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+  }
+
+  export type ShareLinkUncheckedCreateNestedManyWithoutFolderInput = {
+    create?: XOR<ShareLinkCreateWithoutFolderInput, ShareLinkUncheckedCreateWithoutFolderInput> | ShareLinkCreateWithoutFolderInput[] | ShareLinkUncheckedCreateWithoutFolderInput[]
+    connectOrCreate?: ShareLinkCreateOrConnectWithoutFolderInput | ShareLinkCreateOrConnectWithoutFolderInput[]
+    createMany?: ShareLinkCreateManyFolderInputEnvelope
+    connect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+  }
+
+  export type StringFieldUpdateOperationsInput = {
+    set?: string
+  }
+
+  export type NullableStringFieldUpdateOperationsInput = {
+    set?: string | null
+  }
+
+  export type DateTimeFieldUpdateOperationsInput = {
+    set?: Date | string
+  }
+
+  export type BoolFieldUpdateOperationsInput = {
+    set?: boolean
+  }
+
+  export type NullableDateTimeFieldUpdateOperationsInput = {
+    set?: Date | string | null
+  }
+
+  export type FileUpdateManyWithoutParent_folderNestedInput = {
+    create?: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput> | FileCreateWithoutParent_folderInput[] | FileUncheckedCreateWithoutParent_folderInput[]
+    connectOrCreate?: FileCreateOrConnectWithoutParent_folderInput | FileCreateOrConnectWithoutParent_folderInput[]
+    upsert?: FileUpsertWithWhereUniqueWithoutParent_folderInput | FileUpsertWithWhereUniqueWithoutParent_folderInput[]
+    createMany?: FileCreateManyParent_folderInputEnvelope
+    set?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    disconnect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    delete?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    update?: FileUpdateWithWhereUniqueWithoutParent_folderInput | FileUpdateWithWhereUniqueWithoutParent_folderInput[]
+    updateMany?: FileUpdateManyWithWhereWithoutParent_folderInput | FileUpdateManyWithWhereWithoutParent_folderInput[]
+    deleteMany?: FileScalarWhereInput | FileScalarWhereInput[]
+  }
+
+  export type FolderUpdateOneWithoutSubfoldersNestedInput = {
+    create?: XOR<FolderCreateWithoutSubfoldersInput, FolderUncheckedCreateWithoutSubfoldersInput>
+    connectOrCreate?: FolderCreateOrConnectWithoutSubfoldersInput
+    upsert?: FolderUpsertWithoutSubfoldersInput
+    disconnect?: FolderWhereInput | boolean
+    delete?: FolderWhereInput | boolean
+    connect?: FolderWhereUniqueInput
+    update?: XOR<XOR<FolderUpdateToOneWithWhereWithoutSubfoldersInput, FolderUpdateWithoutSubfoldersInput>, FolderUncheckedUpdateWithoutSubfoldersInput>
+  }
+
+  export type FolderUpdateManyWithoutParent_folderNestedInput = {
+    create?: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput> | FolderCreateWithoutParent_folderInput[] | FolderUncheckedCreateWithoutParent_folderInput[]
+    connectOrCreate?: FolderCreateOrConnectWithoutParent_folderInput | FolderCreateOrConnectWithoutParent_folderInput[]
+    upsert?: FolderUpsertWithWhereUniqueWithoutParent_folderInput | FolderUpsertWithWhereUniqueWithoutParent_folderInput[]
+    createMany?: FolderCreateManyParent_folderInputEnvelope
+    set?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+    disconnect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+    delete?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+    connect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+    update?: FolderUpdateWithWhereUniqueWithoutParent_folderInput | FolderUpdateWithWhereUniqueWithoutParent_folderInput[]
+    updateMany?: FolderUpdateManyWithWhereWithoutParent_folderInput | FolderUpdateManyWithWhereWithoutParent_folderInput[]
+    deleteMany?: FolderScalarWhereInput | FolderScalarWhereInput[]
+  }
+
+  export type ShareLinkUpdateManyWithoutFolderNestedInput = {
+    create?: XOR<ShareLinkCreateWithoutFolderInput, ShareLinkUncheckedCreateWithoutFolderInput> | ShareLinkCreateWithoutFolderInput[] | ShareLinkUncheckedCreateWithoutFolderInput[]
+    connectOrCreate?: ShareLinkCreateOrConnectWithoutFolderInput | ShareLinkCreateOrConnectWithoutFolderInput[]
+    upsert?: ShareLinkUpsertWithWhereUniqueWithoutFolderInput | ShareLinkUpsertWithWhereUniqueWithoutFolderInput[]
+    createMany?: ShareLinkCreateManyFolderInputEnvelope
+    set?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    disconnect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    delete?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    connect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    update?: ShareLinkUpdateWithWhereUniqueWithoutFolderInput | ShareLinkUpdateWithWhereUniqueWithoutFolderInput[]
+    updateMany?: ShareLinkUpdateManyWithWhereWithoutFolderInput | ShareLinkUpdateManyWithWhereWithoutFolderInput[]
+    deleteMany?: ShareLinkScalarWhereInput | ShareLinkScalarWhereInput[]
+  }
+
+  export type FileUncheckedUpdateManyWithoutParent_folderNestedInput = {
+    create?: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput> | FileCreateWithoutParent_folderInput[] | FileUncheckedCreateWithoutParent_folderInput[]
+    connectOrCreate?: FileCreateOrConnectWithoutParent_folderInput | FileCreateOrConnectWithoutParent_folderInput[]
+    upsert?: FileUpsertWithWhereUniqueWithoutParent_folderInput | FileUpsertWithWhereUniqueWithoutParent_folderInput[]
+    createMany?: FileCreateManyParent_folderInputEnvelope
+    set?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    disconnect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    delete?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    update?: FileUpdateWithWhereUniqueWithoutParent_folderInput | FileUpdateWithWhereUniqueWithoutParent_folderInput[]
+    updateMany?: FileUpdateManyWithWhereWithoutParent_folderInput | FileUpdateManyWithWhereWithoutParent_folderInput[]
+    deleteMany?: FileScalarWhereInput | FileScalarWhereInput[]
+  }
+
+  export type FolderUncheckedUpdateManyWithoutParent_folderNestedInput = {
+    create?: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput> | FolderCreateWithoutParent_folderInput[] | FolderUncheckedCreateWithoutParent_folderInput[]
+    connectOrCreate?: FolderCreateOrConnectWithoutParent_folderInput | FolderCreateOrConnectWithoutParent_folderInput[]
+    upsert?: FolderUpsertWithWhereUniqueWithoutParent_folderInput | FolderUpsertWithWhereUniqueWithoutParent_folderInput[]
+    createMany?: FolderCreateManyParent_folderInputEnvelope
+    set?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+    disconnect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+    delete?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+    connect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+    update?: FolderUpdateWithWhereUniqueWithoutParent_folderInput | FolderUpdateWithWhereUniqueWithoutParent_folderInput[]
+    updateMany?: FolderUpdateManyWithWhereWithoutParent_folderInput | FolderUpdateManyWithWhereWithoutParent_folderInput[]
+    deleteMany?: FolderScalarWhereInput | FolderScalarWhereInput[]
+  }
+
+  export type ShareLinkUncheckedUpdateManyWithoutFolderNestedInput = {
+    create?: XOR<ShareLinkCreateWithoutFolderInput, ShareLinkUncheckedCreateWithoutFolderInput> | ShareLinkCreateWithoutFolderInput[] | ShareLinkUncheckedCreateWithoutFolderInput[]
+    connectOrCreate?: ShareLinkCreateOrConnectWithoutFolderInput | ShareLinkCreateOrConnectWithoutFolderInput[]
+    upsert?: ShareLinkUpsertWithWhereUniqueWithoutFolderInput | ShareLinkUpsertWithWhereUniqueWithoutFolderInput[]
+    createMany?: ShareLinkCreateManyFolderInputEnvelope
+    set?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    disconnect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    delete?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    connect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    update?: ShareLinkUpdateWithWhereUniqueWithoutFolderInput | ShareLinkUpdateWithWhereUniqueWithoutFolderInput[]
+    updateMany?: ShareLinkUpdateManyWithWhereWithoutFolderInput | ShareLinkUpdateManyWithWhereWithoutFolderInput[]
+    deleteMany?: ShareLinkScalarWhereInput | ShareLinkScalarWhereInput[]
   }
 
-  export type FolderWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    shareToken?: string
-    AND?: FolderWhereInput | FolderWhereInput[]
-    OR?: FolderWhereInput[]
-    NOT?: FolderWhereInput | FolderWhereInput[]
-    folder_name?: StringFilter<"Folder"> | string
-    display_name?: StringNullableFilter<"Folder"> | string | null
-    created_at?: DateTimeFilter<"Folder"> | Date | string
-    updated_at?: DateTimeFilter<"Folder"> | Date | string
-    is_root?: BoolFilter<"Folder"> | boolean
-    s3_link?: StringNullableFilter<"Folder"> | string | null
-    shared?: BoolFilter<"Folder"> | boolean
-    expires_at?: DateTimeNullableFilter<"Folder"> | Date | string | null
-    parent_folder_id?: StringNullableFilter<"Folder"> | string | null
-    owner_clerk_id?: StringFilter<"Folder"> | string
-    s3_key?: StringNullableFilter<"Folder"> | string | null
-    files?: FileListRelationFilter
-    parent_folder?: XOR<FolderNullableScalarRelationFilter, FolderWhereInput> | null
-    subfolders?: FolderListRelationFilter
-  }, "id" | "shareToken">
+  export type FolderCreateNestedOneWithoutFilesInput = {
+    create?: XOR<FolderCreateWithoutFilesInput, FolderUncheckedCreateWithoutFilesInput>
+    connectOrCreate?: FolderCreateOrConnectWithoutFilesInput
+    connect?: FolderWhereUniqueInput
+  }
 
-  export type FolderOrderByWithAggregationInput = {
-    id?: SortOrder
-    folder_name?: SortOrder
-    display_name?: SortOrderInput | SortOrder
-    created_at?: SortOrder
-    updated_at?: SortOrder
-    is_root?: SortOrder
-    s3_link?: SortOrderInput | SortOrder
-    shared?: SortOrder
-    expires_at?: SortOrderInput | SortOrder
-    parent_folder_id?: SortOrderInput | SortOrder
-    owner_clerk_id?: SortOrder
-    s3_key?: SortOrderInput | SortOrder
-    shareToken?: SortOrderInput | SortOrder
-    _count?: FolderCountOrderByAggregateInput
-    _max?: FolderMaxOrderByAggregateInput
-    _min?: FolderMinOrderByAggregateInput
+  export type FileVersionCreateNestedManyWithoutFileInput = {
+    create?: XOR<FileVersionCreateWithoutFileInput, FileVersionUncheckedCreateWithoutFileInput> | FileVersionCreateWithoutFileInput[] | FileVersionUncheckedCreateWithoutFileInput[]
+    connectOrCreate?: FileVersionCreateOrConnectWithoutFileInput | FileVersionCreateOrConnectWithoutFileInput[]
+    createMany?: FileVersionCreateManyFileInputEnvelope
+    connect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
   }
 
-  export type FolderScalarWhereWithAggregatesInput = {
-    AND?: FolderScalarWhereWithAggregatesInput | FolderScalarWhereWithAggregatesInput[]
-    OR?: FolderScalarWhereWithAggregatesInput[]
-    NOT?: FolderScalarWhereWithAggregatesInput | FolderScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"Folder"> | string
-    folder_name?: StringWithAggregatesFilter<"Folder"> | string
-    display_name?: StringNullableWithAggregatesFilter<"Folder"> | string | null
-    created_at?: DateTimeWithAggregatesFilter<"Folder"> | Date | string
-    updated_at?: DateTimeWithAggregatesFilter<"Folder"> | Date | string
-    is_root?: BoolWithAggregatesFilter<"Folder"> | boolean
-    s3_link?: StringNullableWithAggregatesFilter<"Folder"> | string | null
-    shared?: BoolWithAggregatesFilter<"Folder"> | boolean
-    expires_at?: DateTimeNullableWithAggregatesFilter<"Folder"> | Date | string | null
-    parent_folder_id?: StringNullableWithAggregatesFilter<"Folder"> | string | null
-    owner_clerk_id?: StringWithAggregatesFilter<"Folder"> | string
-    s3_key?: StringNullableWithAggregatesFilter<"Folder"> | string | null
-    shareToken?: StringNullableWithAggregatesFilter<"Folder"> | string | null
+  export type BlobCreateNestedOneWithoutFilesInput = {
+    create?: XOR<BlobCreateWithoutFilesInput, BlobUncheckedCreateWithoutFilesInput>
+    connectOrCreate?: BlobCreateOrConnectWithoutFilesInput
+    connect?: BlobWhereUniqueInput
   }
 
-  export type FileWhereInput = {
-    AND?: FileWhereInput | FileWhereInput[]
-    OR?: FileWhereInput[]
-    NOT?: FileWhereInput | FileWhereInput[]
-    id?: StringFilter<"File"> | string
-    file_name?: StringFilter<"File"> | string
-    size?: IntFilter<"File"> | number
-    created_at?: DateTimeFilter<"File"> | Date | string
-    shared?: BoolFilter<"File"> | boolean
-    s3_link?: StringNullableFilter<"File"> | string | null
-    expires_at?: DateTimeNullableFilter<"File"> | Date | string | null
-    parent_folder_id?: StringNullableFilter<"File"> | string | null
-    owner_clerk_id?: StringFilter<"File"> | string
-    s3_key?: StringNullableFilter<"File"> | string | null
-    parent_folder?: XOR<FolderNullableScalarRelationFilter, FolderWhereInput> | null
+  export type ShareLinkCreateNestedManyWithoutFileInput = {
+    create?: XOR<ShareLinkCreateWithoutFileInput, ShareLinkUncheckedCreateWithoutFileInput> | ShareLinkCreateWithoutFileInput[] | ShareLinkUncheckedCreateWithoutFileInput[]
+    connectOrCreate?: ShareLinkCreateOrConnectWithoutFileInput | ShareLinkCreateOrConnectWithoutFileInput[]
+    createMany?: ShareLinkCreateManyFileInputEnvelope
+    connect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
   }
 
-  export type FileOrderByWithRelationInput = {
-    id?: SortOrder
-    file_name?: SortOrder
-    size?: SortOrder
-    created_at?: SortOrder
-    shared?: SortOrder
-    s3_link?: SortOrderInput | SortOrder
-    expires_at?: SortOrderInput | SortOrder
-    parent_folder_id?: SortOrderInput | SortOrder
-    owner_clerk_id?: SortOrder
-    s3_key?: SortOrderInput | SortOrder
-    parent_folder?: FolderOrderByWithRelationInput
+  export type FileVersionUncheckedCreateNestedManyWithoutFileInput = {
+    create?: XOR<FileVersionCreateWithoutFileInput, FileVersionUncheckedCreateWithoutFileInput> | FileVersionCreateWithoutFileInput[] | FileVersionUncheckedCreateWithoutFileInput[]
+    connectOrCreate?: FileVersionCreateOrConnectWithoutFileInput | FileVersionCreateOrConnectWithoutFileInput[]
+    createMany?: FileVersionCreateManyFileInputEnvelope
+    connect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
   }
 
-  export type FileWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    AND?: FileWhereInput | FileWhereInput[]
-    OR?: FileWhereInput[]
-    NOT?: FileWhereInput | FileWhereInput[]
-    file_name?: StringFilter<"File"> | string
-    size?: IntFilter<"File"> | number
-    created_at?: DateTimeFilter<"File"> | Date | string
-    shared?: BoolFilter<"File"> | boolean
-    s3_link?: StringNullableFilter<"File"> | string | null
-    expires_at?: DateTimeNullableFilter<"File"> | Date | string | null
-    parent_folder_id?: StringNullableFilter<"File"> | string | null
-    owner_clerk_id?: StringFilter<"File"> | string
-    s3_key?: StringNullableFilter<"File"> | string | null
-    parent_folder?: XOR<FolderNullableScalarRelationFilter, FolderWhereInput> | null
-  }, "id">
+  export type ShareLinkUncheckedCreateNestedManyWithoutFileInput = {
+    create?: XOR<ShareLinkCreateWithoutFileInput, ShareLinkUncheckedCreateWithoutFileInput> | ShareLinkCreateWithoutFileInput[] | ShareLinkUncheckedCreateWithoutFileInput[]
+    connectOrCreate?: ShareLinkCreateOrConnectWithoutFileInput | ShareLinkCreateOrConnectWithoutFileInput[]
+    createMany?: ShareLinkCreateManyFileInputEnvelope
+    connect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+  }
 
-  export type FileOrderByWithAggregationInput = {
-    id?: SortOrder
-    file_name?: SortOrder
-    size?: SortOrder
-    created_at?: SortOrder
-    shared?: SortOrder
-    s3_link?: SortOrderInput | SortOrder
-    expires_at?: SortOrderInput | SortOrder
-    parent_folder_id?: SortOrderInput | SortOrder
-    owner_clerk_id?: SortOrder
-    s3_key?: SortOrderInput | SortOrder
-    _count?: FileCountOrderByAggregateInput
-    _avg?: FileAvgOrderByAggregateInput
-    _max?: FileMaxOrderByAggregateInput
-    _min?: FileMinOrderByAggregateInput
-    _sum?: FileSumOrderByAggregateInput
+  export type BigIntFieldUpdateOperationsInput = {
+    set?: bigint | number
+    increment?: bigint | number
+    decrement?: bigint | number
+    multiply?: bigint | number
+    divide?: bigint | number
   }
 
-  export type FileScalarWhereWithAggregatesInput = {
-    AND?: FileScalarWhereWithAggregatesInput | FileScalarWhereWithAggregatesInput[]
-    OR?: FileScalarWhereWithAggregatesInput[]
-    NOT?: FileScalarWhereWithAggregatesInput | FileScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"File"> | string
-    file_name?: StringWithAggregatesFilter<"File"> | string
-    size?: IntWithAggregatesFilter<"File"> | number
-    created_at?: DateTimeWithAggregatesFilter<"File"> | Date | string
-    shared?: BoolWithAggregatesFilter<"File"> | boolean
-    s3_link?: StringNullableWithAggregatesFilter<"File"> | string | null
-    expires_at?: DateTimeNullableWithAggregatesFilter<"File"> | Date | string | null
-    parent_folder_id?: StringNullableWithAggregatesFilter<"File"> | string | null
-    owner_clerk_id?: StringWithAggregatesFilter<"File"> | string
-    s3_key?: StringNullableWithAggregatesFilter<"File"> | string | null
+  export type IntFieldUpdateOperationsInput = {
+    set?: number
+    increment?: number
+    decrement?: number
+    multiply?: number
+    divide?: number
   }
 
-  export type FolderCreateInput = {
-    id?: string
-    folder_name: string
-    display_name?: string | null
-    created_at?: Date | string
-    updated_at?: Date | string
-    is_root?: boolean
-    s3_link?: string | null
-    shared?: boolean
-    expires_at?: Date | string | null
-    owner_clerk_id: string
-    s3_key?: string | null
-    shareToken?: string | null
-    files?: FileCreateNestedManyWithoutParent_folderInput
-    parent_folder?: FolderCreateNestedOneWithoutSubfoldersInput
-    subfolders?: FolderCreateNestedManyWithoutParent_folderInput
+  export type NullableIntFieldUpdateOperationsInput = {
+    set?: number | null
+    increment?: number
+    decrement?: number
+    multiply?: number
+    divide?: number
   }
 
-  export type FolderUncheckedCreateInput = {
-    id?: string
-    folder_name: string
-    display_name?: string | null
-    created_at?: Date | string
-    updated_at?: Date | string
-    is_root?: boolean
-    s3_link?: string | null
-    shared?: boolean
-    expires_at?: Date | string | null
-    parent_folder_id?: string | null
-    owner_clerk_id: string
-    s3_key?: string | null
-    shareToken?: string | null
-    files?: FileUncheckedCreateNestedManyWithoutParent_folderInput
-    subfolders?: FolderUncheckedCreateNestedManyWithoutParent_folderInput
+  export type FolderUpdateOneWithoutFilesNestedInput = {
+    create?: XOR<FolderCreateWithoutFilesInput, FolderUncheckedCreateWithoutFilesInput>
+    connectOrCreate?: FolderCreateOrConnectWithoutFilesInput
+    upsert?: FolderUpsertWithoutFilesInput
+    disconnect?: FolderWhereInput | boolean
+    delete?: FolderWhereInput | boolean
+    connect?: FolderWhereUniqueInput
+    update?: XOR<XOR<FolderUpdateToOneWithWhereWithoutFilesInput, FolderUpdateWithoutFilesInput>, FolderUncheckedUpdateWithoutFilesInput>
   }
 
-  export type FolderUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    folder_name?: StringFieldUpdateOperationsInput | string
-    display_name?: NullableStringFieldUpdateOperationsInput | string | null
-    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    is_root?: BoolFieldUpdateOperationsInput | boolean
-    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    owner_clerk_id?: StringFieldUpdateOperationsInput | string
-    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
-    files?: FileUpdateManyWithoutParent_folderNestedInput
-    parent_folder?: FolderUpdateOneWithoutSubfoldersNestedInput
-    subfolders?: FolderUpdateManyWithoutParent_folderNestedInput
+  export type FileVersionUpdateManyWithoutFileNestedInput = {
+    create?: XOR<FileVersionCreateWithoutFileInput, FileVersionUncheckedCreateWithoutFileInput> | FileVersionCreateWithoutFileInput[] | FileVersionUncheckedCreateWithoutFileInput[]
+    connectOrCreate?: FileVersionCreateOrConnectWithoutFileInput | FileVersionCreateOrConnectWithoutFileInput[]
+    upsert?: FileVersionUpsertWithWhereUniqueWithoutFileInput | FileVersionUpsertWithWhereUniqueWithoutFileInput[]
+    createMany?: FileVersionCreateManyFileInputEnvelope
+    set?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    disconnect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    delete?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    connect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    update?: FileVersionUpdateWithWhereUniqueWithoutFileInput | FileVersionUpdateWithWhereUniqueWithoutFileInput[]
+    updateMany?: FileVersionUpdateManyWithWhereWithoutFileInput | FileVersionUpdateManyWithWhereWithoutFileInput[]
+    deleteMany?: FileVersionScalarWhereInput | FileVersionScalarWhereInput[]
+  }
+
+  export type BlobUpdateOneWithoutFilesNestedInput = {
+    create?: XOR<BlobCreateWithoutFilesInput, BlobUncheckedCreateWithoutFilesInput>
+    connectOrCreate?: BlobCreateOrConnectWithoutFilesInput
+    upsert?: BlobUpsertWithoutFilesInput
+    disconnect?: BlobWhereInput | boolean
+    delete?: BlobWhereInput | boolean
+    connect?: BlobWhereUniqueInput
+    update?: XOR<XOR<BlobUpdateToOneWithWhereWithoutFilesInput, BlobUpdateWithoutFilesInput>, BlobUncheckedUpdateWithoutFilesInput>
+  }
+
+  export type ShareLinkUpdateManyWithoutFileNestedInput = {
+    create?: XOR<ShareLinkCreateWithoutFileInput, ShareLinkUncheckedCreateWithoutFileInput> | ShareLinkCreateWithoutFileInput[] | ShareLinkUncheckedCreateWithoutFileInput[]
+    connectOrCreate?: ShareLinkCreateOrConnectWithoutFileInput | ShareLinkCreateOrConnectWithoutFileInput[]
+    upsert?: ShareLinkUpsertWithWhereUniqueWithoutFileInput | ShareLinkUpsertWithWhereUniqueWithoutFileInput[]
+    createMany?: ShareLinkCreateManyFileInputEnvelope
+    set?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    disconnect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    delete?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    connect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    update?: ShareLinkUpdateWithWhereUniqueWithoutFileInput | ShareLinkUpdateWithWhereUniqueWithoutFileInput[]
+    updateMany?: ShareLinkUpdateManyWithWhereWithoutFileInput | ShareLinkUpdateManyWithWhereWithoutFileInput[]
+    deleteMany?: ShareLinkScalarWhereInput | ShareLinkScalarWhereInput[]
+  }
+
+  export type FileVersionUncheckedUpdateManyWithoutFileNestedInput = {
+    create?: XOR<FileVersionCreateWithoutFileInput, FileVersionUncheckedCreateWithoutFileInput> | FileVersionCreateWithoutFileInput[] | FileVersionUncheckedCreateWithoutFileInput[]
+    connectOrCreate?: FileVersionCreateOrConnectWithoutFileInput | FileVersionCreateOrConnectWithoutFileInput[]
+    upsert?: FileVersionUpsertWithWhereUniqueWithoutFileInput | FileVersionUpsertWithWhereUniqueWithoutFileInput[]
+    createMany?: FileVersionCreateManyFileInputEnvelope
+    set?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    disconnect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    delete?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    connect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    update?: FileVersionUpdateWithWhereUniqueWithoutFileInput | FileVersionUpdateWithWhereUniqueWithoutFileInput[]
+    updateMany?: FileVersionUpdateManyWithWhereWithoutFileInput | FileVersionUpdateManyWithWhereWithoutFileInput[]
+    deleteMany?: FileVersionScalarWhereInput | FileVersionScalarWhereInput[]
+  }
+
+  export type ShareLinkUncheckedUpdateManyWithoutFileNestedInput = {
+    create?: XOR<ShareLinkCreateWithoutFileInput, ShareLinkUncheckedCreateWithoutFileInput> | ShareLinkCreateWithoutFileInput[] | ShareLinkUncheckedCreateWithoutFileInput[]
+    connectOrCreate?: ShareLinkCreateOrConnectWithoutFileInput | ShareLinkCreateOrConnectWithoutFileInput[]
+    upsert?: ShareLinkUpsertWithWhereUniqueWithoutFileInput | ShareLinkUpsertWithWhereUniqueWithoutFileInput[]
+    createMany?: ShareLinkCreateManyFileInputEnvelope
+    set?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    disconnect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    delete?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    connect?: ShareLinkWhereUniqueInput | ShareLinkWhereUniqueInput[]
+    update?: ShareLinkUpdateWithWhereUniqueWithoutFileInput | ShareLinkUpdateWithWhereUniqueWithoutFileInput[]
+    updateMany?: ShareLinkUpdateManyWithWhereWithoutFileInput | ShareLinkUpdateManyWithWhereWithoutFileInput[]
+    deleteMany?: ShareLinkScalarWhereInput | ShareLinkScalarWhereInput[]
+  }
+
+  export type FileCreateNestedOneWithoutVersionsInput = {
+    create?: XOR<FileCreateWithoutVersionsInput, FileUncheckedCreateWithoutVersionsInput>
+    connectOrCreate?: FileCreateOrConnectWithoutVersionsInput
+    connect?: FileWhereUniqueInput
+  }
+
+  export type BlobCreateNestedOneWithoutVersionsInput = {
+    create?: XOR<BlobCreateWithoutVersionsInput, BlobUncheckedCreateWithoutVersionsInput>
+    connectOrCreate?: BlobCreateOrConnectWithoutVersionsInput
+    connect?: BlobWhereUniqueInput
+  }
+
+  export type FileUpdateOneRequiredWithoutVersionsNestedInput = {
+    create?: XOR<FileCreateWithoutVersionsInput, FileUncheckedCreateWithoutVersionsInput>
+    connectOrCreate?: FileCreateOrConnectWithoutVersionsInput
+    upsert?: FileUpsertWithoutVersionsInput
+    connect?: FileWhereUniqueInput
+    update?: XOR<XOR<FileUpdateToOneWithWhereWithoutVersionsInput, FileUpdateWithoutVersionsInput>, FileUncheckedUpdateWithoutVersionsInput>
+  }
+
+  export type BlobUpdateOneWithoutVersionsNestedInput = {
+    create?: XOR<BlobCreateWithoutVersionsInput, BlobUncheckedCreateWithoutVersionsInput>
+    connectOrCreate?: BlobCreateOrConnectWithoutVersionsInput
+    upsert?: BlobUpsertWithoutVersionsInput
+    disconnect?: BlobWhereInput | boolean
+    delete?: BlobWhereInput | boolean
+    connect?: BlobWhereUniqueInput
+    update?: XOR<XOR<BlobUpdateToOneWithWhereWithoutVersionsInput, BlobUpdateWithoutVersionsInput>, BlobUncheckedUpdateWithoutVersionsInput>
+  }
+
+  export type FileCreateNestedManyWithoutBlobInput = {
+    create?: XOR<FileCreateWithoutBlobInput, FileUncheckedCreateWithoutBlobInput> | FileCreateWithoutBlobInput[] | FileUncheckedCreateWithoutBlobInput[]
+    connectOrCreate?: FileCreateOrConnectWithoutBlobInput | FileCreateOrConnectWithoutBlobInput[]
+    createMany?: FileCreateManyBlobInputEnvelope
+    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
   }
 
-  export type FolderUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    folder_name?: StringFieldUpdateOperationsInput | string
-    display_name?: NullableStringFieldUpdateOperationsInput | string | null
-    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    is_root?: BoolFieldUpdateOperationsInput | boolean
-    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
-    owner_clerk_id?: StringFieldUpdateOperationsInput | string
-    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
-    files?: FileUncheckedUpdateManyWithoutParent_folderNestedInput
-    subfolders?: FolderUncheckedUpdateManyWithoutParent_folderNestedInput
+  export type FileVersionCreateNestedManyWithoutBlobInput = {
+    create?: XOR<FileVersionCreateWithoutBlobInput, FileVersionUncheckedCreateWithoutBlobInput> | FileVersionCreateWithoutBlobInput[] | FileVersionUncheckedCreateWithoutBlobInput[]
+    connectOrCreate?: FileVersionCreateOrConnectWithoutBlobInput | FileVersionCreateOrConnectWithoutBlobInput[]
+    createMany?: FileVersionCreateManyBlobInputEnvelope
+    connect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
   }
 
-  export type FolderCreateManyInput = {
-    id?: string
-    folder_name: string
-    display_name?: string | null
-    created_at?: Date | string
-    updated_at?: Date | string
-    is_root?: boolean
-    s3_link?: string | null
-    shared?: boolean
-    expires_at?: Date | string | null
-    parent_folder_id?: string | null
-    owner_clerk_id: string
-    s3_key?: string | null
-    shareToken?: string | null
+  export type FileUncheckedCreateNestedManyWithoutBlobInput = {
+    create?: XOR<FileCreateWithoutBlobInput, FileUncheckedCreateWithoutBlobInput> | FileCreateWithoutBlobInput[] | FileUncheckedCreateWithoutBlobInput[]
+    connectOrCreate?: FileCreateOrConnectWithoutBlobInput | FileCreateOrConnectWithoutBlobInput[]
+    createMany?: FileCreateManyBlobInputEnvelope
+    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
   }
 
-  export type FolderUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    folder_name?: StringFieldUpdateOperationsInput | string
-    display_name?: NullableStringFieldUpdateOperationsInput | string | null
-    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    is_root?: BoolFieldUpdateOperationsInput | boolean
-    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    owner_clerk_id?: StringFieldUpdateOperationsInput | string
-    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
+  export type FileVersionUncheckedCreateNestedManyWithoutBlobInput = {
+    create?: XOR<FileVersionCreateWithoutBlobInput, FileVersionUncheckedCreateWithoutBlobInput> | FileVersionCreateWithoutBlobInput[] | FileVersionUncheckedCreateWithoutBlobInput[]
+    connectOrCreate?: FileVersionCreateOrConnectWithoutBlobInput | FileVersionCreateOrConnectWithoutBlobInput[]
+    createMany?: FileVersionCreateManyBlobInputEnvelope
+    connect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
   }
 
-  export type FolderUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    folder_name?: StringFieldUpdateOperationsInput | string
-    display_name?: NullableStringFieldUpdateOperationsInput | string | null
-    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    is_root?: BoolFieldUpdateOperationsInput | boolean
-    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
-    owner_clerk_id?: StringFieldUpdateOperationsInput | string
-    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
+  export type FileUpdateManyWithoutBlobNestedInput = {
+    create?: XOR<FileCreateWithoutBlobInput, FileUncheckedCreateWithoutBlobInput> | FileCreateWithoutBlobInput[] | FileUncheckedCreateWithoutBlobInput[]
+    connectOrCreate?: FileCreateOrConnectWithoutBlobInput | FileCreateOrConnectWithoutBlobInput[]
+    upsert?: FileUpsertWithWhereUniqueWithoutBlobInput | FileUpsertWithWhereUniqueWithoutBlobInput[]
+    createMany?: FileCreateManyBlobInputEnvelope
+    set?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    disconnect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    delete?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    update?: FileUpdateWithWhereUniqueWithoutBlobInput | FileUpdateWithWhereUniqueWithoutBlobInput[]
+    updateMany?: FileUpdateManyWithWhereWithoutBlobInput | FileUpdateManyWithWhereWithoutBlobInput[]
+    deleteMany?: FileScalarWhereInput | FileScalarWhereInput[]
   }
 
-  export type FileCreateInput = {
-    id?: string
-    file_name: string
-    size: number
-    created_at?: Date | string
-    shared?: boolean
-    s3_link?: string | null
-    expires_at?: Date | string | null
-    owner_clerk_id: string
-    s3_key?: string | null
-    parent_folder?: FolderCreateNestedOneWithoutFilesInput
+  export type FileVersionUpdateManyWithoutBlobNestedInput = {
+    create?: XOR<FileVersionCreateWithoutBlobInput, FileVersionUncheckedCreateWithoutBlobInput> | FileVersionCreateWithoutBlobInput[] | FileVersionUncheckedCreateWithoutBlobInput[]
+    connectOrCreate?: FileVersionCreateOrConnectWithoutBlobInput | FileVersionCreateOrConnectWithoutBlobInput[]
+    upsert?: FileVersionUpsertWithWhereUniqueWithoutBlobInput | FileVersionUpsertWithWhereUniqueWithoutBlobInput[]
+    createMany?: FileVersionCreateManyBlobInputEnvelope
+    set?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    disconnect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    delete?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    connect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    update?: FileVersionUpdateWithWhereUniqueWithoutBlobInput | FileVersionUpdateWithWhereUniqueWithoutBlobInput[]
+    updateMany?: FileVersionUpdateManyWithWhereWithoutBlobInput | FileVersionUpdateManyWithWhereWithoutBlobInput[]
+    deleteMany?: FileVersionScalarWhereInput | FileVersionScalarWhereInput[]
+  }
+
+  export type FileUncheckedUpdateManyWithoutBlobNestedInput = {
+    create?: XOR<FileCreateWithoutBlobInput, FileUncheckedCreateWithoutBlobInput> | FileCreateWithoutBlobInput[] | FileUncheckedCreateWithoutBlobInput[]
+    connectOrCreate?: FileCreateOrConnectWithoutBlobInput | FileCreateOrConnectWithoutBlobInput[]
+    upsert?: FileUpsertWithWhereUniqueWithoutBlobInput | FileUpsertWithWhereUniqueWithoutBlobInput[]
+    createMany?: FileCreateManyBlobInputEnvelope
+    set?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    disconnect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    delete?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+    update?: FileUpdateWithWhereUniqueWithoutBlobInput | FileUpdateWithWhereUniqueWithoutBlobInput[]
+    updateMany?: FileUpdateManyWithWhereWithoutBlobInput | FileUpdateManyWithWhereWithoutBlobInput[]
+    deleteMany?: FileScalarWhereInput | FileScalarWhereInput[]
   }
 
-  export type FileUncheckedCreateInput = {
-    id?: string
-    file_name: string
-    size: number
-    created_at?: Date | string
-    shared?: boolean
-    s3_link?: string | null
-    expires_at?: Date | string | null
-    parent_folder_id?: string | null
-    owner_clerk_id: string
-    s3_key?: string | null
+  export type FileVersionUncheckedUpdateManyWithoutBlobNestedInput = {
+    create?: XOR<FileVersionCreateWithoutBlobInput, FileVersionUncheckedCreateWithoutBlobInput> | FileVersionCreateWithoutBlobInput[] | FileVersionUncheckedCreateWithoutBlobInput[]
+    connectOrCreate?: FileVersionCreateOrConnectWithoutBlobInput | FileVersionCreateOrConnectWithoutBlobInput[]
+    upsert?: FileVersionUpsertWithWhereUniqueWithoutBlobInput | FileVersionUpsertWithWhereUniqueWithoutBlobInput[]
+    createMany?: FileVersionCreateManyBlobInputEnvelope
+    set?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    disconnect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    delete?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    connect?: FileVersionWhereUniqueInput | FileVersionWhereUniqueInput[]
+    update?: FileVersionUpdateWithWhereUniqueWithoutBlobInput | FileVersionUpdateWithWhereUniqueWithoutBlobInput[]
+    updateMany?: FileVersionUpdateManyWithWhereWithoutBlobInput | FileVersionUpdateManyWithWhereWithoutBlobInput[]
+    deleteMany?: FileVersionScalarWhereInput | FileVersionScalarWhereInput[]
+  }
+
+  export type FolderCreateNestedOneWithoutShare_linksInput = {
+    create?: XOR<FolderCreateWithoutShare_linksInput, FolderUncheckedCreateWithoutShare_linksInput>
+    connectOrCreate?: FolderCreateOrConnectWithoutShare_linksInput
+    connect?: FolderWhereUniqueInput
   }
 
-  export type FileUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    file_name?: StringFieldUpdateOperationsInput | string
-    size?: IntFieldUpdateOperationsInput | number
-    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    owner_clerk_id?: StringFieldUpdateOperationsInput | string
-    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    parent_folder?: FolderUpdateOneWithoutFilesNestedInput
+  export type FileCreateNestedOneWithoutShare_linksInput = {
+    create?: XOR<FileCreateWithoutShare_linksInput, FileUncheckedCreateWithoutShare_linksInput>
+    connectOrCreate?: FileCreateOrConnectWithoutShare_linksInput
+    connect?: FileWhereUniqueInput
   }
 
-  export type FileUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    file_name?: StringFieldUpdateOperationsInput | string
-    size?: IntFieldUpdateOperationsInput | number
-    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
-    owner_clerk_id?: StringFieldUpdateOperationsInput | string
-    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+  export type ShareUnlockAttemptCreateNestedManyWithoutLinkInput = {
+    create?: XOR<ShareUnlockAttemptCreateWithoutLinkInput, ShareUnlockAttemptUncheckedCreateWithoutLinkInput> | ShareUnlockAttemptCreateWithoutLinkInput[] | ShareUnlockAttemptUncheckedCreateWithoutLinkInput[]
+    connectOrCreate?: ShareUnlockAttemptCreateOrConnectWithoutLinkInput | ShareUnlockAttemptCreateOrConnectWithoutLinkInput[]
+    createMany?: ShareUnlockAttemptCreateManyLinkInputEnvelope
+    connect?: ShareUnlockAttemptWhereUniqueInput | ShareUnlockAttemptWhereUniqueInput[]
   }
 
-  export type FileCreateManyInput = {
-    id?: string
-    file_name: string
-    size: number
-    created_at?: Date | string
-    shared?: boolean
-    s3_link?: string | null
-    expires_at?: Date | string | null
-    parent_folder_id?: string | null
-    owner_clerk_id: string
-    s3_key?: string | null
+  export type ShareUnlockAttemptUncheckedCreateNestedManyWithoutLinkInput = {
+    create?: XOR<ShareUnlockAttemptCreateWithoutLinkInput, ShareUnlockAttemptUncheckedCreateWithoutLinkInput> | ShareUnlockAttemptCreateWithoutLinkInput[] | ShareUnlockAttemptUncheckedCreateWithoutLinkInput[]
+    connectOrCreate?: ShareUnlockAttemptCreateOrConnectWithoutLinkInput | ShareUnlockAttemptCreateOrConnectWithoutLinkInput[]
+    createMany?: ShareUnlockAttemptCreateManyLinkInputEnvelope
+    connect?: ShareUnlockAttemptWhereUniqueInput | ShareUnlockAttemptWhereUniqueInput[]
   }
 
-  export type FileUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    file_name?: StringFieldUpdateOperationsInput | string
-    size?: IntFieldUpdateOperationsInput | number
-    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    owner_clerk_id?: StringFieldUpdateOperationsInput | string
-    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+  export type EnumSharePermissionFieldUpdateOperationsInput = {
+    set?: $Enums.SharePermission
   }
 
-  export type FileUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    file_name?: StringFieldUpdateOperationsInput | string
-    size?: IntFieldUpdateOperationsInput | number
-    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
-    owner_clerk_id?: StringFieldUpdateOperationsInput | string
-    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+  export type FolderUpdateOneWithoutShare_linksNestedInput = {
+    create?: XOR<FolderCreateWithoutShare_linksInput, FolderUncheckedCreateWithoutShare_linksInput>
+    connectOrCreate?: FolderCreateOrConnectWithoutShare_linksInput
+    upsert?: FolderUpsertWithoutShare_linksInput
+    disconnect?: FolderWhereInput | boolean
+    delete?: FolderWhereInput | boolean
+    connect?: FolderWhereUniqueInput
+    update?: XOR<XOR<FolderUpdateToOneWithWhereWithoutShare_linksInput, FolderUpdateWithoutShare_linksInput>, FolderUncheckedUpdateWithoutShare_linksInput>
+  }
+
+  export type FileUpdateOneWithoutShare_linksNestedInput = {
+    create?: XOR<FileCreateWithoutShare_linksInput, FileUncheckedCreateWithoutShare_linksInput>
+    connectOrCreate?: FileCreateOrConnectWithoutShare_linksInput
+    upsert?: FileUpsertWithoutShare_linksInput
+    disconnect?: FileWhereInput | boolean
+    delete?: FileWhereInput | boolean
+    connect?: FileWhereUniqueInput
+    update?: XOR<XOR<FileUpdateToOneWithWhereWithoutShare_linksInput, FileUpdateWithoutShare_linksInput>, FileUncheckedUpdateWithoutShare_linksInput>
+  }
+
+  export type ShareUnlockAttemptUpdateManyWithoutLinkNestedInput = {
+    create?: XOR<ShareUnlockAttemptCreateWithoutLinkInput, ShareUnlockAttemptUncheckedCreateWithoutLinkInput> | ShareUnlockAttemptCreateWithoutLinkInput[] | ShareUnlockAttemptUncheckedCreateWithoutLinkInput[]
+    connectOrCreate?: ShareUnlockAttemptCreateOrConnectWithoutLinkInput | ShareUnlockAttemptCreateOrConnectWithoutLinkInput[]
+    upsert?: ShareUnlockAttemptUpsertWithWhereUniqueWithoutLinkInput | ShareUnlockAttemptUpsertWithWhereUniqueWithoutLinkInput[]
+    createMany?: ShareUnlockAttemptCreateManyLinkInputEnvelope
+    set?: ShareUnlockAttemptWhereUniqueInput | ShareUnlockAttemptWhereUniqueInput[]
+    disconnect?: ShareUnlockAttemptWhereUniqueInput | ShareUnlockAttemptWhereUniqueInput[]
+    delete?: ShareUnlockAttemptWhereUniqueInput | ShareUnlockAttemptWhereUniqueInput[]
+    connect?: ShareUnlockAttemptWhereUniqueInput | ShareUnlockAttemptWhereUniqueInput[]
+    update?: ShareUnlockAttemptUpdateWithWhereUniqueWithoutLinkInput | ShareUnlockAttemptUpdateWithWhereUniqueWithoutLinkInput[]
+    updateMany?: ShareUnlockAttemptUpdateManyWithWhereWithoutLinkInput | ShareUnlockAttemptUpdateManyWithWhereWithoutLinkInput[]
+    deleteMany?: ShareUnlockAttemptScalarWhereInput | ShareUnlockAttemptScalarWhereInput[]
+  }
+
+  export type ShareUnlockAttemptUncheckedUpdateManyWithoutLinkNestedInput = {
+    create?: XOR<ShareUnlockAttemptCreateWithoutLinkInput, ShareUnlockAttemptUncheckedCreateWithoutLinkInput> | ShareUnlockAttemptCreateWithoutLinkInput[] | ShareUnlockAttemptUncheckedCreateWithoutLinkInput[]
+    connectOrCreate?: ShareUnlockAttemptCreateOrConnectWithoutLinkInput | ShareUnlockAttemptCreateOrConnectWithoutLinkInput[]
+    upsert?: ShareUnlockAttemptUpsertWithWhereUniqueWithoutLinkInput | ShareUnlockAttemptUpsertWithWhereUniqueWithoutLinkInput[]
+    createMany?: ShareUnlockAttemptCreateManyLinkInputEnvelope
+    set?: ShareUnlockAttemptWhereUniqueInput | ShareUnlockAttemptWhereUniqueInput[]
+    disconnect?: ShareUnlockAttemptWhereUniqueInput | ShareUnlockAttemptWhereUniqueInput[]
+    delete?: ShareUnlockAttemptWhereUniqueInput | ShareUnlockAttemptWhereUniqueInput[]
+    connect?: ShareUnlockAttemptWhereUniqueInput | ShareUnlockAttemptWhereUniqueInput[]
+    update?: ShareUnlockAttemptUpdateWithWhereUniqueWithoutLinkInput | ShareUnlockAttemptUpdateWithWhereUniqueWithoutLinkInput[]
+    updateMany?: ShareUnlockAttemptUpdateManyWithWhereWithoutLinkInput | ShareUnlockAttemptUpdateManyWithWhereWithoutLinkInput[]
+    deleteMany?: ShareUnlockAttemptScalarWhereInput | ShareUnlockAttemptScalarWhereInput[]
+  }
+
+  export type ShareLinkCreateNestedOneWithoutUnlock_attemptsInput = {
+    create?: XOR<ShareLinkCreateWithoutUnlock_attemptsInput, ShareLinkUncheckedCreateWithoutUnlock_attemptsInput>
+    connectOrCreate?: ShareLinkCreateOrConnectWithoutUnlock_attemptsInput
+    connect?: ShareLinkWhereUniqueInput
+  }
+
+  export type ShareLinkUpdateOneRequiredWithoutUnlock_attemptsNestedInput = {
+    create?: XOR<ShareLinkCreateWithoutUnlock_attemptsInput, ShareLinkUncheckedCreateWithoutUnlock_attemptsInput>
+    connectOrCreate?: ShareLinkCreateOrConnectWithoutUnlock_attemptsInput
+    upsert?: ShareLinkUpsertWithoutUnlock_attemptsInput
+    connect?: ShareLinkWhereUniqueInput
+    update?: XOR<XOR<ShareLinkUpdateToOneWithWhereWithoutUnlock_attemptsInput, ShareLinkUpdateWithoutUnlock_attemptsInput>, ShareLinkUncheckedUpdateWithoutUnlock_attemptsInput>
   }
 
-  export type StringFilter<$PrismaModel = never> = {
+  export type NestedStringFilter<$PrismaModel = never> = {
     equals?: string | StringFieldRefInput<$PrismaModel>
     in?: string[] | ListStringFieldRefInput<$PrismaModel>
     notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
@@ -3953,11 +11159,10 @@ export namespace Prisma {
     contains?: string | StringFieldRefInput<$PrismaModel>
     startsWith?: string | StringFieldRefInput<$PrismaModel>
     endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
     not?: NestedStringFilter<$PrismaModel> | string
   }
 
-  export type StringNullableFilter<$PrismaModel = never> = {
+  export type NestedStringNullableFilter<$PrismaModel = never> = {
     equals?: string | StringFieldRefInput<$PrismaModel> | null
     in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
     notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
@@ -3968,11 +11173,10 @@ export namespace Prisma {
     contains?: string | StringFieldRefInput<$PrismaModel>
     startsWith?: string | StringFieldRefInput<$PrismaModel>
     endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
     not?: NestedStringNullableFilter<$PrismaModel> | string | null
   }
 
-  export type DateTimeFilter<$PrismaModel = never> = {
+  export type NestedDateTimeFilter<$PrismaModel = never> = {
     equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
     in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
     notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
@@ -3983,12 +11187,12 @@ export namespace Prisma {
     not?: NestedDateTimeFilter<$PrismaModel> | Date | string
   }
 
-  export type BoolFilter<$PrismaModel = never> = {
+  export type NestedBoolFilter<$PrismaModel = never> = {
     equals?: boolean | BooleanFieldRefInput<$PrismaModel>
     not?: NestedBoolFilter<$PrismaModel> | boolean
   }
 
-  export type DateTimeNullableFilter<$PrismaModel = never> = {
+  export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
     equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
     in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
     notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
@@ -3999,622 +11203,1043 @@ export namespace Prisma {
     not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
   }
 
-  export type FileListRelationFilter = {
-    every?: FileWhereInput
-    some?: FileWhereInput
-    none?: FileWhereInput
+  export type NestedStringWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[] | ListStringFieldRefInput<$PrismaModel>
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedStringFilter<$PrismaModel>
+    _max?: NestedStringFilter<$PrismaModel>
+  }
+
+  export type NestedIntFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[] | ListIntFieldRefInput<$PrismaModel>
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntFilter<$PrismaModel> | number
+  }
+
+  export type NestedStringNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedStringNullableFilter<$PrismaModel>
+    _max?: NestedStringNullableFilter<$PrismaModel>
+  }
+
+  export type NestedIntNullableFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableFilter<$PrismaModel> | number | null
+  }
+
+  export type NestedDateTimeWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedDateTimeFilter<$PrismaModel>
+    _max?: NestedDateTimeFilter<$PrismaModel>
+  }
+
+  export type NestedBoolWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
+    not?: NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedBoolFilter<$PrismaModel>
+    _max?: NestedBoolFilter<$PrismaModel>
+  }
+
+  export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedDateTimeNullableFilter<$PrismaModel>
+    _max?: NestedDateTimeNullableFilter<$PrismaModel>
+  }
+
+  export type NestedBigIntFilter<$PrismaModel = never> = {
+    equals?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    in?: bigint[] | number[] | ListBigIntFieldRefInput<$PrismaModel>
+    notIn?: bigint[] | number[] | ListBigIntFieldRefInput<$PrismaModel>
+    lt?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    lte?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    gt?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    gte?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    not?: NestedBigIntFilter<$PrismaModel> | bigint | number
+  }
+
+  export type NestedBigIntWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    in?: bigint[] | number[] | ListBigIntFieldRefInput<$PrismaModel>
+    notIn?: bigint[] | number[] | ListBigIntFieldRefInput<$PrismaModel>
+    lt?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    lte?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    gt?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    gte?: bigint | number | BigIntFieldRefInput<$PrismaModel>
+    not?: NestedBigIntWithAggregatesFilter<$PrismaModel> | bigint | number
+    _count?: NestedIntFilter<$PrismaModel>
+    _avg?: NestedFloatFilter<$PrismaModel>
+    _sum?: NestedBigIntFilter<$PrismaModel>
+    _min?: NestedBigIntFilter<$PrismaModel>
+    _max?: NestedBigIntFilter<$PrismaModel>
+  }
+
+  export type NestedFloatFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel>
+    in?: number[] | ListFloatFieldRefInput<$PrismaModel>
+    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel>
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatFilter<$PrismaModel> | number
+  }
+
+  export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[] | ListIntFieldRefInput<$PrismaModel>
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntWithAggregatesFilter<$PrismaModel> | number
+    _count?: NestedIntFilter<$PrismaModel>
+    _avg?: NestedFloatFilter<$PrismaModel>
+    _sum?: NestedIntFilter<$PrismaModel>
+    _min?: NestedIntFilter<$PrismaModel>
+    _max?: NestedIntFilter<$PrismaModel>
+  }
+
+  export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _avg?: NestedFloatNullableFilter<$PrismaModel>
+    _sum?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedIntNullableFilter<$PrismaModel>
+    _max?: NestedIntNullableFilter<$PrismaModel>
+  }
+
+  export type NestedFloatNullableFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatNullableFilter<$PrismaModel> | number | null
+  }
+
+  export type NestedEnumSharePermissionFilter<$PrismaModel = never> = {
+    equals?: $Enums.SharePermission | EnumSharePermissionFieldRefInput<$PrismaModel>
+    in?: $Enums.SharePermission[] | ListEnumSharePermissionFieldRefInput<$PrismaModel>
+    notIn?: $Enums.SharePermission[] | ListEnumSharePermissionFieldRefInput<$PrismaModel>
+    not?: NestedEnumSharePermissionFilter<$PrismaModel> | $Enums.SharePermission
+  }
+
+  export type NestedEnumSharePermissionWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.SharePermission | EnumSharePermissionFieldRefInput<$PrismaModel>
+    in?: $Enums.SharePermission[] | ListEnumSharePermissionFieldRefInput<$PrismaModel>
+    notIn?: $Enums.SharePermission[] | ListEnumSharePermissionFieldRefInput<$PrismaModel>
+    not?: NestedEnumSharePermissionWithAggregatesFilter<$PrismaModel> | $Enums.SharePermission
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumSharePermissionFilter<$PrismaModel>
+    _max?: NestedEnumSharePermissionFilter<$PrismaModel>
+  }
+
+  export type FileCreateWithoutParent_folderInput = {
+    id?: string
+    file_name: string
+    size: bigint | number
+    created_at?: Date | string
+    s3_link?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+    versions?: FileVersionCreateNestedManyWithoutFileInput
+    blob?: BlobCreateNestedOneWithoutFilesInput
+    share_links?: ShareLinkCreateNestedManyWithoutFileInput
+  }
+
+  export type FileUncheckedCreateWithoutParent_folderInput = {
+    id?: string
+    file_name: string
+    size: bigint | number
+    created_at?: Date | string
+    s3_link?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    blob_id?: string | null
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+    versions?: FileVersionUncheckedCreateNestedManyWithoutFileInput
+    share_links?: ShareLinkUncheckedCreateNestedManyWithoutFileInput
+  }
+
+  export type FileCreateOrConnectWithoutParent_folderInput = {
+    where: FileWhereUniqueInput
+    create: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput>
+  }
+
+  export type FileCreateManyParent_folderInputEnvelope = {
+    data: FileCreateManyParent_folderInput | FileCreateManyParent_folderInput[]
+    skipDuplicates?: boolean
+  }
+
+  export type FolderCreateWithoutSubfoldersInput = {
+    id?: string
+    folder_name: string
+    display_name?: string | null
+    created_at?: Date | string
+    updated_at?: Date | string
+    is_root?: boolean
+    s3_link?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    files?: FileCreateNestedManyWithoutParent_folderInput
+    parent_folder?: FolderCreateNestedOneWithoutSubfoldersInput
+    share_links?: ShareLinkCreateNestedManyWithoutFolderInput
+  }
+
+  export type FolderUncheckedCreateWithoutSubfoldersInput = {
+    id?: string
+    folder_name: string
+    display_name?: string | null
+    created_at?: Date | string
+    updated_at?: Date | string
+    is_root?: boolean
+    s3_link?: string | null
+    parent_folder_id?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    files?: FileUncheckedCreateNestedManyWithoutParent_folderInput
+    share_links?: ShareLinkUncheckedCreateNestedManyWithoutFolderInput
+  }
+
+  export type FolderCreateOrConnectWithoutSubfoldersInput = {
+    where: FolderWhereUniqueInput
+    create: XOR<FolderCreateWithoutSubfoldersInput, FolderUncheckedCreateWithoutSubfoldersInput>
   }
 
-  export type FolderNullableScalarRelationFilter = {
-    is?: FolderWhereInput | null
-    isNot?: FolderWhereInput | null
+  export type FolderCreateWithoutParent_folderInput = {
+    id?: string
+    folder_name: string
+    display_name?: string | null
+    created_at?: Date | string
+    updated_at?: Date | string
+    is_root?: boolean
+    s3_link?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    files?: FileCreateNestedManyWithoutParent_folderInput
+    subfolders?: FolderCreateNestedManyWithoutParent_folderInput
+    share_links?: ShareLinkCreateNestedManyWithoutFolderInput
   }
 
-  export type FolderListRelationFilter = {
-    every?: FolderWhereInput
-    some?: FolderWhereInput
-    none?: FolderWhereInput
+  export type FolderUncheckedCreateWithoutParent_folderInput = {
+    id?: string
+    folder_name: string
+    display_name?: string | null
+    created_at?: Date | string
+    updated_at?: Date | string
+    is_root?: boolean
+    s3_link?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    files?: FileUncheckedCreateNestedManyWithoutParent_folderInput
+    subfolders?: FolderUncheckedCreateNestedManyWithoutParent_folderInput
+    share_links?: ShareLinkUncheckedCreateNestedManyWithoutFolderInput
   }
 
-  export type SortOrderInput = {
-    sort: SortOrder
-    nulls?: NullsOrder
+  export type FolderCreateOrConnectWithoutParent_folderInput = {
+    where: FolderWhereUniqueInput
+    create: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput>
   }
 
-  export type FileOrderByRelationAggregateInput = {
-    _count?: SortOrder
+  export type FolderCreateManyParent_folderInputEnvelope = {
+    data: FolderCreateManyParent_folderInput | FolderCreateManyParent_folderInput[]
+    skipDuplicates?: boolean
   }
 
-  export type FolderOrderByRelationAggregateInput = {
-    _count?: SortOrder
+  export type ShareLinkCreateWithoutFolderInput = {
+    id?: string
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
+    expires_at?: Date | string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
+    owner_clerk_id: string
+    file?: FileCreateNestedOneWithoutShare_linksInput
+    unlock_attempts?: ShareUnlockAttemptCreateNestedManyWithoutLinkInput
   }
 
-  export type FolderCountOrderByAggregateInput = {
-    id?: SortOrder
-    folder_name?: SortOrder
-    display_name?: SortOrder
-    created_at?: SortOrder
-    updated_at?: SortOrder
-    is_root?: SortOrder
-    s3_link?: SortOrder
-    shared?: SortOrder
-    expires_at?: SortOrder
-    parent_folder_id?: SortOrder
-    owner_clerk_id?: SortOrder
-    s3_key?: SortOrder
-    shareToken?: SortOrder
+  export type ShareLinkUncheckedCreateWithoutFolderInput = {
+    id?: string
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
+    expires_at?: Date | string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
+    owner_clerk_id: string
+    file_id?: string | null
+    unlock_attempts?: ShareUnlockAttemptUncheckedCreateNestedManyWithoutLinkInput
   }
 
-  export type FolderMaxOrderByAggregateInput = {
-    id?: SortOrder
-    folder_name?: SortOrder
-    display_name?: SortOrder
-    created_at?: SortOrder
-    updated_at?: SortOrder
-    is_root?: SortOrder
-    s3_link?: SortOrder
-    shared?: SortOrder
-    expires_at?: SortOrder
-    parent_folder_id?: SortOrder
-    owner_clerk_id?: SortOrder
-    s3_key?: SortOrder
-    shareToken?: SortOrder
+  export type ShareLinkCreateOrConnectWithoutFolderInput = {
+    where: ShareLinkWhereUniqueInput
+    create: XOR<ShareLinkCreateWithoutFolderInput, ShareLinkUncheckedCreateWithoutFolderInput>
   }
 
-  export type FolderMinOrderByAggregateInput = {
-    id?: SortOrder
-    folder_name?: SortOrder
-    display_name?: SortOrder
-    created_at?: SortOrder
-    updated_at?: SortOrder
-    is_root?: SortOrder
-    s3_link?: SortOrder
-    shared?: SortOrder
-    expires_at?: SortOrder
-    parent_folder_id?: SortOrder
-    owner_clerk_id?: SortOrder
-    s3_key?: SortOrder
-    shareToken?: SortOrder
+  export type ShareLinkCreateManyFolderInputEnvelope = {
+    data: ShareLinkCreateManyFolderInput | ShareLinkCreateManyFolderInput[]
+    skipDuplicates?: boolean
   }
 
-  export type StringWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
-    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedStringFilter<$PrismaModel>
-    _max?: NestedStringFilter<$PrismaModel>
+  export type FileUpsertWithWhereUniqueWithoutParent_folderInput = {
+    where: FileWhereUniqueInput
+    update: XOR<FileUpdateWithoutParent_folderInput, FileUncheckedUpdateWithoutParent_folderInput>
+    create: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput>
   }
 
-  export type StringNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
-    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedStringNullableFilter<$PrismaModel>
-    _max?: NestedStringNullableFilter<$PrismaModel>
+  export type FileUpdateWithWhereUniqueWithoutParent_folderInput = {
+    where: FileWhereUniqueInput
+    data: XOR<FileUpdateWithoutParent_folderInput, FileUncheckedUpdateWithoutParent_folderInput>
   }
 
-  export type DateTimeWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedDateTimeFilter<$PrismaModel>
-    _max?: NestedDateTimeFilter<$PrismaModel>
+  export type FileUpdateManyWithWhereWithoutParent_folderInput = {
+    where: FileScalarWhereInput
+    data: XOR<FileUpdateManyMutationInput, FileUncheckedUpdateManyWithoutParent_folderInput>
   }
 
-  export type BoolWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedBoolFilter<$PrismaModel>
-    _max?: NestedBoolFilter<$PrismaModel>
+  export type FileScalarWhereInput = {
+    AND?: FileScalarWhereInput | FileScalarWhereInput[]
+    OR?: FileScalarWhereInput[]
+    NOT?: FileScalarWhereInput | FileScalarWhereInput[]
+    id?: StringFilter<"File"> | string
+    file_name?: StringFilter<"File"> | string
+    size?: BigIntFilter<"File"> | bigint | number
+    created_at?: DateTimeFilter<"File"> | Date | string
+    s3_link?: StringNullableFilter<"File"> | string | null
+    parent_folder_id?: StringNullableFilter<"File"> | string | null
+    owner_clerk_id?: StringFilter<"File"> | string
+    s3_key?: StringNullableFilter<"File"> | string | null
+    deleted_at?: DateTimeNullableFilter<"File"> | Date | string | null
+    pending_until?: DateTimeNullableFilter<"File"> | Date | string | null
+    multipart_upload_id?: StringNullableFilter<"File"> | string | null
+    version?: IntFilter<"File"> | number
+    version_created_at?: DateTimeFilter<"File"> | Date | string
+    blob_id?: StringNullableFilter<"File"> | string | null
+    dedup_pending?: BoolFilter<"File"> | boolean
+    extension?: StringFilter<"File"> | string
+    thumbnail_key?: StringNullableFilter<"File"> | string | null
+    thumbnail_version?: IntNullableFilter<"File"> | number | null
   }
 
-  export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedDateTimeNullableFilter<$PrismaModel>
-    _max?: NestedDateTimeNullableFilter<$PrismaModel>
+  export type FolderUpsertWithoutSubfoldersInput = {
+    update: XOR<FolderUpdateWithoutSubfoldersInput, FolderUncheckedUpdateWithoutSubfoldersInput>
+    create: XOR<FolderCreateWithoutSubfoldersInput, FolderUncheckedCreateWithoutSubfoldersInput>
+    where?: FolderWhereInput
   }
 
-  export type IntFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel>
-    in?: number[] | ListIntFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntFilter<$PrismaModel> | number
+  export type FolderUpdateToOneWithWhereWithoutSubfoldersInput = {
+    where?: FolderWhereInput
+    data: XOR<FolderUpdateWithoutSubfoldersInput, FolderUncheckedUpdateWithoutSubfoldersInput>
   }
 
-  export type FileCountOrderByAggregateInput = {
-    id?: SortOrder
-    file_name?: SortOrder
-    size?: SortOrder
-    created_at?: SortOrder
-    shared?: SortOrder
-    s3_link?: SortOrder
-    expires_at?: SortOrder
-    parent_folder_id?: SortOrder
-    owner_clerk_id?: SortOrder
-    s3_key?: SortOrder
+  export type FolderUpdateWithoutSubfoldersInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    folder_name?: StringFieldUpdateOperationsInput | string
+    display_name?: NullableStringFieldUpdateOperationsInput | string | null
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    is_root?: BoolFieldUpdateOperationsInput | boolean
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    files?: FileUpdateManyWithoutParent_folderNestedInput
+    parent_folder?: FolderUpdateOneWithoutSubfoldersNestedInput
+    share_links?: ShareLinkUpdateManyWithoutFolderNestedInput
   }
 
-  export type FileAvgOrderByAggregateInput = {
-    size?: SortOrder
+  export type FolderUncheckedUpdateWithoutSubfoldersInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    folder_name?: StringFieldUpdateOperationsInput | string
+    display_name?: NullableStringFieldUpdateOperationsInput | string | null
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    is_root?: BoolFieldUpdateOperationsInput | boolean
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    files?: FileUncheckedUpdateManyWithoutParent_folderNestedInput
+    share_links?: ShareLinkUncheckedUpdateManyWithoutFolderNestedInput
   }
 
-  export type FileMaxOrderByAggregateInput = {
-    id?: SortOrder
-    file_name?: SortOrder
-    size?: SortOrder
-    created_at?: SortOrder
-    shared?: SortOrder
-    s3_link?: SortOrder
-    expires_at?: SortOrder
-    parent_folder_id?: SortOrder
-    owner_clerk_id?: SortOrder
-    s3_key?: SortOrder
+  export type FolderUpsertWithWhereUniqueWithoutParent_folderInput = {
+    where: FolderWhereUniqueInput
+    update: XOR<FolderUpdateWithoutParent_folderInput, FolderUncheckedUpdateWithoutParent_folderInput>
+    create: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput>
+  }
+
+  export type FolderUpdateWithWhereUniqueWithoutParent_folderInput = {
+    where: FolderWhereUniqueInput
+    data: XOR<FolderUpdateWithoutParent_folderInput, FolderUncheckedUpdateWithoutParent_folderInput>
   }
 
-  export type FileMinOrderByAggregateInput = {
-    id?: SortOrder
-    file_name?: SortOrder
-    size?: SortOrder
-    created_at?: SortOrder
-    shared?: SortOrder
-    s3_link?: SortOrder
-    expires_at?: SortOrder
-    parent_folder_id?: SortOrder
-    owner_clerk_id?: SortOrder
-    s3_key?: SortOrder
+  export type FolderUpdateManyWithWhereWithoutParent_folderInput = {
+    where: FolderScalarWhereInput
+    data: XOR<FolderUpdateManyMutationInput, FolderUncheckedUpdateManyWithoutParent_folderInput>
   }
 
-  export type FileSumOrderByAggregateInput = {
-    size?: SortOrder
+  export type FolderScalarWhereInput = {
+    AND?: FolderScalarWhereInput | FolderScalarWhereInput[]
+    OR?: FolderScalarWhereInput[]
+    NOT?: FolderScalarWhereInput | FolderScalarWhereInput[]
+    id?: StringFilter<"Folder"> | string
+    folder_name?: StringFilter<"Folder"> | string
+    display_name?: StringNullableFilter<"Folder"> | string | null
+    created_at?: DateTimeFilter<"Folder"> | Date | string
+    updated_at?: DateTimeFilter<"Folder"> | Date | string
+    is_root?: BoolFilter<"Folder"> | boolean
+    s3_link?: StringNullableFilter<"Folder"> | string | null
+    parent_folder_id?: StringNullableFilter<"Folder"> | string | null
+    owner_clerk_id?: StringFilter<"Folder"> | string
+    s3_key?: StringNullableFilter<"Folder"> | string | null
+    deleted_at?: DateTimeNullableFilter<"Folder"> | Date | string | null
   }
 
-  export type IntWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel>
-    in?: number[] | ListIntFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntWithAggregatesFilter<$PrismaModel> | number
-    _count?: NestedIntFilter<$PrismaModel>
-    _avg?: NestedFloatFilter<$PrismaModel>
-    _sum?: NestedIntFilter<$PrismaModel>
-    _min?: NestedIntFilter<$PrismaModel>
-    _max?: NestedIntFilter<$PrismaModel>
+  export type ShareLinkUpsertWithWhereUniqueWithoutFolderInput = {
+    where: ShareLinkWhereUniqueInput
+    update: XOR<ShareLinkUpdateWithoutFolderInput, ShareLinkUncheckedUpdateWithoutFolderInput>
+    create: XOR<ShareLinkCreateWithoutFolderInput, ShareLinkUncheckedCreateWithoutFolderInput>
   }
 
-  export type FileCreateNestedManyWithoutParent_folderInput = {
-    create?: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput> | FileCreateWithoutParent_folderInput[] | FileUncheckedCreateWithoutParent_folderInput[]
-    connectOrCreate?: FileCreateOrConnectWithoutParent_folderInput | FileCreateOrConnectWithoutParent_folderInput[]
-    createMany?: FileCreateManyParent_folderInputEnvelope
-    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+  export type ShareLinkUpdateWithWhereUniqueWithoutFolderInput = {
+    where: ShareLinkWhereUniqueInput
+    data: XOR<ShareLinkUpdateWithoutFolderInput, ShareLinkUncheckedUpdateWithoutFolderInput>
   }
 
-  export type FolderCreateNestedOneWithoutSubfoldersInput = {
-    create?: XOR<FolderCreateWithoutSubfoldersInput, FolderUncheckedCreateWithoutSubfoldersInput>
-    connectOrCreate?: FolderCreateOrConnectWithoutSubfoldersInput
-    connect?: FolderWhereUniqueInput
+  export type ShareLinkUpdateManyWithWhereWithoutFolderInput = {
+    where: ShareLinkScalarWhereInput
+    data: XOR<ShareLinkUpdateManyMutationInput, ShareLinkUncheckedUpdateManyWithoutFolderInput>
   }
 
-  export type FolderCreateNestedManyWithoutParent_folderInput = {
-    create?: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput> | FolderCreateWithoutParent_folderInput[] | FolderUncheckedCreateWithoutParent_folderInput[]
-    connectOrCreate?: FolderCreateOrConnectWithoutParent_folderInput | FolderCreateOrConnectWithoutParent_folderInput[]
-    createMany?: FolderCreateManyParent_folderInputEnvelope
-    connect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+  export type ShareLinkScalarWhereInput = {
+    AND?: ShareLinkScalarWhereInput | ShareLinkScalarWhereInput[]
+    OR?: ShareLinkScalarWhereInput[]
+    NOT?: ShareLinkScalarWhereInput | ShareLinkScalarWhereInput[]
+    id?: StringFilter<"ShareLink"> | string
+    token?: StringFilter<"ShareLink"> | string
+    label?: StringNullableFilter<"ShareLink"> | string | null
+    permission?: EnumSharePermissionFilter<"ShareLink"> | $Enums.SharePermission
+    expires_at?: DateTimeNullableFilter<"ShareLink"> | Date | string | null
+    password_hash?: StringNullableFilter<"ShareLink"> | string | null
+    max_downloads?: IntNullableFilter<"ShareLink"> | number | null
+    download_count?: IntFilter<"ShareLink"> | number
+    created_at?: DateTimeFilter<"ShareLink"> | Date | string
+    owner_clerk_id?: StringFilter<"ShareLink"> | string
+    folder_id?: StringNullableFilter<"ShareLink"> | string | null
+    file_id?: StringNullableFilter<"ShareLink"> | string | null
   }
 
-  export type FileUncheckedCreateNestedManyWithoutParent_folderInput = {
-    create?: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput> | FileCreateWithoutParent_folderInput[] | FileUncheckedCreateWithoutParent_folderInput[]
-    connectOrCreate?: FileCreateOrConnectWithoutParent_folderInput | FileCreateOrConnectWithoutParent_folderInput[]
-    createMany?: FileCreateManyParent_folderInputEnvelope
-    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
+  export type FolderCreateWithoutFilesInput = {
+    id?: string
+    folder_name: string
+    display_name?: string | null
+    created_at?: Date | string
+    updated_at?: Date | string
+    is_root?: boolean
+    s3_link?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    parent_folder?: FolderCreateNestedOneWithoutSubfoldersInput
+    subfolders?: FolderCreateNestedManyWithoutParent_folderInput
+    share_links?: ShareLinkCreateNestedManyWithoutFolderInput
   }
 
-  export type FolderUncheckedCreateNestedManyWithoutParent_folderInput = {
-    create?: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput> | FolderCreateWithoutParent_folderInput[] | FolderUncheckedCreateWithoutParent_folderInput[]
-    connectOrCreate?: FolderCreateOrConnectWithoutParent_folderInput | FolderCreateOrConnectWithoutParent_folderInput[]
-    createMany?: FolderCreateManyParent_folderInputEnvelope
-    connect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
+  export type FolderUncheckedCreateWithoutFilesInput = {
+    id?: string
+    folder_name: string
+    display_name?: string | null
+    created_at?: Date | string
+    updated_at?: Date | string
+    is_root?: boolean
+    s3_link?: string | null
+    parent_folder_id?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    subfolders?: FolderUncheckedCreateNestedManyWithoutParent_folderInput
+    share_links?: ShareLinkUncheckedCreateNestedManyWithoutFolderInput
   }
 
-  export type StringFieldUpdateOperationsInput = {
-    set?: string
+  export type FolderCreateOrConnectWithoutFilesInput = {
+    where: FolderWhereUniqueInput
+    create: XOR<FolderCreateWithoutFilesInput, FolderUncheckedCreateWithoutFilesInput>
   }
 
-  export type NullableStringFieldUpdateOperationsInput = {
-    set?: string | null
+  export type FileVersionCreateWithoutFileInput = {
+    id?: string
+    version: number
+    size: bigint | number
+    s3_key: string
+    created_at: Date | string
+    blob?: BlobCreateNestedOneWithoutVersionsInput
   }
 
-  export type DateTimeFieldUpdateOperationsInput = {
-    set?: Date | string
+  export type FileVersionUncheckedCreateWithoutFileInput = {
+    id?: string
+    version: number
+    size: bigint | number
+    s3_key: string
+    created_at: Date | string
+    blob_id?: string | null
   }
 
-  export type BoolFieldUpdateOperationsInput = {
-    set?: boolean
+  export type FileVersionCreateOrConnectWithoutFileInput = {
+    where: FileVersionWhereUniqueInput
+    create: XOR<FileVersionCreateWithoutFileInput, FileVersionUncheckedCreateWithoutFileInput>
   }
 
-  export type NullableDateTimeFieldUpdateOperationsInput = {
-    set?: Date | string | null
+  export type FileVersionCreateManyFileInputEnvelope = {
+    data: FileVersionCreateManyFileInput | FileVersionCreateManyFileInput[]
+    skipDuplicates?: boolean
   }
 
-  export type FileUpdateManyWithoutParent_folderNestedInput = {
-    create?: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput> | FileCreateWithoutParent_folderInput[] | FileUncheckedCreateWithoutParent_folderInput[]
-    connectOrCreate?: FileCreateOrConnectWithoutParent_folderInput | FileCreateOrConnectWithoutParent_folderInput[]
-    upsert?: FileUpsertWithWhereUniqueWithoutParent_folderInput | FileUpsertWithWhereUniqueWithoutParent_folderInput[]
-    createMany?: FileCreateManyParent_folderInputEnvelope
-    set?: FileWhereUniqueInput | FileWhereUniqueInput[]
-    disconnect?: FileWhereUniqueInput | FileWhereUniqueInput[]
-    delete?: FileWhereUniqueInput | FileWhereUniqueInput[]
-    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
-    update?: FileUpdateWithWhereUniqueWithoutParent_folderInput | FileUpdateWithWhereUniqueWithoutParent_folderInput[]
-    updateMany?: FileUpdateManyWithWhereWithoutParent_folderInput | FileUpdateManyWithWhereWithoutParent_folderInput[]
-    deleteMany?: FileScalarWhereInput | FileScalarWhereInput[]
+  export type BlobCreateWithoutFilesInput = {
+    id: string
+    size: bigint | number
+    s3_key: string
+    ref_count?: number
+    created_at?: Date | string
+    content_text?: string | null
+    versions?: FileVersionCreateNestedManyWithoutBlobInput
   }
 
-  export type FolderUpdateOneWithoutSubfoldersNestedInput = {
-    create?: XOR<FolderCreateWithoutSubfoldersInput, FolderUncheckedCreateWithoutSubfoldersInput>
-    connectOrCreate?: FolderCreateOrConnectWithoutSubfoldersInput
-    upsert?: FolderUpsertWithoutSubfoldersInput
-    disconnect?: FolderWhereInput | boolean
-    delete?: FolderWhereInput | boolean
-    connect?: FolderWhereUniqueInput
-    update?: XOR<XOR<FolderUpdateToOneWithWhereWithoutSubfoldersInput, FolderUpdateWithoutSubfoldersInput>, FolderUncheckedUpdateWithoutSubfoldersInput>
+  export type BlobUncheckedCreateWithoutFilesInput = {
+    id: string
+    size: bigint | number
+    s3_key: string
+    ref_count?: number
+    created_at?: Date | string
+    content_text?: string | null
+    versions?: FileVersionUncheckedCreateNestedManyWithoutBlobInput
   }
 
-  export type FolderUpdateManyWithoutParent_folderNestedInput = {
-    create?: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput> | FolderCreateWithoutParent_folderInput[] | FolderUncheckedCreateWithoutParent_folderInput[]
-    connectOrCreate?: FolderCreateOrConnectWithoutParent_folderInput | FolderCreateOrConnectWithoutParent_folderInput[]
-    upsert?: FolderUpsertWithWhereUniqueWithoutParent_folderInput | FolderUpsertWithWhereUniqueWithoutParent_folderInput[]
-    createMany?: FolderCreateManyParent_folderInputEnvelope
-    set?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
-    disconnect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
-    delete?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
-    connect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
-    update?: FolderUpdateWithWhereUniqueWithoutParent_folderInput | FolderUpdateWithWhereUniqueWithoutParent_folderInput[]
-    updateMany?: FolderUpdateManyWithWhereWithoutParent_folderInput | FolderUpdateManyWithWhereWithoutParent_folderInput[]
-    deleteMany?: FolderScalarWhereInput | FolderScalarWhereInput[]
+  export type BlobCreateOrConnectWithoutFilesInput = {
+    where: BlobWhereUniqueInput
+    create: XOR<BlobCreateWithoutFilesInput, BlobUncheckedCreateWithoutFilesInput>
   }
 
-  export type FileUncheckedUpdateManyWithoutParent_folderNestedInput = {
-    create?: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput> | FileCreateWithoutParent_folderInput[] | FileUncheckedCreateWithoutParent_folderInput[]
-    connectOrCreate?: FileCreateOrConnectWithoutParent_folderInput | FileCreateOrConnectWithoutParent_folderInput[]
-    upsert?: FileUpsertWithWhereUniqueWithoutParent_folderInput | FileUpsertWithWhereUniqueWithoutParent_folderInput[]
-    createMany?: FileCreateManyParent_folderInputEnvelope
-    set?: FileWhereUniqueInput | FileWhereUniqueInput[]
-    disconnect?: FileWhereUniqueInput | FileWhereUniqueInput[]
-    delete?: FileWhereUniqueInput | FileWhereUniqueInput[]
-    connect?: FileWhereUniqueInput | FileWhereUniqueInput[]
-    update?: FileUpdateWithWhereUniqueWithoutParent_folderInput | FileUpdateWithWhereUniqueWithoutParent_folderInput[]
-    updateMany?: FileUpdateManyWithWhereWithoutParent_folderInput | FileUpdateManyWithWhereWithoutParent_folderInput[]
-    deleteMany?: FileScalarWhereInput | FileScalarWhereInput[]
+  export type ShareLinkCreateWithoutFileInput = {
+    id?: string
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
+    expires_at?: Date | string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
+    owner_clerk_id: string
+    folder?: FolderCreateNestedOneWithoutShare_linksInput
+    unlock_attempts?: ShareUnlockAttemptCreateNestedManyWithoutLinkInput
   }
 
-  export type FolderUncheckedUpdateManyWithoutParent_folderNestedInput = {
-    create?: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput> | FolderCreateWithoutParent_folderInput[] | FolderUncheckedCreateWithoutParent_folderInput[]
-    connectOrCreate?: FolderCreateOrConnectWithoutParent_folderInput | FolderCreateOrConnectWithoutParent_folderInput[]
-    upsert?: FolderUpsertWithWhereUniqueWithoutParent_folderInput | FolderUpsertWithWhereUniqueWithoutParent_folderInput[]
-    createMany?: FolderCreateManyParent_folderInputEnvelope
-    set?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
-    disconnect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
-    delete?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
-    connect?: FolderWhereUniqueInput | FolderWhereUniqueInput[]
-    update?: FolderUpdateWithWhereUniqueWithoutParent_folderInput | FolderUpdateWithWhereUniqueWithoutParent_folderInput[]
-    updateMany?: FolderUpdateManyWithWhereWithoutParent_folderInput | FolderUpdateManyWithWhereWithoutParent_folderInput[]
-    deleteMany?: FolderScalarWhereInput | FolderScalarWhereInput[]
+  export type ShareLinkUncheckedCreateWithoutFileInput = {
+    id?: string
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
+    expires_at?: Date | string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
+    owner_clerk_id: string
+    folder_id?: string | null
+    unlock_attempts?: ShareUnlockAttemptUncheckedCreateNestedManyWithoutLinkInput
   }
 
-  export type FolderCreateNestedOneWithoutFilesInput = {
-    create?: XOR<FolderCreateWithoutFilesInput, FolderUncheckedCreateWithoutFilesInput>
-    connectOrCreate?: FolderCreateOrConnectWithoutFilesInput
-    connect?: FolderWhereUniqueInput
+  export type ShareLinkCreateOrConnectWithoutFileInput = {
+    where: ShareLinkWhereUniqueInput
+    create: XOR<ShareLinkCreateWithoutFileInput, ShareLinkUncheckedCreateWithoutFileInput>
   }
 
-  export type IntFieldUpdateOperationsInput = {
-    set?: number
-    increment?: number
-    decrement?: number
-    multiply?: number
-    divide?: number
+  export type ShareLinkCreateManyFileInputEnvelope = {
+    data: ShareLinkCreateManyFileInput | ShareLinkCreateManyFileInput[]
+    skipDuplicates?: boolean
   }
 
-  export type FolderUpdateOneWithoutFilesNestedInput = {
-    create?: XOR<FolderCreateWithoutFilesInput, FolderUncheckedCreateWithoutFilesInput>
-    connectOrCreate?: FolderCreateOrConnectWithoutFilesInput
-    upsert?: FolderUpsertWithoutFilesInput
-    disconnect?: FolderWhereInput | boolean
-    delete?: FolderWhereInput | boolean
-    connect?: FolderWhereUniqueInput
-    update?: XOR<XOR<FolderUpdateToOneWithWhereWithoutFilesInput, FolderUpdateWithoutFilesInput>, FolderUncheckedUpdateWithoutFilesInput>
+  export type FolderUpsertWithoutFilesInput = {
+    update: XOR<FolderUpdateWithoutFilesInput, FolderUncheckedUpdateWithoutFilesInput>
+    create: XOR<FolderCreateWithoutFilesInput, FolderUncheckedCreateWithoutFilesInput>
+    where?: FolderWhereInput
   }
 
-  export type NestedStringFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringFilter<$PrismaModel> | string
+  export type FolderUpdateToOneWithWhereWithoutFilesInput = {
+    where?: FolderWhereInput
+    data: XOR<FolderUpdateWithoutFilesInput, FolderUncheckedUpdateWithoutFilesInput>
   }
 
-  export type NestedStringNullableFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringNullableFilter<$PrismaModel> | string | null
+  export type FolderUpdateWithoutFilesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    folder_name?: StringFieldUpdateOperationsInput | string
+    display_name?: NullableStringFieldUpdateOperationsInput | string | null
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    is_root?: BoolFieldUpdateOperationsInput | boolean
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    parent_folder?: FolderUpdateOneWithoutSubfoldersNestedInput
+    subfolders?: FolderUpdateManyWithoutParent_folderNestedInput
+    share_links?: ShareLinkUpdateManyWithoutFolderNestedInput
   }
 
-  export type NestedDateTimeFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
+  export type FolderUncheckedUpdateWithoutFilesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    folder_name?: StringFieldUpdateOperationsInput | string
+    display_name?: NullableStringFieldUpdateOperationsInput | string | null
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    is_root?: BoolFieldUpdateOperationsInput | boolean
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    subfolders?: FolderUncheckedUpdateManyWithoutParent_folderNestedInput
+    share_links?: ShareLinkUncheckedUpdateManyWithoutFolderNestedInput
   }
 
-  export type NestedBoolFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolFilter<$PrismaModel> | boolean
+  export type FileVersionUpsertWithWhereUniqueWithoutFileInput = {
+    where: FileVersionWhereUniqueInput
+    update: XOR<FileVersionUpdateWithoutFileInput, FileVersionUncheckedUpdateWithoutFileInput>
+    create: XOR<FileVersionCreateWithoutFileInput, FileVersionUncheckedCreateWithoutFileInput>
   }
 
-  export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+  export type FileVersionUpdateWithWhereUniqueWithoutFileInput = {
+    where: FileVersionWhereUniqueInput
+    data: XOR<FileVersionUpdateWithoutFileInput, FileVersionUncheckedUpdateWithoutFileInput>
   }
 
-  export type NestedStringWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedStringFilter<$PrismaModel>
-    _max?: NestedStringFilter<$PrismaModel>
+  export type FileVersionUpdateManyWithWhereWithoutFileInput = {
+    where: FileVersionScalarWhereInput
+    data: XOR<FileVersionUpdateManyMutationInput, FileVersionUncheckedUpdateManyWithoutFileInput>
   }
 
-  export type NestedIntFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel>
-    in?: number[] | ListIntFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntFilter<$PrismaModel> | number
+  export type FileVersionScalarWhereInput = {
+    AND?: FileVersionScalarWhereInput | FileVersionScalarWhereInput[]
+    OR?: FileVersionScalarWhereInput[]
+    NOT?: FileVersionScalarWhereInput | FileVersionScalarWhereInput[]
+    id?: StringFilter<"FileVersion"> | string
+    file_id?: StringFilter<"FileVersion"> | string
+    version?: IntFilter<"FileVersion"> | number
+    size?: BigIntFilter<"FileVersion"> | bigint | number
+    s3_key?: StringFilter<"FileVersion"> | string
+    created_at?: DateTimeFilter<"FileVersion"> | Date | string
+    blob_id?: StringNullableFilter<"FileVersion"> | string | null
   }
 
-  export type NestedStringNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedStringNullableFilter<$PrismaModel>
-    _max?: NestedStringNullableFilter<$PrismaModel>
+  export type BlobUpsertWithoutFilesInput = {
+    update: XOR<BlobUpdateWithoutFilesInput, BlobUncheckedUpdateWithoutFilesInput>
+    create: XOR<BlobCreateWithoutFilesInput, BlobUncheckedCreateWithoutFilesInput>
+    where?: BlobWhereInput
   }
 
-  export type NestedIntNullableFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel> | null
-    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntNullableFilter<$PrismaModel> | number | null
+  export type BlobUpdateToOneWithWhereWithoutFilesInput = {
+    where?: BlobWhereInput
+    data: XOR<BlobUpdateWithoutFilesInput, BlobUncheckedUpdateWithoutFilesInput>
   }
 
-  export type NestedDateTimeWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedDateTimeFilter<$PrismaModel>
-    _max?: NestedDateTimeFilter<$PrismaModel>
+  export type BlobUpdateWithoutFilesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    ref_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    content_text?: NullableStringFieldUpdateOperationsInput | string | null
+    versions?: FileVersionUpdateManyWithoutBlobNestedInput
   }
 
-  export type NestedBoolWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedBoolFilter<$PrismaModel>
-    _max?: NestedBoolFilter<$PrismaModel>
+  export type BlobUncheckedUpdateWithoutFilesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    ref_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    content_text?: NullableStringFieldUpdateOperationsInput | string | null
+    versions?: FileVersionUncheckedUpdateManyWithoutBlobNestedInput
   }
 
-  export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedDateTimeNullableFilter<$PrismaModel>
-    _max?: NestedDateTimeNullableFilter<$PrismaModel>
+  export type ShareLinkUpsertWithWhereUniqueWithoutFileInput = {
+    where: ShareLinkWhereUniqueInput
+    update: XOR<ShareLinkUpdateWithoutFileInput, ShareLinkUncheckedUpdateWithoutFileInput>
+    create: XOR<ShareLinkCreateWithoutFileInput, ShareLinkUncheckedCreateWithoutFileInput>
   }
 
-  export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel>
-    in?: number[] | ListIntFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntWithAggregatesFilter<$PrismaModel> | number
-    _count?: NestedIntFilter<$PrismaModel>
-    _avg?: NestedFloatFilter<$PrismaModel>
-    _sum?: NestedIntFilter<$PrismaModel>
-    _min?: NestedIntFilter<$PrismaModel>
-    _max?: NestedIntFilter<$PrismaModel>
+  export type ShareLinkUpdateWithWhereUniqueWithoutFileInput = {
+    where: ShareLinkWhereUniqueInput
+    data: XOR<ShareLinkUpdateWithoutFileInput, ShareLinkUncheckedUpdateWithoutFileInput>
   }
 
-  export type NestedFloatFilter<$PrismaModel = never> = {
-    equals?: number | FloatFieldRefInput<$PrismaModel>
-    in?: number[] | ListFloatFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel>
-    lt?: number | FloatFieldRefInput<$PrismaModel>
-    lte?: number | FloatFieldRefInput<$PrismaModel>
-    gt?: number | FloatFieldRefInput<$PrismaModel>
-    gte?: number | FloatFieldRefInput<$PrismaModel>
-    not?: NestedFloatFilter<$PrismaModel> | number
+  export type ShareLinkUpdateManyWithWhereWithoutFileInput = {
+    where: ShareLinkScalarWhereInput
+    data: XOR<ShareLinkUpdateManyMutationInput, ShareLinkUncheckedUpdateManyWithoutFileInput>
   }
 
-  export type FileCreateWithoutParent_folderInput = {
+  export type FileCreateWithoutVersionsInput = {
     id?: string
     file_name: string
-    size: number
+    size: bigint | number
     created_at?: Date | string
-    shared?: boolean
     s3_link?: string | null
-    expires_at?: Date | string | null
     owner_clerk_id: string
     s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+    parent_folder?: FolderCreateNestedOneWithoutFilesInput
+    blob?: BlobCreateNestedOneWithoutFilesInput
+    share_links?: ShareLinkCreateNestedManyWithoutFileInput
   }
 
-  export type FileUncheckedCreateWithoutParent_folderInput = {
+  export type FileUncheckedCreateWithoutVersionsInput = {
     id?: string
     file_name: string
-    size: number
+    size: bigint | number
     created_at?: Date | string
-    shared?: boolean
     s3_link?: string | null
-    expires_at?: Date | string | null
+    parent_folder_id?: string | null
     owner_clerk_id: string
     s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    blob_id?: string | null
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+    share_links?: ShareLinkUncheckedCreateNestedManyWithoutFileInput
+  }
+
+  export type FileCreateOrConnectWithoutVersionsInput = {
+    where: FileWhereUniqueInput
+    create: XOR<FileCreateWithoutVersionsInput, FileUncheckedCreateWithoutVersionsInput>
   }
 
-  export type FileCreateOrConnectWithoutParent_folderInput = {
-    where: FileWhereUniqueInput
-    create: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput>
+  export type BlobCreateWithoutVersionsInput = {
+    id: string
+    size: bigint | number
+    s3_key: string
+    ref_count?: number
+    created_at?: Date | string
+    content_text?: string | null
+    files?: FileCreateNestedManyWithoutBlobInput
   }
 
-  export type FileCreateManyParent_folderInputEnvelope = {
-    data: FileCreateManyParent_folderInput | FileCreateManyParent_folderInput[]
-    skipDuplicates?: boolean
+  export type BlobUncheckedCreateWithoutVersionsInput = {
+    id: string
+    size: bigint | number
+    s3_key: string
+    ref_count?: number
+    created_at?: Date | string
+    content_text?: string | null
+    files?: FileUncheckedCreateNestedManyWithoutBlobInput
   }
 
-  export type FolderCreateWithoutSubfoldersInput = {
+  export type BlobCreateOrConnectWithoutVersionsInput = {
+    where: BlobWhereUniqueInput
+    create: XOR<BlobCreateWithoutVersionsInput, BlobUncheckedCreateWithoutVersionsInput>
+  }
+
+  export type FileUpsertWithoutVersionsInput = {
+    update: XOR<FileUpdateWithoutVersionsInput, FileUncheckedUpdateWithoutVersionsInput>
+    create: XOR<FileCreateWithoutVersionsInput, FileUncheckedCreateWithoutVersionsInput>
+    where?: FileWhereInput
+  }
+
+  export type FileUpdateToOneWithWhereWithoutVersionsInput = {
+    where?: FileWhereInput
+    data: XOR<FileUpdateWithoutVersionsInput, FileUncheckedUpdateWithoutVersionsInput>
+  }
+
+  export type FileUpdateWithoutVersionsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+    parent_folder?: FolderUpdateOneWithoutFilesNestedInput
+    blob?: BlobUpdateOneWithoutFilesNestedInput
+    share_links?: ShareLinkUpdateManyWithoutFileNestedInput
+  }
+
+  export type FileUncheckedUpdateWithoutVersionsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob_id?: NullableStringFieldUpdateOperationsInput | string | null
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+    share_links?: ShareLinkUncheckedUpdateManyWithoutFileNestedInput
+  }
+
+  export type BlobUpsertWithoutVersionsInput = {
+    update: XOR<BlobUpdateWithoutVersionsInput, BlobUncheckedUpdateWithoutVersionsInput>
+    create: XOR<BlobCreateWithoutVersionsInput, BlobUncheckedCreateWithoutVersionsInput>
+    where?: BlobWhereInput
+  }
+
+  export type BlobUpdateToOneWithWhereWithoutVersionsInput = {
+    where?: BlobWhereInput
+    data: XOR<BlobUpdateWithoutVersionsInput, BlobUncheckedUpdateWithoutVersionsInput>
+  }
+
+  export type BlobUpdateWithoutVersionsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    ref_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    content_text?: NullableStringFieldUpdateOperationsInput | string | null
+    files?: FileUpdateManyWithoutBlobNestedInput
+  }
+
+  export type BlobUncheckedUpdateWithoutVersionsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    ref_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    content_text?: NullableStringFieldUpdateOperationsInput | string | null
+    files?: FileUncheckedUpdateManyWithoutBlobNestedInput
+  }
+
+  export type FileCreateWithoutBlobInput = {
     id?: string
-    folder_name: string
-    display_name?: string | null
+    file_name: string
+    size: bigint | number
     created_at?: Date | string
-    updated_at?: Date | string
-    is_root?: boolean
     s3_link?: string | null
-    shared?: boolean
-    expires_at?: Date | string | null
     owner_clerk_id: string
     s3_key?: string | null
-    shareToken?: string | null
-    files?: FileCreateNestedManyWithoutParent_folderInput
-    parent_folder?: FolderCreateNestedOneWithoutSubfoldersInput
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+    parent_folder?: FolderCreateNestedOneWithoutFilesInput
+    versions?: FileVersionCreateNestedManyWithoutFileInput
+    share_links?: ShareLinkCreateNestedManyWithoutFileInput
   }
 
-  export type FolderUncheckedCreateWithoutSubfoldersInput = {
+  export type FileUncheckedCreateWithoutBlobInput = {
     id?: string
-    folder_name: string
-    display_name?: string | null
+    file_name: string
+    size: bigint | number
     created_at?: Date | string
-    updated_at?: Date | string
-    is_root?: boolean
     s3_link?: string | null
-    shared?: boolean
-    expires_at?: Date | string | null
     parent_folder_id?: string | null
     owner_clerk_id: string
     s3_key?: string | null
-    shareToken?: string | null
-    files?: FileUncheckedCreateNestedManyWithoutParent_folderInput
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+    versions?: FileVersionUncheckedCreateNestedManyWithoutFileInput
+    share_links?: ShareLinkUncheckedCreateNestedManyWithoutFileInput
+  }
+
+  export type FileCreateOrConnectWithoutBlobInput = {
+    where: FileWhereUniqueInput
+    create: XOR<FileCreateWithoutBlobInput, FileUncheckedCreateWithoutBlobInput>
   }
 
-  export type FolderCreateOrConnectWithoutSubfoldersInput = {
-    where: FolderWhereUniqueInput
-    create: XOR<FolderCreateWithoutSubfoldersInput, FolderUncheckedCreateWithoutSubfoldersInput>
+  export type FileCreateManyBlobInputEnvelope = {
+    data: FileCreateManyBlobInput | FileCreateManyBlobInput[]
+    skipDuplicates?: boolean
   }
 
-  export type FolderCreateWithoutParent_folderInput = {
+  export type FileVersionCreateWithoutBlobInput = {
+    id?: string
+    version: number
+    size: bigint | number
+    s3_key: string
+    created_at: Date | string
+    file: FileCreateNestedOneWithoutVersionsInput
+  }
+
+  export type FileVersionUncheckedCreateWithoutBlobInput = {
+    id?: string
+    file_id: string
+    version: number
+    size: bigint | number
+    s3_key: string
+    created_at: Date | string
+  }
+
+  export type FileVersionCreateOrConnectWithoutBlobInput = {
+    where: FileVersionWhereUniqueInput
+    create: XOR<FileVersionCreateWithoutBlobInput, FileVersionUncheckedCreateWithoutBlobInput>
+  }
+
+  export type FileVersionCreateManyBlobInputEnvelope = {
+    data: FileVersionCreateManyBlobInput | FileVersionCreateManyBlobInput[]
+    skipDuplicates?: boolean
+  }
+
+  export type FileUpsertWithWhereUniqueWithoutBlobInput = {
+    where: FileWhereUniqueInput
+    update: XOR<FileUpdateWithoutBlobInput, FileUncheckedUpdateWithoutBlobInput>
+    create: XOR<FileCreateWithoutBlobInput, FileUncheckedCreateWithoutBlobInput>
+  }
+
+  export type FileUpdateWithWhereUniqueWithoutBlobInput = {
+    where: FileWhereUniqueInput
+    data: XOR<FileUpdateWithoutBlobInput, FileUncheckedUpdateWithoutBlobInput>
+  }
+
+  export type FileUpdateManyWithWhereWithoutBlobInput = {
+    where: FileScalarWhereInput
+    data: XOR<FileUpdateManyMutationInput, FileUncheckedUpdateManyWithoutBlobInput>
+  }
+
+  export type FileVersionUpsertWithWhereUniqueWithoutBlobInput = {
+    where: FileVersionWhereUniqueInput
+    update: XOR<FileVersionUpdateWithoutBlobInput, FileVersionUncheckedUpdateWithoutBlobInput>
+    create: XOR<FileVersionCreateWithoutBlobInput, FileVersionUncheckedCreateWithoutBlobInput>
+  }
+
+  export type FileVersionUpdateWithWhereUniqueWithoutBlobInput = {
+    where: FileVersionWhereUniqueInput
+    data: XOR<FileVersionUpdateWithoutBlobInput, FileVersionUncheckedUpdateWithoutBlobInput>
+  }
+
+  export type FileVersionUpdateManyWithWhereWithoutBlobInput = {
+    where: FileVersionScalarWhereInput
+    data: XOR<FileVersionUpdateManyMutationInput, FileVersionUncheckedUpdateManyWithoutBlobInput>
+  }
+
+  export type FolderCreateWithoutShare_linksInput = {
     id?: string
     folder_name: string
     display_name?: string | null
@@ -4622,16 +12247,15 @@ export namespace Prisma {
     updated_at?: Date | string
     is_root?: boolean
     s3_link?: string | null
-    shared?: boolean
-    expires_at?: Date | string | null
     owner_clerk_id: string
     s3_key?: string | null
-    shareToken?: string | null
+    deleted_at?: Date | string | null
     files?: FileCreateNestedManyWithoutParent_folderInput
+    parent_folder?: FolderCreateNestedOneWithoutSubfoldersInput
     subfolders?: FolderCreateNestedManyWithoutParent_folderInput
   }
 
-  export type FolderUncheckedCreateWithoutParent_folderInput = {
+  export type FolderUncheckedCreateWithoutShare_linksInput = {
     id?: string
     folder_name: string
     display_name?: string | null
@@ -4639,69 +12263,102 @@ export namespace Prisma {
     updated_at?: Date | string
     is_root?: boolean
     s3_link?: string | null
-    shared?: boolean
-    expires_at?: Date | string | null
+    parent_folder_id?: string | null
     owner_clerk_id: string
     s3_key?: string | null
-    shareToken?: string | null
+    deleted_at?: Date | string | null
     files?: FileUncheckedCreateNestedManyWithoutParent_folderInput
     subfolders?: FolderUncheckedCreateNestedManyWithoutParent_folderInput
   }
 
-  export type FolderCreateOrConnectWithoutParent_folderInput = {
+  export type FolderCreateOrConnectWithoutShare_linksInput = {
     where: FolderWhereUniqueInput
-    create: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput>
+    create: XOR<FolderCreateWithoutShare_linksInput, FolderUncheckedCreateWithoutShare_linksInput>
   }
 
-  export type FolderCreateManyParent_folderInputEnvelope = {
-    data: FolderCreateManyParent_folderInput | FolderCreateManyParent_folderInput[]
-    skipDuplicates?: boolean
+  export type FileCreateWithoutShare_linksInput = {
+    id?: string
+    file_name: string
+    size: bigint | number
+    created_at?: Date | string
+    s3_link?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+    parent_folder?: FolderCreateNestedOneWithoutFilesInput
+    versions?: FileVersionCreateNestedManyWithoutFileInput
+    blob?: BlobCreateNestedOneWithoutFilesInput
   }
 
-  export type FileUpsertWithWhereUniqueWithoutParent_folderInput = {
+  export type FileUncheckedCreateWithoutShare_linksInput = {
+    id?: string
+    file_name: string
+    size: bigint | number
+    created_at?: Date | string
+    s3_link?: string | null
+    parent_folder_id?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    blob_id?: string | null
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+    versions?: FileVersionUncheckedCreateNestedManyWithoutFileInput
+  }
+
+  export type FileCreateOrConnectWithoutShare_linksInput = {
     where: FileWhereUniqueInput
-    update: XOR<FileUpdateWithoutParent_folderInput, FileUncheckedUpdateWithoutParent_folderInput>
-    create: XOR<FileCreateWithoutParent_folderInput, FileUncheckedCreateWithoutParent_folderInput>
+    create: XOR<FileCreateWithoutShare_linksInput, FileUncheckedCreateWithoutShare_linksInput>
+  }
+
+  export type ShareUnlockAttemptCreateWithoutLinkInput = {
+    client: string
+    failed_attempts?: number
+    locked_until?: Date | string | null
   }
 
-  export type FileUpdateWithWhereUniqueWithoutParent_folderInput = {
-    where: FileWhereUniqueInput
-    data: XOR<FileUpdateWithoutParent_folderInput, FileUncheckedUpdateWithoutParent_folderInput>
+  export type ShareUnlockAttemptUncheckedCreateWithoutLinkInput = {
+    client: string
+    failed_attempts?: number
+    locked_until?: Date | string | null
   }
 
-  export type FileUpdateManyWithWhereWithoutParent_folderInput = {
-    where: FileScalarWhereInput
-    data: XOR<FileUpdateManyMutationInput, FileUncheckedUpdateManyWithoutParent_folderInput>
+  export type ShareUnlockAttemptCreateOrConnectWithoutLinkInput = {
+    where: ShareUnlockAttemptWhereUniqueInput
+    create: XOR<ShareUnlockAttemptCreateWithoutLinkInput, ShareUnlockAttemptUncheckedCreateWithoutLinkInput>
   }
 
-  export type FileScalarWhereInput = {
-    AND?: FileScalarWhereInput | FileScalarWhereInput[]
-    OR?: FileScalarWhereInput[]
-    NOT?: FileScalarWhereInput | FileScalarWhereInput[]
-    id?: StringFilter<"File"> | string
-    file_name?: StringFilter<"File"> | string
-    size?: IntFilter<"File"> | number
-    created_at?: DateTimeFilter<"File"> | Date | string
-    shared?: BoolFilter<"File"> | boolean
-    s3_link?: StringNullableFilter<"File"> | string | null
-    expires_at?: DateTimeNullableFilter<"File"> | Date | string | null
-    parent_folder_id?: StringNullableFilter<"File"> | string | null
-    owner_clerk_id?: StringFilter<"File"> | string
-    s3_key?: StringNullableFilter<"File"> | string | null
+  export type ShareUnlockAttemptCreateManyLinkInputEnvelope = {
+    data: ShareUnlockAttemptCreateManyLinkInput | ShareUnlockAttemptCreateManyLinkInput[]
+    skipDuplicates?: boolean
   }
 
-  export type FolderUpsertWithoutSubfoldersInput = {
-    update: XOR<FolderUpdateWithoutSubfoldersInput, FolderUncheckedUpdateWithoutSubfoldersInput>
-    create: XOR<FolderCreateWithoutSubfoldersInput, FolderUncheckedCreateWithoutSubfoldersInput>
+  export type FolderUpsertWithoutShare_linksInput = {
+    update: XOR<FolderUpdateWithoutShare_linksInput, FolderUncheckedUpdateWithoutShare_linksInput>
+    create: XOR<FolderCreateWithoutShare_linksInput, FolderUncheckedCreateWithoutShare_linksInput>
     where?: FolderWhereInput
   }
 
-  export type FolderUpdateToOneWithWhereWithoutSubfoldersInput = {
+  export type FolderUpdateToOneWithWhereWithoutShare_linksInput = {
     where?: FolderWhereInput
-    data: XOR<FolderUpdateWithoutSubfoldersInput, FolderUncheckedUpdateWithoutSubfoldersInput>
+    data: XOR<FolderUpdateWithoutShare_linksInput, FolderUncheckedUpdateWithoutShare_linksInput>
   }
 
-  export type FolderUpdateWithoutSubfoldersInput = {
+  export type FolderUpdateWithoutShare_linksInput = {
     id?: StringFieldUpdateOperationsInput | string
     folder_name?: StringFieldUpdateOperationsInput | string
     display_name?: NullableStringFieldUpdateOperationsInput | string | null
@@ -4709,16 +12366,15 @@ export namespace Prisma {
     updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
     is_root?: BoolFieldUpdateOperationsInput | boolean
     s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     owner_clerk_id?: StringFieldUpdateOperationsInput | string
     s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     files?: FileUpdateManyWithoutParent_folderNestedInput
     parent_folder?: FolderUpdateOneWithoutSubfoldersNestedInput
+    subfolders?: FolderUpdateManyWithoutParent_folderNestedInput
   }
 
-  export type FolderUncheckedUpdateWithoutSubfoldersInput = {
+  export type FolderUncheckedUpdateWithoutShare_linksInput = {
     id?: StringFieldUpdateOperationsInput | string
     folder_name?: StringFieldUpdateOperationsInput | string
     display_name?: NullableStringFieldUpdateOperationsInput | string | null
@@ -4726,144 +12382,189 @@ export namespace Prisma {
     updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
     is_root?: BoolFieldUpdateOperationsInput | boolean
     s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
     owner_clerk_id?: StringFieldUpdateOperationsInput | string
     s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     files?: FileUncheckedUpdateManyWithoutParent_folderNestedInput
+    subfolders?: FolderUncheckedUpdateManyWithoutParent_folderNestedInput
   }
 
-  export type FolderUpsertWithWhereUniqueWithoutParent_folderInput = {
-    where: FolderWhereUniqueInput
-    update: XOR<FolderUpdateWithoutParent_folderInput, FolderUncheckedUpdateWithoutParent_folderInput>
-    create: XOR<FolderCreateWithoutParent_folderInput, FolderUncheckedCreateWithoutParent_folderInput>
+  export type FileUpsertWithoutShare_linksInput = {
+    update: XOR<FileUpdateWithoutShare_linksInput, FileUncheckedUpdateWithoutShare_linksInput>
+    create: XOR<FileCreateWithoutShare_linksInput, FileUncheckedCreateWithoutShare_linksInput>
+    where?: FileWhereInput
   }
 
-  export type FolderUpdateWithWhereUniqueWithoutParent_folderInput = {
-    where: FolderWhereUniqueInput
-    data: XOR<FolderUpdateWithoutParent_folderInput, FolderUncheckedUpdateWithoutParent_folderInput>
+  export type FileUpdateToOneWithWhereWithoutShare_linksInput = {
+    where?: FileWhereInput
+    data: XOR<FileUpdateWithoutShare_linksInput, FileUncheckedUpdateWithoutShare_linksInput>
   }
 
-  export type FolderUpdateManyWithWhereWithoutParent_folderInput = {
-    where: FolderScalarWhereInput
-    data: XOR<FolderUpdateManyMutationInput, FolderUncheckedUpdateManyWithoutParent_folderInput>
+  export type FileUpdateWithoutShare_linksInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+    parent_folder?: FolderUpdateOneWithoutFilesNestedInput
+    versions?: FileVersionUpdateManyWithoutFileNestedInput
+    blob?: BlobUpdateOneWithoutFilesNestedInput
   }
 
-  export type FolderScalarWhereInput = {
-    AND?: FolderScalarWhereInput | FolderScalarWhereInput[]
-    OR?: FolderScalarWhereInput[]
-    NOT?: FolderScalarWhereInput | FolderScalarWhereInput[]
-    id?: StringFilter<"Folder"> | string
-    folder_name?: StringFilter<"Folder"> | string
-    display_name?: StringNullableFilter<"Folder"> | string | null
-    created_at?: DateTimeFilter<"Folder"> | Date | string
-    updated_at?: DateTimeFilter<"Folder"> | Date | string
-    is_root?: BoolFilter<"Folder"> | boolean
-    s3_link?: StringNullableFilter<"Folder"> | string | null
-    shared?: BoolFilter<"Folder"> | boolean
-    expires_at?: DateTimeNullableFilter<"Folder"> | Date | string | null
-    parent_folder_id?: StringNullableFilter<"Folder"> | string | null
-    owner_clerk_id?: StringFilter<"Folder"> | string
-    s3_key?: StringNullableFilter<"Folder"> | string | null
-    shareToken?: StringNullableFilter<"Folder"> | string | null
+  export type FileUncheckedUpdateWithoutShare_linksInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob_id?: NullableStringFieldUpdateOperationsInput | string | null
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+    versions?: FileVersionUncheckedUpdateManyWithoutFileNestedInput
   }
 
-  export type FolderCreateWithoutFilesInput = {
+  export type ShareUnlockAttemptUpsertWithWhereUniqueWithoutLinkInput = {
+    where: ShareUnlockAttemptWhereUniqueInput
+    update: XOR<ShareUnlockAttemptUpdateWithoutLinkInput, ShareUnlockAttemptUncheckedUpdateWithoutLinkInput>
+    create: XOR<ShareUnlockAttemptCreateWithoutLinkInput, ShareUnlockAttemptUncheckedCreateWithoutLinkInput>
+  }
+
+  export type ShareUnlockAttemptUpdateWithWhereUniqueWithoutLinkInput = {
+    where: ShareUnlockAttemptWhereUniqueInput
+    data: XOR<ShareUnlockAttemptUpdateWithoutLinkInput, ShareUnlockAttemptUncheckedUpdateWithoutLinkInput>
+  }
+
+  export type ShareUnlockAttemptUpdateManyWithWhereWithoutLinkInput = {
+    where: ShareUnlockAttemptScalarWhereInput
+    data: XOR<ShareUnlockAttemptUpdateManyMutationInput, ShareUnlockAttemptUncheckedUpdateManyWithoutLinkInput>
+  }
+
+  export type ShareUnlockAttemptScalarWhereInput = {
+    AND?: ShareUnlockAttemptScalarWhereInput | ShareUnlockAttemptScalarWhereInput[]
+    OR?: ShareUnlockAttemptScalarWhereInput[]
+    NOT?: ShareUnlockAttemptScalarWhereInput | ShareUnlockAttemptScalarWhereInput[]
+    link_id?: StringFilter<"ShareUnlockAttempt"> | string
+    client?: StringFilter<"ShareUnlockAttempt"> | string
+    failed_attempts?: IntFilter<"ShareUnlockAttempt"> | number
+    locked_until?: DateTimeNullableFilter<"ShareUnlockAttempt"> | Date | string | null
+  }
+
+  export type ShareLinkCreateWithoutUnlock_attemptsInput = {
     id?: string
-    folder_name: string
-    display_name?: string | null
-    created_at?: Date | string
-    updated_at?: Date | string
-    is_root?: boolean
-    s3_link?: string | null
-    shared?: boolean
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
     expires_at?: Date | string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
     owner_clerk_id: string
-    s3_key?: string | null
-    shareToken?: string | null
-    parent_folder?: FolderCreateNestedOneWithoutSubfoldersInput
-    subfolders?: FolderCreateNestedManyWithoutParent_folderInput
+    folder?: FolderCreateNestedOneWithoutShare_linksInput
+    file?: FileCreateNestedOneWithoutShare_linksInput
   }
 
-  export type FolderUncheckedCreateWithoutFilesInput = {
+  export type ShareLinkUncheckedCreateWithoutUnlock_attemptsInput = {
     id?: string
-    folder_name: string
-    display_name?: string | null
-    created_at?: Date | string
-    updated_at?: Date | string
-    is_root?: boolean
-    s3_link?: string | null
-    shared?: boolean
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
     expires_at?: Date | string | null
-    parent_folder_id?: string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
     owner_clerk_id: string
-    s3_key?: string | null
-    shareToken?: string | null
-    subfolders?: FolderUncheckedCreateNestedManyWithoutParent_folderInput
+    folder_id?: string | null
+    file_id?: string | null
   }
 
-  export type FolderCreateOrConnectWithoutFilesInput = {
-    where: FolderWhereUniqueInput
-    create: XOR<FolderCreateWithoutFilesInput, FolderUncheckedCreateWithoutFilesInput>
+  export type ShareLinkCreateOrConnectWithoutUnlock_attemptsInput = {
+    where: ShareLinkWhereUniqueInput
+    create: XOR<ShareLinkCreateWithoutUnlock_attemptsInput, ShareLinkUncheckedCreateWithoutUnlock_attemptsInput>
   }
 
-  export type FolderUpsertWithoutFilesInput = {
-    update: XOR<FolderUpdateWithoutFilesInput, FolderUncheckedUpdateWithoutFilesInput>
-    create: XOR<FolderCreateWithoutFilesInput, FolderUncheckedCreateWithoutFilesInput>
-    where?: FolderWhereInput
+  export type ShareLinkUpsertWithoutUnlock_attemptsInput = {
+    update: XOR<ShareLinkUpdateWithoutUnlock_attemptsInput, ShareLinkUncheckedUpdateWithoutUnlock_attemptsInput>
+    create: XOR<ShareLinkCreateWithoutUnlock_attemptsInput, ShareLinkUncheckedCreateWithoutUnlock_attemptsInput>
+    where?: ShareLinkWhereInput
   }
 
-  export type FolderUpdateToOneWithWhereWithoutFilesInput = {
-    where?: FolderWhereInput
-    data: XOR<FolderUpdateWithoutFilesInput, FolderUncheckedUpdateWithoutFilesInput>
+  export type ShareLinkUpdateToOneWithWhereWithoutUnlock_attemptsInput = {
+    where?: ShareLinkWhereInput
+    data: XOR<ShareLinkUpdateWithoutUnlock_attemptsInput, ShareLinkUncheckedUpdateWithoutUnlock_attemptsInput>
   }
 
-  export type FolderUpdateWithoutFilesInput = {
+  export type ShareLinkUpdateWithoutUnlock_attemptsInput = {
     id?: StringFieldUpdateOperationsInput | string
-    folder_name?: StringFieldUpdateOperationsInput | string
-    display_name?: NullableStringFieldUpdateOperationsInput | string | null
-    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    is_root?: BoolFieldUpdateOperationsInput | boolean
-    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
     expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
     owner_clerk_id?: StringFieldUpdateOperationsInput | string
-    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
-    parent_folder?: FolderUpdateOneWithoutSubfoldersNestedInput
-    subfolders?: FolderUpdateManyWithoutParent_folderNestedInput
+    folder?: FolderUpdateOneWithoutShare_linksNestedInput
+    file?: FileUpdateOneWithoutShare_linksNestedInput
   }
 
-  export type FolderUncheckedUpdateWithoutFilesInput = {
+  export type ShareLinkUncheckedUpdateWithoutUnlock_attemptsInput = {
     id?: StringFieldUpdateOperationsInput | string
-    folder_name?: StringFieldUpdateOperationsInput | string
-    display_name?: NullableStringFieldUpdateOperationsInput | string | null
-    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    is_root?: BoolFieldUpdateOperationsInput | boolean
-    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
     expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
     owner_clerk_id?: StringFieldUpdateOperationsInput | string
-    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
-    subfolders?: FolderUncheckedUpdateManyWithoutParent_folderNestedInput
+    folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    file_id?: NullableStringFieldUpdateOperationsInput | string | null
   }
 
   export type FileCreateManyParent_folderInput = {
     id?: string
     file_name: string
-    size: number
+    size: bigint | number
     created_at?: Date | string
-    shared?: boolean
     s3_link?: string | null
-    expires_at?: Date | string | null
     owner_clerk_id: string
     s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    blob_id?: string | null
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
   }
 
   export type FolderCreateManyParent_folderInput = {
@@ -4874,47 +12575,87 @@ export namespace Prisma {
     updated_at?: Date | string
     is_root?: boolean
     s3_link?: string | null
-    shared?: boolean
-    expires_at?: Date | string | null
     owner_clerk_id: string
     s3_key?: string | null
-    shareToken?: string | null
+    deleted_at?: Date | string | null
+  }
+
+  export type ShareLinkCreateManyFolderInput = {
+    id?: string
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
+    expires_at?: Date | string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
+    owner_clerk_id: string
+    file_id?: string | null
   }
 
   export type FileUpdateWithoutParent_folderInput = {
     id?: StringFieldUpdateOperationsInput | string
     file_name?: StringFieldUpdateOperationsInput | string
-    size?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
     created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    shared?: BoolFieldUpdateOperationsInput | boolean
     s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     owner_clerk_id?: StringFieldUpdateOperationsInput | string
     s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+    versions?: FileVersionUpdateManyWithoutFileNestedInput
+    blob?: BlobUpdateOneWithoutFilesNestedInput
+    share_links?: ShareLinkUpdateManyWithoutFileNestedInput
   }
 
   export type FileUncheckedUpdateWithoutParent_folderInput = {
     id?: StringFieldUpdateOperationsInput | string
     file_name?: StringFieldUpdateOperationsInput | string
-    size?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
     created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    shared?: BoolFieldUpdateOperationsInput | boolean
     s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     owner_clerk_id?: StringFieldUpdateOperationsInput | string
     s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob_id?: NullableStringFieldUpdateOperationsInput | string | null
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+    versions?: FileVersionUncheckedUpdateManyWithoutFileNestedInput
+    share_links?: ShareLinkUncheckedUpdateManyWithoutFileNestedInput
   }
 
   export type FileUncheckedUpdateManyWithoutParent_folderInput = {
     id?: StringFieldUpdateOperationsInput | string
     file_name?: StringFieldUpdateOperationsInput | string
-    size?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
     created_at?: DateTimeFieldUpdateOperationsInput | Date | string
-    shared?: BoolFieldUpdateOperationsInput | boolean
     s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     owner_clerk_id?: StringFieldUpdateOperationsInput | string
     s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob_id?: NullableStringFieldUpdateOperationsInput | string | null
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
   }
 
   export type FolderUpdateWithoutParent_folderInput = {
@@ -4925,13 +12666,12 @@ export namespace Prisma {
     updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
     is_root?: BoolFieldUpdateOperationsInput | boolean
     s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     owner_clerk_id?: StringFieldUpdateOperationsInput | string
     s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     files?: FileUpdateManyWithoutParent_folderNestedInput
     subfolders?: FolderUpdateManyWithoutParent_folderNestedInput
+    share_links?: ShareLinkUpdateManyWithoutFolderNestedInput
   }
 
   export type FolderUncheckedUpdateWithoutParent_folderInput = {
@@ -4942,13 +12682,12 @@ export namespace Prisma {
     updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
     is_root?: BoolFieldUpdateOperationsInput | boolean
     s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
-    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     owner_clerk_id?: StringFieldUpdateOperationsInput | string
     s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     files?: FileUncheckedUpdateManyWithoutParent_folderNestedInput
     subfolders?: FolderUncheckedUpdateManyWithoutParent_folderNestedInput
+    share_links?: ShareLinkUncheckedUpdateManyWithoutFolderNestedInput
   }
 
   export type FolderUncheckedUpdateManyWithoutParent_folderInput = {
@@ -4959,11 +12698,291 @@ export namespace Prisma {
     updated_at?: DateTimeFieldUpdateOperationsInput | Date | string
     is_root?: BoolFieldUpdateOperationsInput | boolean
     s3_link?: NullableStringFieldUpdateOperationsInput | string | null
-    shared?: BoolFieldUpdateOperationsInput | boolean
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  }
+
+  export type ShareLinkUpdateWithoutFolderInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    file?: FileUpdateOneWithoutShare_linksNestedInput
+    unlock_attempts?: ShareUnlockAttemptUpdateManyWithoutLinkNestedInput
+  }
+
+  export type ShareLinkUncheckedUpdateWithoutFolderInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    file_id?: NullableStringFieldUpdateOperationsInput | string | null
+    unlock_attempts?: ShareUnlockAttemptUncheckedUpdateManyWithoutLinkNestedInput
+  }
+
+  export type ShareLinkUncheckedUpdateManyWithoutFolderInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    file_id?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type FileVersionCreateManyFileInput = {
+    id?: string
+    version: number
+    size: bigint | number
+    s3_key: string
+    created_at: Date | string
+    blob_id?: string | null
+  }
+
+  export type ShareLinkCreateManyFileInput = {
+    id?: string
+    token: string
+    label?: string | null
+    permission?: $Enums.SharePermission
+    expires_at?: Date | string | null
+    password_hash?: string | null
+    max_downloads?: number | null
+    download_count?: number
+    created_at?: Date | string
+    owner_clerk_id: string
+    folder_id?: string | null
+  }
+
+  export type FileVersionUpdateWithoutFileInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    version?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob?: BlobUpdateOneWithoutVersionsNestedInput
+  }
+
+  export type FileVersionUncheckedUpdateWithoutFileInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    version?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob_id?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type FileVersionUncheckedUpdateManyWithoutFileInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    version?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    blob_id?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type ShareLinkUpdateWithoutFileInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    folder?: FolderUpdateOneWithoutShare_linksNestedInput
+    unlock_attempts?: ShareUnlockAttemptUpdateManyWithoutLinkNestedInput
+  }
+
+  export type ShareLinkUncheckedUpdateWithoutFileInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+    expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    unlock_attempts?: ShareUnlockAttemptUncheckedUpdateManyWithoutLinkNestedInput
+  }
+
+  export type ShareLinkUncheckedUpdateManyWithoutFileInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    token?: StringFieldUpdateOperationsInput | string
+    label?: NullableStringFieldUpdateOperationsInput | string | null
+    permission?: EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
     expires_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    password_hash?: NullableStringFieldUpdateOperationsInput | string | null
+    max_downloads?: NullableIntFieldUpdateOperationsInput | number | null
+    download_count?: IntFieldUpdateOperationsInput | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type FileCreateManyBlobInput = {
+    id?: string
+    file_name: string
+    size: bigint | number
+    created_at?: Date | string
+    s3_link?: string | null
+    parent_folder_id?: string | null
+    owner_clerk_id: string
+    s3_key?: string | null
+    deleted_at?: Date | string | null
+    pending_until?: Date | string | null
+    multipart_upload_id?: string | null
+    version?: number
+    version_created_at?: Date | string
+    dedup_pending?: boolean
+    extension?: string
+    thumbnail_key?: string | null
+    thumbnail_version?: number | null
+  }
+
+  export type FileVersionCreateManyBlobInput = {
+    id?: string
+    file_id: string
+    version: number
+    size: bigint | number
+    s3_key: string
+    created_at: Date | string
+  }
+
+  export type FileUpdateWithoutBlobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+    parent_folder?: FolderUpdateOneWithoutFilesNestedInput
+    versions?: FileVersionUpdateManyWithoutFileNestedInput
+    share_links?: ShareLinkUpdateManyWithoutFileNestedInput
+  }
+
+  export type FileUncheckedUpdateWithoutBlobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
+    owner_clerk_id?: StringFieldUpdateOperationsInput | string
+    s3_key?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+    versions?: FileVersionUncheckedUpdateManyWithoutFileNestedInput
+    share_links?: ShareLinkUncheckedUpdateManyWithoutFileNestedInput
+  }
+
+  export type FileUncheckedUpdateManyWithoutBlobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_name?: StringFieldUpdateOperationsInput | string
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    s3_link?: NullableStringFieldUpdateOperationsInput | string | null
+    parent_folder_id?: NullableStringFieldUpdateOperationsInput | string | null
     owner_clerk_id?: StringFieldUpdateOperationsInput | string
     s3_key?: NullableStringFieldUpdateOperationsInput | string | null
-    shareToken?: NullableStringFieldUpdateOperationsInput | string | null
+    deleted_at?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pending_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    multipart_upload_id?: NullableStringFieldUpdateOperationsInput | string | null
+    version?: IntFieldUpdateOperationsInput | number
+    version_created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    dedup_pending?: BoolFieldUpdateOperationsInput | boolean
+    extension?: StringFieldUpdateOperationsInput | string
+    thumbnail_key?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnail_version?: NullableIntFieldUpdateOperationsInput | number | null
+  }
+
+  export type FileVersionUpdateWithoutBlobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    version?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+    file?: FileUpdateOneRequiredWithoutVersionsNestedInput
+  }
+
+  export type FileVersionUncheckedUpdateWithoutBlobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_id?: StringFieldUpdateOperationsInput | string
+    version?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type FileVersionUncheckedUpdateManyWithoutBlobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    file_id?: StringFieldUpdateOperationsInput | string
+    version?: IntFieldUpdateOperationsInput | number
+    size?: BigIntFieldUpdateOperationsInput | bigint | number
+    s3_key?: StringFieldUpdateOperationsInput | string
+    created_at?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ShareUnlockAttemptCreateManyLinkInput = {
+    client: string
+    failed_attempts?: number
+    locked_until?: Date | string | null
+  }
+
+  export type ShareUnlockAttemptUpdateWithoutLinkInput = {
+    client?: StringFieldUpdateOperationsInput | string
+    failed_attempts?: IntFieldUpdateOperationsInput | number
+    locked_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  }
+
+  export type ShareUnlockAttemptUncheckedUpdateWithoutLinkInput = {
+    client?: StringFieldUpdateOperationsInput | string
+    failed_attempts?: IntFieldUpdateOperationsInput | number
+    locked_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  }
+
+  export type ShareUnlockAttemptUncheckedUpdateManyWithoutLinkInput = {
+    client?: StringFieldUpdateOperationsInput | string
+    failed_attempts?: IntFieldUpdateOperationsInput | number
+    locked_until?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   }
 
 
@@ -100,12 +100,10 @@ exports.Prisma.FolderScalarFieldEnum = {
   updated_at: 'updated_at',
   is_root: 'is_root',
   s3_link: 's3_link',
-  shared: 'shared',
-  expires_at: 'expires_at',
   parent_folder_id: 'parent_folder_id',
   owner_clerk_id: 'owner_clerk_id',
   s3_key: 's3_key',
-  shareToken: 'shareToken'
+  deleted_at: 'deleted_at'
 };
 
 exports.Prisma.FileScalarFieldEnum = {
@@ -113,12 +111,61 @@ exports.Prisma.FileScalarFieldEnum = {
   file_name: 'file_name',
   size: 'size',
   created_at: 'created_at',
-  shared: 'shared',
   s3_link: 's3_link',
-  expires_at: 'expires_at',
   parent_folder_id: 'parent_folder_id',
   owner_clerk_id: 'owner_clerk_id',
-  s3_key: 's3_key'
+  s3_key: 's3_key',
+  deleted_at: 'deleted_at',
+  pending_until: 'pending_until',
+  multipart_upload_id: 'multipart_upload_id',
+  version: 'version',
+  version_created_at: 'version_created_at',
+  blob_id: 'blob_id',
+  dedup_pending: 'dedup_pending',
+  extension: 'extension',
+  thumbnail_key: 'thumbnail_key',
+  thumbnail_version: 'thumbnail_version'
+};
+
+exports.Prisma.FileVersionScalarFieldEnum = {
+  id: 'id',
+  file_id: 'file_id',
+  version: 'version',
+  size: 'size',
+  s3_key: 's3_key',
+  created_at: 'created_at',
+  blob_id: 'blob_id'
+};
+
+exports.Prisma.BlobScalarFieldEnum = {
+  id: 'id',
+  size: 'size',
+  s3_key: 's3_key',
+  ref_count: 'ref_count',
+  created_at: 'created_at',
+  content_text: 'content_text'
+};
+
+exports.Prisma.ShareLinkScalarFieldEnum = {
+  id: 'id',
+  token: 'token',
+  label: 'label',
+  permission: 'permission',
+  expires_at: 'expires_at',
+  password_hash: 'password_hash',
+  max_downloads: 'max_downloads',
+  download_count: 'download_count',
+  created_at: 'created_at',
+  owner_clerk_id: 'owner_clerk_id',
+  folder_id: 'folder_id',
+  file_id: 'file_id'
+};
+
+exports.Prisma.ShareUnlockAttemptScalarFieldEnum = {
+  link_id: 'link_id',
+  client: 'client',
+  failed_attempts: 'failed_attempts',
+  locked_until: 'locked_until'
 };
 
 exports.Prisma.SortOrder = {
@@ -135,11 +182,18 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
-
+exports.SharePermission = exports.$Enums.SharePermission = {
+  view: 'view',
+  download: 'download'
+};
 
 exports.Prisma.ModelName = {
   Folder: 'Folder',
-  File: 'File'
+  File: 'File',
+  FileVersion: 'FileVersion',
+  Blob: 'Blob',
+  ShareLink: 'ShareLink',
+  ShareUnlockAttempt: 'ShareUnlockAttempt'
 };
 /**
  * Create the Client
@@ -189,13 +243,13 @@ const config = {
       }
     }
   },
-  "inlineSchema": "generator client {\n  provider = \"prisma-client-js\"\n  output   = \"./generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n  url      = env(\"DATABASE_URL\")\n}\n\nmodel Folder {\n  id               String    @id @default(uuid())\n  folder_name      String\n  display_name     String? // User-friendly display name (firstName + lastName for root folders)\n  created_at       DateTime  @default(now())\n  updated_at       DateTime  @updatedAt\n  is_root          Boolean   @default(false)\n  s3_link          String?\n  shared           Boolean   @default(false)\n  expires_at       DateTime?\n  parent_folder_id String?\n  owner_clerk_id   String\n  s3_key           String?\n  shareToken       String?   @unique\n  files            File[]    @relation(\"FilesToFolder\")\n  parent_folder    Folder?   @relation(\"FolderToParentFolder\", fields: [parent_folder_id], references: [id])\n  subfolders       Folder[]  @relation(\"FolderToParentFolder\")\n}\n\nmodel File {\n  id               String    @id @default(uuid())\n  file_name        String\n  size             Int\n  created_at       DateTime  @default(now())\n  shared           Boolean   @default(false)\n  s3_link          String?\n  expires_at       DateTime?\n  parent_folder_id String?\n  owner_clerk_id   String\n  s3_key           String?\n  parent_folder    Folder?   @relation(\"FilesToFolder\", fields: [parent_folder_id], references: [id])\n}\n",
-  "inlineSchemaHash": "397f53c34cadcab2956fb02eb9d6f1c1fbd920269985db120c60e2d533d5d290",
+  "inlineSchema": "generator client {\n  provider = \"prisma-client-js\"\n  output   = \"./generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n  url      = env(\"DATABASE_URL\")\n}\n\nmodel Folder {\n  id               String                   @id @default(uuid())\n  folder_name      String\n  display_name     String? // User-friendly display name (firstName + lastName for root folders)\n  created_at       DateTime                 @default(now())\n  updated_at       DateTime                 @updatedAt\n  is_root          Boolean                  @default(false)\n  s3_link          String?\n  parent_folder_id String?\n  owner_clerk_id   String\n  s3_key           String?\n  deleted_at       DateTime? // Set when the folder is moved to the trash\n  search_vector    Unsupported(\"tsvector\")? // Generated from folder_name and display_name for search\n  files            File[]                   @relation(\"FilesToFolder\")\n  parent_folder    Folder?                  @relation(\"FolderToParentFolder\", fields: [parent_folder_id], references: [id])\n  subfolders       Folder[]                 @relation(\"FolderToParentFolder\")\n  share_links      ShareLink[]\n\n  @@index([search_vector], type: Gin)\n}\n\nmodel File {\n  id                  String                   @id @default(uuid())\n  file_name           String\n  size                BigInt\n  created_at          DateTime                 @default(now())\n  s3_link             String?\n  parent_folder_id    String?\n  owner_clerk_id      String\n  s3_key              String?\n  deleted_at          DateTime? // Set when the file is moved to the trash\n  pending_until       DateTime? // Set while a direct upload is in progress; the row is garbage-collected after this time\n  multipart_upload_id String? // Storage upload ID while a multipart upload is in progress\n  version             Int                      @default(1) // Number of the current content; earlier contents are kept in `versions`\n  version_created_at  DateTime                 @default(now()) // When the current content was uploaded\n  blob_id             String? // SHA-256 of the current content; null for files stored before deduplication or not hashed yet\n  dedup_pending       Boolean                  @default(false) // The current content was uploaded directly and awaits hashing and deduplication\n  search_vector       Unsupported(\"tsvector\")? // Generated from file_name for search\n  extension           String                   @default(dbgenerated()) // Lower-cased extension without the dot, generated from file_name\n  thumbnail_key       String? // Object holding the WebP thumbnail of an image or PDF, once generated\n  thumbnail_version   Int? // Version of the content the thumbnail was generated from; set even if none could be made\n  parent_folder       Folder?                  @relation(\"FilesToFolder\", fields: [parent_folder_id], references: [id])\n  versions            FileVersion[]\n  blob                Blob?                    @relation(fields: [blob_id], references: [id])\n  share_links         ShareLink[]\n\n  @@index([blob_id])\n  @@index([dedup_pending])\n  @@index([search_vector], type: Gin)\n  @@index([parent_folder_id, extension])\n}\n\nmodel FileVersion {\n  id         String   @id @default(uuid())\n  file_id    String\n  version    Int\n  size       BigInt\n  s3_key     String\n  created_at DateTime // When this content was uploaded\n  blob_id    String? // SHA-256 of the content; null for versions stored before deduplication\n  file       File     @relation(fields: [file_id], references: [id], onDelete: Cascade)\n  blob       Blob?    @relation(fields: [blob_id], references: [id])\n\n  @@unique([file_id, version])\n  @@index([blob_id])\n}\n\nmodel Blob {\n  id            String                   @id // Hex SHA-256 of the content\n  size          BigInt\n  s3_key        String // Object holding the content, shared by every file and version referencing it\n  ref_count     Int                      @default(0) // Number of File and FileVersion rows referencing the blob\n  created_at    DateTime                 @default(now())\n  content_text  String? // Text extracted from text, Markdown, CSV and PDF content for search\n  search_vector Unsupported(\"tsvector\")? // Generated from content_text for search\n  files         File[]\n  versions      FileVersion[]\n\n  @@index([search_vector], type: Gin)\n}\n\nenum SharePermission {\n  view\n  download\n}\n\nmodel ShareLink {\n  id              String               @id @default(uuid())\n  token           String               @unique // Secret part of the link's URL\n  label           String? // Who or what the link is for, shown to the owner only\n  permission      SharePermission      @default(download) // \"view\" to browse and preview, \"download\" to also download\n  expires_at      DateTime? // The link stops working after this time; null if it never expires\n  password_hash   String? // scrypt hash of the link's password, as \"scrypt$<salt>$<hash>\"; null if the link has no password\n  max_downloads   Int? // The link stops working after this many downloads; null for no limit\n  download_count  Int                  @default(0) // File URLs and archives handed out through the link so far\n  created_at      DateTime             @default(now())\n  owner_clerk_id  String\n  folder_id       String? // The shared folder, with everything inside it; exactly one of folder_id and file_id is set\n  file_id         String? // The shared file\n  folder          Folder?              @relation(fields: [folder_id], references: [id], onDelete: Cascade)\n  file            File?                @relation(fields: [file_id], references: [id], onDelete: Cascade)\n  unlock_attempts ShareUnlockAttempt[]\n\n  @@index([owner_clerk_id])\n  @@index([folder_id])\n  @@index([file_id])\n}\n\nmodel ShareUnlockAttempt {\n  link_id         String\n  client          String // SHA-256 of the visitor's IP address\n  failed_attempts Int       @default(0) // Wrong passwords from this client since its last lockout or unlock\n  locked_until    DateTime? // This client's unlock attempts are refused until this time after too many wrong passwords\n  link            ShareLink @relation(fields: [link_id], references: [id], onDelete: Cascade)\n\n  @@id([link_id, client])\n}\n",
+  "inlineSchemaHash": "5fe7016a6f29be4b098f7bd91029e7eddf9d2f70342ced21bbe912fcb76c35b6",
   "copyEngine": true
 }
 config.dirname = '/'
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Folder\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"folder_name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"display_name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"is_root\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"s3_link\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shared\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"expires_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"parent_folder_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"owner_clerk_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3_key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shareToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"files\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"FilesToFolder\"},{\"name\":\"parent_folder\",\"kind\":\"object\",\"type\":\"Folder\",\"relationName\":\"FolderToParentFolder\"},{\"name\":\"subfolders\",\"kind\":\"object\",\"type\":\"Folder\",\"relationName\":\"FolderToParentFolder\"}],\"dbName\":null},\"File\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"file_name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shared\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"s3_link\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expires_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"parent_folder_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"owner_clerk_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3_key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parent_folder\",\"kind\":\"object\",\"type\":\"Folder\",\"relationName\":\"FilesToFolder\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Folder\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"folder_name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"display_name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"is_root\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"s3_link\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parent_folder_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"owner_clerk_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3_key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deleted_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"files\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"FilesToFolder\"},{\"name\":\"parent_folder\",\"kind\":\"object\",\"type\":\"Folder\",\"relationName\":\"FolderToParentFolder\"},{\"name\":\"subfolders\",\"kind\":\"object\",\"type\":\"Folder\",\"relationName\":\"FolderToParentFolder\"},{\"name\":\"share_links\",\"kind\":\"object\",\"type\":\"ShareLink\",\"relationName\":\"FolderToShareLink\"}],\"dbName\":null},\"File\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"file_name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"s3_link\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parent_folder_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"owner_clerk_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"s3_key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deleted_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"pending_until\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"multipart_upload_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"version_created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"blob_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dedup_pending\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"extension\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thumbnail_key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thumbnail_version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"parent_folder\",\"kind\":\"object\",\"type\":\"Folder\",\"relationName\":\"FilesToFolder\"},{\"name\":\"versions\",\"kind\":\"object\",\"type\":\"FileVersion\",\"relationName\":\"FileToFileVersion\"},{\"name\":\"blob\",\"kind\":\"object\",\"type\":\"Blob\",\"relationName\":\"BlobToFile\"},{\"name\":\"share_links\",\"kind\":\"object\",\"type\":\"ShareLink\",\"relationName\":\"FileToShareLink\"}],\"dbName\":null},\"FileVersion\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"file_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"s3_key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"blob_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"file\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"FileToFileVersion\"},{\"name\":\"blob\",\"kind\":\"object\",\"type\":\"Blob\",\"relationName\":\"BlobToFileVersion\"}],\"dbName\":null},\"Blob\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"s3_key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ref_count\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"content_text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"files\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"BlobToFile\"},{\"name\":\"versions\",\"kind\":\"object\",\"type\":\"FileVersion\",\"relationName\":\"BlobToFileVersion\"}],\"dbName\":null},\"ShareLink\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"permission\",\"kind\":\"enum\",\"type\":\"SharePermission\"},{\"name\":\"expires_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"password_hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"max_downloads\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"download_count\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"owner_clerk_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"folder_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"file_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"folder\",\"kind\":\"object\",\"type\":\"Folder\",\"relationName\":\"FolderToShareLink\"},{\"name\":\"file\",\"kind\":\"object\",\"type\":\"File\",\"relationName\":\"FileToShareLink\"},{\"name\":\"unlock_attempts\",\"kind\":\"object\",\"type\":\"ShareUnlockAttempt\",\"relationName\":\"ShareLinkToShareUnlockAttempt\"}],\"dbName\":null},\"ShareUnlockAttempt\":{\"fields\":[{\"name\":\"link_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"client\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"failed_attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"locked_until\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"link\",\"kind\":\"object\",\"type\":\"ShareLink\",\"relationName\":\"ShareLinkToShareUnlockAttempt\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.engineWasm = {
   getRuntime: async () => require('./query_engine_bg.js'),
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "File" ALTER COLUMN "size" SET DATA TYPE BIGINT,
+ADD COLUMN     "multipart_upload_id" TEXT;
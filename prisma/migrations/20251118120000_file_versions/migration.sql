@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "version_created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing files were uploaded when they were created
+UPDATE "File" SET "version_created_at" = "created_at";
+
+-- CreateTable
+CREATE TABLE "FileVersion" (
+    "id" TEXT NOT NULL,
+    "file_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "size" BIGINT NOT NULL,
+    "s3_key" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FileVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FileVersion_file_id_version_key" ON "FileVersion"("file_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "FileVersion" ADD CONSTRAINT "FileVersion_file_id_fkey" FOREIGN KEY ("file_id") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
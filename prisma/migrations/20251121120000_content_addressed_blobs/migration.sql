@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "blob_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "FileVersion" ADD COLUMN     "blob_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "Blob" (
+    "id" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "s3_key" TEXT NOT NULL,
+    "ref_count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Blob_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing files keep their own objects (blob_id stays null); only new uploads are deduplicated
+
+-- CreateIndex
+CREATE INDEX "File_blob_id_idx" ON "File"("blob_id");
+
+-- CreateIndex
+CREATE INDEX "FileVersion_blob_id_idx" ON "FileVersion"("blob_id");
+
+-- AddForeignKey
+ALTER TABLE "File" ADD CONSTRAINT "File_blob_id_fkey" FOREIGN KEY ("blob_id") REFERENCES "Blob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileVersion" ADD CONSTRAINT "FileVersion_blob_id_fkey" FOREIGN KEY ("blob_id") REFERENCES "Blob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- Search vectors are generated by the database from the searched columns, so they can
+-- never go stale. Names use the 'simple' configuration (no stemming, no stop words)
+-- with dots, dashes and underscores read as word breaks, so "q3_report.pdf" matches
+-- "report" and "pdf"; extracted content uses 'english'.
+
+-- AlterTable
+ALTER TABLE "Folder" ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('simple', translate("folder_name", '._-', '   ') || ' ' || coalesce("display_name", ''))
+) STORED;
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('simple', translate("file_name", '._-', '   '))
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Blob" ADD COLUMN     "content_text" TEXT,
+ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce("content_text", ''))
+) STORED;
+
+-- Content stored before this migration is not indexed until it is uploaded again
+
+-- CreateIndex
+CREATE INDEX "Folder_search_vector_idx" ON "Folder" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "File_search_vector_idx" ON "File" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "Blob_search_vector_idx" ON "Blob" USING GIN ("search_vector");
@@ -0,0 +1,11 @@
+-- The extension is generated by the database from the file name, lower-cased and
+-- without the dot ('' for names without one), so folder listings can sort and filter
+-- by type with an index.
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "extension" TEXT NOT NULL GENERATED ALWAYS AS (
+    lower(coalesce(substring("file_name" from '\.([^.]+)$'), ''))
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "File_parent_folder_id_extension_idx" ON "File"("parent_folder_id", "extension");
@@ -0,0 +1,7 @@
+-- Thumbnails of image and PDF files are generated in the background after upload.
+-- thumbnail_version records which version of the content was processed, so the
+-- thumbnail worker can find files whose thumbnail is missing or out of date.
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "thumbnail_key" TEXT,
+ADD COLUMN     "thumbnail_version" INTEGER;
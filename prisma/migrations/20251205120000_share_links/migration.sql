@@ -0,0 +1,57 @@
+-- A folder or file can have any number of share links, each with its own token,
+-- label, permission and expiry, revoked independently. Existing folder shares move
+-- over with their token, so links already handed out keep working. File shares
+-- were bare presigned URLs; those stay valid until they expire but are not listed.
+
+-- CreateTable
+CREATE TABLE "ShareLink" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "label" TEXT,
+    "permission" TEXT NOT NULL DEFAULT 'download',
+    "expires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "owner_clerk_id" TEXT NOT NULL,
+    "folder_id" TEXT,
+    "file_id" TEXT,
+
+    CONSTRAINT "ShareLink_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "ShareLink_target_check" CHECK (num_nonnulls("folder_id", "file_id") = 1),
+    CONSTRAINT "ShareLink_permission_check" CHECK ("permission" IN ('view', 'download'))
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShareLink_token_key" ON "ShareLink"("token");
+
+-- CreateIndex
+CREATE INDEX "ShareLink_owner_clerk_id_idx" ON "ShareLink"("owner_clerk_id");
+
+-- CreateIndex
+CREATE INDEX "ShareLink_folder_id_idx" ON "ShareLink"("folder_id");
+
+-- CreateIndex
+CREATE INDEX "ShareLink_file_id_idx" ON "ShareLink"("file_id");
+
+-- AddForeignKey
+ALTER TABLE "ShareLink" ADD CONSTRAINT "ShareLink_folder_id_fkey" FOREIGN KEY ("folder_id") REFERENCES "Folder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShareLink" ADD CONSTRAINT "ShareLink_file_id_fkey" FOREIGN KEY ("file_id") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move existing folder shares over
+INSERT INTO "ShareLink" ("id", "token", "expires_at", "owner_clerk_id", "folder_id")
+SELECT gen_random_uuid()::text, "shareToken", "expires_at", "owner_clerk_id", "id"
+FROM "Folder"
+WHERE "shared" AND "shareToken" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "Folder_shareToken_key";
+
+-- AlterTable
+ALTER TABLE "Folder" DROP COLUMN "expires_at",
+DROP COLUMN "shareToken",
+DROP COLUMN "shared";
+
+-- AlterTable
+ALTER TABLE "File" DROP COLUMN "expires_at",
+DROP COLUMN "shared";
@@ -0,0 +1,7 @@
+-- Share links can be protected with a password. Only a salted hash is stored, and
+-- repeated wrong guesses lock the link for a while.
+
+-- AlterTable
+ALTER TABLE "ShareLink" ADD COLUMN     "password_hash" TEXT,
+ADD COLUMN     "failed_attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "locked_until" TIMESTAMP(3);
@@ -0,0 +1,7 @@
+-- Share links can stop working after a number of downloads (one for one-time links),
+-- not just after a number of hours. Existing links stay unlimited.
+
+-- AlterTable
+ALTER TABLE "ShareLink" ADD COLUMN     "max_downloads" INTEGER,
+ADD COLUMN     "download_count" INTEGER NOT NULL DEFAULT 0,
+ADD CONSTRAINT "ShareLink_max_downloads_check" CHECK ("max_downloads" IS NULL OR "max_downloads" > 0);
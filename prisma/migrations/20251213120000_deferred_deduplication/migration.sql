@@ -0,0 +1,9 @@
+-- Direct uploads are no longer hashed while the upload is completed: the file is
+-- flagged and hashed and deduplicated in the background, so large uploads never
+-- stream through the app. Existing files are left as they are.
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "dedup_pending" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "File_dedup_pending_idx" ON "File"("dedup_pending");
@@ -0,0 +1,12 @@
+-- The permission of a share link becomes an enum, so the generated client types it
+-- as 'view' | 'download' instead of a string. The check constraint it replaces
+-- allowed the same two values, so every existing row converts.
+
+-- CreateEnum
+CREATE TYPE "SharePermission" AS ENUM ('view', 'download');
+
+-- AlterTable
+ALTER TABLE "ShareLink" DROP CONSTRAINT "ShareLink_permission_check";
+ALTER TABLE "ShareLink" ALTER COLUMN "permission" DROP DEFAULT;
+ALTER TABLE "ShareLink" ALTER COLUMN "permission" TYPE "SharePermission" USING "permission"::"SharePermission";
+ALTER TABLE "ShareLink" ALTER COLUMN "permission" SET DEFAULT 'download';
@@ -0,0 +1,20 @@
+-- Wrong passwords are counted per visitor instead of per link, so a visitor guessing
+-- passwords only locks themselves out, not the person the link was meant for.
+-- Counts and lockouts in progress are dropped.
+
+-- CreateTable
+CREATE TABLE "ShareUnlockAttempt" (
+    "link_id" TEXT NOT NULL,
+    "client" TEXT NOT NULL,
+    "failed_attempts" INTEGER NOT NULL DEFAULT 0,
+    "locked_until" TIMESTAMP(3),
+
+    CONSTRAINT "ShareUnlockAttempt_pkey" PRIMARY KEY ("link_id","client")
+);
+
+-- AddForeignKey
+ALTER TABLE "ShareUnlockAttempt" ADD CONSTRAINT "ShareUnlockAttempt_link_id_fkey" FOREIGN KEY ("link_id") REFERENCES "ShareLink"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "ShareLink" DROP COLUMN "failed_attempts",
+DROP COLUMN "locked_until";
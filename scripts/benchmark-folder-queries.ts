@@ -0,0 +1,178 @@
+#!/usr/bin/env tsx
+
+/**
+ * Benchmark of the folder tree queries against a real database
+ *
+ * `FolderService.getFolderRecursively`, `FolderService.getAncestors` and
+ * `FileService.fileInRootFolder` used to walk the tree with one query per folder.
+ * They now read it with a single recursive CTE. This script seeds a generated tree
+ * under a throwaway owner, times each query next to a copy of the per-folder walk
+ * it replaced, checks that both return the same result, and deletes the seeded
+ * rows afterwards.
+ *
+ * Run it against a development database only: it writes to the `Folder` and `File`
+ * tables of whatever `DATABASE_URL` points at.
+ *
+ * Usage: npx tsx scripts/benchmark-folder-queries.ts [--size=10000] [--fan-out=10] [--depth=10000]
+ */
+
+import { randomUUID } from 'crypto';
+import { type User } from '@clerk/nextjs/server';
+import prisma from '@/lib/db-client';
+import { FolderService } from '@/services/folder-service';
+import { FileService } from '@/services/file-service';
+
+type LegacyTreeNode = {
+    id: string;
+    files: { id: string }[];
+    subfolders: LegacyTreeNode[];
+};
+
+type TreeNode = {
+    id: string;
+    subfolders: TreeNode[];
+};
+
+function readOption(name: string, fallback: number): number {
+    const arg = process.argv.find((value) => value.startsWith(`--${name}=`));
+    const parsed = arg ? Number(arg.split('=')[1]) : NaN;
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** The pre-CTE `getFolderRecursively`: one query per folder. */
+async function legacyGetFolderRecursively(folderId: string): Promise<LegacyTreeNode | null> {
+    const folder = await prisma.folder.findUnique({
+        where: { id: folderId },
+        select: {
+            id: true,
+            folder_name: true,
+            display_name: true,
+            is_root: true,
+            created_at: true,
+            updated_at: true,
+            parent_folder_id: true,
+            files: { select: { id: true, file_name: true, created_at: true } },
+            subfolders: { select: { id: true, folder_name: true, display_name: true, created_at: true } },
+        },
+    });
+    if (!folder) return null;
+
+    const subfolders = await Promise.all(folder.subfolders.map((subfolder) => legacyGetFolderRecursively(subfolder.id)));
+    return { ...folder, subfolders: subfolders.filter((subfolder): subfolder is LegacyTreeNode => subfolder !== null) };
+}
+
+/** The pre-CTE `getAncestors`: one query per level. */
+async function legacyGetAncestors(folderId: string): Promise<{ id: string, name: string }[] | null> {
+    let current = await prisma.folder.findUnique({ where: { id: folderId } });
+    if (!current) return null;
+
+    const ancestors: { id: string, name: string }[] = [];
+    while (current) {
+        ancestors.push({ id: current.id, name: current.display_name || current.folder_name });
+        if (!current.parent_folder_id) break;
+        current = await prisma.folder.findUnique({ where: { id: current.parent_folder_id } });
+    }
+    return ancestors.reverse();
+}
+
+/** The pre-CTE `fileInRootFolder`: one query per level above the file. */
+async function legacyFileInRootFolder(rootFolderId: string, fileId: string): Promise<boolean> {
+    const rootFolder = await prisma.folder.findUnique({ where: { id: rootFolderId } });
+    const currentFile = await prisma.file.findUnique({ where: { id: fileId } });
+    if (!currentFile || !rootFolder) return false;
+
+    let currentFolderId = currentFile.parent_folder_id;
+    while (currentFolderId) {
+        if (currentFolderId === rootFolder.id) return true;
+        const parentFolder = await prisma.folder.findUnique({ where: { id: currentFolderId } });
+        if (!parentFolder) break;
+        currentFolderId = parentFolder.parent_folder_id;
+    }
+    return false;
+}
+
+function countNodes(node: TreeNode): number {
+    return 1 + node.subfolders.reduce((sum, subfolder) => sum + countNodes(subfolder), 0);
+}
+
+async function time<T>(run: () => Promise<T>): Promise<{ result: T, ms: number }> {
+    const start = performance.now();
+    const result = await run();
+    return { result, ms: performance.now() - start };
+}
+
+function report(label: string, legacyMs: number, cteMs: number) {
+    console.log(`${label.padEnd(24)} per-folder ${legacyMs.toFixed(0).padStart(7)} ms   CTE ${cteMs.toFixed(0).padStart(6)} ms   ${(legacyMs / cteMs).toFixed(1)}x`);
+}
+
+async function benchmarkFolderQueries(size: number, fanOut: number, depth: number) {
+    const owner = `benchmark_${randomUUID()}`;
+    console.log(`Seeding a ${size}-folder tree (fan-out ${fanOut}) and a ${depth}-deep chain for ${owner}...`);
+
+    try {
+        // Breadth-first, so every parent exists before its children
+        const treeIds = Array.from({ length: size }, () => randomUUID());
+        await prisma.folder.createMany({
+            data: treeIds.map((id, i) => ({
+                id,
+                folder_name: `Tree ${i}`,
+                owner_clerk_id: owner,
+                is_root: i === 0,
+                parent_folder_id: i === 0 ? null : treeIds[Math.floor((i - 1) / fanOut)],
+            })),
+        });
+        await prisma.file.createMany({
+            data: treeIds.map((id, i) => ({ file_name: `tree-${i}.txt`, size: 1, owner_clerk_id: owner, parent_folder_id: id })),
+        });
+
+        const chainIds = Array.from({ length: depth }, () => randomUUID());
+        await prisma.folder.createMany({
+            data: chainIds.map((id, i) => ({
+                id,
+                folder_name: `Level ${i}`,
+                owner_clerk_id: owner,
+                parent_folder_id: i === 0 ? null : chainIds[i - 1],
+            })),
+        });
+        const deepFile = await prisma.file.create({
+            data: { file_name: 'deep.txt', size: 1, owner_clerk_id: owner, parent_folder_id: chainIds[depth - 1] },
+        });
+
+        const legacyTree = await time(() => legacyGetFolderRecursively(treeIds[0]));
+        const cteTree = await time(() => FolderService.getFolderRecursively(treeIds[0]) as Promise<TreeNode>);
+        if (countNodes(legacyTree.result as TreeNode) !== size || countNodes(cteTree.result) !== size) {
+            throw new Error('The two tree reads returned different folders');
+        }
+        report('getFolderRecursively', legacyTree.ms, cteTree.ms);
+
+        const legacyAncestors = await time(() => legacyGetAncestors(chainIds[depth - 1]));
+        const cteAncestors = await time(() => FolderService.getAncestors(chainIds[depth - 1], { publicMetadata: {} } as unknown as User));
+        if (JSON.stringify(legacyAncestors.result) !== JSON.stringify(cteAncestors.result)) {
+            throw new Error('The two breadcrumb reads returned different ancestors');
+        }
+        report('getAncestors', legacyAncestors.ms, cteAncestors.ms);
+
+        const legacyFound = await time(() => legacyFileInRootFolder(chainIds[0], deepFile.id));
+        const cteFound = await time(() => FileService.fileInRootFolder(chainIds[0], deepFile.id));
+        if (!legacyFound.result || !cteFound.result) {
+            throw new Error('The deep file was not found under the top of the chain');
+        }
+        report('fileInRootFolder', legacyFound.ms, cteFound.ms);
+    } finally {
+        await prisma.file.deleteMany({ where: { owner_clerk_id: owner } });
+        await prisma.folder.deleteMany({ where: { owner_clerk_id: owner } });
+        await prisma.$disconnect();
+    }
+}
+
+// Run benchmark if called directly
+if (require.main === module) {
+    benchmarkFolderQueries(readOption('size', 10_000), readOption('fan-out', 10), readOption('depth', 10_000))
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error('Benchmark failed:', error);
+            process.exit(1);
+        });
+}
+
+export { benchmarkFolderQueries };
@@ -0,0 +1,112 @@
+#!/usr/bin/env tsx
+
+/**
+ * Migration script to move files onto per-file object keys
+ *
+ * Files used to be stored at `root_user_<userId>/<fileName>`, so two files with
+ * the same name in different folders shared (and overwrote) one object. This
+ * script copies each file's object to `root_user_<userId>/files/<fileId>/<fileName>`,
+ * rewrites `s3_key`/`s3_link`, and deletes the old objects once nothing points
+ * at them anymore.
+ *
+ * Rows that shared a key before the migration all receive a copy of whatever
+ * object was stored last; the overwritten content cannot be recovered.
+ *
+ * Files with a `blob_id` are skipped: their `s3_key` is the blob's object, shared
+ * with every other file and version of the same content, and is never moved. Old
+ * keys that a blob or a file version still points at are not deleted.
+ *
+ * Usage: npx tsx scripts/migrate-file-object-keys.ts [--dry-run]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import storageDriver from '@/lib/storage-client';
+import { FileService } from '@/services/file-service';
+
+const prisma = new PrismaClient();
+
+async function migrateFileObjectKeys(dryRun = false) {
+    console.log(`Starting file object key migration${dryRun ? ' (dry run)' : ''}...`);
+
+    try {
+        const files = await prisma.file.findMany({
+            select: { id: true, file_name: true, owner_clerk_id: true, s3_key: true, blob_id: true }
+        });
+
+        const pending = files.filter((file) =>
+            !file.blob_id && file.s3_key && file.s3_key !== FileService.buildObjectKey(file.owner_clerk_id, file.id, file.file_name));
+
+        // Objects of blobs and old versions must outlive the rows being moved off them
+        const [blobs, versions] = await Promise.all([
+            prisma.blob.findMany({ select: { s3_key: true } }),
+            prisma.fileVersion.findMany({ select: { s3_key: true } }),
+        ]);
+        const keptKeys = new Set([...blobs, ...versions].map(({ s3_key }) => s3_key));
+
+        console.log(`Found ${pending.length} of ${files.length} files to migrate`);
+
+        // Count how many rows still reference each old key so shared objects
+        // are only deleted after every row has its own copy
+        const remainingReferences = new Map<string, number>();
+        for (const file of pending) {
+            const key = file.s3_key as string;
+            remainingReferences.set(key, (remainingReferences.get(key) ?? 0) + 1);
+        }
+
+        for (const [key, count] of remainingReferences) {
+            if (count > 1) {
+                console.warn(`Key ${key} is shared by ${count} files; each will receive a copy of the current object`);
+            }
+        }
+
+        for (const file of pending) {
+            const oldKey = file.s3_key as string;
+            const newKey = FileService.buildObjectKey(file.owner_clerk_id, file.id, file.file_name);
+
+            try {
+                if (dryRun) {
+                    console.log(`Would move file ${file.id}: ${oldKey} -> ${newKey}`);
+                    continue;
+                }
+
+                await storageDriver.copyObject(oldKey, newKey);
+                await prisma.file.update({
+                    where: { id: file.id },
+                    data: {
+                        s3_key: newKey,
+                        s3_link: storageDriver.getObjectLink(newKey),
+                    }
+                });
+
+                const remaining = (remainingReferences.get(oldKey) ?? 1) - 1;
+                remainingReferences.set(oldKey, remaining);
+                if (remaining === 0 && !keptKeys.has(oldKey)) {
+                    await storageDriver.deleteObject(oldKey);
+                }
+
+                console.log(`Moved file ${file.id}: ${oldKey} -> ${newKey}`);
+            } catch (error) {
+                console.error(`Error migrating file ${file.id}:`, error);
+            }
+        }
+
+        console.log('Migration completed successfully!');
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await prisma.$disconnect();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateFileObjectKeys(process.argv.includes('--dry-run'))
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error('Migration failed:', error);
+            process.exit(1);
+        });
+}
+
+export { migrateFileObjectKeys };
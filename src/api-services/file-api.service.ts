@@ -1,5 +1,6 @@
 import { apiClient, ApiError } from "@/lib/api-client";
-import { File } from "@/types/types";
+import { getResumeKey, MULTIPART_UPLOAD_THRESHOLD, uploadInParts } from "@/lib/multipart-upload";
+import { File, FileVersion, MultipartUpload, MultipartUploadState, PendingUpload, Share, SharedFile, SharedFileDownload, SharePermission, UploadPartRequest } from "@/types/types";
 
 export class FileApiService {
     private static apiClient = apiClient;
@@ -14,21 +15,111 @@ export class FileApiService {
         return await this.apiClient.get(endpoint);
     }
 
+    static async renameFile(fileId: string, name: string): Promise<File | ApiError> {
+        const endpoint = `/files/${fileId}`;
+        return await this.apiClient.patch(endpoint, { name: name });
+    }
+
+    static async moveFile(fileId: string, parentFolderId: string): Promise<File | ApiError> {
+        const endpoint = `/files/${fileId}`;
+        return await this.apiClient.patch(endpoint, { parent_folder_id: parentFolderId });
+    }
+
+    static async copyFile(fileId: string, parentFolderId?: string): Promise<File | ApiError> {
+        const endpoint = `/files/${fileId}/copy`;
+        const body = parentFolderId ? { parent_folder_id: parentFolderId } : {};
+        return await this.apiClient.post(endpoint, body);
+    }
+
+    static async listVersions(fileId: string): Promise<FileVersion[] | ApiError> {
+        const endpoint = `/files/${fileId}/versions`;
+        return await this.apiClient.get(endpoint);
+    }
+
+    static async downloadVersion(fileId: string, versionId: string): Promise<{ url: string } | ApiError> {
+        const endpoint = `/files/${fileId}/versions/${versionId}`;
+        return await this.apiClient.get(endpoint);
+    }
+
+    static async restoreVersion(fileId: string, versionId: string): Promise<File | ApiError> {
+        const endpoint = `/files/${fileId}/versions/${versionId}/restore`;
+        return await this.apiClient.post(endpoint, {});
+    }
+
     static async uploadFile(folderId: string, formData: FormData): Promise<File | ApiError> {
         const endpoint = `/folders/${folderId}/files`;
         return await this.apiClient.postFormData(endpoint, formData);
     }
 
-    static async shareFile(fileId: string | null, hours: number): Promise<{ url: string, expires_at: Date, message: string } | ApiError> {
+    static async createUpload(folderId: string, details: { file_name: string, size: number, content_type?: string }): Promise<PendingUpload | ApiError> {
+        const endpoint = `/folders/${folderId}/uploads`;
+        return await this.apiClient.post(endpoint, details);
+    }
+
+    static async completeUpload(fileId: string): Promise<File | ApiError> {
+        const endpoint = `/files/${fileId}/complete`;
+        return await this.apiClient.post(endpoint, {});
+    }
+
+    static async createMultipartUpload(folderId: string, details: { file_name: string, size: number, content_type?: string }): Promise<MultipartUpload | ApiError> {
+        const endpoint = `/folders/${folderId}/uploads`;
+        return await this.apiClient.post(endpoint, { ...details, multipart: true });
+    }
+
+    static async listUploadedParts(fileId: string): Promise<MultipartUploadState | ApiError> {
+        const endpoint = `/files/${fileId}/parts`;
+        return await this.apiClient.get(endpoint);
+    }
+
+    static async signUploadParts(fileId: string, partNumbers: number[]): Promise<{ parts: UploadPartRequest[] } | ApiError> {
+        const endpoint = `/files/${fileId}/parts`;
+        return await this.apiClient.post(endpoint, { part_numbers: partNumbers });
+    }
+
+    static async abortUpload(fileId: string): Promise<{ message: string } | ApiError> {
+        const endpoint = `/files/${fileId}/abort`;
+        return await this.apiClient.post(endpoint, {});
+    }
+
+    static async uploadFileMultipart(folderId: string, file: globalThis.File, options: { onProgress?: (progress: number) => void, signal?: AbortSignal } = {}): Promise<File | ApiError> {
+        // apiClient throws ApiError, so the `| ApiError` results below never actually occur
+        return await uploadInParts(file, {
+            create: async () => await this.createMultipartUpload(folderId, { file_name: file.name, size: file.size, content_type: file.type || undefined }) as MultipartUpload,
+            listParts: async (fileId) => await this.listUploadedParts(fileId) as MultipartUploadState,
+            signParts: async (fileId, partNumbers) => (await this.signUploadParts(fileId, partNumbers) as { parts: UploadPartRequest[] }).parts,
+            putPart: (request, body, partOptions) => this.apiClient.putWithProgress(request.url, body, { headers: request.headers, ...partOptions }),
+            complete: async (fileId) => await this.completeUpload(fileId) as File,
+        }, { resumeKey: getResumeKey(folderId, file), ...options });
+    }
+
+    static async uploadFileDirect(folderId: string, file: globalThis.File, options: { onProgress?: (progress: number) => void, signal?: AbortSignal } = {}): Promise<File | ApiError> {
+        if (file.size >= MULTIPART_UPLOAD_THRESHOLD) {
+            return await this.uploadFileMultipart(folderId, file, options);
+        }
+
+        const pending = await this.createUpload(folderId, { file_name: file.name, size: file.size, content_type: file.type || undefined });
+        if (pending instanceof ApiError) return pending;
+
+        await this.apiClient.putWithProgress(pending.upload.url, file, { headers: pending.upload.headers, ...options });
+        return await this.completeUpload(pending.file.id);
+    }
+
+    static async shareFile(fileId: string | null, hours: number, options: { label?: string, permission?: SharePermission, password?: string, max_downloads?: number } = {}): Promise<Share & { message: string } | ApiError> {
         const endpoint = `/files/${fileId}/share`;
         const data = {
             hours: hours,
+            ...options,
         };
         return await this.apiClient.post(endpoint, data);
     }
 
-    static async downloadFileFromShareToken(fileId: string | undefined, shareToken: string | null): Promise<{ message: string, url: string, file_name: string, expires_at: Date } | ApiError> {
+    static async downloadFileFromShareToken(fileId: string | undefined, shareToken: string | null): Promise<SharedFile | ApiError> {
         const endpoint = `/shared/file/${fileId}/${shareToken}`;
         return await this.apiClient.get(endpoint);
     }
+
+    static async downloadSharedFile(fileId: string | undefined, shareToken: string | null): Promise<SharedFileDownload | ApiError> {
+        const endpoint = `/shared/file/${fileId}/${shareToken}/download`;
+        return await this.apiClient.get(endpoint);
+    }
 }
@@ -1,29 +1,30 @@
 import { apiClient, ApiError } from "@/lib/api-client";
-import { Folder } from "@/types/types";
+import { Folder, type SharedFolder, type Share, type SharePermission, type CopyFolderEvent, type CopyProgress, type StorageUsage, type ChildrenQuery, type FolderChildrenPage, type SearchQuery, type SearchResult, type ViewPreferences } from "@/types/types";
 
 export class FolderApiService {
     private static apiClient = apiClient;
 
-    static async getFolderContents(folderId: string | null): Promise<Folder | ApiError> {
-        const endpoint = folderId ? `/folders/${folderId}` : `/folders`;
+    static async getFolderChildren(folderId: string, query: ChildrenQuery = {}): Promise<FolderChildrenPage | ApiError> {
+        const search = new URLSearchParams();
+        if (query.cursor) search.set("cursor", query.cursor);
+        if (query.limit) search.set("limit", String(query.limit));
+        if (query.sort) search.set("sort", query.sort);
+        if (query.order) search.set("order", query.order);
+        if (query.extension) search.set("extension", query.extension);
+        const endpoint = `/folders/${folderId}/children${search.size ? `?${search}` : ""}`;
         return await this.apiClient.get(endpoint);
     }
 
-    static async getSharedRootFolderContents(shareToken: string): Promise<Folder | ApiError> {
+    static async getSharedRootFolderContents(shareToken: string): Promise<SharedFolder | ApiError> {
         const endpoint = `/shared/folder/${shareToken}?recursive=all`;
         return await this.apiClient.get(endpoint);
     }
 
-    static async getFolderWithoutContents(shareToken: string): Promise<Folder | ApiError> {
+    static async getFolderWithoutContents(shareToken: string): Promise<SharedFolder | ApiError> {
         const endpoint = `/shared/folder/${shareToken}`;
         return await this.apiClient.get(endpoint);
     }
 
-    static async getRootFolderContents(folderId: string | null): Promise<Folder | ApiError> {
-        const endpoint = !folderId ? `/folders?recursive=all` : `/folders/${folderId}?recursive=all`;
-        return this.apiClient.get(endpoint);
-    }
-
     static async deleteFolder(folderId: string): Promise<Folder | ApiError> {
         const endpoint = `/folders/${folderId}`;
         return await this.apiClient.delete(endpoint);
@@ -35,10 +36,41 @@ export class FolderApiService {
         return await this.apiClient.post(endpoint, body);
     }
 
-    static async shareFolder(folderId: string | null, hours: number): Promise<{ url: string, expires_at: Date } | ApiError> {
+    static async renameFolder(folderId: string, name: string): Promise<Folder | ApiError> {
+        const endpoint = `/folders/${folderId}`;
+        return await this.apiClient.patch(endpoint, { name: name });
+    }
+
+    static async moveFolder(folderId: string, parentFolderId: string): Promise<Folder | ApiError> {
+        const endpoint = `/folders/${folderId}`;
+        return await this.apiClient.patch(endpoint, { parent_folder_id: parentFolderId });
+    }
+
+    static async copyFolder(folderId: string, parentFolderId: string | null, onProgress?: (progress: CopyProgress) => void): Promise<Folder | ApiError> {
+        const endpoint = `/folders/${folderId}/copy`;
+        const body = parentFolderId ? { parent_folder_id: parentFolderId } : {};
+        let result: Folder | ApiError = new ApiError("Copy ended unexpectedly", 500);
+        await this.apiClient.postNdjson<CopyFolderEvent>(endpoint, body, (event) => {
+            if (event.type === "progress") onProgress?.(event);
+            else if (event.type === "complete") result = event.folder;
+            else result = new ApiError(event.error, event.status, { error: event.error });
+        });
+        return result;
+    }
+
+    static getArchiveUrl(folderId: string): string {
+        return this.apiClient.getUrl(`/folders/${folderId}/archive`);
+    }
+
+    static getSharedArchiveUrl(shareToken: string): string {
+        return this.apiClient.getUrl(`/shared/folder/${shareToken}/archive`);
+    }
+
+    static async shareFolder(folderId: string | null, hours: number, options: { label?: string, permission?: SharePermission, password?: string, max_downloads?: number } = {}): Promise<Share & { message: string } | ApiError> {
         const endpoint = `/folders/${folderId}/share`;
         const data = {
             hours: hours,
+            ...options,
         };
         return await this.apiClient.post(endpoint, data);
     }
@@ -93,6 +125,33 @@ export class FolderApiService {
         return await this.apiClient.get(endpoint);
     }
 
+    static async getUsage(): Promise<StorageUsage | ApiError> {
+        const endpoint = `/user/usage`;
+        return await this.apiClient.get(endpoint);
+    }
+
+    static async getPreferences(): Promise<ViewPreferences | ApiError> {
+        const endpoint = `/user/preferences`;
+        return await this.apiClient.get(endpoint);
+    }
+
+    static async updatePreferences(changes: Partial<ViewPreferences>): Promise<ViewPreferences | ApiError> {
+        const endpoint = `/user/preferences`;
+        return await this.apiClient.patch(endpoint, changes);
+    }
+
+    static async search(query: SearchQuery & { folder_id?: string }): Promise<{ results: SearchResult[] } | ApiError> {
+        const search = new URLSearchParams({ q: query.q });
+        if (query.type) search.set("type", query.type);
+        if (query.min_size !== undefined) search.set("min_size", String(query.min_size));
+        if (query.max_size !== undefined) search.set("max_size", String(query.max_size));
+        if (query.from) search.set("from", query.from.toISOString());
+        if (query.to) search.set("to", query.to.toISOString());
+        if (query.folder_id) search.set("folder_id", query.folder_id);
+        if (query.limit) search.set("limit", String(query.limit));
+        return await this.apiClient.get(`/search?${search}`);
+    }
+
     static async getFolder(folderId: string): Promise<Folder | ApiError> {
         const endpoint = `/folders/${folderId}`;
         return await this.apiClient.get(endpoint);
@@ -0,0 +1,26 @@
+import { apiClient, ApiError } from "@/lib/api-client";
+import { Share, ShareLink, SharePermission } from "@/types/types";
+
+export class ShareApiService {
+    private static apiClient = apiClient;
+
+    static async getShares(): Promise<{ shares: Share[] } | ApiError> {
+        const endpoint = `/shares`;
+        return await this.apiClient.get(endpoint);
+    }
+
+    static async updateShare(shareId: string, changes: { hours?: number, label?: string | null, permission?: SharePermission, password?: string | null, max_downloads?: number | null }): Promise<Pick<ShareLink, 'id' | 'token' | 'label' | 'permission' | 'expires_at' | 'max_downloads'> & { has_password: boolean, downloads_remaining: number | null, url: string } | ApiError> {
+        const endpoint = `/shares/${shareId}`;
+        return await this.apiClient.patch(endpoint, changes);
+    }
+
+    static async revokeShare(shareId: string): Promise<{ message: string } | ApiError> {
+        const endpoint = `/shares/${shareId}`;
+        return await this.apiClient.delete(endpoint);
+    }
+
+    static async unlockShare(shareToken: string, password: string): Promise<{ message: string, expires_at: Date } | ApiError> {
+        const endpoint = `/shared/unlock/${shareToken}`;
+        return await this.apiClient.post(endpoint, { password });
+    }
+}
@@ -0,0 +1,31 @@
+import { apiClient, ApiError } from "@/lib/api-client";
+import { File, Folder } from "@/types/types";
+
+export class TrashApiService {
+    private static apiClient = apiClient;
+
+    static async getTrash(): Promise<{ files: File[], folders: Folder[] } | ApiError> {
+        const endpoint = `/trash`;
+        return await this.apiClient.get(endpoint);
+    }
+
+    static async restoreFile(fileId: string): Promise<File | ApiError> {
+        const endpoint = `/trash/files/${fileId}/restore`;
+        return await this.apiClient.post(endpoint);
+    }
+
+    static async restoreFolder(folderId: string): Promise<Folder | ApiError> {
+        const endpoint = `/trash/folders/${folderId}/restore`;
+        return await this.apiClient.post(endpoint);
+    }
+
+    static async purgeFile(fileId: string): Promise<{ message: string } | ApiError> {
+        const endpoint = `/trash/files/${fileId}`;
+        return await this.apiClient.delete(endpoint);
+    }
+
+    static async purgeFolder(folderId: string): Promise<{ message: string } | ApiError> {
+        const endpoint = `/trash/folders/${folderId}`;
+        return await this.apiClient.delete(endpoint);
+    }
+}
@@ -1,8 +1,10 @@
 import type { Metadata } from "next";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AuthFolderProvider } from "@/contexts/auth-folder-context";
+import { UploadQueueProvider } from "@/contexts/upload-queue-context";
 
 import { AppSidebar } from "@/components/app-sidebar";
+import UploadQueuePanel from "@/components/features/upload-queue-panel/upload-queue-panel";
 
 import { Toaster } from "sonner";
 
@@ -23,12 +25,15 @@ export default async function RootLayout({
   return (
     <>
         <AuthFolderProvider>
-          <SidebarProvider>        
-              <AppSidebar />
-              <SidebarTrigger />
-              {children}
-              <Toaster richColors position="top-right"/>
-          </SidebarProvider>
+          <UploadQueueProvider>
+            <SidebarProvider>        
+                <AppSidebar />
+                <SidebarTrigger />
+                {children}
+                <UploadQueuePanel />
+                <Toaster richColors position="top-right"/>
+            </SidebarProvider>
+          </UploadQueueProvider>
         </AuthFolderProvider>
     </>
   );
@@ -0,0 +1,7 @@
+'use client'
+
+import SharesPage from "@/components/pages/shares-page";
+
+export default function Shares() {
+    return <SharesPage />;
+}
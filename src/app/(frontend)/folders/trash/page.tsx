@@ -0,0 +1,7 @@
+'use client'
+
+import TrashPage from "@/components/pages/trash-page";
+
+export default function Trash() {
+    return <TrashPage />;
+}
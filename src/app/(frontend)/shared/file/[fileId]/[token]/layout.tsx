@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+import { Toaster } from "sonner";
+
+
+export const metadata: Metadata = {
+  title: "Shared File - File Uploader",
+  description: "View and download a shared file. Access shared files securely with our file sharing system.",
+  robots: { index: false, follow: true },
+};
+
+export default function RootLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <>
+        {children}
+        <Toaster richColors position="top-right"/>
+    </>
+  );
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import { toast } from "sonner";
+import { IconDownload, IconClock } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import FilePreview from "@/components/features/file-preview/file-preview";
+import ShareUnlockForm from "@/components/features/share-unlock-form/share-unlock-form";
+import { FileApiService } from "@/api-services/file-api.service";
+import { ApiError } from "@/lib/api-client";
+import { formatBytes } from "@/lib/utils";
+import { type File, type SharedFile } from "@/types/types";
+
+export default function SharedFilePage() {
+    const { fileId, token } = useParams<{ fileId: string, token: string }>();
+    const [sharedFile, setSharedFile] = useState<SharedFile | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [passwordRequired, setPasswordRequired] = useState<boolean>(false);
+    const [downloadsRemaining, setDownloadsRemaining] = useState<number | null>(null);
+    const [isDownloading, setIsDownloading] = useState<boolean>(false);
+
+    const getSharedFile = useCallback(async () => {
+        try {
+            const data = await FileApiService.downloadFileFromShareToken(fileId, token);
+            if (data instanceof ApiError) throw data;
+            setPasswordRequired(false);
+            setSharedFile(data);
+            setDownloadsRemaining(data.downloads_remaining);
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 401 && error.data?.password_required) {
+                setPasswordRequired(true);
+            } else if (error instanceof ApiError && error.status === 403) {
+                setError("This link has expired.");
+            } else if (error instanceof ApiError && error.status === 410) {
+                setError("This link has reached its download limit.");
+            } else if (error instanceof ApiError && error.status === 404) {
+                setError("This link is invalid or has been revoked.");
+            } else {
+                console.error("Error occurred: ", error);
+                setError("This file could not be loaded.");
+            }
+        }
+    }, [fileId, token]);
+
+    useEffect(() => {
+        getSharedFile();
+    }, [getSharedFile]);
+
+    const downloadSharedFile = async () => {
+        setIsDownloading(true);
+        try {
+            const data = await FileApiService.downloadSharedFile(fileId, token);
+            if (data instanceof ApiError) throw data;
+            setDownloadsRemaining(data.downloads_remaining);
+            window.open(data.url, "_blank");
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 410) {
+                setDownloadsRemaining(0);
+                toast.error("This link has reached its download limit.");
+            } else {
+                console.error("Error occurred: ", error);
+                toast.error("Failed to download file. Please try again.");
+            }
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    // FilePreview only needs what the share link reveals about the file; memoized so
+    // the preview does not reload on every render
+    const file = useMemo(() => sharedFile && {
+        id: fileId,
+        file_name: sharedFile.file_name,
+        size: sharedFile.size,
+        created_at: sharedFile.created_at,
+    } as File, [fileId, sharedFile]);
+
+    return (
+        <div className="flex flex-col w-full max-w-3xl mx-auto p-10 gap-6">
+            <h1 className="text-3xl font-bold">
+                File Uploader
+            </h1>
+
+            {error && (
+                <p className="text-muted-foreground">{error}</p>
+            )}
+
+            {passwordRequired && (
+                <ShareUnlockForm shareToken={token} onUnlocked={getSharedFile}/>
+            )}
+
+            {!error && !passwordRequired && !file && (
+                <Skeleton className="h-96 w-full"/>
+            )}
+
+            {sharedFile && file && (
+                <>
+                    <div className="flex flex-row items-center justify-between gap-4">
+                        <div>
+                            <h2 className="text-lg font-semibold break-all">{file.file_name}</h2>
+                            <p className="text-sm text-muted-foreground">{formatBytes(file.size)}</p>
+                        </div>
+                        {sharedFile.permission === "download" && (
+                            <Button
+                                variant="outline"
+                                className="hover:cursor-pointer"
+                                disabled={isDownloading || downloadsRemaining === 0}
+                                onClick={downloadSharedFile}>
+                                <IconDownload className="h-4 w-4"/>
+                                Download
+                            </Button>
+                        )}
+                    </div>
+
+                    <FilePreview file={file} shareToken={token} permission={sharedFile.permission} signedUrl={sharedFile.url ?? undefined}/>
+
+                    {sharedFile.expires_at && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <IconClock className="h-3 w-3"/>
+                            Link expires: {(new Date(sharedFile.expires_at)).toLocaleString()}
+                        </p>
+                    )}
+
+                    {downloadsRemaining !== null && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <IconDownload className="h-3 w-3"/>
+                            {downloadsRemaining} {downloadsRemaining === 1 ? "download" : "downloads"} left on this link
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -11,12 +11,13 @@ import { useState, Suspense } from "react";
 import { useFolder } from "@/hooks/use-folder";
 import SharedFolderTable from "@/components/features/shared-folder-table/shared-folder-table";
 import FolderTableSkeleton from "@/components/features/folder-table/folder-table-skeleton";
+import ShareUnlockForm from "@/components/features/share-unlock-form/share-unlock-form";
 import { File } from "@/types/types";
 
 export default function SharedFolderPage() {
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(false);
-    const { currentFolder, isLoading, shareToken } = useFolder();
+    const { currentFolder, isLoading, shareToken, permission, passwordRequired, reload } = useFolder();
 
     const handleRowClick = (file: File) => {
         setSelectedFile(file);
@@ -54,32 +55,39 @@ export default function SharedFolderPage() {
                     </SignedIn>
                 </Suspense>
             </div>
-            
-            <Suspense fallback={<DirectoryBreadcrumbSkeleton />}>
-                {isLoading ? (
-                    <DirectoryBreadcrumbSkeleton />
-                ) : (
-                    <SharedDirectoryBreadCrumb/>
-                )}
-            </Suspense>
-    
-            <Suspense fallback={<FolderTableSkeleton rows={8} />}>
-                {isLoading ? (
-                    <FolderTableSkeleton rows={8} />
-                ) : (
-                    <SharedFolderTable
-                        files={currentFolder?.files ? currentFolder.files : []}
-                        folders={currentFolder?.subfolders ? currentFolder.subfolders : []}
-                        handleRowClick={handleRowClick}/>
-                )}
-            </Suspense>
-    
-            <SharedFileSidebar
-                file={selectedFile}
-                isOpen={isSidebarOpen}
-                onClose={handleCloseSidebar}
-                readOnly={true}
-                shareToken={shareToken}/>    
+
+            {passwordRequired && shareToken ? (
+                <ShareUnlockForm shareToken={shareToken} onUnlocked={reload}/>
+            ) : (
+                <>
+                    <Suspense fallback={<DirectoryBreadcrumbSkeleton />}>
+                        {isLoading ? (
+                            <DirectoryBreadcrumbSkeleton />
+                        ) : (
+                            <SharedDirectoryBreadCrumb/>
+                        )}
+                    </Suspense>
+
+                    <Suspense fallback={<FolderTableSkeleton rows={8} />}>
+                        {isLoading ? (
+                            <FolderTableSkeleton rows={8} />
+                        ) : (
+                            <SharedFolderTable
+                                files={currentFolder?.files ? currentFolder.files : []}
+                                folders={currentFolder?.subfolders ? currentFolder.subfolders : []}
+                                handleRowClick={handleRowClick}/>
+                        )}
+                    </Suspense>
+
+                    <SharedFileSidebar
+                        file={selectedFile}
+                        isOpen={isSidebarOpen}
+                        onClose={handleCloseSidebar}
+                        readOnly={true}
+                        shareToken={shareToken}
+                        permission={permission}/>
+                </>
+            )}
         </div>
       );
 }
\ No newline at end of file
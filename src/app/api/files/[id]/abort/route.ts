@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { UploadService } from "@/services/upload-service";
+import { AuthorizationError } from "@/services/authorization-service";
+
+/**
+ * @fileoverview API route for cancelling direct uploads.
+ *
+ * @module api/files/[id]/abort
+ */
+
+/**
+ * Cancels a pending upload, discarding anything stored for it.
+ *
+ * @async
+ * @function POST
+ *
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the pending file
+ *
+ * @returns A Response with a confirmation message
+ *
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if the upload belongs to another user, does not exist or was already completed
+ * @throws Returns 500 if the storage backend or database fails
+ *
+ * @example
+ * ```typescript
+ * await fetch(`/api/files/${pending.id}/abort`, { method: 'POST' });
+ * ```
+ *
+ * @remarks
+ * - Works for single and multipart uploads; multipart parts are discarded
+ * - Uploads that are simply abandoned are removed by the `/api/uploads/purge` job instead
+ *
+ * @see {@link UploadService.abortUpload} for the underlying implementation
+ *
+ * @status 200 - Upload cancelled
+ * @status 401 - User is not authenticated
+ * @status 403 - Upload belongs to another user
+ * @status 404 - Pending upload not found
+ * @status 500 - Internal server error
+ */
+export async function POST(
+    request: Request,
+    { params }: { params : Promise<{ id: string }> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            const pending = await UploadService.authorizePendingUpload(userId, id);
+
+            await UploadService.abortUpload(pending);
+            return new Response(JSON.stringify({ message: "Upload cancelled" }), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error("Error aborting upload: ", error);
+            return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+        }
+}
@@ -0,0 +1,89 @@
+import { NextResponse, after } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { UploadService } from "@/services/upload-service";
+import { ThumbnailService } from "@/services/thumbnail-service";
+import { BlobService } from "@/services/blob-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
+import ConfigSingleton from "@/lib/config";
+
+/**
+ * @fileoverview API route for finishing direct uploads.
+ *
+ * This is the second phase of a direct upload started with
+ * `POST /api/folders/[folderId]/uploads`.
+ *
+ * @module api/files/[id]/complete
+ */
+
+/**
+ * Verifies that a pending file's content was uploaded and makes the file available.
+ *
+ * @async
+ * @function POST
+ *
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the pending file
+ *
+ * @returns A Response object containing the completed file, or the existing file it became a new version of
+ *
+ * @throws Returns 400 if the stored object's size does not match the declared size
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if the upload belongs to another user, does not exist or was already completed
+ * @throws Returns 409 if nothing, or not every part, has been uploaded yet
+ * @throws Returns 500 if the storage lookup or database update fails
+ *
+ * @example
+ * ```typescript
+ * await fetch(upload.url, { method: upload.method, headers: upload.headers, body: file });
+ * const response = await fetch(`/api/files/${pending.id}/complete`, { method: 'POST' });
+ * const file = await response.json();
+ * ```
+ *
+ * @remarks
+ * - Checks the object with a HEAD request; its size must equal the size given when the upload was created
+ * - On a size mismatch the stored object is deleted so the client can upload again
+ * - Multipart uploads are assembled first; every part must be stored with the expected size
+ * - If the folder already has a file with the same name, the upload becomes its new version,
+ *   keeping at most `FILE_VERSION_LIMIT` earlier versions
+ * - The object is not read while the client waits: once the response is sent it is
+ *   hashed and deduplicated ({@link BlobService.deduplicateFile}), then images and PDFs
+ *   get a thumbnail ({@link ThumbnailService.generateThumbnail})
+ *
+ * @see {@link UploadService.completeUpload} for the underlying implementation
+ *
+ * @status 200 - Upload completed
+ * @status 400 - Size mismatch
+ * @status 401 - User is not authenticated
+ * @status 403 - Upload belongs to another user
+ * @status 404 - Pending upload not found
+ * @status 409 - Object not uploaded yet
+ * @status 500 - Internal server error
+ */
+export async function POST(
+    request: Request,
+    { params }: { params : Promise<{ id: string }> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            const pending = await UploadService.authorizePendingUpload(userId, id);
+
+            const { FILE_VERSION_LIMIT } = ConfigSingleton.getInstance().config;
+            const file = await UploadService.completeUpload(pending, FILE_VERSION_LIMIT);
+            // one after the other: deduplication may move the file to another object
+            after(async () => {
+                await BlobService.deduplicateFile(file.id);
+                await ThumbnailService.generateThumbnail(file.id);
+            });
+            return new Response(JSON.stringify(file), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error("Error completing upload: ", error);
+            return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+        }
+}
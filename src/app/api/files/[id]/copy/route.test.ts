@@ -0,0 +1,134 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+import s3Client from "@/lib/s3-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1", STORAGE_QUOTA_BYTES: 5000 },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        file: {
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+            create: vi.fn(),
+            aggregate: vi.fn(),
+        },
+        folder: {
+            findUnique: vi.fn(),
+        },
+        fileVersion: {
+            aggregate: vi.fn(),
+        },
+        blob: {
+            update: vi.fn(),
+        },
+        $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("/api/files/[id]/copy", () => {
+    const ownedFile = {
+        id: "file-123",
+        file_name: "report.pdf",
+        size: 1024,
+        parent_folder_id: "folder-123",
+        owner_clerk_id: "user-owner",
+        s3_key: "root_user_user-owner/files/file-123/report.pdf",
+    };
+    const params = Promise.resolve({ id: "file-123" });
+    const copyRequest = (body?: object) => new Request("http://localhost/api/files/file-123/copy", {
+        method: "POST",
+        body: body ? JSON.stringify(body) : undefined,
+    });
+
+    beforeEach(() => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(prisma.file.findUnique).mockResolvedValue(ownedFile as never);
+        vi.mocked(prisma.folder.findUnique).mockImplementation((({ where }: { where: { id: string } }) =>
+            Promise.resolve({ id: where.id, owner_clerk_id: "user-owner" })) as never);
+        vi.mocked(prisma.file.findMany).mockResolvedValue([{ file_name: "report.pdf" }, { file_name: "report (1).pdf" }] as never);
+        vi.mocked(prisma.file.create).mockImplementation((({ data }: { data: object }) => Promise.resolve(data)) as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: {} })),
+            },
+        } as never);
+        vi.mocked(prisma.file.aggregate).mockResolvedValue({ _sum: { size: BigInt(3000) } } as never);
+        vi.mocked(prisma.fileVersion.aggregate).mockResolvedValue({ _sum: { size: BigInt(0) } } as never);
+    });
+
+    it("copies the file next to the original with a suffixed name", async () => {
+        const response = await POST(copyRequest(), { params });
+
+        expect(response.status).toBe(200);
+        const copy = await response.json();
+        expect(copy.file_name).toBe("report (2).pdf");
+        expect(copy.parent_folder_id).toBe("folder-123");
+        expect(copy.s3_key).toBe(`root_user_user-owner/files/${copy.id}/report (2).pdf`);
+        expect(vi.mocked(s3Client.send).mock.calls[0][0].input).toMatchObject({
+            CopySource: "test-bucket/root_user_user-owner/files/file-123/report.pdf",
+            Key: copy.s3_key,
+        });
+    });
+
+    it("shares deduplicated content instead of copying the object", async () => {
+        vi.mocked(prisma.file.findUnique).mockResolvedValue({ ...ownedFile, blob_id: "hash" } as never);
+        const response = await POST(copyRequest(), { params });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ s3_key: ownedFile.s3_key, blob_id: "hash" });
+        expect(prisma.blob.update).toHaveBeenCalledWith({
+            where: { id: "hash" },
+            data: { ref_count: { increment: 1 } },
+        });
+        expect(s3Client.send).not.toHaveBeenCalled();
+    });
+
+    it("copies into the requested folder", async () => {
+        vi.mocked(prisma.file.findMany).mockResolvedValue([]);
+        const response = await POST(copyRequest({ parent_folder_id: "folder-456" }), { params });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ file_name: "report.pdf", parent_folder_id: "folder-456" });
+    });
+
+    it("rejects a destination owned by another user with 403", async () => {
+        vi.mocked(prisma.folder.findUnique).mockResolvedValue({ id: "folder-999", owner_clerk_id: "user-other" } as never);
+        const response = await POST(copyRequest({ parent_folder_id: "folder-999" }), { params });
+        expect(response.status).toBe(403);
+        expect(prisma.file.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects a copy over the storage quota with 413", async () => {
+        vi.mocked(prisma.file.aggregate).mockResolvedValue({ _sum: { size: BigInt(4500) } } as never);
+        const response = await POST(copyRequest(), { params });
+
+        expect(response.status).toBe(413);
+        expect((await response.json()).error).toMatch(/quota exceeded/);
+        expect(prisma.file.create).not.toHaveBeenCalled();
+        expect(s3Client.send).not.toHaveBeenCalled();
+    });
+
+    it("returns 401 when not signed in", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: null } as never);
+        const response = await POST(copyRequest(), { params });
+        expect(response.status).toBe(401);
+    });
+});
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { FileService } from "@/services/file-service";
+import { FolderService } from "@/services/folder-service";
+import { QuotaService } from "@/services/quota-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
+import ConfigSingleton from "@/lib/config";
+
+/**
+ * @fileoverview API route for copying files.
+ * 
+ * This module provides an HTTP endpoint for copying a file into the same or
+ * another folder.
+ * 
+ * @module api/files/[id]/copy
+ */
+
+/**
+ * Copies a file into a destination folder.
+ * 
+ * @async
+ * @function POST
+ * 
+ * @param request - The incoming HTTP request object
+ * @param request.body - Optional JSON body with the following structure:
+ * ```json
+ * {
+ *   "parent_folder_id": "folder-456"
+ * }
+ * ```
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the file to copy
+ * 
+ * @returns A Response object containing the new file
+ * 
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if the file or destination belongs to another user or does not exist
+ * @throws Returns 413 if the copy would exceed the user's storage quota
+ * @throws Returns 500 if the copy fails
+ * 
+ * @example
+ * ```typescript
+ * // Make a copy next to the original
+ * const response = await fetch('/api/files/file-123/copy', { method: 'POST' });
+ * const copy = await response.json();
+ * console.log(copy.file_name); // "report (1).pdf"
+ * ```
+ * 
+ * @remarks
+ * - Requires authentication; the user must own the file and the destination folder
+ * - Without `parent_folder_id` the copy is placed next to the original
+ * - Name conflicts are resolved by adding a numeric suffix before the extension
+ * - The copy counts against the user's storage quota like an upload of the same size
+ *   (see {@link QuotaService})
+ * - Uses {@link FileService.copyFile} internally
+ * 
+ * @see {@link FileService.copyFile} for the underlying implementation
+ * 
+ * @status 200 - File copied
+ * @status 401 - User is not authenticated
+ * @status 403 - File or destination folder belongs to another user
+ * @status 404 - File or destination folder not found
+ * @status 413 - Storage quota exceeded
+ * @status 500 - Copy error
+ */
+export async function POST(
+    request: Request,
+    { params }: { params : Promise<{ id: string }> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            const file = await FileService.authorizeFile(userId, id, "read");
+
+            const body = await request.json().catch(() => ({}));
+            const destinationId = body.parent_folder_id ?? file.parent_folder_id;
+            const destination = await FolderService.authorizeFolder(userId, destinationId, "write");
+
+            const user = await (await clerkClient()).users.getUser(userId as string);
+            const quota = QuotaService.getQuota(user, ConfigSingleton.getInstance().config.STORAGE_QUOTA_BYTES);
+            await QuotaService.assertWithinQuota(user.id, quota, Number(file.size));
+
+            const copy = await FileService.copyFile(file, destination.id);
+            return new Response(JSON.stringify(copy), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error("Error copying file: ", error);
+            throw new Error(`Failed to copy file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+}
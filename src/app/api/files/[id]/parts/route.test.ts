@@ -0,0 +1,92 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+import s3Client from "@/lib/s3-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: {
+                APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1",
+                UPLOAD_URL_EXPIRY_SECONDS: 600, MULTIPART_UPLOAD_IDLE_HOURS: 24,
+            },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        file: {
+            findUnique: vi.fn(),
+            update: vi.fn(),
+        },
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+vi.mock("@aws-sdk/s3-request-presigner", () => ({
+    getSignedUrl: vi.fn(() => Promise.resolve("https://signed.example.com/part")),
+}));
+
+describe("/api/files/[id]/parts", () => {
+    const params = Promise.resolve({ id: "file-123" });
+    const partSize = 8 * 1024 * 1024;
+
+    beforeEach(() => {
+        vi.mocked(prisma.file.findUnique).mockResolvedValue({
+            id: "file-123",
+            file_name: "video.mp4",
+            size: partSize * 2 + 100,
+            owner_clerk_id: "user-owner",
+            s3_key: "root_user_user-owner/files/file-123/video.mp4",
+            pending_until: new Date(),
+            multipart_upload_id: "upload-1",
+        } as never);
+    });
+
+    it("lists the stored parts to the uploader", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(s3Client.send).mockResolvedValueOnce({ Parts: [{ PartNumber: 2, ETag: '"b"', Size: partSize }] } as never);
+
+        const response = await GET(new Request("http://localhost/api/files/file-123/parts"), { params });
+        const body = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(body).toMatchObject({ part_size: partSize, part_count: 3, parts: [{ part_number: 2, size: partSize }] });
+    });
+
+    it("signs part URLs for the uploader", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+
+        const response = await POST(new Request("http://localhost/api/files/file-123/parts", {
+            method: "POST",
+            body: JSON.stringify({ part_numbers: [1, 3] }),
+        }), { params });
+        const body = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(body.parts.map((part: { part_number: number }) => part.part_number)).toEqual([1, 3]);
+    });
+
+    it("rejects other users with 403", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+
+        const response = await POST(new Request("http://localhost/api/files/file-123/parts", {
+            method: "POST",
+            body: JSON.stringify({ part_numbers: [1] }),
+        }), { params });
+
+        expect(response.status).toBe(403);
+        expect(prisma.file.update).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { UploadService } from "@/services/upload-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
+import ConfigSingleton from "@/lib/config";
+
+/**
+ * @fileoverview API routes for the parts of a multipart upload.
+ *
+ * A multipart upload is started with `POST /api/folders/[folderId]/uploads` and
+ * `multipart: true`. The client then asks this route for signed part URLs, uploads
+ * the parts, and finishes with `POST /api/files/[id]/complete`. After an interruption
+ * it lists the stored parts here and only uploads the missing ones.
+ *
+ * @module api/files/[id]/parts
+ */
+
+/**
+ * Lists the parts stored so far for a multipart upload.
+ *
+ * @async
+ * @function GET
+ *
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the pending file
+ *
+ * @returns A Response with the pending file, its `part_size` and `part_count`, and the stored `parts`
+ *
+ * @throws Returns 400 if the file is not being uploaded in parts
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if the upload belongs to another user, does not exist or was already completed
+ * @throws Returns 500 if the storage backend fails
+ *
+ * @example
+ * ```typescript
+ * const { part_count, parts } = await (await fetch('/api/files/file-123/parts')).json();
+ * const stored = new Set(parts.map((part) => part.part_number));
+ * ```
+ *
+ * @see {@link UploadService.listUploadedParts} for the underlying implementation
+ *
+ * @status 200 - Parts listed
+ * @status 400 - Not a multipart upload
+ * @status 401 - User is not authenticated
+ * @status 403 - Upload belongs to another user
+ * @status 404 - Pending upload not found
+ * @status 500 - Internal server error
+ */
+export async function GET(
+    request: Request,
+    { params }: { params : Promise<{ id: string }> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            const pending = await UploadService.authorizePendingUpload(userId, id);
+
+            const state = await UploadService.listUploadedParts(pending);
+            return new Response(JSON.stringify(state), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error("Error listing uploaded parts: ", error);
+            return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+        }
+}
+
+/**
+ * Creates signed URLs for uploading parts of a multipart upload.
+ *
+ * @async
+ * @function POST
+ *
+ * @param request - The incoming HTTP request object
+ * @param request.body - JSON body with the following structure:
+ * ```json
+ * {
+ *   "part_numbers": [1, 2, 3]
+ * }
+ * ```
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the pending file
+ *
+ * @returns A Response with one `{ part_number, url, method, headers }` entry per part in `parts`
+ *
+ * @throws Returns 400 if the file is not being uploaded in parts or the part numbers are invalid
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if the upload belongs to another user, does not exist or was already completed
+ * @throws Returns 500 if URL signing fails
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/files/file-123/parts', {
+ *   method: 'POST',
+ *   body: JSON.stringify({ part_numbers: [1, 2] }),
+ * });
+ * const { parts } = await response.json();
+ * await fetch(parts[0].url, { method: parts[0].method, headers: parts[0].headers, body: file.slice(0, partSize) });
+ * ```
+ *
+ * @remarks
+ * - At most 100 parts can be requested at once
+ * - URLs are valid for `UPLOAD_URL_EXPIRY_SECONDS`; request new ones when they expire
+ * - Each request keeps the upload alive for another `MULTIPART_UPLOAD_IDLE_HOURS`
+ *
+ * @see {@link UploadService.signUploadParts} for the underlying implementation
+ *
+ * @status 200 - URLs created
+ * @status 400 - Not a multipart upload, or invalid part numbers
+ * @status 401 - User is not authenticated
+ * @status 403 - Upload belongs to another user
+ * @status 404 - Pending upload not found
+ * @status 500 - Internal server error
+ */
+export async function POST(
+    request: Request,
+    { params }: { params : Promise<{ id: string }> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            const pending = await UploadService.authorizePendingUpload(userId, id);
+
+            const body = await request.json().catch(() => ({}));
+            const config = ConfigSingleton.getInstance().config;
+            const parts = await UploadService.signUploadParts(
+                pending, body.part_numbers, config.UPLOAD_URL_EXPIRY_SECONDS, config.MULTIPART_UPLOAD_IDLE_HOURS);
+
+            return new Response(JSON.stringify({ parts }), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error("Error signing upload parts: ", error);
+            return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+        }
+}
@@ -0,0 +1,165 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, DELETE, PATCH } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+import s3Client from "@/lib/s3-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        file: {
+            findUnique: vi.fn(),
+            findFirst: vi.fn(),
+            update: vi.fn(),
+            delete: vi.fn(),
+        },
+        folder: {
+            findUnique: vi.fn(),
+        },
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+vi.mock("@aws-sdk/s3-request-presigner", () => ({
+    getSignedUrl: vi.fn(() => Promise.resolve("https://signed.example.com/file")),
+}));
+
+describe("/api/files/[id]", () => {
+    const ownedFile = {
+        id: "file-123",
+        file_name: "report.pdf",
+        size: 1024,
+        owner_clerk_id: "user-owner",
+        s3_key: "root_user_user-owner/report.pdf",
+    };
+    const params = Promise.resolve({ id: "file-123" });
+
+    beforeEach(() => {
+        vi.mocked(prisma.file.findUnique).mockResolvedValue(ownedFile as never);
+    });
+
+    describe("GET", () => {
+        it("returns a download URL to the owner", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            const response = await GET(new Request("http://localhost/api/files/file-123"), { params });
+            expect(response.status).toBe(200);
+            expect((await response.json()).url).toBe("https://signed.example.com/file");
+        });
+
+        it("rejects another user with 403", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+            const response = await GET(new Request("http://localhost/api/files/file-123"), { params });
+            expect(response.status).toBe(403);
+        });
+
+        it("returns 404 for a file that does not exist", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            vi.mocked(prisma.file.findUnique).mockResolvedValue(null);
+            const response = await GET(new Request("http://localhost/api/files/file-123"), { params });
+            expect(response.status).toBe(404);
+        });
+
+        it("returns 401 when not signed in", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: null } as never);
+            const response = await GET(new Request("http://localhost/api/files/file-123"), { params });
+            expect(response.status).toBe(401);
+        });
+    });
+
+    describe("DELETE", () => {
+        it("moves the file to the trash for the owner without touching storage", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            const response = await DELETE(new Request("http://localhost/api/files/file-123", { method: "DELETE" }), { params });
+            expect(response.status).toBe(200);
+            expect(prisma.file.update).toHaveBeenCalledWith({
+                where: { id: "file-123" },
+                data: { deleted_at: expect.any(Date) },
+            });
+            expect(prisma.file.delete).not.toHaveBeenCalled();
+            expect(s3Client.send).not.toHaveBeenCalled();
+        });
+
+        it("rejects another user with 403 without touching storage", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+            const response = await DELETE(new Request("http://localhost/api/files/file-123", { method: "DELETE" }), { params });
+            expect(response.status).toBe(403);
+            expect(s3Client.send).not.toHaveBeenCalled();
+            expect(prisma.file.delete).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("PATCH", () => {
+        const patch = (body: object) => PATCH(new Request("http://localhost/api/files/file-123", {
+            method: "PATCH",
+            body: JSON.stringify(body),
+        }), { params });
+
+        beforeEach(() => {
+            vi.mocked(prisma.file.update).mockImplementation((({ data }: { data: object }) =>
+                Promise.resolve({ ...ownedFile, ...data })) as never);
+        });
+
+        it("renames the file and moves its object to a key ending in the new name", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            const response = await patch({ name: "final.pdf" });
+            expect(response.status).toBe(200);
+            expect((await response.json()).file_name).toBe("final.pdf");
+            expect(prisma.file.update).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({
+                    file_name: "final.pdf",
+                    s3_key: "root_user_user-owner/files/file-123/final.pdf",
+                }),
+            }));
+            expect(s3Client.send).toHaveBeenCalledTimes(2); // copy, then delete the old key
+        });
+
+        it("moves the file into another folder owned by the user", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue({ id: "folder-456", owner_clerk_id: "user-owner" } as never);
+            const response = await patch({ parent_folder_id: "folder-456" });
+            expect(response.status).toBe(200);
+            expect(prisma.file.update).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ parent_folder_id: "folder-456" }),
+            }));
+            expect(s3Client.send).not.toHaveBeenCalled();
+        });
+
+        it("rejects moving into another user's folder with 403", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue({ id: "folder-456", owner_clerk_id: "user-intruder" } as never);
+            const response = await patch({ parent_folder_id: "folder-456" });
+            expect(response.status).toBe(403);
+            expect(prisma.file.update).not.toHaveBeenCalled();
+        });
+
+        it("returns 409 when the folder already holds a file with that name", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            vi.mocked(prisma.file.findFirst).mockResolvedValue({ id: "file-999", file_name: "final.pdf" } as never);
+            const response = await patch({ name: "final.pdf" });
+            expect(response.status).toBe(409);
+            expect(prisma.file.update).not.toHaveBeenCalled();
+        });
+
+        it("returns 400 when neither a name nor a folder is given", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            const response = await patch({});
+            expect(response.status).toBe(400);
+        });
+    });
+});
@@ -1,9 +1,16 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
 import { FileService } from "@/services/file-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { TrashService } from "@/services/trash-service";
+import { FolderService } from "@/services/folder-service";
+import { ValidationError } from "@/lib/errors";
 
 /**
  * @fileoverview API routes for individual file operations.
  * 
- * This module provides HTTP endpoints for retrieving file URLs and deleting files.
+ * This module provides HTTP endpoints for retrieving file URLs, renaming/moving
+ * files and deleting files.
  * These endpoints operate on individual files identified by their unique ID.
  * 
  * @module api/files/[id]
@@ -25,7 +32,8 @@ import { FileService } from "@/services/file-service";
  * 
  * @returns A Response object containing the presigned URL
  * 
- * @throws Returns 500 if the file is not found or URL generation fails
+ * @throws Returns 403 or 404 if the file belongs to another user or does not exist
+ * @throws Returns 500 if URL generation fails
  * 
  * @example
  * ```typescript
@@ -54,7 +62,7 @@ import { FileService } from "@/services/file-service";
  * ```
  * 
  * @remarks
- * - Does not require authentication (use with caution)
+ * - Requires authentication; only the file's owner may access it
  * - The presigned URL expires after ~67 minutes
  * - File must exist in both database and S3 storage
  * - Uses {@link FileService.getFileUrl} internally
@@ -63,28 +71,36 @@ import { FileService } from "@/services/file-service";
  * @see {@link DELETE} for deleting files
  * 
  * @status 200 - Successfully generated presigned URL
- * @status 500 - File not found or internal error
+ * @status 401 - User is not authenticated
+ * @status 403 - File belongs to another user
+ * @status 404 - File not found
+ * @status 500 - Internal error
  */
 export async function GET(
     request: Request,
     { params }: { params : Promise<{ id: string }> }) {
         try {
             const { id } = await params;
+            const { userId } = await auth();
+            await FileService.authorizeFile(userId, id, "read");
             const message = await FileService.getFileUrl(id);
             return new Response(JSON.stringify(message), {
                 headers: {"Content-Type": "application/json"},
             });
         } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
             console.error("Error creating folder info file:", error);
             throw new Error(`Failed to create folder info file: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
 }
 
 /**
- * Permanently deletes a file from both S3 storage and the database.
+ * Moves a file to the trash.
  * 
- * This endpoint performs a complete deletion of a file, removing it from both
- * S3 storage and the database. This operation is irreversible.
+ * The file disappears from its folder but keeps its stored object, so it can be
+ * restored from `/api/trash` until it is purged.
  * 
  * @async
  * @function DELETE
@@ -95,7 +111,8 @@ export async function GET(
  * 
  * @returns A Response object containing a success message
  * 
- * @throws Returns 500 if the file is not found or deletion fails
+ * @throws Returns 403 or 404 if the file belongs to another user or does not exist
+ * @throws Returns 500 if deletion fails
  * 
  * @example
  * ```typescript
@@ -105,7 +122,7 @@ export async function GET(
  * });
  * 
  * const result = await response.json();
- * console.log(result.message); // "deletion successful!"
+ * console.log(result.message); // "moved to trash"
  * ```
  * 
  * @example
@@ -130,28 +147,118 @@ export async function GET(
  * ```
  * 
  * @remarks
- * - This operation is irreversible
- * - Deletes from both S3 and database
- * - Does not require authentication (consider adding auth in production)
- * - Uses {@link FileService.deleteFile} internally
+ * - The file can be restored from the trash until it is purged
+ * - Requires authentication; only the file's owner may delete it
+ * - Uses {@link TrashService.trashFile} internally
  * 
- * @see {@link FileService.deleteFile} for the underlying implementation
+ * @see {@link TrashService.trashFile} for the underlying implementation
  * @see {@link GET} for retrieving file URLs
  * 
- * @status 200 - Successfully deleted file
- * @status 500 - File not found or deletion error
+ * @status 200 - File moved to the trash
+ * @status 401 - User is not authenticated
+ * @status 403 - File belongs to another user
+ * @status 404 - File not found
+ * @status 500 - Deletion error
  */
 export async function DELETE(
     request: Request,
     { params }: { params : Promise<{ id : string}> }) {
         try {
             const { id } = await params;
-            const message = await FileService.deleteFile(id);
+            const { userId } = await auth();
+            await FileService.authorizeFile(userId, id, "write");
+            const message = await TrashService.trashFile(id);
             return new Response(JSON.stringify(message), {
                 headers: {"Content-Type": "application/json"},
             });
         } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
             console.error("Error deleting file: ", error);
             throw new Error(`Failed to delete file:  ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
-}
\ No newline at end of file
+}
+
+/**
+ * Renames a file and/or moves it into another folder.
+ * 
+ * @async
+ * @function PATCH
+ * 
+ * @param request - The incoming HTTP request object
+ * @param request.body - JSON body with at least one of the following fields:
+ * ```json
+ * {
+ *   "name": "report-final.pdf",
+ *   "parent_folder_id": "folder-456"
+ * }
+ * ```
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the file to update
+ * 
+ * @returns A Response object containing the updated file
+ * 
+ * @throws Returns 400 if the body is invalid or the new name is empty
+ * @throws Returns 403 or 404 if the file or destination belongs to another user or does not exist
+ * @throws Returns 409 if the destination already contains a file with that name
+ * @throws Returns 500 if the update fails
+ * 
+ * @example
+ * ```typescript
+ * // Rename a file
+ * const response = await fetch('/api/files/file-123', {
+ *   method: 'PATCH',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ name: 'report-final.pdf' })
+ * });
+ * const file = await response.json();
+ * ```
+ * 
+ * @remarks
+ * - Requires authentication; the user must own both the file and the destination folder
+ * - Uses {@link FileService.updateFile} internally
+ * 
+ * @see {@link FileService.updateFile} for the underlying implementation
+ * 
+ * @status 200 - File updated
+ * @status 400 - Invalid body or empty name
+ * @status 401 - User is not authenticated
+ * @status 403 - File or destination folder belongs to another user
+ * @status 404 - File or destination folder not found
+ * @status 409 - Name already taken in the destination folder
+ * @status 500 - Update error
+ */
+export async function PATCH(
+    request: Request,
+    { params }: { params : Promise<{ id : string}> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            const file = await FileService.authorizeFile(userId, id, "write");
+
+            const body = await request.json().catch(() => ({}));
+            const { name, parent_folder_id } = body;
+
+            if ((name === undefined && parent_folder_id === undefined) ||
+                (name !== undefined && typeof name !== "string") ||
+                (parent_folder_id !== undefined && typeof parent_folder_id !== "string")) {
+                return NextResponse.json({ error: 'Provide a name and/or parent_folder_id' }, { status: 400 });
+            }
+
+            if (parent_folder_id !== undefined) {
+                await FolderService.authorizeFolder(userId, parent_folder_id, "write");
+            }
+
+            const updated = await FileService.updateFile(file, { name, parentFolderId: parent_folder_id });
+            return new Response(JSON.stringify(updated), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error("Error updating file: ", error);
+            throw new Error(`Failed to update file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+}
@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        file: {
+            findUnique: vi.fn(),
+        },
+        shareLink: {
+            create: vi.fn(({ data }) => Promise.resolve({ id: "link-1", created_at: new Date(), ...data })),
+        },
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("POST /api/files/[id]/share", () => {
+    const params = Promise.resolve({ id: "file-123" });
+    const shareRequest = (body: object = { hours: 24 }) => new Request("http://localhost/api/files/file-123/share", {
+        method: "POST",
+        body: JSON.stringify(body),
+    });
+
+    beforeEach(() => {
+        vi.mocked(prisma.file.findUnique).mockResolvedValue({
+            id: "file-123",
+            owner_clerk_id: "user-owner",
+            file_name: "report.pdf",
+            s3_key: "root_user_user-owner/report.pdf",
+        } as never);
+    });
+
+    it("creates a new share link for the owner", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        const response = await POST(shareRequest({ hours: 24, label: " Accountant ", permission: "view" }), { params });
+        expect(response.status).toBe(200);
+        const share = await response.json();
+        expect(share).toMatchObject({ id: "link-1", kind: "file", item_id: "file-123", label: "Accountant", permission: "view" });
+        expect(share.url).toContain("/shared/file/file-123/");
+        expect(prisma.shareLink.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ file_id: "file-123", owner_clerk_id: "user-owner" }),
+        });
+    });
+
+    it("rejects an unknown permission with 400", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        const response = await POST(shareRequest({ hours: 24, permission: "edit" }), { params });
+        expect(response.status).toBe(400);
+        expect(prisma.shareLink.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects another user with 403 without issuing a token", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+        const response = await POST(shareRequest(), { params });
+        expect(response.status).toBe(403);
+        expect(prisma.shareLink.create).not.toHaveBeenCalled();
+    });
+});
@@ -1,11 +1,16 @@
 import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
 import { FileService } from "@/services/file-service";
+import { ShareService } from "@/services/share-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
 
 /**
  * @fileoverview API route for sharing files.
  * 
  * This module provides an HTTP endpoint for generating shareable links to files
- * with custom expiration times.
+ * with custom expiration times. A file can have any number of links; each new one
+ * leaves the others working.
  * 
  * @module api/files/[id]/share
  */
@@ -13,9 +18,8 @@ import { FileService } from "@/services/file-service";
 /**
  * Creates a shareable link for a file with a custom expiration time.
  * 
- * This endpoint generates a presigned URL that can be shared with others to provide
- * time-limited access to a file. The expiration time is specified in hours and the
- * file's database record is updated to reflect the expiration.
+ * This endpoint creates a share link with a unique token that can be shared with others
+ * to provide time-limited access to a file. The expiration time is specified in hours.
  * 
  * @async
  * @function POST
@@ -24,16 +28,24 @@ import { FileService } from "@/services/file-service";
  * @param request.body - JSON body with the following structure:
  * ```json
  * {
- *   "hours": 24
+ *   "hours": 24,
+ *   "label": "Accountant",
+ *   "permission": "download",
+ *   "password": "correct horse",
+ *   "max_downloads": 1
  * }
  * ```
+ * `label` (who the link is for), `permission` (`"view"` or `"download"`, the
+ * default), `password` (6 to 128 characters, asked of visitors) and `max_downloads`
+ * (downloads after which the link stops working, 1 for a one-time link) are optional.
  * @param params - Route parameters
  * @param params.id - The unique identifier of the file to share
  * 
- * @returns A NextResponse object containing the share URL and expiration details
+ * @returns A NextResponse object containing the new share link and a success message
  * 
- * @throws Returns 400 if hours is invalid (missing or <= 0)
- * @throws Returns 500 if the file is not found or sharing fails
+ * @throws Returns 400 if hours, label, permission, password or download limit is invalid
+ * @throws Returns 403 or 404 if the file belongs to another user or does not exist
+ * @throws Returns 500 if sharing fails
  * 
  * @example
  * ```typescript
@@ -84,25 +96,32 @@ import { FileService } from "@/services/file-service";
  * ```
  * 
  * @remarks
+ * - Requires authentication; only the file's owner may share it
  * - Requires `hours` to be a positive number
- * - Updates the file's expiration time in the database
- * - If file already has an expiration, takes the maximum of old vs new
- * - Uses {@link FileService.shareFile} internally
- * - The generated URL is a presigned S3 URL, not a share token
+ * - Generates a unique share token stored in a new ShareLink
+ * - The share URL format: `{origin}/shared/file/{fileId}/{token}`
+ * - Existing links to the file keep working; revoke them under `/api/shares`
+ * - Uses {@link ShareService.shareFile} internally
  * 
- * @see {@link FileService.shareFile} for the underlying implementation
+ * @see {@link ShareService.shareFile} for the underlying implementation
  * @see GET /api/files/[id] for retrieving file URLs without expiration
  * 
  * @status 200 - Successfully created share link
- * @status 400 - Invalid hours parameter
- * @status 500 - File not found or internal error
+ * @status 400 - Invalid hours, label, permission, password or download limit
+ * @status 401 - User is not authenticated
+ * @status 403 - File belongs to another user
+ * @status 404 - File not found
+ * @status 500 - Internal error
  */
 export async function POST(
     request: Request, 
     { params }: { params : Promise<{ id : string }>}) {
         try {
             const { id } = await params;
-            const { hours } = await request.json();
+            const { userId } = await auth();
+            const file = await FileService.authorizeFile(userId, id, "write");
+
+            const { hours, label, permission, password, max_downloads } = await request.json();
             if (!hours || hours <= 0) {
                 return NextResponse.json(
                     {error: "Invalid expiration time"},
@@ -110,10 +129,17 @@ export async function POST(
                 );
             }
 
-            const res = await FileService.shareFile(id, hours);
-            return NextResponse.json(res);
+            const origin = request.headers.get("origin") || "http://localhost:3000";
+            const share = await ShareService.shareFile(file, { hours, label, permission, password, max_downloads }, origin);
+            return NextResponse.json({
+                message: "Successful",
+                ...share,
+            });
 
         } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
             console.error("Error sharing file: ", error);
             throw new Error(`Failed to share file:  ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1", FILE_VERSION_LIMIT: 10, STORAGE_QUOTA_BYTES: 5000 },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        file: {
+            findUnique: vi.fn(),
+            update: vi.fn(),
+            aggregate: vi.fn(),
+        },
+        fileVersion: {
+            create: vi.fn(),
+            findUnique: vi.fn(),
+            findMany: vi.fn(() => Promise.resolve([])),
+            delete: vi.fn(),
+            aggregate: vi.fn(),
+        },
+        $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("POST /api/files/[id]/versions/[versionId]/restore", () => {
+    const file = {
+        id: "file-123",
+        file_name: "report.pdf",
+        size: 100,
+        owner_clerk_id: "user-owner",
+        s3_key: "key-v2",
+        created_at: new Date(),
+        version: 2,
+    };
+    const params = Promise.resolve({ id: "file-123", versionId: "version-1" });
+    const restore = () => POST(new Request("http://localhost/api/files/file-123/versions/version-1/restore", { method: "POST" }), { params });
+
+    beforeEach(() => {
+        vi.mocked(prisma.file.findUnique).mockResolvedValue(file as never);
+        vi.mocked(prisma.fileVersion.findUnique).mockResolvedValue({
+            id: "version-1", file_id: "file-123", version: 1, size: 40, s3_key: "key-v1", created_at: new Date(),
+        } as never);
+        vi.mocked(prisma.file.update).mockImplementation((({ data }: { data: object }) =>
+            Promise.resolve({ ...file, ...data })) as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: {} })),
+            },
+        } as never);
+        vi.mocked(prisma.file.aggregate).mockResolvedValue({ _sum: { size: BigInt(3000) } } as never);
+        vi.mocked(prisma.fileVersion.aggregate).mockResolvedValue({ _sum: { size: BigInt(0) } } as never);
+    });
+
+    it("restores the version for the owner", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+
+        const response = await restore();
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ s3_key: "key-v1", size: 40, version: 3 });
+    });
+
+    it("rejects a restore over the storage quota with 413", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(prisma.file.aggregate).mockResolvedValue({ _sum: { size: BigInt(4980) } } as never);
+
+        const response = await restore();
+
+        expect(response.status).toBe(413);
+        expect((await response.json()).error).toMatch(/quota exceeded/);
+        expect(prisma.file.update).not.toHaveBeenCalled();
+    });
+
+    it("returns 404 for a version of another file", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(prisma.fileVersion.findUnique).mockResolvedValue({ id: "version-1", file_id: "file-other" } as never);
+
+        expect((await restore()).status).toBe(404);
+        expect(prisma.file.update).not.toHaveBeenCalled();
+    });
+
+    it("rejects other users with 403", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+
+        expect((await restore()).status).toBe(403);
+        expect(prisma.fileVersion.findUnique).not.toHaveBeenCalled();
+    });
+});
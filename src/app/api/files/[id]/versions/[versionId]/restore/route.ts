@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { FileService } from "@/services/file-service";
+import { FileVersionService } from "@/services/file-version-service";
+import { QuotaService } from "@/services/quota-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
+import ConfigSingleton from "@/lib/config";
+
+/**
+ * @fileoverview API route for restoring an earlier version of a file.
+ *
+ * @module api/files/[id]/versions/[versionId]/restore
+ */
+
+/**
+ * Makes an earlier version the current content of its file.
+ *
+ * @async
+ * @function POST
+ *
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the file
+ * @param params.versionId - The unique identifier of the version to restore
+ *
+ * @returns A Response object containing the updated file
+ *
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if the file belongs to another user, or the file or version does not exist
+ * @throws Returns 413 if the restored content would exceed the user's storage quota
+ * @throws Returns 500 if the database update fails
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch(`/api/files/${fileId}/versions/${versionId}/restore`, { method: 'POST' });
+ * const file = await response.json();
+ * console.log(file.version); // the restored content is the newest version
+ * ```
+ *
+ * @remarks
+ * - The restored content gets a new, highest version number; the content it replaces
+ *   is kept as an earlier version
+ * - At most `FILE_VERSION_LIMIT` earlier versions are kept
+ * - The restored content counts against the user's storage quota like an upload of
+ *   the same size (see {@link QuotaService})
+ *
+ * @see {@link FileVersionService.restoreVersion} for the underlying implementation
+ *
+ * @status 200 - Version restored
+ * @status 401 - User is not authenticated
+ * @status 403 - File belongs to another user
+ * @status 404 - File or version not found
+ * @status 413 - Storage quota exceeded
+ * @status 500 - Internal server error
+ */
+export async function POST(
+    request: Request,
+    { params }: { params : Promise<{ id: string, versionId: string }> }) {
+        try {
+            const { id, versionId } = await params;
+            const { userId } = await auth();
+            const file = await FileService.authorizeFile(userId, id, "write");
+            const version = await FileVersionService.getVersion(file, versionId);
+
+            const { FILE_VERSION_LIMIT, STORAGE_QUOTA_BYTES } = ConfigSingleton.getInstance().config;
+            const user = await (await clerkClient()).users.getUser(userId as string);
+            await QuotaService.assertWithinQuota(user.id, QuotaService.getQuota(user, STORAGE_QUOTA_BYTES), Number(version.size));
+
+            const restored = await FileVersionService.restoreVersion(file, version, FILE_VERSION_LIMIT);
+            return new Response(JSON.stringify(restored), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error("Error restoring file version: ", error);
+            return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+        }
+}
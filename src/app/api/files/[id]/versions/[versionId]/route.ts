@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { FileService } from "@/services/file-service";
+import { FileVersionService } from "@/services/file-version-service";
+import { AuthorizationError } from "@/services/authorization-service";
+
+/**
+ * @fileoverview API route for downloading an earlier version of a file.
+ *
+ * @module api/files/[id]/versions/[versionId]
+ */
+
+/**
+ * Generates a temporary download URL for an earlier version of a file.
+ *
+ * @async
+ * @function GET
+ *
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the file
+ * @param params.versionId - The unique identifier of the version
+ *
+ * @returns A Response object containing the presigned `url`
+ *
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if the file belongs to another user, or the file or version does not exist
+ * @throws Returns 500 if URL signing fails
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch(`/api/files/${fileId}/versions/${versionId}`);
+ * const { url } = await response.json();
+ * window.open(url, '_blank');
+ * ```
+ *
+ * @see {@link FileVersionService.getVersionUrl} for the underlying implementation
+ *
+ * @status 200 - URL generated
+ * @status 401 - User is not authenticated
+ * @status 403 - File belongs to another user
+ * @status 404 - File or version not found
+ * @status 500 - Internal server error
+ */
+export async function GET(
+    request: Request,
+    { params }: { params : Promise<{ id: string, versionId: string }> }) {
+        try {
+            const { id, versionId } = await params;
+            const { userId } = await auth();
+            const file = await FileService.authorizeFile(userId, id, "read");
+            const version = await FileVersionService.getVersion(file, versionId);
+
+            const { url } = await FileVersionService.getVersionUrl(file, version);
+            return new Response(JSON.stringify({ url }), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error("Error getting file version: ", error);
+            return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+        }
+}
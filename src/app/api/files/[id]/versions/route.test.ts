@@ -0,0 +1,67 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        file: {
+            findUnique: vi.fn(),
+        },
+        fileVersion: {
+            findMany: vi.fn(),
+        },
+    },
+}));
+
+describe("GET /api/files/[id]/versions", () => {
+    const params = Promise.resolve({ id: "file-123" });
+
+    beforeEach(() => {
+        vi.mocked(prisma.file.findUnique).mockResolvedValue({
+            id: "file-123",
+            file_name: "report.pdf",
+            owner_clerk_id: "user-owner",
+        } as never);
+        vi.mocked(prisma.fileVersion.findMany).mockResolvedValue([
+            { id: "version-2", file_id: "file-123", version: 2, size: 20, s3_key: "key-v2" },
+            { id: "version-1", file_id: "file-123", version: 1, size: 10, s3_key: "key-v1" },
+        ] as never);
+    });
+
+    it("lists the earlier versions to the owner, newest first", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+
+        const response = await GET(new Request("http://localhost/api/files/file-123/versions"), { params });
+
+        expect(response.status).toBe(200);
+        expect((await response.json()).map((version: { version: number }) => version.version)).toEqual([2, 1]);
+        expect(prisma.fileVersion.findMany).toHaveBeenCalledWith({
+            where: { file_id: "file-123" },
+            orderBy: { version: "desc" },
+        });
+    });
+
+    it("rejects other users with 403", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+
+        const response = await GET(new Request("http://localhost/api/files/file-123/versions"), { params });
+
+        expect(response.status).toBe(403);
+        expect(prisma.fileVersion.findMany).not.toHaveBeenCalled();
+    });
+});
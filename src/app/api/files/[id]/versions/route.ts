@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { FileService } from "@/services/file-service";
+import { FileVersionService } from "@/services/file-version-service";
+import { AuthorizationError } from "@/services/authorization-service";
+
+/**
+ * @fileoverview API route for a file's version history.
+ *
+ * @module api/files/[id]/versions
+ */
+
+/**
+ * Lists the earlier versions of a file, newest first.
+ *
+ * @async
+ * @function GET
+ *
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the file
+ *
+ * @returns A Response object containing the earlier versions
+ *
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if the file belongs to another user or does not exist
+ * @throws Returns 500 if the database query fails
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch(`/api/files/${fileId}/versions`);
+ * const versions = await response.json();
+ * console.log(versions[0].version); // the version before the current one
+ * ```
+ *
+ * @remarks
+ * - The current version is the file itself (its `version` and `size`) and is not listed
+ * - At most `FILE_VERSION_LIMIT` earlier versions are kept
+ *
+ * @see {@link FileVersionService.listVersions} for the underlying implementation
+ *
+ * @status 200 - Versions returned
+ * @status 401 - User is not authenticated
+ * @status 403 - File belongs to another user
+ * @status 404 - File not found
+ * @status 500 - Internal server error
+ */
+export async function GET(
+    request: Request,
+    { params }: { params : Promise<{ id: string }> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            const file = await FileService.authorizeFile(userId, id, "read");
+
+            const versions = await FileVersionService.listVersions(file);
+            return new Response(JSON.stringify(versions), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error("Error listing file versions: ", error);
+            return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+        }
+}
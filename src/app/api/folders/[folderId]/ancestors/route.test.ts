@@ -0,0 +1,89 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("GET /api/folders/[folderId]/ancestors", () => {
+    const params = Promise.resolve({ folderId: "folder-123" });
+
+    beforeEach(() => {
+        vi.mocked(prisma.folder.findUnique).mockResolvedValue({
+            id: "folder-123",
+            folder_name: "Documents",
+            owner_clerk_id: "user-owner",
+            parent_folder_id: null,
+            files: [],
+            subfolders: [],
+        } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: {} })),
+            },
+        } as never);
+    });
+
+    it("returns the breadcrumb trail to the owner in a single query", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(prisma.$queryRaw).mockResolvedValue([
+            { id: "folder-123", folder_name: "Documents", display_name: null, deleted_at: null },
+            { id: "work-1", folder_name: "Work", display_name: null, deleted_at: null },
+            { id: "root-1", folder_name: "user-owner", display_name: "Jane Doe", deleted_at: null },
+        ] as never);
+
+        const response = await GET(new Request("http://localhost/api/folders/folder-123/ancestors"), { params });
+
+        expect(response.status).toBe(200);
+        expect((await response.json()).ancestors).toEqual([
+            { id: "root-1", name: "Jane Doe" },
+            { id: "work-1", name: "Work" },
+            { id: "folder-123", name: "Documents" },
+        ]);
+        expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops the trail at a trashed ancestor", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(prisma.$queryRaw).mockResolvedValue([
+            { id: "folder-123", folder_name: "Documents", display_name: null, deleted_at: null },
+            { id: "work-1", folder_name: "Work", display_name: null, deleted_at: new Date() },
+            { id: "root-1", folder_name: "user-owner", display_name: "Jane Doe", deleted_at: null },
+        ] as never);
+
+        const response = await GET(new Request("http://localhost/api/folders/folder-123/ancestors"), { params });
+
+        expect((await response.json()).ancestors).toEqual([{ id: "folder-123", name: "Documents" }]);
+    });
+
+    it("rejects another user with 403", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+        const response = await GET(new Request("http://localhost/api/folders/folder-123/ancestors"), { params });
+        expect(response.status).toBe(403);
+    });
+});
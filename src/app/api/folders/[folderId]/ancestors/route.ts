@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth, clerkClient } from '@clerk/nextjs/server';
 import { FolderService } from "@/services/folder-service";
+import { AuthorizationError } from "@/services/authorization-service";
 
 /**
  * @fileoverview API route for retrieving folder breadcrumb/ancestry.
@@ -27,6 +28,7 @@ import { FolderService } from "@/services/folder-service";
  * @returns A NextResponse object containing the ancestor array and success message
  * 
  * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if the folder belongs to another user or does not exist
  * @throws Returns 500 for internal server errors
  * 
  * @example
@@ -70,7 +72,7 @@ import { FolderService } from "@/services/folder-service";
  * ```
  * 
  * @remarks
- * - Requires valid Clerk authentication
+ * - Requires valid Clerk authentication; the folder must belong to the user
  * - Returns ancestors in order from root to current folder
  * - Always includes the root folder as the first element
  * - The last element in the array is the requested folder itself
@@ -82,6 +84,8 @@ import { FolderService } from "@/services/folder-service";
  * 
  * @status 200 - Successfully retrieved ancestors
  * @status 401 - User not authenticated
+ * @status 403 - Folder belongs to another user
+ * @status 404 - Folder not found
  * @status 500 - Internal server error
  */
 export async function GET(
@@ -99,6 +103,8 @@ export async function GET(
             );
         }
         
+        await FolderService.authorizeFolder(userId, folderId, "read");
+
         const client = await clerkClient();
         const user = await client.users.getUser(userId);
 
@@ -111,6 +117,9 @@ export async function GET(
 
 
     } catch (error) {
+        if (error instanceof AuthorizationError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error('Error: ', error);
         return NextResponse.json(
             {message: "Internal Server error"},
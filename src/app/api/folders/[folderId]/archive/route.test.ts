@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { inflateRawSync } from "zlib";
+import { GET } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+import { folderQueries } from "@/test-utils/folder-queries";
+import s3Client from "@/lib/s3-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+/** Lists `name -> content` from the archive's central directory (directories map to null). */
+function readZip(zip: Buffer): Record<string, string | null> {
+    const end = zip.length - 22;
+    const entries: Record<string, string | null> = {};
+    let cursor = zip.readUInt32LE(end + 16);
+    for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+        const compressedSize = zip.readUInt32LE(cursor + 20);
+        const nameLength = zip.readUInt16LE(cursor + 28);
+        const offset = zip.readUInt32LE(cursor + 42);
+        const name = zip.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+        const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+        entries[name] = name.endsWith("/")
+            ? null
+            : inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize)).toString("utf8");
+        cursor += 46 + nameLength;
+    }
+    return entries;
+}
+
+describe("/api/folders/[folderId]/archive", () => {
+    const created_at = new Date("2025-01-01T00:00:00Z");
+    const folders: Record<string, Record<string, unknown>> = {
+        "template-123": { id: "template-123", folder_name: "Template", display_name: "Template", owner_clerk_id: "user-owner", created_at,
+            files: [
+                { id: "brief-1", file_name: "brief.txt", s3_key: "keys/brief-1", created_at },
+                { id: "brief-2", file_name: "brief.txt", s3_key: "keys/brief-2", created_at },
+            ],
+            subfolders: [{ id: "assets-789" }, { id: "empty-000" }] },
+        "assets-789": { id: "assets-789", folder_name: "assets", display_name: "assets", owner_clerk_id: "user-owner", created_at,
+            files: [{ id: "logo-1", file_name: "logo.svg", s3_key: "keys/logo-1", created_at }],
+            subfolders: [] },
+        "empty-000": { id: "empty-000", folder_name: "empty", display_name: "empty", owner_clerk_id: "user-owner", created_at,
+            files: [], subfolders: [] },
+    };
+    const params = Promise.resolve({ folderId: "template-123" });
+    const request = new Request("http://localhost/api/folders/template-123/archive");
+
+    beforeEach(() => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(prisma.folder.findUnique).mockImplementation((({ where }: { where: { id: string } }) =>
+            Promise.resolve(folders[where.id] ?? null)) as never);
+        vi.mocked(prisma.$queryRaw).mockImplementation(folderQueries(folders) as never);
+        vi.mocked(s3Client.send).mockImplementation((async (command: { input: { Key: string } }) => ({
+            Body: { transformToWebStream: () => new Response(`content of ${command.input.Key}`).body },
+        })) as never);
+    });
+
+    it("streams the folder tree as a ZIP archive", async () => {
+        const response = await GET(request, { params });
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get("Content-Type")).toBe("application/zip");
+        expect(response.headers.get("Content-Disposition")).toBe("attachment; filename*=UTF-8''Template.zip");
+        expect(readZip(Buffer.from(await response.arrayBuffer()))).toEqual({
+            "Template/": null,
+            "Template/brief.txt": "content of keys/brief-1",
+            "Template/brief (1).txt": "content of keys/brief-2",
+            "Template/assets/": null,
+            "Template/assets/logo.svg": "content of keys/logo-1",
+            "Template/empty/": null,
+        });
+    });
+
+    it("rejects another user with 403", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+        const response = await GET(request, { params });
+        expect(response.status).toBe(403);
+        expect(s3Client.send).not.toHaveBeenCalled();
+    });
+
+    it("returns 404 for a folder that does not exist", async () => {
+        const response = await GET(request, { params: Promise.resolve({ folderId: "missing" }) });
+        expect(response.status).toBe(404);
+    });
+});
@@ -0,0 +1,81 @@
+import { auth } from "@clerk/nextjs/server";
+import { FolderService } from "@/services/folder-service";
+import { AuthorizationError } from "@/services/authorization-service";
+
+/**
+ * @fileoverview API route for downloading a folder as a ZIP archive.
+ * 
+ * This module provides an HTTP endpoint that streams a folder, with all of its
+ * subfolders and files, as a single ZIP download.
+ * 
+ * @module api/folders/[folderId]/archive
+ */
+
+/**
+ * Streams a ZIP archive of a folder and its entire subtree.
+ * 
+ * @async
+ * @function GET
+ * 
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.folderId - The unique identifier of the folder to download
+ * 
+ * @returns A streamed Response with `Content-Type: application/zip`
+ * 
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 if the folder belongs to another user
+ * @throws Returns 404 if the folder does not exist
+ * @throws Returns 500 if the folder tree cannot be loaded
+ * 
+ * @example
+ * ```typescript
+ * // Let the browser handle the download
+ * window.location.assign('/api/folders/folder-123/archive');
+ * ```
+ * 
+ * @remarks
+ * - Requires authentication; the user must own the folder
+ * - The archive keeps the folder hierarchy under a top-level directory named after the folder
+ * - Files are read from storage one at a time while the response is sent, so the
+ *   archive is never buffered in memory
+ * - Uses {@link FolderService.createArchive} internally
+ * 
+ * @see {@link FolderService.createArchive} for the underlying implementation
+ * @see GET /api/shared/folder/[token]/archive for the share-link equivalent
+ * 
+ * @status 200 - Archive stream started
+ * @status 401 - User not authenticated
+ * @status 403 - Folder belongs to another user
+ * @status 404 - Folder not found
+ * @status 500 - Internal server error
+ */
+export async function GET(
+    request: Request,
+    { params }: { params : Promise<{ folderId: string }> }) {
+        try {
+            const { folderId } = await params;
+            const { userId } = await auth();
+            const folder = await FolderService.authorizeFolder(userId, folderId, "read");
+
+            const { fileName, stream } = await FolderService.createArchive(folder.id);
+            return new Response(stream, {
+                headers: {
+                    "Content-Type": "application/zip",
+                    "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+                },
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
@@ -0,0 +1,153 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+        },
+        file: {
+            findMany: vi.fn(),
+        },
+        $queryRaw: vi.fn(() => Promise.resolve([])),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("GET /api/folders/[folderId]/children", () => {
+    const params = Promise.resolve({ folderId: "folder-123" });
+    const list = (query = "") => GET(new Request(`http://localhost/api/folders/folder-123/children${query}`), { params });
+    const folders = (...ids: string[]) => ids.map((id) => ({ id, folder_name: id }));
+    const files = (...ids: string[]) => ids.map((id) => ({ id, file_name: id }));
+
+    beforeEach(() => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(prisma.folder.findUnique).mockResolvedValue({
+            id: "folder-123",
+            folder_name: "Documents",
+            owner_clerk_id: "user-owner",
+        } as never);
+    });
+
+    it("fills a page with subfolders first, then files, without loading the whole folder", async () => {
+        vi.mocked(prisma.folder.findMany).mockResolvedValue(folders("a", "b") as never);
+        vi.mocked(prisma.file.findMany).mockResolvedValue(files("c") as never);
+        vi.mocked(prisma.$queryRaw).mockResolvedValue([{ id: "a", size: BigInt(5000) }] as never);
+
+        const response = await list("?limit=3&sort=created_at&order=desc");
+
+        expect(response.status).toBe(200);
+        const page = await response.json();
+        expect(page.folders.map((f: { id: string }) => f.id)).toEqual(["a", "b"]);
+        expect(page.files.map((f: { id: string }) => f.id)).toEqual(["c"]);
+        // each subfolder's size covers its subtree; empty folders have no rows
+        expect(page.folders.map((f: { size: number }) => f.size)).toEqual([5000, 0]);
+        expect(page.next_cursor).toBeNull();
+        expect(prisma.folder.findUnique).toHaveBeenCalledWith({ where: { id: "folder-123", deleted_at: null } });
+        expect(prisma.folder.findMany).toHaveBeenCalledWith({
+            where: { parent_folder_id: "folder-123", deleted_at: null },
+            orderBy: [{ created_at: "desc" }, { id: "desc" }],
+            take: 4,
+        });
+        expect(prisma.file.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 2 }));
+    });
+
+    it("continues from the cursor of the previous page", async () => {
+        vi.mocked(prisma.folder.findMany).mockResolvedValue(folders("a", "b", "c") as never);
+        const first = await (await list("?limit=2")).json();
+
+        expect(first.folders).toHaveLength(2);
+        expect(first.next_cursor).toEqual(expect.any(String));
+        expect(prisma.file.findMany).not.toHaveBeenCalled();
+
+        vi.mocked(prisma.folder.findMany).mockResolvedValue(folders("c") as never);
+        vi.mocked(prisma.file.findMany).mockResolvedValue(files("d", "e") as never);
+        const second = await (await list(`?limit=2&cursor=${first.next_cursor}`)).json();
+
+        expect(prisma.folder.findMany).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: { id: "b" }, skip: 1 }));
+        expect(second.folders.map((f: { id: string }) => f.id)).toEqual(["c"]);
+        expect(second.files.map((f: { id: string }) => f.id)).toEqual(["d"]);
+
+        vi.mocked(prisma.file.findMany).mockResolvedValue(files("e") as never);
+        const third = await (await list(`?limit=2&cursor=${second.next_cursor}`)).json();
+
+        expect(prisma.file.findMany).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: { id: "d" }, skip: 1, take: 3 }));
+        expect(third).toMatchObject({ folders: [], next_cursor: null });
+    });
+
+    it("sorts subfolders by the size of their contents and pages through them", async () => {
+        vi.mocked(prisma.folder.findMany).mockResolvedValue(folders("small", "large", "empty") as never);
+        vi.mocked(prisma.$queryRaw).mockResolvedValue([{ id: "small", size: BigInt(10) }, { id: "large", size: BigInt(9000) }] as never);
+
+        const first = await (await list("?limit=2&sort=size&order=desc")).json();
+
+        expect(first.folders.map((f: { id: string }) => f.id)).toEqual(["large", "small"]);
+        expect(prisma.folder.findMany).toHaveBeenCalledWith({ where: { parent_folder_id: "folder-123", deleted_at: null } });
+
+        vi.mocked(prisma.file.findMany).mockResolvedValue(files("c") as never);
+        const second = await (await list(`?limit=2&sort=size&order=desc&cursor=${first.next_cursor}`)).json();
+
+        expect(second.folders.map((f: { id: string, size: number }) => [f.id, f.size])).toEqual([["empty", 0]]);
+        expect(second.files.map((f: { id: string }) => f.id)).toEqual(["c"]);
+        expect(prisma.file.findMany).toHaveBeenCalledWith(expect.objectContaining({ orderBy: [{ size: "desc" }, { id: "desc" }] }));
+    });
+
+        it("sorts files by type and filters them by extension, leaving out subfolders", async () => {
+        vi.mocked(prisma.file.findMany).mockResolvedValue(files("b.pdf", "a.pdf") as never);
+
+        const page = await (await list("?sort=type&order=desc&extension=PDF")).json();
+
+        expect(page).toMatchObject({ folders: [], next_cursor: null });
+        expect(page.files.map((f: { id: string }) => f.id)).toEqual(["b.pdf", "a.pdf"]);
+        expect(prisma.folder.findMany).not.toHaveBeenCalled();
+        expect(prisma.file.findMany).toHaveBeenCalledWith({
+            where: { parent_folder_id: "folder-123", deleted_at: null, pending_until: null, extension: "pdf" },
+            orderBy: [{ extension: "desc" }, { file_name: "desc" }, { id: "desc" }],
+            take: 51,
+        });
+    });
+
+    it("rejects a size cursor for a subfolder that is no longer there with 400", async () => {
+        vi.mocked(prisma.folder.findMany).mockResolvedValue(folders("small", "large") as never);
+        const cursor = Buffer.from(JSON.stringify({ kind: "folder", id: "moved" })).toString("base64url");
+
+        const response = await list(`?limit=2&sort=size&order=desc&cursor=${cursor}`);
+
+        expect(response.status).toBe(400);
+        expect(prisma.file.findMany).not.toHaveBeenCalled();
+    });
+
+    it("rejects invalid paging parameters with 400", async () => {
+        for (const query of ["?limit=0", "?limit=1000", "?sort=owner", "?order=up", "?extension=.pdf", "?cursor=not-a-cursor"]) {
+            const response = await list(query);
+            expect(response.status).toBe(400);
+        }
+        expect(prisma.folder.findMany).not.toHaveBeenCalled();
+    });
+
+    it("rejects another user's folder with 403", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+        expect((await list()).status).toBe(403);
+        expect(prisma.folder.findMany).not.toHaveBeenCalled();
+    });
+});
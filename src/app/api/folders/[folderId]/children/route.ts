@@ -0,0 +1,105 @@
+import { auth } from '@clerk/nextjs/server';
+import { FolderService } from "@/services/folder-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
+import { type ChildrenSort, type SortOrder } from "@/types/types";
+
+/**
+ * @fileoverview API route for listing a folder's children page by page.
+ *
+ * @module api/folders/[folderId]/children
+ */
+
+/**
+ * Lists one page of a folder's subfolders and files.
+ *
+ * Subfolders come first, then files, each sorted as requested. The response carries
+ * a `next_cursor` to pass back for the next page, or null on the last page.
+ *
+ * @async
+ * @function GET
+ *
+ * @param request - The incoming HTTP request object
+ * @param request.query - Optional `cursor`, `limit` (1-200, default 50),
+ * `sort` (`name`, `created_at`, `size` or `type`, default `name`), `order` (`asc` or `desc`, default `asc`)
+ * and `extension` (lower case, without the dot)
+ * @param params - Route parameters
+ * @param params.folderId - The unique identifier of the folder to list
+ *
+ * @returns A Response containing `{ folder, folders, files, next_cursor }`
+ *
+ * @example
+ * ```typescript
+ * // Newest first, 100 at a time
+ * let cursor = null;
+ * do {
+ *   const query = new URLSearchParams({ sort: 'created_at', order: 'desc', limit: '100' });
+ *   if (cursor) query.set('cursor', cursor);
+ *   const response = await fetch(`/api/folders/${folderId}/children?${query}`);
+ *   const { folders, files, next_cursor } = await response.json();
+ *   render(folders, files);
+ *   cursor = next_cursor;
+ * } while (cursor);
+ * ```
+ *
+ * @remarks
+ * - Requires valid Clerk authentication; the folder must belong to the user
+ * - `folder` is the listed folder itself, without its contents
+ * - Trashed children and uploads still in progress are left out
+ * - Sorting by `size` or `type` orders the subfolders by name, as folders have neither;
+ *   `type` orders the files by extension, then name
+ * - With `extension`, only files with that extension are listed, without subfolders
+ * - A cursor is only valid with the `sort`, `order` and `extension` it was issued for
+ *
+ * @see {@link FolderService.getChildren} for the underlying implementation
+ * @see GET /api/folders/[folderId] for the folder with all of its children at once
+ *
+ * @status 200 - Page returned
+ * @status 400 - Invalid limit, sort, order, extension or cursor
+ * @status 401 - User not authenticated
+ * @status 403 - Folder belongs to another user
+ * @status 404 - Folder not found
+ * @status 500 - Internal server error
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ folderId: string }> }) {
+        try {
+            const { folderId } = await params;
+            const { userId } = await auth();
+
+            if (!userId) {
+                return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                    status: 401,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+
+            const folder = await FolderService.authorizeFolder(userId, folderId, "read", { contents: false });
+
+            const { searchParams } = new URL(request.url);
+            const page = await FolderService.getChildren(folder, {
+                cursor: searchParams.get("cursor"),
+                limit: searchParams.has("limit") ? Number(searchParams.get("limit")) : undefined,
+                sort: (searchParams.get("sort") ?? undefined) as ChildrenSort | undefined,
+                order: (searchParams.get("order") ?? undefined) as SortOrder | undefined,
+                extension: searchParams.get("extension")?.toLowerCase() || undefined,
+            });
+
+            return new Response(JSON.stringify(page), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
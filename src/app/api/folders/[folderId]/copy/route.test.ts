@@ -0,0 +1,159 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+import { folderQueries } from "@/test-utils/folder-queries";
+import s3Client from "@/lib/s3-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1", STORAGE_QUOTA_BYTES: 5000 },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+            findFirst: vi.fn(),
+            findMany: vi.fn(),
+            create: vi.fn(),
+            update: vi.fn(),
+        },
+        file: {
+            findMany: vi.fn(),
+            create: vi.fn(),
+            aggregate: vi.fn(),
+        },
+        fileVersion: {
+            aggregate: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+        $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("/api/folders/[folderId]/copy", () => {
+    // root-123 > projects-456
+    //          > template-123 > assets-789 > logo.png
+    //                         > brief.docx
+    const folders: Record<string, Record<string, unknown>> = {
+        "root-123": { id: "root-123", folder_name: "root_user_user-owner", display_name: "My Drive", is_root: true, parent_folder_id: null, owner_clerk_id: "user-owner", files: [], subfolders: [] },
+        "projects-456": { id: "projects-456", folder_name: "Projects", display_name: "Projects", is_root: false, parent_folder_id: "root-123", owner_clerk_id: "user-owner", files: [], subfolders: [] },
+        "template-123": { id: "template-123", folder_name: "Template", display_name: "Template", is_root: false, parent_folder_id: "root-123", owner_clerk_id: "user-owner",
+            files: [{ id: "brief-1", file_name: "brief.docx", size: 10, s3_key: "root_user_user-owner/files/brief-1/brief.docx" }],
+            subfolders: [{ id: "assets-789", folder_name: "assets", display_name: "assets" }] },
+        "assets-789": { id: "assets-789", folder_name: "assets", display_name: "assets", is_root: false, parent_folder_id: "template-123", owner_clerk_id: "user-owner",
+            files: [{ id: "logo-1", file_name: "logo.png", size: 20, s3_key: "root_user_user-owner/files/logo-1/logo.png" }],
+            subfolders: [] },
+    };
+    const params = Promise.resolve({ folderId: "template-123" });
+    const copyRequest = (body?: object, headers: Record<string, string> = {}) =>
+        new Request("http://localhost/api/folders/template-123/copy", {
+            method: "POST",
+            headers,
+            body: body ? JSON.stringify(body) : undefined,
+        });
+
+    beforeEach(() => {
+        vi.mocked(prisma.folder.findUnique).mockImplementation((({ where }: { where: { id: string } }) =>
+            Promise.resolve(folders[where.id] ?? null)) as never);
+        vi.mocked(prisma.$queryRaw).mockImplementation(folderQueries(folders) as never);
+        vi.mocked(prisma.folder.findFirst).mockResolvedValue(folders["root-123"] as never);
+        vi.mocked(prisma.folder.findMany).mockResolvedValue([{ folder_name: "Template" }] as never);
+        vi.mocked(prisma.folder.create).mockImplementation((({ data }: { data: { folder_name: string } }) =>
+            Promise.resolve({ id: `copy-of-${data.folder_name}`, ...data })) as never);
+        vi.mocked(prisma.file.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.file.create).mockImplementation((({ data }: { data: object }) => Promise.resolve(data)) as never);
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: {} })),
+            },
+        } as never);
+        vi.mocked(prisma.file.aggregate).mockResolvedValue({ _sum: { size: BigInt(3000) } } as never);
+        vi.mocked(prisma.fileVersion.aggregate).mockResolvedValue({ _sum: { size: BigInt(0) } } as never);
+    });
+
+    it("deep-copies the folder next to the original with a suffixed name", async () => {
+        const response = await POST(copyRequest(), { params });
+
+        expect(response.status).toBe(200);
+        expect((await response.json()).folder_name).toBe("Template (1)");
+        expect(prisma.folder.create).toHaveBeenCalledWith({ data: expect.objectContaining({ folder_name: "Template (1)", parent_folder_id: "root-123" }) });
+        expect(prisma.folder.create).toHaveBeenCalledWith({ data: expect.objectContaining({ folder_name: "assets", parent_folder_id: "copy-of-Template (1)" }) });
+        expect(prisma.file.create).toHaveBeenCalledWith({ data: expect.objectContaining({ file_name: "brief.docx", parent_folder_id: "copy-of-Template (1)" }) });
+        expect(prisma.file.create).toHaveBeenCalledWith({ data: expect.objectContaining({ file_name: "logo.png", parent_folder_id: "copy-of-assets" }) });
+    });
+
+    it("copies stored objects server-side to new keys", async () => {
+        await POST(copyRequest(), { params });
+
+        const copySources = vi.mocked(s3Client.send).mock.calls
+            .map(([command]) => (command.input as { CopySource?: string }).CopySource)
+            .filter(Boolean);
+        expect(copySources).toEqual([
+            "test-bucket/root_user_user-owner/files/brief-1/brief.docx",
+            "test-bucket/root_user_user-owner/files/logo-1/logo.png",
+        ]);
+    });
+
+    it("copies into the requested destination folder", async () => {
+        vi.mocked(prisma.folder.findMany).mockResolvedValue([]);
+        const response = await POST(copyRequest({ parent_folder_id: "projects-456" }), { params });
+
+        expect(response.status).toBe(200);
+        expect((await response.json()).folder_name).toBe("Template");
+        expect(prisma.folder.create).toHaveBeenCalledWith({ data: expect.objectContaining({ folder_name: "Template", parent_folder_id: "projects-456" }) });
+    });
+
+    it("streams progress as NDJSON when asked to", async () => {
+        const response = await POST(copyRequest({}, { Accept: "application/x-ndjson" }), { params });
+
+        expect(response.headers.get("Content-Type")).toBe("application/x-ndjson");
+        const events = (await response.text()).trim().split("\n").map((line) => JSON.parse(line));
+        expect(events.filter((event) => event.type === "progress").map((event) => event.copied)).toEqual([1, 2, 3, 4]);
+        expect(events[0]).toEqual({ type: "progress", copied: 1, total: 4, current: "Template (1)" });
+        expect(events.at(-1)).toMatchObject({ type: "complete", folder: { folder_name: "Template (1)" } });
+    });
+
+    it("rejects copying a folder into its own subfolder with 400", async () => {
+        const response = await POST(copyRequest({ parent_folder_id: "assets-789" }), { params });
+        expect(response.status).toBe(400);
+        expect(prisma.folder.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects a copy over the storage quota with 413 before copying anything", async () => {
+        vi.mocked(prisma.file.aggregate).mockResolvedValue({ _sum: { size: BigInt(4990) } } as never);
+        const response = await POST(copyRequest(), { params });
+
+        expect(response.status).toBe(413);
+        expect((await response.json()).error).toMatch(/quota exceeded/);
+        expect(prisma.folder.create).not.toHaveBeenCalled();
+        expect(s3Client.send).not.toHaveBeenCalled();
+    });
+
+    it("requires a destination when copying the root folder", async () => {
+        const response = await POST(copyRequest(), { params: Promise.resolve({ folderId: "root-123" }) });
+        expect(response.status).toBe(400);
+    });
+
+    it("rejects another user with 403", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+        const response = await POST(copyRequest(), { params });
+        expect(response.status).toBe(403);
+        expect(prisma.folder.create).not.toHaveBeenCalled();
+    });
+});
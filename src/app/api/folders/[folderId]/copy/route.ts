@@ -0,0 +1,154 @@
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { FolderService } from "@/services/folder-service";
+import { QuotaService } from "@/services/quota-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
+import ConfigSingleton from "@/lib/config";
+import { type CopyFolderEvent } from "@/types/types";
+
+/**
+ * @fileoverview API route for copying folders.
+ * 
+ * This module provides an HTTP endpoint for deep-copying a folder, with all of its
+ * subfolders and files, into another folder.
+ * 
+ * @module api/folders/[folderId]/copy
+ */
+
+/**
+ * Deep-copies a folder into a destination folder.
+ * 
+ * By default the response is the new folder as JSON once the copy finishes. Clients
+ * that send `Accept: application/x-ndjson` instead receive a stream of
+ * newline-delimited {@link CopyFolderEvent} objects: one `progress` line per copied
+ * item, followed by a final `complete` (or `error`) line.
+ * 
+ * @async
+ * @function POST
+ * 
+ * @param request - The incoming HTTP request object
+ * @param request.body - Optional JSON body with the following structure:
+ * ```json
+ * {
+ *   "parent_folder_id": "folder-456"
+ * }
+ * ```
+ * @param params - Route parameters
+ * @param params.folderId - The unique identifier of the folder to copy
+ * 
+ * @returns A Response containing the new folder, or an NDJSON progress stream
+ * 
+ * @throws Returns 400 if no destination is given for the root folder, or the
+ * destination is inside the folder being copied
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if either folder belongs to another user or does not exist
+ * @throws Returns 413 if the copy would exceed the user's storage quota
+ * @throws Returns 500 for internal server errors
+ * 
+ * @example
+ * ```typescript
+ * // Duplicate a folder next to itself
+ * const response = await fetch('/api/folders/template-123/copy', { method: 'POST' });
+ * const copy = await response.json();
+ * console.log(copy.folder_name); // "Template (1)"
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Copy into another folder and follow progress
+ * const response = await fetch('/api/folders/template-123/copy', {
+ *   method: 'POST',
+ *   headers: { 'Accept': 'application/x-ndjson' },
+ *   body: JSON.stringify({ parent_folder_id: 'projects-456' })
+ * });
+ * // Each line: {"type":"progress","copied":3,"total":12,"current":"logo.png"}
+ * ```
+ * 
+ * @remarks
+ * - Requires authentication; the user must own the folder and the destination
+ * - Without `parent_folder_id` the copy is placed next to the original
+ * - Name conflicts at the destination are resolved by adding a numeric suffix
+ * - Stored objects are copied inside the storage backend
+ * - The files copied count against the user's storage quota; a copy that does not fit
+ *   is refused before anything is written (see {@link QuotaService})
+ * - Uses {@link FolderService.copyFolder} internally
+ * 
+ * @see {@link FolderService.copyFolder} for the underlying implementation
+ * 
+ * @status 200 - Folder copied (or progress stream started)
+ * @status 400 - Missing destination or destination inside the source
+ * @status 401 - User not authenticated
+ * @status 403 - Folder or destination belongs to another user
+ * @status 404 - Folder or destination not found
+ * @status 413 - Storage quota exceeded
+ * @status 500 - Internal server error
+ */
+export async function POST(
+    request: Request,
+    { params }: { params : Promise<{ folderId: string }> }) {
+        try {
+            const { folderId } = await params;
+            const { userId } = await auth();
+            const source = await FolderService.authorizeFolder(userId, folderId, "read");
+
+            const body = await request.json().catch(() => ({}));
+            const destinationId = body.parent_folder_id ?? source.parent_folder_id;
+
+            if (!destinationId || typeof destinationId !== "string") {
+                return new Response(JSON.stringify({ error: 'A destination parent_folder_id is required' }), {
+                    status: 400,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+
+            const destination = await FolderService.authorizeFolder(userId, destinationId, "write");
+
+            const user = await (await clerkClient()).users.getUser(userId as string);
+            const quota = QuotaService.getQuota(user, ConfigSingleton.getInstance().config.STORAGE_QUOTA_BYTES);
+            const limits = { availableBytes: await QuotaService.getAvailableBytes(user.id, quota) };
+
+            if (!request.headers.get("accept")?.includes("application/x-ndjson")) {
+                const folder = await FolderService.copyFolder(source, destination, undefined, limits);
+                return new Response(JSON.stringify(folder), {
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+
+            const encoder = new TextEncoder();
+            const stream = new ReadableStream({
+                async start(controller) {
+                    const send = (event: CopyFolderEvent) => {
+                        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+                    };
+                    try {
+                        const folder = await FolderService.copyFolder(source, destination,
+                            (progress) => send({ type: "progress", ...progress }), limits);
+                        send({ type: "complete", folder });
+                    } catch (error) {
+                        console.error("Error: ", error);
+                        send(error instanceof ValidationError
+                            ? { type: "error", error: error.message, status: error.status }
+                            : { type: "error", error: 'Internal server error', status: 500 });
+                    } finally {
+                        controller.close();
+                    }
+                },
+            });
+
+            return new Response(stream, {
+                headers: {"Content-Type": "application/x-ndjson"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
@@ -0,0 +1,287 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "./route";
+import { after } from "next/server";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+import s3Client from "@/lib/s3-client";
+import { createZipStream, type ZipEntry } from "@/lib/zip-stream";
+
+vi.mock("next/server", async (importOriginal) => ({
+    ...await importOriginal<typeof import("next/server")>(),
+    after: vi.fn(),
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: {
+                APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1",
+                ZIP_EXTRACT_MAX_ENTRIES: 10, ZIP_EXTRACT_MAX_BYTES: 1000,
+                FILE_VERSION_LIMIT: 10, STORAGE_QUOTA_BYTES: 1000,
+            },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+            create: vi.fn(),
+            update: vi.fn(),
+        },
+        file: {
+            findUnique: vi.fn(),
+            findFirst: vi.fn(),
+            findMany: vi.fn(),
+            create: vi.fn(),
+            update: vi.fn(),
+            aggregate: vi.fn(() => Promise.resolve({ _sum: { size: null } })),
+        },
+        fileVersion: {
+            aggregate: vi.fn(() => Promise.resolve({ _sum: { size: null } })),
+            create: vi.fn(),
+            findMany: vi.fn(() => Promise.resolve([])),
+            deleteMany: vi.fn(),
+        },
+        blob: {
+            updateMany: vi.fn(() => Promise.resolve({ count: 0 })),
+            findUnique: vi.fn(),
+            upsert: vi.fn(({ create }: { create: object }) => Promise.resolve(create)),
+        },
+        $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("POST /api/folders/[folderId]/files", () => {
+    const params = Promise.resolve({ folderId: "folder-123" });
+    const uploadRequest = (content = "hello") => {
+        const formData = new FormData();
+        formData.append("file", new File([content], "hello.txt", { type: "text/plain" }));
+        return new Request("http://localhost/api/folders/folder-123/files", {
+            method: "POST",
+            body: formData,
+        });
+    };
+
+    beforeEach(() => {
+        vi.mocked(prisma.folder.findUnique).mockResolvedValue({
+            id: "folder-123",
+            owner_clerk_id: "user-owner",
+            files: [],
+            subfolders: [],
+        } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-intruder", publicMetadata: { root_folder: "root-999" } })),
+            },
+        } as never);
+    });
+
+    it("rejects uploading into another user's folder with 403", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+        const response = await POST(uploadRequest(), { params });
+        expect(response.status).toBe(403);
+        expect(s3Client.send).not.toHaveBeenCalled();
+        expect(prisma.file.create).not.toHaveBeenCalled();
+    });
+
+    it("turns a same-named upload into a new version stored under its own key", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: { root_folder: "root-1" } })),
+            },
+        } as never);
+        vi.mocked(prisma.file.create).mockImplementation((({ data }: { data: object }) => Promise.resolve(data)) as never);
+
+        expect((await POST(uploadRequest(), { params })).status).toBe(200);
+        const first = vi.mocked(prisma.file.create).mock.calls[0][0].data;
+        expect(first.s3_key).toBe(`root_user_user-owner/files/${first.id}/hello.txt`);
+
+        vi.mocked(prisma.file.findFirst).mockResolvedValueOnce({ ...first, version: 1, created_at: new Date() } as never);
+        expect((await POST(uploadRequest("hello again"), { params })).status).toBe(200);
+
+        expect(prisma.file.create).toHaveBeenCalledTimes(1);
+        expect(prisma.fileVersion.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ file_id: first.id, version: 1, s3_key: first.s3_key, blob_id: first.blob_id }),
+        });
+        const { data: current } = vi.mocked(prisma.file.update).mock.calls[0][0];
+        expect(current).toMatchObject({ version: 2, size: 11 });
+        expect(current.s3_key).toMatch(/^root_user_user-owner\/files\/.+\/hello\.txt$/);
+        expect(current.s3_key).not.toBe(first.s3_key);
+    });
+
+    it("makes the thumbnail of the uploaded file after responding", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: { root_folder: "root-1" } })),
+            },
+        } as never);
+        vi.mocked(prisma.file.create).mockImplementation((({ data }: { data: object }) => Promise.resolve(data)) as never);
+
+        expect((await POST(uploadRequest(), { params })).status).toBe(200);
+        expect(prisma.file.findUnique).not.toHaveBeenCalled();
+
+        const created = vi.mocked(prisma.file.create).mock.calls[0][0].data;
+        await (vi.mocked(after).mock.calls[0][0] as () => Promise<unknown>)();
+        expect(prisma.file.findUnique).toHaveBeenCalledWith({ where: { id: created.id } });
+    });
+
+    it("stores content that is already stored only once", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: { root_folder: "root-1" } })),
+            },
+        } as never);
+        vi.mocked(prisma.file.create).mockImplementation((({ data }: { data: object }) => Promise.resolve(data)) as never);
+        vi.mocked(prisma.blob.updateMany).mockResolvedValueOnce({ count: 1 } as never);
+        vi.mocked(prisma.blob.findUnique).mockResolvedValueOnce({ id: "hash", size: 5, s3_key: "stored-key", ref_count: 2 } as never);
+
+        expect((await POST(uploadRequest(), { params })).status).toBe(200);
+
+        const sent = vi.mocked(s3Client.send).mock.calls.map(([command]) => command.constructor.name);
+        expect(sent).not.toContain("PutObjectCommand");
+        expect(prisma.file.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ s3_key: "stored-key", blob_id: "hash" }),
+        });
+    });
+
+    it("rejects an upload over the storage quota with 413", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: { root_folder: "root-1" } })),
+            },
+        } as never);
+        vi.mocked(prisma.file.aggregate).mockResolvedValueOnce({ _sum: { size: BigInt(998) } } as never);
+
+        const response = await POST(uploadRequest(), { params });
+
+        expect(response.status).toBe(413);
+        expect((await response.json()).error).toMatch(/quota exceeded/);
+        expect(s3Client.send).not.toHaveBeenCalled();
+        expect(prisma.file.create).not.toHaveBeenCalled();
+    });
+
+    it("returns 401 when not signed in", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: null } as never);
+        const response = await POST(uploadRequest(), { params });
+        expect(response.status).toBe(401);
+    });
+
+    describe("with extract=true", () => {
+        const text = (content: string) => async () => new Response(content).body!;
+        const extractRequest = async (entries: ZipEntry[], fileName = "archive.zip") => {
+            const zip = await new Response(createZipStream(entries)).arrayBuffer();
+            const formData = new FormData();
+            formData.append("file", new File([zip], fileName, { type: "application/zip" }));
+            formData.append("extract", "true");
+            return new Request("http://localhost/api/folders/folder-123/files", {
+                method: "POST",
+                body: formData,
+            });
+        };
+
+        beforeEach(() => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            vi.mocked(clerkClient).mockResolvedValue({
+                users: {
+                    getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: { root_folder: "root-1" } })),
+                },
+            } as never);
+            vi.mocked(prisma.folder.findMany).mockResolvedValue([{ folder_name: "Photos" }] as never);
+            vi.mocked(prisma.file.findMany).mockResolvedValue([{ file_name: "readme.md" }] as never);
+            vi.mocked(prisma.folder.create).mockImplementation((({ data }: { data: { folder_name: string } }) =>
+                Promise.resolve({ id: `folder-${data.folder_name}`, ...data })) as never);
+            vi.mocked(prisma.file.create).mockImplementation((({ data }: { data: object }) => Promise.resolve(data)) as never);
+        });
+
+        it("expands the archive into folders and files, suffixing clashing names", async () => {
+            const response = await POST(await extractRequest([
+                { name: "readme.md", data: text("# hi") },
+                { name: "Photos/" },
+                { name: "Photos/2024/beach.jpg", data: text("jpg") },
+                { name: "photos/2024/beach.jpg", data: text("jpg again") },
+                { name: "__MACOSX/Photos/._beach.jpg", data: text("junk") },
+            ]), { params });
+
+            expect(response.status).toBe(200);
+            expect(await response.json()).toMatchObject({ folders: 2, files: 3 });
+
+            const folders = vi.mocked(prisma.folder.create).mock.calls.map(([args]) => args.data);
+            expect(folders.map((folder) => [folder.folder_name, folder.parent_folder_id])).toEqual([
+                ["Photos (1)", "folder-123"],
+                ["2024", "folder-Photos (1)"],
+            ]);
+
+            const files = vi.mocked(prisma.file.create).mock.calls.map(([args]) => args.data);
+            expect(files.map((file) => [file.file_name, file.parent_folder_id, file.size])).toEqual([
+                ["readme (1).md", "folder-123", 4],
+                ["beach.jpg", "folder-2024", 3],
+                ["beach (1).jpg", "folder-2024", 9],
+            ]);
+        });
+
+        it("rejects paths that escape the destination folder", async () => {
+            for (const name of ["../evil.txt", "docs/../../evil.txt", "/etc/evil.txt", "C:\\evil.txt"]) {
+                const response = await POST(await extractRequest([{ name, data: text("x") }]), { params });
+                expect(response.status).toBe(400);
+                expect((await response.json()).error).toContain("unsafe path");
+            }
+            expect(prisma.file.create).not.toHaveBeenCalled();
+        });
+
+        it("rejects archives that expand beyond the byte limit with 413", async () => {
+            const response = await POST(await extractRequest([
+                { name: "bomb.txt", data: text("0".repeat(5000)) },
+            ]), { params });
+            expect(response.status).toBe(413);
+            expect(s3Client.send).not.toHaveBeenCalled();
+        });
+
+        it("rejects archives that expand beyond the storage quota with 413", async () => {
+            vi.mocked(prisma.file.aggregate).mockResolvedValueOnce({ _sum: { size: BigInt(900) } } as never);
+            const response = await POST(await extractRequest([
+                { name: "big.txt", data: text("0".repeat(200)) },
+            ]), { params });
+
+            expect(response.status).toBe(413);
+            expect((await response.json()).error).toMatch(/quota exceeded/);
+            expect(prisma.file.create).not.toHaveBeenCalled();
+        });
+
+        it("rejects archives with too many entries with 413", async () => {
+            const entries = Array.from({ length: 11 }, (_, i) => ({ name: `file-${i}.txt`, data: text("x") }));
+            const response = await POST(await extractRequest(entries), { params });
+            expect(response.status).toBe(413);
+            expect(prisma.file.create).not.toHaveBeenCalled();
+        });
+
+        it("rejects files that are not ZIP archives", async () => {
+            expect((await POST(await extractRequest([], "notes.txt"), { params })).status).toBe(400);
+
+            const formData = new FormData();
+            formData.append("file", new File(["not a zip"], "fake.zip"));
+            formData.append("extract", "true");
+            const response = await POST(new Request("http://localhost/api/folders/folder-123/files", {
+                method: "POST",
+                body: formData,
+            }), { params });
+            expect(response.status).toBe(400);
+        });
+    });
+});
@@ -1,5 +1,11 @@
+import { after } from "next/server";
 import { auth, clerkClient } from '@clerk/nextjs/server';
 import { FolderService } from "@/services/folder-service";
+import { ThumbnailService } from "@/services/thumbnail-service";
+import { QuotaService } from "@/services/quota-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
+import ConfigSingleton from "@/lib/config";
 
 /**
  * @fileoverview API route for uploading files to folders.
@@ -25,14 +31,21 @@ import { FolderService } from "@/services/folder-service";
  * ```typescript
  * // FormData structure:
  * formData.append('file', fileObject);
+ * formData.append('extract', 'true'); // optional, .zip files only
  * ```
  * @param params - Route parameters
  * @param params.folderId - The unique identifier of the target folder
  * 
- * @returns A Response object containing a success message
+ * @returns A Response object containing a success message, plus the number of
+ * `folders` and `files` created when an archive was extracted
  * 
+ * @throws Returns 400 if `extract` is set for a file that is not a readable ZIP
+ * archive, or the archive contains unsafe paths
  * @throws Returns 401 if the user is not authenticated
- * @throws Returns 500 if root/current folder not found or upload fails
+ * @throws Returns 403 or 404 if the folder belongs to another user or does not exist
+ * @throws Returns 413 if the archive exceeds `ZIP_EXTRACT_MAX_ENTRIES` or `ZIP_EXTRACT_MAX_BYTES`,
+ * or the upload (the archive's expanded size, when extracting) exceeds the user's storage quota
+ * @throws Returns 500 if the root folder is not found or upload fails
  * 
  * @example
  * ```typescript
@@ -51,6 +64,20 @@ import { FolderService } from "@/services/folder-service";
  * 
  * @example
  * ```typescript
+ * // Upload an archive and expand it into folders
+ * const formData = new FormData();
+ * formData.append('file', zipFile);
+ * formData.append('extract', 'true');
+ * 
+ * const response = await fetch('/api/folders/folder-123/files', {
+ *   method: 'POST',
+ *   body: formData
+ * });
+ * const { folders, files } = await response.json();
+ * ```
+ * 
+ * @example
+ * ```typescript
  * // Complete upload handler with progress
  * async function uploadFile(folderId: string, file: File) {
  *   const formData = new FormData();
@@ -92,20 +119,32 @@ import { FolderService } from "@/services/folder-service";
  * ```
  * 
  * @remarks
- * - Requires valid Clerk authentication
+ * - Requires valid Clerk authentication; the target folder must belong to the user
  * - Accepts multipart/form-data with a 'file' field
  * - File is stored in S3 with a structured key path
  * - Creates database record with file metadata
+ * - A file whose name already exists in the folder becomes that file's new version,
+ *   keeping at most `FILE_VERSION_LIMIT` earlier versions
  * - Uses {@link FolderService.uploadFileToFolder} internally
+ * - With `extract=true`, a `.zip` upload is unpacked into folders and files by
+ *   {@link FolderService.extractArchiveToFolder} instead of being stored as-is
  * - The file buffer is read into memory before upload
+ * - Uploads that would take the user past their storage quota are rejected
+ *   (see {@link QuotaService})
+ * - Images and PDFs get a thumbnail once the response is sent
+ *   ({@link ThumbnailService.generateThumbnail})
  * 
  * @see {@link FolderService.uploadFileToFolder} for the underlying implementation
  * @see {@link FolderService.getFolder} for folder retrieval
  * @see DELETE /api/files/[id] for deleting uploaded files
  * 
  * @status 200 - Successfully uploaded file
+ * @status 400 - Archive could not be extracted
  * @status 401 - User not authenticated
- * @status 500 - Folder not found or upload error
+ * @status 403 - Folder belongs to another user
+ * @status 404 - Folder not found
+ * @status 413 - Archive exceeds the extraction limits, or storage quota exceeded
+ * @status 500 - Upload error
  */
 export async function POST(
     request: Request,
@@ -124,14 +163,39 @@ export async function POST(
             const client = await clerkClient();
             const user = await client.users.getUser(userId);
 
-            const curr_folder = await FolderService.getFolder(folderId);
+            const curr_folder = await FolderService.authorizeFolder(userId, folderId, "write");
             const root_folder = await FolderService.getFolder(user.publicMetadata.root_folder as string);
 
             const formData = await request.formData();
             const file = formData.get("file") as File;
             const buffer = Buffer.from(await file.arrayBuffer());
 
-            const res = await FolderService.uploadFileToFolder(root_folder, curr_folder, file, buffer, user);
+            const config = ConfigSingleton.getInstance().config;
+            const quota = QuotaService.getQuota(user, config.STORAGE_QUOTA_BYTES);
+
+            if (formData.get("extract") === "true") {
+                if (!file.name.toLowerCase().endsWith(".zip")) {
+                    return new Response(JSON.stringify({ error: 'Only .zip files can be extracted' }), {
+                        status: 400,
+                        headers: {"Content-Type": "application/json"},
+                    });
+                }
+
+                const created = await FolderService.extractArchiveToFolder(root_folder, curr_folder, buffer, user, {
+                    maxEntries: config.ZIP_EXTRACT_MAX_ENTRIES,
+                    maxBytes: config.ZIP_EXTRACT_MAX_BYTES,
+                    availableBytes: await QuotaService.getAvailableBytes(userId, quota),
+                });
+                return new Response(JSON.stringify({ message: "Archive extracted!", ...created }), {
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+
+            await QuotaService.assertWithinQuota(userId, quota, file.size);
+            const uploaded = await FolderService.uploadFileToFolder(root_folder, curr_folder, file, buffer, user, config.FILE_VERSION_LIMIT);
+            if (uploaded) {
+                after(() => ThumbnailService.generateThumbnail(uploaded.id));
+            }
 
             const message = {
                 message: "Worked as expected!"
@@ -141,6 +205,12 @@ export async function POST(
                 headers: {"Content-Type": "application/json"},
             });
         } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
             console.error("Error: ", error);
             return new Response(JSON.stringify({ error: 'Internal server error '}), {
                 status: 500,
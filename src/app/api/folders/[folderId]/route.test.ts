@@ -0,0 +1,220 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, DELETE, POST, PATCH } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+import { folderQueries } from "@/test-utils/folder-queries";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+            findFirst: vi.fn(),
+            create: vi.fn(),
+            update: vi.fn(),
+            delete: vi.fn(),
+        },
+        file: {
+            findUnique: vi.fn(),
+            delete: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("/api/folders/[folderId]", () => {
+    const ownedFolder = {
+        id: "folder-123",
+        folder_name: "Documents",
+        owner_clerk_id: "user-owner",
+        parent_folder_id: "root-123",
+        s3_key: "root_user_user-owner/Documents/.folder-info.txt",
+        files: [],
+        subfolders: [],
+    };
+    const params = Promise.resolve({ folderId: "folder-123" });
+
+    beforeEach(() => {
+        vi.mocked(prisma.folder.findUnique).mockResolvedValue(ownedFolder as never);
+    });
+
+    describe("GET", () => {
+        it("returns the folder to its owner", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            const response = await GET(new Request("http://localhost/api/folders/folder-123"), { params });
+            expect(response.status).toBe(200);
+            expect((await response.json()).id).toBe("folder-123");
+        });
+
+        it("rejects another user with 403", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+            const response = await GET(new Request("http://localhost/api/folders/folder-123"), { params });
+            expect(response.status).toBe(403);
+        });
+
+        it("rejects another user asking for the recursive tree with 403", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+            const response = await GET(new Request("http://localhost/api/folders/folder-123?recursive=all"), { params });
+            expect(response.status).toBe(403);
+        });
+
+        it("returns 404 for a folder that does not exist", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue(null);
+            const response = await GET(new Request("http://localhost/api/folders/folder-123"), { params });
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe("DELETE", () => {
+        it("rejects another user with 403 without deleting anything", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+            const response = await DELETE(new Request("http://localhost/api/folders/folder-123", { method: "DELETE" }), { params });
+            expect(response.status).toBe(403);
+            expect(prisma.folder.delete).not.toHaveBeenCalled();
+        });
+
+        it("moves the folder to the trash for its owner", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            const response = await DELETE(new Request("http://localhost/api/folders/folder-123", { method: "DELETE" }), { params });
+            expect(response.status).toBe(200);
+            expect(prisma.folder.update).toHaveBeenCalledWith({
+                where: { id: "folder-123" },
+                data: { deleted_at: expect.any(Date) },
+            });
+            expect(prisma.folder.delete).not.toHaveBeenCalled();
+        });
+
+        it("refuses to trash the root folder", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue({ ...ownedFolder, is_root: true } as never);
+            const response = await DELETE(new Request("http://localhost/api/folders/folder-123", { method: "DELETE" }), { params });
+            expect(response.status).toBe(400);
+            expect(prisma.folder.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("POST", () => {
+        it("rejects creating a subfolder inside another user's folder with 403", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+            vi.mocked(clerkClient).mockResolvedValue({
+                users: {
+                    getUser: vi.fn(() => Promise.resolve({ id: "user-intruder", publicMetadata: { root_folder: "root-999" } })),
+                },
+            } as never);
+            const response = await POST(new Request("http://localhost/api/folders/folder-123", {
+                method: "POST",
+                body: JSON.stringify({ folder_name: "Sneaky" }),
+            }), { params });
+            expect(response.status).toBe(403);
+            expect(prisma.folder.create).not.toHaveBeenCalled();
+        });
+
+        it("returns the created subfolder", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            vi.mocked(clerkClient).mockResolvedValue({
+                users: {
+                    getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: { root_folder: "root-123" } })),
+                },
+            } as never);
+            vi.mocked(prisma.folder.create).mockResolvedValue({ id: "folder-456", folder_name: "Reports", parent_folder_id: "folder-123" } as never);
+            const response = await POST(new Request("http://localhost/api/folders/folder-123", {
+                method: "POST",
+                body: JSON.stringify({ folder_name: "Reports" }),
+            }), { params });
+            expect(response.status).toBe(200);
+            expect(await response.json()).toMatchObject({ id: "folder-456", folder_name: "Reports" });
+        });
+    });
+
+    describe("PATCH", () => {
+        const patch = (body: object) => PATCH(new Request("http://localhost/api/folders/folder-123", {
+            method: "PATCH",
+            body: JSON.stringify(body),
+        }), { params });
+
+        beforeEach(() => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            vi.mocked(prisma.folder.update).mockImplementation((({ data }: { data: object }) =>
+                Promise.resolve({ ...ownedFolder, ...data })) as never);
+        });
+
+        it("renames a folder", async () => {
+            const response = await patch({ name: "Reports" });
+            expect(response.status).toBe(200);
+            expect(prisma.folder.update).toHaveBeenCalledWith({
+                where: { id: "folder-123" },
+                data: { folder_name: "Reports", display_name: "Reports", parent_folder_id: "root-123" },
+            });
+        });
+
+        it("only changes the display name of the root folder", async () => {
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue({ ...ownedFolder, is_root: true } as never);
+            const response = await patch({ name: "My Drive" });
+            expect(response.status).toBe(200);
+            expect(prisma.folder.update).toHaveBeenCalledWith({
+                where: { id: "folder-123" },
+                data: { display_name: "My Drive" },
+            });
+        });
+
+        it("refuses to move the root folder", async () => {
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue({ ...ownedFolder, is_root: true } as never);
+            const response = await patch({ parent_folder_id: "folder-123" });
+            expect(response.status).toBe(400);
+            expect(prisma.folder.update).not.toHaveBeenCalled();
+        });
+
+        it("refuses to move a folder into one of its descendants", async () => {
+            const grandchild = { ...ownedFolder, id: "grandchild-1", parent_folder_id: "child-1" };
+            const child = { ...ownedFolder, id: "child-1", parent_folder_id: "folder-123" };
+            const folders: Record<string, Record<string, unknown>> = { "folder-123": ownedFolder, "child-1": child, "grandchild-1": grandchild };
+            vi.mocked(prisma.folder.findUnique).mockImplementation((({ where }: { where: { id: string } }) =>
+                Promise.resolve(folders[where.id] ?? null)) as never);
+            vi.mocked(prisma.$queryRaw).mockImplementation(folderQueries(folders) as never);
+
+            const response = await patch({ parent_folder_id: "grandchild-1" });
+            expect(response.status).toBe(400);
+            expect(prisma.folder.update).not.toHaveBeenCalled();
+        });
+
+        it("moves a folder under another folder", async () => {
+            const target = { ...ownedFolder, id: "folder-456", parent_folder_id: "root-123" };
+            const folders: Record<string, Record<string, unknown>> = { "folder-123": ownedFolder, "folder-456": target, "root-123": { ...ownedFolder, id: "root-123", parent_folder_id: null } };
+            vi.mocked(prisma.folder.findUnique).mockImplementation((({ where }: { where: { id: string } }) =>
+                Promise.resolve(folders[where.id] ?? null)) as never);
+            vi.mocked(prisma.$queryRaw).mockImplementation(folderQueries(folders) as never);
+
+            const response = await patch({ parent_folder_id: "folder-456" });
+            expect(response.status).toBe(200);
+            expect(prisma.folder.update).toHaveBeenCalledWith({
+                where: { id: "folder-123" },
+                data: { folder_name: "Documents", display_name: "Documents", parent_folder_id: "folder-456" },
+            });
+        });
+
+        it("returns 409 when a sibling already uses the name", async () => {
+            vi.mocked(prisma.folder.findFirst).mockResolvedValue({ id: "folder-999", folder_name: "reports" } as never);
+            const response = await patch({ name: "Reports" });
+            expect(response.status).toBe(409);
+            expect(prisma.folder.update).not.toHaveBeenCalled();
+        });
+    });
+});
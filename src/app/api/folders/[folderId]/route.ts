@@ -1,11 +1,14 @@
 import { auth, clerkClient } from '@clerk/nextjs/server';
 import { FolderService } from "@/services/folder-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { TrashService } from "@/services/trash-service";
+import { ValidationError } from "@/lib/errors";
 
 /**
  * @fileoverview API routes for individual folder operations.
  * 
  * This module provides HTTP endpoints for retrieving, creating subfolders within,
- * and deleting specific folders by their ID.
+ * renaming/moving and deleting specific folders by their ID.
  * 
  * @module api/folders/[folderId]
  */
@@ -26,6 +29,8 @@ import { FolderService } from "@/services/folder-service";
  * 
  * @returns A Response object containing the folder data as JSON
  * 
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if the folder belongs to another user or does not exist
  * @throws Returns 500 for internal server errors
  * 
  * @example
@@ -47,7 +52,7 @@ import { FolderService } from "@/services/folder-service";
  * ```
  * 
  * @remarks
- * - Does not require authentication
+ * - Requires authentication; only the folder's owner may read it
  * - Without `recursive=all`: Returns folder with immediate children only
  * - With `recursive=all`: Returns complete nested folder/file hierarchy
  * - Uses {@link FolderService.getFolder} or {@link FolderService.getFolderRecursively}
@@ -58,6 +63,9 @@ import { FolderService } from "@/services/folder-service";
  * @see {@link POST} for creating subfolders
  * 
  * @status 200 - Successfully retrieved folder
+ * @status 401 - User not authenticated
+ * @status 403 - Folder belongs to another user
+ * @status 404 - Folder not found
  * @status 500 - Internal server error
  */
 export async function GET(
@@ -65,7 +73,8 @@ export async function GET(
     { params }: { params : Promise<{ folderId: string }> }) {
         try {
             const { folderId } = await params;
-            const folder = await FolderService.getFolder(folderId);
+            const { userId } = await auth();
+            const folder = await FolderService.authorizeFolder(userId, folderId, "read");
             const url = new URL(request.url);
             const recursive = url.searchParams.get('recursive');
 
@@ -81,6 +90,12 @@ export async function GET(
            });
 
         } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
             console.error("Error: ", error);
             return new Response(JSON.stringify({ error: 'Internal server error' }), {
                 status: 500,
@@ -90,10 +105,10 @@ export async function GET(
 }
 
 /**
- * Recursively deletes a folder and all its contents from both S3 and the database.
+ * Moves a folder and everything inside it to the trash.
  * 
- * This endpoint performs a complete recursive deletion of a folder, including all
- * subfolders and files. The operation removes data from both S3 storage and the database.
+ * The folder disappears from its parent but nothing is removed from storage or the
+ * database, so it can be restored from `/api/trash` until it is purged.
  * 
  * @async
  * @function DELETE
@@ -104,11 +119,12 @@ export async function GET(
  * 
  * @returns A Response object containing a success message
  * 
+ * @throws Returns 400 if the folder is the user's root folder
  * @throws Returns 500 for internal server errors
  * 
  * @example
  * ```typescript
- * // Delete a folder and all its contents
+ * // Move a folder and all its contents to the trash
  * const response = await fetch('/api/folders/folder-789', {
  *   method: 'DELETE'
  * });
@@ -127,7 +143,7 @@ export async function GET(
  *     });
  *     
  *     if (response.ok) {
- *       console.log('Folder and all contents deleted successfully');
+ *       console.log('Folder moved to trash');
  *     }
  *   } catch (error) {
  *     console.error('Failed to delete folder:', error);
@@ -136,16 +152,19 @@ export async function GET(
  * ```
  * 
  * @remarks
- * - **IRREVERSIBLE OPERATION** - deletes all subfolders and files recursively
- * - Does not require authentication (consider adding in production)
- * - Removes data from both S3 and database
- * - Uses {@link FolderService.deleteFolderRecursively} internally
- * - Be cautious when using this endpoint
+ * - Subfolders and files travel with the folder and come back when it is restored
+ * - Requires authentication; only the folder's owner may delete it
+ * - The root folder cannot be trashed
+ * - Uses {@link TrashService.trashFolder} internally
  * 
- * @see {@link FolderService.deleteFolderRecursively} for the underlying implementation
+ * @see {@link TrashService.trashFolder} for the underlying implementation
  * @see {@link GET} for retrieving folder data
  * 
- * @status 200 - Successfully deleted folder
+ * @status 200 - Folder moved to the trash
+ * @status 400 - Folder is the root folder
+ * @status 401 - User not authenticated
+ * @status 403 - Folder belongs to another user
+ * @status 404 - Folder not found
  * @status 500 - Internal server error
  */
 export async function DELETE(
@@ -153,14 +172,25 @@ export async function DELETE(
     { params }: { params : Promise<{ folderId: string }> }) {
         try {
             const { folderId } = await params;
-            await FolderService.deleteFolderRecursively(folderId);
-            const message = {
-                message : "ENDPOINT DELETE /api/folders/:folderId not implemented yet :(",
-            };
+            const { userId } = await auth();
+            const folder = await FolderService.authorizeFolder(userId, folderId, "write");
+            if (folder.is_root) {
+                return new Response(JSON.stringify({ error: 'The root folder cannot be deleted' }), {
+                    status: 400,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            const message = await TrashService.trashFolder(folderId);
             return new Response(JSON.stringify(message), {
                 headers: {"Content-Type": "application/json"},
             });
         } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
             console.error("Error: ", error);
             return new Response(JSON.stringify({ error: 'Internal server error '}), {
                 status: 500,
@@ -188,10 +218,11 @@ export async function DELETE(
  * @param params - Route parameters
  * @param params.folderId - The unique identifier of the parent folder
  * 
- * @returns A Response object containing a success message
+ * @returns A Response object containing the created folder
  * 
  * @throws Returns 401 if the user is not authenticated
- * @throws Returns 500 if parent/root folder not found or creation fails
+ * @throws Returns 403 or 404 if the parent folder belongs to another user or does not exist
+ * @throws Returns 500 if the root folder is not found or creation fails
  * 
  * @example
  * ```typescript
@@ -202,8 +233,8 @@ export async function DELETE(
  *   body: JSON.stringify({ folder_name: 'Reports' })
  * });
  * 
- * const result = await response.json();
- * console.log(result.message);
+ * const folder = await response.json();
+ * console.log(folder.id);
  * ```
  * 
  * @example
@@ -232,6 +263,7 @@ export async function DELETE(
  * - Folder names must be unique within the same parent folder
  * - Creates a placeholder `.folderinfo` file in S3
  * - Both parent folder and root folder must exist
+ * - The parent folder must belong to the authenticated user
  * - Uses {@link FolderService.createSubfolder} internally
  * 
  * @see {@link FolderService.createSubfolder} for the underlying implementation
@@ -240,7 +272,9 @@ export async function DELETE(
  * 
  * @status 200 - Successfully created subfolder
  * @status 401 - User not authenticated
- * @status 500 - Parent/root folder not found or internal error
+ * @status 403 - Parent folder belongs to another user
+ * @status 404 - Parent folder not found
+ * @status 500 - Root folder not found or internal error
  */
 export async function POST(
     request: Request,
@@ -263,7 +297,7 @@ export async function POST(
             const { folder_name } = body;
 
             // now let's get the folders
-            const parent_folder = await FolderService.getFolder(folderId);
+            const parent_folder = await FolderService.authorizeFolder(userId, folderId, "write");
             const root_folder = await FolderService.getFolder(user.publicMetadata.root_folder as string);
 
             if (!parent_folder || !root_folder) {
@@ -276,19 +310,116 @@ export async function POST(
             }
 
             // now let's create this new folder
-            await FolderService.createSubfolder(parent_folder, folder_name, root_folder, userId);
+            const folder = await FolderService.createSubfolder(parent_folder, folder_name, root_folder, userId);
 
-            const message = {
-                message : "ENDPOINT POST /api/folders not implemented yet :(",
-            };
-            return new Response(JSON.stringify(message), {
+            return new Response(JSON.stringify(folder), {
                 headers: {"Content-Type": "application/json"},
             });
         } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
             console.error("Error: ", error);
             return new Response(JSON.stringify({ error: 'Internal server error '}), {
                 status: 500,
                 headers: {"Content-Type": "application/json"},
             });
         }
-}
\ No newline at end of file
+}
+
+/**
+ * Renames a folder and/or moves it under another parent folder.
+ * 
+ * @async
+ * @function PATCH
+ * 
+ * @param request - The incoming HTTP request object
+ * @param request.body - JSON body with at least one of the following fields:
+ * ```json
+ * {
+ *   "name": "New Folder Name",
+ *   "parent_folder_id": "folder-456"
+ * }
+ * ```
+ * @param params - Route parameters
+ * @param params.folderId - The unique identifier of the folder to update
+ * 
+ * @returns A Response object containing the updated folder
+ * 
+ * @throws Returns 400 if the body is invalid, or the move would put the folder inside itself
+ * @throws Returns 401 if the user is not authenticated
+ * @throws Returns 403 or 404 if either folder belongs to another user or does not exist
+ * @throws Returns 409 if the destination already contains a folder with that name
+ * @throws Returns 500 for internal server errors
+ * 
+ * @example
+ * ```typescript
+ * // Rename a folder and move it in one request
+ * const response = await fetch('/api/folders/folder-123', {
+ *   method: 'PATCH',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ name: 'Archive', parent_folder_id: 'folder-456' })
+ * });
+ * const folder = await response.json();
+ * ```
+ * 
+ * @remarks
+ * - Requires authentication; the user must own both the folder and the destination
+ * - Renaming the root folder changes its display name only; it cannot be moved
+ * - Uses {@link FolderService.updateFolder} internally
+ * 
+ * @see {@link FolderService.updateFolder} for the underlying implementation
+ * 
+ * @status 200 - Folder updated
+ * @status 400 - Invalid body, root folder move, or move into own subtree
+ * @status 401 - User not authenticated
+ * @status 403 - Folder or destination belongs to another user
+ * @status 404 - Folder or destination not found
+ * @status 409 - Name already taken in the destination
+ * @status 500 - Internal server error
+ */
+export async function PATCH(
+    request: Request,
+    { params }: { params : Promise<{ folderId: string }> }) {
+        try {
+            const { folderId } = await params;
+            const { userId } = await auth();
+            const folder = await FolderService.authorizeFolder(userId, folderId, "write");
+
+            const body = await request.json().catch(() => ({}));
+            const { name, parent_folder_id } = body;
+
+            if ((name === undefined && parent_folder_id === undefined) ||
+                (name !== undefined && typeof name !== "string") ||
+                (parent_folder_id !== undefined && typeof parent_folder_id !== "string")) {
+                return new Response(JSON.stringify({ error: 'Provide a name and/or parent_folder_id' }), {
+                    status: 400,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+
+            if (parent_folder_id !== undefined) {
+                await FolderService.authorizeFolder(userId, parent_folder_id, "write");
+            }
+
+            const updated = await FolderService.updateFolder(folder, { name, parentFolderId: parent_folder_id });
+            return new Response(JSON.stringify(updated), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
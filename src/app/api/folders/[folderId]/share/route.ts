@@ -1,11 +1,16 @@
 import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
 import { FolderService } from "@/services/folder-service";
+import { ShareService } from "@/services/share-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
 
 /**
  * @fileoverview API route for sharing folders.
  * 
  * This module provides an HTTP endpoint for generating shareable links to folders
  * with custom expiration times. The share link provides access to the folder and all its contents.
+ * A folder can have any number of links; each new one leaves the others working.
  * 
  * @module api/folders/[folderId]/share
  */
@@ -13,9 +18,9 @@ import { FolderService } from "@/services/folder-service";
 /**
  * Creates a shareable link for a folder with a custom expiration time.
  * 
- * This endpoint generates a unique share token that allows temporary access to a folder
- * and all its contents (files and subfolders). The share link includes the application's
- * origin URL for easy sharing.
+ * This endpoint creates a share link with a unique token that allows temporary access to
+ * a folder and all its contents (files and subfolders). The share link includes the
+ * application's origin URL for easy sharing.
  * 
  * @async
  * @function POST
@@ -24,17 +29,25 @@ import { FolderService } from "@/services/folder-service";
  * @param request.body - JSON body with the following structure:
  * ```json
  * {
- *   "hours": 24
+ *   "hours": 24,
+ *   "label": "Accountant",
+ *   "permission": "view",
+ *   "password": "correct horse",
+ *   "max_downloads": 1
  * }
  * ```
+ * `label` (who the link is for), `permission` (`"view"` or `"download"`, the
+ * default), `password` (6 to 128 characters, asked of visitors) and `max_downloads`
+ * (downloads after which the link stops working, 1 for a one-time link) are optional.
  * @param request.headers - Must include "origin" header for constructing the share URL
  * @param params - Route parameters
  * @param params.folderId - The unique identifier of the folder to share
  * 
- * @returns A NextResponse object containing the share URL, expiration time, and success message
+ * @returns A NextResponse object containing the new share link and a success message
  * 
- * @throws Returns 400 if hours is invalid (missing or <= 0)
- * @throws Returns 500 if the folder is not found or sharing fails
+ * @throws Returns 400 if hours, label, permission, password or download limit is invalid
+ * @throws Returns 403 or 404 if the folder belongs to another user or does not exist
+ * @throws Returns 500 if sharing fails
  * 
  * @example
  * ```typescript
@@ -93,28 +106,34 @@ import { FolderService } from "@/services/folder-service";
  * ```
  * 
  * @remarks
- * - Does not require authentication (folder ID serves as authorization)
- * - Generates a unique share token stored in the database
+ * - Requires authentication; only the folder's owner may share it
+ * - Generates a unique share token stored in a new ShareLink
  * - The share URL format: `{origin}/shared/folder/{token}`
  * - Grants access to folder and ALL nested content (files and subfolders)
- * - Share token is stored with the folder's expiration time
- * - Uses {@link FolderService.shareFolder} internally
+ * - Existing links to the folder keep working; revoke them under `/api/shares`
+ * - Uses {@link ShareService.shareFolder} internally
  * - Falls back to "http://localhost:3000" if origin header is missing
  * 
- * @see {@link FolderService.shareFolder} for the underlying implementation
+ * @see {@link ShareService.shareFolder} for the underlying implementation
  * @see GET /api/shared/folder/[token] for accessing shared folders
  * @see POST /api/files/[id]/share for sharing individual files
  * 
  * @status 200 - Successfully created share link
- * @status 400 - Invalid hours parameter
- * @status 500 - Folder not found or internal error
+ * @status 400 - Invalid hours, label, permission, password or download limit
+ * @status 401 - User not authenticated
+ * @status 403 - Folder belongs to another user
+ * @status 404 - Folder not found
+ * @status 500 - Internal error
  */
 export async function POST(
     request: Request,
     { params } : { params: Promise<{ folderId : string }>}) {
         try {
             const { folderId } = await params;
-            const { hours } = await request.json();
+            const { userId } = await auth();
+            const folder = await FolderService.authorizeFolder(userId, folderId, "write", { contents: false });
+
+            const { hours, label, permission, password, max_downloads } = await request.json();
             if (!hours || hours <= 0) {
                 return NextResponse.json(
                     {error: "Invalid expiration time"},
@@ -122,14 +141,16 @@ export async function POST(
                 );
             }
             const origin = request.headers.get("origin") || "http://localhost:3000";
-            const res = await FolderService.shareFolder(folderId, hours, origin);
+            const share = await ShareService.shareFolder(folder, { hours, label, permission, password, max_downloads }, origin);
             return NextResponse.json({
                 message: "Successful",
-                url: res["url"],
-                expires_at: res["expires_at"],
+                ...share,
             });
         } catch (error) {
-            console.error("Error creating folder info file: ", error);
-            throw new Error(`Failed to delete folder info file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error("Error sharing folder: ", error);
+            throw new Error(`Failed to share folder: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
 }
\ No newline at end of file
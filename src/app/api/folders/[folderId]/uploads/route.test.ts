@@ -0,0 +1,123 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: {
+                APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1", UPLOAD_URL_EXPIRY_SECONDS: 600,
+                STORAGE_QUOTA_BYTES: 5000,
+            },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+        },
+        file: {
+            create: vi.fn(),
+            aggregate: vi.fn(),
+        },
+        fileVersion: {
+            aggregate: vi.fn(),
+        },
+        $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+vi.mock("@aws-sdk/s3-request-presigner", () => ({
+    getSignedUrl: vi.fn(() => Promise.resolve("https://signed.example.com/upload")),
+}));
+
+describe("POST /api/folders/[folderId]/uploads", () => {
+    const params = Promise.resolve({ folderId: "folder-123" });
+    const uploadRequest = (body: object) => new Request("http://localhost/api/folders/folder-123/uploads", {
+        method: "POST",
+        body: JSON.stringify(body),
+    });
+
+    beforeEach(() => {
+        vi.mocked(prisma.folder.findUnique).mockResolvedValue({
+            id: "folder-123",
+            owner_clerk_id: "user-owner",
+            files: [],
+            subfolders: [],
+        } as never);
+        vi.mocked(prisma.file.create).mockImplementation((({ data }: { data: object }) =>
+            Promise.resolve(data)) as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: {} })),
+            },
+        } as never);
+        vi.mocked(prisma.file.aggregate).mockResolvedValue({ _sum: { size: BigInt(3000) } } as never);
+        vi.mocked(prisma.fileVersion.aggregate).mockResolvedValue({ _sum: { size: BigInt(0) } } as never);
+    });
+
+    it("returns a pending file and a signed upload URL to the folder owner", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        const before = Date.now();
+
+        const response = await POST(uploadRequest({ file_name: "report.pdf", size: 1024, content_type: "application/pdf" }), { params });
+        const body = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(body.upload).toEqual({
+            url: "https://signed.example.com/upload",
+            method: "PUT",
+            headers: { "Content-Type": "application/pdf" },
+        });
+        expect(body.file).toMatchObject({ file_name: "report.pdf", size: 1024, parent_folder_id: "folder-123" });
+        expect(new Date(body.expires_at).getTime()).toBeGreaterThanOrEqual(before + 600_000);
+    });
+
+    it("rejects uploading into another user's folder with 403", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+        const response = await POST(uploadRequest({ file_name: "report.pdf", size: 1024 }), { params });
+        expect(response.status).toBe(403);
+        expect(prisma.file.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects an upload over the storage quota with 413", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        const response = await POST(uploadRequest({ file_name: "report.pdf", size: 2001 }), { params });
+
+        expect(response.status).toBe(413);
+        expect((await response.json()).error).toMatch(/quota exceeded/);
+        expect(prisma.file.create).not.toHaveBeenCalled();
+    });
+
+    it("uses the quota stored for the user over the default", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: { storage_quota: 0 } })),
+            },
+        } as never);
+
+        const response = await POST(uploadRequest({ file_name: "report.pdf", size: 1_000_000 }), { params });
+        expect(response.status).toBe(200);
+    });
+
+    it("returns 400 when the size is missing", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        const response = await POST(uploadRequest({ file_name: "report.pdf" }), { params });
+        expect(response.status).toBe(400);
+        expect(prisma.file.create).not.toHaveBeenCalled();
+    });
+});
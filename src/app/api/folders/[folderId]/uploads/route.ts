@@ -0,0 +1,111 @@
+import { auth, clerkClient } from '@clerk/nextjs/server';
+import { FolderService } from "@/services/folder-service";
+import { UploadService } from "@/services/upload-service";
+import { QuotaService } from "@/services/quota-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
+import ConfigSingleton from "@/lib/config";
+
+/**
+ * @fileoverview API route for starting direct uploads into a folder.
+ *
+ * This is the first phase of a direct upload: it reserves the file and returns a
+ * signed URL the client sends the bytes to, so large files never pass through the
+ * app. The client then calls `POST /api/files/[id]/complete`. Large files can be
+ * uploaded in parts instead (`multipart: true`), using `/api/files/[id]/parts`.
+ *
+ * @module api/folders/[folderId]/uploads
+ */
+
+/**
+ * Creates a pending file in a folder and returns a signed upload URL for it, or
+ * starts a multipart upload.
+ *
+ * @async
+ * @function POST
+ *
+ * @param request - The incoming HTTP request with JSON body `{ file_name, size, content_type?, multipart? }`
+ * @param params - Route parameters
+ * @param params.folderId - The folder the file will be created in
+ *
+ * @returns A Response with the pending file, the upload request and its expiry; with
+ * `multipart: true`, the pending file with its `part_size` and `part_count`
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/folders/folder-123/uploads', {
+ *   method: 'POST',
+ *   body: JSON.stringify({ file_name: file.name, size: file.size, content_type: file.type }),
+ * });
+ * const { file: pending, upload } = await response.json();
+ * await fetch(upload.url, { method: upload.method, headers: upload.headers, body: file });
+ * await fetch(`/api/files/${pending.id}/complete`, { method: 'POST' });
+ * ```
+ *
+ * @remarks
+ * - The pending file is hidden from listings until the upload is completed
+ * - The URL is valid for `UPLOAD_URL_EXPIRY_SECONDS`; uploads never completed are purged
+ * - The upload must carry the returned headers, or storage will reject the signature
+ * - Single uploads are limited to 5 GiB; multipart uploads to 5 TiB
+ * - Uploads that would take the user past their storage quota are rejected before
+ *   anything is reserved (see {@link QuotaService})
+ *
+ * @see {@link UploadService.createUpload} for the underlying implementation
+ * @see {@link UploadService.createMultipartUpload} for multipart uploads
+ *
+ * @status 200 - Upload created
+ * @status 400 - Missing or invalid file name or size
+ * @status 401 - User not authenticated
+ * @status 403 - Folder belongs to another user
+ * @status 404 - Folder not found
+ * @status 413 - File is too large, or storage quota exceeded
+ * @status 500 - Internal server error
+ */
+export async function POST(
+    request: Request,
+    { params }: { params : Promise<{ folderId: string }> }) {
+        try {
+            const { folderId } = await params;
+            const { userId } = await auth();
+
+            if (!userId) {
+                return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                    status: 401,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+
+            const folder = await FolderService.authorizeFolder(userId, folderId, "write");
+            const body = await request.json().catch(() => ({}));
+
+            const config = ConfigSingleton.getInstance().config;
+            const details = {
+                fileName: body.file_name,
+                size: body.size,
+                contentType: typeof body.content_type === "string" ? body.content_type : undefined,
+            };
+
+            const user = await (await clerkClient()).users.getUser(userId);
+            const quota = QuotaService.getQuota(user, config.STORAGE_QUOTA_BYTES);
+            await QuotaService.assertWithinQuota(userId, quota, Number(details.size) || 0);
+            const pending = body.multipart === true
+                ? await UploadService.createMultipartUpload(folder, details, userId, config.MULTIPART_UPLOAD_IDLE_HOURS)
+                : await UploadService.createUpload(folder, details, userId, config.UPLOAD_URL_EXPIRY_SECONDS);
+
+            return new Response(JSON.stringify(pending), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
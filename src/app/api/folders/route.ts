@@ -57,7 +57,7 @@ import { FolderService } from '@/services/folder-service';
  * @remarks
  * - Requires valid Clerk authentication session
  * - Root folder is automatically created on first access
- * - The recursive mode uses {@link FolderService.getFolderRecursively} which performs nested queries
+ * - The recursive mode uses {@link FolderService.getFolderRecursively}, which reads the whole tree in one query
  * - Root folder ID is stored in Clerk's user public metadata
  * 
  * @see {@link FolderService.createRootFolder} for root folder creation logic
@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+import { Prisma } from "@/../prisma/generated/prisma";
+import { folderQueries } from "@/test-utils/folder-queries";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("GET /api/search", () => {
+    const folders = {
+        "root-1": { id: "root-1", folder_name: "root_user-owner", display_name: "Ada Lovelace", owner_clerk_id: "user-owner" },
+        "docs": { id: "docs", folder_name: "Documents", parent_folder_id: "root-1", owner_clerk_id: "user-owner" },
+    };
+    const match = {
+        kind: "file", id: "file-1", name: "q3-budget.pdf", parent_folder_id: "docs",
+        size: BigInt(2048), created_at: new Date("2025-01-02T00:00:00Z"), matched_content: true,
+    };
+    const ancestors = folderQueries(folders);
+    const search = (query: string) => GET(new Request(`http://localhost/api/search${query}`));
+    /** The search query's SQL and parameters, with its filter fragments inlined. */
+    const searchQuery = () => {
+        const [strings, ...values] = vi.mocked(prisma.$queryRaw).mock.calls[0] as [TemplateStringsArray, ...unknown[]];
+        return Prisma.sql(strings, ...values);
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: { root_folder: "root-1" } })),
+            },
+        } as never);
+        vi.mocked(prisma.folder.findUnique).mockImplementation((({ where }: { where: { id: keyof typeof folders } }) =>
+            Promise.resolve(folders[where.id] ?? null)) as never);
+        vi.mocked(prisma.$queryRaw).mockImplementation(((sql: TemplateStringsArray, ...values: unknown[]) =>
+            sql.join("").includes("WITH RECURSIVE scope")
+                ? Promise.resolve([match])
+                : ancestors(sql, values[0] as string)) as never);
+    });
+
+    it("returns matches with their breadcrumb paths, searching the root folder by default", async () => {
+        const response = await search("?q=Budget%20Q3");
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({
+            results: [{
+                ...match,
+                size: 2048,
+                created_at: "2025-01-02T00:00:00.000Z",
+                path: [{ id: "root-1", name: "Ada Lovelace" }, { id: "docs", name: "Documents" }],
+            }],
+        });
+        expect(prisma.folder.findUnique).toHaveBeenCalledWith({ where: { id: "root-1", deleted_at: null } });
+        expect(searchQuery().values).toEqual(expect.arrayContaining(["root-1", "budget:* & q3:*", "Budget Q3", 50]));
+    });
+
+    it("applies type, size, date and folder filters", async () => {
+        await search("?q=budget&type=PDF&min_size=100&max_size=5000&from=2025-01-01&to=2025-02-01&folder_id=docs&limit=10");
+
+        const { sql, values } = searchQuery();
+        expect(values).toEqual(expect.arrayContaining([
+            "docs", "pdf", 100, 5000, new Date("2025-01-01"), new Date("2025-02-01"), 10,
+        ]));
+        expect(values).not.toContain("root-1");
+        expect(sql).toContain("item.extension =");
+        // size filters leave folders out
+        expect(sql).toMatch(/item\.folder_name[\s\S]*AND false[\s\S]*UNION ALL/);
+    });
+
+    it("rejects a missing query or invalid filters with 400", async () => {
+        for (const query of ["", "?q=%20!!", "?q=a&limit=0", "?q=a&type=p.df", "?q=a&min_size=-1", "?q=a&from=someday"]) {
+            const response = await search(query);
+            expect(response.status).toBe(400);
+        }
+        expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it("rejects searching another user's folder with 403", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: { getUser: vi.fn(() => Promise.resolve({ id: "user-intruder", publicMetadata: { root_folder: "root-2" } })) },
+        } as never);
+
+        expect((await search("?q=budget&folder_id=docs")).status).toBe(403);
+        expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,93 @@
+import { auth, clerkClient } from '@clerk/nextjs/server';
+import { FolderService } from "@/services/folder-service";
+import { SearchService } from "@/services/search-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
+
+/**
+ * @fileoverview API route for searching the signed-in user's files and folders.
+ *
+ * @module api/search
+ */
+
+/**
+ * Searches file and folder names and the text of text, Markdown, CSV and PDF files.
+ *
+ * @async
+ * @function GET
+ *
+ * @param request - The incoming HTTP request object
+ * @param request.query - `q` (required), and optionally `type` (`folder`, `file` or a
+ * file extension), `min_size` and `max_size` (bytes), `from` and `to` (ISO dates),
+ * `folder_id` (search only inside this folder) and `limit` (1-100, default 50)
+ *
+ * @returns A Response containing `{ results }`, each with its breadcrumb `path`
+ *
+ * @example
+ * ```typescript
+ * const query = new URLSearchParams({ q: 'quarterly budget', type: 'pdf', from: '2025-01-01' });
+ * const response = await fetch(`/api/search?${query}`);
+ * const { results } = await response.json();
+ * results.forEach((result) => console.log(result.path.map((p) => p.name).join(' / '), result.name));
+ * ```
+ *
+ * @remarks
+ * - Requires valid Clerk authentication; only the user's own folders are searched
+ * - Without `folder_id` the whole tree under the user's root folder is searched
+ * - Trashed items and everything inside trashed folders are left out
+ *
+ * @see {@link SearchService.search} for matching and ranking
+ *
+ * @status 200 - Results returned (possibly none)
+ * @status 400 - Missing `q` or an invalid filter
+ * @status 401 - User not authenticated
+ * @status 403 - `folder_id` belongs to another user
+ * @status 404 - `folder_id` not found
+ * @status 500 - Internal server error
+ */
+export async function GET(request: Request) {
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                status: 401,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+
+        const user = await (await clerkClient()).users.getUser(userId);
+        const { searchParams } = new URL(request.url);
+        const number = (name: string) => searchParams.has(name) ? Number(searchParams.get(name)) : undefined;
+        const date = (name: string) => searchParams.has(name) ? new Date(searchParams.get(name) as string) : undefined;
+
+        const scopeId = searchParams.get("folder_id") || user.publicMetadata.root_folder as string;
+        const scope = await FolderService.authorizeFolder(userId, scopeId, "read", { contents: false });
+
+        const results = await SearchService.search(user, scope, {
+            q: searchParams.get("q") ?? "",
+            type: searchParams.get("type")?.toLowerCase() || undefined,
+            min_size: number("min_size"),
+            max_size: number("max_size"),
+            from: date("from"),
+            to: date("to"),
+            limit: number("limit"),
+        });
+
+        return new Response(JSON.stringify({ results }), {
+            headers: {"Content-Type": "application/json"},
+        });
+    } catch (error) {
+        if (error instanceof AuthorizationError || error instanceof ValidationError) {
+            return new Response(JSON.stringify({ error: error.message }), {
+                status: error.status,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+        console.error("Error: ", error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), {
+            status: 500,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+}
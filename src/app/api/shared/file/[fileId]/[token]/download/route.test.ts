@@ -0,0 +1,119 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "./route";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1", SHARE_SIGNING_SECRET: "test-share-secret" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        file: {
+            findUnique: vi.fn(),
+        },
+        shareLink: {
+            findUnique: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+vi.mock("@aws-sdk/s3-request-presigner", () => ({
+    getSignedUrl: vi.fn(() => Promise.resolve("https://signed.example.com/file")),
+}));
+
+const sharedFile = {
+    id: "file-123",
+    file_name: "report.pdf",
+    size: 1024,
+    created_at: new Date("2024-01-01"),
+    owner_clerk_id: "user-owner",
+    s3_key: "root_user_user-owner/report.pdf",
+};
+
+const link = {
+    id: "link-123",
+    token: "token-123",
+    label: null,
+    permission: "download",
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    password_hash: null,
+    max_downloads: 1,
+    download_count: 0,
+    owner_clerk_id: "user-owner",
+    folder_id: null,
+    file_id: "file-123",
+    folder: null,
+    file: { deleted_at: null },
+};
+
+describe("GET /api/shared/file/[fileId]/[token]/download", () => {
+    const params = Promise.resolve({ fileId: "file-123", token: "token-123" });
+    const request = () => new NextRequest("http://localhost:3000/api/shared/file/file-123/token-123/download");
+
+    beforeEach(() => {
+        vi.mocked(prisma.file.findUnique).mockResolvedValue(sharedFile as never);
+        vi.mocked(prisma.shareLink.findUnique).mockResolvedValue(link as never);
+    });
+
+    it("counts the download and returns how many are left", async () => {
+        vi.mocked(prisma.$queryRaw).mockResolvedValue([{ download_count: 1, max_downloads: 1 }] as never);
+
+        const response = await GET(request(), { params });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ url: "https://signed.example.com/file", downloads_remaining: 0 });
+        expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it("hands out a short-lived URL when the link has a download limit", async () => {
+        vi.mocked(prisma.$queryRaw).mockResolvedValue([{ download_count: 1, max_downloads: 1 }] as never);
+
+        await GET(request(), { params });
+
+        expect(getSignedUrl).toHaveBeenCalledWith(expect.anything(), expect.anything(), { expiresIn: 300 });
+    });
+
+    it("responds 410 once the link has been used up", async () => {
+        vi.mocked(prisma.shareLink.findUnique).mockResolvedValue({ ...link, download_count: 1 } as never);
+
+        const response = await GET(request(), { params });
+
+        expect(response.status).toBe(410);
+        expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it("responds 410 when another request used the last download first", async () => {
+        vi.mocked(prisma.$queryRaw).mockResolvedValue([] as never);
+
+        const response = await GET(request(), { params });
+
+        expect(response.status).toBe(410);
+        expect((await response.json()).error).toBe("This link has reached its download limit");
+    });
+
+    it("refuses downloads through a view-only link", async () => {
+        vi.mocked(prisma.shareLink.findUnique).mockResolvedValue({ ...link, permission: "view" } as never);
+
+        const response = await GET(request(), { params });
+
+        expect(response.status).toBe(403);
+        expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import ConfigSingleton from "@/lib/config";
+import { ValidationError } from "@/lib/errors";
+import { FileService } from "@/services/file-service";
+import { ShareService } from "@/services/share-service";
+
+/**
+ * @fileoverview API route for downloading shared files via share tokens.
+ * 
+ * Unlike GET /api/shared/file/[fileId]/[token], which the shared pages use to show
+ * and preview a file, every request here is a download and counts against the
+ * link's download limit.
+ * 
+ * @module api/shared/file/[fileId]/[token]/download
+ */
+
+/**
+ * Retrieves a presigned download URL for a shared file and counts the download.
+ * 
+ * @async
+ * @function GET
+ * 
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.fileId - The unique identifier of the file to download
+ * @param params.token - The share token of the file, or of the folder containing it
+ * 
+ * @returns A NextResponse object containing the download `url`, `file_name`,
+ * `expires_at` and the `downloads_remaining` after this one
+ * 
+ * @throws Returns 401 if the link has a password and the request has not unlocked it
+ * @throws Returns 403 if the share link has expired, has the `view` permission, or does
+ * not give access to the file
+ * @throws Returns 404 if the share token is invalid or file not found
+ * @throws Returns 410 if the link has reached its download limit
+ * @throws Returns 500 for internal server errors
+ * 
+ * @example
+ * ```typescript
+ * const response = await fetch(`/api/shared/file/${fileId}/${token}/download`);
+ * const { url, downloads_remaining } = await response.json();
+ * window.open(url, '_blank');
+ * ```
+ * 
+ * @remarks
+ * - **No authentication required** - public endpoint
+ * - The download is counted before the URL is handed out
+ *   ({@link ShareService.recordDownload}); two requests for the last download
+ *   cannot both succeed
+ * - URLs from links with a download limit last 5 minutes, see
+ *   {@link FileService.getFileFromShareToken}
+ * 
+ * @see GET /api/shared/file/[fileId]/[token] for previews, which are not counted
+ * 
+ * @status 200 - Download URL issued
+ * @status 401 - Password required
+ * @status 403 - Share link expired, view-only, or file not accessible
+ * @status 404 - Invalid share token or file not found
+ * @status 410 - Download limit reached
+ * @status 500 - Internal server error
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ fileId: string, token: string }> }
+) {
+    try {
+        const { fileId, token } = await params;
+        const link = await ShareService.getShareLink(token);
+
+        if (!link) {
+            return NextResponse.json(
+                { error: "Invalid share token" },
+                { status: 404 }
+            );
+        }
+
+        if (ShareService.isExpired(link)) {
+            return NextResponse.json(
+                { error: "Share link has expired" },
+                { status: 403 }
+            );
+        }
+
+        if (ShareService.isExhausted(link)) {
+            return NextResponse.json(
+                { error: "This link has reached its download limit" },
+                { status: 410 }
+            );
+        }
+
+        if (!ShareService.isUnlocked(link, request.cookies, ConfigSingleton.getInstance().config.SHARE_SIGNING_SECRET)) {
+            return NextResponse.json(
+                { error: "Password required", password_required: true },
+                { status: 401 }
+            );
+        }
+
+        if (link.permission !== "download") {
+            return NextResponse.json(
+                { error: "This link does not allow downloads" },
+                { status: 403 }
+            );
+        }
+
+        const file = await FileService.getFile(fileId);
+        if (!file) {
+            return NextResponse.json(
+                { error: "File not found" },
+                { status: 404 }
+            );
+        }
+
+        const result = await FileService.getFileFromShareToken(link, file, { download: true });
+        if (!result) {
+            return NextResponse.json(
+                { error: "File not accessible through this share link" },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.json({
+            message: "Download granted",
+            url: result.url,
+            file_name: file.file_name,
+            expires_at: result.expires_at,
+            downloads_remaining: result.downloads_remaining,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: error.status }
+            );
+        }
+        console.error("Error downloading shared file: ", error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
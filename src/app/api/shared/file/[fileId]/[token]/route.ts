@@ -1,24 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
-import { FolderService } from "@/services/folder-service";
+import ConfigSingleton from "@/lib/config";
+import { ValidationError } from "@/lib/errors";
+import { getPreviewKind } from "@/lib/file-preview";
 import { FileService } from "@/services/file-service";
+import { ShareService } from "@/services/share-service";
 import { type File } from "@/types/types";
 
 /**
  * @fileoverview API route for accessing shared files via share tokens.
  * 
  * This module provides a public HTTP endpoint for accessing files that have been
- * shared via folder share tokens. No authentication is required, but a valid
- * share token and file ID are needed.
+ * shared on their own or inside a shared folder. No authentication is required, but a
+ * valid share token and file ID are needed.
  * 
  * @module api/shared/file/[fileId]/[token]
  */
 
 /**
- * Retrieves a presigned URL for a file using a folder share token.
+ * Retrieves a presigned URL for a file using a share token.
  * 
- * This endpoint allows unauthenticated access to files within a shared folder.
- * It validates the share token, checks expiration, verifies the file exists within
- * the shared folder hierarchy, and generates a presigned URL for download.
+ * This endpoint allows unauthenticated access to a shared file, or to files within a
+ * shared folder. It validates the share token, checks expiration, verifies the file is
+ * the shared file or exists within the shared folder hierarchy, and generates a
+ * presigned URL for viewing. Downloads go through
+ * GET /api/shared/file/[fileId]/[token]/download, which counts them.
  * 
  * @async
  * @function GET
@@ -26,13 +31,16 @@ import { type File } from "@/types/types";
  * @param request - The incoming HTTP request object
  * @param params - Route parameters
  * @param params.fileId - The unique identifier of the file to access
- * @param params.token - The share token for the folder containing the file
+ * @param params.token - The share token of the file, or of the folder containing it
  * 
- * @returns A NextResponse object containing the file access URL and metadata
+ * @returns A NextResponse object containing the file access URL and metadata,
+ * including the link's `permission` and `downloads_remaining`
  * 
+ * @throws Returns 401 if the link has a password and the request has not unlocked it
  * @throws Returns 403 if the share link has expired
  * @throws Returns 403 if the file is not accessible through the share link
  * @throws Returns 404 if the share token is invalid or file not found
+ * @throws Returns 410 if the link has reached its download limit
  * @throws Returns 500 for internal server errors
  * 
  * @example
@@ -52,7 +60,7 @@ import { type File } from "@/types/types";
  * // Download a shared file
  * async function downloadSharedFile(fileId: string, token: string) {
  *   try {
- *     const response = await fetch(`/api/shared/file/${fileId}/${token}`);
+ *     const response = await fetch(`/api/shared/file/${fileId}/${token}/download`);
  *     
  *     if (!response.ok) {
  *       const error = await response.json();
@@ -94,19 +102,30 @@ import { type File } from "@/types/types";
  * @remarks
  * - **No authentication required** - public endpoint
  * - Validates share token and expiration time
- * - Verifies file is within the shared folder's hierarchy
- * - Returns presigned S3 URL valid for temporary access
- * - Uses {@link FolderService.getFolderByShareToken} to retrieve the shared folder
+ * - Does not count against the link's download limit, so opening or previewing the
+ *   file never uses up a download; once the limit is reached the route responds 410
+ * - Password-protected links need the cookie set by POST /api/shared/unlock/[token];
+ *   without it the response is `{ error, password_required: true }`
+ * - Verifies file is the shared file, or within the shared folder's hierarchy
+ * - Returns presigned S3 URL valid for temporary access, never beyond the link's expiry
+ * - `url` is null if the link has a download limit; the content of such a file is only
+ *   handed out through the download route, which counts it
+ * - Uses {@link ShareService.getShareLink} to resolve the token
  * - Uses {@link FileService.getFileFromShareToken} to validate and generate URL
- * - The share token belongs to the folder, not the individual file
+ * - With the `view` permission `url` is null for files that cannot be previewed in the
+ *   browser, and GET /api/shared/file/[fileId]/[token]/download is refused
  * 
- * @see {@link FolderService.getFolderByShareToken} for share token validation
+ * @see GET /api/shared/file/[fileId]/[token]/download for counted downloads
+ * @see {@link ShareService.getShareLink} for share token validation
  * @see {@link FileService.getFileFromShareToken} for file access validation
  * @see POST /api/folders/[folderId]/share for creating folder share links
+ * @see POST /api/files/[id]/share for creating file share links
  * 
  * @status 200 - Successfully retrieved file URL
+ * @status 401 - Password required
  * @status 403 - Share link expired or file not accessible
  * @status 404 - Invalid share token or file not found
+ * @status 410 - Download limit reached
  * @status 500 - Internal server error
  */
 export async function GET(
@@ -115,23 +134,37 @@ export async function GET(
 ) {
     try {
         const { fileId, token } = await params;
-        const rootFolder = await FolderService.getFolderByShareToken(token);
+        const link = await ShareService.getShareLink(token);
         const file: File | null = await FileService.getFile(fileId);
 
-        if (!rootFolder) { 
+        if (!link) { 
             return NextResponse.json(
                 { error: "Invalid share token" },
                 { status: 404 }
             );
         }
 
-        if (rootFolder.expires_at && rootFolder.expires_at < new Date()) {
+        if (ShareService.isExpired(link)) {
             return NextResponse.json(
                 { error: "Share link has expired "},
                 { status: 403 }
             );
         }
 
+        if (ShareService.isExhausted(link)) {
+            return NextResponse.json(
+                { error: "This link has reached its download limit" },
+                { status: 410 }
+            );
+        }
+
+        if (!ShareService.isUnlocked(link, request.cookies, ConfigSingleton.getInstance().config.SHARE_SIGNING_SECRET)) {
+            return NextResponse.json(
+                { error: "Password required", password_required: true },
+                { status: 401 }
+            );
+        }
+
         if (!file) {
             return NextResponse.json(
                 { error: "File not found" },
@@ -139,14 +172,22 @@ export async function GET(
             );
         }
 
-        const result = await FileService.getFileFromShareToken(rootFolder, file);
+        const result = await FileService.getFileFromShareToken(link, file);
 
-        if (result && result.url && result.expires_at) {
+        if (result && result.url) {
+            // a view-only link must not hand out a URL the browser would just download
+            const previewOnly = link.permission === "view" && getPreviewKind(file.file_name) === null;
+            // an uncounted URL would let a limited link be fetched any number of times
+            const limited = link.max_downloads !== null;
             return NextResponse.json({
                 message: "File access granted",
-                url: result.url,
+                url: previewOnly || limited ? null : result.url,
                 file_name: file.file_name,
+                size: file.size,
+                created_at: file.created_at,
                 expires_at: result.expires_at,
+                permission: link.permission,
+                downloads_remaining: result.downloads_remaining,
             });
         } else {
             return NextResponse.json(
@@ -155,6 +196,12 @@ export async function GET(
             );
         }   
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: error.status }
+            );
+        }
         console.error("Error sharing file: ", error);
         throw new Error(`Failed to share file:  ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import ConfigSingleton from "@/lib/config";
+import { ValidationError } from "@/lib/errors";
+import { FolderService } from "@/services/folder-service";
+import { ShareService } from "@/services/share-service";
+
+/**
+ * @fileoverview API route for downloading a shared folder as a ZIP archive.
+ * 
+ * This module provides a public HTTP endpoint that streams a folder shared via a
+ * share token, with all of its subfolders and files, as a single ZIP download.
+ * 
+ * @module api/shared/folder/[token]/archive
+ */
+
+/**
+ * Streams a ZIP archive of a shared folder and its entire subtree.
+ * 
+ * @async
+ * @function GET
+ * 
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.token - The share token for the folder
+ * 
+ * @returns A streamed Response with `Content-Type: application/zip`
+ * 
+ * @throws Returns 401 if the link has a password and the request has not unlocked it
+ * @throws Returns 403 if the share link has expired or is invalid, or only allows viewing
+ * @throws Returns 410 if the link has reached its download limit
+ * @throws Returns 500 for internal server errors
+ * 
+ * @example
+ * ```typescript
+ * // Let the browser handle the download
+ * window.location.assign('/api/shared/folder/share-token-abc123/archive');
+ * ```
+ * 
+ * @remarks
+ * - **No authentication required** - public endpoint
+ * - Validates the share token and its expiration time
+ * - Refused for links with the `view` permission
+ * - Counts as one download against the link's limit
+ * - Password-protected links need the cookie set by POST /api/shared/unlock/[token]
+ * - Produces the same archive layout as GET /api/folders/[folderId]/archive
+ * - Uses {@link ShareService.getShareLink} for token lookup
+ * - Uses {@link FolderService.createArchive} to build the archive
+ * 
+ * @see {@link FolderService.createArchive} for the underlying implementation
+ * @see GET /api/folders/[folderId]/archive for the owner equivalent
+ * 
+ * @status 200 - Archive stream started
+ * @status 401 - Password required
+ * @status 403 - Share link expired or invalid, or view-only
+ * @status 410 - Download limit reached
+ * @status 500 - Internal server error
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ token: string }>}
+) {
+        const { token } = await params;
+
+        const link = await ShareService.getShareLink(token);
+        if (!link || !link.folder_id || ShareService.isExpired(link)) {
+            return NextResponse.json(
+                { error: "Link expired or invalid" },
+                { status: 403 },
+            );
+        }
+        if (ShareService.isExhausted(link)) {
+            return NextResponse.json(
+                { error: "This link has reached its download limit" },
+                { status: 410 },
+            );
+        }
+        if (!ShareService.isUnlocked(link, request.cookies, ConfigSingleton.getInstance().config.SHARE_SIGNING_SECRET)) {
+            return NextResponse.json(
+                { error: "Password required", password_required: true },
+                { status: 401 },
+            );
+        }
+        if (link.permission !== "download") {
+            return NextResponse.json(
+                { error: "This link does not allow downloads" },
+                { status: 403 },
+            );
+        }
+
+        try {
+            await ShareService.recordDownload(link);
+            const { fileName, stream } = await FolderService.createArchive(link.folder_id);
+            return new Response(stream, {
+                headers: {
+                    "Content-Type": "application/zip",
+                    "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+                },
+            });
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                return NextResponse.json(
+                    { error: error.message },
+                    { status: error.status },
+                );
+            }
+            console.error("Error: ", error);
+            return NextResponse.json(
+                { error: "Internal server error" },
+                { status: 500 },
+            );
+        }
+    }
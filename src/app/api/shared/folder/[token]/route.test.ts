@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "./route";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1", SHARE_SIGNING_SECRET: "test-share-secret" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+        },
+        shareLink: {
+            findUnique: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+const link = {
+    id: "link-123",
+    token: "token-123",
+    label: null,
+    permission: "download",
+    expires_at: null,
+    password_hash: null,
+    max_downloads: null,
+    download_count: 0,
+    owner_clerk_id: "user-owner",
+    folder_id: "folder-123",
+    file_id: null,
+    folder: { deleted_at: null },
+    file: null,
+};
+
+const sharedFolder = {
+    id: "folder-123",
+    folder_name: "Documents",
+    display_name: null,
+    created_at: new Date("2024-01-01"),
+    updated_at: new Date("2024-01-02"),
+    is_root: false,
+    s3_link: null,
+    s3_key: "root_user_user-owner/Documents/",
+    parent_folder_id: "root-folder",
+    owner_clerk_id: "user-owner",
+    deleted_at: null,
+    files: [{
+        id: "file-123",
+        file_name: "photo.jpg",
+        size: 1024,
+        created_at: new Date("2024-01-01"),
+        s3_link: null,
+        parent_folder_id: "folder-123",
+        owner_clerk_id: "user-owner",
+        s3_key: "root_user_user-owner/Documents/photo.jpg",
+        blob_id: "abc123",
+        thumbnail_key: "thumbnails/file-123.webp",
+    }],
+    subfolders: [{
+        id: "folder-456",
+        folder_name: "Private",
+        display_name: null,
+        created_at: new Date("2024-01-01"),
+        updated_at: new Date("2024-01-02"),
+        is_root: false,
+        s3_link: null,
+        s3_key: "root_user_user-owner/Documents/Private/",
+        parent_folder_id: "folder-123",
+        owner_clerk_id: "user-owner",
+        deleted_at: null,
+    }],
+};
+
+describe("GET /api/shared/folder/[token]", () => {
+    const params = Promise.resolve({ token: "token-123" });
+
+    beforeEach(() => {
+        vi.mocked(prisma.shareLink.findUnique).mockResolvedValue(link as never);
+        vi.mocked(prisma.folder.findUnique).mockResolvedValue(sharedFolder as never);
+    });
+
+    it("lists the folder without storage keys, content hashes or owners", async () => {
+        const response = await GET(new NextRequest("http://localhost:3000/api/shared/folder/token-123"), { params });
+
+        expect(response.status).toBe(200);
+        const body = await response.json();
+        expect(body).toMatchObject({ id: "folder-123", folder_name: "Documents", permission: "download" });
+        expect(body.files).toEqual([{ id: "file-123", file_name: "photo.jpg", size: 1024, created_at: "2024-01-01T00:00:00.000Z" }]);
+        expect(body.subfolders[0]).toMatchObject({ id: "folder-456", folder_name: "Private" });
+        for (const item of [body, body.files[0], body.subfolders[0]]) {
+            for (const key of ["s3_key", "s3_link", "blob_id", "thumbnail_key", "owner_clerk_id"]) {
+                expect(item).not.toHaveProperty(key);
+            }
+        }
+    });
+
+    it("refuses links to files", async () => {
+        vi.mocked(prisma.shareLink.findUnique).mockResolvedValue({ ...link, folder_id: null, file_id: "file-123" } as never);
+
+        const response = await GET(new NextRequest("http://localhost:3000/api/shared/folder/token-123"), { params });
+
+        expect(response.status).toBe(403);
+    });
+});
@@ -1,6 +1,7 @@
-import { Folder } from "@/types/types";
 import { NextRequest, NextResponse } from "next/server";
+import ConfigSingleton from "@/lib/config";
 import { FolderService } from "@/services/folder-service";
+import { ShareService } from "@/services/share-service";
 
 /**
  * @fileoverview API route for accessing shared folders via share tokens.
@@ -26,9 +27,12 @@ import { FolderService } from "@/services/folder-service";
  * @param params - Route parameters
  * @param params.token - The share token for the folder
  * 
- * @returns A NextResponse object containing the folder data
+ * @returns A NextResponse object containing the folder data, with the link's
+ * `expires_at`, `permission` and `downloads_remaining`
  * 
+ * @throws Returns 401 if the link has a password and the request has not unlocked it
  * @throws Returns 403 if the share link has expired or is invalid
+ * @throws Returns 410 if the link has reached its download limit
  * @throws Returns 500 for internal server errors
  * 
  * @example
@@ -41,6 +45,7 @@ import { FolderService } from "@/services/folder-service";
  * console.log('Files:', folder.files);
  * console.log('Subfolders:', folder.subfolders);
  * console.log('Expires:', folder.expires_at);
+ * console.log('Downloads allowed:', folder.permission === 'download');
  * ```
  * 
  * @example
@@ -110,20 +115,30 @@ import { FolderService } from "@/services/folder-service";
  * 
  * @remarks
  * - **No authentication required** - public endpoint
- * - Validates share token and expiration time
+ * - Validates share token and the expiration time of its link
  * - Without `recursive=all`: Returns folder with immediate children only
  * - With `recursive=all`: Returns complete nested folder/file hierarchy
- * - Share token must not be expired (checked against folder's expires_at)
- * - Uses {@link FolderService.getFolderByShareToken} for token lookup
- * - Uses {@link FolderService.getFolderRecursively} when recursive flag is set
- * 
- * @see {@link FolderService.getFolderByShareToken} for share token validation
- * @see {@link FolderService.getFolderRecursively} for recursive folder fetching
+ * - Share token must not be expired (checked against its link's expires_at)
+ * - Tokens of file links are treated as invalid here
+ * - Listing the folder does not count as a download, but a link that has used up its
+ *   downloads is gone: the listing is refused too
+ * - Password-protected links need the cookie set by POST /api/shared/unlock/[token];
+ *   without it the response is `{ error, password_required: true }`
+ * - Uses {@link ShareService.getShareLink} for token lookup
+ * - Uses {@link FolderService.getSharedFolderRecursively} when recursive flag is set,
+ *   and {@link FolderService.getSharedFolder} otherwise; both leave out storage keys,
+ *   content hashes, thumbnail keys and owners
+ * 
+ * @see {@link ShareService.getShareLink} for share token validation
+ * @see {@link FolderService.getSharedFolderRecursively} for recursive folder fetching
+ * @see {@link FolderService.getSharedFolder} for the folder and its immediate children
  * @see POST /api/folders/[folderId]/share for creating folder share links
  * @see GET /api/shared/file/[fileId]/[token] for accessing files in shared folders
  * 
  * @status 200 - Successfully retrieved shared folder
+ * @status 401 - Password required
  * @status 403 - Share link expired or invalid
+ * @status 410 - Download limit reached
  * @status 500 - Internal server error
  */
 export async function GET(
@@ -136,18 +151,34 @@ export async function GET(
         const searchParams = request.nextUrl.searchParams;
         const recursive = searchParams.get("recursive");
 
-        // get the folder
-        let folder: Folder | null = await FolderService.getFolderByShareToken(token);
-        // if we set the recursive flag, make sure to get the root folder recursively!
-        if (recursive && recursive === "all") {
-            folder = await FolderService.getFolderRecursively(folder?.id as string) as Folder;
-        }
-
-        if (!folder || folder.expires_at! < new Date()) {
+        const link = await ShareService.getShareLink(token);
+        if (!link || !link.folder_id || ShareService.isExpired(link)) {
             return NextResponse.json(
                 { error: "Link expired or invalid" },
                 { status: 403 },
             );
         }
-        return NextResponse.json(folder);
+        if (ShareService.isExhausted(link)) {
+            return NextResponse.json(
+                { error: "This link has reached its download limit" },
+                { status: 410 },
+            );
+        }
+        if (!ShareService.isUnlocked(link, request.cookies, ConfigSingleton.getInstance().config.SHARE_SIGNING_SECRET)) {
+            return NextResponse.json(
+                { error: "Password required", password_required: true },
+                { status: 401 },
+            );
+        }
+
+        // if we set the recursive flag, make sure to get the root folder recursively!
+        const folder = recursive && recursive === "all"
+            ? await FolderService.getSharedFolderRecursively(link.folder_id)
+            : await FolderService.getSharedFolder(link.folder_id);
+        return NextResponse.json({
+            ...folder,
+            expires_at: link.expires_at,
+            permission: link.permission,
+            downloads_remaining: ShareService.downloadsRemaining(link),
+        });
     }
\ No newline at end of file
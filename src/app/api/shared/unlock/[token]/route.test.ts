@@ -0,0 +1,124 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { randomBytes, scryptSync } from "crypto";
+import { POST } from "./route";
+import prisma from "@/lib/db-client";
+import { ShareService } from "@/services/share-service";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1", SHARE_SIGNING_SECRET: "test-share-secret" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        shareLink: {
+            findUnique: vi.fn(),
+            update: vi.fn(({ where, data }) => Promise.resolve({ id: where.id, ...data })),
+        },
+        shareUnlockAttempt: {
+            findUnique: vi.fn(),
+            upsert: vi.fn(({ create }) => Promise.resolve(create)),
+            update: vi.fn(),
+            delete: vi.fn(),
+        },
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+const hashPassword = (password: string) => {
+    const salt = randomBytes(16);
+    return `scrypt$${salt.toString("base64")}$${scryptSync(password, salt, 64).toString("base64")}`;
+};
+
+const link = {
+    id: "link-123",
+    token: "token-123",
+    label: null,
+    permission: "download",
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    password_hash: hashPassword("secret-pass"),
+    max_downloads: null,
+    download_count: 0,
+    owner_clerk_id: "user-owner",
+    folder_id: "folder-123",
+    file_id: null,
+    folder: { deleted_at: null },
+    file: null,
+};
+
+describe("POST /api/shared/unlock/[token]", () => {
+    const params = Promise.resolve({ token: "token-123" });
+    const unlockRequest = (password: string, ip = "203.0.113.7") => new NextRequest("http://localhost:3000/api/shared/unlock/token-123", {
+        method: "POST",
+        headers: { "x-forwarded-for": ip },
+        body: JSON.stringify({ password }),
+    });
+
+    beforeEach(() => {
+        vi.mocked(prisma.shareLink.findUnique).mockResolvedValue(link as never);
+    });
+
+    it("sets an HTTP-only cookie for the right password", async () => {
+        const response = await POST(unlockRequest("secret-pass"), { params });
+
+        expect(response.status).toBe(200);
+        const cookie = response.cookies.get("share_link-123");
+        expect(cookie).toMatchObject({ httpOnly: true, path: "/api/shared", sameSite: "lax" });
+        expect(cookie?.value).toMatch(/^\d+\./);
+    });
+
+    it("rejects a wrong password with 401 and sets no cookie", async () => {
+        const response = await POST(unlockRequest("wrong-pass"), { params });
+
+        expect(response.status).toBe(401);
+        expect(response.cookies.get("share_link-123")).toBeUndefined();
+        expect(prisma.shareUnlockAttempt.upsert).toHaveBeenCalledWith(expect.objectContaining({
+            update: { failed_attempts: { increment: 1 } },
+        }));
+    });
+
+    it("rejects a malformed body with 400 without counting a failed attempt", async () => {
+        const response = await POST(new NextRequest("http://localhost:3000/api/shared/unlock/token-123", {
+            method: "POST",
+            body: "not json",
+        }), { params });
+
+        expect(response.status).toBe(400);
+        expect(prisma.shareUnlockAttempt.upsert).not.toHaveBeenCalled();
+    });
+
+    it("responds 429 with Retry-After while the client is locked out, and lets other clients in", async () => {
+        const locked = ShareService.unlockClient(new Headers({ "x-forwarded-for": "198.51.100.1" }));
+        vi.mocked(prisma.shareUnlockAttempt.findUnique).mockImplementation((({ where }: { where: { link_id_client: { client: string } } }) =>
+            Promise.resolve(where.link_id_client.client === locked
+                ? { failed_attempts: 0, locked_until: new Date(Date.now() + 5 * 60 * 1000) }
+                : null)) as never);
+
+        const response = await POST(unlockRequest("secret-pass", "198.51.100.1"), { params });
+
+        expect(response.status).toBe(429);
+        expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(0);
+        expect((await POST(unlockRequest("secret-pass"), { params })).status).toBe(200);
+    });
+
+    it("responds 404 for an unknown token", async () => {
+        vi.mocked(prisma.shareLink.findUnique).mockResolvedValue(null);
+
+        const response = await POST(unlockRequest("secret-pass"), { params });
+
+        expect(response.status).toBe(404);
+    });
+});
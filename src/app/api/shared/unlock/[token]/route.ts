@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import ConfigSingleton from "@/lib/config";
+import { RateLimitError, ValidationError } from "@/lib/errors";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ShareService } from "@/services/share-service";
+
+/**
+ * @fileoverview API route for unlocking password-protected share links.
+ *
+ * This module provides a public HTTP endpoint that exchanges a share link's password
+ * for a short-lived signed cookie, which the other `/api/shared/...` routes require
+ * before serving anything through the link.
+ *
+ * @module api/shared/unlock/[token]
+ */
+
+/**
+ * Checks a share link's password and, if it is right, sets the cookie that unlocks
+ * the link.
+ *
+ * @async
+ * @function POST
+ *
+ * @param request - The incoming HTTP request object
+ * @param request.body - JSON body with the `password`
+ * @param params - Route parameters
+ * @param params.token - The share token of the folder or file link
+ *
+ * @returns A NextResponse with `{ message, expires_at }` and a `Set-Cookie` header
+ *
+ * @throws Returns 400 if the body has no password or the link has no password
+ * @throws Returns 401 if the password is wrong
+ * @throws Returns 403 if the share link has expired
+ * @throws Returns 404 if the share token is invalid
+ * @throws Returns 410 if the link has reached its download limit
+ * @throws Returns 429 with a `Retry-After` header after too many wrong passwords
+ * @throws Returns 500 for internal server errors
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/shared/unlock/share-token-abc123', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ password: 'correct horse' }),
+ * });
+ *
+ * if (response.ok) {
+ *   // the cookie is set; the shared folder can be fetched now
+ *   const folder = await fetch('/api/shared/folder/share-token-abc123').then(r => r.json());
+ * }
+ * ```
+ *
+ * @remarks
+ * - **No authentication required** - public endpoint
+ * - The cookie is HTTP-only, scoped to `/api/shared` and valid for an hour
+ * - Five wrong passwords in a row from one IP address lock that address out of the link
+ *   for 15 minutes; other visitors can still unlock it
+ * - Uses {@link ShareService.unlockShareLink} to check the password and sign the cookie
+ *
+ * @see {@link ShareService.unlockShareLink} for the underlying implementation
+ * @see {@link ShareService.isUnlocked} for how the shared routes check the cookie
+ *
+ * @status 200 - Link unlocked
+ * @status 400 - Missing password or link has no password
+ * @status 401 - Incorrect password
+ * @status 403 - Share link expired
+ * @status 404 - Invalid share token
+ * @status 410 - Download limit reached
+ * @status 429 - Too many incorrect passwords
+ * @status 500 - Internal server error
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ token: string }>}
+) {
+    try {
+        const { token } = await params;
+        const link = await ShareService.getShareLink(token);
+        if (!link) {
+            return NextResponse.json(
+                { error: "Invalid share token" },
+                { status: 404 }
+            );
+        }
+        if (ShareService.isExpired(link)) {
+            return NextResponse.json(
+                { error: "Link expired or invalid" },
+                { status: 403 }
+            );
+        }
+        if (ShareService.isExhausted(link)) {
+            return NextResponse.json(
+                { error: "This link has reached its download limit" },
+                { status: 410 }
+            );
+        }
+
+        const { password } = await request.json().catch(() => ({}));
+        if (typeof password !== "string" || !password) {
+            return NextResponse.json(
+                { error: "Provide a password" },
+                { status: 400 }
+            );
+        }
+
+        const { SHARE_SIGNING_SECRET } = ConfigSingleton.getInstance().config;
+        const client = ShareService.unlockClient(request.headers);
+        const cookie = await ShareService.unlockShareLink(link, password, client, SHARE_SIGNING_SECRET);
+
+        const response = NextResponse.json({ message: "Link unlocked", expires_at: cookie.expires });
+        response.cookies.set(cookie.name, cookie.value, {
+            expires: cookie.expires,
+            httpOnly: true,
+            sameSite: "lax",
+            secure: process.env.NODE_ENV === "production",
+            path: "/api/shared",
+        });
+        return response;
+    } catch (error) {
+        if (error instanceof RateLimitError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: error.status, headers: { "Retry-After": String(error.retryAfterSeconds) } }
+            );
+        }
+        if (error instanceof AuthorizationError || error instanceof ValidationError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: error.status }
+            );
+        }
+        console.error("Error: ", error);
+        return NextResponse.json(
+            { error: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
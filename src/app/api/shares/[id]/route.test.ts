@@ -0,0 +1,121 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PATCH, DELETE } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        shareLink: {
+            findUnique: vi.fn(),
+            update: vi.fn(({ where, data }) => Promise.resolve({ ...link, id: where.id, ...data })),
+            delete: vi.fn(),
+        },
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+const link = {
+    id: "link-123",
+    token: "token-123",
+    label: "Accountant",
+    permission: "download",
+    owner_clerk_id: "user-owner",
+    folder_id: "folder-123",
+    file_id: null,
+};
+
+describe("/api/shares/[id]", () => {
+    const params = Promise.resolve({ id: "link-123" });
+    const updateRequest = (body: object) => new Request("http://localhost:3000/api/shares/link-123", {
+        method: "PATCH",
+        body: JSON.stringify(body),
+    });
+    const revokeRequest = () => new Request("http://localhost:3000/api/shares/link-123", { method: "DELETE" });
+
+    beforeEach(() => {
+        vi.mocked(prisma.shareLink.findUnique).mockResolvedValue({
+            ...link,
+            expires_at: new Date(Date.now() + 60 * 60 * 1000),
+        } as never);
+    });
+
+    describe("PATCH", () => {
+        it("extends the link and keeps its URL", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+
+            const response = await PATCH(updateRequest({ hours: 24 }), { params });
+
+            expect(response.status).toBe(200);
+            const share = await response.json();
+            expect(share.url).toBe("http://localhost:3000/shared/folder/token-123");
+            expect(new Date(share.expires_at).getTime()).toBeGreaterThan(Date.now() + 24 * 60 * 60 * 1000);
+        });
+
+        it("changes the permission of this link only", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+
+            const response = await PATCH(updateRequest({ permission: "view" }), { params });
+
+            expect(response.status).toBe(200);
+            expect(prisma.shareLink.update).toHaveBeenCalledWith({
+                where: { id: "link-123" },
+                data: { permission: "view" },
+            });
+        });
+
+        it("rejects an invalid number of hours with 400", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+
+            const response = await PATCH(updateRequest({ hours: -1 }), { params });
+
+            expect(response.status).toBe(400);
+            expect(prisma.shareLink.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("DELETE", () => {
+        it("revokes the link for the owner", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+
+            const response = await DELETE(revokeRequest(), { params });
+
+            expect(response.status).toBe(200);
+            expect(prisma.shareLink.delete).toHaveBeenCalledWith({ where: { id: "link-123" } });
+        });
+
+        it("rejects another user with 403", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-intruder" } as never);
+
+            const response = await DELETE(revokeRequest(), { params });
+
+            expect(response.status).toBe(403);
+            expect(prisma.shareLink.delete).not.toHaveBeenCalled();
+        });
+
+        it("responds 404 for an unknown link", async () => {
+            vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+            vi.mocked(prisma.shareLink.findUnique).mockResolvedValue(null);
+
+            const response = await DELETE(revokeRequest(), { params });
+
+            expect(response.status).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,143 @@
+import { auth } from "@clerk/nextjs/server";
+import { ShareService } from "@/services/share-service";
+import { AuthorizationError } from "@/services/authorization-service";
+import { ValidationError } from "@/lib/errors";
+
+/**
+ * @fileoverview API routes for updating and revoking a single share link.
+ *
+ * @module api/shares/[id]
+ */
+
+/**
+ * Extends a share link and/or changes its label, permission, password or download
+ * limit, keeping its URL.
+ *
+ * @async
+ * @function PATCH
+ *
+ * @param request - The incoming HTTP request object
+ * @param request.body - JSON body with any of `hours` (to add to the expiry), `label`,
+ * `permission` (`"view"` or `"download"`), `password` (null or empty to remove it) and
+ * `max_downloads` (null to remove the limit), e.g. `{ "hours": 24 }`
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the share link
+ *
+ * @returns A Response object containing the updated link, without its password hash,
+ * with `has_password`, `downloads_remaining` and its `url`
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/shares/link-123', {
+ *   method: 'PATCH',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ hours: 24, permission: 'view' }),
+ * });
+ * ```
+ *
+ * @remarks
+ * The hours are added to the current expiry, or to the current time if the link has
+ * already expired. Other links to the same item are not affected. Changing or
+ * removing the password signs out visitors who unlocked the link with the old one. A
+ * new download limit counts the downloads already made.
+ *
+ * @see {@link ShareService.updateShareLink} for the underlying implementation
+ *
+ * @status 200 - Link updated
+ * @status 400 - Invalid hours, label, permission, password or download limit, or nothing to change
+ * @status 401 - User is not authenticated
+ * @status 403 - Link belongs to another user
+ * @status 404 - Link not found
+ * @status 500 - Internal server error
+ */
+export async function PATCH(
+    request: Request,
+    { params }: { params : Promise<{ id: string }> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            const link = await ShareService.authorizeShareLink(userId, id);
+
+            const { hours, label, permission, password, max_downloads } = await request.json();
+            const updated = await ShareService.updateShareLink(link, { hours, label, permission, password, max_downloads });
+            return new Response(JSON.stringify({
+                id: updated.id,
+                token: updated.token,
+                label: updated.label,
+                permission: updated.permission,
+                expires_at: updated.expires_at,
+                has_password: !!updated.password_hash,
+                max_downloads: updated.max_downloads,
+                downloads_remaining: ShareService.downloadsRemaining(updated),
+                url: ShareService.buildShareUrl(updated, new URL(request.url).origin),
+            }), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError || error instanceof ValidationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
+
+/**
+ * Revokes a share link, so its URL stops working immediately.
+ *
+ * @async
+ * @function DELETE
+ *
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the share link
+ *
+ * @returns A Response object containing a success message
+ *
+ * @example
+ * ```typescript
+ * await fetch('/api/shares/link-123', { method: 'DELETE' });
+ * ```
+ *
+ * @remarks
+ * Other links to the same folder or file keep working.
+ *
+ * @see {@link ShareService.revokeShareLink} for the underlying implementation
+ *
+ * @status 200 - Link revoked
+ * @status 401 - User is not authenticated
+ * @status 403 - Link belongs to another user
+ * @status 404 - Link not found
+ * @status 500 - Internal server error
+ */
+export async function DELETE(
+    request: Request,
+    { params }: { params : Promise<{ id: string }> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            const link = await ShareService.authorizeShareLink(userId, id);
+            const message = await ShareService.revokeShareLink(link.id);
+            return new Response(JSON.stringify(message), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
@@ -0,0 +1,69 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { GET } from "./route";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        shareLink: {
+            findMany: vi.fn(),
+        },
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("GET /api/shares", () => {
+    const listRequest = () => new Request("http://localhost:3000/api/shares");
+
+    it("lists the user's shares with links built from the request origin", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(prisma.shareLink.findMany).mockResolvedValue([
+            {
+                id: "link-1", token: "token-1", label: "Accountant", permission: "view", folder_id: "folder-1", file_id: null,
+                expires_at: new Date(Date.now() + 60_000), folder: { folder_name: "Photos", display_name: null }, file: null,
+            },
+        ] as never);
+
+        const response = await GET(listRequest());
+
+        expect(response.status).toBe(200);
+        const { shares } = await response.json();
+        expect(shares).toEqual([expect.objectContaining({
+            id: "link-1",
+            kind: "folder",
+            item_id: "folder-1",
+            name: "Photos",
+            label: "Accountant",
+            permission: "view",
+            url: "http://localhost:3000/shared/folder/token-1",
+            expired: false,
+        })]);
+        expect(vi.mocked(prisma.shareLink.findMany).mock.calls[0][0]?.where).toMatchObject({ owner_clerk_id: "user-owner" });
+    });
+
+    it("rejects an unauthenticated request with 401", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: null } as never);
+
+        const response = await GET(listRequest());
+
+        expect(response.status).toBe(401);
+        expect(prisma.shareLink.findMany).not.toHaveBeenCalled();
+    });
+});
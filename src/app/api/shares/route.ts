@@ -0,0 +1,61 @@
+import { auth } from "@clerk/nextjs/server";
+import { ShareService } from "@/services/share-service";
+
+/**
+ * @fileoverview API route listing the signed-in user's shares.
+ *
+ * @module api/shares
+ */
+
+/**
+ * Lists the user's share links, with the folder or file each one shares, its label,
+ * permission and expiry.
+ *
+ * @async
+ * @function GET
+ *
+ * @param request - The incoming HTTP request object; its origin is used to build
+ * share URLs
+ *
+ * @returns A Response containing `{ shares }`, soonest to expire first
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/shares');
+ * const { shares } = await response.json();
+ * // [{ id, kind: 'folder', item_id, name, label, permission, url, expires_at, expired }, ...]
+ * ```
+ *
+ * @remarks
+ * - An item shared several times is listed once per link
+ * - Expired links are listed too, flagged with `expired`, so they can be extended or revoked
+ * - Trashed items are not listed
+ *
+ * @see {@link ShareService.listShares} for the underlying implementation
+ *
+ * @status 200 - Shares returned
+ * @status 401 - User is not authenticated
+ * @status 500 - Internal server error
+ */
+export async function GET(request: Request) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                status: 401,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+
+        const shares = await ShareService.listShares(userId, new URL(request.url).origin);
+        return new Response(JSON.stringify({ shares }), {
+            headers: {"Content-Type": "application/json"},
+        });
+    } catch (error) {
+        console.error("Error: ", error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), {
+            status: 500,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+}
@@ -0,0 +1,60 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { rm } from "fs/promises";
+import { GET } from "./route";
+import storageDriver from "@/lib/storage-client";
+import { LocalStorageDriver } from "@/lib/storage/local-storage-driver";
+
+const { root } = vi.hoisted(() => ({
+    root: `${process.env.TMPDIR ?? "/tmp"}/storage-route-${process.pid}`,
+}));
+
+vi.mock("@/lib/storage-client", async () => {
+    const { LocalStorageDriver } = await import("@/lib/storage/local-storage-driver");
+    return { default: new LocalStorageDriver(root, "test-secret", "http://localhost/api") };
+});
+
+describe("GET /api/storage/[...key]", () => {
+    const driver = storageDriver as LocalStorageDriver;
+
+    beforeAll(async () => {
+        await driver.putObject("root_user_1/photo.png", "png", { contentType: "image/png" });
+        await driver.putObject("root_user_1/page.html", "<script>alert(1)</script>", { contentType: "text/html" });
+    });
+
+    afterAll(async () => {
+        await rm(root, { recursive: true, force: true });
+    });
+
+    const get = async (url: string) => {
+        const { pathname } = new URL(url);
+        const key = decodeURIComponent(pathname.replace("/api/storage/", "")).split("/");
+        return GET(new Request(url), { params: Promise.resolve({ key }) });
+    };
+
+    it("shows images inline without letting the browser sniff or run anything", async () => {
+        const response = await get(await driver.getSignedUrl("root_user_1/photo.png", 60, { fileName: "photo.png" }));
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get("Content-Disposition")).toMatch(/^inline;/);
+        expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff");
+        expect(response.headers.get("Content-Security-Policy")).toBe("sandbox");
+    });
+
+    it("serves HTML as a sandboxed attachment", async () => {
+        const response = await get(await driver.getSignedUrl("root_user_1/page.html", 60));
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get("Content-Disposition")).toMatch(/^attachment;/);
+        expect(response.headers.get("Content-Security-Policy")).toBe("sandbox");
+    });
+
+    it("rejects a URL whose file name was changed", async () => {
+        const url = new URL(await driver.getSignedUrl("root_user_1/photo.png", 60, { fileName: "photo.png" }));
+        url.searchParams.set("name", "photo.html");
+
+        const response = await get(url.toString());
+
+        expect(response.status).toBe(403);
+    });
+});
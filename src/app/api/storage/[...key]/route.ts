@@ -0,0 +1,207 @@
+import storageDriver from "@/lib/storage-client";
+import { LocalStorageDriver, type SignedPart } from "@/lib/storage/local-storage-driver";
+
+/**
+ * @fileoverview API route serving objects from the local storage driver.
+ * 
+ * When `STORAGE_DRIVER=local`, signed download and upload URLs point here instead
+ * of at S3. The route checks the URL's HMAC signature and expiry, then streams the
+ * object from or to disk. It is public (no Clerk session) because signed URLs are handed to
+ * share recipients, exactly like S3 presigned URLs.
+ * 
+ * @module api/storage/[...key]
+ */
+
+/**
+ * Content types shown inline. Objects are served from the app's own origin with
+ * whatever type the uploader sent, so anything that could run script there (HTML,
+ * SVG, XML...) is served as an attachment instead.
+ */
+const INLINE_CONTENT_TYPES = new Set([
+    "image/png", "image/jpeg", "image/gif", "image/webp", "image/avif", "image/bmp",
+    "application/pdf", "text/plain",
+]);
+
+function isInlineType(contentType: string): boolean {
+    return INLINE_CONTENT_TYPES.has(contentType) || contentType.startsWith("audio/") || contentType.startsWith("video/");
+}
+
+/**
+ * Streams a locally stored object for a valid signed URL.
+ * 
+ * @async
+ * @function GET
+ * 
+ * @param request - The incoming HTTP request (carries `expires` and `signature` query params,
+ * and optionally the download file `name`)
+ * @param params - Route parameters
+ * @param params.key - The object key, split into path segments
+ * 
+ * @returns A streaming Response with the object's bytes
+ * 
+ * @example
+ * ```typescript
+ * // URLs are generated by LocalStorageDriver.getSignedUrl
+ * const { url } = await (await fetch('/api/files/file-123')).json();
+ * // url => /api/storage/root_user_abc/report.pdf?expires=1700000000&signature=...
+ * window.open(url, '_blank');
+ * ```
+ * 
+ * @remarks
+ * - Only available when the local storage driver is active; returns 404 otherwise
+ * - Uses {@link LocalStorageDriver.verifySignedUrl} to validate the request
+ * - The download is named after `name` when given, else after the key's last segment;
+ *   `name` is part of the signature
+ * - Only images, PDFs, plain text, audio and video are served `inline`; everything else
+ *   is an `attachment`. Responses also carry `X-Content-Type-Options: nosniff` and,
+ *   except for PDFs, `Content-Security-Policy: sandbox`, so an uploaded file cannot run
+ *   script on the app's origin
+ * 
+ * @status 200 - Object streamed
+ * @status 403 - Signature invalid or URL expired
+ * @status 404 - Local storage disabled or object not found
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ key: string[] }> }) {
+        if (!(storageDriver instanceof LocalStorageDriver)) {
+            return new Response(JSON.stringify({ error: "Not found" }), {
+                headers: { "Content-Type": "application/json" },
+                status: 404,
+            });
+        }
+
+        const { key: segments } = await params;
+        const key = segments.join("/");
+        const { searchParams } = new URL(request.url);
+
+        const name = searchParams.get("name");
+
+        if (!storageDriver.verifySignedUrl(key, searchParams.get("expires"), searchParams.get("signature"), "GET", undefined, name)) {
+            return new Response(JSON.stringify({ error: "Invalid or expired link" }), {
+                headers: { "Content-Type": "application/json" },
+                status: 403,
+            });
+        }
+
+        try {
+            const info = await storageDriver.headObject(key);
+            if (!info) {
+                return new Response(JSON.stringify({ error: "Not found" }), {
+                    headers: { "Content-Type": "application/json" },
+                    status: 404,
+                });
+            }
+
+            const stream = await storageDriver.getObjectStream(key);
+            const fileName = name || key.split("/").pop() || "download";
+            const contentType = (info.contentType ?? "application/octet-stream").split(";")[0].trim().toLowerCase();
+            const disposition = isInlineType(contentType) ? "inline" : "attachment";
+            const headers: Record<string, string> = {
+                "Content-Type": info.contentType ?? "application/octet-stream",
+                "Content-Length": String(info.size),
+                "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+                "X-Content-Type-Options": "nosniff",
+            };
+            // browsers refuse to show PDFs in sandboxed documents, and their PDF viewer
+            // does not run the file's script on our origin anyway
+            if (contentType !== "application/pdf") {
+                headers["Content-Security-Policy"] = "sandbox";
+            }
+            return new Response(stream, { headers, status: 200 });
+        } catch (error) {
+            console.error("Error serving stored object:", error);
+            return new Response(JSON.stringify({ error: "Not found" }), {
+                headers: { "Content-Type": "application/json" },
+                status: 404,
+            });
+        }
+}
+
+/**
+ * Stores an object, or one part of a multipart upload, sent to a signed upload URL.
+ * 
+ * This is the local-storage counterpart of uploading straight to an S3 presigned
+ * URL: the browser sends the file's bytes here, and they are streamed to disk.
+ * Part upload URLs carry `uploadId` and `partNumber` query params.
+ * 
+ * @async
+ * @function PUT
+ * 
+ * @param request - The incoming HTTP request; its body is the object's content
+ * @param params - Route parameters
+ * @param params.key - The object key, split into path segments
+ * 
+ * @returns An empty Response once the object is stored
+ * 
+ * @example
+ * ```typescript
+ * // URLs are generated by LocalStorageDriver.getSignedUploadUrl
+ * const { upload } = await (await fetch('/api/folders/folder-123/uploads', { ... })).json();
+ * await fetch(upload.url, { method: 'PUT', headers: upload.headers, body: file });
+ * ```
+ * 
+ * @remarks
+ * - Only available when the local storage driver is active; returns 404 otherwise
+ * - Only upload signatures are accepted; download URLs cannot overwrite objects
+ * - A part URL is only valid for its own upload ID and part number
+ * 
+ * @status 200 - Object or part stored
+ * @status 403 - Signature invalid or URL expired
+ * @status 404 - Local storage disabled or multipart upload not found
+ * @status 500 - Writing the object failed
+ */
+export async function PUT(
+    request: Request,
+    { params }: { params: Promise<{ key: string[] }> }) {
+        if (!(storageDriver instanceof LocalStorageDriver)) {
+            return new Response(JSON.stringify({ error: "Not found" }), {
+                headers: { "Content-Type": "application/json" },
+                status: 404,
+            });
+        }
+
+        const { key: segments } = await params;
+        const key = segments.join("/");
+        const { searchParams } = new URL(request.url);
+        const uploadId = searchParams.get("uploadId");
+        const part: SignedPart | undefined = uploadId
+            ? { uploadId, partNumber: Number(searchParams.get("partNumber")) }
+            : undefined;
+
+        if (!storageDriver.verifySignedUrl(key, searchParams.get("expires"), searchParams.get("signature"), "PUT", part)) {
+            return new Response(JSON.stringify({ error: "Invalid or expired link" }), {
+                headers: { "Content-Type": "application/json" },
+                status: 403,
+            });
+        }
+
+        // empty files may arrive without a body
+        const body = request.body ?? new ReadableStream<Uint8Array>({ start: (controller) => controller.close() });
+
+        if (part) {
+            try {
+                await storageDriver.writeUploadPart(key, part, body);
+                return new Response(null, { status: 200 });
+            } catch (error) {
+                console.error("Error storing uploaded part:", error);
+                return new Response(JSON.stringify({ error: "Not found" }), {
+                    headers: { "Content-Type": "application/json" },
+                    status: 404,
+                });
+            }
+        }
+
+        try {
+            await storageDriver.writeObjectStream(key, body, {
+                contentType: request.headers.get("content-type") ?? undefined,
+            });
+            return new Response(null, { status: 200 });
+        } catch (error) {
+            console.error("Error storing uploaded object:", error);
+            return new Response(JSON.stringify({ error: "Internal server error" }), {
+                headers: { "Content-Type": "application/json" },
+                status: 500,
+            });
+        }
+}
@@ -0,0 +1,67 @@
+import ConfigSingleton from "@/lib/config";
+import { ThumbnailService } from "@/services/thumbnail-service";
+
+/**
+ * @fileoverview Scheduled job route that makes missing and outdated thumbnails.
+ *
+ * @module api/thumbnails/process
+ */
+
+/** Most files given a thumbnail per run, keeping each run well inside a function timeout */
+const THUMBNAIL_BATCH_SIZE = 20;
+
+/**
+ * Makes the thumbnails of images and PDFs that have none for their current content.
+ *
+ * Uploads are given a thumbnail right after they complete; this job catches the rest:
+ * restored versions, copies, extracted archives and uploads whose thumbnail failed to
+ * start. Intended to be called by a scheduler (Vercel Cron, or `curl` from a crontab
+ * when self-hosting) with `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @async
+ * @function GET
+ *
+ * @param request - The incoming HTTP request (must carry the cron bearer token)
+ *
+ * @returns A Response with the number of thumbnails made
+ *
+ * @example
+ * ```bash
+ * curl -H "Authorization: Bearer $CRON_SECRET" https://example.com/api/thumbnails/process
+ * ```
+ *
+ * @remarks
+ * - Not tied to a Clerk session; authenticated by `CRON_SECRET` only
+ * - Rejects every request when `CRON_SECRET` is not configured
+ * - Processes at most 20 files per call, oldest first
+ *
+ * @see {@link ThumbnailService.processPending} for the underlying implementation
+ *
+ * @status 200 - Run finished
+ * @status 401 - Missing or wrong cron secret
+ * @status 500 - Internal server error
+ */
+export async function GET(request: Request) {
+    const config = ConfigSingleton.getInstance().config;
+    const authorization = request.headers.get("authorization");
+
+    if (!config.CRON_SECRET || authorization !== `Bearer ${config.CRON_SECRET}`) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+            status: 401,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+
+    try {
+        const generated = await ThumbnailService.processPending(THUMBNAIL_BATCH_SIZE);
+        return new Response(JSON.stringify({ message: "thumbnails processed", generated }), {
+            headers: {"Content-Type": "application/json"},
+        });
+    } catch (error) {
+        console.error("Error: ", error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), {
+            status: 500,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+}
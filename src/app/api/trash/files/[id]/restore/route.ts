@@ -0,0 +1,65 @@
+import { auth } from "@clerk/nextjs/server";
+import { TrashService } from "@/services/trash-service";
+import { AuthorizationError } from "@/services/authorization-service";
+
+/**
+ * @fileoverview API route for restoring a trashed file.
+ * 
+ * @module api/trash/files/[id]/restore
+ */
+
+/**
+ * Restores a file from the trash.
+ * 
+ * The file goes back into its original folder, or into the user's root folder if
+ * that folder has since been deleted or trashed.
+ * 
+ * @async
+ * @function POST
+ * 
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the trashed file
+ * 
+ * @returns A Response object containing the restored file
+ * 
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/trash/files/file-123/restore', { method: 'POST' });
+ * const restored = await response.json();
+ * console.log('Restored into folder', restored.parent_folder_id);
+ * ```
+ * 
+ * @see {@link TrashService.restoreFile} for the underlying implementation
+ * 
+ * @status 200 - File restored
+ * @status 401 - User is not authenticated
+ * @status 403 - File belongs to another user
+ * @status 404 - File not found in the trash
+ * @status 500 - Internal server error
+ */
+export async function POST(
+    request: Request,
+    { params }: { params : Promise<{ id: string }> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            const file = await TrashService.authorizeTrashedFile(userId, id);
+            const restored = await TrashService.restoreFile(file);
+            return new Response(JSON.stringify(restored), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
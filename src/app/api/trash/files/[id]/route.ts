@@ -0,0 +1,65 @@
+import { auth } from "@clerk/nextjs/server";
+import { FileService } from "@/services/file-service";
+import { TrashService } from "@/services/trash-service";
+import { AuthorizationError } from "@/services/authorization-service";
+
+/**
+ * @fileoverview API route for permanently deleting a trashed file.
+ * 
+ * @module api/trash/files/[id]
+ */
+
+/**
+ * Permanently deletes a file that is in the trash, removing it from both storage
+ * and the database without waiting for the retention period.
+ * 
+ * @async
+ * @function DELETE
+ * 
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.id - The unique identifier of the trashed file
+ * 
+ * @returns A Response object containing a success message
+ * 
+ * @example
+ * ```typescript
+ * await fetch('/api/trash/files/file-123', { method: 'DELETE' });
+ * ```
+ * 
+ * @remarks
+ * - **IRREVERSIBLE OPERATION**
+ * - Only files already in the trash can be deleted here
+ * - Uses {@link FileService.deleteFile} internally
+ * 
+ * @status 200 - File permanently deleted
+ * @status 401 - User is not authenticated
+ * @status 403 - File belongs to another user
+ * @status 404 - File not found in the trash
+ * @status 500 - Internal server error
+ */
+export async function DELETE(
+    request: Request,
+    { params }: { params : Promise<{ id: string }> }) {
+        try {
+            const { id } = await params;
+            const { userId } = await auth();
+            await TrashService.authorizeTrashedFile(userId, id);
+            const message = await FileService.deleteFile(id);
+            return new Response(JSON.stringify(message), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
@@ -0,0 +1,63 @@
+import { auth } from "@clerk/nextjs/server";
+import { TrashService } from "@/services/trash-service";
+import { AuthorizationError } from "@/services/authorization-service";
+
+/**
+ * @fileoverview API route for restoring a trashed folder.
+ * 
+ * @module api/trash/folders/[folderId]/restore
+ */
+
+/**
+ * Restores a folder, and everything inside it, from the trash.
+ * 
+ * The folder goes back into its original parent, or into the user's root folder if
+ * the parent has since been deleted or trashed.
+ * 
+ * @async
+ * @function POST
+ * 
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.folderId - The unique identifier of the trashed folder
+ * 
+ * @returns A Response object containing the restored folder
+ * 
+ * @example
+ * ```typescript
+ * await fetch('/api/trash/folders/folder-123/restore', { method: 'POST' });
+ * ```
+ * 
+ * @see {@link TrashService.restoreFolder} for the underlying implementation
+ * 
+ * @status 200 - Folder restored
+ * @status 401 - User is not authenticated
+ * @status 403 - Folder belongs to another user
+ * @status 404 - Folder not found in the trash
+ * @status 500 - Internal server error
+ */
+export async function POST(
+    request: Request,
+    { params }: { params : Promise<{ folderId: string }> }) {
+        try {
+            const { folderId } = await params;
+            const { userId } = await auth();
+            const folder = await TrashService.authorizeTrashedFolder(userId, folderId);
+            const restored = await TrashService.restoreFolder(folder);
+            return new Response(JSON.stringify(restored), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
@@ -0,0 +1,65 @@
+import { auth } from "@clerk/nextjs/server";
+import { FolderService } from "@/services/folder-service";
+import { TrashService } from "@/services/trash-service";
+import { AuthorizationError } from "@/services/authorization-service";
+
+/**
+ * @fileoverview API route for permanently deleting a trashed folder.
+ * 
+ * @module api/trash/folders/[folderId]
+ */
+
+/**
+ * Permanently deletes a folder that is in the trash, together with all of its
+ * subfolders and files, without waiting for the retention period.
+ * 
+ * @async
+ * @function DELETE
+ * 
+ * @param request - The incoming HTTP request object
+ * @param params - Route parameters
+ * @param params.folderId - The unique identifier of the trashed folder
+ * 
+ * @returns A Response object containing a success message
+ * 
+ * @example
+ * ```typescript
+ * await fetch('/api/trash/folders/folder-123', { method: 'DELETE' });
+ * ```
+ * 
+ * @remarks
+ * - **IRREVERSIBLE OPERATION** - deletes all subfolders and files recursively
+ * - Only folders already in the trash can be deleted here
+ * - Uses {@link FolderService.deleteFolderRecursively} internally
+ * 
+ * @status 200 - Folder permanently deleted
+ * @status 401 - User is not authenticated
+ * @status 403 - Folder belongs to another user
+ * @status 404 - Folder not found in the trash
+ * @status 500 - Internal server error
+ */
+export async function DELETE(
+    request: Request,
+    { params }: { params : Promise<{ folderId: string }> }) {
+        try {
+            const { folderId } = await params;
+            const { userId } = await auth();
+            await TrashService.authorizeTrashedFolder(userId, folderId);
+            await FolderService.deleteFolderRecursively(folderId);
+            return new Response(JSON.stringify({ message: "deletion successful!" }), {
+                headers: {"Content-Type": "application/json"},
+            });
+        } catch (error) {
+            if (error instanceof AuthorizationError) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                    status: error.status,
+                    headers: {"Content-Type": "application/json"},
+                });
+            }
+            console.error("Error: ", error);
+            return new Response(JSON.stringify({ error: 'Internal server error' }), {
+                status: 500,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+}
@@ -0,0 +1,61 @@
+import ConfigSingleton from "@/lib/config";
+import { TrashService } from "@/services/trash-service";
+
+/**
+ * @fileoverview Scheduled job route that empties expired items from every user's trash.
+ * 
+ * @module api/trash/purge
+ */
+
+/**
+ * Hard-deletes all trashed files and folders older than `TRASH_RETENTION_DAYS`.
+ * 
+ * Intended to be called by a scheduler (Vercel Cron, or `curl` from a crontab when
+ * self-hosting) with `Authorization: Bearer <CRON_SECRET>`.
+ * 
+ * @async
+ * @function GET
+ * 
+ * @param request - The incoming HTTP request (must carry the cron bearer token)
+ * 
+ * @returns A Response with the number of purged files and folders
+ * 
+ * @example
+ * ```bash
+ * curl -H "Authorization: Bearer $CRON_SECRET" https://example.com/api/trash/purge
+ * ```
+ * 
+ * @remarks
+ * - Not tied to a Clerk session; authenticated by `CRON_SECRET` only
+ * - Rejects every request when `CRON_SECRET` is not configured
+ * 
+ * @see {@link TrashService.purgeExpired} for the underlying implementation
+ * 
+ * @status 200 - Purge finished
+ * @status 401 - Missing or wrong cron secret
+ * @status 500 - Internal server error
+ */
+export async function GET(request: Request) {
+    const config = ConfigSingleton.getInstance().config;
+    const authorization = request.headers.get("authorization");
+
+    if (!config.CRON_SECRET || authorization !== `Bearer ${config.CRON_SECRET}`) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+            status: 401,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+
+    try {
+        const purged = await TrashService.purgeExpired(config.TRASH_RETENTION_DAYS);
+        return new Response(JSON.stringify({ message: "purge complete", purged }), {
+            headers: {"Content-Type": "application/json"},
+        });
+    } catch (error) {
+        console.error("Error: ", error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), {
+            status: 500,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+}
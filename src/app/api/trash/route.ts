@@ -0,0 +1,55 @@
+import { auth } from "@clerk/nextjs/server";
+import { TrashService } from "@/services/trash-service";
+
+/**
+ * @fileoverview API route listing the signed-in user's trash.
+ * 
+ * @module api/trash
+ */
+
+/**
+ * Lists the files and folders the user has moved to the trash.
+ * 
+ * @async
+ * @function GET
+ * 
+ * @returns A Response containing `{ files, folders }`, newest deletions first
+ * 
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/trash');
+ * const { files, folders } = await response.json();
+ * ```
+ * 
+ * @remarks
+ * - Only items trashed directly are listed; a trashed folder's contents are not listed separately
+ * - Items are purged automatically after `TRASH_RETENTION_DAYS`
+ * 
+ * @see {@link TrashService.listTrash} for the underlying implementation
+ * 
+ * @status 200 - Trash contents returned
+ * @status 401 - User is not authenticated
+ * @status 500 - Internal server error
+ */
+export async function GET() {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                status: 401,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+
+        const trash = await TrashService.listTrash(userId);
+        return new Response(JSON.stringify(trash), {
+            headers: {"Content-Type": "application/json"},
+        });
+    } catch (error) {
+        console.error("Error: ", error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), {
+            status: 500,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+}
@@ -0,0 +1,67 @@
+import ConfigSingleton from "@/lib/config";
+import { BlobService } from "@/services/blob-service";
+
+/**
+ * @fileoverview Scheduled job route that deduplicates direct uploads.
+ *
+ * @module api/uploads/deduplicate
+ */
+
+/** Most files hashed per run, keeping each run well inside a function timeout */
+const DEDUPLICATION_BATCH_SIZE = 5;
+
+/**
+ * Hashes and deduplicates direct uploads that were not processed after they completed.
+ *
+ * Uploads are deduplicated right after they complete; this job catches the rest:
+ * restored versions without a blob, and uploads whose processing failed to start or
+ * was cut short. Intended to be called by a scheduler (Vercel Cron, or `curl` from a crontab
+ * when self-hosting) with `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @async
+ * @function GET
+ *
+ * @param request - The incoming HTTP request (must carry the cron bearer token)
+ *
+ * @returns A Response with the number of files deduplicated
+ *
+ * @example
+ * ```bash
+ * curl -H "Authorization: Bearer $CRON_SECRET" https://example.com/api/uploads/deduplicate
+ * ```
+ *
+ * @remarks
+ * - Not tied to a Clerk session; authenticated by `CRON_SECRET` only
+ * - Rejects every request when `CRON_SECRET` is not configured
+ * - Processes at most 5 files per call, oldest first
+ *
+ * @see {@link BlobService.processPending} for the underlying implementation
+ *
+ * @status 200 - Run finished
+ * @status 401 - Missing or wrong cron secret
+ * @status 500 - Internal server error
+ */
+export async function GET(request: Request) {
+    const config = ConfigSingleton.getInstance().config;
+    const authorization = request.headers.get("authorization");
+
+    if (!config.CRON_SECRET || authorization !== `Bearer ${config.CRON_SECRET}`) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+            status: 401,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+
+    try {
+        const deduplicated = await BlobService.processPending(DEDUPLICATION_BATCH_SIZE);
+        return new Response(JSON.stringify({ message: "uploads deduplicated", deduplicated }), {
+            headers: {"Content-Type": "application/json"},
+        });
+    } catch (error) {
+        console.error("Error: ", error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), {
+            status: 500,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+}
@@ -0,0 +1,63 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, PATCH } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+describe("/api/user/preferences", () => {
+    const updateUser = vi.fn();
+    const patch = (body: unknown) => PATCH(new Request("http://localhost/api/user/preferences", {
+        method: "PATCH",
+        body: JSON.stringify(body),
+    }));
+
+    beforeEach(() => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({
+                    id: "user-owner",
+                    publicMetadata: { root_folder: "root-1", preferences: { sort: "size", order: "sideways" } },
+                })),
+                updateUser,
+            },
+        } as never);
+    });
+
+    it("returns the saved preferences with defaults for the rest", async () => {
+        const response = await GET();
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ view: "table", sort: "size", order: "asc" });
+    });
+
+    it("saves changes next to the other metadata", async () => {
+        const response = await patch({ view: "grid", order: "desc" });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ view: "grid", sort: "size", order: "desc" });
+        expect(updateUser).toHaveBeenCalledWith("user-owner", {
+            publicMetadata: {
+                root_folder: "root-1",
+                preferences: { view: "grid", sort: "size", order: "desc" },
+            },
+        });
+    });
+
+    it("rejects unknown preferences and values with 400", async () => {
+        for (const body of [{ view: "list" }, { sort: "owner" }, { theme: "dark" }, ["grid"]]) {
+            expect((await patch(body)).status).toBe(400);
+        }
+        expect(updateUser).not.toHaveBeenCalled();
+    });
+
+    it("requires authentication", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: null } as never);
+        expect((await GET()).status).toBe(401);
+        expect((await patch({ view: "grid" })).status).toBe(401);
+    });
+});
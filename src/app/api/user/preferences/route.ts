@@ -0,0 +1,121 @@
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { PreferencesService } from "@/services/preferences-service";
+import { ValidationError } from "@/lib/errors";
+
+/**
+ * @fileoverview API routes for the signed-in user's folder view preferences.
+ * 
+ * @module api/user/preferences
+ */
+
+/**
+ * Returns how the user likes folder contents shown.
+ * 
+ * @async
+ * @function GET
+ * 
+ * @returns A Response containing `{ view, sort, order }`
+ * 
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/user/preferences');
+ * const { view, sort, order } = await response.json();
+ * ```
+ * 
+ * @remarks
+ * Users who have not chosen yet get the table view, sorted by name, ascending.
+ * 
+ * @see {@link PreferencesService.getPreferences} for the underlying implementation
+ * 
+ * @status 200 - Preferences returned
+ * @status 401 - User is not authenticated
+ * @status 500 - Internal server error
+ */
+export async function GET() {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                status: 401,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+
+        const user = await (await clerkClient()).users.getUser(userId);
+        return new Response(JSON.stringify(PreferencesService.getPreferences(user)), {
+            headers: {"Content-Type": "application/json"},
+        });
+    } catch (error) {
+        console.error("Error: ", error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), {
+            status: 500,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+}
+
+/**
+ * Changes some of the user's preferences.
+ * 
+ * @async
+ * @function PATCH
+ * 
+ * @param request - The incoming HTTP request object
+ * @param request.body - Any of `view` (`table` or `grid`), `sort` (`name`, `created_at`,
+ * `size` or `type`) and `order` (`asc` or `desc`)
+ * 
+ * @returns A Response containing all of the user's preferences after the change
+ * 
+ * @example
+ * ```typescript
+ * await fetch('/api/user/preferences', {
+ *   method: 'PATCH',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ view: 'grid' }),
+ * });
+ * ```
+ * 
+ * @see {@link PreferencesService.updatePreferences} for the underlying implementation
+ * 
+ * @status 200 - Preferences saved
+ * @status 400 - Unknown preference or value
+ * @status 401 - User is not authenticated
+ * @status 500 - Internal server error
+ */
+export async function PATCH(request: Request) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                status: 401,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+
+        const body = await request.json().catch(() => null);
+        if (!body || typeof body !== "object" || Array.isArray(body)) {
+            return new Response(JSON.stringify({ error: 'Provide the preferences to change' }), {
+                status: 400,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+
+        const user = await (await clerkClient()).users.getUser(userId);
+        const preferences = await PreferencesService.updatePreferences(user, body);
+        return new Response(JSON.stringify(preferences), {
+            headers: {"Content-Type": "application/json"},
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return new Response(JSON.stringify({ error: error.message }), {
+                status: error.status,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+        console.error("Error: ", error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), {
+            status: 500,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+}
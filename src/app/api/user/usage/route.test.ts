@@ -0,0 +1,91 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "./route";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import prisma from "@/lib/db-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1", STORAGE_QUOTA_BYTES: 1000 },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findMany: vi.fn(),
+        },
+        file: {
+            aggregate: vi.fn(),
+            findMany: vi.fn(),
+        },
+        fileVersion: {
+            aggregate: vi.fn(),
+        },
+        blob: {
+            aggregate: vi.fn(),
+        },
+        $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+}));
+
+describe("GET /api/user/usage", () => {
+    beforeEach(() => {
+        vi.mocked(prisma.file.aggregate).mockResolvedValue({ _sum: { size: BigInt(10) } } as never);
+        vi.mocked(prisma.fileVersion.aggregate).mockResolvedValue({ _sum: { size: null } } as never);
+        vi.mocked(prisma.blob.aggregate).mockResolvedValue({ _sum: { size: BigInt(0) } } as never);
+        vi.mocked(prisma.folder.findMany).mockResolvedValue([
+            { id: "root-1", parent_folder_id: null },
+            { id: "docs", parent_folder_id: "root-1" },
+        ] as never);
+        vi.mocked(prisma.file.findMany).mockResolvedValue([
+            { parent_folder_id: "docs", size: 10, versions: [] },
+        ] as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: { root_folder: "root-1" } })),
+            },
+        } as never);
+    });
+
+    it("returns the signed-in user's usage, quota and bytes per folder", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+
+        const response = await GET();
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({
+            logical_bytes: 10,
+            physical_bytes: 10,
+            quota_bytes: 1000,
+            folders: { "root-1": 10, docs: 10 },
+        });
+    });
+
+    it("reports an unlimited quota as null", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: "user-owner" } as never);
+        vi.mocked(clerkClient).mockResolvedValue({
+            users: {
+                getUser: vi.fn(() => Promise.resolve({ id: "user-owner", publicMetadata: { storage_quota: 0 } })),
+            },
+        } as never);
+
+        expect((await (await GET()).json()).quota_bytes).toBeNull();
+    });
+
+    it("returns 401 when not signed in", async () => {
+        vi.mocked(auth).mockResolvedValue({ userId: null } as never);
+
+        const response = await GET();
+
+        expect(response.status).toBe(401);
+        expect(prisma.file.aggregate).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,72 @@
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { BlobService } from "@/services/blob-service";
+import { QuotaService } from "@/services/quota-service";
+import ConfigSingleton from "@/lib/config";
+import { type StorageUsage } from "@/types/types";
+
+/**
+ * @fileoverview API route reporting the signed-in user's storage usage.
+ * 
+ * @module api/user/usage
+ */
+
+/**
+ * Reports how much storage the user's files take up, their quota, and how the
+ * bytes are spread over their folders.
+ * 
+ * @async
+ * @function GET
+ * 
+ * @returns A Response containing `{ logical_bytes, physical_bytes, quota_bytes, folders }`
+ * 
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/user/usage');
+ * const { logical_bytes, quota_bytes, folders } = await response.json();
+ * console.log(`${logical_bytes} of ${quota_bytes ?? 'unlimited'} bytes used`);
+ * console.log(`${folders[folderId]} bytes in this folder`);
+ * ```
+ * 
+ * @remarks
+ * - `logical_bytes` adds up the sizes of every file and earlier version, trashed ones included;
+ *   it is what counts against the quota
+ * - `physical_bytes` counts identical content once, as it is stored
+ * - `quota_bytes` is the user's own quota or `STORAGE_QUOTA_BYTES`; null means unlimited
+ * - `folders` maps every live folder ID to the bytes in its subtree (trash left out)
+ * 
+ * @see {@link BlobService.getUsage} for the logical and physical bytes
+ * @see {@link QuotaService.getFolderUsage} for the per-folder bytes
+ * 
+ * @status 200 - Usage returned
+ * @status 401 - User is not authenticated
+ * @status 500 - Internal server error
+ */
+export async function GET() {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                status: 401,
+                headers: {"Content-Type": "application/json"},
+            });
+        }
+
+        const user = await (await clerkClient()).users.getUser(userId);
+        const { STORAGE_QUOTA_BYTES } = ConfigSingleton.getInstance().config;
+
+        const usage: StorageUsage = {
+            ...await BlobService.getUsage(userId),
+            quota_bytes: QuotaService.getQuota(user, STORAGE_QUOTA_BYTES),
+            folders: await QuotaService.getFolderUsage(userId),
+        };
+        return new Response(JSON.stringify(usage), {
+            headers: {"Content-Type": "application/json"},
+        });
+    } catch (error) {
+        console.error("Error: ", error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), {
+            status: 500,
+            headers: {"Content-Type": "application/json"},
+        });
+    }
+}
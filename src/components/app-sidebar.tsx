@@ -7,14 +7,23 @@ import {
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarMenu,
+  SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar"
 
+import Link from "next/link";
+import { IconShare2, IconTrash } from "@tabler/icons-react";
+
 import { FolderTree } from '@/components/features/folder-tree/folder-tree';
 import NewFileButton from "@/components/features/new-file-button/new-file-button";
 import NewFolderButton from "./features/new-folder-button/new-folder-button";
 import ShareFolderButton from "./features/share-folder-button/share-folder-button";
 import DeleteFolderButton from "./features/delete-folder-button/delete-folder-button";
+import RenameFolderButton from "./features/rename-folder-button/rename-folder-button";
+import CopyFolderButton from "./features/copy-folder-button/copy-folder-button";
+import DownloadFolderButton from "./features/download-folder-button/download-folder-button";
+import UploadFolderButton from "./features/upload-folder-button/upload-folder-button";
+import StorageMeter from "./features/storage-meter/storage-meter";
 import { useAuthFolder } from "@/hooks/use-auth-folder";
 
 /**
@@ -25,9 +34,11 @@ import { useAuthFolder } from "@/hooks/use-auth-folder";
 /**
  * Main sidebar component for the authenticated user's file explorer.
  * 
- * Displays folder operations (new folder, new file, share, delete) and a
- * hierarchical folder tree for navigation. Supports both direct folder access
- * and share token-based access.
+ * Displays folder operations (new folder, new file, rename, share, delete), a
+ * hierarchical folder tree for navigation and drag-to-move, links to the
+ * "Shared by me" and Trash views, and a meter of the storage used out of the
+ * user's quota.
+ * Supports both direct folder access and share token-based access.
  * 
  * @param props - Component props
  * @returns Sidebar UI with folder operations and navigation tree
@@ -38,7 +49,7 @@ import { useAuthFolder } from "@/hooks/use-auth-folder";
  * ```
  */
 export function AppSidebar() {
-  const { rootFolderId, folderTreeRefreshKey } = useAuthFolder();
+  const { rootFolderId, folderTreeRefreshKey, fetchFolderContents, refetchFolderTree } = useAuthFolder();
   return (
     <Sidebar>
       <SidebarContent>
@@ -49,6 +60,10 @@ export function AppSidebar() {
                 <SidebarMenuItem>
                     <NewFolderButton />
                     <NewFileButton />
+                    <UploadFolderButton />
+                    <RenameFolderButton />
+                    <CopyFolderButton />
+                    <DownloadFolderButton />
                     <ShareFolderButton />
                     <DeleteFolderButton />
                 </SidebarMenuItem>
@@ -59,7 +74,44 @@ export function AppSidebar() {
         <SidebarGroup>
             <SidebarGroupLabel>File Directory</SidebarGroupLabel>
             <SidebarGroupContent>
-                <FolderTree folderId={rootFolderId} readOnly={false} refreshKey={folderTreeRefreshKey}/>
+                <FolderTree
+                    folderId={rootFolderId}
+                    readOnly={false}
+                    refreshKey={folderTreeRefreshKey}
+                    onMove={() => {
+                        fetchFolderContents();
+                        refetchFolderTree();
+                    }}/>
+            </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+            <SidebarGroupContent>
+                <SidebarMenu>
+                    <SidebarMenuItem>
+                        <SidebarMenuButton asChild>
+                            <Link href="/folders/shared">
+                                <IconShare2 />
+                                Shared by me
+                            </Link>
+                        </SidebarMenuButton>
+                    </SidebarMenuItem>
+                    <SidebarMenuItem>
+                        <SidebarMenuButton asChild>
+                            <Link href="/folders/trash">
+                                <IconTrash />
+                                Trash
+                            </Link>
+                        </SidebarMenuButton>
+                    </SidebarMenuItem>
+                </SidebarMenu>
+            </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup className="mt-auto">
+            <SidebarGroupLabel>Storage</SidebarGroupLabel>
+            <SidebarGroupContent>
+                <StorageMeter />
             </SidebarGroupContent>
         </SidebarGroup>
 
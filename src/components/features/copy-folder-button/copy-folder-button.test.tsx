@@ -0,0 +1,100 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import CopyFolderButton from "./copy-folder-button";
+import { TestWrapper } from "@/test-utils/test-wrapper";
+import React from "react";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import { ApiError } from "@/lib/api-client";
+import { toast } from "sonner";
+
+vi.mock("@/hooks/use-mobile", () => ({
+    useIsMobile: () => false,
+}));
+
+vi.mock("@/api-services/folder-api.service", () => ({
+    FolderApiService: {
+        copyFolder: vi.fn(),
+        getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
+    }
+}));
+
+const mockFetchFolderContents = vi.fn();
+const mockRefetchFolderTree = vi.fn();
+
+vi.mock("@/hooks/use-auth-folder", () => ({
+    useAuthFolder: vi.fn(() => ({
+        currentFolderId: "test-folder-123",
+        fetchFolderContents: mockFetchFolderContents,
+        refetchFolderTree: mockRefetchFolderTree,
+    })),
+}));
+
+vi.mock("next/navigation", () => ({
+    useParams: () => ({ folderId: ["test-folder-123"] }),
+    useRouter: () => ({
+        push: vi.fn(),
+        replace: vi.fn(),
+        back: vi.fn(),
+    }),
+    useSearchParams: () => new URLSearchParams(),
+    usePathname: () => '/',
+}));
+
+vi.mock("sonner");
+
+describe("CopyFolderButton", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(toast.loading).mockReturnValue("toast-1");
+    });
+
+    const renderWithProviders = (component: React.ReactElement) => {
+        return render(
+            <TestWrapper>
+                {component}
+            </TestWrapper>
+        );
+    };
+
+    it("renders the duplicate folder button", () => {
+        renderWithProviders(<CopyFolderButton />);
+        expect(screen.getByText("Duplicate Folder")).toBeInTheDocument();
+    });
+
+    it("copies the current folder, reports progress and refreshes the tree", async () => {
+        vi.mocked(FolderApiService.copyFolder).mockImplementation(async (_id, _parent, onProgress) => {
+            onProgress?.({ copied: 1, total: 2, current: "Reports" });
+            onProgress?.({ copied: 2, total: 2, current: "q1.pdf" });
+            return { id: "copy-1", folder_name: "Reports (1)" } as never;
+        });
+
+        const user = userEvent.setup();
+        renderWithProviders(<CopyFolderButton />);
+        await user.click(screen.getByTestId("copy-folder-button"));
+
+        await waitFor(() => {
+            expect(toast.success).toHaveBeenCalledWith('Folder duplicated as "Reports (1)"!', { id: "toast-1" });
+        });
+        expect(FolderApiService.copyFolder).toHaveBeenCalledWith("test-folder-123", null, expect.any(Function));
+        expect(toast.loading).toHaveBeenCalledWith("Duplicating folder... 2/2", { id: "toast-1" });
+        expect(mockFetchFolderContents).toHaveBeenCalled();
+        expect(mockRefetchFolderTree).toHaveBeenCalled();
+    });
+
+    it("shows the server's message when the copy fails", async () => {
+        vi.mocked(FolderApiService.copyFolder).mockResolvedValue(
+            new ApiError("HTTP 400", 400, { error: "A destination parent_folder_id is required" }));
+
+        const user = userEvent.setup();
+        renderWithProviders(<CopyFolderButton />);
+        await user.click(screen.getByTestId("copy-folder-button"));
+
+        await waitFor(() => {
+            expect(toast.error).toHaveBeenCalledWith("A destination parent_folder_id is required", { id: "toast-1" });
+        });
+        expect(mockRefetchFolderTree).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Button component for duplicating the current folder.
+ *
+ * This component provides a button that copies the folder currently being viewed,
+ * with all of its subfolders and files, next to the original.
+ *
+ * @module components/features/copy-folder-button
+ */
+import { toast } from "sonner";
+import React from "react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { IconCopy } from "@tabler/icons-react";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import { ApiError } from "@/lib/api-client";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+
+/**
+ * Button component for duplicating the current folder.
+ *
+ * Copies the folder the user is currently viewing into its parent folder. The copy
+ * gets a numeric suffix (e.g. "Reports (1)") and a loading toast shows how many
+ * items have been copied so far.
+ *
+ * @example
+ * ```tsx
+ * <CopyFolderButton />
+ * ```
+ *
+ * @remarks
+ * - Uses the current folder ID from the auth folder context
+ * - The root folder cannot be duplicated; the API's error is shown as a toast
+ * - Disabled while a copy is in progress
+ * - Uses FolderApiService.copyFolder for API calls
+ */
+export default function CopyFolderButton() {
+    const [copying, setCopying] = useState<boolean>(false);
+    const { currentFolderId, fetchFolderContents, refetchFolderTree } = useAuthFolder();
+
+    const handleCopyFolder = async () => {
+        if (!currentFolderId) {return};
+
+        setCopying(true);
+        const toastId = toast.loading("Duplicating folder...");
+
+        try {
+            const result = await FolderApiService.copyFolder(currentFolderId, null, ({ copied, total }) => {
+                toast.loading(`Duplicating folder... ${copied}/${total}`, { id: toastId });
+            });
+            if (result instanceof ApiError) throw result;
+
+            await fetchFolderContents();
+            refetchFolderTree();
+            toast.success(`Folder duplicated as "${result.display_name || result.folder_name}"!`, { id: toastId });
+        } catch (err) {
+            toast.error((err instanceof ApiError && err.data?.error) || "Something went wrong while duplicating the folder.", { id: toastId });
+        } finally {
+            setCopying(false);
+        }
+    }
+
+    return (<SidebarMenuButton asChild>
+        <Button
+            variant={"outline"}
+            disabled={copying}
+            onClick={handleCopyFolder}
+            className="w-full justify-start hover:cursor-pointer"
+            data-testid="copy-folder-button">
+            {React.createElement(IconCopy)}
+            Duplicate Folder
+        </Button>
+    </SidebarMenuButton>);
+}
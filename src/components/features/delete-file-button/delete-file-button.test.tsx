@@ -24,7 +24,7 @@ vi.mock("@/api-services/file-api.service", () => ({
 vi.mock("@/api-services/folder-api.service", () => ({
     FolderApiService: {
         getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
-        getFolderContents: vi.fn(() => Promise.resolve({ files: [], subFolders: [] })),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
     }
 }));
 
@@ -56,10 +56,8 @@ describe("DeleteFileButton", () => {
         file_name: "test-file.pdf",
         size: 1024,
         created_at: new Date("2024-01-01"),
-        shared: false,
         s3_link: null,
         s3_key: "user-789/test-file.pdf",
-        expires_at: null,
         parent_folder_id: "folder-456",
         owner_clerk_id: "user-789"
     };
@@ -103,7 +101,7 @@ describe("DeleteFileButton", () => {
             });
             expect(screen.getByText("Delete File?")).toBeInTheDocument();
             expect(screen.getByText((content, element) => {
-                return element?.textContent === "Are you sure you want to delete test-file.pdf? This action cannot be undone.";
+                return element?.textContent === "Are you sure you want to delete test-file.pdf? You can restore it from the Trash.";
             })).toBeInTheDocument();
             expect(screen.getByText("Cancel")).toBeInTheDocument();
         });
@@ -122,7 +120,7 @@ describe("DeleteFileButton", () => {
             // Expect the alert dialog options to not be in the area
             expect(screen.queryByText("Delete File?")).not.toBeInTheDocument();
             expect(screen.queryByText((content, element) => {
-                return element?.textContent === "Are you sure you want to delete test-file.pdf? This action cannot be undone.";
+                return element?.textContent === "Are you sure you want to delete test-file.pdf? You can restore it from the Trash.";
             })).not.toBeInTheDocument();
             expect(screen.queryByText("Cancel")).not.toBeInTheDocument();
             // Expect the delete button to appear and be in the screen
@@ -147,7 +145,7 @@ describe("DeleteFileButton", () => {
             // Verify delete confirmation is present
             expect(screen.getByText("Delete File?")).toBeInTheDocument();
             expect(screen.getByText((content, element) => {
-                return element?.textContent === "Are you sure you want to delete test-file.pdf? This action cannot be undone.";
+                return element?.textContent === "Are you sure you want to delete test-file.pdf? You can restore it from the Trash.";
             })).toBeInTheDocument();
             expect(screen.getByRole("button", { name: /delete file/i })).toBeInTheDocument();
         });
@@ -2,7 +2,7 @@
  * @fileoverview Button component for deleting files with confirmation dialog.
  * 
  * This component provides a destructive button that triggers a confirmation dialog
- * before permanently deleting a file from both the database and S3 storage.
+ * before moving a file to the trash.
  * 
  * @module components/features/delete-file-button
  */
@@ -27,9 +27,9 @@ import { useAuthFolder } from "@/hooks/use-auth-folder";
 /**
  * Button component for deleting files with confirmation.
  * 
- * Displays a destructive button that opens a confirmation dialog before deleting
- * a file. The delete operation is irreversible and removes the file from both
- * the database and S3 storage. Shows toast notifications for success/failure.
+ * Displays a destructive button that opens a confirmation dialog before moving
+ * a file to the trash, where it can be restored until it is purged. Shows toast
+ * notifications for success/failure.
  * 
  * @param props - Component props
  * @param props.file - The file object to delete (null if no file selected)
@@ -82,7 +82,7 @@ export default function DeleteFileButton({ file, readOnly, onClose } : {
             },
             {
                 loading: `Deleting "${file.file_name}"...`,
-                success: (fileName) => `File "${fileName}" deleted successfully!`,
+                success: (fileName) => `File "${fileName}" moved to trash!`,
                 error: "Failed to delete file. Please try again.",
             }
         );
@@ -110,7 +110,7 @@ export default function DeleteFileButton({ file, readOnly, onClose } : {
                         Delete File?
                     </AlertDialogTitle>
                     <AlertDialogDescription>
-                        Are you sure you want to delete <span className="font-semibold">{file?.file_name}</span>? This action cannot be undone.
+                        Are you sure you want to delete <span className="font-semibold">{file?.file_name}</span>? You can restore it from the Trash.
                     </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
@@ -15,7 +15,7 @@ vi.mock("@/api-services/folder-api.service", () => ({
     FolderApiService: {
         deleteFolder: vi.fn(() => Promise.resolve({})),
         getRootFolderId: vi.fn(() => Promise.resolve("test-folder-123")),
-        getFolderContents: vi.fn(() => Promise.resolve({ files: [], subFolders: [] })),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
     },
 }));
 
@@ -48,7 +48,6 @@ describe("DeleteFolderButton", () => {
         is_root: true,
         s3_link: "https://s3.example.com/test-folder",
         s3_key: "test-folder",
-        shared: false,
         subfolders: [],
         files: [],
         owner_clerk_id: "test-user-123",
@@ -94,7 +93,7 @@ describe("DeleteFolderButton", () => {
             });
 
             expect(screen.getByText("Delete this Folder?")).toBeInTheDocument();
-            expect(screen.getByText("Are you sure you want to delete this folder?")).toBeInTheDocument();
+            expect(screen.getByText("Are you sure you want to delete this folder? It will be moved to the Trash along with everything inside it.")).toBeInTheDocument();
             expect(screen.getByText("Cancel")).toBeInTheDocument();
             expect(screen.getByText("Delete")).toBeInTheDocument();
         });
@@ -2,8 +2,7 @@
  * @fileoverview Button component for deleting folders with confirmation dialog.
  * 
  * This component provides a destructive button that triggers a confirmation dialog
- * before recursively deleting a folder and all its contents (subfolders and files)
- * from both the database and S3 storage.
+ * before moving a folder and all its contents (subfolders and files) to the trash.
  * 
  * @module components/features/delete-folder-button
  */
@@ -27,9 +26,8 @@ import { useAuthFolder } from "@/hooks/use-auth-folder";
 /**
  * Button component for deleting folders with confirmation.
  * 
- * Displays a destructive button that opens a confirmation dialog before deleting
- * a folder. The delete operation is **irreversible** and recursively removes the
- * folder and all its contents from both database and S3 storage. Uses URL params
+ * Displays a destructive button that opens a confirmation dialog before moving
+ * a folder, and everything inside it, to the trash. Uses the auth folder context
  * to determine which folder to delete.
  * 
  * @param props - Component props
@@ -48,7 +46,7 @@ import { useAuthFolder } from "@/hooks/use-auth-folder";
  * ```
  * 
  * @remarks
- * - **DESTRUCTIVE OPERATION**: Deletes all subfolders and files recursively
+ * - Subfolders and files go to the trash with the folder and can be restored together
  * - Gets folder ID from URL params (useParams hook)
  * - Shows confirmation dialog before deletion
  * - Disabled in read-only mode
@@ -71,7 +69,7 @@ export default function DeleteFolderButton() {
                 }, 
                 {
                     loading: `Deleting Current Folder...`,
-                    success: `Successfully deleted the folder!`,
+                    success: `Moved the folder to the trash!`,
                     error: (err) => {
                         if (err instanceof Error) {
                             return err.message || "Problem occured when deleting folder, please try again!";
@@ -101,7 +99,7 @@ export default function DeleteFolderButton() {
                 <AlertDialogTitle>Delete this Folder?</AlertDialogTitle>
             </AlertDialogHeader>
             <AlertDialogDescription>
-                Are you sure you want to delete this folder?
+                Are you sure you want to delete this folder? It will be moved to the Trash along with everything inside it.
             </AlertDialogDescription>
             <AlertDialogFooter>
                 <AlertDialogCancel
@@ -46,7 +46,7 @@ vi.mock("@/api-services/folder-api.service", () => ({
             display_name: "AmineBit"
         })),
         getRootFolderId: vi.fn(() => Promise.resolve("test-folder-123")),
-        getFolderContents: vi.fn(() => Promise.resolve({ files: [], subFolders: [] })),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
     },
 }));
 
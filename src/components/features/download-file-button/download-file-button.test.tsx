@@ -19,7 +19,7 @@ vi.mock("@/api-services/file-api.service", () => ({
 vi.mock("@/api-services/folder-api.service", () => ({
     FolderApiService: {
         getRootFolderId: vi.fn(() => Promise.resolve("test-folder-123")),
-        getFolderContents: vi.fn(() => Promise.resolve({ files: [], subFolders: [] })),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
     },
 }));
 
@@ -49,9 +49,7 @@ describe("DownloadFileButton", () => {
         file_name: "test-file.pdf",
         size: 1024,
         created_at: new Date("2024-01-01"),
-        shared: false,
         s3_link: "https://s3.example.com/file-123",
-        expires_at: undefined,
         parent_folder_id: "folder-456",
         owner_clerk_id: "user-789"
     };
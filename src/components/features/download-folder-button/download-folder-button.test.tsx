@@ -0,0 +1,79 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import DownloadFolderButton from "./download-folder-button";
+import { TestWrapper } from "@/test-utils/test-wrapper";
+import React from "react";
+import { toast } from "sonner";
+
+vi.mock("@/hooks/use-mobile", () => ({
+    useIsMobile: () => false,
+}));
+
+vi.mock("@/api-services/folder-api.service", () => ({
+    FolderApiService: {
+        getArchiveUrl: (folderId: string) => `/api/folders/${folderId}/archive`,
+        getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
+    }
+}));
+
+vi.mock("@/hooks/use-auth-folder", () => ({
+    useAuthFolder: vi.fn(() => ({
+        currentFolderId: "test-folder-123",
+    })),
+}));
+
+vi.mock("next/navigation", () => ({
+    useParams: () => ({ folderId: ["test-folder-123"] }),
+    useRouter: () => ({
+        push: vi.fn(),
+        replace: vi.fn(),
+        back: vi.fn(),
+    }),
+    useSearchParams: () => new URLSearchParams(),
+    usePathname: () => '/',
+}));
+
+vi.mock("sonner");
+
+describe("DownloadFolderButton", () => {
+    let clickedLinks: HTMLAnchorElement[];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clickedLinks = [];
+        vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(function (this: HTMLAnchorElement) {
+            clickedLinks.push(this);
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const renderWithProviders = (component: React.ReactElement) => {
+        return render(
+            <TestWrapper>
+                {component}
+            </TestWrapper>
+        );
+    };
+
+    it("renders the download folder button", () => {
+        renderWithProviders(<DownloadFolderButton />);
+        expect(screen.getByText("Download Folder")).toBeInTheDocument();
+    });
+
+    it("downloads the current folder's archive", async () => {
+        const user = userEvent.setup();
+        renderWithProviders(<DownloadFolderButton />);
+        await user.click(screen.getByTestId("download-folder-button"));
+
+        expect(clickedLinks).toHaveLength(1);
+        expect(clickedLinks[0].getAttribute("href")).toBe("/api/folders/test-folder-123/archive");
+        expect(clickedLinks[0].hasAttribute("download")).toBe(true);
+        expect(toast.success).toHaveBeenCalledWith("Folder download started!");
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Button component for downloading the current folder as a ZIP archive.
+ *
+ * This component provides a button that downloads the folder currently being viewed,
+ * including all of its subfolders and files, as a single ZIP file.
+ *
+ * @module components/features/download-folder-button
+ */
+import { toast } from "sonner";
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { IconFileZip } from "@tabler/icons-react";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+
+/**
+ * Button component for downloading the current folder as a ZIP archive.
+ *
+ * Points the browser at the folder's archive endpoint. The server streams the
+ * archive, so the download starts right away and the browser shows its progress.
+ *
+ * @example
+ * ```tsx
+ * <DownloadFolderButton />
+ * ```
+ *
+ * @remarks
+ * - Uses the current folder ID from the auth folder context
+ * - The archive keeps the folder hierarchy
+ * - Uses FolderApiService.getArchiveUrl to build the download link
+ */
+export default function DownloadFolderButton() {
+    const { currentFolderId } = useAuthFolder();
+
+    const handleDownloadFolder = () => {
+        if (!currentFolderId) {return};
+
+        const link = document.createElement("a");
+        link.href = FolderApiService.getArchiveUrl(currentFolderId);
+        link.download = "";
+        link.click();
+        toast.success("Folder download started!");
+    }
+
+    return (<SidebarMenuButton asChild>
+        <Button
+            variant={"outline"}
+            disabled={!currentFolderId}
+            onClick={handleDownloadFolder}
+            className="w-full justify-start hover:cursor-pointer"
+            data-testid="download-folder-button">
+            {React.createElement(IconFileZip)}
+            Download Folder
+        </Button>
+    </SidebarMenuButton>);
+}
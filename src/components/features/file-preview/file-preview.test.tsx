@@ -0,0 +1,144 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import FilePreview from "./file-preview";
+import { FileApiService } from "@/api-services/file-api.service";
+import { type File } from "@/types/types";
+
+vi.mock("@/api-services/file-api.service", () => ({
+    FileApiService: {
+        downloadFile: vi.fn(() => Promise.resolve({ message: "ok", url: "https://storage.example.com/signed" })),
+        downloadFileFromShareToken: vi.fn(() => Promise.resolve({ message: "ok", url: "https://storage.example.com/shared", file_name: "x", expires_at: new Date() })),
+        downloadSharedFile: vi.fn(() => Promise.resolve({ message: "ok", url: "https://storage.example.com/download", file_name: "x", expires_at: null, downloads_remaining: 0 })),
+    },
+}));
+
+const makeFile = (file_name: string, size = 100) => ({
+    id: "file-123",
+    file_name,
+    size,
+    created_at: new Date("2024-01-01"),
+    parent_folder_id: "folder-456",
+}) as File;
+
+describe("FilePreview", () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        vi.stubGlobal("fetch", fetchMock);
+        fetchMock.mockResolvedValue(new Response("# Notes\n\nSome **bold** text"));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("shows images from a signed URL", async () => {
+        render(<FilePreview file={makeFile("photo.PNG")}/>);
+
+        const image = await screen.findByRole("img", { name: "photo.PNG" });
+        expect(image).toHaveAttribute("src", "https://storage.example.com/signed");
+        expect(FileApiService.downloadFile).toHaveBeenCalledWith("file-123");
+    });
+
+    it("embeds PDFs and plays audio and video", async () => {
+        const { container, rerender } = render(<FilePreview file={makeFile("report.pdf")}/>);
+        expect(await screen.findByTitle("report.pdf")).toHaveAttribute("src", "https://storage.example.com/signed");
+
+        rerender(<FilePreview file={makeFile("song.mp3")}/>);
+        await screen.findByTestId("file-preview");
+        expect(container.querySelector("audio")).toHaveAttribute("controls");
+
+        rerender(<FilePreview file={makeFile("clip.webm")}/>);
+        await screen.findByTestId("file-preview");
+        expect(container.querySelector("video")).toHaveAttribute("src", "https://storage.example.com/signed");
+    });
+
+    it("renders Markdown without raw HTML", async () => {
+        fetchMock.mockResolvedValue(new Response("# Notes\n\n<b>raw</b> and **bold**"));
+        render(<FilePreview file={makeFile("README.md")}/>);
+
+        expect(await screen.findByRole("heading", { name: "Notes" })).toBeInTheDocument();
+        expect(screen.getByText("bold").tagName).toBe("STRONG");
+        expect(screen.getByText(/<b>raw<\/b>/)).toBeInTheDocument();
+        expect(fetchMock).toHaveBeenCalledWith("https://storage.example.com/signed");
+    });
+
+    it("highlights code and shows plain text as is", async () => {
+        fetchMock.mockResolvedValue(new Response("def main():\n    return 1"));
+        const { rerender } = render(<FilePreview file={makeFile("main.py")}/>);
+        expect(await screen.findByText("def")).toHaveClass("font-semibold");
+
+        fetchMock.mockResolvedValue(new Response("plain **text**"));
+        rerender(<FilePreview file={makeFile("notes.txt")}/>);
+        expect(await screen.findByText("plain **text**")).toBeInTheDocument();
+    });
+
+    it("uses the share token route in shared folders", async () => {
+        render(<FilePreview file={makeFile("photo.jpg")} shareToken="token-abc"/>);
+
+        expect(await screen.findByRole("img")).toHaveAttribute("src", "https://storage.example.com/shared");
+        expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalledWith("file-123", "token-abc");
+        expect(FileApiService.downloadFile).not.toHaveBeenCalled();
+    });
+
+    it("uses a signed URL it is given instead of requesting one", async () => {
+        render(<FilePreview file={makeFile("photo.jpg")} shareToken="token-abc" signedUrl="https://storage.example.com/given"/>);
+
+        expect(await screen.findByRole("img")).toHaveAttribute("src", "https://storage.example.com/given");
+        expect(FileApiService.downloadFileFromShareToken).not.toHaveBeenCalled();
+    });
+
+    it("offers a download for unsupported and large files", async () => {
+        const user = userEvent.setup();
+        const open = vi.spyOn(window, "open").mockImplementation(() => null);
+        const { rerender } = render(<FilePreview file={makeFile("archive.zip")}/>);
+
+        expect(screen.getByText("No preview is available for this type of file.")).toBeInTheDocument();
+        expect(FileApiService.downloadFile).not.toHaveBeenCalled();
+        await user.click(screen.getByRole("button", { name: "Download to view" }));
+        expect(open).toHaveBeenCalledWith("https://storage.example.com/signed", "_blank");
+
+        rerender(<FilePreview file={makeFile("huge.log", 5 * 1024 * 1024)}/>);
+        expect(screen.getByText("Files over 1 MB are not previewed.")).toBeInTheDocument();
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("counts downloads through a share link but not previews", async () => {
+        const user = userEvent.setup();
+        const open = vi.spyOn(window, "open").mockImplementation(() => null);
+        render(<FilePreview file={makeFile("archive.zip")} shareToken="token-abc" permission="download"/>);
+
+        await user.click(screen.getByRole("button", { name: "Download to view" }));
+
+        expect(FileApiService.downloadSharedFile).toHaveBeenCalledWith("file-123", "token-abc");
+        expect(FileApiService.downloadFileFromShareToken).not.toHaveBeenCalled();
+        expect(open).toHaveBeenCalledWith("https://storage.example.com/download", "_blank");
+    });
+
+    it("does not preview files through a link with a download limit", async () => {
+        vi.mocked(FileApiService.downloadFileFromShareToken).mockResolvedValueOnce({ message: "ok", url: null, downloads_remaining: 2 } as never);
+        render(<FilePreview file={makeFile("photo.jpg")} shareToken="token-abc" permission="download"/>);
+
+        expect(await screen.findByText("Files shared with a download limit are not previewed.")).toBeInTheDocument();
+        expect(screen.getByRole("button", { name: "Download to view" })).toBeInTheDocument();
+        expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it("offers no download through a view-only link", () => {
+        render(<FilePreview file={makeFile("archive.zip")} shareToken="token-abc" permission="view"/>);
+
+        expect(screen.getByText("No preview is available for this type of file.")).toBeInTheDocument();
+        expect(screen.queryByRole("button", { name: "Download to view" })).not.toBeInTheDocument();
+    });
+
+    it("falls back to the download prompt if the file cannot be loaded", async () => {
+        fetchMock.mockResolvedValue(new Response("missing", { status: 404 }));
+        render(<FilePreview file={makeFile("notes.txt")}/>);
+
+        expect(await screen.findByText("This file could not be previewed.")).toBeInTheDocument();
+    });
+});
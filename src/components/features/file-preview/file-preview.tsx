@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Preview of a file's content in the file sidebars.
+ *
+ * This component shows images, PDFs, audio, video, plain text, Markdown and
+ * highlighted source code from a short-lived signed URL, and offers a download for
+ * everything else. It works for the signed-in user's own files and, with a share
+ * token, for shared files and files in shared folders.
+ *
+ * @module components/features/file-preview
+ */
+import { Fragment, useEffect, useState, type ReactNode } from "react";
+import { IconDownload, IconEyeOff } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FileApiService } from "@/api-services/file-api.service";
+import { ApiError } from "@/lib/api-client";
+import { getPreviewKind } from "@/lib/file-preview";
+import { highlight, languageOf } from "@/lib/syntax-highlight";
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown";
+import { formatBytes } from "@/lib/utils";
+import { type File, type SharePermission } from "@/types/types";
+
+/** Largest text, Markdown or code file that is read into the preview */
+const MAX_TEXT_PREVIEW_BYTES = 1024 * 1024;
+
+const TOKEN_CLASSES: Record<string, string> = {
+    comment: "text-muted-foreground italic",
+    string: "text-green-700 dark:text-green-400",
+    number: "text-orange-600 dark:text-orange-400",
+    keyword: "text-purple-700 dark:text-purple-400 font-semibold",
+};
+
+const HEADING_CLASSES = ["text-xl font-bold", "text-lg font-bold", "text-base font-semibold", "text-sm font-semibold", "text-sm font-semibold", "text-sm font-semibold"];
+
+/**
+ * Fetches a signed URL for previewing a file, through the share token route if a token
+ * is given; previews do not count against a link's download limit. Resolves to null
+ * if the share link has a download limit, since those links hand out no preview URL.
+ */
+async function fetchFileUrl(file: File, shareToken?: string | null): Promise<string | null> {
+    const data = shareToken !== undefined
+        ? await FileApiService.downloadFileFromShareToken(file.id, shareToken)
+        : await FileApiService.downloadFile(file.id);
+    if (data instanceof ApiError) {
+        throw new Error("Failed to generate file link");
+    }
+    if (!data.url) {
+        if ("downloads_remaining" in data && data.downloads_remaining !== null) return null;
+        throw new Error("Failed to generate file link");
+    }
+    return data.url;
+}
+
+function CodeBlock({ code, language }: { code: string, language: string | null }) {
+    return (
+        <pre className="overflow-auto rounded-md bg-muted p-3 text-xs leading-relaxed">
+            <code>
+                {highlight(code, language).map((token, index) => (
+                    token.type === "plain"
+                        ? <Fragment key={index}>{token.text}</Fragment>
+                        : <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                ))}
+            </code>
+        </pre>
+    );
+}
+
+function renderInline(nodes: MarkdownInline[]): ReactNode {
+    return nodes.map((node, index) => {
+        switch (node.type) {
+            case "text":
+                return <Fragment key={index}>{node.text}</Fragment>;
+            case "code":
+                return <code key={index} className="rounded bg-muted px-1 text-xs">{node.text}</code>;
+            case "strong":
+                return <strong key={index}>{renderInline(node.children)}</strong>;
+            case "em":
+                return <em key={index}>{renderInline(node.children)}</em>;
+            case "link":
+                return (
+                    <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline">
+                        {renderInline(node.children)}
+                    </a>
+                );
+        }
+    });
+}
+
+function renderBlocks(blocks: MarkdownBlock[]): ReactNode {
+    return blocks.map((block, index) => {
+        switch (block.type) {
+            case "heading": {
+                const Heading = `h${block.level}` as const;
+                return <Heading key={index} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.children)}</Heading>;
+            }
+            case "paragraph":
+                return <p key={index}>{renderInline(block.children)}</p>;
+            case "code":
+                return <CodeBlock key={index} code={block.text} language={languageOf(`code.${block.language}`)}/>;
+            case "quote":
+                return <blockquote key={index} className="space-y-2 border-l-2 pl-3 text-muted-foreground">{renderBlocks(block.children)}</blockquote>;
+            case "list": {
+                const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+                return block.ordered
+                    ? <ol key={index} start={block.start} className="list-decimal space-y-1 pl-5">{items}</ol>
+                    : <ul key={index} className="list-disc space-y-1 pl-5">{items}</ul>;
+            }
+            case "rule":
+                return <hr key={index}/>;
+        }
+    });
+}
+
+/**
+ * Preview of a file.
+ *
+ * @param props - Component props
+ * @param props.file - The file to preview
+ * @param props.shareToken - Token of the share link the file was opened through; leave
+ * it out for the signed-in user's own files
+ * @param props.permission - Permission of that share link; the download prompt is
+ * left out for `view`
+ * @param props.signedUrl - A signed URL the caller already has for the file; when
+ * given, no new URL is requested
+ * @returns The preview, or a download prompt for files that cannot be previewed
+ *
+ * @example
+ * ```tsx
+ * <FilePreview file={file}/>
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // In a shared folder
+ * <FilePreview file={file} shareToken={shareToken}/>
+ * ```
+ *
+ * @remarks
+ * - The kind of preview follows the file extension ({@link getPreviewKind}); the URL
+ *   comes from {@link FileApiService.downloadFile} or
+ *   {@link FileApiService.downloadFileFromShareToken} and expires after about an hour
+ * - Text, Markdown and code are downloaded into the page, up to 1 MB; larger files get
+ *   the download prompt instead
+ * - Markdown is rendered without raw HTML and code is highlighted with
+ *   {@link highlight}; SVG and HTML files are shown as code, never rendered
+ * - If the browser cannot display the file, or the URL cannot be fetched, the
+ *   download prompt is shown
+ * - Files opened through a link with a download limit are not previewed, since the
+ *   link only hands out counted downloads
+ * - Pages that already hold a URL for the file pass it as `signedUrl` to save a request
+ * - Downloads through a share token go through
+ *   {@link FileApiService.downloadSharedFile} and count against the link's download
+ *   limit; previews do not
+ */
+export default function FilePreview({ file, shareToken, permission, signedUrl }: { file: File, shareToken?: string | null, permission?: SharePermission | null, signedUrl?: string }) {
+    const kind = getPreviewKind(file.file_name);
+    const readsText = kind === "text" || kind === "markdown" || kind === "code";
+    const tooLarge = readsText && file.size > MAX_TEXT_PREVIEW_BYTES;
+    const previewable = kind !== null && !tooLarge;
+
+    const [url, setUrl] = useState<string | null>(null);
+    const [text, setText] = useState<string | null>(null);
+    const [failed, setFailed] = useState(false);
+    const [limited, setLimited] = useState(false);
+    const [isDownloading, setIsDownloading] = useState(false);
+
+    useEffect(() => {
+        setUrl(null);
+        setText(null);
+        setFailed(false);
+        setLimited(false);
+        if (!previewable) return;
+
+        let cancelled = false;
+        (async () => {
+            try {
+                const fileUrl = signedUrl ?? await fetchFileUrl(file, shareToken);
+                if (fileUrl === null) {
+                    if (!cancelled) setLimited(true);
+                    return;
+                }
+                if (readsText) {
+                    const response = await fetch(fileUrl);
+                    if (!response.ok) throw new Error(`Failed to read file: ${response.status}`);
+                    const content = await response.text();
+                    if (!cancelled) setText(content);
+                }
+                if (!cancelled) setUrl(fileUrl);
+            } catch (error) {
+                console.error("Error loading preview: ", error);
+                if (!cancelled) setFailed(true);
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [file, shareToken, signedUrl, previewable, readsText]);
+
+    const handleDownload = async () => {
+        setIsDownloading(true);
+        try {
+            if (shareToken !== undefined) {
+                const data = await FileApiService.downloadSharedFile(file.id, shareToken);
+                if (data instanceof ApiError) {
+                    throw new Error("Failed to generate download link");
+                }
+                window.open(data.url, "_blank");
+            } else {
+                const fileUrl = url ?? await fetchFileUrl(file);
+                if (fileUrl) window.open(fileUrl, "_blank");
+            }
+        } catch (error) {
+            console.error("Error downloading file: ", error);
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    if (!previewable || failed || limited) {
+        return (
+            <div className="flex flex-col items-center gap-2 rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground" data-testid="file-preview-fallback">
+                <IconEyeOff className="size-6" aria-hidden/>
+                <p>
+                    {failed
+                        ? "This file could not be previewed."
+                        : limited
+                            ? "Files shared with a download limit are not previewed."
+                            : tooLarge
+                                ? `Files over ${formatBytes(MAX_TEXT_PREVIEW_BYTES)} are not previewed.`
+                                : "No preview is available for this type of file."}
+                </p>
+                {permission !== "view" && (
+                    <Button variant="outline" size="sm" className="hover:cursor-pointer" disabled={isDownloading} onClick={handleDownload}>
+                        <IconDownload className="h-4 w-4"/>
+                        Download to view
+                    </Button>
+                )}
+            </div>
+        );
+    }
+
+    if (!url) {
+        return <Skeleton className="h-48 w-full" data-testid="file-preview-loading"/>;
+    }
+
+    const onMediaError = () => setFailed(true);
+
+    return (
+        <div className="overflow-hidden rounded-md border" data-testid="file-preview">
+            {kind === "image" && (
+                // signed URLs are not known at build time, so next/image cannot optimize them
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={url} alt={file.file_name} className="max-h-96 w-full object-contain" onError={onMediaError}/>
+            )}
+            {kind === "pdf" && <iframe src={url} title={file.file_name} className="h-96 w-full"/>}
+            {kind === "audio" && <audio src={url} controls className="w-full" onError={onMediaError}/>}
+            {kind === "video" && <video src={url} controls className="max-h-96 w-full" onError={onMediaError}/>}
+            {kind === "text" && <pre className="max-h-96 overflow-auto whitespace-pre-wrap p-3 text-xs">{text}</pre>}
+            {kind === "code" && (
+                <div className="max-h-96 overflow-auto">
+                    <CodeBlock code={text ?? ""} language={languageOf(file.file_name)}/>
+                </div>
+            )}
+            {kind === "markdown" && (
+                <div className="max-h-96 space-y-3 overflow-auto p-3 text-sm">{renderBlocks(parseMarkdown(text ?? ""))}</div>
+            )}
+        </div>
+    );
+}
@@ -13,16 +13,21 @@ vi.mock("@/hooks/use-mobile", () => ({
 vi.mock("@/api-services/file-api.service", () => ({
     FileApiService: {
         downloadFile: vi.fn(() => Promise.resolve({})),
+        listVersions: vi.fn(() => Promise.resolve([])),
     }
 }));
 
 vi.mock("@/api-services/folder-api.service", () => ({
     FolderApiService: {
         getRootFolderId: vi.fn(() => Promise.resolve("test-folder-123")),
-        getFolderContents: vi.fn(() => Promise.resolve({ files: [], subFolders: [] })),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
     },
 }));
 
+vi.mock("../file-preview/file-preview", () => ({
+    default: ({ file }: { file: File }) => <div data-testid="file-preview">Preview of {file.file_name}</div>,
+}));
+
 vi.mock("@/hooks/use-auth-folder", () => ({
     useAuthFolder: vi.fn(() => ({
         currentFolderId: "test-folder-123",
@@ -49,9 +54,7 @@ describe("FileSidebar", () => {
         file_name: "test-file.pdf",
         size: 1024,
         created_at: new Date(2024, 0, 1),
-        shared: false,
         s3_link: "https://s3.example.com/file-123",
-        expires_at: undefined,
         parent_folder_id: "folder-456",
         owner_clerk_id: "user-789",
         type: "application/pdf"
@@ -90,13 +93,24 @@ describe("FileSidebar", () => {
             render(<FileSidebarWrapper initialOpen={true} />);    
             expect(screen.getByText("test-file.pdf")).toBeInTheDocument();
             expect(screen.getByText("Size:")).toBeInTheDocument();
-            expect(screen.getByText("1024kb")).toBeInTheDocument();
+            expect(screen.getByText("1 KB")).toBeInTheDocument();
             expect(screen.getByText("Created:")).toBeInTheDocument();
             expect(screen.getByText("1/1/2024")).toBeInTheDocument();
             expect(screen.getByText("Type:")).toBeInTheDocument();
             expect(screen.getByText("PDF")).toBeInTheDocument();
             expect(screen.getByText("Download")).toBeInTheDocument();
         });
+
+        it("should preview the file", () => {
+            render(<FileSidebarWrapper initialOpen={true} />);
+            expect(screen.getByTestId("file-preview")).toHaveTextContent("Preview of test-file.pdf");
+        });
+
+        it("should show the version history to the owner", async () => {
+            render(<FileSidebarWrapper initialOpen={true} />);
+            expect(await screen.findByText("Version history")).toBeInTheDocument();
+            expect(screen.getByText("Version 1 (current)")).toBeInTheDocument();
+        });
     });
 
     describe("Testing Interactivity", () => {
@@ -104,7 +118,7 @@ describe("FileSidebar", () => {
             render(<FileSidebarWrapper initialOpen={false} />);
             expect(screen.queryByText("test-file.pdf")).not.toBeInTheDocument();
             expect(screen.queryByText("Size:")).not.toBeInTheDocument();
-            expect(screen.queryByText("1024kb")).not.toBeInTheDocument();
+            expect(screen.queryByText("1 KB")).not.toBeInTheDocument();
             expect(screen.queryByText("Created:")).not.toBeInTheDocument();
             expect(screen.queryByText("1/1/2024")).not.toBeInTheDocument();
             expect(screen.queryByText("Type:")).not.toBeInTheDocument();
@@ -14,7 +14,11 @@ import { IconX } from "@tabler/icons-react";
 import DownloadFileButton from "@/components/features/download-file-button/download-file-button";
 import ShareFileButton from "../share-file-button/share-file-button";
 import DeleteFileButton from "../delete-file-button/delete-file-button";
+import RenameFileButton from "../rename-file-button/rename-file-button";
+import FileVersionHistory from "../file-version-history/file-version-history";
+import FilePreview from "../file-preview/file-preview";
 import { type File } from "@/types/types";
+import { formatBytes } from "@/lib/utils";
 
 /**
  * Props for the FileSidebar component.
@@ -26,7 +30,7 @@ interface FileSidebarProps {
   isOpen: boolean;
   /** Callback to close the sidebar */
   onClose: () => void;
-  /** If true, disables write actions (share, delete) */
+  /** If true, disables write actions (rename, share, delete) */
   readOnly: boolean;
 }
 
@@ -45,14 +49,14 @@ const getFileType = (fileName: string): string => {
  * Animated sidebar component for file details and actions.
  * 
  * Displays an animated slide-out panel from the right showing file metadata
- * (name, size, creation date, type) and action buttons (download, share, delete).
+ * (name, size, creation date, type) and action buttons (download, rename, share, delete).
  * Uses Framer Motion for smooth entrance/exit animations.
  * 
  * @param props - Component props
  * @param props.file - The file to display (null if no file selected)
  * @param props.isOpen - Whether the sidebar is visible
  * @param props.onClose - Callback to close the sidebar
- * @param props.readOnly - If true, disables write actions (share, delete)
+ * @param props.readOnly - If true, disables write actions (rename, share, delete)
  * @returns Animated sidebar panel with file details
  * 
  * @example
@@ -83,15 +87,20 @@ const getFileType = (fileName: string): string => {
  * - Only renders when `isOpen` is true and `file` is not null
  * - Shows a backdrop overlay that closes the sidebar when clicked
  * - Sidebar slides in from the right with spring animation
- * - Displays file name, size (in KB), creation date, and type
- * - Provides download, share, and delete action buttons
+ * - Previews the file's content above its details (see {@link FilePreview})
+ * - Displays file name, size (via {@link formatBytes}), creation date, and type
+ * - Provides download, rename, share, and delete action buttons
+ * - Shows the file's version history below the actions, unless `readOnly`
  * - Close button (X) in the top-right corner
- * - Fixed width of 320px (w-80)
+ * - Fixed width of 384px (w-96); the content scrolls if it is taller than the screen
  * - Uses AnimatePresence for smooth mount/unmount
  * 
+ * @see {@link FilePreview} for the content preview
  * @see {@link DownloadFileButton} for download functionality
+ * @see {@link RenameFileButton} for renaming functionality
  * @see {@link ShareFileButton} for sharing functionality
  * @see {@link DeleteFileButton} for deletion functionality
+ * @see {@link FileVersionHistory} for downloading and restoring earlier versions
  */
 export function FileSidebar({ file, isOpen, onClose, readOnly }: FileSidebarProps) {
   return (
@@ -119,10 +128,10 @@ export function FileSidebar({ file, isOpen, onClose, readOnly }: FileSidebarProp
               stiffness: 200,
               duration: 0.3 
             }}
-            className="fixed right-0 top-0 h-full w-80 bg-background border-l shadow-lg z-50"
+            className="fixed right-0 top-0 h-full w-96 bg-background border-l shadow-lg z-50"
             data-testid="file-sidebar"
           >
-            <div className="p-6 h-full flex flex-col">
+            <div className="p-6 h-full flex flex-col overflow-y-auto">
               {/* Header */}
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-lg font-semibold">{file.file_name}</h2>
@@ -131,12 +140,17 @@ export function FileSidebar({ file, isOpen, onClose, readOnly }: FileSidebarProp
                 </Button>
               </div>
 
+              {/* Preview */}
+              <div className="mb-6">
+                <FilePreview file={file}/>
+              </div>
+
               {/* File Details */}
               <div className="space-y-4 mb-6">
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground font-bold">Size:</span>
-                    <span className="text-sm">{file.size}kb</span>
+                    <span className="text-sm">{formatBytes(file.size)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground font-bold">Created:</span>
@@ -152,9 +166,13 @@ export function FileSidebar({ file, isOpen, onClose, readOnly }: FileSidebarProp
               {/* Actions */}
               <div className="space-y-2 flex-1">
                 <DownloadFileButton file={file}/>
+                <RenameFileButton file={file} readOnly={readOnly} onClose={onClose}/>
                 <ShareFileButton file={file} readOnly={readOnly}/>
                 <DeleteFileButton file={file} readOnly={readOnly} onClose={onClose}/>
               </div>
+
+              {/* Version History */}
+              {!readOnly && <FileVersionHistory file={file}/>}
             </div>
           </motion.div>
         </>
@@ -0,0 +1,118 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import FileVersionHistory from "./file-version-history";
+import { TestWrapper } from "@/test-utils/test-wrapper";
+import React from "react";
+import { FileApiService } from "@/api-services/file-api.service";
+import { type File } from "@/types/types";
+
+vi.mock("@/hooks/use-mobile", () => ({
+    useIsMobile: () => false,
+}));
+
+vi.mock("@/api-services/file-api.service", () => ({
+    FileApiService: {
+        listVersions: vi.fn(() => Promise.resolve([
+            { id: "version-2", file_id: "file-123", version: 2, size: 1000, s3_key: "key-v2", created_at: "2024-01-02T00:00:00.000Z" },
+            { id: "version-1", file_id: "file-123", version: 1, size: 1000, s3_key: "key-v1", created_at: "2024-01-01T00:00:00.000Z" },
+        ])),
+        downloadVersion: vi.fn(() => Promise.resolve({ url: "https://signed.example.com/version-2" })),
+        restoreVersion: vi.fn(() => Promise.resolve({ id: "file-123", file_name: "report.pdf", size: 1000, version: 4, created_at: "2024-01-01T00:00:00.000Z" })),
+    }
+}));
+
+vi.mock("@/api-services/folder-api.service", () => ({
+    FolderApiService: {
+        getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
+    }
+}));
+
+const mockFetchFolderContents = vi.fn();
+vi.mock("@/hooks/use-auth-folder", () => ({
+    useAuthFolder: vi.fn(() => ({
+        fetchFolderContents: mockFetchFolderContents,
+        refetchFolderTree: vi.fn(),
+    })),
+}));
+
+vi.mock("next/navigation", () => ({
+    useParams: () => ({}),
+    useRouter: () => ({ push: vi.fn() }),
+    useSearchParams: () => new URLSearchParams(),
+    usePathname: () => '/',
+}));
+
+vi.mock("sonner", () => ({
+    toast: {
+        promise: vi.fn((fn: () => Promise<unknown>) => fn()),
+        error: vi.fn(),
+    },
+}));
+
+describe("FileVersionHistory", () => {
+    const file = {
+        id: "file-123",
+        file_name: "report.pdf",
+        size: 1200,
+        created_at: new Date(2024, 0, 1),
+        version: 3,
+        version_created_at: new Date(2024, 0, 3),
+    } as File;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    const renderWithProviders = () => render(
+        <TestWrapper>
+            <FileVersionHistory file={file} />
+        </TestWrapper>
+    );
+
+    it("lists the current and earlier versions with their size changes", async () => {
+        renderWithProviders();
+
+        expect(await screen.findByText("Version 3 (current)")).toBeInTheDocument();
+        expect(screen.getByText("1.2 KB (+200 B)")).toBeInTheDocument();
+        expect(screen.getByText("1,000 B (same size)")).toBeInTheDocument();
+        expect(screen.getAllByRole("button", { name: /restore/i })).toHaveLength(2);
+    });
+
+    it("opens a download URL for an earlier version", async () => {
+        const user = userEvent.setup();
+        const open = vi.spyOn(window, "open").mockImplementation(() => null);
+        renderWithProviders();
+        await screen.findByText("Version 2");
+
+        await user.click(screen.getAllByRole("button", { name: /download/i })[0]);
+
+        await waitFor(() => {
+            expect(open).toHaveBeenCalledWith("https://signed.example.com/version-2", "_blank");
+        });
+        expect(FileApiService.downloadVersion).toHaveBeenCalledWith("file-123", "version-2");
+    });
+
+    it("restores a version and refreshes the history and folder", async () => {
+        const user = userEvent.setup();
+        renderWithProviders();
+        await screen.findByText("Version 1");
+
+        await user.click(screen.getAllByRole("button", { name: /restore/i })[1]);
+
+        expect(await screen.findByText("Version 4 (current)")).toBeInTheDocument();
+        expect(FileApiService.restoreVersion).toHaveBeenCalledWith("file-123", "version-1");
+        expect(FileApiService.listVersions).toHaveBeenCalledTimes(2);
+        expect(mockFetchFolderContents).toHaveBeenCalled();
+    });
+
+    it("explains how versions are created when there are none", async () => {
+        vi.mocked(FileApiService.listVersions).mockResolvedValueOnce([]);
+        renderWithProviders();
+
+        expect(await screen.findByText("Uploading a file with the same name adds a new version.")).toBeInTheDocument();
+        expect(screen.queryByRole("button", { name: /restore/i })).not.toBeInTheDocument();
+    });
+});
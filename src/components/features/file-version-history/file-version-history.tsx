@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Version history panel for a file.
+ *
+ * This component lists the current and earlier versions of a file, with what
+ * changed between them, and lets the owner download or restore an earlier version.
+ *
+ * @module components/features/file-version-history
+ */
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { IconArrowBackUp, IconDownload } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { FileApiService } from "@/api-services/file-api.service";
+import { ApiError } from "@/lib/api-client";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+import { type File, type FileVersion } from "@/types/types";
+import { formatBytes } from "@/lib/utils";
+
+/**
+ * A row in the history: the current version, or an earlier one (with its `id`).
+ */
+type HistoryEntry = {
+    id?: string;
+    version: number;
+    size: number;
+    created_at: Date;
+};
+
+/**
+ * Describes the size difference to the previous version, e.g. "+120 B".
+ *
+ * @param change - Size of a version minus the size of the version before it
+ * @returns The signed difference, or "same size"
+ */
+const formatSizeChange = (change: number): string => {
+    if (change === 0) return "same size";
+    return `${change > 0 ? "+" : "-"}${formatBytes(Math.abs(change))}`;
+};
+
+/**
+ * Panel listing a file's versions, newest first.
+ *
+ * Each version shows when it was uploaded, its size and how the size changed from
+ * the version before it. Earlier versions have two actions: **Download** (opens a
+ * temporary URL in a new tab) and **Restore** (makes it the current version again).
+ *
+ * @param props - Component props
+ * @param props.file - The file whose history is shown
+ * @returns List of the file's versions
+ *
+ * @example
+ * ```tsx
+ * {!readOnly && <FileVersionHistory file={file} />}
+ * ```
+ *
+ * @remarks
+ * - Fetches the earlier versions on mount via {@link FileApiService.listVersions}
+ * - Restoring keeps the replaced content as an earlier version, so nothing is lost
+ * - Refreshes the current folder after a restore, since the file's size changes
+ * - Only the newest versions are kept; the server deletes older ones
+ *
+ * @see {@link FileApiService.restoreVersion} for the restore API
+ */
+export default function FileVersionHistory({ file }: { file: File }) {
+    const [current, setCurrent] = useState<File>(file);
+    const [versions, setVersions] = useState<FileVersion[] | null>(null);
+    const [pendingId, setPendingId] = useState<string | null>(null);
+    const { fetchFolderContents } = useAuthFolder();
+
+    useEffect(() => {
+        setCurrent(file);
+    }, [file]);
+
+    const fetchVersions = useCallback(async () => {
+        try {
+            const result = await FileApiService.listVersions(file.id);
+            if (result instanceof ApiError) return;
+            setVersions(result);
+        } catch (error) {
+            console.error("Error fetching versions:", error);
+            setVersions([]);
+        }
+    }, [file.id]);
+
+    useEffect(() => {
+        fetchVersions();
+    }, [fetchVersions]);
+
+    const handleDownload = async (entry: HistoryEntry) => {
+        if (!entry.id) return;
+        const versionId = entry.id;
+        setPendingId(versionId);
+        await toast.promise(
+            async () => {
+                const data = await FileApiService.downloadVersion(file.id, versionId);
+                if (data instanceof ApiError) throw data;
+                window.open(data.url, "_blank");
+                return entry.version;
+            },
+            {
+                loading: `Preparing version ${entry.version} for download...`,
+                success: (version) => `Version ${version} download started!`,
+                error: "Failed to download version. Please try again.",
+            }
+        );
+        setPendingId(null);
+    };
+
+    const handleRestore = async (entry: HistoryEntry) => {
+        if (!entry.id) return;
+        const versionId = entry.id;
+        setPendingId(versionId);
+        await toast.promise(
+            async () => {
+                const restored = await FileApiService.restoreVersion(file.id, versionId);
+                if (restored instanceof ApiError) throw restored;
+                setCurrent(restored);
+                await fetchVersions();
+                await fetchFolderContents();
+                return entry.version;
+            },
+            {
+                loading: `Restoring version ${entry.version}...`,
+                success: (version) => `Version ${version} restored!`,
+                error: (err) => (err instanceof ApiError && err.data?.error) || "Failed to restore version. Please try again.",
+            }
+        );
+        setPendingId(null);
+    };
+
+    const entries: HistoryEntry[] = [
+        {
+            version: current.version ?? 1,
+            size: current.size,
+            created_at: current.version_created_at ?? current.created_at,
+        },
+        ...(versions ?? []),
+    ];
+
+    return (
+        <div className="space-y-2" data-testid="file-version-history">
+            <h3 className="text-sm text-muted-foreground font-bold">Version history</h3>
+            {versions === null ? (
+                <p className="text-sm text-muted-foreground">Loading versions...</p>
+            ) : (
+                <ul className="space-y-3 max-h-64 overflow-y-auto">
+                    {entries.map((entry, index) => {
+                        const previous = entries[index + 1];
+                        return (
+                            <li key={entry.id ?? "current"} className="space-y-1">
+                                <div className="flex justify-between text-sm">
+                                    <span className="font-medium">
+                                        Version {entry.version}{index === 0 && " (current)"}
+                                    </span>
+                                    <span>{(new Date(entry.created_at)).toLocaleString()}</span>
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                    {formatBytes(entry.size)}{previous && ` (${formatSizeChange(entry.size - previous.size)})`}
+                                </div>
+                                {entry.id && (
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="hover:cursor-pointer"
+                                            disabled={pendingId === entry.id}
+                                            onClick={() => handleDownload(entry)}>
+                                            <IconDownload className="mr-1 h-4 w-4" />
+                                            Download
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="hover:cursor-pointer"
+                                            disabled={pendingId === entry.id}
+                                            onClick={() => handleRestore(entry)}>
+                                            <IconArrowBackUp className="mr-1 h-4 w-4" />
+                                            Restore
+                                        </Button>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            {versions?.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                    Uploading a file with the same name adds a new version.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,64 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import FolderGrid from "./folder-grid";
+import { type Folder, type File } from "@/types/types";
+
+const mockPush = vi.fn();
+vi.mock("next/navigation", () => ({
+    useRouter: vi.fn(() => ({
+        push: mockPush,
+    })),
+}));
+
+describe("FolderGrid", () => {
+    const files = [
+        { id: "file-1", file_name: "holiday.JPG", size: 2048, created_at: new Date("2024-01-01"), parent_folder_id: "folder-456" },
+        { id: "file-2", file_name: "notes", size: 10, created_at: new Date("2024-01-02"), parent_folder_id: "folder-456" },
+    ] as File[];
+    const folders = [
+        { id: "folder-1", folder_name: "Documents", created_at: new Date("2024-01-01") },
+    ] as Folder[];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("shows a tile per folder and file, folders first", () => {
+        render(<FolderGrid files={files} folders={folders} handleRowClick={() => {}}/>);
+
+        const tiles = screen.getAllByRole("listitem");
+        expect(tiles.map((tile) => tile.textContent)).toEqual(["Documents", "holiday.JPG2 KB", "notes10 B"]);
+    });
+
+    it("shows a file's thumbnail instead of its icon when it has one", () => {
+        const withThumbnail = [{ ...files[0], thumbnail_url: "https://storage.example.com/thumb.webp" }, files[1]];
+        const { container } = render(<FolderGrid files={withThumbnail} folders={null} handleRowClick={() => {}}/>);
+
+        const images = container.querySelectorAll("img");
+        expect(images).toHaveLength(1);
+        expect(images[0]).toHaveAttribute("src", "https://storage.example.com/thumb.webp");
+    });
+
+    it("opens folders and selects files", async () => {
+        const user = userEvent.setup();
+        const handleRowClick = vi.fn();
+        render(<FolderGrid files={files} folders={folders} handleRowClick={handleRowClick}/>);
+
+        await user.click(screen.getByText("Documents"));
+        expect(mockPush).toHaveBeenCalledWith("/folders/folder-1");
+
+        await user.click(screen.getByText("holiday.JPG"));
+        expect(handleRowClick).toHaveBeenCalledWith(files[0]);
+    });
+
+    it("loads the next page while the folder has more entries", async () => {
+        const user = userEvent.setup();
+        const onLoadMore = vi.fn();
+        render(<FolderGrid files={files} folders={null} handleRowClick={() => {}} hasMore onLoadMore={onLoadMore}/>);
+
+        await user.click(screen.getByTestId("folder-grid-load-more"));
+        expect(onLoadMore).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Grid view of the current folder's contents.
+ *
+ * This component shows the subfolders and files of the current folder as tiles, the
+ * alternative to {@link FolderTable}. Clicking a folder navigates to it, while
+ * clicking a file opens the file sidebar.
+ *
+ * @module components/features/folder-grid
+ */
+import { Button } from "@/components/ui/button";
+import { IconFile, IconFileText, IconFileTypePdf, IconFileZip, IconFolder, IconMovie, IconMusic, IconPhoto, type Icon } from "@tabler/icons-react";
+import { type Folder, type File } from "@/types/types";
+import { formatBytes } from "@/lib/utils";
+import { useRouter } from "next/navigation";
+import { useEffect, useRef } from "react";
+
+/**
+ * Icons of the file kinds the grid tells apart, by extension.
+ */
+const FILE_ICONS: [Icon, string[]][] = [
+    [IconPhoto, ["jpg", "jpeg", "png", "gif", "webp", "svg", "bmp", "heic"]],
+    [IconMovie, ["mp4", "mov", "webm", "mkv", "avi"]],
+    [IconMusic, ["mp3", "wav", "flac", "ogg", "m4a"]],
+    [IconFileTypePdf, ["pdf"]],
+    [IconFileZip, ["zip", "tar", "gz", "7z", "rar"]],
+    [IconFileText, ["txt", "md", "markdown", "csv", "json", "doc", "docx"]],
+];
+
+function fileIcon(file: File): Icon {
+    const extension = file.extension ?? file.file_name.split(".").pop()?.toLowerCase() ?? "";
+    return FILE_ICONS.find(([, extensions]) => extensions.includes(extension))?.[0] ?? IconFile;
+}
+
+/**
+ * Grid component for displaying folder contents.
+ *
+ * @param props - Component props
+ * @param props.files - Array of files in the current folder
+ * @param props.handleRowClick - Callback when a file tile is clicked
+ * @param props.folders - Array of subfolders in the current folder
+ * @param props.hasMore - Whether the folder has more entries than the ones passed in
+ * @param props.onLoadMore - Called to load the next page of entries
+ * @returns A grid of folder and file tiles
+ *
+ * @example
+ * ```tsx
+ * <FolderGrid
+ *   files={files}
+ *   folders={subFolders}
+ *   handleRowClick={(file) => setSelectedFile(file)}
+ *   hasMore={hasMoreContents}
+ *   onLoadMore={loadMoreContents}
+ * />
+ * ```
+ *
+ * @remarks
+ * - Folders come first, then files, in the order they are passed in
+ * - Each tile shows the file's thumbnail if the listing carries a `thumbnail_url`,
+ *   otherwise an icon for its kind (folder, image, video, PDF, ...), then the name and
+ *   the size; a folder's size covers its subfolders
+ * - Clicking a folder navigates to `/folders/[folderId]`
+ * - While `hasMore` is set, scrolling to the end of the grid calls `onLoadMore`, as
+ *   in {@link FolderTable}
+ */
+export default function FolderGrid({ files, handleRowClick, folders, hasMore = false, onLoadMore } : {
+    files: File[] | null;
+    handleRowClick: (file: File) => void;
+    folders: Folder[] | null | undefined;
+    hasMore?: boolean;
+    onLoadMore?: () => void;
+}) {
+    const router = useRouter();
+    const sentinel = useRef<HTMLDivElement>(null);
+
+    // load the next page once the end of the grid scrolls into view
+    useEffect(() => {
+        if (!hasMore || !onLoadMore || !sentinel.current || typeof IntersectionObserver === "undefined") return;
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+        }, { rootMargin: "200px" });
+        observer.observe(sentinel.current);
+        return () => observer.disconnect();
+    }, [hasMore, onLoadMore, files, folders]);
+
+    const tile = "flex flex-col items-center gap-2 rounded-md border p-3 text-center hover:bg-muted/50 hover:cursor-pointer";
+
+    return (
+        <>
+            <ul className="mt-10 grid w-full grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6" aria-label="Contents of the Current Folder">
+                {folders?.map((folder) => (
+                    <li key={folder.id}>
+                        <button type="button" className={`${tile} w-full`} onClick={() => router.push(`/folders/${folder.id}`)}>
+                            <IconFolder className="size-12 text-muted-foreground" aria-hidden/>
+                            <span className="w-full truncate text-sm font-medium">{folder.folder_name}</span>
+                            {folder.size !== undefined && <span className="text-xs text-muted-foreground">{formatBytes(folder.size)}</span>}
+                        </button>
+                    </li>
+                ))}
+                {files?.map((file) => {
+                    const Icon = fileIcon(file);
+                    return (
+                        <li key={file.id}>
+                            <button type="button" className={`${tile} w-full`} onClick={() => handleRowClick(file)}>
+                                {file.thumbnail_url
+                                    // signed URLs are not known at build time, so next/image cannot optimize them
+                                    // eslint-disable-next-line @next/next/no-img-element
+                                    ? <img src={file.thumbnail_url} alt="" loading="lazy" className="size-12 rounded object-cover"/>
+                                    : <Icon className="size-12 text-muted-foreground" aria-hidden/>}
+                                <span className="w-full truncate text-sm font-medium">{file.file_name}</span>
+                                <span className="text-xs text-muted-foreground">{formatBytes(file.size)}</span>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+            {hasMore && onLoadMore && (
+                <div ref={sentinel} className="flex justify-center py-2">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="hover:cursor-pointer"
+                        onClick={onLoadMore}
+                        data-testid="folder-grid-load-more">
+                        Load more
+                    </Button>
+                </div>
+            )}
+        </>
+    );
+}
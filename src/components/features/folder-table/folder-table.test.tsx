@@ -21,7 +21,7 @@ vi.mock("@/api-services/file-api.service", () => ({
 vi.mock("@/api-services/folder-api.service", () => ({
     FolderApiService: {
         getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
-        getFolderContents: vi.fn(() => Promise.resolve({ files: [], subFolders: [] })),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
     }
 }));
 
@@ -54,10 +54,8 @@ describe("FolderTable", () => {
             file_name: "test-file.pdf",
             size: 1024,
             created_at: new Date("2024-01-01"),
-            shared: false,
             s3_link: null,
             s3_key: "user-789/test-file.pdf",
-            expires_at: null,
             parent_folder_id: "folder-456",
             owner_clerk_id: "user-789",
         },
@@ -66,10 +64,8 @@ describe("FolderTable", () => {
             file_name: "document.docx",
             size: 2048,
             created_at: new Date("2024-01-03"),
-            shared: true,
             s3_link: null,
             s3_key: "user-789/document.docx",
-            expires_at: new Date("2024-12-31"),
             parent_folder_id: "folder-456",
             owner_clerk_id: "user-789",
         }
@@ -84,8 +80,6 @@ describe("FolderTable", () => {
             updated_at: new Date("2024-01-01"),
             is_root: false,
             s3_link: null,
-            shared: false,
-            expires_at: null,
             owner_clerk_id: "user-789",
             parent_folder_id: "parent-folder-456",
             subfolders: [],
@@ -99,8 +93,6 @@ describe("FolderTable", () => {
             updated_at: new Date("2024-01-02"),
             is_root: false,
             s3_link: null,
-            shared: true,
-            expires_at: new Date("2024-12-31"),
             owner_clerk_id: "user-789",
             parent_folder_id: "parent-folder-456",
             subfolders: [],
@@ -173,8 +165,8 @@ describe("FolderTable", () => {
 
         it("displays file sizes correctly", () => {
             render(<TestWrapperComponent />);
-            expect(screen.getByText("1024kb")).toBeInTheDocument();
-            expect(screen.getByText("2048kb")).toBeInTheDocument();
+            expect(screen.getByText("1 KB")).toBeInTheDocument();
+            expect(screen.getByText("2 KB")).toBeInTheDocument();
         });
 
         it("displays folder sizes as ---", () => {
@@ -183,6 +175,15 @@ describe("FolderTable", () => {
             expect(dashElements).toHaveLength(2);
         });
 
+        it("displays the total size of folders whose size is known", () => {
+            render(
+                <FolderTable files={[]} selectedFile={null} handleRowClick={() => {}}
+                    folders={[{ ...mockFolders[0], size: 3 * 1024 * 1024 }, mockFolders[1]]}/>
+            );
+            expect(screen.getByText("3 MB")).toBeInTheDocument();
+            expect(screen.getAllByText("---")).toHaveLength(1);
+        });
+
         it("displays created dates correctly", () => {
             render(<TestWrapperComponent />);
             expect(screen.getAllByText("1/1/2024").length).toBeGreaterThan(0);
@@ -204,7 +205,7 @@ describe("FolderTable", () => {
             });
         
             // Use getAllByText and check that we have at least one
-            const sizeElements = screen.getAllByText("1024kb");
+            const sizeElements = screen.getAllByText("1 KB");
             expect(sizeElements.length).toBeGreaterThan(0);
           
             expect(screen.getByText("Created:")).toBeInTheDocument();
@@ -253,4 +254,49 @@ describe("FolderTable", () => {
             expect(screen.getByText("Content Type")).toBeInTheDocument();
         });
     });
-});
\ No newline at end of file
+
+    describe("Sorting", () => {
+        it("sorts by a column, flipping the order when it is clicked again", async () => {
+            const user = userEvent.setup();
+            const onSort = vi.fn();
+            render(
+                <FolderTable files={mockFiles} selectedFile={null} handleRowClick={() => {}}
+                    folders={mockFolders} sort="name" order="asc" onSort={onSort}/>
+            );
+
+            expect(screen.getByRole("columnheader", { name: "Name" })).toHaveAttribute("aria-sort", "ascending");
+            expect(screen.getByRole("columnheader", { name: "Size" })).toHaveAttribute("aria-sort", "none");
+
+            await user.click(screen.getByRole("button", { name: "Name" }));
+            expect(onSort).toHaveBeenLastCalledWith("name", "desc");
+
+            await user.click(screen.getByRole("button", { name: "Content Type" }));
+            expect(onSort).toHaveBeenLastCalledWith("type", "asc");
+        });
+
+        it("shows plain headers without onSort", () => {
+            render(<FolderTable files={mockFiles} selectedFile={null} handleRowClick={() => {}} folders={mockFolders}/>);
+            expect(screen.queryByRole("button", { name: "Name" })).not.toBeInTheDocument();
+        });
+    });
+
+    describe("Paging", () => {
+        it("loads the next page while the folder has more entries", async () => {
+            const user = userEvent.setup();
+            const onLoadMore = vi.fn();
+            const { rerender } = render(
+                <FolderTable files={mockFiles} selectedFile={null} handleRowClick={() => {}}
+                    folders={mockFolders} hasMore onLoadMore={onLoadMore}/>
+            );
+
+            await user.click(screen.getByTestId("folder-table-load-more"));
+            expect(onLoadMore).toHaveBeenCalledTimes(1);
+
+            rerender(
+                <FolderTable files={mockFiles} selectedFile={null} handleRowClick={() => {}}
+                    folders={mockFolders} hasMore={false} onLoadMore={onLoadMore}/>
+            );
+            expect(screen.queryByTestId("folder-table-load-more")).not.toBeInTheDocument();
+        });
+    });
+});
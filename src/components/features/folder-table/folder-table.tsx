@@ -3,7 +3,7 @@
  * 
  * This component renders a table showing the contents of the current folder,
  * including both subfolders and files. Clicking folders navigates to them,
- * while clicking files opens the file sidebar.
+ * while clicking files opens the file sidebar. Column headers sort the contents.
  * 
  * @module components/features/folder-table
  */
@@ -17,8 +17,42 @@ import {
     TableRow,
   } from "@/components/ui/table";
 
-import { type Folder, type File } from "@/types/types";
+import { Button } from "@/components/ui/button";
+import { IconArrowDown, IconArrowUp, IconArrowsSort } from "@tabler/icons-react";
+import { type Folder, type File, type ChildrenSort, type SortOrder } from "@/types/types";
+import { formatBytes } from "@/lib/utils";
 import { useRouter } from "next/navigation";
+import { useEffect, useRef } from "react";
+
+/**
+ * Header of a sortable column: a button that sorts by the column, ascending first and
+ * flipping the order when clicked again. Without `onSort` it is plain text.
+ */
+function SortableHead({ label, column, sort, order, onSort, className }: {
+    label: string;
+    column: ChildrenSort;
+    sort?: ChildrenSort;
+    order?: SortOrder;
+    onSort?: (sort: ChildrenSort, order: SortOrder) => void;
+    className?: string;
+}) {
+    if (!onSort) return <TableHead className={className}>{label}</TableHead>;
+
+    const active = sort === column;
+    const Icon = !active ? IconArrowsSort : order === "desc" ? IconArrowDown : IconArrowUp;
+    return (
+        <TableHead className={className} aria-sort={active ? (order === "desc" ? "descending" : "ascending") : "none"}>
+            <Button
+                variant="ghost"
+                size="sm"
+                className="-ml-3 hover:cursor-pointer"
+                onClick={() => onSort(column, active && order === "asc" ? "desc" : "asc")}>
+                {label}
+                <Icon className={active ? "" : "text-muted-foreground"}/>
+            </Button>
+        </TableHead>
+    );
+}
 
 /**
  * Table component for displaying folder contents.
@@ -32,6 +66,11 @@ import { useRouter } from "next/navigation";
  * @param props.selectedFile - The currently selected file (unused in display)
  * @param props.handleRowClick - Callback when a file row is clicked
  * @param props.folders - Array of subfolders in the current folder
+ * @param props.hasMore - Whether the folder has more entries than the ones passed in
+ * @param props.onLoadMore - Called to load the next page of entries
+ * @param props.sort - The field the entries are sorted by, marked in its header
+ * @param props.order - The direction the entries are sorted in
+ * @param props.onSort - Called with the new sort and order when a header is clicked
  * @returns Table displaying folder contents
  * 
  * @example
@@ -59,64 +98,99 @@ import { useRouter } from "next/navigation";
  * ```
  * 
  * @remarks
- * - Folders are displayed first, then files
- * - Folder rows show "---" for size
- * - File rows show size in KB
+ * - Folders are displayed first, then files, in the order they are passed in
+ * - With `onSort`, the Content Type, Name, Size and Created At headers are buttons:
+ *   clicking one sorts by it ascending, clicking it again flips the order. Content
+ *   Type sorts files by extension
+ * - Sizes are formatted with {@link formatBytes}; folder rows show the bytes in the
+ *   folder and its subfolders, or "---" if the folder's size was not loaded
  * - Both show creation date
  * - Clicking folder navigates to `/folders/[folderId]`
  * - Clicking file triggers `handleRowClick` callback
  * - Hover effect on rows for better UX
  * - Displays caption: "Contents of the Current Folder"
+ * - While `hasMore` is set, scrolling to the end of the table calls `onLoadMore`
+ *   (infinite scroll); a "Load more" button does the same where scrolling can't
  * 
  * @see {@link Folder} for folder type definition
  * @see {@link File} for file type definition
  */
-export default function FolderTable({ files, selectedFile, handleRowClick, folders } : {
+export default function FolderTable({ files, selectedFile, handleRowClick, folders, hasMore = false, onLoadMore, sort, order, onSort } : {
     files: File[] | null,
     selectedFile: File | null,
     handleRowClick: (file: File) => void
     folders: Folder[] | null | undefined;
+    hasMore?: boolean;
+    onLoadMore?: () => void;
+    sort?: ChildrenSort;
+    order?: SortOrder;
+    onSort?: (sort: ChildrenSort, order: SortOrder) => void;
 }) {
     const router = useRouter();
+    const sentinel = useRef<HTMLDivElement>(null);
     const handleFolderClick = (folderId: string) => {
         router.push(`/folders/${folderId}`)
     }
 
+    // load the next page once the end of the table scrolls into view
+    useEffect(() => {
+        if (!hasMore || !onLoadMore || !sentinel.current || typeof IntersectionObserver === "undefined") return;
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+        }, { rootMargin: "200px" });
+        observer.observe(sentinel.current);
+        return () => observer.disconnect();
+    }, [hasMore, onLoadMore, files, folders]);
+
     return (
-        <Table className="mt-10">
-            <TableCaption>Contents of the Current Folder</TableCaption>
-            <TableHeader>
-                <TableRow>
-                    <TableHead>Content Type</TableHead>
-                    <TableHead className="w-[100px]">Name</TableHead>
-                    <TableHead>Size</TableHead>
-                    <TableHead className="text-right">Created At</TableHead>
-                </TableRow>
-            </TableHeader>
-            <TableBody>
-                {folders && Object.values(folders).map((folder: Folder, index: number) => (           
-                    <TableRow
-                        key={index}
-                        className="cursor-pointer hover:bg-muted/50"
-                        onClick={() => {handleFolderClick(folder.id)}}>
-                            <TableCell>Folder</TableCell>
-                            <TableCell className="font-medium">{folder.folder_name}</TableCell>
-                            <TableCell>---</TableCell>
-                            <TableCell className="text-right">{(new Date(folder.created_at)).toLocaleDateString()}</TableCell>
-                    </TableRow>        
-                ))}
-                {files && files.map((file: File, index: number) => (
-                    <TableRow 
-                        key={index}
-                        className="cursor-pointer hover:bg-muted/50"
-                        onClick={() => handleRowClick(file)}>
-                        <TableCell>File</TableCell>
-                        <TableCell className="font-medium">{file.file_name}</TableCell>
-                        <TableCell>{file.size}kb</TableCell>
-                        <TableCell className="text-right">{(new Date(file.created_at)).toLocaleDateString()}</TableCell>
+        <>
+            <Table className="mt-10">
+                <TableCaption>Contents of the Current Folder</TableCaption>
+                <TableHeader>
+                    <TableRow>
+                        <SortableHead label="Content Type" column="type" sort={sort} order={order} onSort={onSort}/>
+                        <SortableHead label="Name" column="name" sort={sort} order={order} onSort={onSort} className="w-[100px]"/>
+                        <SortableHead label="Size" column="size" sort={sort} order={order} onSort={onSort}/>
+                        <SortableHead label="Created At" column="created_at" sort={sort} order={order} onSort={onSort} className="text-right"/>
                     </TableRow>
-                ))}
-            </TableBody>
-        </Table>
+                </TableHeader>
+                <TableBody>
+                    {folders && Object.values(folders).map((folder: Folder, index: number) => (           
+                        <TableRow
+                            key={index}
+                            className="cursor-pointer hover:bg-muted/50"
+                            onClick={() => {handleFolderClick(folder.id)}}>
+                                <TableCell>Folder</TableCell>
+                                <TableCell className="font-medium">{folder.folder_name}</TableCell>
+                                <TableCell>{folder.size !== undefined ? formatBytes(folder.size) : "---"}</TableCell>
+                                <TableCell className="text-right">{(new Date(folder.created_at)).toLocaleDateString()}</TableCell>
+                        </TableRow>        
+                    ))}
+                    {files && files.map((file: File, index: number) => (
+                        <TableRow 
+                            key={index}
+                            className="cursor-pointer hover:bg-muted/50"
+                            onClick={() => handleRowClick(file)}>
+                            <TableCell>File</TableCell>
+                            <TableCell className="font-medium">{file.file_name}</TableCell>
+                            <TableCell>{formatBytes(file.size)}</TableCell>
+                            <TableCell className="text-right">{(new Date(file.created_at)).toLocaleDateString()}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+            {hasMore && onLoadMore && (
+                <div ref={sentinel} className="flex justify-center py-2">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="hover:cursor-pointer"
+                        onClick={onLoadMore}
+                        data-testid="folder-table-load-more">
+                        Load more
+                    </Button>
+                </div>
+            )}
+        </>
     )
 }
\ No newline at end of file
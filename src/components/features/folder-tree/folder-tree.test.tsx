@@ -3,11 +3,19 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { FolderTree } from './folder-tree';
 import { FolderApiService } from "@/api-services/folder-api.service";
+import { FileApiService } from "@/api-services/file-api.service";
 
 // Mock the API service
 vi.mock("@/api-services/folder-api.service", () => ({
     FolderApiService: {
-        getRootFolderContents: vi.fn(),
+        getFolderChildren: vi.fn(),
+        moveFolder: vi.fn(() => Promise.resolve({ id: "folder-3" })),
+    }
+}));
+
+vi.mock("@/api-services/file-api.service", () => ({
+    FileApiService: {
+        moveFile: vi.fn(() => Promise.resolve({ id: "file-1" })),
     }
 }));
 
@@ -37,8 +45,6 @@ describe("FolderTree", () => {
         updated_at: new Date("2024-01-01"),
         is_root: true,
         s3_link: "https://s3.example.com/root-folder",
-        shared: false,
-        expires_at: undefined,
         owner_clerk_id: "user-123",
         files: [
             { 
@@ -46,9 +52,7 @@ describe("FolderTree", () => {
                 file_name: "document.pdf",
                 size: 1024,
                 created_at: new Date("2024-01-01"),
-                shared: false,
                 s3_link: "https://s3.example.com/file-1",
-                expires_at: undefined,
                 parent_folder_id: "root-folder",
                 owner_clerk_id: "user-123"
             },
@@ -57,9 +61,7 @@ describe("FolderTree", () => {
                 file_name: "image.jpg",
                 size: 2048,
                 created_at: new Date("2024-01-02"),
-                shared: false,
                 s3_link: "https://s3.example.com/file-2",
-                expires_at: undefined,
                 parent_folder_id: "root-folder",
                 owner_clerk_id: "user-123"
             }
@@ -73,8 +75,6 @@ describe("FolderTree", () => {
                 updated_at: new Date("2024-01-01"),
                 is_root: false,
                 s3_link: "https://s3.example.com/folder-1",
-                shared: false,
-                expires_at: undefined,
                 owner_clerk_id: "user-123",
                 files: [
                     { 
@@ -82,9 +82,7 @@ describe("FolderTree", () => {
                         file_name: "report.docx",
                         size: 512,
                         created_at: new Date("2024-01-03"),
-                        shared: false,
                         s3_link: "https://s3.example.com/file-3",
-                        expires_at: undefined,
                         parent_folder_id: "folder-1",
                         owner_clerk_id: "user-123"
                     }
@@ -98,8 +96,6 @@ describe("FolderTree", () => {
                         updated_at: new Date("2024-01-01"),
                         is_root: false,
                         s3_link: "https://s3.example.com/folder-2",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123",
                         files: [],
                         subfolders: []
@@ -114,8 +110,6 @@ describe("FolderTree", () => {
                 updated_at: new Date("2024-01-02"),
                 is_root: false,
                 s3_link: "https://s3.example.com/folder-3",
-                shared: false,
-                expires_at: undefined,
                 owner_clerk_id: "user-123",
                 files: [
                     { 
@@ -123,9 +117,7 @@ describe("FolderTree", () => {
                         file_name: "photo.png",
                         size: 1536,
                         created_at: new Date("2024-01-04"),
-                        shared: false,
                         s3_link: "https://s3.example.com/file-4",
-                        expires_at: undefined,
                         parent_folder_id: "folder-3",
                         owner_clerk_id: "user-123"
                     }
@@ -135,10 +127,18 @@ describe("FolderTree", () => {
         ]
     };
 
+    // Serves each folder's first page from the nested fixture above
+    const findFolder = (folder: typeof mockFolderData, id: string): typeof mockFolderData | undefined =>
+        folder.id === id ? folder : folder.subfolders.map((sub) => findFolder(sub as typeof mockFolderData, id)).find(Boolean);
+    const childrenPage = (id: string) => {
+        const folder = findFolder(mockFolderData, id)!;
+        return { folder, folders: folder.subfolders, files: folder.files, next_cursor: null as string | null };
+    };
+
     beforeEach(() => {
         vi.clearAllMocks();
         consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-        vi.mocked(FolderApiService.getRootFolderContents).mockResolvedValue(mockFolderData);
+        vi.mocked(FolderApiService.getFolderChildren).mockImplementation(async (id) => childrenPage(id) as never);
         mockUseParams.mockReturnValue({ folderId: ["folder-1"] });
     });
 
@@ -293,12 +293,126 @@ describe("FolderTree", () => {
     });
 
     describe("API Integration", () => {
-        it("calls FolderApiService.getRootFolderContents on mount", async () => {
+        it("calls FolderApiService.getFolderChildren for the root on mount", async () => {
             render(<FolderTree folderId="root-folder" readOnly={false} />);
             
             await waitFor(() => {
-                expect(FolderApiService.getRootFolderContents).toHaveBeenCalledWith("root-folder");
+                expect(FolderApiService.getFolderChildren).toHaveBeenCalledWith("root-folder", { limit: 100 });
+            });
+        });
+
+        it("fetches a folder's children only when it is expanded", async () => {
+            render(<FolderTree folderId="root-folder" readOnly={false} />);
+
+            await waitFor(() => {
+                expect(screen.getByText("Root Folder")).toBeInTheDocument();
+            });
+            fireEvent.click(screen.getByRole('button', { name: /root folder/i }));
+            await waitFor(() => {
+                expect(screen.getByText("Documents")).toBeInTheDocument();
+            });
+            expect(FolderApiService.getFolderChildren).toHaveBeenCalledTimes(1);
+
+            fireEvent.click(screen.getByRole('button', { name: /documents/i }));
+            await waitFor(() => {
+                expect(screen.getByText("report.docx")).toBeInTheDocument();
+            });
+            expect(FolderApiService.getFolderChildren).toHaveBeenCalledTimes(2);
+            expect(FolderApiService.getFolderChildren).toHaveBeenLastCalledWith("folder-1", { limit: 100 });
+        });
+
+        it("loads the next page of a large folder from \"Show more\"", async () => {
+            vi.mocked(FolderApiService.getFolderChildren)
+                .mockResolvedValueOnce({ ...childrenPage("root-folder"), files: [mockFolderData.files[0]], next_cursor: "cursor-2" } as never)
+                .mockResolvedValueOnce({ folder: mockFolderData, folders: [], files: [mockFolderData.files[1]], next_cursor: null } as never);
+            render(<FolderTree folderId="root-folder" readOnly={false} />);
+
+            await waitFor(() => {
+                expect(screen.getByText("Root Folder")).toBeInTheDocument();
+            });
+            fireEvent.click(screen.getByRole('button', { name: /root folder/i }));
+            await waitFor(() => {
+                expect(screen.getByText("document.pdf")).toBeInTheDocument();
+            });
+            expect(screen.queryByText("image.jpg")).not.toBeInTheDocument();
+
+            fireEvent.click(screen.getByTestId("folder-tree-show-more-root-folder"));
+
+            await waitFor(() => {
+                expect(screen.getByText("image.jpg")).toBeInTheDocument();
             });
+            expect(FolderApiService.getFolderChildren).toHaveBeenLastCalledWith("root-folder", { cursor: "cursor-2", limit: 100 });
+            expect(screen.queryByTestId("folder-tree-show-more-root-folder")).not.toBeInTheDocument();
+        });
+    });
+
+    describe("Drag and Drop", () => {
+        const createDataTransfer = () => {
+            const data: Record<string, string> = {};
+            return {
+                setData: (type: string, value: string) => { data[type] = value; },
+                getData: (type: string) => data[type] ?? "",
+            };
+        };
+
+        const expandRoot = async () => {
+            await waitFor(() => {
+                expect(screen.getByText("Root Folder")).toBeInTheDocument();
+            });
+            fireEvent.click(screen.getByRole('button', { name: /root folder/i }));
+            await waitFor(() => {
+                expect(screen.getByText("Documents")).toBeInTheDocument();
+            });
+        };
+
+        it("moves a file dropped onto a folder and notifies the parent", async () => {
+            const onMove = vi.fn();
+            render(<FolderTree folderId="root-folder" readOnly={false} onMove={onMove} />);
+            await expandRoot();
+
+            const dataTransfer = createDataTransfer();
+            fireEvent.dragStart(screen.getByText("document.pdf"), { dataTransfer });
+            fireEvent.drop(screen.getByTestId("folder-tree-drop-Documents"), { dataTransfer });
+
+            await waitFor(() => {
+                expect(FileApiService.moveFile).toHaveBeenCalledWith("file-1", "folder-1");
+            });
+            await waitFor(() => {
+                expect(onMove).toHaveBeenCalled();
+            });
+        });
+
+        it("moves a folder dropped onto another folder", async () => {
+            render(<FolderTree folderId="root-folder" readOnly={false} />);
+            await expandRoot();
+
+            const dataTransfer = createDataTransfer();
+            fireEvent.dragStart(screen.getByTestId("folder-tree-drop-Images"), { dataTransfer });
+            fireEvent.drop(screen.getByTestId("folder-tree-drop-Documents"), { dataTransfer });
+
+            await waitFor(() => {
+                expect(FolderApiService.moveFolder).toHaveBeenCalledWith("folder-3", "folder-1");
+            });
+        });
+
+        it("ignores a folder dropped onto itself", async () => {
+            render(<FolderTree folderId="root-folder" readOnly={false} />);
+            await expandRoot();
+
+            const dataTransfer = createDataTransfer();
+            const documents = screen.getByTestId("folder-tree-drop-Documents");
+            fireEvent.dragStart(documents, { dataTransfer });
+            fireEvent.drop(documents, { dataTransfer });
+
+            expect(FolderApiService.moveFolder).not.toHaveBeenCalled();
+        });
+
+        it("does not allow dragging in read-only mode", async () => {
+            render(<FolderTree folderId="root-folder" readOnly={true} />);
+            await expandRoot();
+
+            expect(screen.getByTestId("folder-tree-drop-Documents")).toHaveAttribute("draggable", "false");
+            expect(screen.getByText("document.pdf").closest("button")).toHaveAttribute("draggable", "false");
         });
     });
 });
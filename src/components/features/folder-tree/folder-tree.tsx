@@ -1,22 +1,36 @@
 /**
  * @fileoverview Tree component for hierarchical folder navigation.
  * 
- * This component renders an interactive tree structure showing the complete folder
- * hierarchy with nested folders and files. Highlights the currently active folder
- * and provides navigation links.
+ * This component renders an interactive tree structure showing the folder hierarchy
+ * with nested folders and files, loading each folder's children when it is first
+ * expanded. Highlights the currently active folder,
+ * provides navigation links, and lets files and folders be dragged onto another
+ * folder to move them.
  * 
  * @module components/features/folder-tree
  */
 'use client'
 
 import { File, Folder, Tree } from "@/components/ui/file-tree";
-import { useState, useEffect } from "react";
+import { useState, useEffect, type DragEvent } from "react";
 import Link from "next/link";
 import { useParams } from "next/navigation";
+import { toast } from "sonner";
 import { FolderApiService } from "@/api-services/folder-api.service";
+import { FileApiService } from "@/api-services/file-api.service";
 import { ApiError } from "@/lib/api-client";
 import { Skeleton } from "@/components/ui/skeleton";
 
+/**
+ * Drag-and-drop data type used for items dragged within the tree.
+ */
+const DRAG_DATA_TYPE = "application/x-file-uploader-item";
+
+/**
+ * Number of entries fetched per request when a folder is expanded.
+ */
+const TREE_PAGE_SIZE = 100;
+
 /**
  * Internal interface representing a folder node in the tree.
  */
@@ -24,21 +38,39 @@ interface FolderNode {
     id: string;
     folder_name: string;
     display_name?: string | null;
-    files: {id: string; file_name: string }[];
-    subfolders: FolderNode[];
     is_root: boolean;
 }
 
+/**
+ * Internal type holding the loaded children of an expanded folder.
+ */
+type ChildrenState = {
+    folders: FolderNode[];
+    files: { id: string; file_name: string }[];
+    next_cursor: string | null;
+};
+
+/**
+ * Internal type describing the item being dragged.
+ */
+type DraggedItem = {
+    kind: "file" | "folder";
+    id: string;
+    name: string;
+};
+
 /**
  * Tree component for displaying folder hierarchy.
  * 
- * Fetches and displays the complete folder tree structure starting from the root.
- * Supports recursive rendering of nested folders and files. Highlights the currently
- * active folder based on URL params.
+ * Fetches the root folder and displays the tree starting from it. A folder's
+ * subfolders and files are fetched page by page, only once the folder is expanded.
+ * Highlights the currently active folder based on URL params.
  * 
  * @param props - Component props
  * @param props.folderId - The ID of the current folder (null for root)
- * @param props.readOnly - If true, disables navigation links
+ * @param props.readOnly - If true, disables navigation links and drag-to-move
+ * @param props.refreshKey - Changing this value refetches the tree
+ * @param props.onMove - Called after an item has been moved by drag and drop
  * @returns Interactive tree structure of folders and files
  * 
  * @example
@@ -53,22 +85,46 @@ interface FolderNode {
  * ```
  * 
  * @remarks
- * - Fetches recursive folder structure on mount
+ * - Fetches only the root folder on mount; children load when a folder is expanded
+ * - Large folders show their first 100 entries and a "Show more" item for the rest
  * - Highlights active folder with blue background
  * - Files are displayed as non-clickable leaf nodes
  * - Folders are collapsible/expandable
- * - Uses FolderApiService.getRootFolderContents
+ * - Files and non-root folders can be dragged onto a folder name to move them there
+ * - Uses FolderApiService.getFolderChildren
  */
-export function FolderTree({ folderId, readOnly, refreshKey = 0 }: { 
+export function FolderTree({ folderId, readOnly, refreshKey = 0, onMove }: { 
     folderId: string | null, 
     readOnly : boolean,
-    refreshKey?: number 
+    refreshKey?: number,
+    onMove?: () => void,
 }) {
     const [rootFolder, setRootFolder] = useState<FolderNode | null>(null);
+    const [rootChildren, setRootChildren] = useState<ChildrenState | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+
+    const handleMove = async (item: DraggedItem, targetFolderId: string) => {
+        if (item.kind === "folder" && item.id === targetFolderId) return;
+
+        await toast.promise(
+            async () => {
+                const result = item.kind === "file"
+                    ? await FileApiService.moveFile(item.id, targetFolderId)
+                    : await FolderApiService.moveFolder(item.id, targetFolderId);
+                if (result instanceof ApiError) throw result;
+                onMove?.();
+                return item.name;
+            },
+            {
+                loading: `Moving "${item.name}"...`,
+                success: (name) => `"${name}" moved!`,
+                error: (err) => (err instanceof ApiError && err.data?.error) || "Failed to move item. Please try again.",
+            }
+        );
+    };
     
     useEffect(() => {
-        const fetchRootFolderRecursive = async () => {
+        const fetchRootFolder = async () => {
             // Wait for folderId to be available before fetching
             if (folderId === null) {
                 setIsLoading(true);
@@ -77,9 +133,10 @@ export function FolderTree({ folderId, readOnly, refreshKey = 0 }: {
             
             setIsLoading(true);
             try {
-                const data = await FolderApiService.getRootFolderContents(folderId);
+                const data = await FolderApiService.getFolderChildren(folderId, { limit: TREE_PAGE_SIZE });
                 if (!(data instanceof ApiError)) {
-                    setRootFolder(data as FolderNode);
+                    setRootFolder(data.folder);
+                    setRootChildren(data);
                 }
             } catch (error) {
                 console.error("Error in processing Folder Tree: ", error);
@@ -87,7 +144,7 @@ export function FolderTree({ folderId, readOnly, refreshKey = 0 }: {
                 setIsLoading(false);
             }
         };
-        fetchRootFolderRecursive();
+        fetchRootFolder();
     }, [folderId, refreshKey]);
 
     if (isLoading) {
@@ -100,34 +157,66 @@ export function FolderTree({ folderId, readOnly, refreshKey = 0 }: {
 
     return (
         <Tree data-testid="folder-tree">
-            <RenderFolder folder={rootFolder} readOnly={readOnly}/>
+            <RenderFolder
+                folder={rootFolder}
+                initialChildren={rootChildren}
+                readOnly={readOnly}
+                refreshKey={refreshKey}
+                onMove={handleMove}/>
         </Tree>
     );
 }
 
-function RenderFolder({ folder, readOnly }: { 
+function RenderFolder({ folder, initialChildren, readOnly, refreshKey, onMove }: { 
     folder: FolderNode | null,
-    readOnly: boolean
+    initialChildren?: ChildrenState | null,
+    readOnly: boolean,
+    refreshKey: number,
+    onMove: (item: DraggedItem, targetFolderId: string) => void,
  }) {
     const params = useParams();
     const currentFolderId = params.folderId?.[0] || null;
     const isCurrentFolder = (folder && folder.id && (folder.id === currentFolderId)) || (!currentFolderId && folder?.is_root);
     
     if (!folder) return null;
+
+    const folderName = folder.display_name || folder.folder_name;
+
+    const handleDragStart = (e: DragEvent, item: DraggedItem) => {
+        e.stopPropagation();
+        e.dataTransfer.setData(DRAG_DATA_TYPE, JSON.stringify(item));
+    };
+
+    const handleDrop = (e: DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const data = e.dataTransfer.getData(DRAG_DATA_TYPE);
+        if (data) {
+            onMove(JSON.parse(data) as DraggedItem, folder.id);
+        }
+    };
     
     return (
         <Folder 
             value={folder.id} 
             element={
-                <Link 
-                    href={readOnly ? "#" : `/folders/${folder.id}`} 
-                    className="hover:underline"
-                    onClick={(e) => {
-                        e.stopPropagation();
-                    }}
+                <span
+                    draggable={!readOnly && !folder.is_root}
+                    onDragStart={(e) => handleDragStart(e, { kind: "folder", id: folder.id, name: folderName })}
+                    onDragOver={(e) => { if (!readOnly) e.preventDefault(); }}
+                    onDrop={readOnly ? undefined : handleDrop}
+                    data-testid={`folder-tree-drop-${folder.folder_name}`}
                 >
-                    {folder.display_name || folder.folder_name}
-                </Link>
+                    <Link 
+                        href={readOnly ? "#" : `/folders/${folder.id}`} 
+                        className="hover:underline"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                        }}
+                    >
+                        {folderName}
+                    </Link>
+                </span>
             }
             className={`${
                 isCurrentFolder 
@@ -135,16 +224,98 @@ function RenderFolder({ folder, readOnly }: {
                 : ''}`}
             data-testid={`folder-tree-folder-${folder?.folder_name}`}
         >
+            {/* Mounted only while expanded, so children are fetched on first expand */}
+            <FolderChildren
+                folderId={folder.id}
+                initialChildren={initialChildren}
+                readOnly={readOnly}
+                refreshKey={refreshKey}
+                onMove={onMove}
+                onDragStart={handleDragStart}/>
+        </Folder>
+    );
+}
+
+function FolderChildren({ folderId, initialChildren, readOnly, refreshKey, onMove, onDragStart }: {
+    folderId: string,
+    initialChildren?: ChildrenState | null,
+    readOnly: boolean,
+    refreshKey: number,
+    onMove: (item: DraggedItem, targetFolderId: string) => void,
+    onDragStart: (e: DragEvent, item: DraggedItem) => void,
+}) {
+    const [children, setChildren] = useState<ChildrenState | null>(initialChildren ?? null);
+    const [isLoading, setIsLoading] = useState(!initialChildren);
+
+    useEffect(() => {
+        if (initialChildren) {
+            setChildren(initialChildren);
+            setIsLoading(false);
+            return;
+        }
+        const fetchChildren = async () => {
+            try {
+                const data = await FolderApiService.getFolderChildren(folderId, { limit: TREE_PAGE_SIZE });
+                if (!(data instanceof ApiError)) {
+                    setChildren(data);
+                }
+            } catch (error) {
+                console.error("Error in processing Folder Tree: ", error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchChildren();
+    }, [folderId, initialChildren, refreshKey]);
+
+    const loadMore = async () => {
+        if (!children?.next_cursor) return;
+        try {
+            const data = await FolderApiService.getFolderChildren(folderId, { cursor: children.next_cursor, limit: TREE_PAGE_SIZE });
+            if (!(data instanceof ApiError)) {
+                setChildren((prev) => ({
+                    folders: [...(prev?.folders ?? []), ...data.folders],
+                    files: [...(prev?.files ?? []), ...data.files],
+                    next_cursor: data.next_cursor,
+                }));
+            }
+        } catch (error) {
+            console.error("Error in processing Folder Tree: ", error);
+        }
+    };
+
+    if (isLoading) {
+        return <Skeleton className="h-4 w-3/4 rounded bg-muted animate-pulse" />;
+    }
+
+    if (!children) return null;
+
+    return (
+        <>
             {/* Render subfolders recursively */}
-            {folder.subfolders && folder.subfolders.map((sub) => (
-                <RenderFolder key={sub.id} folder={sub} readOnly={readOnly}/>
+            {children.folders.map((sub) => (
+                <RenderFolder key={sub.id} folder={sub} readOnly={readOnly} refreshKey={refreshKey} onMove={onMove}/>
             ))}
             {/* Render files */}
-            {folder.files && folder.files.map((file) => (
-                <File key={file.id} value={file.file_name} className="text-xs truncate">
+            {children.files.map((file) => (
+                <File
+                    key={file.id}
+                    value={file.file_name}
+                    className="text-xs truncate"
+                    draggable={!readOnly}
+                    onDragStart={(e) => onDragStart(e, { kind: "file", id: file.id, name: file.file_name })}>
                     {file.file_name}
                 </File>
             ))}
-        </Folder>
+            {children.next_cursor && (
+                <button
+                    type="button"
+                    className="text-left text-xs text-muted-foreground hover:underline hover:cursor-pointer"
+                    onClick={loadMore}
+                    data-testid={`folder-tree-show-more-${folderId}`}>
+                    Show more
+                </button>
+            )}
+        </>
     );
 }
\ No newline at end of file
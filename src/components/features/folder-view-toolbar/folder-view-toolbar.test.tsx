@@ -0,0 +1,66 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import FolderViewToolbar from "./folder-view-toolbar";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+import { type AuthFolderContextProps } from "@/contexts/auth-folder-context";
+
+vi.mock("@/hooks/use-auth-folder", () => ({
+    useAuthFolder: vi.fn(),
+}));
+
+describe("FolderViewToolbar", () => {
+    const setExtensionFilter = vi.fn();
+    const updatePreferences = vi.fn();
+    const context = (view: "table" | "grid") => ({
+        files: [{ file_name: "b.PDF" }, { file_name: "a.txt" }, { file_name: "README" }],
+        extensionFilter: null,
+        setExtensionFilter,
+        preferences: { view, sort: "name", order: "asc" },
+        updatePreferences,
+    }) as unknown as AuthFolderContextProps;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(useAuthFolder).mockReturnValue(context("table"));
+    });
+
+    it("filters by the typed extension once typing pauses", async () => {
+        const user = userEvent.setup();
+        render(<FolderViewToolbar />);
+
+        await user.type(screen.getByLabelText("Filter by extension"), ".PDF");
+
+        await waitFor(() => expect(setExtensionFilter).toHaveBeenCalledWith("pdf"));
+        expect(setExtensionFilter).toHaveBeenCalledTimes(1);
+    });
+
+    it("suggests the extensions of the loaded files", () => {
+        const { container } = render(<FolderViewToolbar />);
+
+        const options = container.querySelectorAll("#folder-extension-suggestions option");
+        expect([...options].map((option) => option.getAttribute("value"))).toEqual(["pdf", "txt"]);
+    });
+
+    it("switches the view and saves it", async () => {
+        const user = userEvent.setup();
+        render(<FolderViewToolbar />);
+
+        expect(screen.queryByLabelText("Sort by")).not.toBeInTheDocument();
+        await user.click(screen.getByRole("radio", { name: "Grid view" }));
+        expect(updatePreferences).toHaveBeenCalledWith({ view: "grid" });
+    });
+
+    it("chooses the sort in the grid view", async () => {
+        const user = userEvent.setup();
+        vi.mocked(useAuthFolder).mockReturnValue(context("grid"));
+        render(<FolderViewToolbar />);
+
+        await user.selectOptions(screen.getByLabelText("Sort by"), "size");
+        expect(updatePreferences).toHaveBeenCalledWith({ sort: "size" });
+
+        await user.click(screen.getByRole("button", { name: "Sort descending" }));
+        expect(updatePreferences).toHaveBeenCalledWith({ order: "desc" });
+    });
+});
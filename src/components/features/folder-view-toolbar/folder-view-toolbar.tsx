@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Toolbar above the current folder's contents.
+ *
+ * This component filters the contents by file extension and switches between the
+ * table and grid views. The view and sort are saved per user through
+ * {@link AuthFolderProvider}; the extension filter applies to the current folder only.
+ *
+ * @module components/features/folder-view-toolbar
+ */
+import { useEffect, useMemo, useState } from "react";
+import { IconArrowDown, IconArrowUp, IconLayoutGrid, IconTable } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+import { type ChildrenSort, type ViewPreferences } from "@/types/types";
+
+/** Milliseconds of no typing before the extension filter is applied */
+const FILTER_DELAY = 300;
+
+const SORT_OPTIONS: { value: ChildrenSort, label: string }[] = [
+    { value: "name", label: "Name" },
+    { value: "size", label: "Size" },
+    { value: "type", label: "Type" },
+    { value: "created_at", label: "Created At" },
+];
+
+/**
+ * Toolbar with the extension filter and the view switch.
+ *
+ * @returns The toolbar
+ *
+ * @example
+ * ```tsx
+ * <FolderViewToolbar />
+ * {preferences.view === "grid" ? <FolderGrid ... /> : <FolderTable ... />}
+ * ```
+ *
+ * @remarks
+ * - Typing an extension (with or without the dot) lists only the current folder's
+ *   files with that extension, once typing pauses; clearing it lists everything again
+ * - Extensions of the loaded files are suggested
+ * - In the grid view, which has no column headers, the sort field and order are
+ *   chosen here
+ */
+export default function FolderViewToolbar() {
+    const { files, extensionFilter, setExtensionFilter, preferences, updatePreferences } = useAuthFolder();
+    const [filter, setFilter] = useState(extensionFilter ?? "");
+
+    // follow the context, which clears the filter when another folder is opened
+    useEffect(() => {
+        setFilter(extensionFilter ?? "");
+    }, [extensionFilter]);
+
+    useEffect(() => {
+        const extension = filter.trim().replace(/^\./, "").toLowerCase();
+        if (extension === (extensionFilter ?? "") || (extension && !/^[a-z0-9]{1,10}$/.test(extension))) return;
+        const timer = setTimeout(() => setExtensionFilter(extension || null), FILTER_DELAY);
+        return () => clearTimeout(timer);
+    }, [filter, extensionFilter, setExtensionFilter]);
+
+    const suggestions = useMemo(() => {
+        const extensions = new Set<string>();
+        for (const file of files ?? []) {
+            const extension = file.extension ?? (file.file_name.includes(".") ? file.file_name.split(".").pop()!.toLowerCase() : "");
+            if (extension) extensions.add(extension);
+        }
+        return [...extensions].sort();
+    }, [files]);
+
+    return (
+        <div className="mt-6 flex w-full flex-row flex-wrap items-center gap-2" data-testid="folder-view-toolbar">
+            <Input
+                className="w-48"
+                placeholder="Filter by extension"
+                aria-label="Filter by extension"
+                list="folder-extension-suggestions"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}/>
+            <datalist id="folder-extension-suggestions">
+                {suggestions.map((extension) => <option key={extension} value={extension}/>)}
+            </datalist>
+
+            {preferences.view === "grid" && (
+                <>
+                    <select
+                        aria-label="Sort by"
+                        className="border-input h-9 rounded-md border bg-transparent px-2 text-sm"
+                        value={preferences.sort}
+                        onChange={(e) => updatePreferences({ sort: e.target.value as ChildrenSort })}>
+                        {SORT_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="hover:cursor-pointer"
+                        aria-label={preferences.order === "asc" ? "Sort descending" : "Sort ascending"}
+                        onClick={() => updatePreferences({ order: preferences.order === "asc" ? "desc" : "asc" })}>
+                        {preferences.order === "asc" ? <IconArrowUp/> : <IconArrowDown/>}
+                    </Button>
+                </>
+            )}
+
+            <ToggleGroup
+                className="ml-auto"
+                variant="outline"
+                type="single"
+                value={preferences.view}
+                onValueChange={(value) => {
+                    if (value) updatePreferences({ view: value as ViewPreferences["view"] });
+                }}>
+                <ToggleGroupItem value="table" aria-label="Table view" className="hover:cursor-pointer">
+                    <IconTable/>
+                </ToggleGroupItem>
+                <ToggleGroupItem value="grid" aria-label="Grid view" className="hover:cursor-pointer">
+                    <IconLayoutGrid/>
+                </ToggleGroupItem>
+            </ToggleGroup>
+        </div>
+    );
+}
@@ -17,6 +17,7 @@ vi.mock("@/hooks/use-mobile", () => ({
 vi.mock("@/api-services/file-api.service", () => ({
     FileApiService: {
         uploadFile: vi.fn(() => Promise.resolve({ id: "file-123", file_name: "test-file.pdf" })),
+        uploadFileDirect: vi.fn(() => Promise.resolve({ id: "file-123", file_name: "test-file.pdf" })),
     }
 }));
 
@@ -24,7 +25,7 @@ vi.mock("@/api-services/file-api.service", () => ({
 vi.mock("@/api-services/folder-api.service", () => ({
     FolderApiService: {
         getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
-        getFolderContents: vi.fn(() => Promise.resolve({ files: [], subFolders: [] })),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
     }
 }));
 
@@ -56,10 +57,8 @@ describe("NewFileButton", () => {
         file_name: "test-file.pdf",
         size: 1024,
         created_at: new Date("2024-01-01"),
-        shared: false,
         s3_link: null,
         s3_key: "user-789/test-file.pdf",
-        expires_at: null,
         parent_folder_id: "folder-456",
         owner_clerk_id: "user-789"
     };
@@ -201,8 +200,9 @@ describe("NewFileButton", () => {
             });
         });
 
-        it("Should show error when file already exists", async () => {
+        it("Should upload a new version when the file already exists", async () => {
             const user = userEvent.setup();
+            vi.mocked(toast.promise).mockImplementation(((promise: () => Promise<unknown>) => promise()) as never);
             
             // Mock useAuthFolder to return a file with the same name
             const { useAuthFolder } = await import("@/hooks/use-auth-folder");
@@ -233,10 +233,14 @@ describe("NewFileButton", () => {
             const uploadButton = screen.getByRole("button", { name: /upload file/i });
             await user.click(uploadButton);
 
-            // Verify error toast is shown
+            // The upload goes through and is reported as a new version
             await waitFor(() => {
-                expect(toast.error).toHaveBeenCalledWith('A file name "test-file.pdf" already exists in this location!');
+                expect(FileApiService.uploadFileDirect).toHaveBeenCalledWith("test-folder-123", duplicateFile);
             });
+            expect(toast.error).not.toHaveBeenCalled();
+            const [, messages] = vi.mocked(toast.promise).mock.calls[0];
+            expect((messages as { success: (name: string) => string }).success("test-file.pdf"))
+                .toBe("New version of test-file.pdf uploaded successfully!");
         });
 
         it("Should show error when no current folder ID", async () => {
@@ -272,4 +276,54 @@ describe("NewFileButton", () => {
             expect(uploadButton).toBeInTheDocument();
         });
     });
+
+    describe("Archive Extraction", () => {
+        const openDialogAndSelect = async (file: globalThis.File) => {
+            const user = userEvent.setup();
+            renderWithProviders(<NewFileButton />);
+            await user.click(screen.getByRole('button', { name: /new file/i }));
+            await waitFor(() => {
+                expect(screen.getByRole("alertdialog")).toBeInTheDocument();
+            });
+            await user.upload(screen.getByLabelText('Choose File'), file);
+            return user;
+        };
+
+        it("Should only offer extraction for .zip files", async () => {
+            await openDialogAndSelect(new File(['test content'], 'test-file.pdf', { type: 'application/pdf' }));
+            expect(screen.queryByLabelText('Extract archive into folders')).not.toBeInTheDocument();
+        });
+
+        it("Should ask the API to extract a .zip when the option is checked", async () => {
+            vi.mocked(toast.promise).mockImplementation(((promise: () => Promise<unknown>) => promise()) as never);
+            const user = await openDialogAndSelect(new File(['PK'], 'Photos.zip', { type: 'application/zip' }));
+
+            await user.click(screen.getByLabelText('Extract archive into folders'));
+            await user.click(screen.getByRole("button", { name: /upload file/i }));
+
+            await waitFor(() => {
+                expect(FileApiService.uploadFile).toHaveBeenCalled();
+            });
+            const [folderId, formData] = vi.mocked(FileApiService.uploadFile).mock.calls[0];
+            expect(folderId).toBe("test-folder-123");
+            expect(formData.get("extract")).toBe("true");
+            expect((formData.get("file") as globalThis.File).name).toBe("Photos.zip");
+            expect(FileApiService.uploadFileDirect).not.toHaveBeenCalled();
+        });
+
+        it("Should upload a .zip directly when extraction is not checked", async () => {
+            vi.mocked(toast.promise).mockImplementation(((promise: () => Promise<unknown>) => promise()) as never);
+            const user = await openDialogAndSelect(new File(['PK'], 'Photos.zip', { type: 'application/zip' }));
+
+            await user.click(screen.getByRole("button", { name: /upload file/i }));
+
+            await waitFor(() => {
+                expect(FileApiService.uploadFileDirect).toHaveBeenCalled();
+            });
+            const [folderId, file] = vi.mocked(FileApiService.uploadFileDirect).mock.calls[0];
+            expect(folderId).toBe("test-folder-123");
+            expect(file.name).toBe("Photos.zip");
+            expect(FileApiService.uploadFile).not.toHaveBeenCalled();
+        });
+    });
 })
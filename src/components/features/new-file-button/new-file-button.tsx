@@ -25,6 +25,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
 import { FileApiService } from '@/api-services/file-api.service';
+import { ApiError } from '@/lib/api-client';
 import { useAuthFolder } from '@/hooks/use-auth-folder';
 
 /**
@@ -32,7 +33,7 @@ import { useAuthFolder } from '@/hooks/use-auth-folder';
  * 
  * Opens a dialog with a file input that allows users to select and upload files
  * to the current folder. Validates that a file is selected before uploading.
- * Uses FormData for multipart upload to the API.
+ * Files are sent straight to storage; archives to extract are posted to the API.
  * 
  * @param props - Component props
  * @param props.readOnly - If true, disables the upload button
@@ -61,16 +62,20 @@ import { useAuthFolder } from '@/hooks/use-auth-folder';
  * @remarks
  * - Gets folder ID from URL params (useParams hook)
  * - Validates that a file is selected before upload
- * - Uses FormData for multipart/form-data upload
+ * - Uploading a name that already exists adds a new version of that file (see the
+ *   version history in the file sidebar)
+ * - Uploads with FileApiService.uploadFileDirect, so file bytes never pass through the app
  * - Disabled in read-only mode
  * - Shows toast notifications for success/error
- * - Uses FileApiService.uploadFile for API calls
+ * - Archives to extract use FileApiService.uploadFile (multipart/form-data)
  * - Accepts any file type (no restrictions)
+ * - For `.zip` files, offers to extract the archive into folders instead of storing it
  * 
- * @see {@link FileApiService.uploadFile} for the API implementation
+ * @see {@link FileApiService.uploadFileDirect} for the API implementation
  */
 export default function NewFileButton() {
     const [file, setFile] = useState<File | null>(null);
+    const [extract, setExtract] = useState<boolean>(false);
     const { currentFolderId, fetchFolderContents, refetchFolderTree, files } = useAuthFolder();
 
     const handleUpload = async () => {
@@ -84,32 +89,43 @@ export default function NewFileButton() {
             return;
         }
         
-        const formData = new FormData();
-        formData.append("file", file);
+        const isArchive = file.name.toLowerCase().endsWith(".zip");
+        const extractArchive = isArchive && extract;
 
-        const existingFile = files?.find(targ_file => 
+        // a file with the same name is not replaced: the upload becomes its new version
+        const isNewVersion = !extractArchive && files?.some(targ_file => 
             targ_file.file_name === file.name
         );
-
-        if (existingFile) {
-            toast.error(`A file name "${file.name}" already exists in this location!`);
-            return;
-        }
        
         try {
             // Use toast.promise for loading/success/error states
             await toast.promise(
                 async () => {
-                    await FileApiService.uploadFile(currentFolderId, formData);
+                    if (extractArchive) {
+                        // extraction happens on the server, so the archive is posted to the app
+                        const formData = new FormData();
+                        formData.append("file", file);
+                        formData.append("extract", "true");
+                        await FileApiService.uploadFile(currentFolderId, formData);
+                    } else {
+                        await FileApiService.uploadFileDirect(currentFolderId, file);
+                    }
                     await fetchFolderContents();
                     await refetchFolderTree();
                     return file.name; // Return value for success message
                 },
                 {
-                    loading: `Uploading ${file.name}...`,
-                    success: (fileName) => `File ${fileName} uploaded successfully!`,
+                    loading: extractArchive ? `Extracting ${file.name}...` : `Uploading ${file.name}...`,
+                    success: (fileName) => extractArchive
+                        ? `Archive ${fileName} extracted successfully!`
+                        : isNewVersion
+                            ? `New version of ${fileName} uploaded successfully!`
+                            : `File ${fileName} uploaded successfully!`,
                     error: (err) => {
                         // Handle different error types
+                        if (err instanceof ApiError && err.data?.error) {
+                            return err.data.error;
+                        }
                         if (err instanceof Error) {
                             return err.message || "Something went wrong while uploading!";
                         }
@@ -120,6 +136,7 @@ export default function NewFileButton() {
             
             // Reset file input only after successful upload
             setFile(null);
+            setExtract(false);
         } catch (error) {
             // Additional error handling if needed
             console.error("Upload error:", error);
@@ -157,6 +174,16 @@ export default function NewFileButton() {
                         setFile(f);
                     }
                 }}/>
+            {file?.name.toLowerCase().endsWith(".zip") && (
+                <div className="flex items-center gap-2">
+                    <input
+                        id="extract"
+                        type="checkbox"
+                        checked={extract}
+                        onChange={(e) => setExtract(e.target.checked)}/>
+                    <Label htmlFor="extract">Extract archive into folders</Label>
+                </div>
+            )}
             <AlertDialogFooter>
                 <AlertDialogCancel
                     className="hover:cursor-pointer">
@@ -18,7 +18,7 @@ vi.mock("@/api-services/folder-api.service", () => ({
     FolderApiService: {
         createFolder: vi.fn(() => Promise.resolve({ id: "folder-123", folder_name: "New Folder" })),
         getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
-        getFolderContents: vi.fn(() => Promise.resolve({ files: [], subFolders: [] })),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
     }
 }));
 
@@ -61,8 +61,6 @@ describe("NewFolderButton", () => {
         updated_at: new Date("2024-01-01"),
         is_root: false,
         s3_link: null,
-        shared: false,
-        expires_at: null,
         owner_clerk_id: "user-789",
         parent_folder_id: "parent-folder-456",
         subfolders: [],
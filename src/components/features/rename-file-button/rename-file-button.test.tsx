@@ -0,0 +1,132 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import RenameFileButton from "./rename-file-button";
+import { TestWrapper } from "@/test-utils/test-wrapper";
+import React from "react";
+import { FileApiService } from "@/api-services/file-api.service";
+import { toast } from "sonner";
+import { type File } from "@/types/types";
+
+vi.mock("@/hooks/use-mobile", () => ({
+    useIsMobile: () => false,
+}));
+
+vi.mock("@/api-services/file-api.service", () => ({
+    FileApiService: {
+        renameFile: vi.fn(() => Promise.resolve({ id: "file-123", file_name: "renamed.pdf" })),
+    }
+}));
+
+vi.mock("@/api-services/folder-api.service", () => ({
+    FolderApiService: {
+        getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
+    }
+}));
+
+const mockFetchFolderContents = vi.fn();
+const mockRefetchFolderTree = vi.fn();
+
+vi.mock("@/hooks/use-auth-folder", () => ({
+    useAuthFolder: vi.fn(() => ({
+        fetchFolderContents: mockFetchFolderContents,
+        refetchFolderTree: mockRefetchFolderTree,
+        files: [
+            { id: "file-123", file_name: "report.pdf" },
+            { id: "file-456", file_name: "notes.txt" },
+        ],
+    })),
+}));
+
+vi.mock("next/navigation", () => ({
+    useParams: () => ({ folderId: ["test-folder-123"] }),
+    useRouter: () => ({
+        push: vi.fn(),
+        replace: vi.fn(),
+        back: vi.fn(),
+    }),
+    useSearchParams: () => new URLSearchParams(),
+    usePathname: () => '/',
+}));
+
+vi.mock("sonner");
+
+describe("RenameFileButton", () => {
+    const mockFile: File = {
+        id: "file-123",
+        file_name: "report.pdf",
+        size: 1024,
+        created_at: new Date("2024-01-01"),
+        s3_link: null,
+        s3_key: "root_user_user-789/files/file-123/report.pdf",
+        parent_folder_id: "folder-456",
+        owner_clerk_id: "user-789",
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(toast.promise).mockImplementation(((promise: () => Promise<unknown>) => promise()) as never);
+    });
+
+    const renderWithProviders = (component: React.ReactElement) => {
+        return render(
+            <TestWrapper>
+                {component}
+            </TestWrapper>
+        );
+    };
+
+    it("renders a disabled button in read-only mode", () => {
+        renderWithProviders(<RenameFileButton file={mockFile} readOnly={true} />);
+        expect(screen.getByRole("button", { name: /rename/i })).toBeDisabled();
+    });
+
+    it("opens a dialog pre-filled with the current file name", async () => {
+        const user = userEvent.setup();
+        renderWithProviders(<RenameFileButton file={mockFile} readOnly={false} />);
+
+        await user.click(screen.getByRole("button", { name: /rename/i }));
+
+        await waitFor(() => {
+            expect(screen.getByRole("alertdialog")).toBeInTheDocument();
+        });
+        expect(screen.getByPlaceholderText("Enter the new file name...")).toHaveValue("report.pdf");
+    });
+
+    it("renames the file and refreshes the folder", async () => {
+        const user = userEvent.setup();
+        const onClose = vi.fn();
+        renderWithProviders(<RenameFileButton file={mockFile} readOnly={false} onClose={onClose} />);
+
+        await user.click(screen.getByRole("button", { name: /rename/i }));
+        const input = await screen.findByPlaceholderText("Enter the new file name...");
+        await user.clear(input);
+        await user.type(input, "renamed.pdf");
+        await user.click(screen.getByRole("button", { name: /^rename$/i }));
+
+        await waitFor(() => {
+            expect(FileApiService.renameFile).toHaveBeenCalledWith("file-123", "renamed.pdf");
+        });
+        expect(mockFetchFolderContents).toHaveBeenCalled();
+        expect(mockRefetchFolderTree).toHaveBeenCalled();
+        expect(onClose).toHaveBeenCalled();
+    });
+
+    it("rejects a name used by another file in the folder", async () => {
+        const user = userEvent.setup();
+        renderWithProviders(<RenameFileButton file={mockFile} readOnly={false} />);
+
+        await user.click(screen.getByRole("button", { name: /rename/i }));
+        const input = await screen.findByPlaceholderText("Enter the new file name...");
+        await user.clear(input);
+        await user.type(input, "notes.txt");
+        await user.click(screen.getByRole("button", { name: /^rename$/i }));
+
+        await waitFor(() => {
+            expect(toast.error).toHaveBeenCalledWith('A file name "notes.txt" already exists in this location!');
+        });
+        expect(FileApiService.renameFile).not.toHaveBeenCalled();
+    });
+});
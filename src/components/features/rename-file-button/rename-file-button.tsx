@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Button component for renaming files.
+ *
+ * This component provides a button that opens a dialog for entering a new name
+ * for the selected file.
+ *
+ * @module components/features/rename-file-button
+ */
+import { toast } from "sonner";
+import { type File } from "@/types/types";
+import { useState } from "react";
+
+import {
+    AlertDialog, AlertDialogAction,
+    AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader,
+    AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+import { Button } from "@/components/ui/button";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { IconPencil } from "@tabler/icons-react";
+import { Input } from "@/components/ui/input";
+import { FileApiService } from "@/api-services/file-api.service";
+import { ApiError } from "@/lib/api-client";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+
+/**
+ * Button component for renaming a file.
+ *
+ * Opens a dialog pre-filled with the current file name. Names that clash with
+ * another file in the same folder are rejected before calling the API.
+ *
+ * @param props - Component props
+ * @param props.file - The file to rename (null if no file selected)
+ * @param props.readOnly - If true, disables the rename button
+ * @param props.onClose - Optional callback run after a successful rename (e.g. closing the sidebar)
+ * @returns Alert dialog button for renaming the file
+ *
+ * @example
+ * ```tsx
+ * <RenameFileButton file={selectedFile} readOnly={false} onClose={closeSidebar} />
+ * ```
+ *
+ * @remarks
+ * - Refreshes the folder contents and folder tree after renaming
+ * - Shows the server's error message (e.g. duplicate name) when the rename fails
+ * - Uses FileApiService.renameFile for API calls
+ */
+export default function RenameFileButton({ file, readOnly, onClose } : {
+    file: File | null,
+    readOnly: boolean,
+    onClose?: () => void,
+}) {
+    const [fileName, setFileName] = useState<string>(file?.file_name ?? "");
+    const { fetchFolderContents, refetchFolderTree, files } = useAuthFolder();
+
+    const handleRename = async () => {
+        const newName = fileName.trim();
+        if (!file?.id || !newName || newName === file.file_name) {return};
+
+        const existingFile = files?.find(targ_file =>
+            targ_file.id !== file.id && targ_file.file_name === newName
+        );
+
+        if (existingFile) {
+            toast.error(`A file name "${newName}" already exists in this location!`);
+            return;
+        }
+
+        await toast.promise(
+            async () => {
+                const result = await FileApiService.renameFile(file.id, newName);
+                if (result instanceof ApiError) throw result;
+                await fetchFolderContents();
+                refetchFolderTree();
+                onClose?.();
+                return newName;
+            },
+            {
+                loading: `Renaming "${file.file_name}"...`,
+                success: (name) => `File renamed to "${name}"!`,
+                error: (err) => (err instanceof ApiError && err.data?.error) || "Failed to rename file. Please try again.",
+            }
+        );
+    }
+
+    return (<AlertDialog onOpenChange={(open) => open && setFileName(file?.file_name ?? "")}>
+        <AlertDialogTrigger asChild>
+            <SidebarMenuButton asChild>
+                <Button
+                    variant={"outline"}
+                    disabled={readOnly}
+                    className="w-full justify-start hover:cursor-pointer">
+                    <IconPencil className="mr-2 h-4 w-4" />
+                    Rename
+                </Button>
+            </SidebarMenuButton>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+            <AlertDialogHeader>
+                <AlertDialogTitle>Rename File</AlertDialogTitle>
+                <AlertDialogDescription>
+                    Enter a new name for <span className="font-semibold">{file?.file_name}</span>.
+                </AlertDialogDescription>
+            </AlertDialogHeader>
+            <Input
+                type="text"
+                value={fileName}
+                placeholder="Enter the new file name..."
+                onChange={(e) => setFileName(e.target.value)}/>
+            <AlertDialogFooter>
+                <AlertDialogCancel className="hover:cursor-pointer">Cancel</AlertDialogCancel>
+                <AlertDialogAction className="hover:cursor-pointer" onClick={handleRename}>
+                    Rename
+                </AlertDialogAction>
+            </AlertDialogFooter>
+        </AlertDialogContent>
+    </AlertDialog>);
+}
@@ -0,0 +1,110 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import RenameFolderButton from "./rename-folder-button";
+import { TestWrapper } from "@/test-utils/test-wrapper";
+import React from "react";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import { ApiError } from "@/lib/api-client";
+import { toast } from "sonner";
+
+vi.mock("@/hooks/use-mobile", () => ({
+    useIsMobile: () => false,
+}));
+
+vi.mock("@/api-services/folder-api.service", () => ({
+    FolderApiService: {
+        renameFolder: vi.fn(() => Promise.resolve({ id: "test-folder-123", folder_name: "Reports" })),
+        getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
+    }
+}));
+
+const mockFetchFolderContents = vi.fn();
+const mockRefetchFolderTree = vi.fn();
+
+vi.mock("@/hooks/use-auth-folder", () => ({
+    useAuthFolder: vi.fn(() => ({
+        currentFolderId: "test-folder-123",
+        fetchFolderContents: mockFetchFolderContents,
+        refetchFolderTree: mockRefetchFolderTree,
+    })),
+}));
+
+vi.mock("next/navigation", () => ({
+    useParams: () => ({ folderId: ["test-folder-123"] }),
+    useRouter: () => ({
+        push: vi.fn(),
+        replace: vi.fn(),
+        back: vi.fn(),
+    }),
+    useSearchParams: () => new URLSearchParams(),
+    usePathname: () => '/',
+}));
+
+vi.mock("sonner");
+
+describe("RenameFolderButton", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    const renderWithProviders = (component: React.ReactElement) => {
+        return render(
+            <TestWrapper>
+                {component}
+            </TestWrapper>
+        );
+    };
+
+    const submitName = async (name: string) => {
+        const user = userEvent.setup();
+        renderWithProviders(<RenameFolderButton />);
+        await user.click(screen.getByRole("button", { name: /rename folder/i }));
+        await waitFor(() => {
+            expect(screen.getByRole("alertdialog")).toBeInTheDocument();
+        });
+        if (name) {
+            await user.type(screen.getByPlaceholderText("Enter the new folder name..."), name);
+        }
+        await user.click(screen.getByRole("button", { name: /rename folder/i }));
+    };
+
+    it("renders the rename folder button", () => {
+        renderWithProviders(<RenameFolderButton />);
+        expect(screen.getByText("Rename Folder")).toBeInTheDocument();
+    });
+
+    it("renames the current folder and refreshes the tree", async () => {
+        vi.mocked(toast.promise).mockImplementation(((promise: () => Promise<unknown>) => promise()) as never);
+
+        await submitName("Reports");
+
+        await waitFor(() => {
+            expect(FolderApiService.renameFolder).toHaveBeenCalledWith("test-folder-123", "Reports");
+        });
+        expect(mockFetchFolderContents).toHaveBeenCalled();
+        expect(mockRefetchFolderTree).toHaveBeenCalled();
+    });
+
+    it("does nothing when the name is empty", async () => {
+        await submitName("");
+        expect(toast.promise).not.toHaveBeenCalled();
+    });
+
+    it("surfaces the server's message when the name is taken", async () => {
+        let errorMessage: unknown;
+        vi.mocked(toast.promise).mockImplementation(((promise: () => Promise<unknown>, options: { error: (err: unknown) => unknown }) =>
+            promise().catch((err) => { errorMessage = options.error(err); })) as never);
+        vi.mocked(FolderApiService.renameFolder).mockRejectedValueOnce(
+            new ApiError("HTTP 409", 409, { error: 'A folder named "Reports" already exists in this location' }));
+
+        await submitName("Reports");
+
+        await waitFor(() => {
+            expect(errorMessage).toBe('A folder named "Reports" already exists in this location');
+        });
+        expect(mockRefetchFolderTree).not.toHaveBeenCalled();
+    });
+});
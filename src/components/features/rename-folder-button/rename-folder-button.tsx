@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Button component for renaming the current folder.
+ *
+ * This component provides a button that opens a dialog for entering a new name
+ * for the folder currently being viewed.
+ *
+ * @module components/features/rename-folder-button
+ */
+import { toast } from "sonner";
+import React from "react";
+import { useState } from "react";
+
+import {
+    AlertDialog, AlertDialogAction,
+    AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader,
+    AlertDialogTitle, AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+import { Button } from "@/components/ui/button";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { IconPencil } from "@tabler/icons-react";
+import { Input } from "@/components/ui/input";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import { ApiError } from "@/lib/api-client";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+
+/**
+ * Button component for renaming the current folder.
+ *
+ * Opens a dialog prompting for a new name, then renames the folder the user is
+ * currently viewing. Renaming the root folder changes the name shown in the
+ * breadcrumb and folder tree.
+ *
+ * @example
+ * ```tsx
+ * <RenameFolderButton />
+ * ```
+ *
+ * @remarks
+ * - Uses the current folder ID from the auth folder context
+ * - Validates the folder name (must not be empty)
+ * - Duplicate names in the parent folder are rejected by the API and shown as a toast
+ * - Uses FolderApiService.renameFolder for API calls
+ */
+export default function RenameFolderButton() {
+    const [folderName, setFolderName] = useState<string>("");
+    const { currentFolderId, fetchFolderContents, refetchFolderTree } = useAuthFolder();
+
+    const handleRenameFolder = async () => {
+        const newName = folderName.trim();
+        if (!newName || !currentFolderId) {return};
+
+        await toast.promise(
+            async () => {
+                const result = await FolderApiService.renameFolder(currentFolderId, newName);
+                if (result instanceof ApiError) throw result;
+                await fetchFolderContents();
+                refetchFolderTree();
+                return newName;
+            },
+            {
+                loading: `Renaming folder...`,
+                success: (name) => `Folder renamed to "${name}"!`,
+                error: (err) => (err instanceof ApiError && err.data?.error) || "Something went wrong while renaming the folder.",
+            }
+        );
+
+        setFolderName("");
+    }
+
+    return (<AlertDialog>
+        <AlertDialogTrigger asChild>
+            <SidebarMenuButton asChild>
+                <Button
+                    variant={"outline"}
+                    className="w-full justify-start hover:cursor-pointer"
+                    data-testid="rename-folder-button">
+                    {React.createElement(IconPencil)}
+                    Rename Folder
+                </Button>
+            </SidebarMenuButton>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+            <AlertDialogHeader>
+                <AlertDialogTitle>Rename Folder</AlertDialogTitle>
+                <AlertDialogDescription>
+                    Enter a new name for the current folder.
+                </AlertDialogDescription>
+            </AlertDialogHeader>
+            <Input
+                type="text"
+                placeholder="Enter the new folder name..."
+                onChange={(e) => setFolderName(e.target.value)}/>
+            <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRenameFolder}>
+                    Rename Folder
+                </AlertDialogAction>
+            </AlertDialogFooter>
+        </AlertDialogContent>
+    </AlertDialog>);
+}
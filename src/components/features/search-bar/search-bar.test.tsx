@@ -0,0 +1,115 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import SearchBar from "./search-bar";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import { ApiError } from "@/lib/api-client";
+
+vi.mock("@/api-services/folder-api.service", () => ({
+    FolderApiService: {
+        search: vi.fn(),
+    }
+}));
+
+vi.mock("@/hooks/use-auth-folder", () => ({
+    useAuthFolder: vi.fn(() => ({
+        currentFolderId: "folder-123",
+    })),
+}));
+
+const mockPush = vi.fn();
+vi.mock("next/navigation", () => ({
+    useRouter: vi.fn(() => ({
+        push: mockPush,
+    })),
+}));
+
+describe("SearchBar", () => {
+    const results = [
+        {
+            kind: "folder" as const,
+            id: "folder-9",
+            name: "Budgets",
+            parent_folder_id: "root-1",
+            size: null,
+            created_at: new Date("2025-01-01"),
+            matched_content: false,
+            path: [{ id: "root-1", name: "Ada Lovelace" }],
+        },
+        {
+            kind: "file" as const,
+            id: "file-1",
+            name: "minutes.pdf",
+            parent_folder_id: "docs",
+            size: 2048,
+            created_at: new Date("2025-01-02"),
+            matched_content: true,
+            path: [{ id: "root-1", name: "Ada Lovelace" }, { id: "docs", name: "Documents" }],
+        },
+    ];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(FolderApiService.search).mockResolvedValue({ results });
+    });
+
+    it("lists results with their breadcrumb paths", async () => {
+        const user = userEvent.setup();
+        render(<SearchBar />);
+
+        await user.type(screen.getByLabelText("Search"), "budget{Enter}");
+
+        expect(await screen.findByText("minutes.pdf")).toBeInTheDocument();
+        expect(FolderApiService.search).toHaveBeenCalledWith({ q: "budget" });
+        expect(screen.getAllByTestId("search-result-path").map((path) => path.textContent))
+            .toEqual(["Ada Lovelace", "Ada Lovelace / Documents"]);
+        expect(screen.getByText("2 KB")).toBeInTheDocument();
+        expect(screen.getByText("Matched in content")).toBeInTheDocument();
+    });
+
+    it("opens a folder result, and the folder holding a file result", async () => {
+        const user = userEvent.setup();
+        render(<SearchBar />);
+        await user.type(screen.getByLabelText("Search"), "budget{Enter}");
+
+        await user.click(await screen.findByText("Budgets"));
+        expect(mockPush).toHaveBeenCalledWith("/folders/folder-9");
+
+        await user.click(screen.getByText("minutes.pdf"));
+        expect(mockPush).toHaveBeenCalledWith("/folders/docs");
+    });
+
+    it("sends the chosen filters", async () => {
+        const user = userEvent.setup();
+        render(<SearchBar />);
+
+        await user.click(screen.getByRole("button", { name: "Filters" }));
+        await user.selectOptions(screen.getByLabelText("Type"), "pdf");
+        await user.type(screen.getByLabelText("Min size (MB)"), "1.5");
+        await user.click(screen.getByLabelText("This folder only"));
+        await user.type(screen.getByLabelText("Search"), "budget");
+        await user.click(screen.getByRole("button", { name: /search$/i }));
+
+        await waitFor(() => {
+            expect(FolderApiService.search).toHaveBeenCalledWith({
+                q: "budget",
+                type: "pdf",
+                min_size: 1.5 * 1024 * 1024,
+                folder_id: "folder-123",
+            });
+        });
+    });
+
+    it("shows the error of a rejected search", async () => {
+        vi.mocked(FolderApiService.search).mockResolvedValue(
+            new ApiError("Bad Request", 400, { error: "q must contain a letter or digit and be at most 200 characters" }));
+        const user = userEvent.setup();
+        render(<SearchBar />);
+
+        await user.type(screen.getByLabelText("Search"), "!!{Enter}");
+
+        expect(await screen.findByText("q must contain a letter or digit and be at most 200 characters")).toBeInTheDocument();
+        expect(screen.queryByTestId("search-results")).not.toBeInTheDocument();
+    });
+});
@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Search bar for finding files and folders by name or content.
+ *
+ * This component searches the signed-in user's files and folders, with optional
+ * filters, and lists the results with the breadcrumb path to each one.
+ *
+ * @module components/features/search-bar
+ */
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { IconAdjustmentsHorizontal, IconFile, IconFolder, IconSearch, IconX } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import { ApiError } from "@/lib/api-client";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+import { formatBytes } from "@/lib/utils";
+import { type SearchQuery, type SearchResult } from "@/types/types";
+
+/**
+ * Choices of the type filter, by the `type` value sent to the API.
+ */
+const TYPE_OPTIONS: { value: string, label: string }[] = [
+    { value: "", label: "Anything" },
+    { value: "folder", label: "Folders" },
+    { value: "file", label: "Files" },
+    { value: "pdf", label: "PDF" },
+    { value: "txt", label: "Text" },
+    { value: "md", label: "Markdown" },
+    { value: "csv", label: "CSV" },
+];
+
+const MB = 1024 * 1024;
+
+/**
+ * Search bar with filters and a result list.
+ *
+ * @returns A search form; once a search has run, its results below it
+ *
+ * @example
+ * ```tsx
+ * <SearchBar />
+ * ```
+ *
+ * @remarks
+ * - Searches via {@link FolderApiService.search} when the form is submitted
+ * - Filters (type, size in MB, creation dates, current folder only) are shown with
+ *   the filter button
+ * - Clicking a folder opens it; clicking a file opens the folder it is in
+ * - Results matched by a file's text rather than its name are marked as such
+ */
+export default function SearchBar() {
+    const router = useRouter();
+    const { currentFolderId } = useAuthFolder();
+    const [query, setQuery] = useState("");
+    const [showFilters, setShowFilters] = useState(false);
+    const [type, setType] = useState("");
+    const [minSize, setMinSize] = useState("");
+    const [maxSize, setMaxSize] = useState("");
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+    const [inCurrentFolder, setInCurrentFolder] = useState(false);
+    const [results, setResults] = useState<SearchResult[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+
+    const handleSearch = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!query.trim()) return;
+
+        const filters: SearchQuery & { folder_id?: string } = { q: query.trim() };
+        if (type) filters.type = type;
+        if (minSize) filters.min_size = Math.round(Number(minSize) * MB);
+        if (maxSize) filters.max_size = Math.round(Number(maxSize) * MB);
+        if (from) filters.from = new Date(`${from}T00:00:00`);
+        if (to) filters.to = new Date(`${to}T23:59:59.999`);
+        if (inCurrentFolder && currentFolderId) filters.folder_id = currentFolderId;
+
+        setIsSearching(true);
+        try {
+            const data = await FolderApiService.search(filters);
+            if (data instanceof ApiError) {
+                setError(data.data?.error || "Search failed. Please try again.");
+                setResults(null);
+            } else {
+                setError(null);
+                setResults(data.results);
+            }
+        } catch (error) {
+            console.error("Error searching: ", error);
+            setError("Search failed. Please try again.");
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    const handleClear = () => {
+        setQuery("");
+        setResults(null);
+        setError(null);
+    };
+
+    const openResult = (result: SearchResult) => {
+        router.push(`/folders/${result.kind === "folder" ? result.id : result.parent_folder_id}`);
+    };
+
+    return (
+        <div className="flex w-full max-w-2xl flex-col gap-2 py-2" data-testid="search-bar">
+            <form className="flex flex-row items-center gap-2" role="search" onSubmit={handleSearch}>
+                <Input
+                    type="search"
+                    placeholder="Search files, folders and text..."
+                    aria-label="Search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}/>
+                <Button type="submit" variant="outline" className="hover:cursor-pointer" disabled={isSearching}>
+                    <IconSearch/>
+                    Search
+                </Button>
+                <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="hover:cursor-pointer"
+                    aria-label="Filters"
+                    aria-pressed={showFilters}
+                    onClick={() => setShowFilters(!showFilters)}>
+                    <IconAdjustmentsHorizontal/>
+                </Button>
+                {results !== null && (
+                    <Button type="button" variant="ghost" size="icon" className="hover:cursor-pointer" aria-label="Clear search" onClick={handleClear}>
+                        <IconX/>
+                    </Button>
+                )}
+            </form>
+
+            {showFilters && (
+                <div className="grid grid-cols-2 gap-2 rounded-md border p-3 text-sm md:grid-cols-3" data-testid="search-filters">
+                    <div className="flex flex-col gap-1">
+                        <Label htmlFor="search-type">Type</Label>
+                        <select
+                            id="search-type"
+                            className="border-input h-9 rounded-md border bg-transparent px-2"
+                            value={type}
+                            onChange={(e) => setType(e.target.value)}>
+                            {TYPE_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex flex-col gap-1">
+                        <Label htmlFor="search-min-size">Min size (MB)</Label>
+                        <Input id="search-min-size" type="number" min={0} step="any" value={minSize} onChange={(e) => setMinSize(e.target.value)}/>
+                    </div>
+                    <div className="flex flex-col gap-1">
+                        <Label htmlFor="search-max-size">Max size (MB)</Label>
+                        <Input id="search-max-size" type="number" min={0} step="any" value={maxSize} onChange={(e) => setMaxSize(e.target.value)}/>
+                    </div>
+                    <div className="flex flex-col gap-1">
+                        <Label htmlFor="search-from">Created from</Label>
+                        <Input id="search-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)}/>
+                    </div>
+                    <div className="flex flex-col gap-1">
+                        <Label htmlFor="search-to">Created until</Label>
+                        <Input id="search-to" type="date" value={to} onChange={(e) => setTo(e.target.value)}/>
+                    </div>
+                    <div className="flex flex-row items-center gap-2 self-end pb-2">
+                        <input
+                            id="search-in-folder"
+                            type="checkbox"
+                            checked={inCurrentFolder}
+                            disabled={!currentFolderId}
+                            onChange={(e) => setInCurrentFolder(e.target.checked)}/>
+                        <Label htmlFor="search-in-folder">This folder only</Label>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {results !== null && (
+                <ul className="flex flex-col divide-y rounded-md border" data-testid="search-results">
+                    {results.length === 0 && (
+                        <li className="p-3 text-sm text-muted-foreground">No results for &quot;{query}&quot;</li>
+                    )}
+                    {results.map((result) => (
+                        <li key={`${result.kind}-${result.id}`}>
+                            <button
+                                type="button"
+                                className="flex w-full flex-row items-center gap-3 p-3 text-left hover:bg-muted/50 hover:cursor-pointer"
+                                onClick={() => openResult(result)}>
+                                {result.kind === "folder" ? <IconFolder className="size-4 shrink-0"/> : <IconFile className="size-4 shrink-0"/>}
+                                <div className="flex min-w-0 flex-col">
+                                    <span className="truncate font-medium">{result.name}</span>
+                                    <span className="truncate text-xs text-muted-foreground" data-testid="search-result-path">
+                                        {result.path.map((ancestor) => ancestor.name).join(" / ")}
+                                    </span>
+                                </div>
+                                <div className="ml-auto flex shrink-0 flex-col items-end text-xs text-muted-foreground">
+                                    {result.size !== null && <span>{formatBytes(result.size)}</span>}
+                                    {result.matched_content && <span>Matched in content</span>}
+                                </div>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -56,10 +56,8 @@ describe("ShareFileButton", () => {
         file_name: "test-file.pdf",
         size: 1024,
         created_at: new Date("2024-01-01"),
-        shared: false,
         s3_link: "https://s3.example.com/file-123",
         s3_key: "user-789/test-file.pdf",
-        expires_at: null,
         parent_folder_id: "folder-456",
         owner_clerk_id: "user-789"
     };
@@ -219,6 +217,80 @@ describe("ShareFileButton", () => {
         });
     });
 
+    describe("Link Settings", () => {
+        it("Should send the label and permission with the new link", async () => {
+            const user = userEvent.setup();
+            vi.mocked(toast.promise).mockImplementationOnce(((fn: () => Promise<unknown>) => fn()) as never);
+
+            renderWithProviders(<ShareFileButton file={mockFile} readOnly={false}/>);
+
+            await user.click(screen.getByRole('button', { name: /share/i }));
+
+            await waitFor(() => {
+                expect(screen.getByRole("alertdialog")).toBeInTheDocument();
+            });
+
+            await user.click(screen.getByRole('radio', { name: '1 day' }));
+            await user.type(screen.getByLabelText("Label (optional)"), "Accountant");
+            await user.click(screen.getByRole('radio', { name: 'View only' }));
+            await user.click(screen.getByRole("button", { name: /generate link/i }));
+
+            await waitFor(() => {
+                expect(FileApiService.shareFile).toHaveBeenCalledWith("file-123", 24, { label: "Accountant", permission: "view" });
+            });
+        });
+
+        it("Should send a password, refusing one that is too short", async () => {
+            const user = userEvent.setup();
+
+            renderWithProviders(<ShareFileButton file={mockFile} readOnly={false}/>);
+
+            await user.click(screen.getByRole('button', { name: /share/i }));
+
+            await waitFor(() => {
+                expect(screen.getByRole("alertdialog")).toBeInTheDocument();
+            });
+
+            await user.click(screen.getByRole('radio', { name: '1 day' }));
+            await user.type(screen.getByLabelText("Password (optional)"), "abc");
+            await user.click(screen.getByRole("button", { name: /generate link/i }));
+
+            expect(toast.error).toHaveBeenCalledWith("Passwords must be at least 6 characters!");
+            expect(FileApiService.shareFile).not.toHaveBeenCalled();
+
+            vi.mocked(toast.promise).mockImplementationOnce(((fn: () => Promise<unknown>) => fn()) as never);
+            await user.type(screen.getByLabelText("Password (optional)"), "defghi");
+            await user.click(screen.getByRole("button", { name: /generate link/i }));
+
+            await waitFor(() => {
+                expect(FileApiService.shareFile).toHaveBeenCalledWith("file-123", 24, { label: "", permission: "download", password: "abcdefghi" });
+            });
+        });
+
+        it("Should create a one-time link and show the downloads left", async () => {
+            const user = userEvent.setup();
+            vi.mocked(FileApiService.shareFile).mockResolvedValueOnce({ url: "https://example.com/one-time", expires_at: null, downloads_remaining: 1 } as never);
+            vi.mocked(toast.promise).mockImplementationOnce(((fn: () => Promise<unknown>) => fn()) as never);
+
+            renderWithProviders(<ShareFileButton file={mockFile} readOnly={false}/>);
+
+            await user.click(screen.getByRole('button', { name: /share/i }));
+
+            await waitFor(() => {
+                expect(screen.getByRole("alertdialog")).toBeInTheDocument();
+            });
+
+            await user.click(screen.getByRole('radio', { name: '1 day' }));
+            await user.click(screen.getByRole('radio', { name: 'One-time' }));
+            await user.click(screen.getByRole("button", { name: /generate link/i }));
+
+            await waitFor(() => {
+                expect(FileApiService.shareFile).toHaveBeenCalledWith("file-123", 24, { label: "", permission: "download", max_downloads: 1 });
+            });
+            expect(await screen.findByText("1 download left")).toBeInTheDocument();
+        });
+    });
+
     describe("Error Handling", () => {
         it("Should disable generate button when no duration is selected", async () => {
             renderWithProviders(<ShareFileButton file={mockFile} readOnly={false}/>);
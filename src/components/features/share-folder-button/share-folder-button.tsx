@@ -22,12 +22,13 @@ import {
 } from "@/components/ui/alert-dialog";
 
 import { SidebarMenuButton } from "@/components/ui/sidebar";
-import { IconShare, IconCopy, IconCheck, IconClock } from "@tabler/icons-react";
+import { IconShare, IconCopy, IconCheck, IconClock, IconTag, IconEye, IconLock, IconDownload } from "@tabler/icons-react";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Input } from "@/components/ui/input";
 
 import { FolderApiService } from "@/api-services/folder-api.service";
 import { useAuthFolder } from "@/hooks/use-auth-folder";
+import { type SharePermission } from "@/types/types";
 
 /**
  * Button component for generating shareable folder links with expiration.
@@ -59,6 +60,13 @@ import { useAuthFolder } from "@/hooks/use-auth-folder";
  * @remarks
  * - **Expiration Options**: 1 hour, 4 hours, 1 day, 3 days, 1 week
  * - Gets folder ID from URL params (useParams hook)
+ * - Optional label (shown only to the owner) and a permission: **View only** or
+ *   **View & download** (the default)
+ * - Optional password of at least 6 characters, which visitors must enter before
+ *   the link shows anything
+ * - Download limit: **Unlimited** (the default), **One-time**, **5** or **10**
+ *   downloads; once the link is created the dialog shows the downloads it has left
+ * - Each generated link is new; links created earlier keep working
  * - Validates that duration is selected before generating link
  * - Shows toast error if duration not selected or folder ID missing
  * - Generated link appears in a read-only input field
@@ -71,6 +79,11 @@ import { useAuthFolder } from "@/hooks/use-auth-folder";
  */
 export default function ShareFolderButton() {
     const [hours, setHours] = useState<string>("");
+    const [label, setLabel] = useState<string>("");
+    const [password, setPassword] = useState<string>("");
+    const [maxDownloads, setMaxDownloads] = useState<string>("unlimited");
+    const [downloadsRemaining, setDownloadsRemaining] = useState<number | null>(null);
+    const [permission, setPermission] = useState<SharePermission>("download");
     const [link, setLink] = useState<string>("");
     const [expiresAt, setExpiresAt] = useState<Date | null>(null);
     const [copied, setCopied] = useState<boolean>(false);
@@ -98,19 +111,27 @@ export default function ShareFolderButton() {
             return;
         }
 
+        if (password && password.length < 6) {
+            toast.error("Passwords must be at least 6 characters!");
+            return;
+        }
+
         setIsGenerating(true);
         
         await toast.promise(
             async () => {
-                const data = await FolderApiService.shareFolder(currentFolderId, parseInt(hours));
+                const data = await FolderApiService.shareFolder(currentFolderId, parseInt(hours), {
+                    label,
+                    permission,
+                    password: password || undefined,
+                    max_downloads: maxDownloads === "unlimited" ? undefined : parseInt(maxDownloads),
+                });
                 if (data instanceof ApiError) {
                     throw new Error("Failed to generate share link");
                 }
                 setLink(data.url);
-                // Calculate expiration time
-                const expiration = new Date();
-                expiration.setHours(expiration.getHours() + parseInt(hours));
-                setExpiresAt(expiration);
+                setExpiresAt(data.expires_at ? new Date(data.expires_at) : null);
+                setDownloadsRemaining(data.downloads_remaining);
                 return getDurationLabel(hours);
             },
             {
@@ -140,6 +161,11 @@ export default function ShareFolderButton() {
         // Reset state when dialog closes
         setLink("");
         setHours("");
+        setLabel("");
+        setPassword("");
+        setMaxDownloads("unlimited");
+        setDownloadsRemaining(null);
+        setPermission("download");
         setExpiresAt(null);
         setCopied(false);
     };
@@ -204,6 +230,92 @@ export default function ShareFolderButton() {
                         </ToggleGroup>
                     </div>
 
+                    {/* Label */}
+                    <div className="space-y-3">
+                        <label htmlFor="share-label" className="text-sm font-medium flex items-center gap-2">
+                            <IconTag className="h-4 w-4" />
+                            Label (optional)
+                        </label>
+                        <Input
+                            id="share-label"
+                            placeholder="Who is this link for?"
+                            value={label}
+                            maxLength={100}
+                            disabled={!!link}
+                            onChange={(e) => setLabel(e.target.value)}
+                        />
+                    </div>
+
+                    {/* Password */}
+                    <div className="space-y-3">
+                        <label htmlFor="share-password" className="text-sm font-medium flex items-center gap-2">
+                            <IconLock className="h-4 w-4" />
+                            Password (optional)
+                        </label>
+                        <Input
+                            id="share-password"
+                            type="password"
+                            placeholder="Visitors must enter it to open the link"
+                            value={password}
+                            maxLength={128}
+                            autoComplete="new-password"
+                            disabled={!!link}
+                            onChange={(e) => setPassword(e.target.value)}
+                        />
+                    </div>
+
+                    {/* Permission Selection */}
+                    <div className="space-y-3">
+                        <label className="text-sm font-medium flex items-center gap-2">
+                            <IconEye className="h-4 w-4" />
+                            Permission
+                        </label>
+                        <ToggleGroup
+                            variant="outline"
+                            type="single"
+                            value={permission}
+                            disabled={!!link}
+                            onValueChange={(value) => {
+                                if (value) setPermission(value as SharePermission);
+                            }}>
+                            <ToggleGroupItem value="view" className="hover:cursor-pointer">
+                                View only
+                            </ToggleGroupItem>
+                            <ToggleGroupItem value="download" className="hover:cursor-pointer">
+                                View & download
+                            </ToggleGroupItem>
+                        </ToggleGroup>
+                    </div>
+
+                    {/* Download Limit Selection */}
+                    <div className="space-y-3">
+                        <label className="text-sm font-medium flex items-center gap-2">
+                            <IconDownload className="h-4 w-4" />
+                            Download Limit
+                        </label>
+                        <ToggleGroup
+                            variant="outline"
+                            type="single"
+                            value={maxDownloads}
+                            disabled={!!link}
+                            onValueChange={(value) => {
+                                if (value) setMaxDownloads(value);
+                            }}>
+                            <ToggleGroupItem value="unlimited" className="hover:cursor-pointer">
+                                Unlimited
+                            </ToggleGroupItem>
+                            <ToggleGroupItem value="1" className="hover:cursor-pointer">
+                                One-time
+                            </ToggleGroupItem>
+                            <ToggleGroupItem value="5" className="hover:cursor-pointer">
+                                5
+                            </ToggleGroupItem>
+                            <ToggleGroupItem value="10" className="hover:cursor-pointer">
+                                10
+                            </ToggleGroupItem>
+                        </ToggleGroup>
+                    </div>
+
                     {/* Generated Link Display */}
                     {link && (
                         <div className="space-y-2 p-4 bg-muted rounded-lg border">
@@ -237,6 +349,12 @@ export default function ShareFolderButton() {
                                     Expires: {expiresAt.toLocaleString()}
                                 </p>
                             )}
+                            <p className="text-xs text-muted-foreground flex items-center gap-1">
+                                <IconDownload className="h-3 w-3" />
+                                {downloadsRemaining === null
+                                    ? "Unlimited downloads"
+                                    : `${downloadsRemaining} ${downloadsRemaining === 1 ? "download" : "downloads"} left`}
+                            </p>
                         </div>
                     )}
                 </div>
@@ -0,0 +1,56 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import ShareUnlockForm from "./share-unlock-form";
+import { ShareApiService } from "@/api-services/share-api.service";
+import { ApiError } from "@/lib/api-client";
+
+vi.mock("@/api-services/share-api.service", () => ({
+    ShareApiService: {
+        unlockShare: vi.fn(() => Promise.resolve({ message: "Link unlocked", expires_at: new Date() })),
+    },
+}));
+
+describe("ShareUnlockForm", () => {
+    const onUnlocked = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("unlocks the link with the entered password", async () => {
+        const user = userEvent.setup();
+        render(<ShareUnlockForm shareToken="token-abc" onUnlocked={onUnlocked}/>);
+
+        expect(screen.getByRole("button", { name: "Unlock" })).toBeDisabled();
+        await user.type(screen.getByLabelText("Password"), "secret-pass");
+        await user.click(screen.getByRole("button", { name: "Unlock" }));
+
+        expect(ShareApiService.unlockShare).toHaveBeenCalledWith("token-abc", "secret-pass");
+        expect(onUnlocked).toHaveBeenCalled();
+    });
+
+    it("says so when the password is wrong", async () => {
+        const user = userEvent.setup();
+        vi.mocked(ShareApiService.unlockShare).mockRejectedValueOnce(new ApiError("Incorrect password", 401, { error: "Incorrect password" }));
+        render(<ShareUnlockForm shareToken="token-abc" onUnlocked={onUnlocked}/>);
+
+        await user.type(screen.getByLabelText("Password"), "wrong-pass{Enter}");
+
+        expect(await screen.findByRole("alert")).toHaveTextContent("Incorrect password. Please try again.");
+        expect(screen.getByLabelText("Password")).toHaveValue("");
+        expect(onUnlocked).not.toHaveBeenCalled();
+    });
+
+    it("shows the server's message when the link is locked", async () => {
+        const user = userEvent.setup();
+        vi.mocked(ShareApiService.unlockShare).mockRejectedValueOnce(
+            new ApiError("HTTP 429", 429, { error: "Too many incorrect passwords, try again later" }));
+        render(<ShareUnlockForm shareToken="token-abc" onUnlocked={onUnlocked}/>);
+
+        await user.type(screen.getByLabelText("Password"), "secret-pass{Enter}");
+
+        expect(await screen.findByRole("alert")).toHaveTextContent("Too many incorrect passwords, try again later");
+    });
+});
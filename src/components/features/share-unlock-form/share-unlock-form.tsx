@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Password prompt for opening a password-protected share link.
+ *
+ * This component asks visitors of a shared folder or file for the link's password
+ * and exchanges it for the cookie that lets the shared routes serve the link.
+ *
+ * @module components/features/share-unlock-form
+ */
+import React, { useState } from "react";
+import { IconLock } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ShareApiService } from "@/api-services/share-api.service";
+import { ApiError } from "@/lib/api-client";
+
+/**
+ * Unlock screen for a password-protected share link.
+ *
+ * @param props - Component props
+ * @param props.shareToken - Token of the link to unlock
+ * @param props.onUnlocked - Called once the password is accepted, to load the shared content
+ * @returns A password form
+ *
+ * @example
+ * ```tsx
+ * {passwordRequired && <ShareUnlockForm shareToken={token} onUnlocked={reload} />}
+ * ```
+ *
+ * @remarks
+ * - Uses {@link ShareApiService.unlockShare}; the cookie it sets lasts an hour
+ * - Shows the server's message when the link is locked after too many wrong
+ *   passwords
+ */
+export default function ShareUnlockForm({ shareToken, onUnlocked } : {
+    shareToken: string,
+    onUnlocked: () => void,
+}) {
+    const [password, setPassword] = useState<string>("");
+    const [error, setError] = useState<string | null>(null);
+    const [isUnlocking, setIsUnlocking] = useState<boolean>(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!password) return;
+
+        setIsUnlocking(true);
+        setError(null);
+        try {
+            const result = await ShareApiService.unlockShare(shareToken, password);
+            if (result instanceof ApiError) throw result;
+            onUnlocked();
+        } catch (err) {
+            setPassword("");
+            if (err instanceof ApiError && err.status === 401) {
+                setError("Incorrect password. Please try again.");
+            } else {
+                setError((err instanceof ApiError && err.data?.error) || "Failed to unlock this link. Please try again.");
+            }
+        } finally {
+            setIsUnlocking(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4 w-full max-w-sm">
+            <div className="flex flex-col items-center gap-2 text-center">
+                <IconLock className="h-8 w-8 text-muted-foreground"/>
+                <h2 className="text-lg font-semibold">This link is password protected</h2>
+                <p className="text-sm text-muted-foreground">
+                    Enter the password you were given to continue.
+                </p>
+            </div>
+            <Input
+                type="password"
+                aria-label="Password"
+                placeholder="Password"
+                value={password}
+                autoComplete="current-password"
+                autoFocus
+                onChange={(e) => setPassword(e.target.value)}/>
+            {error && (
+                <p role="alert" className="text-sm text-destructive">{error}</p>
+            )}
+            <Button
+                type="submit"
+                className="hover:cursor-pointer"
+                disabled={!password || isUnlocking}>
+                {isUnlocking ? "Unlocking..." : "Unlock"}
+            </Button>
+        </form>
+    );
+}
@@ -20,8 +20,6 @@ vi.mock("@/hooks/use-folder", () => ({
             updated_at: new Date("2024-01-01"),
             is_root: true,
             s3_link: "https://s3.example.com/root-folder",
-            shared: false,
-            expires_at: undefined,
             owner_clerk_id: "user-123",
             files: [],
             subfolders: []
@@ -33,8 +31,6 @@ vi.mock("@/hooks/use-folder", () => ({
             updated_at: new Date("2024-01-01"),
             is_root: false,
             s3_link: "https://s3.example.com/current-folder",
-            shared: false,
-            expires_at: undefined,
             owner_clerk_id: "user-123",
             files: [],
             subfolders: []
@@ -48,8 +44,6 @@ vi.mock("@/hooks/use-folder", () => ({
                 updated_at: new Date("2024-01-01"),
                 is_root: true,
                 s3_link: "https://s3.example.com/root-folder",
-                shared: false,
-                expires_at: undefined,
                 owner_clerk_id: "user-123",
                 files: [],
                 subfolders: []
@@ -61,8 +55,6 @@ vi.mock("@/hooks/use-folder", () => ({
                 updated_at: new Date("2024-01-01"),
                 is_root: false,
                 s3_link: "https://s3.example.com/current-folder",
-                shared: false,
-                expires_at: undefined,
                 owner_clerk_id: "user-123",
                 files: [],
                 subfolders: []
@@ -140,8 +132,6 @@ describe("SharedDirectoryBreadCrumb", () => {
                     updated_at: new Date("2024-01-01"),
                     is_root: true,
                     s3_link: "https://s3.example.com/root-folder",
-                    shared: false,
-                    expires_at: undefined,
                     owner_clerk_id: "user-123",
                     files: [],
                     subfolders: []
@@ -153,8 +143,6 @@ describe("SharedDirectoryBreadCrumb", () => {
                     updated_at: new Date("2024-01-01"),
                     is_root: false,
                     s3_link: "https://s3.example.com/current-folder",
-                    shared: false,
-                    expires_at: undefined,
                     owner_clerk_id: "user-123",
                     files: [],
                     subfolders: []
@@ -168,8 +156,6 @@ describe("SharedDirectoryBreadCrumb", () => {
                         updated_at: new Date("2024-01-01"),
                         is_root: true,
                         s3_link: "https://s3.example.com/root-folder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123",
                         files: [],
                         subfolders: []
@@ -181,8 +167,6 @@ describe("SharedDirectoryBreadCrumb", () => {
                         updated_at: new Date("2024-01-01"),
                         is_root: false,
                         s3_link: "https://s3.example.com/current-folder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123",
                         files: [],
                         subfolders: []
@@ -207,8 +191,6 @@ describe("SharedDirectoryBreadCrumb", () => {
                 updated_at: new Date("2024-01-01"),
                 is_root: true,
                 s3_link: "https://s3.example.com/root-folder",
-                shared: false,
-                expires_at: undefined,
                 owner_clerk_id: "user-123",
                 files: [],
                 subfolders: []
@@ -283,8 +265,6 @@ describe("SharedDirectoryBreadCrumb", () => {
                     updated_at: new Date("2024-01-01"),
                     is_root: false,
                     s3_link: "https://s3.example.com/current-folder",
-                    shared: false,
-                    expires_at: undefined,
                     owner_clerk_id: "user-123",
                     files: [],
                     subfolders: []
@@ -312,8 +292,6 @@ describe("SharedDirectoryBreadCrumb", () => {
                     updated_at: new Date("2024-01-01"),
                     is_root: true,
                     s3_link: "https://s3.example.com/root-folder",
-                    shared: false,
-                    expires_at: undefined,
                     owner_clerk_id: "user-123",
                     files: [],
                     subfolders: []
@@ -342,8 +320,6 @@ describe("SharedDirectoryBreadCrumb", () => {
                     updated_at: new Date("2024-01-01"),
                     is_root: true,
                     s3_link: "https://s3.example.com/root-folder",
-                    shared: false,
-                    expires_at: undefined,
                     owner_clerk_id: "user-123",
                     files: [],
                     subfolders: []
@@ -355,8 +331,6 @@ describe("SharedDirectoryBreadCrumb", () => {
                     updated_at: new Date("2024-01-01"),
                     is_root: false,
                     s3_link: "https://s3.example.com/current-folder",
-                    shared: false,
-                    expires_at: undefined,
                     owner_clerk_id: "user-123",
                     files: [],
                     subfolders: []
@@ -14,7 +14,7 @@ vi.mock("@/components/ui/sidebar", () => ({
 
 vi.mock("@/api-services/file-api.service", () => ({
     FileApiService: {
-        downloadFileFromShareToken: vi.fn(),
+        downloadSharedFile: vi.fn(),
     }
 }));
 
@@ -93,9 +93,7 @@ describe("SharedDownloadFileButton", () => {
         file_name: "test-file.pdf",
         size: 1024,
         created_at: new Date("2024-01-01"),
-        shared: false,
         s3_link: "https://s3.example.com/file-123",
-        expires_at: undefined,
         parent_folder_id: "folder-456",
         owner_clerk_id: "user-789"
     };
@@ -106,7 +104,7 @@ describe("SharedDownloadFileButton", () => {
         vi.clearAllMocks();
         consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
         // Ensure the mock is properly set up
-        vi.mocked(FileApiService.downloadFileFromShareToken).mockResolvedValue({ url: "https://example.com/download-file-123" } as unknown as any);
+        vi.mocked(FileApiService.downloadSharedFile).mockResolvedValue({ url: "https://example.com/download-file-123" } as unknown as any);
     });
 
     describe("Testing Rendering", () => {
@@ -122,9 +120,9 @@ describe("SharedDownloadFileButton", () => {
     });
 
     describe("Testing Download Functionality", () => {
-        it("Should call FileApiService.downloadFileFromShareToken and open download URL when clicked", async () => {
+        it("Should call FileApiService.downloadSharedFile and open download URL when clicked", async () => {
             const { FileApiService } = await import("@/api-services/file-api.service");
-            vi.mocked(FileApiService.downloadFileFromShareToken).mockResolvedValue({
+            vi.mocked(FileApiService.downloadSharedFile).mockResolvedValue({
                 url: "https://example.com/download-file-123"
             });
 
@@ -135,15 +133,15 @@ describe("SharedDownloadFileButton", () => {
             
             // Simulate the download by calling the API directly
             // This tests the same logic that would be called by the button click
-            const result = await FileApiService.downloadFileFromShareToken("file-123", "test-share-token-123");
+            const result = await FileApiService.downloadSharedFile("file-123", "test-share-token-123");
             
             // Also simulate opening the window
             window.open(result.url, "_blank");
 
             await waitFor(() => {
-                expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalled();
-                expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalledWith("file-123", "test-share-token-123");
-                expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalledTimes(1);
+                expect(FileApiService.downloadSharedFile).toHaveBeenCalled();
+                expect(FileApiService.downloadSharedFile).toHaveBeenCalledWith("file-123", "test-share-token-123");
+                expect(FileApiService.downloadSharedFile).toHaveBeenCalledTimes(1);
                 expect(window.open).toHaveBeenCalledWith("https://example.com/download-file-123", "_blank");
             }); 
         });
@@ -157,12 +155,12 @@ describe("SharedDownloadFileButton", () => {
             
             // Simulate the download by calling the API directly
             // This tests the same logic that would be called by the button click
-            await FileApiService.downloadFileFromShareToken(undefined, "test-share-token-123");
+            await FileApiService.downloadSharedFile(undefined, "test-share-token-123");
 
             await waitFor(() => {
-                expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalled();
-                expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalledWith(undefined, "test-share-token-123");
-                expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalledTimes(1);
+                expect(FileApiService.downloadSharedFile).toHaveBeenCalled();
+                expect(FileApiService.downloadSharedFile).toHaveBeenCalledWith(undefined, "test-share-token-123");
+                expect(FileApiService.downloadSharedFile).toHaveBeenCalledTimes(1);
             }); 
         });
     });
@@ -173,7 +171,7 @@ describe("SharedDownloadFileButton", () => {
             const { toast } = await import("sonner");
             
             const error = new Error("Network error");
-            vi.mocked(FileApiService.downloadFileFromShareToken).mockRejectedValue(error);
+            vi.mocked(FileApiService.downloadSharedFile).mockRejectedValue(error);
 
             // Since the button click is not working due to SidebarMenuButton issues,
             // let's test the component by directly calling the download function
@@ -182,7 +180,7 @@ describe("SharedDownloadFileButton", () => {
             // Simulate the download by calling the API directly
             // This tests the same logic that would be called by the button click
             try {
-                await FileApiService.downloadFileFromShareToken("file-123", "test-share-token-123");
+                await FileApiService.downloadSharedFile("file-123", "test-share-token-123");
             } catch {
                 // Expected to fail - simulate the error handling
                 toast.error("Something went wrong when downloading! Try again!");
@@ -190,7 +188,7 @@ describe("SharedDownloadFileButton", () => {
             }
 
             await waitFor(() => {
-                expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalledWith("file-123", "test-share-token-123");
+                expect(FileApiService.downloadSharedFile).toHaveBeenCalledWith("file-123", "test-share-token-123");
                 expect(toast.error).toHaveBeenCalledWith("Something went wrong when downloading! Try again!");
                 expect(consoleSpy).toHaveBeenCalledWith(error);
             })
@@ -200,7 +198,7 @@ describe("SharedDownloadFileButton", () => {
             const { FileApiService } = await import("@/api-services/file-api.service");
             
             const error = new Error("Network error");
-            vi.mocked(FileApiService.downloadFileFromShareToken).mockRejectedValue(error);
+            vi.mocked(FileApiService.downloadSharedFile).mockRejectedValue(error);
 
             // Since the button click is not working due to SidebarMenuButton issues,
             // let's test the component by directly calling the download function
@@ -209,13 +207,13 @@ describe("SharedDownloadFileButton", () => {
             // Simulate the download by calling the API directly
             // This tests the same logic that would be called by the button click
             try {
-                await FileApiService.downloadFileFromShareToken("file-123", "test-share-token-123");
+                await FileApiService.downloadSharedFile("file-123", "test-share-token-123");
             } catch {
                 // Expected to fail
             }
 
             await waitFor(() => {
-                expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalled();
+                expect(FileApiService.downloadSharedFile).toHaveBeenCalled();
                 expect(window.open).not.toHaveBeenCalled();
             })
         });
@@ -237,10 +235,10 @@ describe("SharedDownloadFileButton", () => {
             
             // Simulate the download by calling the API directly
             // This tests the same logic that would be called by the button click
-            await FileApiService.downloadFileFromShareToken("file-123", "different-share-token-456");
+            await FileApiService.downloadSharedFile("file-123", "different-share-token-456");
 
             await waitFor(() => {
-                expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalledWith("file-123", "different-share-token-456");
+                expect(FileApiService.downloadSharedFile).toHaveBeenCalledWith("file-123", "different-share-token-456");
             }); 
         });
 
@@ -259,10 +257,10 @@ describe("SharedDownloadFileButton", () => {
             
             // Simulate the download by calling the API directly
             // This tests the same logic that would be called by the button click
-            await FileApiService.downloadFileFromShareToken("file-123", null);
+            await FileApiService.downloadSharedFile("file-123", null);
 
             await waitFor(() => {
-                expect(FileApiService.downloadFileFromShareToken).toHaveBeenCalledWith("file-123", null);
+                expect(FileApiService.downloadSharedFile).toHaveBeenCalledWith("file-123", null);
             }); 
         });
     });
@@ -276,6 +274,12 @@ describe("SharedDownloadFileButton", () => {
             expect(downloadButton).toBeInTheDocument();
         });
 
+        it("Should be disabled for a view-only link", () => {
+            renderWithProviders(<SharedDownloadFileButton file={mockFile} shareToken="test-share-token" readOnly={false} permission="view" />);
+
+            expect(screen.getByText("Download")).toBeDisabled();
+        });
+
         it("Should have correct button styling", () => {
             renderWithProviders(<SharedDownloadFileButton file={mockFile} shareToken="test-share-token" readOnly={false} />);
             
@@ -12,7 +12,7 @@ import { IconDownload } from "@tabler/icons-react";
 import { Button } from "@/components/ui/button";
 import { SidebarMenuButton } from "@/components/ui/sidebar";
 import { FileApiService } from "@/api-services/file-api.service";
-import { type File } from "@/types/types";
+import { type File, type SharePermission } from "@/types/types";
 import { ApiError } from "@/lib/api-client";
 
 /**
@@ -25,6 +25,7 @@ import { ApiError } from "@/lib/api-client";
  * @param props.file - The file object to download (null if no file selected)
  * @param props.shareToken - The share token for accessing the shared folder
  * @param props.readOnly - Read-only flag (not currently used but present for consistency)
+ * @param props.permission - Permission of the share link; the button is disabled for `view`
  * @returns Button that triggers file download
  * 
  * @example
@@ -45,21 +46,25 @@ import { ApiError } from "@/lib/api-client";
  * @remarks
  * - Requires a valid file object with an id and a share token
  * - Opens download URL in new tab (window.open)
- * - Presigned URL expires after ~67 minutes
+ * - Presigned URL expires with the link, or after 5 minutes if the link has a download limit
+ * - Each click counts as one download against the link's limit
  * - Shows toast notification on error
- * - Uses FileApiService.downloadFileFromShareToken for API calls
+ * - Uses FileApiService.downloadSharedFile for API calls
  * - The readOnly prop doesn't disable the button (downloads are allowed in read-only mode)
+ * - Disabled for view-only links; those files can only be previewed
  * 
- * @see {@link FileApiService.downloadFileFromShareToken} for the API implementation
+ * @see {@link FileApiService.downloadSharedFile} for the API implementation
  */
 export default function SharedDownloadFileButton({ 
     file, 
     shareToken, 
-    readOnly 
+    readOnly,
+    permission,
 }: { 
     file: File | null;
     shareToken: string | null;
     readOnly: boolean;
+    permission?: SharePermission | null;
 }) {
     const [isDownloading, setIsDownloading] = useState<boolean>(false);
 
@@ -78,7 +83,7 @@ export default function SharedDownloadFileButton({
         
         await toast.promise(
             async () => {
-                const data = await FileApiService.downloadFileFromShareToken(file.id, shareToken);
+                const data = await FileApiService.downloadSharedFile(file.id, shareToken);
                 if (data instanceof ApiError) {
                     throw new Error("Failed to generate download link");
                 }
@@ -100,7 +105,7 @@ export default function SharedDownloadFileButton({
             <Button 
                 variant="outline" 
                 className="w-full justify-start hover:cursor-pointer"
-                disabled={isDownloading || !file?.id || !shareToken}
+                disabled={isDownloading || !file?.id || !shareToken || permission === "view"}
                 onClick={downloadFileController}
                 data-testid="download-button">
                 <IconDownload className="mr-2 h-4 w-4" />
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Button component for downloading a shared folder as a ZIP archive.
+ *
+ * This component provides a button that downloads the whole shared folder, including
+ * all of its subfolders and files, as a single ZIP file.
+ *
+ * @module components/features/shared-download-folder-button
+ */
+import { toast } from "sonner";
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { IconFileZip } from "@tabler/icons-react";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import { useFolder } from "@/hooks/use-folder";
+
+/**
+ * Button component for downloading a shared folder as a ZIP archive.
+ *
+ * Points the browser at the share link's archive endpoint, which streams the
+ * folder that was shared (not just the subfolder currently being viewed).
+ *
+ * @example
+ * ```tsx
+ * <SharedDownloadFolderButton />
+ * ```
+ *
+ * @remarks
+ * - Uses the share token from the folder context
+ * - Downloads are allowed for read-only shares, but disabled for view-only links
+ * - Uses FolderApiService.getSharedArchiveUrl to build the download link
+ */
+export default function SharedDownloadFolderButton() {
+    const { shareToken, permission } = useFolder();
+
+    const handleDownloadFolder = () => {
+        if (!shareToken || permission === "view") {return};
+
+        const link = document.createElement("a");
+        link.href = FolderApiService.getSharedArchiveUrl(shareToken);
+        link.download = "";
+        link.click();
+        toast.success("Folder download started!");
+    }
+
+    return (<SidebarMenuButton asChild>
+        <Button
+            variant={"outline"}
+            disabled={!shareToken || permission === "view"}
+            onClick={handleDownloadFolder}
+            className="w-full justify-start hover:cursor-pointer"
+            data-testid="download-folder-button">
+            {React.createElement(IconFileZip)}
+            Download Folder
+        </Button>
+    </SidebarMenuButton>);
+}
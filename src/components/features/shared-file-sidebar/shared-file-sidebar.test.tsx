@@ -19,6 +19,12 @@ vi.mock("../shared-download-file-button/shared-download-file-button", () => ({
     ),
 }));
 
+vi.mock("../file-preview/file-preview", () => ({
+    default: ({ file, shareToken }: { file: any, shareToken?: string | null }) => (
+        <div data-testid="file-preview">Preview of {file.file_name} with {shareToken}</div>
+    ),
+}));
+
 describe("SharedFileSidebar", () => {
 
     const mockFile = {
@@ -51,6 +57,12 @@ describe("SharedFileSidebar", () => {
             expect(screen.getByTestId("download-button")).toBeInTheDocument();
         });
 
+        it("previews the file through the share token", () => {
+            render(<SharedFileSidebar {...defaultProps} shareToken="token-abc" />);
+
+            expect(screen.getByTestId("file-preview")).toHaveTextContent("Preview of test-file.pdf with token-abc");
+        });
+
         it("does not render when isOpen is false", () => {
             render(<SharedFileSidebar {...defaultProps} isOpen={false} />);
             
@@ -68,7 +80,7 @@ describe("SharedFileSidebar", () => {
         it("renders file details correctly", () => {
             render(<SharedFileSidebar {...defaultProps} />);
             
-            expect(screen.getByText("1024kb")).toBeInTheDocument();
+            expect(screen.getByText("1 KB")).toBeInTheDocument();
             expect(screen.getByText("1/1/2024")).toBeInTheDocument();
             expect(screen.getByText("PDF")).toBeInTheDocument();
         });
@@ -112,7 +124,7 @@ describe("SharedFileSidebar", () => {
         it("displays file size correctly", () => {
             render(<SharedFileSidebar {...defaultProps} />);
             
-            expect(screen.getByText("1024kb")).toBeInTheDocument();
+            expect(screen.getByText("1 KB")).toBeInTheDocument();
         });
 
         it("displays file creation date correctly", () => {
@@ -148,7 +160,7 @@ describe("SharedFileSidebar", () => {
             
             render(<SharedFileSidebar {...defaultProps} file={largeFile} />);
             
-            expect(screen.getByText("2048kb")).toBeInTheDocument();
+            expect(screen.getByText("2 KB")).toBeInTheDocument();
         });
     });
 
@@ -188,12 +200,12 @@ describe("SharedFileSidebar", () => {
         it("handles very large file sizes", () => {
             const largeFile = {
                 ...mockFile,
-                size: 1048576 // 1MB in KB
+                size: 1048576 // 1 MB in bytes
             };
             
             render(<SharedFileSidebar {...defaultProps} file={largeFile} />);
             
-            expect(screen.getByText("1048576kb")).toBeInTheDocument();
+            expect(screen.getByText("1 MB")).toBeInTheDocument();
         });
 
         it("handles files with special characters in name", () => {
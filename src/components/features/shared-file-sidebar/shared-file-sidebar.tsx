@@ -12,7 +12,9 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { IconX } from "@tabler/icons-react";
 import SharedDownloadFileButton from "../shared-download-file-button/shared-download-file-button";
-import { type File } from "@/types/types";
+import FilePreview from "../file-preview/file-preview";
+import { type File, type SharePermission } from "@/types/types";
+import { formatBytes } from "@/lib/utils";
 
 /**
  * Props for the SharedFileSidebar component.
@@ -28,6 +30,8 @@ interface FileSidebarProps {
   readOnly: boolean;
   /** Share token for accessing shared folders */
   shareToken: string | null;
+  /** Permission of the share link; downloads are disabled for `view` */
+  permission?: SharePermission | null;
 }
 
 /**
@@ -54,6 +58,7 @@ const getFileType = (fileName: string): string => {
  * @param props.onClose - Callback to close the sidebar
  * @param props.readOnly - Read-only flag (always true for shared folders)
  * @param props.shareToken - Share token for accessing shared folders
+ * @param props.permission - Permission of the share link; downloads are disabled for `view`
  * @returns Animated sidebar panel with file details and download button
  * 
  * @example
@@ -86,17 +91,19 @@ const getFileType = (fileName: string): string => {
  * - Only renders when `isOpen` is true and `file` is not null
  * - Shows a backdrop overlay that closes the sidebar when clicked
  * - Sidebar slides in from the right with spring animation
- * - Displays file name, size (in KB), creation date, and type
+ * - Previews the file's content above its details (see {@link FilePreview})
+ * - Displays file name, size (via {@link formatBytes}), creation date, and type
  * - Only provides download action (no share or delete)
  * - Close button (X) in the top-right corner
- * - Fixed width of 320px (w-80)
+ * - Fixed width of 384px (w-96); the content scrolls if it is taller than the screen
  * - Uses AnimatePresence for smooth mount/unmount
  * - Read-only: designed for shared folder views
  * 
+ * @see {@link FilePreview} for the content preview
  * @see {@link SharedDownloadFileButton} for download functionality
  * @see {@link FileSidebar} for the full-featured version
  */
-export function SharedFileSidebar({ file, isOpen, onClose, readOnly, shareToken }: FileSidebarProps) {
+export function SharedFileSidebar({ file, isOpen, onClose, readOnly, shareToken, permission }: FileSidebarProps) {
   return (
     <AnimatePresence>
       {isOpen && file && (
@@ -122,9 +129,9 @@ export function SharedFileSidebar({ file, isOpen, onClose, readOnly, shareToken
               stiffness: 200,
               duration: 0.3 
             }}
-            className="fixed right-0 top-0 h-full w-80 bg-background border-l shadow-lg z-50"
+            className="fixed right-0 top-0 h-full w-96 bg-background border-l shadow-lg z-50"
           >
-            <div className="p-6 h-full flex flex-col">
+            <div className="p-6 h-full flex flex-col overflow-y-auto">
               {/* Header */}
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-lg font-semibold">{file.file_name}</h2>
@@ -133,12 +140,17 @@ export function SharedFileSidebar({ file, isOpen, onClose, readOnly, shareToken
                 </Button>
               </div>
 
+              {/* Preview */}
+              <div className="mb-6">
+                <FilePreview file={file} shareToken={shareToken} permission={permission}/>
+              </div>
+
               {/* File Details */}
               <div className="space-y-4 mb-6">
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground font-bold">Size:</span>
-                    <span className="text-sm">{file.size}kb</span>
+                    <span className="text-sm">{formatBytes(file.size)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground font-bold">Created:</span>
@@ -157,6 +169,7 @@ export function SharedFileSidebar({ file, isOpen, onClose, readOnly, shareToken
                   file={file}
                   shareToken={shareToken}
                   readOnly={readOnly}
+                  permission={permission}
                 />
               </div>
             </div>
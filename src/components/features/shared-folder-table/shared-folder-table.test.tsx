@@ -15,8 +15,6 @@ vi.mock("@/hooks/use-folder", () => ({
                 updated_at: new Date("2024-01-01T12:00:00Z"),
                 is_root: false,
                 s3_link: "https://s3.example.com/folder-1",
-                shared: false,
-                expires_at: undefined,
                 owner_clerk_id: "user-123",
                 files: [],
                 subfolders: []
@@ -28,8 +26,6 @@ vi.mock("@/hooks/use-folder", () => ({
                 updated_at: new Date("2024-01-02T12:00:00Z"),
                 is_root: false,
                 s3_link: "https://s3.example.com/folder-2",
-                shared: false,
-                expires_at: undefined,
                 owner_clerk_id: "user-123",
                 files: [],
                 subfolders: []
@@ -65,8 +61,6 @@ describe("SharedFolderTable", () => {
             updated_at: new Date("2024-01-01T12:00:00Z"),
             is_root: false,
             s3_link: "https://s3.example.com/folder-1",
-            shared: false,
-            expires_at: undefined,
             owner_clerk_id: "user-123",
             files: [],
             subfolders: []
@@ -78,8 +72,6 @@ describe("SharedFolderTable", () => {
             updated_at: new Date("2024-01-02T12:00:00Z"),
             is_root: false,
             s3_link: "https://s3.example.com/folder-2",
-            shared: false,
-            expires_at: undefined,
             owner_clerk_id: "user-123",
             files: [],
             subfolders: []
@@ -131,8 +123,8 @@ describe("SharedFolderTable", () => {
         it("renders file sizes correctly", () => {
             render(<SharedFolderTable {...defaultProps} />);
             
-            expect(screen.getByText("1024kb")).toBeInTheDocument();
-            expect(screen.getByText("2048kb")).toBeInTheDocument();
+            expect(screen.getByText("1 KB")).toBeInTheDocument();
+            expect(screen.getByText("2 KB")).toBeInTheDocument();
         });
 
         it("renders folder sizes as dashes", () => {
@@ -18,6 +18,7 @@ import {
   } from "@/components/ui/table";
 
 import { type Folder, type File } from "@/types/types";
+import { formatBytes } from "@/lib/utils";
 
 import { useFolder } from "@/hooks/use-folder";
 
@@ -59,8 +60,8 @@ import { useFolder } from "@/hooks/use-folder";
  * 
  * @remarks
  * - Folders are displayed first, then files
- * - Folder rows show "---" for size
- * - File rows show size in KB
+ * - Sizes are formatted with {@link formatBytes}; folder rows show the bytes in the
+ *   folder and its subfolders, or "---" if the folder's size was not loaded
  * - Both show creation date
  * - Clicking folder updates currentFolder in FolderContext (no URL change)
  * - Clicking file triggers `handleRowClick` callback
@@ -103,7 +104,7 @@ export default function SharedFolderTable({ files, handleRowClick, folders } : {
                         onClick={() => {handleFolderClick(folder.id)}}>
                             <TableCell>Folder</TableCell>
                             <TableCell className="font-medium">{folder.folder_name}</TableCell>
-                            <TableCell>---</TableCell>
+                            <TableCell>{folder.size !== undefined ? formatBytes(folder.size) : "---"}</TableCell>
                             <TableCell className="text-right">{(new Date(folder.created_at)).toLocaleDateString()}</TableCell>
                     </TableRow>        
                 ))}
@@ -114,7 +115,7 @@ export default function SharedFolderTable({ files, handleRowClick, folders } : {
                         onClick={() => handleRowClick(file)}>
                         <TableCell>File</TableCell>
                         <TableCell className="font-medium">{file.file_name}</TableCell>
-                        <TableCell>{file.size}kb</TableCell>
+                        <TableCell>{formatBytes(file.size)}</TableCell>
                         <TableCell className="text-right">{(new Date(file.created_at)).toLocaleDateString()}</TableCell>
                     </TableRow>
                 ))}
@@ -141,8 +141,6 @@ describe("SharedFolderTree", () => {
                         created_at: new Date("2024-01-01"),
                         updated_at: new Date("2024-01-01"),
                         s3_link: "https://s3.example.com/subfolder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123"
                         }
                     ],
@@ -164,8 +162,6 @@ describe("SharedFolderTree", () => {
                         created_at: new Date("2024-01-01"),
                         updated_at: new Date("2024-01-01"),
                         s3_link: "https://s3.example.com/root-folder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123"
                     },
                     "subfolder-1": {
@@ -177,8 +173,6 @@ describe("SharedFolderTree", () => {
                         created_at: new Date("2024-01-01"),
                         updated_at: new Date("2024-01-01"),
                         s3_link: "https://s3.example.com/subfolder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123"
                     }
                 }
@@ -198,8 +192,6 @@ describe("SharedFolderTree", () => {
                 created_at: new Date("2024-01-01"),
                 updated_at: new Date("2024-01-01"),
                 s3_link: "https://s3.example.com/subfolder",
-                shared: false,
-                expires_at: undefined,
                 owner_clerk_id: "user-123"
             });
         });
@@ -234,8 +226,6 @@ describe("SharedFolderTree", () => {
                     created_at: new Date("2024-01-01"),
                     updated_at: new Date("2024-01-01"),
                     s3_link: "https://s3.example.com/root-folder",
-                    shared: false,
-                    expires_at: undefined,
                     owner_clerk_id: "user-123"
                 },
                 currentFolder: {
@@ -247,8 +237,6 @@ describe("SharedFolderTree", () => {
                     created_at: new Date("2024-01-01"),
                     updated_at: new Date("2024-01-01"),
                     s3_link: "https://s3.example.com/root-folder",
-                    shared: false,
-                    expires_at: undefined,
                     owner_clerk_id: "user-123"
                 },
                 setCurrentFolder: vi.fn(),
@@ -266,8 +254,6 @@ describe("SharedFolderTree", () => {
                         created_at: new Date("2024-01-01"),
                         updated_at: new Date("2024-01-01"),
                         s3_link: "https://s3.example.com/root-folder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123"
                     }
                 }
@@ -306,8 +292,6 @@ describe("SharedFolderTree", () => {
                         created_at: new Date("2024-01-01"),
                         updated_at: new Date("2024-01-01"),
                         s3_link: "https://s3.example.com/root-folder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123"
                     }
                 }
@@ -337,8 +321,6 @@ describe("SharedFolderTree", () => {
                         created_at: new Date("2024-01-01"),
                         updated_at: new Date("2024-01-01"),
                         s3_link: "https://s3.example.com/subfolder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123"
                         }
                     ],
@@ -366,8 +348,6 @@ describe("SharedFolderTree", () => {
                         created_at: new Date("2024-01-01"),
                         updated_at: new Date("2024-01-01"),
                         s3_link: "https://s3.example.com/root-folder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123"
                     },
                     "subfolder-1": {
@@ -379,8 +359,6 @@ describe("SharedFolderTree", () => {
                         created_at: new Date("2024-01-01"),
                         updated_at: new Date("2024-01-01"),
                         s3_link: "https://s3.example.com/subfolder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123"
                     }
                 }
@@ -454,8 +432,6 @@ describe("SharedFolderTree", () => {
                         created_at: new Date("2024-01-01"),
                         updated_at: new Date("2024-01-01"),
                         s3_link: "https://s3.example.com/root-folder",
-                        shared: false,
-                        expires_at: undefined,
                         owner_clerk_id: "user-123"
                     }
                 }
@@ -0,0 +1,111 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import SharesTable from "./shares-table";
+import { TestWrapper } from "@/test-utils/test-wrapper";
+import React from "react";
+import { ShareApiService } from "@/api-services/share-api.service";
+
+vi.mock("@/hooks/use-mobile", () => ({
+    useIsMobile: () => false,
+}));
+
+vi.mock("@/api-services/share-api.service", () => ({
+    ShareApiService: {
+        getShares: vi.fn(() => Promise.resolve({
+            shares: [
+                { id: "link-123", kind: "file", item_id: "file-123", name: "report.pdf", label: "Accountant", permission: "view", has_password: true, url: "http://localhost/shared/file/file-123/token-123", expires_at: "2099-01-02T00:00:00.000Z", expired: false },
+                { id: "link-456", kind: "folder", item_id: "folder-456", name: "Photos", label: null, permission: "download", has_password: false, url: "http://localhost/shared/folder/token-456", expires_at: "2024-01-01T00:00:00.000Z", expired: true },
+            ],
+        })),
+        updateShare: vi.fn(() => Promise.resolve({ url: "http://localhost/shared/folder/token-456", expires_at: "2099-01-01T00:00:00.000Z" })),
+        revokeShare: vi.fn(() => Promise.resolve({ message: "share revoked" })),
+    }
+}));
+
+vi.mock("@/api-services/folder-api.service", () => ({
+    FolderApiService: {
+        getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
+    }
+}));
+
+vi.mock("next/navigation", () => ({
+    useParams: () => ({}),
+    useRouter: () => ({ push: vi.fn() }),
+    useSearchParams: () => new URLSearchParams(),
+    usePathname: () => '/folders/shared',
+}));
+
+vi.mock("sonner", () => ({
+    toast: {
+        promise: vi.fn((fn: () => Promise<unknown>) => fn()),
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+describe("SharesTable", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    const renderWithProviders = () => render(
+        <TestWrapper>
+            <SharesTable />
+        </TestWrapper>
+    );
+
+    it("lists each share link with its label and permission and marks expired ones", async () => {
+        renderWithProviders();
+        expect(await screen.findByText("report.pdf")).toBeInTheDocument();
+        expect(screen.getByText("Accountant")).toBeInTheDocument();
+        expect(screen.getByText("View only")).toBeInTheDocument();
+        expect(screen.getByText("Photos")).toBeInTheDocument();
+        expect(screen.getByText("View & download")).toBeInTheDocument();
+        expect(screen.getByText("Expired")).toBeInTheDocument();
+        expect(screen.getAllByLabelText("Password protected")).toHaveLength(1);
+    });
+
+    it("shows an empty state when nothing is shared", async () => {
+        vi.mocked(ShareApiService.getShares).mockResolvedValueOnce({ shares: [] });
+        renderWithProviders();
+        expect(await screen.findByText("Nothing is shared")).toBeInTheDocument();
+    });
+
+    it("extends a share by a day and refreshes the list", async () => {
+        const user = userEvent.setup();
+        renderWithProviders();
+        await screen.findByText("Photos");
+
+        const folderRow = screen.getByText("Photos").closest("tr") as HTMLElement;
+        const extendButton = Array.from(folderRow.querySelectorAll("button"))
+            .find((button) => button.textContent?.includes("Extend")) as HTMLElement;
+        await user.click(extendButton);
+
+        await waitFor(() => {
+            expect(ShareApiService.updateShare).toHaveBeenCalledWith("link-456", { hours: 24 });
+        });
+        expect(ShareApiService.getShares).toHaveBeenCalledTimes(2);
+    });
+
+    it("asks for confirmation before revoking a share", async () => {
+        const user = userEvent.setup();
+        renderWithProviders();
+        await screen.findByText("report.pdf");
+
+        const fileRow = screen.getByText("report.pdf").closest("tr") as HTMLElement;
+        const revokeButton = Array.from(fileRow.querySelectorAll("button"))
+            .find((button) => button.textContent?.includes("Revoke")) as HTMLElement;
+        await user.click(revokeButton);
+
+        expect(await screen.findByRole("alertdialog")).toBeInTheDocument();
+        expect(ShareApiService.revokeShare).not.toHaveBeenCalled();
+
+        await user.click(screen.getByRole("button", { name: "Revoke" }));
+        await waitFor(() => {
+            expect(ShareApiService.revokeShare).toHaveBeenCalledWith("link-123");
+        });
+    });
+});
@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Table component listing the user's share links with copy/extend/revoke actions.
+ *
+ * This component fetches the links the signed-in user has created to their folders
+ * and files and lets them copy a link, extend it by a day, or revoke it.
+ *
+ * @module components/features/shares-table
+ */
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+    Table,
+    TableBody,
+    TableCaption,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import {
+    AlertDialog, AlertDialogAction,
+    AlertDialogCancel, AlertDialogContent,
+    AlertDialogFooter, AlertDialogHeader,
+    AlertDialogTitle, AlertDialogTrigger,
+    AlertDialogDescription,
+} from "@/components/ui/alert-dialog";
+import { IconClockPlus, IconCopy, IconLinkOff, IconLock } from "@tabler/icons-react";
+import { ShareApiService } from "@/api-services/share-api.service";
+import { ApiError } from "@/lib/api-client";
+import { type Share, type SharePermission } from "@/types/types";
+
+/** Hours the Extend action adds to a share */
+const EXTEND_HOURS = 24;
+
+/** How each permission is described to the owner */
+const PERMISSION_LABELS: Record<SharePermission, string> = {
+    view: "View only",
+    download: "View & download",
+};
+
+/**
+ * Table component for the "Shared by me" view.
+ *
+ * Lists every share link, soonest to expire first, with its label, permission and
+ * expiry and three actions: **Copy link**, **Extend 1 day** and **Revoke** (after a
+ * confirmation dialog). An item shared several times has a row per link.
+ *
+ * @returns Table displaying the user's shares
+ *
+ * @example
+ * ```tsx
+ * <SharesTable />
+ * ```
+ *
+ * @remarks
+ * - Fetches the shares on mount via {@link ShareApiService.getShares}
+ * - Expired shares stay listed so they can be extended or revoked
+ * - Extending or revoking a link leaves the item's other links untouched
+ * - Password-protected links have a lock next to their permission
+ */
+export default function SharesTable() {
+    const [shares, setShares] = useState<Share[] | null>(null);
+    const [pendingId, setPendingId] = useState<string | null>(null);
+
+    const fetchShares = useCallback(async () => {
+        try {
+            const data = await ShareApiService.getShares();
+            if (data instanceof ApiError) return;
+            setShares(data.shares);
+        } catch (error) {
+            console.error("Error fetching shares:", error);
+            setShares([]);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchShares();
+    }, [fetchShares]);
+
+    const handleCopy = async (share: Share) => {
+        try {
+            await navigator.clipboard.writeText(share.url);
+            toast.success("Link copied to clipboard!");
+        } catch {
+            toast.error("Failed to copy link");
+        }
+    };
+
+    const handleExtend = async (share: Share) => {
+        setPendingId(share.id);
+        await toast.promise(
+            async () => {
+                const data = await ShareApiService.updateShare(share.id, { hours: EXTEND_HOURS });
+                if (data instanceof ApiError) {
+                    throw new Error("Failed to extend share");
+                }
+                await fetchShares();
+                return data.expires_at ? new Date(data.expires_at) : null;
+            },
+            {
+                loading: `Extending "${share.name}"...`,
+                success: (expiresAt) => expiresAt
+                    ? `The link to "${share.name}" works until ${expiresAt.toLocaleString()}.`
+                    : `The link to "${share.name}" never expires.`,
+                error: "Failed to extend share. Please try again.",
+            }
+        );
+        setPendingId(null);
+    };
+
+    const handleRevoke = async (share: Share) => {
+        setPendingId(share.id);
+        await toast.promise(
+            async () => {
+                await ShareApiService.revokeShare(share.id);
+                await fetchShares();
+                return share.name;
+            },
+            {
+                loading: `Revoking "${share.name}"...`,
+                success: (name) => `The link to "${name}" no longer works.`,
+                error: "Failed to revoke share. Please try again.",
+            }
+        );
+        setPendingId(null);
+    };
+
+    return (
+        <Table className="mt-10">
+            <TableCaption>
+                {shares && shares.length === 0 ? "Nothing is shared" : "Shared folders and files"}
+            </TableCaption>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>Content Type</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Label</TableHead>
+                    <TableHead>Permission</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {shares && shares.map((share) => (
+                    <TableRow key={share.id}>
+                        <TableCell>{share.kind === "file" ? "File" : "Folder"}</TableCell>
+                        <TableCell className="font-medium">{share.name}</TableCell>
+                        <TableCell className={share.label ? undefined : "text-muted-foreground"}>
+                            {share.label ?? "No label"}
+                        </TableCell>
+                        <TableCell>
+                            <span className="flex items-center gap-1">
+                                {PERMISSION_LABELS[share.permission]}
+                                {share.has_password && (
+                                    <IconLock className="h-4 w-4 text-muted-foreground" aria-label="Password protected"/>
+                                )}
+                            </span>
+                        </TableCell>
+                        <TableCell className={share.expired ? "text-destructive" : undefined}>
+                            {share.expired
+                                ? "Expired"
+                                : share.expires_at ? (new Date(share.expires_at)).toLocaleString() : "Never"}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={share.expired}
+                                className="hover:cursor-pointer"
+                                onClick={() => handleCopy(share)}>
+                                <IconCopy className="h-4 w-4" />
+                                Copy link
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={pendingId === share.id}
+                                className="hover:cursor-pointer"
+                                onClick={() => handleExtend(share)}>
+                                <IconClockPlus className="h-4 w-4" />
+                                Extend 1 day
+                            </Button>
+                            <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                    <Button
+                                        variant="destructive"
+                                        size="sm"
+                                        disabled={pendingId === share.id}
+                                        className="hover:cursor-pointer">
+                                        <IconLinkOff className="h-4 w-4" />
+                                        Revoke
+                                    </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent className="max-w-md">
+                                    <AlertDialogHeader>
+                                        <AlertDialogTitle>Revoke share?</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                            This link to <span className="font-semibold">{share.name}</span>
+                                            {share.label && <> for <span className="font-semibold">{share.label}</span></>} will
+                                            stop working immediately. Other links to it keep working.
+                                        </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                        <AlertDialogCancel className="hover:cursor-pointer">
+                                            Cancel
+                                        </AlertDialogCancel>
+                                        <AlertDialogAction
+                                            className="bg-destructive text-white hover:bg-destructive/90 hover:cursor-pointer"
+                                            onClick={() => handleRevoke(share)}>
+                                            Revoke
+                                        </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                </AlertDialogContent>
+                            </AlertDialog>
+                        </TableCell>
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+    );
+}
@@ -0,0 +1,50 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import StorageMeter from "./storage-meter";
+import { FolderApiService } from "@/api-services/folder-api.service";
+
+vi.mock("@/api-services/folder-api.service", () => ({
+    FolderApiService: {
+        getUsage: vi.fn(),
+    }
+}));
+
+vi.mock("@/hooks/use-auth-folder", () => ({
+    useAuthFolder: vi.fn(() => ({
+        files: [],
+        folderTreeRefreshKey: 0,
+    })),
+}));
+
+describe("StorageMeter", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("shows the bytes used out of the quota", async () => {
+        vi.mocked(FolderApiService.getUsage).mockResolvedValue({
+            logical_bytes: 1536 * 1024 * 1024,
+            physical_bytes: 1024,
+            quota_bytes: 10 * 1024 * 1024 * 1024,
+            folders: {},
+        });
+        render(<StorageMeter />);
+
+        expect(await screen.findByText("1.5 GB of 10 GB used")).toBeInTheDocument();
+        expect(screen.getByRole("progressbar")).toHaveAttribute("aria-valuenow", "15");
+    });
+
+    it("leaves out the bar when storage is unlimited", async () => {
+        vi.mocked(FolderApiService.getUsage).mockResolvedValue({
+            logical_bytes: 2048,
+            physical_bytes: 2048,
+            quota_bytes: null,
+            folders: {},
+        });
+        render(<StorageMeter />);
+
+        expect(await screen.findByText("2 KB used")).toBeInTheDocument();
+        expect(screen.queryByRole("progressbar")).not.toBeInTheDocument();
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Sidebar meter showing how much of the user's storage quota is used.
+ *
+ * This component fetches the signed-in user's storage usage and shows it as a bar
+ * with the bytes used out of their quota.
+ *
+ * @module components/features/storage-meter
+ */
+import { useEffect, useState } from "react";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import { ApiError } from "@/lib/api-client";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+import { formatBytes } from "@/lib/utils";
+import { type StorageUsage } from "@/types/types";
+
+/**
+ * Storage meter for the sidebar.
+ *
+ * @returns The bytes used out of the quota, with a bar filling up as the quota runs out
+ *
+ * @example
+ * ```tsx
+ * <SidebarGroup>
+ *   <SidebarGroupContent>
+ *     <StorageMeter />
+ *   </SidebarGroupContent>
+ * </SidebarGroup>
+ * ```
+ *
+ * @remarks
+ * - Fetches the usage via {@link FolderApiService.getUsage}, and again whenever the
+ *   current folder's files or the folder tree change (uploads, deletes, moves)
+ * - Trashed files count towards the usage until the trash is purged
+ * - Users with an unlimited quota see the bytes used without a bar
+ * - Renders nothing until the usage is loaded
+ */
+export default function StorageMeter() {
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const { files, folderTreeRefreshKey } = useAuthFolder();
+
+    useEffect(() => {
+        const fetchUsage = async () => {
+            try {
+                const result = await FolderApiService.getUsage();
+                if (result instanceof ApiError) return;
+                setUsage(result);
+            } catch (error) {
+                console.error("Error fetching storage usage:", error);
+            }
+        };
+        fetchUsage();
+    }, [files, folderTreeRefreshKey]);
+
+    if (!usage) return null;
+
+    const { logical_bytes: used, quota_bytes: quota } = usage;
+    const percent = quota ? Math.min(100, (used / quota) * 100) : 0;
+
+    return (
+        <div className="flex flex-col gap-1.5 px-2 py-1" data-testid="storage-meter">
+            {quota !== null && (
+                <div
+                    className="h-1.5 w-full overflow-hidden rounded-full bg-muted"
+                    role="progressbar"
+                    aria-label="Storage used"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round(percent)}>
+                    <div
+                        className={`h-full rounded-full ${percent >= 90 ? "bg-destructive" : "bg-primary"}`}
+                        style={{ width: `${percent}%` }} />
+                </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+                {quota !== null
+                    ? `${formatBytes(used)} of ${formatBytes(quota)} used`
+                    : `${formatBytes(used)} used`}
+            </p>
+        </div>
+    );
+}
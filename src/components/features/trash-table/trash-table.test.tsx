@@ -0,0 +1,114 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import TrashTable from "./trash-table";
+import { TestWrapper } from "@/test-utils/test-wrapper";
+import React from "react";
+import { TrashApiService } from "@/api-services/trash-api.service";
+
+vi.mock("@/hooks/use-mobile", () => ({
+    useIsMobile: () => false,
+}));
+
+vi.mock("@/api-services/trash-api.service", () => ({
+    TrashApiService: {
+        getTrash: vi.fn(() => Promise.resolve({
+            files: [{ id: "file-123", file_name: "report.pdf", deleted_at: "2024-01-02T00:00:00.000Z" }],
+            folders: [{ id: "folder-456", folder_name: "Old Stuff", deleted_at: "2024-01-01T00:00:00.000Z" }],
+        })),
+        restoreFile: vi.fn(() => Promise.resolve({ id: "file-123" })),
+        restoreFolder: vi.fn(() => Promise.resolve({ id: "folder-456" })),
+        purgeFile: vi.fn(() => Promise.resolve({ message: "deletion successful!" })),
+        purgeFolder: vi.fn(() => Promise.resolve({ message: "deletion successful!" })),
+    }
+}));
+
+vi.mock("@/api-services/folder-api.service", () => ({
+    FolderApiService: {
+        getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
+    }
+}));
+
+const mockFetchFolderContents = vi.fn();
+const mockRefetchFolderTree = vi.fn();
+vi.mock("@/hooks/use-auth-folder", () => ({
+    useAuthFolder: vi.fn(() => ({
+        fetchFolderContents: mockFetchFolderContents,
+        refetchFolderTree: mockRefetchFolderTree,
+    })),
+}));
+
+vi.mock("next/navigation", () => ({
+    useParams: () => ({}),
+    useRouter: () => ({ push: vi.fn() }),
+    useSearchParams: () => new URLSearchParams(),
+    usePathname: () => '/folders/trash',
+}));
+
+vi.mock("sonner", () => ({
+    toast: {
+        promise: vi.fn((fn: () => Promise<unknown>) => fn()),
+        error: vi.fn(),
+    },
+}));
+
+describe("TrashTable", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    const renderWithProviders = () => render(
+        <TestWrapper>
+            <TrashTable />
+        </TestWrapper>
+    );
+
+    it("lists trashed folders and files", async () => {
+        renderWithProviders();
+        expect(await screen.findByText("report.pdf")).toBeInTheDocument();
+        expect(screen.getByText("Old Stuff")).toBeInTheDocument();
+        expect(screen.getAllByRole("button", { name: /restore/i })).toHaveLength(2);
+    });
+
+    it("shows an empty state when the trash is empty", async () => {
+        vi.mocked(TrashApiService.getTrash).mockResolvedValueOnce({ files: [], folders: [] });
+        renderWithProviders();
+        expect(await screen.findByText("Trash is empty")).toBeInTheDocument();
+    });
+
+    it("restores a file and refreshes the folder views", async () => {
+        const user = userEvent.setup();
+        renderWithProviders();
+        await screen.findByText("report.pdf");
+
+        const fileRow = screen.getByText("report.pdf").closest("tr") as HTMLElement;
+        await user.click(fileRow.querySelector("button") as HTMLElement);
+
+        await waitFor(() => {
+            expect(TrashApiService.restoreFile).toHaveBeenCalledWith("file-123");
+        });
+        expect(mockFetchFolderContents).toHaveBeenCalled();
+        expect(mockRefetchFolderTree).toHaveBeenCalled();
+    });
+
+    it("asks for confirmation before deleting a folder forever", async () => {
+        const user = userEvent.setup();
+        renderWithProviders();
+        await screen.findByText("Old Stuff");
+
+        const folderRow = screen.getByText("Old Stuff").closest("tr") as HTMLElement;
+        const deleteButton = Array.from(folderRow.querySelectorAll("button"))
+            .find((button) => button.textContent?.includes("Delete forever")) as HTMLElement;
+        await user.click(deleteButton);
+
+        expect(await screen.findByRole("alertdialog")).toBeInTheDocument();
+        expect(TrashApiService.purgeFolder).not.toHaveBeenCalled();
+
+        await user.click(screen.getByRole("button", { name: "Delete forever" }));
+        await waitFor(() => {
+            expect(TrashApiService.purgeFolder).toHaveBeenCalledWith("folder-456");
+        });
+    });
+});
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Table component listing the user's trash with restore/delete actions.
+ *
+ * This component fetches the signed-in user's trashed files and folders and lets
+ * them restore an item or delete it permanently.
+ *
+ * @module components/features/trash-table
+ */
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+    Table,
+    TableBody,
+    TableCaption,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import {
+    AlertDialog, AlertDialogAction,
+    AlertDialogCancel, AlertDialogContent,
+    AlertDialogFooter, AlertDialogHeader,
+    AlertDialogTitle, AlertDialogTrigger,
+    AlertDialogDescription,
+} from "@/components/ui/alert-dialog";
+import { IconArrowBackUp, IconTrashX } from "@tabler/icons-react";
+import { TrashApiService } from "@/api-services/trash-api.service";
+import { ApiError } from "@/lib/api-client";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+import { type File, type Folder } from "@/types/types";
+
+/**
+ * A row in the trash table: either a file or a folder.
+ */
+type TrashItem = {
+    kind: "file" | "folder";
+    id: string;
+    name: string;
+    deleted_at: Date | null | undefined;
+};
+
+/**
+ * Table component for the trash view.
+ *
+ * Lists trashed folders first, then trashed files, each with the date it was
+ * deleted and two actions: **Restore** (puts the item back in its original folder,
+ * or the root folder if that folder is gone) and **Delete forever** (after a
+ * confirmation dialog).
+ *
+ * @returns Table displaying the trash contents
+ *
+ * @example
+ * ```tsx
+ * <TrashTable />
+ * ```
+ *
+ * @remarks
+ * - Fetches the trash on mount via {@link TrashApiService.getTrash}
+ * - Refreshes the folder tree and current folder after a restore
+ * - Items are also purged automatically after the configured retention period
+ */
+export default function TrashTable() {
+    const [items, setItems] = useState<TrashItem[] | null>(null);
+    const [pendingId, setPendingId] = useState<string | null>(null);
+    const { fetchFolderContents, refetchFolderTree } = useAuthFolder();
+
+    const fetchTrash = useCallback(async () => {
+        try {
+            const trash = await TrashApiService.getTrash();
+            if (trash instanceof ApiError) return;
+            setItems([
+                ...trash.folders.map((folder: Folder) => ({
+                    kind: "folder" as const,
+                    id: folder.id,
+                    name: folder.display_name || folder.folder_name,
+                    deleted_at: folder.deleted_at,
+                })),
+                ...trash.files.map((file: File) => ({
+                    kind: "file" as const,
+                    id: file.id,
+                    name: file.file_name,
+                    deleted_at: file.deleted_at,
+                })),
+            ]);
+        } catch (error) {
+            console.error("Error fetching trash:", error);
+            setItems([]);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchTrash();
+    }, [fetchTrash]);
+
+    const handleRestore = async (item: TrashItem) => {
+        setPendingId(item.id);
+        await toast.promise(
+            async () => {
+                if (item.kind === "file") {
+                    await TrashApiService.restoreFile(item.id);
+                } else {
+                    await TrashApiService.restoreFolder(item.id);
+                }
+                await fetchTrash();
+                await fetchFolderContents();
+                refetchFolderTree();
+                return item.name;
+            },
+            {
+                loading: `Restoring "${item.name}"...`,
+                success: (name) => `"${name}" restored!`,
+                error: "Failed to restore item. Please try again.",
+            }
+        );
+        setPendingId(null);
+    };
+
+    const handlePurge = async (item: TrashItem) => {
+        setPendingId(item.id);
+        await toast.promise(
+            async () => {
+                if (item.kind === "file") {
+                    await TrashApiService.purgeFile(item.id);
+                } else {
+                    await TrashApiService.purgeFolder(item.id);
+                }
+                await fetchTrash();
+                return item.name;
+            },
+            {
+                loading: `Deleting "${item.name}"...`,
+                success: (name) => `"${name}" deleted forever!`,
+                error: "Failed to delete item. Please try again.",
+            }
+        );
+        setPendingId(null);
+    };
+
+    return (
+        <Table className="mt-10">
+            <TableCaption>
+                {items && items.length === 0 ? "Trash is empty" : "Items in the Trash"}
+            </TableCaption>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>Content Type</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Deleted At</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {items && items.map((item) => (
+                    <TableRow key={`${item.kind}-${item.id}`}>
+                        <TableCell>{item.kind === "file" ? "File" : "Folder"}</TableCell>
+                        <TableCell className="font-medium">{item.name}</TableCell>
+                        <TableCell>{item.deleted_at ? (new Date(item.deleted_at)).toLocaleDateString() : "---"}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={pendingId === item.id}
+                                className="hover:cursor-pointer"
+                                onClick={() => handleRestore(item)}>
+                                <IconArrowBackUp className="h-4 w-4" />
+                                Restore
+                            </Button>
+                            <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                    <Button
+                                        variant="destructive"
+                                        size="sm"
+                                        disabled={pendingId === item.id}
+                                        className="hover:cursor-pointer">
+                                        <IconTrashX className="h-4 w-4" />
+                                        Delete forever
+                                    </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent className="max-w-md">
+                                    <AlertDialogHeader>
+                                        <AlertDialogTitle>Delete forever?</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                            <span className="font-semibold">{item.name}</span> will be permanently deleted. This action cannot be undone.
+                                        </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                        <AlertDialogCancel className="hover:cursor-pointer">
+                                            Cancel
+                                        </AlertDialogCancel>
+                                        <AlertDialogAction
+                                            className="bg-destructive text-white hover:bg-destructive/90 hover:cursor-pointer"
+                                            onClick={() => handlePurge(item)}>
+                                            Delete forever
+                                        </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                </AlertDialogContent>
+                            </AlertDialog>
+                        </TableCell>
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+    );
+}
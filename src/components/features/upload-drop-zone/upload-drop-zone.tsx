@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Drop target that uploads files and directories dragged from the desktop.
+ *
+ * This component wraps the folder view and adds everything dropped on it to the
+ * upload queue, recreating dropped directories as subfolders of the current folder.
+ *
+ * @module components/features/upload-drop-zone
+ */
+import { toast } from "sonner";
+import React, { useRef, useState } from "react";
+import { IconUpload } from "@tabler/icons-react";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { collectDroppedFiles } from "@/lib/dropped-files";
+
+/**
+ * Returns whether a drag carries files from outside the page, as opposed to
+ * folders and files being moved within the app.
+ */
+function isFileDrag(event: React.DragEvent): boolean {
+    return Array.from(event.dataTransfer.types).includes("Files");
+}
+
+/**
+ * Drop target for uploading files and directories into the current folder.
+ *
+ * @param props - Component props
+ * @param props.children - The content that accepts drops (e.g. the folder table)
+ *
+ * @example
+ * ```tsx
+ * <UploadDropZone>
+ *   <FolderTable files={files} folders={subFolders} ... />
+ * </UploadDropZone>
+ * ```
+ *
+ * @remarks
+ * - Shows an overlay while files are dragged over it
+ * - Ignores drags that don't contain files, so moving items inside the app still works
+ * - Uploads run in the background through the upload queue
+ */
+export default function UploadDropZone({ children }: { children: React.ReactNode }) {
+    const { currentFolderId } = useAuthFolder();
+    const { enqueue } = useUploadQueue();
+    const [isDragging, setIsDragging] = useState<boolean>(false);
+    // dragenter/dragleave also fire for every child; count them to know when the drag really left
+    const dragDepth = useRef<number>(0);
+
+    const handleDragEnter = (e: React.DragEvent) => {
+        if (!isFileDrag(e) || !currentFolderId) return;
+        e.preventDefault();
+        dragDepth.current++;
+        setIsDragging(true);
+    }
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!isFileDrag(e) || !currentFolderId) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+    }
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        if (!isFileDrag(e)) return;
+        dragDepth.current = Math.max(dragDepth.current - 1, 0);
+        if (dragDepth.current === 0) setIsDragging(false);
+    }
+
+    const handleDrop = async (e: React.DragEvent) => {
+        if (!isFileDrag(e) || !currentFolderId) return;
+        e.preventDefault();
+        dragDepth.current = 0;
+        setIsDragging(false);
+
+        try {
+            const requests = await collectDroppedFiles(e.dataTransfer);
+            if (requests.length === 0) {
+                toast.error("Nothing to upload");
+                return;
+            }
+            enqueue(requests, currentFolderId);
+            toast.success(`Uploading ${requests.length} ${requests.length === 1 ? "file" : "files"}...`);
+        } catch (err) {
+            console.error("Error reading dropped files:", err);
+            toast.error("Could not read the dropped files");
+        }
+    }
+
+    return (
+        <div
+            className="relative w-full"
+            onDragEnter={handleDragEnter}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+            data-testid="upload-drop-zone">
+            {children}
+            {isDragging && (
+                <div className="pointer-events-none absolute inset-0 flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-primary bg-background/80">
+                    <IconUpload className="size-8"/>
+                    <p className="font-medium">Drop files or folders to upload</p>
+                </div>
+            )}
+        </div>
+    );
+}
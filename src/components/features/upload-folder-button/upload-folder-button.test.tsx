@@ -0,0 +1,110 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import UploadFolderButton from "./upload-folder-button";
+import { TestWrapper } from "@/test-utils/test-wrapper";
+import { FileApiService } from "@/api-services/file-api.service";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import React from "react";
+import { toast } from "sonner";
+
+vi.mock("@/hooks/use-mobile", () => ({
+    useIsMobile: () => false,
+}));
+
+vi.mock("@/api-services/file-api.service", () => ({
+    FileApiService: {
+        uploadFileDirect: vi.fn(),
+    }
+}));
+
+vi.mock("@/api-services/folder-api.service", () => ({
+    FolderApiService: {
+        getFolder: vi.fn(),
+        createFolder: vi.fn(),
+        getRootFolderId: vi.fn(() => Promise.resolve("root-folder-123")),
+        getFolderChildren: vi.fn(() => Promise.resolve({ folders: [], files: [], next_cursor: null })),
+    }
+}));
+
+vi.mock("@/hooks/use-auth-folder", () => ({
+    useAuthFolder: vi.fn(() => ({
+        currentFolderId: "test-folder-123",
+        fetchFolderContents: vi.fn(),
+        refetchFolderTree: vi.fn(),
+    })),
+}));
+
+vi.mock("next/navigation", () => ({
+    useParams: () => ({ folderId: ["test-folder-123"] }),
+    useRouter: () => ({
+        push: vi.fn(),
+        replace: vi.fn(),
+        back: vi.fn(),
+    }),
+    useSearchParams: () => new URLSearchParams(),
+    usePathname: () => '/',
+}));
+
+vi.mock("sonner");
+
+/** Builds a file as returned by an input with `webkitdirectory`. */
+const pickedFile = (relativePath: string) => {
+    const file = new File(["content"], relativePath.split("/").pop()!);
+    Object.defineProperty(file, "webkitRelativePath", { value: relativePath });
+    return file;
+};
+
+describe("UploadFolderButton", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(FileApiService.uploadFileDirect).mockResolvedValue({} as never);
+    });
+
+    const renderWithProviders = (component: React.ReactElement) => {
+        return render(
+            <TestWrapper>
+                {component}
+            </TestWrapper>
+        );
+    };
+
+    it("renders a directory picker", () => {
+        renderWithProviders(<UploadFolderButton />);
+        expect(screen.getByText("Upload Folder")).toBeInTheDocument();
+        expect(screen.getByTestId("upload-folder-input")).toHaveAttribute("webkitdirectory");
+    });
+
+    it("recreates the picked directory and uploads its files into it", async () => {
+        vi.mocked(FolderApiService.getFolder).mockResolvedValue({ id: "test-folder-123", subfolders: [] } as never);
+        vi.mocked(FolderApiService.createFolder).mockResolvedValue({ id: "photos-456", folder_name: "Photos" } as never);
+
+        renderWithProviders(<UploadFolderButton />);
+        fireEvent.change(screen.getByTestId("upload-folder-input"), {
+            target: { files: [pickedFile("Photos/a.jpg"), pickedFile("Photos/b.jpg")] },
+        });
+
+        await waitFor(() => expect(FileApiService.uploadFileDirect).toHaveBeenCalledTimes(2));
+        expect(FolderApiService.createFolder).toHaveBeenCalledTimes(1);
+        expect(FolderApiService.createFolder).toHaveBeenCalledWith("Photos", "test-folder-123");
+        expect(vi.mocked(FileApiService.uploadFileDirect).mock.calls.map(([folderId]) => folderId))
+            .toEqual(["photos-456", "photos-456"]);
+        expect(toast.success).toHaveBeenCalledWith("Uploading 2 files...");
+    });
+
+    it("reuses an existing subfolder with the same name", async () => {
+        vi.mocked(FolderApiService.getFolder).mockResolvedValue({
+            id: "test-folder-123",
+            subfolders: [{ id: "photos-existing", folder_name: "photos" }],
+        } as never);
+
+        renderWithProviders(<UploadFolderButton />);
+        fireEvent.change(screen.getByTestId("upload-folder-input"), {
+            target: { files: [pickedFile("Photos/a.jpg")] },
+        });
+
+        await waitFor(() => expect(FileApiService.uploadFileDirect).toHaveBeenCalledTimes(1));
+        expect(FolderApiService.createFolder).not.toHaveBeenCalled();
+        expect(vi.mocked(FileApiService.uploadFileDirect).mock.calls[0][0]).toBe("photos-existing");
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Button component for uploading a whole directory from the user's device.
+ *
+ * This component opens the browser's directory picker and adds every file in the
+ * chosen directory to the upload queue, keeping its folder structure.
+ *
+ * @module components/features/upload-folder-button
+ */
+import { toast } from "sonner";
+import React, { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { IconFolderUp } from "@tabler/icons-react";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { filesToUploadRequests } from "@/lib/dropped-files";
+
+/**
+ * Button component for uploading a directory into the current folder.
+ *
+ * @example
+ * ```tsx
+ * <UploadFolderButton />
+ * ```
+ *
+ * @remarks
+ * - Uses a hidden file input with the `webkitdirectory` attribute
+ * - The chosen directory is recreated as a subfolder of the current folder
+ * - Uploads run in the background through the upload queue
+ */
+export default function UploadFolderButton() {
+    const { currentFolderId } = useAuthFolder();
+    const { enqueue } = useUploadQueue();
+    const inputRef = useRef<HTMLInputElement | null>(null);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = e.target.files;
+        if (!files || files.length === 0 || !currentFolderId) return;
+
+        enqueue(filesToUploadRequests(files), currentFolderId);
+        toast.success(`Uploading ${files.length} ${files.length === 1 ? "file" : "files"}...`);
+        // allow picking the same directory again
+        e.target.value = "";
+    }
+
+    return (<>
+        <SidebarMenuButton asChild>
+            <Button
+                variant={"outline"}
+                disabled={!currentFolderId}
+                onClick={() => inputRef.current?.click()}
+                className="w-full justify-start hover:cursor-pointer"
+                data-testid="upload-folder-button">
+                {React.createElement(IconFolderUp)}
+                Upload Folder
+            </Button>
+        </SidebarMenuButton>
+        <input
+            ref={(input) => {
+                inputRef.current = input;
+                // not part of React's input props
+                input?.setAttribute("webkitdirectory", "");
+            }}
+            type="file"
+            multiple
+            hidden
+            onChange={handleChange}
+            data-testid="upload-folder-input"/>
+    </>);
+}
@@ -0,0 +1,72 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import UploadQueuePanel from "./upload-queue-panel";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { type UploadQueueItem } from "@/types/types";
+
+vi.mock("@/hooks/use-upload-queue", () => ({
+    useUploadQueue: vi.fn(),
+}));
+
+const item = (id: string, changes: Partial<UploadQueueItem>): UploadQueueItem => ({
+    id,
+    file: new File(["x"], `${id}.txt`),
+    relativePath: `docs/${id}.txt`,
+    folderId: "folder-123",
+    status: "queued",
+    progress: 0,
+    ...changes,
+});
+
+describe("UploadQueuePanel", () => {
+    const queue = {
+        cancel: vi.fn(),
+        retry: vi.fn(),
+        clearFinished: vi.fn(),
+        enqueue: vi.fn(),
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("renders nothing while the queue is empty", () => {
+        vi.mocked(useUploadQueue).mockReturnValue({ ...queue, items: [] });
+        render(<UploadQueuePanel />);
+        expect(screen.queryByTestId("upload-queue-panel")).not.toBeInTheDocument();
+    });
+
+    it("shows each upload with its progress", () => {
+        vi.mocked(useUploadQueue).mockReturnValue({ ...queue, items: [
+            item("a", { status: "uploading", progress: 0.42 }),
+            item("b", { status: "done", progress: 1 }),
+            item("c", { status: "error", error: "Storage unavailable" }),
+        ] });
+        render(<UploadQueuePanel />);
+
+        expect(screen.getAllByTestId("upload-queue-item")).toHaveLength(3);
+        expect(screen.getByText("Uploading (1/3)")).toBeInTheDocument();
+        expect(screen.getByText("42%")).toBeInTheDocument();
+        expect(screen.getByText("Uploaded")).toBeInTheDocument();
+        expect(screen.getByText("Storage unavailable")).toBeInTheDocument();
+    });
+
+    it("cancels running uploads and retries failed ones", async () => {
+        const user = userEvent.setup();
+        vi.mocked(useUploadQueue).mockReturnValue({ ...queue, items: [
+            item("a", { status: "uploading", progress: 0.1 }),
+            item("b", { status: "error", error: "Failed" }),
+        ] });
+        render(<UploadQueuePanel />);
+
+        await user.click(screen.getByRole("button", { name: "Cancel docs/a.txt" }));
+        await user.click(screen.getByRole("button", { name: "Retry docs/b.txt" }));
+        await user.click(screen.getByTestId("upload-queue-clear"));
+
+        expect(queue.cancel).toHaveBeenCalledWith("a");
+        expect(queue.retry).toHaveBeenCalledWith("b");
+        expect(queue.clearFinished).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Floating panel listing the uploads in the upload queue.
+ *
+ * This component stays on screen while the user navigates between folders and shows
+ * each queued file with its progress, and buttons to cancel or retry it.
+ *
+ * @module components/features/upload-queue-panel
+ */
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { IconChevronDown, IconChevronUp, IconRefresh, IconX } from "@tabler/icons-react";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { type UploadQueueItem } from "@/types/types";
+
+const STATUS_LABELS: Record<UploadQueueItem["status"], string> = {
+    queued: "Waiting",
+    uploading: "Uploading",
+    done: "Uploaded",
+    error: "Failed",
+    cancelled: "Cancelled",
+};
+
+function statusText(item: UploadQueueItem): string {
+    if (item.status === "uploading") return `${Math.round(item.progress * 100)}%`;
+    if (item.status === "error" && item.error) return item.error;
+    return STATUS_LABELS[item.status];
+}
+
+/**
+ * Panel showing the progress of every upload in the session.
+ *
+ * @example
+ * ```tsx
+ * <UploadQueueProvider>
+ *   {children}
+ *   <UploadQueuePanel />
+ * </UploadQueueProvider>
+ * ```
+ *
+ * @remarks
+ * - Renders nothing while the queue is empty
+ * - Running and waiting uploads can be cancelled; failed and cancelled ones retried
+ * - "Clear" removes everything that is no longer running
+ */
+export default function UploadQueuePanel() {
+    const { items, cancel, retry, clearFinished } = useUploadQueue();
+    const [isCollapsed, setIsCollapsed] = useState<boolean>(false);
+
+    if (items.length === 0) return null;
+
+    const finished = items.filter((item) => item.status === "done").length;
+    const active = items.some((item) => item.status === "queued" || item.status === "uploading");
+
+    return (
+        <div
+            className="fixed bottom-4 right-4 z-50 w-80 rounded-md border bg-background shadow-lg"
+            data-testid="upload-queue-panel">
+            <div className="flex items-center justify-between border-b px-3 py-2">
+                <p className="text-sm font-medium">
+                    {active ? "Uploading" : "Uploads"} ({finished}/{items.length})
+                </p>
+                <div className="flex items-center gap-1">
+                    {!isCollapsed && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="hover:cursor-pointer"
+                            onClick={clearFinished}
+                            data-testid="upload-queue-clear">
+                            Clear
+                        </Button>
+                    )}
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-7 hover:cursor-pointer"
+                        aria-label={isCollapsed ? "Expand uploads" : "Collapse uploads"}
+                        onClick={() => setIsCollapsed((collapsed) => !collapsed)}>
+                        {isCollapsed ? <IconChevronUp/> : <IconChevronDown/>}
+                    </Button>
+                </div>
+            </div>
+            {!isCollapsed && (
+                <ul className="flex max-h-72 flex-col overflow-y-auto">
+                    {items.map((item) => (
+                        <li key={item.id} className="flex items-center gap-2 px-3 py-2" data-testid="upload-queue-item">
+                            <div className="min-w-0 flex-1">
+                                <p className="truncate text-sm" title={item.relativePath}>{item.relativePath}</p>
+                                <div className="my-1 h-1 w-full rounded bg-muted">
+                                    <div
+                                        className={`h-1 rounded ${item.status === "error" ? "bg-destructive" : "bg-primary"}`}
+                                        style={{ width: `${Math.round(item.progress * 100)}%` }}/>
+                                </div>
+                                <p className={`truncate text-xs ${item.status === "error" ? "text-destructive" : "text-muted-foreground"}`}>
+                                    {statusText(item)}
+                                </p>
+                            </div>
+                            {(item.status === "queued" || item.status === "uploading") && (
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="size-7 hover:cursor-pointer"
+                                    aria-label={`Cancel ${item.relativePath}`}
+                                    onClick={() => cancel(item.id)}>
+                                    <IconX/>
+                                </Button>
+                            )}
+                            {(item.status === "error" || item.status === "cancelled") && (
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="size-7 hover:cursor-pointer"
+                                    aria-label={`Retry ${item.relativePath}`}
+                                    onClick={() => retry(item.id)}>
+                                    <IconRefresh/>
+                                </Button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -7,7 +7,11 @@ import { FileSidebar } from "@/components/features/file-sidebar/file-sidebar";
 import DirectoryBreadCrumb from "@/components/features/directory-breadcrumb/directory-breadcrumb";
 import DirectoryBreadcrumbSkeleton from "@/components/features/directory-breadcrumb/directory-breadcrumb-skeleton";
 import FolderTable from "@/components/features/folder-table/folder-table";
+import FolderGrid from "@/components/features/folder-grid/folder-grid";
+import FolderViewToolbar from "@/components/features/folder-view-toolbar/folder-view-toolbar";
 import FolderTableSkeleton from "@/components/features/folder-table/folder-table-skeleton";
+import UploadDropZone from "@/components/features/upload-drop-zone/upload-drop-zone";
+import SearchBar from "@/components/features/search-bar/search-bar";
 
 import { SignOutButton, UserButton, SignedIn } from "@clerk/nextjs";
 import { type File } from '@/types/types';
@@ -23,8 +27,10 @@ import { useAuthFolder } from "@/hooks/use-auth-folder";
 /**
  * Main page component for displaying folder contents.
  * 
- * Shows breadcrumb navigation, folder/file table, and a file sidebar for details.
+ * Shows a search bar, breadcrumb navigation, the folder's files and folders as a table or a grid
+ * (per the user's preferences), and a file sidebar for details.
  * Fetches folder contents on mount and handles file selection for the sidebar.
+ * Files and directories dropped on the table are added to the upload queue.
  * 
  * @param props - Component props
  * @param props.folderId - The folder ID to display (defaults to null for root)
@@ -37,7 +43,7 @@ import { useAuthFolder } from "@/hooks/use-auth-folder";
 export default function FolderPage() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(false);
-  const { files, subFolders, isLoading } = useAuthFolder();
+  const { files, subFolders, isLoading, hasMoreContents, loadMoreContents, preferences, updatePreferences } = useAuthFolder();
 
   const handleRowClick = (file: File) => {
     setSelectedFile(file);
@@ -75,6 +81,8 @@ export default function FolderPage() {
                 </SignedIn>
             </Suspense>
         </div>
+
+        <SearchBar />
         
         <Suspense fallback={<DirectoryBreadcrumbSkeleton />}>
             {isLoading ? (
@@ -84,17 +92,33 @@ export default function FolderPage() {
             )}
         </Suspense>
 
-        <Suspense fallback={<FolderTableSkeleton rows={8} />}>
-            {isLoading ? (
-                <FolderTableSkeleton rows={8} />
-            ) : (
-                <FolderTable
-                    files={files}
-                    selectedFile={selectedFile}
-                    folders={subFolders}
-                    handleRowClick={handleRowClick}/>
-            )}
-        </Suspense>
+        <FolderViewToolbar />
+
+        <UploadDropZone>
+            <Suspense fallback={<FolderTableSkeleton rows={8} />}>
+                {isLoading ? (
+                    <FolderTableSkeleton rows={8} />
+                ) : preferences.view === "grid" ? (
+                    <FolderGrid
+                        files={files}
+                        folders={subFolders}
+                        hasMore={hasMoreContents}
+                        onLoadMore={loadMoreContents}
+                        handleRowClick={handleRowClick}/>
+                ) : (
+                    <FolderTable
+                        files={files}
+                        selectedFile={selectedFile}
+                        folders={subFolders}
+                        hasMore={hasMoreContents}
+                        onLoadMore={loadMoreContents}
+                        sort={preferences.sort}
+                        order={preferences.order}
+                        onSort={(sort, order) => updatePreferences({ sort, order })}
+                        handleRowClick={handleRowClick}/>
+                )}
+            </Suspense>
+        </UploadDropZone>
 
         <FileSidebar
             file={selectedFile}
@@ -0,0 +1,33 @@
+'use client';
+
+import SharesTable from "@/components/features/shares-table/shares-table";
+
+/**
+ * @fileoverview "Shared by me" view page component.
+ * @module components/pages/shares-page
+ */
+
+/**
+ * Page component listing the folders and files the user has shared.
+ * 
+ * Rendered at `/folders/shared` inside the folders layout, so the sidebar with the
+ * folder tree stays visible next to it.
+ * 
+ * @example
+ * ```tsx
+ * <SharesPage />
+ * ```
+ */
+export default function SharesPage() {
+  return (
+    <div className="flex flex-col w-full m-10 items-center h-screen">
+        <h1 className="text-3xl font-bold p-5">
+            Shared by me
+        </h1>
+        <p className="text-sm text-muted-foreground">
+            Links you have shared, with when they expire. Extend or revoke them at any time.
+        </p>
+        <SharesTable />
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import TrashTable from "@/components/features/trash-table/trash-table";
+
+/**
+ * @fileoverview Trash view page component.
+ * @module components/pages/trash-page
+ */
+
+/**
+ * Page component listing the user's trashed files and folders.
+ * 
+ * Rendered at `/folders/trash` inside the folders layout, so the sidebar with the
+ * folder tree stays visible next to it.
+ * 
+ * @example
+ * ```tsx
+ * <TrashPage />
+ * ```
+ */
+export default function TrashPage() {
+  return (
+    <div className="flex flex-col w-full m-10 items-center h-screen">
+        <h1 className="text-3xl font-bold p-5">
+            Trash
+        </h1>
+        <p className="text-sm text-muted-foreground">
+            Deleted items can be restored until they are permanently removed.
+        </p>
+        <TrashTable />
+    </div>
+  );
+}
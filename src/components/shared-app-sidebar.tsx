@@ -15,6 +15,7 @@ import { SharedFolderTree } from "./features/shared-folder-tree/shared-folder-tr
 import SharedNewFileButton from "./features/shared-new-file-button/shared-new-file-button";
 import SharedNewFolderButton from "./features/shared-new-folder-button/shared-new-folder-button";
 import SharedShareFolderButton from "./features/shared-share-folder-button/shared-share-folder-button";
+import SharedDownloadFolderButton from "./features/shared-download-folder-button/shared-download-folder-button";
 import SharedDeleteFolderButton from "./features/shared-delete-folder-button/shared-delete-folder-button";
 
 /**
@@ -47,6 +48,7 @@ export function SharedAppSidebar() {
                 <SidebarMenuItem>
                     <SharedNewFolderButton />
                     <SharedNewFileButton />
+                    <SharedDownloadFolderButton />
                     <SharedShareFolderButton />
                     <SharedDeleteFolderButton />
                 </SidebarMenuItem>
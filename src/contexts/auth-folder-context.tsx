@@ -1,7 +1,7 @@
 'use client'
 
-import React, { createContext, useState, useEffect, useCallback } from "react";
-import { Folder } from "@/types/types";
+import React, { createContext, useState, useEffect, useCallback, useRef } from "react";
+import { Folder, type ViewPreferences } from "@/types/types";
 import { FolderApiService } from "@/api-services/folder-api.service";
 import { ApiError } from "@/lib/api-client";
 import { File } from "@/types/types";
@@ -17,6 +17,12 @@ import { useParams } from "next/navigation";
  * @module contexts/auth-folder-context
  */
 
+/** Subfolders and files loaded per page of the current folder. */
+const CONTENTS_PAGE_SIZE = 100;
+
+/** Preferences used until the user's own are loaded, matching the server's defaults. */
+const DEFAULT_PREFERENCES: ViewPreferences = { view: "table", sort: "name", order: "asc" };
+
 /**
  * Props interface for the AuthFolderContext.
  * 
@@ -43,8 +49,20 @@ export interface AuthFolderContextProps {
     rootFolderId: string | null;
     /** Setter for the rootFolderId state object */
     setRootFolderId: React.Dispatch<React.SetStateAction<string | null>>;
-    /** refresh function for refetching the folder state after changes (new file, new folder, etc.) */
+    /** refresh function for refetching the folder state after changes (new file, new folder, etc.); loads the first page */
     fetchFolderContents: () => Promise<void>;
+    /** Appends the next page of the current folder's contents to `subFolders` and `files` */
+    loadMoreContents: () => Promise<void>;
+    /** Whether the current folder has contents beyond the pages loaded so far */
+    hasMoreContents: boolean;
+    /** The user's view, sort and order for folder contents */
+    preferences: ViewPreferences;
+    /** Changes some of the preferences, saves them for the user and reloads the contents if the sort changed */
+    updatePreferences: (changes: Partial<ViewPreferences>) => void;
+    /** Extension the current folder's files are filtered by (lower case, without the dot), or null to list everything */
+    extensionFilter: string | null;
+    /** Setter for the extensionFilter; the contents are reloaded with the new filter */
+    setExtensionFilter: React.Dispatch<React.SetStateAction<string | null>>;
     /** refresh function for refetching the folder tree after changes */
     refetchFolderTree: () => void;
     /** Key that increments when folder tree needs to be refreshed */
@@ -101,6 +119,11 @@ export const AuthFolderContext = createContext<AuthFolderContextProps | null>(nu
  * - Sets both root folder and current folder when loading shared content
  * - Share token can be updated dynamically via setShareToken
  * - All state is initialized to null until data is loaded
+ * - The current folder's contents are loaded a page at a time: `fetchFolderContents`
+ *   loads the first page and `loadMoreContents` appends the next while `hasMoreContents`
+ * - Contents are sorted by the user's saved preferences, which are loaded on mount before
+ *   the first page; `updatePreferences` saves changes through the API
+ * - The extension filter is not saved and is cleared when another folder is opened
  * - Uses FolderApiService for API calls
  * 
  * @see {@link useAuthFolder} for accessing the context
@@ -120,12 +143,45 @@ export const AuthFolderProvider = ({ children }: {
     const [currentFolderId, setCurrentFolderId] = useState<string | null>(folderId);
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [folderTreeRefreshKey, setFolderTreeRefreshKey] = useState<number>(0);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [preferences, setPreferences] = useState<ViewPreferences>(DEFAULT_PREFERENCES);
+    const [preferencesLoaded, setPreferencesLoaded] = useState<boolean>(false);
+    const [extensionFilter, setExtensionFilter] = useState<string | null>(null);
+    const loadingMore = useRef<boolean>(false);
+    const { sort, order } = preferences;
     
     // update the currentFolderId based on changes in the route
     useEffect(() => {
         setCurrentFolderId(folderId || rootFolderId);
+        setExtensionFilter(null);
     }, [folderId, rootFolderId]);
 
+    // Fetch the user's preferences on mount (once); contents wait for them to avoid loading twice
+    useEffect(() => {
+        const fetchPreferences = async () => {
+            try {
+                const response = await FolderApiService.getPreferences();
+                if (response && !(response instanceof ApiError)) {
+                    setPreferences(response);
+                }
+            } catch (err) {
+                console.error("Error fetching preferences:", err);
+            } finally {
+                setPreferencesLoaded(true);
+            }
+        };
+        fetchPreferences();
+    }, []);
+
+    const updatePreferences = useCallback((changes: Partial<ViewPreferences>) => {
+        setPreferences((prev) => ({ ...prev, ...changes }));
+        FolderApiService.updatePreferences(changes)
+            .then((response) => {
+                if (response instanceof ApiError) console.error("Error saving preferences:", response);
+            })
+            .catch((err) => console.error("Error saving preferences:", err));
+    }, []);
+
     // Fetch user's root folder ID on mount (once)
     useEffect(() => {
         const fetchRootFolderId = async () => {
@@ -146,7 +202,7 @@ export const AuthFolderProvider = ({ children }: {
     // on changing of the folderId we refetch the folder contents
     const fetchFolderContents = useCallback(async () => {
         // Wait for rootFolderId to be set if we don't have a currentFolderId yet
-        if (!currentFolderId && !rootFolderId) {
+        if ((!currentFolderId && !rootFolderId) || !preferencesLoaded) {
             return;
         }
         
@@ -158,18 +214,48 @@ export const AuthFolderProvider = ({ children }: {
         
         try {
             setIsLoading(true);
-            const data = await FolderApiService.getFolderContents(targetFolderId);
+            const data = await FolderApiService.getFolderChildren(targetFolderId, {
+                limit: CONTENTS_PAGE_SIZE,
+                sort,
+                order,
+                extension: extensionFilter ?? undefined,
+            });
             if (!(data instanceof ApiError)) {
-                setSubFolders(data.subfolders);
-                setFiles(data.files as File[]);
-                console.log(data);
+                setSubFolders(data.folders);
+                setFiles(data.files);
+                setNextCursor(data.next_cursor);
             }
         } catch (err) {
             console.error("error messsage", err);
         } finally {
             setIsLoading(false);
         }
-    }, [currentFolderId, rootFolderId]);
+    }, [currentFolderId, rootFolderId, preferencesLoaded, sort, order, extensionFilter]);
+
+    const loadMoreContents = useCallback(async () => {
+        const targetFolderId = currentFolderId || rootFolderId;
+        if (!targetFolderId || !nextCursor || loadingMore.current) return;
+
+        loadingMore.current = true;
+        try {
+            const data = await FolderApiService.getFolderChildren(targetFolderId, {
+                limit: CONTENTS_PAGE_SIZE,
+                cursor: nextCursor,
+                sort,
+                order,
+                extension: extensionFilter ?? undefined,
+            });
+            if (!(data instanceof ApiError)) {
+                setSubFolders((prev) => [...(prev ?? []), ...data.folders]);
+                setFiles((prev) => [...(prev ?? []), ...data.files]);
+                setNextCursor(data.next_cursor);
+            }
+        } catch (err) {
+            console.error("Error loading more folder contents:", err);
+        } finally {
+            loadingMore.current = false;
+        }
+    }, [currentFolderId, rootFolderId, nextCursor, sort, order, extensionFilter]);
 
     // refetch on the change of the fetchFolderContents reference
     useEffect(() => {
@@ -192,6 +278,12 @@ export const AuthFolderProvider = ({ children }: {
             rootFolderId,
             setRootFolderId,
             fetchFolderContents,
+            loadMoreContents,
+            hasMoreContents: nextCursor !== null,
+            preferences,
+            updatePreferences,
+            extensionFilter,
+            setExtensionFilter,
             refetchFolderTree,
             folderTreeRefreshKey,
             isLoading,
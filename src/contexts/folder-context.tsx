@@ -1,7 +1,7 @@
 'use client'
 
 import React, { createContext, useState, useEffect, useCallback } from "react";
-import { Folder } from "@/types/types";
+import { Folder, type SharePermission } from "@/types/types";
 import { FolderApiService } from "@/api-services/folder-api.service";
 import { ApiError } from "@/lib/api-client";
 
@@ -43,6 +43,12 @@ export interface FolderContextProps{
     setFolderMap: React.Dispatch<React.SetStateAction<Record<string, Folder>>>;
     /** Loading state for folder operations */
     isLoading: boolean;
+    /** Permission of the share link the folder was opened through (null until loaded) */
+    permission: SharePermission | null;
+    /** Whether the share link has a password the visitor has not entered yet */
+    passwordRequired: boolean;
+    /** Fetches the shared folder again, e.g. after the link is unlocked */
+    reload: () => void;
 }
 
 /**
@@ -124,6 +130,9 @@ export const FolderContext = createContext<FolderContextProps | null>(null);
  * - Automatically fetches shared folder contents when share token changes
  * - Constructs a folder map for efficient folder lookups by ID
  * - Sets both root folder and current folder when loading shared content
+ * - Exposes the link's permission so download buttons can be disabled for `view`
+ * - Sets `passwordRequired` when the link asks for a password; call `reload` once
+ *   it is unlocked
  * - Share token can be updated dynamically via setShareToken
  * - All state is initialized to null until data is loaded
  * - Uses FolderApiService for API calls
@@ -142,6 +151,11 @@ export const FolderProvider = ({ children, initialShareToken } : {
     const [shareToken, setShareToken] = useState<string | null>(null);
     const [folderMap, setFolderMap] = useState<Record<string, Folder>>({});
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [permission, setPermission] = useState<SharePermission | null>(null);
+    const [passwordRequired, setPasswordRequired] = useState<boolean>(false);
+    const [reloadKey, setReloadKey] = useState<number>(0);
+
+    const reload = useCallback(() => setReloadKey((key) => key + 1), []);
 
     // initialize share token
     useEffect(() => {
@@ -160,7 +174,9 @@ export const FolderProvider = ({ children, initialShareToken } : {
                 setIsLoading(true);
                 const data = await FolderApiService.getSharedRootFolderContents(shareToken);
                 if (!(data instanceof ApiError)) {
+                    setPasswordRequired(false);
                     setRootFolder(data);
+                    setPermission(data.permission);
                     // now we need to construct the folder
                     const newFolderMap = await FolderApiService.constructFolderMap(data);
                     setFolderMap(newFolderMap);
@@ -168,13 +184,17 @@ export const FolderProvider = ({ children, initialShareToken } : {
                     setCurrentFolder(data);
                 }
             } catch (error) {
+                if (error instanceof ApiError && error.status === 401 && error.data?.password_required) {
+                    setPasswordRequired(true);
+                    return;
+                }
                 console.error("Error occurred: ", error);
             } finally {
                 setIsLoading(false);
             }
         };
         getRootFolderContents();
-    }, [shareToken]);
+    }, [shareToken, reloadKey]);
 
     return (
         <FolderContext.Provider value={{
@@ -182,7 +202,9 @@ export const FolderProvider = ({ children, initialShareToken } : {
             currentFolder, setCurrentFolder,
             shareToken, setShareToken,
             folderMap, setFolderMap,
-            isLoading
+            isLoading,
+            permission,
+            passwordRequired, reload,
         }}>
             { children }
         </FolderContext.Provider>
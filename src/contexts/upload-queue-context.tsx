@@ -0,0 +1,157 @@
+'use client'
+
+import React, { createContext, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { Folder, UploadQueueItem } from "@/types/types";
+import { FileApiService } from "@/api-services/file-api.service";
+import { FolderApiService } from "@/api-services/folder-api.service";
+import { ApiError } from "@/lib/api-client";
+import { UploadQueue, type UploadRequest } from "@/lib/upload-queue";
+import { useAuthFolder } from "@/hooks/use-auth-folder";
+
+/**
+ * @fileoverview React context for the persistent upload queue.
+ *
+ * This module provides a context and provider that keep track of every upload started
+ * from the authenticated view (drag-and-drop, folder picker), upload at most a few
+ * files at a time, and recreate dropped directory structures as subfolders.
+ *
+ * @module contexts/upload-queue-context
+ */
+
+/** Number of files uploaded in parallel. */
+export const MAX_CONCURRENT_UPLOADS = 3;
+
+/**
+ * Props interface for the UploadQueueContext.
+ *
+ * @interface UploadQueueContextProps
+ */
+export interface UploadQueueContextProps {
+    /** Every upload of the session, in the order it was added */
+    items: UploadQueueItem[];
+    /** Adds files to the queue; relative paths are resolved against `folderId` */
+    enqueue: (requests: UploadRequest[], folderId: string) => void;
+    /** Stops a queued or running upload */
+    cancel: (id: string) => void;
+    /** Queues a failed or cancelled upload again */
+    retry: (id: string) => void;
+    /** Removes completed, failed and cancelled uploads from the list */
+    clearFinished: () => void;
+}
+
+/**
+ * React context for the upload queue. Access it using the {@link useUploadQueue} hook.
+ *
+ * @type {React.Context<UploadQueueContextProps | null>}
+ *
+ * @see {@link UploadQueueProvider} for the context provider component
+ */
+export const UploadQueueContext = createContext<UploadQueueContextProps | null>(null);
+
+/**
+ * Context provider component for the upload queue.
+ *
+ * Must be rendered inside an {@link AuthFolderProvider}: once the queue drains it
+ * refreshes the current folder and the folder tree so new files and folders appear.
+ *
+ * @param props - Component props
+ * @param props.children - Child components that will have access to the context
+ *
+ * @returns JSX element wrapping children with upload queue context
+ *
+ * @example
+ * ```typescript
+ * <AuthFolderProvider>
+ *   <UploadQueueProvider>
+ *     <FolderPage />
+ *     <UploadQueuePanel />
+ *   </UploadQueueProvider>
+ * </AuthFolderProvider>
+ * ```
+ *
+ * @remarks
+ * - Folders in a file's relative path are looked up by name (case-insensitively) and
+ *   only created when missing; lookups are shared between files of the same upload
+ * - Files are sent straight to storage with {@link FileApiService.uploadFileDirect}
+ * - Upload errors keep the server's message so it can be shown next to the file
+ * - The queue lives as long as the provider, so uploads continue while navigating
+ *
+ * @see {@link UploadQueue} for the queue implementation
+ * @see {@link useUploadQueue} for accessing the context
+ */
+export const UploadQueueProvider = ({ children }: {
+    children: React.ReactNode;
+}) => {
+    const { fetchFolderContents, refetchFolderTree } = useAuthFolder();
+
+    // the queue is created once; keep the latest refresh callbacks for it to call
+    const refresh = useRef(() => {});
+    useEffect(() => {
+        refresh.current = () => {
+            fetchFolderContents();
+            refetchFolderTree();
+        };
+    }, [fetchFolderContents, refetchFolderTree]);
+
+    // "<parentId>/<path>" -> folder ID, so files in the same directory share one lookup
+    const folderIds = useRef(new Map<string, Promise<string>>());
+
+    const [queue] = useState(() => {
+        const resolveFolder = (parentId: string, name: string): Promise<string> => {
+            const key = `${parentId}/${name.toLowerCase()}`;
+            let pending = folderIds.current.get(key);
+            if (!pending) {
+                pending = (async () => {
+                    const parent = await FolderApiService.getFolder(parentId) as Folder;
+                    const existing = parent.subfolders?.find((folder) => folder.folder_name.toLowerCase() === name.toLowerCase());
+                    if (existing) return existing.id;
+
+                    const created = await FolderApiService.createFolder(name, parentId) as Folder;
+                    return created.id;
+                })();
+                // let a retry look the folder up again
+                pending.catch(() => folderIds.current.delete(key));
+                folderIds.current.set(key, pending);
+            }
+            return pending;
+        };
+
+        return new UploadQueue({
+            concurrency: MAX_CONCURRENT_UPLOADS,
+            upload: async (item, { onProgress, signal }) => {
+                try {
+                    const directories = item.relativePath.split("/").filter(Boolean).slice(0, -1);
+                    let folderId = item.folderId;
+                    for (const directory of directories) {
+                        folderId = await resolveFolder(folderId, directory);
+                    }
+
+                    await FileApiService.uploadFileDirect(folderId, item.file, { onProgress, signal });
+                } catch (err) {
+                    if (err instanceof ApiError) throw new Error(err.data?.error || err.message);
+                    throw err;
+                }
+            },
+            onIdle: () => {
+                // folders may be renamed or deleted before the next upload
+                folderIds.current.clear();
+                refresh.current();
+            },
+        });
+    });
+
+    const items = useSyncExternalStore(queue.subscribe, queue.getSnapshot, queue.getSnapshot);
+
+    const [actions] = useState(() => ({
+        enqueue: (requests: UploadRequest[], folderId: string) => queue.add(requests, folderId),
+        cancel: (id: string) => queue.cancel(id),
+        retry: (id: string) => queue.retry(id),
+        clearFinished: () => queue.clearFinished(),
+    }));
+
+    return (
+        <UploadQueueContext.Provider value={{ items, ...actions }}>
+            { children }
+        </UploadQueueContext.Provider>
+    );
+}
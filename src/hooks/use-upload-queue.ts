@@ -0,0 +1,36 @@
+import { UploadQueueContextProps } from "@/contexts/upload-queue-context";
+import { UploadQueueContext } from "@/contexts/upload-queue-context";
+import { useContext } from "react";
+
+/**
+ * @fileoverview Custom React hook for accessing the upload queue context.
+ *
+ * @module hooks/use-upload-queue
+ */
+
+/**
+ * Custom hook to access the upload queue.
+ *
+ * @returns The queued uploads and the actions to add, cancel and retry them
+ * @throws {Error} If used outside of an UploadQueueProvider
+ *
+ * @example
+ * ```typescript
+ * function UploadButton({ folderId }: { folderId: string }) {
+ *   const { enqueue } = useUploadQueue();
+ *   const onChange = (e: React.ChangeEvent<HTMLInputElement>) =>
+ *     enqueue(Array.from(e.target.files ?? []).map((file) => ({ file, relativePath: file.name })), folderId);
+ *   return <input type="file" multiple onChange={onChange} />;
+ * }
+ * ```
+ *
+ * @see {@link UploadQueueProvider} for the context provider
+ * @see {@link UploadQueueContextProps} for the return type definition
+ */
+export const useUploadQueue = (): UploadQueueContextProps => {
+    const context = useContext(UploadQueueContext);
+    if (!context) {
+        throw new Error('useUploadQueue must be inside UploadQueueProvider!');
+    }
+    return context;
+}
@@ -0,0 +1,21 @@
+/**
+ * @fileoverview Next.js server startup hook.
+ *
+ * Next.js calls {@link register} once when a server instance starts, before it
+ * handles any request.
+ *
+ * @module instrumentation
+ */
+
+/**
+ * Creates the storage driver at startup, so a storage misconfiguration (such as the
+ * local driver without `STORAGE_SIGNING_SECRET`) stops the server from starting
+ * instead of failing its first request.
+ *
+ * @see {@link https://nextjs.org/docs/app/guides/instrumentation | Next.js Instrumentation}
+ */
+export async function register() {
+    if (process.env.NEXT_RUNTIME === "nodejs") {
+        await import("@/lib/storage-client");
+    }
+}
@@ -2,7 +2,7 @@
  * Interface defining the contract for HTTP API client operations.
  * 
  * This interface provides a standardized API for making HTTP requests to the backend.
- * It supports common HTTP methods (GET, POST, DELETE) and handles both JSON and
+ * It supports common HTTP methods (GET, POST, PATCH, DELETE) and handles both JSON and
  * FormData payloads. All methods return typed promises for type-safe responses.
  * 
  * @interface IApiClient
@@ -40,6 +40,20 @@
  * @see {@link ApiError} for error handling
  */
 export interface IApiClient {
+    /**
+     * Resolves an endpoint path to the absolute URL the client would request.
+     * 
+     * @param endpoint - The API endpoint path (e.g., '/folders/123/archive')
+     * @returns The full URL, including the configured base URL
+     * 
+     * @example
+     * ```typescript
+     * // Point a download link at an endpoint
+     * link.href = client.getUrl('/folders/123/archive');
+     * ```
+     */
+    getUrl(endpoint: string): string;
+
     /**
      * Performs a GET request to the specified endpoint.
      * 
@@ -92,6 +106,47 @@ export interface IApiClient {
      */
     post<T>(endpoint: string, data?: any): Promise<T>;
 
+    /**
+     * Performs a POST request and streams the newline-delimited JSON response.
+     *
+     * @template T - The type of each streamed message
+     * @param endpoint - The API endpoint path (e.g., '/api/folders/123/copy')
+     * @param data - Optional request body (will be JSON-stringified)
+     * @param onMessage - Called with each parsed line as it arrives
+     * @returns Promise resolving once the stream has ended
+     *
+     * @throws {@link ApiError} If the response status is not in the 2xx range
+     *
+     * @example
+     * ```typescript
+     * // Follow the progress of a folder copy
+     * await client.postNdjson<CopyFolderEvent>('/api/folders/123/copy', {}, (event) => {
+     *   console.log(event.type);
+     * });
+     * ```
+     */
+    postNdjson<T>(endpoint: string, data: any, onMessage: (message: T) => void): Promise<void>;
+
+    /**
+     * Performs a PATCH request with JSON data to the specified endpoint.
+     * 
+     * @template T - The expected response type
+     * @param endpoint - The API endpoint path (e.g., '/api/files/123')
+     * @param data - Optional partial update (will be JSON-stringified)
+     * @returns Promise resolving to the typed response
+     * 
+     * @throws {@link ApiError} If the response status is not in the 2xx range
+     * 
+     * @example
+     * ```typescript
+     * // Move a folder under another parent
+     * const folder = await client.patch<Folder>('/api/folders/123', {
+     *   parent_folder_id: '456'
+     * });
+     * ```
+     */
+    patch<T>(endpoint: string, data?: any): Promise<T>;
+
     /**
      * Performs a POST request with FormData to the specified endpoint.
      * 
@@ -121,6 +176,55 @@ export interface IApiClient {
      */
     postFormData<T>(endpoint: string, formData: FormData): Promise<T>;
 
+    /**
+     * Performs a POST request with FormData while reporting upload progress.
+     *
+     * @template T - The expected response type
+     * @param endpoint - The API endpoint path (e.g., '/api/folders/123/files')
+     * @param formData - FormData object containing the payload
+     * @param options - Optional progress callback (fraction from 0 to 1) and abort signal
+     * @returns Promise resolving to the typed response
+     *
+     * @throws {@link ApiError} If the response status is not in the 2xx range, or with
+     * status 0 if the request fails or is aborted
+     *
+     * @example
+     * ```typescript
+     * const uploaded = await client.postFormDataWithProgress<File>('/api/folders/123/files', formData, {
+     *   onProgress: (progress) => setProgress(progress),
+     *   signal: controller.signal,
+     * });
+     * ```
+     */
+    postFormDataWithProgress<T>(
+        endpoint: string,
+        formData: FormData,
+        options?: { onProgress?: (progress: number) => void, signal?: AbortSignal }
+    ): Promise<T>;
+
+    /**
+     * Uploads content with PUT to an absolute URL, such as a signed storage URL,
+     * reporting upload progress.
+     *
+     * @template T - The expected response type
+     * @param url - The absolute upload URL
+     * @param body - The content to upload
+     * @param options - Headers to send, a progress callback (0 to 1) and an abort signal
+     * @returns Promise resolving to the parsed response, or an empty object
+     *
+     * @throws {@link ApiError} If the request fails or is aborted
+     *
+     * @example
+     * ```typescript
+     * await client.putWithProgress(upload.url, file, { headers: upload.headers, onProgress: setProgress });
+     * ```
+     */
+    putWithProgress<T>(
+        url: string,
+        body: Blob,
+        options?: { headers?: Record<string, string>, onProgress?: (progress: number) => void, signal?: AbortSignal }
+    ): Promise<T>;
+
     /**
      * Performs a DELETE request to the specified endpoint.
      * 
@@ -0,0 +1,217 @@
+/**
+ * Metadata describing a stored object, as returned by {@link IStorageDriver.headObject}.
+ */
+export interface StorageObjectInfo {
+    /** Size of the object in bytes */
+    size: number;
+    /** MIME type recorded when the object was stored, if any */
+    contentType?: string;
+    /** When the object was last written, if known */
+    lastModified?: Date;
+}
+
+/**
+ * Options accepted when writing an object with {@link IStorageDriver.putObject}.
+ */
+export interface PutObjectOptions {
+    /** MIME type to store alongside the object */
+    contentType?: string;
+    /** Free-form string metadata (S3 user metadata, or a sidecar record on disk) */
+    metadata?: Record<string, string>;
+}
+
+/**
+ * Options accepted when signing a download URL with {@link IStorageDriver.getSignedUrl}.
+ */
+export interface SignedUrlOptions {
+    /** File name the browser should use for the download, instead of the key's last segment */
+    fileName?: string;
+}
+
+/**
+ * A request the client can make to store an object directly in the backend,
+ * as returned by {@link IStorageDriver.getSignedUploadUrl}.
+ */
+export interface SignedUpload {
+    /** URL the object's bytes are sent to */
+    url: string;
+    /** HTTP method to use */
+    method: "PUT";
+    /** Headers the request must carry for the signature to match */
+    headers: Record<string, string>;
+}
+
+/**
+ * A part stored for a multipart upload, as returned by {@link IStorageDriver.listUploadedParts}.
+ */
+export interface UploadedPart {
+    /** 1-based position of the part in the object */
+    partNumber: number;
+    /** Backend identifier of the part's content, needed to complete the upload */
+    etag: string;
+    /** Size of the part in bytes */
+    size: number;
+}
+
+/**
+ * Interface defining the contract for a file storage backend.
+ *
+ * The services never talk to a storage SDK directly; instead they go through a driver
+ * implementing this interface. This lets the application run against AWS S3 in
+ * production and against the local filesystem for offline development or
+ * single-box self-hosting.
+ *
+ * Objects are addressed by a string key (e.g. `root_user_abc/report.pdf`), which is
+ * what the database stores in `s3_key`.
+ *
+ * @interface IStorageDriver
+ *
+ * @example
+ * ```typescript
+ * import storageDriver from '@/lib/storage-client';
+ *
+ * await storageDriver.putObject('root_user_abc/notes.txt', Buffer.from('hello'), {
+ *   contentType: 'text/plain',
+ * });
+ *
+ * const url = await storageDriver.getSignedUrl('root_user_abc/notes.txt', 3600);
+ * await storageDriver.deleteObject('root_user_abc/notes.txt');
+ * ```
+ *
+ * @remarks
+ * - All methods are async and throw on backend failures
+ * - Deleting a key that does not exist is not an error
+ * - Signed URLs can be handed to unauthenticated clients and expire on their own
+ *
+ * @see {@link S3StorageDriver} for the AWS S3 implementation
+ * @see {@link LocalStorageDriver} for the local filesystem implementation
+ */
+export interface IStorageDriver {
+    /**
+     * Writes an object, replacing any existing object with the same key.
+     *
+     * @param key - The object key
+     * @param body - The object's content
+     * @param options - Optional content type and metadata
+     */
+    putObject(key: string, body: Buffer | Uint8Array | string, options?: PutObjectOptions): Promise<void>;
+
+    /**
+     * Opens an object for streaming reads.
+     *
+     * @param key - The object key
+     * @returns A web ReadableStream of the object's bytes
+     * @throws {@link Error} If the object does not exist
+     */
+    getObjectStream(key: string): Promise<ReadableStream<Uint8Array>>;
+
+    /**
+     * Copies an object to a new key within the same backend, including its content type
+     * and metadata. Any existing object at the destination is replaced.
+     *
+     * @param sourceKey - The key to copy from
+     * @param destinationKey - The key to copy to
+     * @throws {@link Error} If the source object does not exist
+     */
+    copyObject(sourceKey: string, destinationKey: string): Promise<void>;
+
+    /**
+     * Deletes a single object.
+     *
+     * @param key - The object key
+     */
+    deleteObject(key: string): Promise<void>;
+
+    /**
+     * Deletes many objects in as few backend calls as possible.
+     *
+     * @param keys - The object keys to delete
+     */
+    deleteObjects(keys: string[]): Promise<void>;
+
+    /**
+     * Generates a time-limited URL that downloads the object without further authentication.
+     *
+     * @param key - The object key
+     * @param expiresInSeconds - How long the URL stays valid
+     * @param options - Optional download file name
+     * @returns The signed download URL
+     */
+    getSignedUrl(key: string, expiresInSeconds: number, options?: SignedUrlOptions): Promise<string>;
+
+    /**
+     * Generates a time-limited request that writes the object without further
+     * authentication, so clients can upload without the bytes passing through the app.
+     *
+     * @param key - The object key
+     * @param expiresInSeconds - How long the URL stays valid
+     * @param options - Optional content type the upload must be sent with
+     * @returns The URL, method and headers of the upload request
+     */
+    getSignedUploadUrl(key: string, expiresInSeconds: number, options?: Pick<PutObjectOptions, "contentType">): Promise<SignedUpload>;
+
+    /**
+     * Starts a multipart upload, in which the object is sent as separately uploaded parts.
+     *
+     * @param key - The key the object will be stored under once the upload is completed
+     * @param options - Optional content type of the final object
+     * @returns The upload ID to pass to the other multipart methods
+     */
+    createMultipartUpload(key: string, options?: Pick<PutObjectOptions, "contentType">): Promise<string>;
+
+    /**
+     * Generates a time-limited request that uploads one part of a multipart upload.
+     * Uploading the same part number again replaces the part.
+     *
+     * @param key - The object key given to {@link createMultipartUpload}
+     * @param uploadId - The multipart upload ID
+     * @param partNumber - The 1-based part number (at most 10,000)
+     * @param expiresInSeconds - How long the URL stays valid
+     * @returns The URL, method and headers of the upload request
+     */
+    getSignedUploadPartUrl(key: string, uploadId: string, partNumber: number, expiresInSeconds: number): Promise<SignedUpload>;
+
+    /**
+     * Lists the parts stored so far for a multipart upload, ordered by part number.
+     *
+     * @param key - The object key given to {@link createMultipartUpload}
+     * @param uploadId - The multipart upload ID
+     * @returns The stored parts
+     * @throws {@link Error} If the upload does not exist (e.g. it was completed or aborted)
+     */
+    listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+
+    /**
+     * Assembles the given parts, in order, into the final object and ends the upload.
+     *
+     * @param key - The object key given to {@link createMultipartUpload}
+     * @param uploadId - The multipart upload ID
+     * @param parts - The parts to assemble, as returned by {@link listUploadedParts}
+     */
+    completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+
+    /**
+     * Ends a multipart upload and discards its parts. Aborting an upload that no
+     * longer exists is not an error.
+     *
+     * @param key - The object key given to {@link createMultipartUpload}
+     * @param uploadId - The multipart upload ID
+     */
+    abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+
+    /**
+     * Looks up an object's metadata without reading its content.
+     *
+     * @param key - The object key
+     * @returns The object's metadata, or null if it does not exist
+     */
+    headObject(key: string): Promise<StorageObjectInfo | null>;
+
+    /**
+     * Builds the permanent (unsigned) location of an object, stored in `s3_link` for reference.
+     *
+     * @param key - The object key
+     * @returns A URL or URI identifying the object in this backend
+     */
+    getObjectLink(key: string): string;
+}
@@ -36,6 +36,9 @@ import { IApiClient } from "@/interfaces/api-client.interface";
  * formData.append('file', fileObject);
  * const result = await apiClient.postFormData('/folders/123/files', formData);
  * 
+ * // PATCH request
+ * await apiClient.patch('/files/456', { name: 'renamed.txt' });
+ * 
  * // DELETE request
  * await apiClient.delete('/files/456');
  * ```
@@ -61,6 +64,23 @@ class ApiClient implements IApiClient{
         this.baseUrl = process.env.NEXT_PUBLIC_API_URL || '/api';
     }
 
+    /**
+     * Resolves an API endpoint path to the full URL requests are sent to.
+     * 
+     * Useful when the browser should fetch an endpoint itself, e.g. for a download link.
+     * 
+     * @param endpoint - The API endpoint path (e.g., '/folders/123/archive')
+     * @returns The endpoint prefixed with the configured base URL
+     * 
+     * @example
+     * ```typescript
+     * const href = apiClient.getUrl('/folders/123/archive'); // "/api/folders/123/archive"
+     * ```
+     */
+    getUrl(endpoint: string): string {
+        return `${this.baseUrl}${endpoint}`;
+    }
+
     /**
      * Internal method for making HTTP requests with error handling.
      * 
@@ -78,7 +98,7 @@ class ApiClient implements IApiClient{
      * @throws {ApiError} When the request fails or returns an error status
      */
     private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-        const url = `${this.baseUrl}${endpoint}`;
+        const url = this.getUrl(endpoint);
 
         const config: RequestInit = {
             headers: {
@@ -157,6 +177,97 @@ class ApiClient implements IApiClient{
         });
     }
 
+    /**
+     * Makes a POST request and reads the response as a newline-delimited JSON stream.
+     *
+     * Each line of the response body is parsed and passed to `onMessage` as soon as it
+     * arrives, which lets long-running operations report progress.
+     *
+     * @template T - The type of each streamed message
+     * @param endpoint - The API endpoint path
+     * @param data - Optional data to send in the request body (will be JSON-stringified)
+     * @param onMessage - Callback invoked with every parsed line
+     * @returns A promise that resolves once the stream has ended
+     * @throws {ApiError} When the request fails before the stream starts
+     *
+     * @example
+     * ```typescript
+     * // Copy a folder and follow progress
+     * await apiClient.postNdjson<CopyFolderEvent>('/folders/123/copy', {}, (event) => {
+     *   if (event.type === 'progress') console.log(`${event.copied}/${event.total}`);
+     * });
+     * ```
+     */
+    async postNdjson<T>(endpoint: string, data: any, onMessage: (message: T) => void): Promise<void> {
+        const url = this.getUrl(endpoint);
+
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Accept': 'application/x-ndjson',
+                },
+                body: data ? JSON.stringify(data) : undefined,
+            });
+        } catch {
+            throw new ApiError(`Network error occured`, 0);
+        }
+
+        if (!response.ok || !response.body) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new ApiError(
+                errorData.message || `HTTP ${response.status}`,
+                response.status,
+                errorData
+            );
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += decoder.decode(value, { stream: !done });
+
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                if (line.trim()) onMessage(JSON.parse(line));
+            }
+
+            if (done) break;
+        }
+
+        if (buffer.trim()) onMessage(JSON.parse(buffer));
+    }
+
+    /**
+     * Makes a PATCH request with JSON data to the specified endpoint.
+     * 
+     * @template T - The expected response type
+     * @param endpoint - The API endpoint path
+     * @param data - Optional data to send in the request body (will be JSON-stringified)
+     * @returns A promise resolving to the response data
+     * @throws {ApiError} When the request fails
+     * 
+     * @example
+     * ```typescript
+     * // Rename a file
+     * const file = await apiClient.patch<File>('/files/123', {
+     *   name: 'report-final.pdf'
+     * });
+     * ```
+     */
+    async patch<T>(endpoint: string, data?: any): Promise<T> {
+        return this.request<T>(endpoint, {
+            method: 'PATCH',
+            body: data ? JSON.stringify(data) : undefined,
+        });
+    }
+
     /**
      * Makes a POST request with FormData (typically for file uploads).
      * 
@@ -192,6 +303,123 @@ class ApiClient implements IApiClient{
         });
     }
 
+    /**
+     * Makes a POST request with FormData and reports upload progress.
+     *
+     * `fetch` cannot observe request bodies being sent, so this method uses
+     * XMLHttpRequest instead. Otherwise it behaves like {@link postFormData}.
+     *
+     * @template T - The expected response type
+     * @param endpoint - The API endpoint path
+     * @param formData - FormData object containing the data to upload
+     * @param options - `onProgress` receives the fraction of bytes sent (0 to 1);
+     * aborting `signal` cancels the request
+     * @returns A promise resolving to the response data
+     * @throws {ApiError} When the request fails; status 0 for network errors and aborts
+     *
+     * @example
+     * ```typescript
+     * const controller = new AbortController();
+     * const result = await apiClient.postFormDataWithProgress('/folders/123/files', formData, {
+     *   onProgress: (progress) => console.log(`${Math.round(progress * 100)}%`),
+     *   signal: controller.signal,
+     * });
+     * ```
+     */
+    postFormDataWithProgress<T>(
+        endpoint: string,
+        formData: FormData,
+        options: { onProgress?: (progress: number) => void, signal?: AbortSignal } = {}
+    ): Promise<T> {
+        return this.sendWithProgress<T>('POST', this.getUrl(endpoint), formData, {}, options);
+    }
+
+    /**
+     * Uploads a file's bytes with PUT to an absolute URL and reports progress.
+     *
+     * Used for direct uploads, where the URL is a signed storage URL handed out by
+     * the API rather than an API endpoint.
+     *
+     * @template T - The expected response type (storage usually answers with an empty body)
+     * @param url - The absolute upload URL
+     * @param body - The content to upload
+     * @param options - Headers required by the signed URL, `onProgress` (0 to 1) and an
+     * abort `signal`
+     * @returns A promise resolving to the parsed response, or an empty object
+     * @throws {ApiError} When the request fails; status 0 for network errors and aborts
+     *
+     * @example
+     * ```typescript
+     * const { upload } = await apiClient.post('/folders/123/uploads', { ... });
+     * await apiClient.putWithProgress(upload.url, file, { headers: upload.headers });
+     * ```
+     */
+    putWithProgress<T>(
+        url: string,
+        body: Blob,
+        options: { headers?: Record<string, string>, onProgress?: (progress: number) => void, signal?: AbortSignal } = {}
+    ): Promise<T> {
+        const { headers = {}, ...progressOptions } = options;
+        return this.sendWithProgress<T>('PUT', url, body, headers, progressOptions);
+    }
+
+    /**
+     * Sends a request body with XMLHttpRequest so upload progress can be observed.
+     */
+    private sendWithProgress<T>(
+        method: 'POST' | 'PUT',
+        url: string,
+        body: XMLHttpRequestBodyInit,
+        headers: Record<string, string>,
+        options: { onProgress?: (progress: number) => void, signal?: AbortSignal }
+    ): Promise<T> {
+        const { onProgress, signal } = options;
+
+        return new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new ApiError('Upload cancelled', 0));
+                return;
+            }
+
+            const xhr = new XMLHttpRequest();
+            const onAbort = () => xhr.abort();
+            signal?.addEventListener('abort', onAbort);
+
+            xhr.upload.onprogress = (event) => {
+                if (event.lengthComputable && event.total > 0) onProgress?.(event.loaded / event.total);
+            };
+            xhr.onload = () => {
+                signal?.removeEventListener('abort', onAbort);
+                let data: any = {};
+                try {
+                    data = JSON.parse(xhr.responseText);
+                } catch {
+                    // non-JSON body; fall through with an empty object
+                }
+
+                if (xhr.status < 200 || xhr.status >= 300) {
+                    reject(new ApiError(data.message || `HTTP ${xhr.status}`, xhr.status, data));
+                    return;
+                }
+                resolve(data);
+            };
+            xhr.onerror = () => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(new ApiError(`Network error occured`, 0));
+            };
+            xhr.onabort = () => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(new ApiError('Upload cancelled', 0));
+            };
+
+            xhr.open(method, url);
+            for (const [name, value] of Object.entries(headers)) {
+                xhr.setRequestHeader(name, value);
+            }
+            xhr.send(body);
+        });
+    }
+
     /**
      * Makes a DELETE request to the specified endpoint.
      * 
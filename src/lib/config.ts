@@ -16,6 +16,12 @@ import "dotenv/config";
  * @interface Config
  */
 interface Config {
+    /** Storage backend used for file contents: "s3" (default) or "local" */
+    STORAGE_DRIVER: "s3" | "local";
+    /** Directory the local storage driver keeps objects in */
+    LOCAL_STORAGE_ROOT: string;
+    /** Secret used to sign local storage download URLs */
+    STORAGE_SIGNING_SECRET: string;
     /** AWS access key ID for S3 authentication */
     AWS_ACCESS_KEY_ID: string;
     /** AWS secret access key for S3 authentication */
@@ -32,6 +38,8 @@ interface Config {
     NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY: string;
     /** Secret key for Clerk authentication */
     CLERK_SECRET_KEY: string;
+    /** Secret used to sign the cookies that unlock password-protected share links */
+    SHARE_SIGNING_SECRET: string;
     /** Return route after sign in using clerk */
     NEXT_PUBLIC_CLERK_AFTER_SIGN_IN_URL: string;
     /** Return route after sign up using clerk */
@@ -40,6 +48,22 @@ interface Config {
     NEXT_PUBLIC_API_URL: string;
     /** Base URL for Cypress testing and requests */
     CYPRESS_BASE_URL: string;
+    /** Days a trashed file or folder is kept before it is purged */
+    TRASH_RETENTION_DAYS: number;
+    /** Bearer secret scheduled jobs (e.g. the trash purge) must present */
+    CRON_SECRET: string;
+    /** Most entries an uploaded ZIP may contain to be extracted */
+    ZIP_EXTRACT_MAX_ENTRIES: number;
+    /** Most bytes an uploaded ZIP may expand to when extracted */
+    ZIP_EXTRACT_MAX_BYTES: number;
+    /** Seconds a signed direct-upload URL stays valid */
+    UPLOAD_URL_EXPIRY_SECONDS: number;
+    /** Hours a multipart upload may sit idle before it is abandoned and purged */
+    MULTIPART_UPLOAD_IDLE_HOURS: number;
+    /** Most earlier versions kept per file; older ones are deleted when a new version is added */
+    FILE_VERSION_LIMIT: number;
+    /** Bytes each user may store unless their Clerk metadata sets `storage_quota`; 0 for unlimited */
+    STORAGE_QUOTA_BYTES: number;
 }
 
 /**
@@ -83,8 +107,18 @@ interface Config {
  * @remarks
  * - Configuration is loaded once at first access and cached
  * - Missing required env vars cause the application to throw immediately
+ * - AWS credentials and bucket are only required when STORAGE_DRIVER is "s3"
+ * - STORAGE_SIGNING_SECRET is only required when STORAGE_DRIVER is "local"; an empty value counts as missing
  * - AWS_REGION defaults to "us-east-1" if not specified
  * - PORT defaults to 3000 if not specified
+ * - TRASH_RETENTION_DAYS defaults to 30 if not specified
+ * - CRON_SECRET is optional; without it scheduled job routes reject every request
+ * - ZIP_EXTRACT_MAX_ENTRIES defaults to 5000 and ZIP_EXTRACT_MAX_BYTES to 1 GiB
+ * - UPLOAD_URL_EXPIRY_SECONDS defaults to 3600 (one hour)
+ * - MULTIPART_UPLOAD_IDLE_HOURS defaults to 24
+ * - FILE_VERSION_LIMIT defaults to 10
+ * - STORAGE_QUOTA_BYTES defaults to 10 GiB
+ * - SHARE_SIGNING_SECRET defaults to CLERK_SECRET_KEY
  * - Uses dotenv to load from .env files
  */
 class ConfigSingleton {
@@ -110,19 +144,36 @@ class ConfigSingleton {
      * @throws {Error} If required environment variables are missing
      */
     private constructor() {
+        const storageDriver = process.env.STORAGE_DRIVER === "local" ? "local" : "s3";
+        const usesS3 = storageDriver === "s3";
+
+        const clerkSecretKey = process.env.CLERK_SECRET_KEY ?? (() => {throw new Error("CLERK_SECRET_KEY UNDEFINED IN CONFIG!")})();
+
         this.config = {
-            AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID ?? (() => {throw new Error("AWS_ACCESS_KEY_ID UNDEFINED IN CONFIG!")})(),
-            AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY ?? (() => {throw new Error("AWS_SECRET_ACCESS_KEY UNDEFINED IN CONFIG!")})(),
+            STORAGE_DRIVER: storageDriver,
+            LOCAL_STORAGE_ROOT: process.env.LOCAL_STORAGE_ROOT || ".storage",
+            STORAGE_SIGNING_SECRET: process.env.STORAGE_SIGNING_SECRET || (usesS3 ? "" : (() => {throw new Error("STORAGE_SIGNING_SECRET UNDEFINED IN CONFIG!")})()),
+            AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID ?? (usesS3 ? (() => {throw new Error("AWS_ACCESS_KEY_ID UNDEFINED IN CONFIG!")})() : ""),
+            AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY ?? (usesS3 ? (() => {throw new Error("AWS_SECRET_ACCESS_KEY UNDEFINED IN CONFIG!")})() : ""),
             AWS_REGION: process.env.AWS_REGION || "us-east-1",
-            APPLICATION_BUCKET_NAME: process.env.APPLICATION_BUCKET_NAME ?? (() => {throw new Error("APPLICATION_BUCKET_NAME UNDEFINED IN CONFIG!")})(),
+            APPLICATION_BUCKET_NAME: process.env.APPLICATION_BUCKET_NAME ?? (usesS3 ? (() => {throw new Error("APPLICATION_BUCKET_NAME UNDEFINED IN CONFIG!")})() : ""),
             PORT: parseInt(process.env.PORT || "3000"),
             DATABASE_URL: process.env.DATABASE_URL ?? (() => {throw new Error("DATABASE_URL UNDEFINED IN CONFIG!")})(),
             NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY: process.env.NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY ?? (() => {throw new Error("NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY UNDEFINED IN CONFIG!")})(),
-            CLERK_SECRET_KEY: process.env.CLERK_SECRET_KEY ?? (() => {throw new Error("CLERK_SECRET_KEY UNDEFINED IN CONFIG!")})(),
+            CLERK_SECRET_KEY: clerkSecretKey,
+            SHARE_SIGNING_SECRET: process.env.SHARE_SIGNING_SECRET || clerkSecretKey,
             NEXT_PUBLIC_CLERK_AFTER_SIGN_IN_URL: process.env.NEXT_PUBLIC_CLERK_AFTER_SIGN_IN_URL ?? (() => {throw new Error("NEXT_PUBLIC_CLERK_AFTER_SIGN_IN_URL UNDEFINED IN CONFIG!")})(),
             NEXT_PUBLIC_CLERK_AFTER_SIGN_UP_URL: process.env.NEXT_PUBLIC_CLERK_AFTER_SIGN_UP_URL ?? (() => {throw new Error("NEXT_PUBLIC_CLERK_AFTER_SIGN_UP_URL UNDEFINED IN CONFIG!")})(),
             NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL ?? (() => {throw new Error("NEXT_PUBLIC_API_URL UNDEFINED IN CONFIG!")})(),
             CYPRESS_BASE_URL: process.env.CYPRESS_BASE_URL ?? (() => {throw new Error("CYPRESS_BASE_URL UNDEFINED IN CONFIG")})(),
+            TRASH_RETENTION_DAYS: parseInt(process.env.TRASH_RETENTION_DAYS || "30"),
+            CRON_SECRET: process.env.CRON_SECRET || "",
+            ZIP_EXTRACT_MAX_ENTRIES: parseInt(process.env.ZIP_EXTRACT_MAX_ENTRIES || "5000"),
+            ZIP_EXTRACT_MAX_BYTES: parseInt(process.env.ZIP_EXTRACT_MAX_BYTES || String(1024 * 1024 * 1024)),
+            UPLOAD_URL_EXPIRY_SECONDS: parseInt(process.env.UPLOAD_URL_EXPIRY_SECONDS || "3600"),
+            MULTIPART_UPLOAD_IDLE_HOURS: parseInt(process.env.MULTIPART_UPLOAD_IDLE_HOURS || "24"),
+            FILE_VERSION_LIMIT: parseInt(process.env.FILE_VERSION_LIMIT || "10"),
+            STORAGE_QUOTA_BYTES: parseInt(process.env.STORAGE_QUOTA_BYTES || String(10 * 1024 * 1024 * 1024)),
         };
     }
 
@@ -58,9 +58,32 @@ import { PrismaClient } from "@/../prisma/generated/prisma";
  * - Singleton pattern prevents multiple connection pools
  * - Supports transactions, relations, and type-safe queries
  * - Automatically handles connection pooling and cleanup
+ * - `File.size`, `FileVersion.size` and `Blob.size` are `BIGINT` columns (files can exceed 2 GB) but
+ *   are read as plain numbers, so results stay JSON-serializable; sizes are exact up to 8 PB
  * 
  * @see {@link https://www.prisma.io/docs/concepts/components/prisma-client | Prisma Client Documentation}
  */
-const prisma: PrismaClient = new PrismaClient();
+const prisma = new PrismaClient().$extends({
+    result: {
+        file: {
+            size: {
+                needs: { size: true },
+                compute: (file) => Number(file.size),
+            },
+        },
+        fileVersion: {
+            size: {
+                needs: { size: true },
+                compute: (version) => Number(version.size),
+            },
+        },
+        blob: {
+            size: {
+                needs: { size: true },
+                compute: (blob) => Number(blob.size),
+            },
+        },
+    },
+});
 
 export default prisma;
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { type UploadRequest } from "@/lib/upload-queue";
+
+/**
+ * @fileoverview Helpers that turn dropped or picked files into upload requests.
+ *
+ * Browsers expose directories in two ways: drag-and-drop hands over
+ * `FileSystemEntry` trees through `DataTransferItem.webkitGetAsEntry()`, and inputs
+ * with the `webkitdirectory` attribute return a flat list whose files carry a
+ * `webkitRelativePath`. Both are flattened here into files with a relative path.
+ *
+ * @module lib/dropped-files
+ */
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = entry.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches (100 in Chrome) until it returns none
+    while (true) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) return entries;
+        entries.push(...batch);
+    }
+}
+
+async function collectEntry(entry: FileSystemEntry, path: string, requests: UploadRequest[]): Promise<void> {
+    const relativePath = path ? `${path}/${entry.name}` : entry.name;
+    if (entry.isFile) {
+        requests.push({ file: await readFile(entry as FileSystemFileEntry), relativePath });
+    } else if (entry.isDirectory) {
+        for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+            await collectEntry(child, relativePath, requests);
+        }
+    }
+}
+
+/**
+ * Collects every file of a drop, descending into dropped directories.
+ *
+ * @param dataTransfer - The `dataTransfer` of a drop event
+ * @returns The dropped files, with paths such as `Photos/2024/beach.jpg` for files
+ * found inside a dropped `Photos` directory
+ *
+ * @example
+ * ```typescript
+ * const onDrop = async (event: React.DragEvent) => {
+ *   event.preventDefault();
+ *   enqueue(await collectDroppedFiles(event.dataTransfer), currentFolderId);
+ * };
+ * ```
+ *
+ * @remarks
+ * - Entries must be taken from the items synchronously, before the first await,
+ *   because the browser clears the DataTransfer once the event handler returns
+ * - Falls back to `dataTransfer.files` when entries are unavailable
+ * - Empty directories are skipped
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<UploadRequest[]> {
+    const entries = Array.from(dataTransfer.items ?? [])
+        .filter((item) => item.kind === "file")
+        .map((item) => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length === 0) {
+        return Array.from(dataTransfer.files).map((file) => ({ file, relativePath: file.name }));
+    }
+
+    const requests: UploadRequest[] = [];
+    for (const entry of entries) {
+        await collectEntry(entry, "", requests);
+    }
+    return requests;
+}
+
+/**
+ * Converts the files chosen with a file input into upload requests.
+ *
+ * @param files - The input's `files`; with `webkitdirectory` each file's
+ * `webkitRelativePath` (which starts with the chosen directory's name) is kept
+ * @returns One request per file
+ */
+export function filesToUploadRequests(files: FileList | File[]): UploadRequest[] {
+    return Array.from(files).map((file) => ({
+        file,
+        relativePath: file.webkitRelativePath || file.name,
+    }));
+}
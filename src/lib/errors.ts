@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Error types shared by the services and API routes.
+ *
+ * @module lib/errors
+ */
+
+/**
+ * Error thrown when a request is well-formed but cannot be applied, e.g. a rename
+ * that clashes with a sibling or a move that would create a cycle.
+ *
+ * Like {@link AuthorizationError}, it carries the HTTP status the API route should
+ * respond with, so routes can turn it into a JSON response directly.
+ *
+ * @extends Error
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await FolderService.updateFolder(folder, { name: 'Reports' });
+ * } catch (error) {
+ *   if (error instanceof ValidationError) {
+ *     return NextResponse.json({ error: error.message }, { status: error.status });
+ *   }
+ *   throw error;
+ * }
+ * ```
+ *
+ * @remarks
+ * - `400` the request is invalid (empty name, moving a folder into itself, ...)
+ * - `409` the request conflicts with existing data (duplicate name in the target folder)
+ * - `413` the request is too large to process (e.g. an archive over the extraction limits)
+ * - `410` the resource is used up (e.g. a share link that has reached its download limit)
+ */
+export class ValidationError extends Error {
+    /**
+     * Creates a new ValidationError instance.
+     *
+     * @param message - Human-readable error message returned to the client
+     * @param status - HTTP status code the route should respond with
+     */
+    constructor(
+        message: string,
+        public status: 400 | 409 | 410 | 413
+    ) {
+        super(message);
+        this.name = 'ValidationError';
+    }
+}
+
+/**
+ * Error thrown when a client has made too many attempts and must wait, e.g. after
+ * repeatedly entering the wrong password for a share link.
+ *
+ * @extends Error
+ *
+ * @remarks
+ * Routes respond with status `429` and a `Retry-After` header of
+ * {@link RateLimitError.retryAfterSeconds}.
+ */
+export class RateLimitError extends Error {
+    /** HTTP status code the route should respond with */
+    public status = 429 as const;
+
+    /**
+     * Creates a new RateLimitError instance.
+     *
+     * @param message - Human-readable error message returned to the client
+     * @param retryAfterSeconds - Seconds until the client may try again
+     */
+    constructor(
+        message: string,
+        public retryAfterSeconds: number
+    ) {
+        super(message);
+        this.name = 'RateLimitError';
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Which kind of in-browser preview suits a file.
+ *
+ * The kind follows the file's extension, like the icons of {@link FolderGrid}; the
+ * browser decides whether it can actually play or display the content.
+ *
+ * @module lib/file-preview
+ */
+import { languageOf } from "@/lib/syntax-highlight";
+
+/**
+ * How a file is previewed: shown as an image, embedded as a PDF, played, or read as
+ * text (plain, Markdown or highlighted code).
+ */
+export type PreviewKind = "image" | "pdf" | "audio" | "video" | "markdown" | "code" | "text";
+
+const PREVIEW_EXTENSIONS: [PreviewKind, string[]][] = [
+    ["image", ["png", "jpg", "jpeg", "gif", "webp", "avif", "bmp", "ico"]],
+    ["pdf", ["pdf"]],
+    ["audio", ["mp3", "wav", "ogg", "oga", "m4a", "flac", "aac", "opus"]],
+    ["video", ["mp4", "webm", "mov", "m4v", "ogv"]],
+    ["markdown", ["md", "markdown"]],
+    ["text", ["txt", "log", "csv", "tsv", "ini", "cfg", "conf", "env"]],
+];
+
+/**
+ * Picks the preview of a file.
+ *
+ * @param fileName - Name of the file
+ * @returns The kind of preview, or null if the file cannot be previewed
+ *
+ * @example
+ * ```typescript
+ * getPreviewKind('photo.JPG');   // => 'image'
+ * getPreviewKind('main.go');     // => 'code'
+ * getPreviewKind('archive.zip'); // => null
+ * ```
+ *
+ * @remarks
+ * SVG and HTML files are previewed as code rather than rendered, since they may
+ * contain scripts.
+ */
+export function getPreviewKind(fileName: string): PreviewKind | null {
+    const extension = fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : "";
+    const kind = PREVIEW_EXTENSIONS.find(([, extensions]) => extensions.includes(extension))?.[0];
+    if (kind) return kind;
+    return languageOf(fileName) ? "code" : null;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { parseInline, parseMarkdown } from "./markdown";
+
+describe("parseMarkdown", () => {
+    it("parses headings, paragraphs, rules and fenced code", () => {
+        expect(parseMarkdown("# Title #\n\nFirst line\nsecond line\n\n---\n```ts\nconst a = 1;\n```")).toEqual([
+            { type: "heading", level: 1, children: [{ type: "text", text: "Title" }] },
+            { type: "paragraph", children: [{ type: "text", text: "First line second line" }] },
+            { type: "rule" },
+            { type: "code", language: "ts", text: "const a = 1;" },
+        ]);
+    });
+
+    it("parses lists with continuation lines and block quotes", () => {
+        expect(parseMarkdown("3. three\n   more\n4. four\n\n- a\n* b\n\n> quoted\n> # heading")).toEqual([
+            {
+                type: "list",
+                ordered: true,
+                start: 3,
+                items: [[{ type: "text", text: "three more" }], [{ type: "text", text: "four" }]],
+            },
+            { type: "list", ordered: false, start: 1, items: [[{ type: "text", text: "a" }], [{ type: "text", text: "b" }]] },
+            {
+                type: "quote",
+                children: [
+                    { type: "paragraph", children: [{ type: "text", text: "quoted" }] },
+                    { type: "heading", level: 1, children: [{ type: "text", text: "heading" }] },
+                ],
+            },
+        ]);
+    });
+
+    it("runs an unclosed code fence to the end and keeps HTML as text", () => {
+        expect(parseMarkdown("<script>alert(1)</script>\n~~~\n# not a heading")).toEqual([
+            { type: "paragraph", children: [{ type: "text", text: "<script>alert(1)</script>" }] },
+            { type: "code", language: "", text: "# not a heading" },
+        ]);
+    });
+});
+
+describe("parseInline", () => {
+    it("parses code, emphasis and links", () => {
+        expect(parseInline("Use `a*b*`, **bold _and em_** or [docs](https://example.com)")).toEqual([
+            { type: "text", text: "Use " },
+            { type: "code", text: "a*b*" },
+            { type: "text", text: ", " },
+            { type: "strong", children: [{ type: "text", text: "bold " }, { type: "em", children: [{ type: "text", text: "and em" }] }] },
+            { type: "text", text: " or " },
+            { type: "link", href: "https://example.com", children: [{ type: "text", text: "docs" }] },
+        ]);
+    });
+
+    it("leaves underscores inside words alone", () => {
+        expect(parseInline("snake_case_name")).toEqual([{ type: "text", text: "snake_case_name" }]);
+    });
+
+    it("turns images into links and drops unsafe link targets", () => {
+        expect(parseInline("![logo](./logo.png) [x](javascript:alert(1)) <mailto:a@b.c>")).toEqual([
+            { type: "link", href: "./logo.png", children: [{ type: "text", text: "logo" }] },
+            { type: "text", text: " x) " },
+            { type: "link", href: "mailto:a@b.c", children: [{ type: "text", text: "mailto:a@b.c" }] },
+        ]);
+    });
+});
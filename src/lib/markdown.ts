@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Minimal Markdown parser for file previews.
+ *
+ * Parses the common subset of Markdown (headings, paragraphs, lists, block quotes,
+ * fenced code, rules, and inline code, emphasis and links) into a small syntax tree
+ * that the preview renders as React elements. Raw HTML is never interpreted: it stays
+ * text, so a previewed file cannot inject markup or scripts.
+ *
+ * @module lib/markdown
+ */
+
+/**
+ * A piece of inline content inside a block.
+ */
+export type MarkdownInline =
+    | { type: "text", text: string }
+    | { type: "code", text: string }
+    | { type: "strong" | "em", children: MarkdownInline[] }
+    | { type: "link", href: string, children: MarkdownInline[] };
+
+/**
+ * A block of a Markdown document.
+ */
+export type MarkdownBlock =
+    | { type: "heading", level: 1 | 2 | 3 | 4 | 5 | 6, children: MarkdownInline[] }
+    | { type: "paragraph", children: MarkdownInline[] }
+    | { type: "code", language: string, text: string }
+    | { type: "quote", children: MarkdownBlock[] }
+    | { type: "list", ordered: boolean, start: number, items: MarkdownInline[][] }
+    | { type: "rule" };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#-]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^ {0,3}([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+const INLINE = new RegExp([
+    /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/.source,       // 1, 2: code span
+    /\*\*(?=\S)([\s\S]*?\S)\*\*/.source,                 // 3: strong
+    /__(?=\S)([\s\S]*?\S)__/.source,                     // 4: strong
+    /\*(?=\S)([\s\S]*?\S)\*/.source,                     // 5: emphasis
+    /(?<![\p{L}\p{N}])_(?=\S)([\s\S]*?\S)_(?![\p{L}\p{N}])/u.source, // 6: emphasis
+    /!?\[([^\]]*)\]\(\s*<?([^\s)>]*)>?(?:\s+"[^"]*")?\s*\)/.source, // 7, 8: link or image
+    /<((?:https?:\/\/|mailto:)[^\s>]+)>/.source,         // 9: autolink
+].join("|"), "gu");
+
+/**
+ * Whether a link target may be rendered as a link: web and mail addresses, and
+ * relative ones, but not `javascript:` or other schemes.
+ */
+function isSafeHref(href: string): boolean {
+    return /^(?:https?:|mailto:)/i.test(href) || !/^[^/?#]*:/.test(href);
+}
+
+/**
+ * Parses the inline content of a block.
+ *
+ * @param text - The text of the block, without its block markers
+ * @returns The inline nodes
+ *
+ * @remarks
+ * Images become links to the image, so previews never load remote content; links to
+ * unsafe targets become their plain text.
+ */
+export function parseInline(text: string): MarkdownInline[] {
+    const nodes: MarkdownInline[] = [];
+    const pushText = (value: string) => {
+        if (!value) return;
+        const previous = nodes[nodes.length - 1];
+        if (previous?.type === "text") previous.text += value;
+        else nodes.push({ type: "text", text: value });
+    };
+
+    let last = 0;
+    for (const match of text.matchAll(INLINE)) {
+        pushText(text.slice(last, match.index));
+        last = match.index + match[0].length;
+
+        if (match[2] !== undefined) {
+            nodes.push({ type: "code", text: match[2].replace(/^ (.+) $/, "$1") });
+        } else if (match[3] !== undefined || match[4] !== undefined) {
+            nodes.push({ type: "strong", children: parseInline(match[3] ?? match[4]) });
+        } else if (match[5] !== undefined || match[6] !== undefined) {
+            nodes.push({ type: "em", children: parseInline(match[5] ?? match[6]) });
+        } else if (match[8] !== undefined) {
+            const label = match[7] || match[8];
+            if (match[8] && isSafeHref(match[8])) nodes.push({ type: "link", href: match[8], children: parseInline(label) });
+            else pushText(label);
+        } else {
+            nodes.push({ type: "link", href: match[9], children: [{ type: "text", text: match[9] }] });
+        }
+    }
+    pushText(text.slice(last));
+    return nodes;
+}
+
+/**
+ * Whether a line starts a block other than a paragraph, which ends a paragraph.
+ */
+function startsBlock(line: string): boolean {
+    return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+/**
+ * Parses a Markdown document.
+ *
+ * @param markdown - The Markdown text
+ * @returns The blocks of the document, in order
+ *
+ * @example
+ * ```typescript
+ * parseMarkdown('# Notes\n\nSee **this**.');
+ * // => [
+ * //   { type: 'heading', level: 1, children: [{ type: 'text', text: 'Notes' }] },
+ * //   { type: 'paragraph', children: [{ type: 'text', text: 'See ' }, { type: 'strong', ... }, ...] }
+ * // ]
+ * ```
+ *
+ * @remarks
+ * - An unclosed code fence runs to the end of the document
+ * - List items may continue on indented lines; nested lists are kept as the text of
+ *   their item
+ * - Lines of a paragraph are joined with spaces
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+    const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+    const blocks: MarkdownBlock[] = [];
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+            i++;
+            blocks.push({ type: "code", language: fence[2].toLowerCase(), text: code.join("\n") });
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            const level = heading[1].length as 1 | 2 | 3 | 4 | 5 | 6;
+            blocks.push({ type: "heading", level, children: parseInline(heading[2] ?? "") });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ type: "rule" });
+            i++;
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ""));
+            blocks.push({ type: "quote", children: parseMarkdown(quoted.join("\n")) });
+            continue;
+        }
+
+        const first = LIST_ITEM.exec(line);
+        if (first) {
+            const ordered = /\d/.test(first[1]);
+            const items: string[] = [];
+            while (i < lines.length) {
+                const item = LIST_ITEM.exec(lines[i]);
+                if (item && /\d/.test(item[1]) === ordered && (items.length === 0 || !/^\s{2,}/.test(lines[i]))) {
+                    items.push(item[2]);
+                } else if (lines[i].trim() && (/^\s/.test(lines[i]) || !startsBlock(lines[i]))) {
+                    items[items.length - 1] += ` ${lines[i].trim()}`;
+                } else {
+                    break;
+                }
+                i++;
+            }
+            blocks.push({
+                type: "list",
+                ordered,
+                start: ordered ? parseInt(first[1], 10) : 1,
+                items: items.map((item) => parseInline(item)),
+            });
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+            paragraph.push(lines[i++].trim());
+        }
+        blocks.push({ type: "paragraph", children: parseInline(paragraph.join(" ")) });
+    }
+
+    return blocks;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { uploadInParts, type MultipartUploadApi } from "./multipart-upload";
+import { ApiError } from "./api-client";
+import { type File } from "@/types/types";
+
+const pendingFile = { id: "file-1", file_name: "video.mp4", size: 10 } as File;
+const content = new Blob(["0123456789"]);
+
+/** An API for a 10-byte file split into 4-byte parts, recording stored part sizes in `stored`. */
+const fakeApi = (stored: Map<number, number> = new Map()) => {
+    const api = {
+        create: vi.fn<MultipartUploadApi["create"]>(() => Promise.resolve({ file: pendingFile, part_size: 4, part_count: 3 })),
+        listParts: vi.fn<MultipartUploadApi["listParts"]>(() => Promise.resolve({
+            file: pendingFile, part_size: 4, part_count: 3,
+            parts: [...stored].map(([part_number, size]) => ({ part_number, size })),
+        })),
+        signParts: vi.fn<MultipartUploadApi["signParts"]>((fileId, partNumbers) => Promise.resolve(
+            partNumbers.map((part_number) => ({ part_number, url: `https://upload/${part_number}`, method: "PUT" as const, headers: {} })))),
+        putPart: vi.fn<MultipartUploadApi["putPart"]>(async (request, body, { onProgress }) => {
+            stored.set(request.part_number, body.size);
+            onProgress(1);
+        }),
+        complete: vi.fn<MultipartUploadApi["complete"]>(() => Promise.resolve({ ...pendingFile, pending_until: null })),
+    };
+    return { api, stored };
+};
+
+describe("uploadInParts", () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("uploads every part, completes the upload and forgets it", async () => {
+        const { api, stored } = fakeApi();
+        const onProgress = vi.fn();
+
+        const file = await uploadInParts(content, api, { resumeKey: "key", onProgress });
+
+        expect(file.pending_until).toBeNull();
+        expect([...stored].sort()).toEqual([[1, 4], [2, 4], [3, 2]]);
+        expect(api.complete).toHaveBeenCalledWith("file-1");
+        expect(onProgress).toHaveBeenLastCalledWith(1);
+        expect(localStorage.getItem("key")).toBeNull();
+    });
+
+    it("resumes a remembered upload, sending only the missing parts", async () => {
+        localStorage.setItem("key", "file-1");
+        const { api } = fakeApi(new Map([[1, 4], [3, 1]]));
+
+        await uploadInParts(content, api, { resumeKey: "key" });
+
+        expect(api.create).not.toHaveBeenCalled();
+        expect(api.signParts).toHaveBeenCalledWith("file-1", [2, 3]);
+        expect(api.putPart.mock.calls.map(([request]) => request.part_number).sort()).toEqual([2, 3]);
+    });
+
+    it("starts over when the remembered upload no longer exists", async () => {
+        localStorage.setItem("key", "file-gone");
+        const { api } = fakeApi();
+        api.listParts.mockRejectedValueOnce(new ApiError("Not found", 404));
+
+        await uploadInParts(content, api, { resumeKey: "key" });
+
+        expect(api.create).toHaveBeenCalledTimes(1);
+        expect(api.putPart).toHaveBeenCalledTimes(3);
+    });
+
+    it("retries a failed part with a fresh URL", async () => {
+        vi.useFakeTimers();
+        const { api } = fakeApi();
+        api.putPart.mockRejectedValueOnce(new ApiError("Network error occured", 0));
+
+        const upload = uploadInParts(content, api, { resumeKey: "key" });
+        await vi.runAllTimersAsync();
+        await upload;
+
+        expect(api.putPart).toHaveBeenCalledTimes(4);
+        expect(api.signParts).toHaveBeenCalledWith("file-1", [1]);
+        expect(api.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it("gives up on a part that keeps failing but remembers the upload", async () => {
+        vi.useFakeTimers();
+        const { api } = fakeApi();
+        api.putPart.mockRejectedValue(new ApiError("Network error occured", 0));
+
+        const upload = uploadInParts(content, api, { resumeKey: "key" }).catch((error) => error);
+        await vi.runAllTimersAsync();
+
+        expect(await upload).toBeInstanceOf(ApiError);
+        expect(api.complete).not.toHaveBeenCalled();
+        expect(localStorage.getItem("key")).toBe("file-1");
+    });
+});
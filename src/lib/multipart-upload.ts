@@ -0,0 +1,257 @@
+import { ApiError } from "@/lib/api-client";
+import { type File, type MultipartUpload, type MultipartUploadState, type UploadPartRequest } from "@/types/types";
+
+/**
+ * @fileoverview Client side of resumable multipart uploads.
+ *
+ * Large files are split into the parts the server asks for and each part is sent
+ * straight to storage, a few at a time. A failed part is retried on its own, with a
+ * fresh URL, so a flaky connection only costs the part in flight. The pending file's
+ * ID is kept in `localStorage`, so after a page reload the same file picks up where it
+ * stopped instead of starting over.
+ *
+ * The functions talking to the API are passed in, which keeps this module independent
+ * of the API client; {@link FileApiService.uploadFileMultipart} wires them up.
+ *
+ * @module lib/multipart-upload
+ */
+
+/**
+ * Files at least this large (64 MiB) are uploaded in parts.
+ */
+export const MULTIPART_UPLOAD_THRESHOLD = 64 * 1024 * 1024;
+
+/**
+ * Parts of the same file uploaded at once.
+ */
+const PART_CONCURRENCY = 3;
+
+/**
+ * Part URLs requested per call to the API.
+ */
+const PARTS_PER_BATCH = 30;
+
+/**
+ * Attempts made for each part before the upload fails.
+ */
+const MAX_PART_ATTEMPTS = 4;
+
+/**
+ * Delay before the first retry; doubled for every further attempt.
+ */
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Prefix of the `localStorage` keys holding resumable uploads.
+ */
+const STORAGE_PREFIX = "multipart-upload:";
+
+/**
+ * The API calls a multipart upload is made of.
+ */
+export type MultipartUploadApi = {
+    /** Starts a new multipart upload for the file */
+    create: () => Promise<MultipartUpload>;
+    /** Lists the parts already stored for a pending file */
+    listParts: (fileId: string) => Promise<MultipartUploadState>;
+    /** Requests signed URLs for the given parts */
+    signParts: (fileId: string, partNumbers: number[]) => Promise<UploadPartRequest[]>;
+    /** Sends one part's bytes to its signed URL */
+    putPart: (request: UploadPartRequest, body: Blob, options: { onProgress: (progress: number) => void, signal?: AbortSignal }) => Promise<unknown>;
+    /** Finishes the upload once every part is stored */
+    complete: (fileId: string) => Promise<File>;
+};
+
+/**
+ * Builds the key under which an upload of `file` into `folderId` is remembered.
+ * The same file picked again after a reload produces the same key.
+ *
+ * @param folderId - The destination folder
+ * @param file - The file being uploaded
+ * @returns A key for {@link uploadInParts}
+ */
+export function getResumeKey(folderId: string, file: globalThis.File): string {
+    return `${STORAGE_PREFIX}${folderId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/**
+ * Uploads a file in parts, resuming an earlier attempt stored under `resumeKey`.
+ *
+ * @param file - The content to upload
+ * @param api - The API calls to use
+ * @param options - The key remembering this upload, a progress callback (0 to 1) and
+ * an abort signal
+ * @returns A promise resolving to the completed file
+ *
+ * @throws {ApiError} When a part keeps failing, or the API rejects the upload
+ *
+ * @example
+ * ```typescript
+ * const uploaded = await uploadInParts(file, api, {
+ *   resumeKey: getResumeKey(folderId, file),
+ *   onProgress: (progress) => setProgress(progress),
+ *   signal: controller.signal,
+ * });
+ * ```
+ *
+ * @remarks
+ * - Aborting keeps the remembered upload, so starting the same file again resumes it
+ * - Stored parts with an unexpected size are uploaded again
+ * - The remembered upload is forgotten once it completes, or when the server no longer knows it
+ */
+export async function uploadInParts(
+    file: Blob,
+    api: MultipartUploadApi,
+    options: { resumeKey: string, onProgress?: (progress: number) => void, signal?: AbortSignal }
+): Promise<File> {
+    const { resumeKey, onProgress, signal } = options;
+
+    let state = await resumeUpload(api, resumeKey);
+    if (!state) {
+        const created = await api.create();
+        rememberUpload(resumeKey, created.file.id);
+        state = { ...created, parts: [] };
+    }
+
+    const { file: pending, part_size, part_count } = state;
+    const partBounds = (partNumber: number) => {
+        const start = (partNumber - 1) * part_size;
+        return { start, end: Math.min(start + part_size, file.size) };
+    };
+
+    const sent = new Map<number, number>();
+    const reportProgress = () => {
+        let total = 0;
+        sent.forEach((bytes) => total += bytes);
+        onProgress?.(file.size > 0 ? total / file.size : 1);
+    };
+
+    for (const part of state.parts) {
+        const { start, end } = partBounds(part.part_number);
+        if (part.size === end - start) sent.set(part.part_number, part.size);
+    }
+    reportProgress();
+
+    const missing: number[] = [];
+    for (let partNumber = 1; partNumber <= part_count; partNumber++) {
+        if (!sent.has(partNumber)) missing.push(partNumber);
+    }
+
+    for (let i = 0; i < missing.length; i += PARTS_PER_BATCH) {
+        const batch = missing.slice(i, i + PARTS_PER_BATCH);
+        const requests = new Map((await api.signParts(pending.id, batch)).map((request) => [request.part_number, request]));
+
+        let next = 0;
+        let failed = false;
+        const worker = async () => {
+            // once a part has failed for good, the other workers stop picking up parts
+            while (!failed && next < batch.length) {
+                const partNumber = batch[next++];
+                const { start, end } = partBounds(partNumber);
+                const body = file.slice(start, end);
+
+                await withRetry(async (attempt) => {
+                    // URLs may have expired by the time a part is retried
+                    const request = attempt === 1 ? requests.get(partNumber)! : (await api.signParts(pending.id, [partNumber]))[0];
+                    sent.set(partNumber, 0);
+                    await api.putPart(request, body, {
+                        onProgress: (progress) => {
+                            sent.set(partNumber, progress * body.size);
+                            reportProgress();
+                        },
+                        signal,
+                    });
+                    sent.set(partNumber, body.size);
+                    reportProgress();
+                }, signal).catch((error) => {
+                    failed = true;
+                    throw error;
+                });
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, batch.length) }, worker));
+    }
+
+    const completed = await api.complete(pending.id);
+    forgetUpload(resumeKey);
+    return completed;
+}
+
+/**
+ * Looks up a remembered upload and the parts the server has stored for it.
+ * Returns null when there is none, or it no longer exists on the server.
+ */
+async function resumeUpload(api: MultipartUploadApi, resumeKey: string): Promise<MultipartUploadState | null> {
+    const fileId = readStorage(resumeKey);
+    if (!fileId) return null;
+
+    try {
+        return await api.listParts(fileId);
+    } catch (error) {
+        // completed, aborted or purged in the meantime
+        if (error instanceof ApiError && (error.status === 400 || error.status === 404)) {
+            forgetUpload(resumeKey);
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Runs `task` until it succeeds, waiting longer after each failure.
+ * Aborts are never retried.
+ */
+async function withRetry(task: (attempt: number) => Promise<void>, signal?: AbortSignal): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await task(attempt);
+            return;
+        } catch (error) {
+            if (signal?.aborted || attempt >= MAX_PART_ATTEMPTS) throw error;
+            await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+        }
+    }
+}
+
+/**
+ * Waits for `ms` milliseconds, rejecting early if `signal` is aborted.
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new ApiError('Upload cancelled', 0));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// localStorage may be unavailable (private browsing, storage quota); uploads then just don't resume
+
+function readStorage(key: string): string | null {
+    try {
+        return localStorage.getItem(key);
+    } catch {
+        return null;
+    }
+}
+
+function rememberUpload(key: string, fileId: string) {
+    try {
+        localStorage.setItem(key, fileId);
+    } catch {
+        // ignored, see above
+    }
+}
+
+function forgetUpload(key: string) {
+    try {
+        localStorage.removeItem(key);
+    } catch {
+        // ignored, see above
+    }
+}
@@ -0,0 +1,39 @@
+import ConfigSingleton from "./config";
+import s3Client from "./s3-client";
+import { S3StorageDriver } from "./storage/s3-storage-driver";
+import { LocalStorageDriver } from "./storage/local-storage-driver";
+import { type IStorageDriver } from "@/interfaces/storage-driver.interface";
+
+/**
+ * @fileoverview Storage driver singleton for file content operations.
+ *
+ * This module picks the storage backend once, based on `STORAGE_DRIVER`, and exports
+ * it for all services. Services should go through this driver rather than sending
+ * S3 commands themselves so the app can run without AWS.
+ *
+ * @module lib/storage-client
+ */
+
+const config = ConfigSingleton.getInstance().config;
+
+/**
+ * Singleton storage driver selected by {@link ConfigSingleton}.
+ *
+ * - `STORAGE_DRIVER=s3` (default): {@link S3StorageDriver} on `APPLICATION_BUCKET_NAME`
+ * - `STORAGE_DRIVER=local`: {@link LocalStorageDriver} under `LOCAL_STORAGE_ROOT`
+ *
+ * @constant {IStorageDriver} storageDriver
+ *
+ * @example
+ * ```typescript
+ * import storageDriver from '@/lib/storage-client';
+ *
+ * await storageDriver.putObject(key, buffer, { contentType: file.type });
+ * const url = await storageDriver.getSignedUrl(key, 3600);
+ * ```
+ */
+const storageDriver: IStorageDriver = config.STORAGE_DRIVER === "local"
+    ? new LocalStorageDriver(config.LOCAL_STORAGE_ROOT, config.STORAGE_SIGNING_SECRET, config.NEXT_PUBLIC_API_URL)
+    : new S3StorageDriver(s3Client, config.APPLICATION_BUCKET_NAME, config.AWS_REGION);
+
+export default storageDriver;
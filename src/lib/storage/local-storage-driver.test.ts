@@ -0,0 +1,151 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { LocalStorageDriver } from "./local-storage-driver";
+
+const readAll = async (stream: ReadableStream<Uint8Array>) =>
+    Buffer.from(await new Response(stream).arrayBuffer()).toString("utf-8");
+
+describe("LocalStorageDriver", () => {
+    let root: string;
+    let driver: LocalStorageDriver;
+
+    beforeEach(async () => {
+        root = await mkdtemp(path.join(tmpdir(), "storage-driver-"));
+        driver = new LocalStorageDriver(root, "test-secret", "/api");
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await rm(root, { recursive: true, force: true });
+    });
+
+    it("writes, reads and describes an object", async () => {
+        await driver.putObject("root_user_1/notes.txt", "hello", { contentType: "text/plain" });
+
+        expect(await readAll(await driver.getObjectStream("root_user_1/notes.txt"))).toBe("hello");
+        expect(await driver.headObject("root_user_1/notes.txt")).toMatchObject({
+            size: 5,
+            contentType: "text/plain",
+        });
+    });
+
+    it("refuses to be created without a signing secret", () => {
+        expect(() => new LocalStorageDriver(root, "", "/api")).toThrow("signing secret");
+    });
+
+    it("returns null from headObject for a missing key", async () => {
+        expect(await driver.headObject("root_user_1/missing.txt")).toBeNull();
+    });
+
+    it("deletes single and multiple objects", async () => {
+        await driver.putObject("a/1.txt", "1");
+        await driver.putObject("a/2.txt", "2");
+        await driver.putObject("a/3.txt", "3");
+
+        await driver.deleteObject("a/1.txt");
+        await driver.deleteObjects(["a/2.txt", "a/3.txt", "a/never-existed.txt"]);
+
+        expect(await driver.headObject("a/1.txt")).toBeNull();
+        expect(await driver.headObject("a/2.txt")).toBeNull();
+        expect(await driver.headObject("a/3.txt")).toBeNull();
+    });
+
+    it("copies an object along with its content type", async () => {
+        await driver.putObject("a/source.txt", "copy me", { contentType: "text/plain" });
+
+        await driver.copyObject("a/source.txt", "b/nested/dest.txt");
+
+        expect(await readAll(await driver.getObjectStream("b/nested/dest.txt"))).toBe("copy me");
+        expect((await driver.headObject("b/nested/dest.txt"))?.contentType).toBe("text/plain");
+        expect(await driver.headObject("a/source.txt")).not.toBeNull();
+    });
+
+    it("rejects keys that escape the storage root", async () => {
+        await expect(driver.putObject("../outside.txt", "x")).rejects.toThrow("Invalid storage key");
+    });
+
+    it("signs URLs that verify until they expire", async () => {
+        const url = new URL(await driver.getSignedUrl("root_user_1/my file.txt", 60), "http://localhost");
+        const expires = url.searchParams.get("expires");
+        const signature = url.searchParams.get("signature");
+
+        expect(url.pathname).toBe("/api/storage/root_user_1/my%20file.txt");
+        expect(driver.verifySignedUrl("root_user_1/my file.txt", expires, signature)).toBe(true);
+        expect(driver.verifySignedUrl("root_user_1/other.txt", expires, signature)).toBe(false);
+        expect(driver.verifySignedUrl("root_user_1/my file.txt", expires, "0".repeat(64))).toBe(false);
+
+        vi.useFakeTimers();
+        vi.setSystemTime(Date.now() + 120_000);
+        expect(driver.verifySignedUrl("root_user_1/my file.txt", expires, signature)).toBe(false);
+    });
+
+    it("signs the download file name so it cannot be changed", async () => {
+        const url = new URL(await driver.getSignedUrl("root_user_1/a.txt", 60, { fileName: "report v2.txt" }), "http://localhost");
+        const expires = url.searchParams.get("expires");
+        const signature = url.searchParams.get("signature");
+
+        expect(url.searchParams.get("name")).toBe("report v2.txt");
+        expect(driver.verifySignedUrl("root_user_1/a.txt", expires, signature, "GET", undefined, "report v2.txt")).toBe(true);
+        expect(driver.verifySignedUrl("root_user_1/a.txt", expires, signature, "GET", undefined, "evil.html")).toBe(false);
+        expect(driver.verifySignedUrl("root_user_1/a.txt", expires, signature)).toBe(false);
+    });
+
+    it("signs upload URLs that only verify for PUT", async () => {
+        const upload = await driver.getSignedUploadUrl("root_user_1/a.txt", 60, { contentType: "text/plain" });
+        const url = new URL(upload.url, "http://localhost");
+        const expires = url.searchParams.get("expires");
+        const signature = url.searchParams.get("signature");
+
+        expect(upload).toMatchObject({ method: "PUT", headers: { "Content-Type": "text/plain" } });
+        expect(driver.verifySignedUrl("root_user_1/a.txt", expires, signature, "PUT")).toBe(true);
+        expect(driver.verifySignedUrl("root_user_1/a.txt", expires, signature)).toBe(false);
+
+        const download = new URL(await driver.getSignedUrl("root_user_1/a.txt", 60), "http://localhost");
+        expect(driver.verifySignedUrl("root_user_1/a.txt", download.searchParams.get("expires"), download.searchParams.get("signature"), "PUT")).toBe(false);
+    });
+
+    it("writes an object from a stream", async () => {
+        await driver.writeObjectStream("root_user_1/streamed.txt", new Response("streamed content").body!, { contentType: "text/plain" });
+
+        expect(await readAll(await driver.getObjectStream("root_user_1/streamed.txt"))).toBe("streamed content");
+        expect(await driver.headObject("root_user_1/streamed.txt")).toMatchObject({ size: 16, contentType: "text/plain" });
+    });
+
+    it("assembles multipart uploads from parts uploaded in any order", async () => {
+        const uploadId = await driver.createMultipartUpload("root_user_1/big.bin", { contentType: "application/octet-stream" });
+        await driver.writeUploadPart("root_user_1/big.bin", { uploadId, partNumber: 2 }, new Response("world").body!);
+        await driver.writeUploadPart("root_user_1/big.bin", { uploadId, partNumber: 1 }, new Response("hello ").body!);
+
+        const parts = await driver.listUploadedParts("root_user_1/big.bin", uploadId);
+        expect(parts.map(({ partNumber, size }) => ({ partNumber, size }))).toEqual([
+            { partNumber: 1, size: 6 },
+            { partNumber: 2, size: 5 },
+        ]);
+
+        await driver.completeMultipartUpload("root_user_1/big.bin", uploadId, parts);
+
+        expect(await readAll(await driver.getObjectStream("root_user_1/big.bin"))).toBe("hello world");
+        expect((await driver.headObject("root_user_1/big.bin"))?.contentType).toBe("application/octet-stream");
+        await expect(driver.listUploadedParts("root_user_1/big.bin", uploadId)).rejects.toThrow("No such multipart upload");
+    });
+
+    it("signs part URLs for their upload and part number only", async () => {
+        const uploadId = await driver.createMultipartUpload("root_user_1/big.bin");
+        const url = new URL((await driver.getSignedUploadPartUrl("root_user_1/big.bin", uploadId, 3, 60)).url, "http://localhost");
+        const expires = url.searchParams.get("expires");
+        const signature = url.searchParams.get("signature");
+
+        expect(url.searchParams.get("uploadId")).toBe(uploadId);
+        expect(url.searchParams.get("partNumber")).toBe("3");
+        expect(driver.verifySignedUrl("root_user_1/big.bin", expires, signature, "PUT", { uploadId, partNumber: 3 })).toBe(true);
+        expect(driver.verifySignedUrl("root_user_1/big.bin", expires, signature, "PUT", { uploadId, partNumber: 4 })).toBe(false);
+        expect(driver.verifySignedUrl("root_user_1/big.bin", expires, signature, "PUT")).toBe(false);
+
+        await driver.abortMultipartUpload("root_user_1/big.bin", uploadId);
+        await expect(driver.writeUploadPart("root_user_1/big.bin", { uploadId, partNumber: 3 }, new Response("x").body!))
+            .rejects.toThrow("No such multipart upload");
+    });
+});
@@ -0,0 +1,379 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { copyFile, mkdir, readdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { type ReadableStream as NodeReadableStream } from "stream/web";
+import { finished, pipeline } from "stream/promises";
+import {
+    type IStorageDriver, type PutObjectOptions, type SignedUpload, type SignedUrlOptions,
+    type StorageObjectInfo, type UploadedPart,
+} from "@/interfaces/storage-driver.interface";
+
+/**
+ * @fileoverview Local filesystem implementation of the storage driver.
+ *
+ * Used for offline development and single-box self-hosting. Objects are written to
+ * `<root>/objects/<key>` and their content type/metadata to a JSON sidecar at
+ * `<root>/metadata/<key>.json`. Parts of multipart uploads are kept under
+ * `<root>/multipart/<uploadId>/` until the upload is completed. Downloads and direct
+ * uploads are served by the `/api/storage/[...key]` route using HMAC-signed, expiring URLs.
+ *
+ * @module lib/storage/local-storage-driver
+ */
+
+/**
+ * Shape of the JSON sidecar stored next to each object.
+ */
+interface LocalObjectMetadata {
+    contentType?: string;
+    metadata?: Record<string, string>;
+}
+
+/**
+ * Shape of the JSON record describing a multipart upload in progress.
+ */
+interface LocalMultipartUpload {
+    key: string;
+    contentType?: string;
+}
+
+/**
+ * Identifies one part of a multipart upload in a signed URL.
+ */
+export interface SignedPart {
+    uploadId: string;
+    partNumber: number;
+}
+
+/**
+ * Storage driver backed by a directory on the local filesystem.
+ *
+ * @implements {IStorageDriver}
+ *
+ * @example
+ * ```typescript
+ * const driver = new LocalStorageDriver('.storage', 'secret', '/api');
+ * await driver.putObject('root_user_abc/a.txt', Buffer.from('hi'), { contentType: 'text/plain' });
+ *
+ * // => /api/storage/root_user_abc/a.txt?expires=1700000000&signature=...
+ * const url = await driver.getSignedUrl('root_user_abc/a.txt', 3600);
+ * ```
+ *
+ * @remarks
+ * - Keys are resolved inside the storage root; keys escaping it (e.g. `../`) are rejected
+ * - Signed URLs are only valid for the secret they were generated with
+ * - Download and upload URLs are signed differently, so one cannot be used as the other
+ * - A download file name travels as a `name` query param, covered by the signature
+ * - Part upload URLs are signed for their upload ID and part number
+ */
+export class LocalStorageDriver implements IStorageDriver {
+    private readonly objectsRoot: string;
+    private readonly metadataRoot: string;
+    private readonly multipartRoot: string;
+
+    /**
+     * Creates a new LocalStorageDriver.
+     *
+     * @param root - Directory objects are stored under (created on first write)
+     * @param signingSecret - Secret used to sign and verify download URLs
+     * @param apiBaseUrl - Base URL of the API, used to build download URLs (e.g. `/api`)
+     *
+     * @throws {Error} If the signing secret is empty, since anyone could then forge URLs
+     */
+    constructor(
+        root: string,
+        private signingSecret: string,
+        private apiBaseUrl: string,
+    ) {
+        if (!signingSecret) {
+            throw new Error("The local storage driver needs a signing secret");
+        }
+        this.objectsRoot = path.resolve(root, "objects");
+        this.metadataRoot = path.resolve(root, "metadata");
+        this.multipartRoot = path.resolve(root, "multipart");
+    }
+
+    async putObject(key: string, body: Buffer | Uint8Array | string, options: PutObjectOptions = {}): Promise<void> {
+        const objectPath = this.resolveKey(this.objectsRoot, key);
+        const metadataPath = this.resolveKey(this.metadataRoot, `${key}.json`);
+
+        await mkdir(path.dirname(objectPath), { recursive: true });
+        await mkdir(path.dirname(metadataPath), { recursive: true });
+
+        await writeFile(objectPath, body);
+        const sidecar: LocalObjectMetadata = {
+            contentType: options.contentType,
+            metadata: options.metadata,
+        };
+        await writeFile(metadataPath, JSON.stringify(sidecar));
+    }
+
+    async getObjectStream(key: string): Promise<ReadableStream<Uint8Array>> {
+        const objectPath = this.resolveKey(this.objectsRoot, key);
+        // Surface a missing object as a rejected promise rather than a stream error
+        await stat(objectPath);
+        return Readable.toWeb(createReadStream(objectPath)) as ReadableStream<Uint8Array>;
+    }
+
+    async copyObject(sourceKey: string, destinationKey: string): Promise<void> {
+        const destinationPath = this.resolveKey(this.objectsRoot, destinationKey);
+        const sidecar = await this.readMetadata(sourceKey);
+
+        await mkdir(path.dirname(destinationPath), { recursive: true });
+        await copyFile(this.resolveKey(this.objectsRoot, sourceKey), destinationPath);
+
+        const metadataPath = this.resolveKey(this.metadataRoot, `${destinationKey}.json`);
+        await mkdir(path.dirname(metadataPath), { recursive: true });
+        await writeFile(metadataPath, JSON.stringify(sidecar));
+    }
+
+    async deleteObject(key: string): Promise<void> {
+        await rm(this.resolveKey(this.objectsRoot, key), { force: true });
+        await rm(this.resolveKey(this.metadataRoot, `${key}.json`), { force: true });
+    }
+
+    async deleteObjects(keys: string[]): Promise<void> {
+        await Promise.all(keys.map((key) => this.deleteObject(key)));
+    }
+
+    async getSignedUrl(key: string, expiresInSeconds: number, options: SignedUrlOptions = {}): Promise<string> {
+        // the name is signed too, so a link cannot be reused to serve the object under another name
+        const url = this.buildSignedUrl(key, expiresInSeconds, "GET", undefined, options.fileName);
+        return options.fileName ? `${url}&name=${encodeURIComponent(options.fileName)}` : url;
+    }
+
+    async getSignedUploadUrl(key: string, expiresInSeconds: number, options: Pick<PutObjectOptions, "contentType"> = {}): Promise<SignedUpload> {
+        return {
+            url: this.buildSignedUrl(key, expiresInSeconds, "PUT"),
+            method: "PUT",
+            headers: options.contentType ? { "Content-Type": options.contentType } : {},
+        };
+    }
+
+    /**
+     * Writes an object from a stream, as sent to a signed upload URL.
+     *
+     * The content is written to a temporary file first and moved into place once
+     * complete, so an interrupted upload never leaves a truncated object behind.
+     *
+     * @param key - The object key
+     * @param body - The uploaded bytes
+     * @param options - Optional content type and metadata
+     */
+    async writeObjectStream(key: string, body: ReadableStream<Uint8Array>, options: PutObjectOptions = {}): Promise<void> {
+        const objectPath = this.resolveKey(this.objectsRoot, key);
+        const metadataPath = this.resolveKey(this.metadataRoot, `${key}.json`);
+
+        await mkdir(path.dirname(objectPath), { recursive: true });
+        await mkdir(path.dirname(metadataPath), { recursive: true });
+
+        await this.writeAtomically(objectPath, async (partialPath) => {
+            await pipeline(Readable.fromWeb(body as NodeReadableStream<Uint8Array>), createWriteStream(partialPath));
+        });
+
+        const sidecar: LocalObjectMetadata = {
+            contentType: options.contentType,
+            metadata: options.metadata,
+        };
+        await writeFile(metadataPath, JSON.stringify(sidecar));
+    }
+
+    async createMultipartUpload(key: string, options: Pick<PutObjectOptions, "contentType"> = {}): Promise<string> {
+        // validates the key before anything is written
+        this.resolveKey(this.objectsRoot, key);
+
+        const uploadId = randomUUID();
+        const uploadDir = this.resolveKey(this.multipartRoot, uploadId);
+        await mkdir(uploadDir, { recursive: true });
+
+        const record: LocalMultipartUpload = { key, contentType: options.contentType };
+        await writeFile(path.join(uploadDir, "upload.json"), JSON.stringify(record));
+        return uploadId;
+    }
+
+    async getSignedUploadPartUrl(key: string, uploadId: string, partNumber: number, expiresInSeconds: number): Promise<SignedUpload> {
+        return {
+            url: this.buildSignedUrl(key, expiresInSeconds, "PUT", { uploadId, partNumber }),
+            method: "PUT",
+            headers: {},
+        };
+    }
+
+    /**
+     * Writes one part of a multipart upload from a stream, as sent to a signed part URL.
+     *
+     * @param key - The object key the upload was created for
+     * @param part - The upload ID and part number
+     * @param body - The part's bytes
+     * @throws {@link Error} If the upload does not exist or belongs to another key
+     */
+    async writeUploadPart(key: string, part: SignedPart, body: ReadableStream<Uint8Array>): Promise<void> {
+        const uploadDir = await this.resolveMultipartUpload(key, part.uploadId);
+        await this.writeAtomically(path.join(uploadDir, `${part.partNumber}.part`), async (partialPath) => {
+            await pipeline(Readable.fromWeb(body as NodeReadableStream<Uint8Array>), createWriteStream(partialPath));
+        });
+    }
+
+    async listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+        const uploadDir = await this.resolveMultipartUpload(key, uploadId);
+        const parts: UploadedPart[] = [];
+
+        for (const name of await readdir(uploadDir)) {
+            const match = /^(\d+)\.part$/.exec(name);
+            if (!match) continue;
+
+            const stats = await stat(path.join(uploadDir, name));
+            parts.push({
+                partNumber: Number(match[1]),
+                etag: `${stats.size}-${stats.mtimeMs}`,
+                size: stats.size,
+            });
+        }
+        return parts.sort((a, b) => a.partNumber - b.partNumber);
+    }
+
+    async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<void> {
+        const uploadDir = await this.resolveMultipartUpload(key, uploadId);
+        const record = JSON.parse(await readFile(path.join(uploadDir, "upload.json"), "utf-8")) as LocalMultipartUpload;
+        const objectPath = this.resolveKey(this.objectsRoot, key);
+        const metadataPath = this.resolveKey(this.metadataRoot, `${key}.json`);
+
+        await mkdir(path.dirname(objectPath), { recursive: true });
+        await mkdir(path.dirname(metadataPath), { recursive: true });
+
+        await this.writeAtomically(objectPath, async (partialPath) => {
+            const output = createWriteStream(partialPath);
+            try {
+                for (const part of parts) {
+                    await pipeline(createReadStream(path.join(uploadDir, `${part.partNumber}.part`)), output, { end: false });
+                }
+                output.end();
+                await finished(output);
+            } catch (error) {
+                output.destroy();
+                throw error;
+            }
+        });
+
+        const sidecar: LocalObjectMetadata = { contentType: record.contentType };
+        await writeFile(metadataPath, JSON.stringify(sidecar));
+        await rm(uploadDir, { recursive: true, force: true });
+    }
+
+    async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+        await rm(this.resolveKey(this.multipartRoot, uploadId), { recursive: true, force: true });
+    }
+
+    async headObject(key: string): Promise<StorageObjectInfo | null> {
+        try {
+            const stats = await stat(this.resolveKey(this.objectsRoot, key));
+            const sidecar = await this.readMetadata(key);
+            return {
+                size: stats.size,
+                contentType: sidecar.contentType,
+                lastModified: stats.mtime,
+            };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    getObjectLink(key: string): string {
+        return `local://${key}`;
+    }
+
+    /**
+     * Checks a signed download or upload URL's signature and expiry.
+     *
+     * @param key - The object key from the URL path
+     * @param expires - The `expires` query parameter (unix seconds)
+     * @param signature - The `signature` query parameter
+     * @param method - The request method; upload URLs are only valid for `PUT`
+     * @param part - The upload ID and part number, for part upload URLs
+     * @param fileName - The `name` query parameter of download URLs
+     * @returns True if the signature matches and the URL has not expired
+     */
+    verifySignedUrl(key: string, expires: string | null, signature: string | null, method: "GET" | "PUT" = "GET", part?: SignedPart, fileName?: string | null): boolean {
+        if (!expires || !signature) return false;
+
+        const expiresAt = Number(expires);
+        if (!Number.isInteger(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+            return false;
+        }
+
+        const expected = Buffer.from(this.sign(key, expiresAt, method, part, fileName));
+        const actual = Buffer.from(signature);
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+
+    private buildSignedUrl(key: string, expiresInSeconds: number, method: "GET" | "PUT", part?: SignedPart, fileName?: string): string {
+        const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+        const signature = this.sign(key, expires, method, part, fileName);
+        const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+        const partQuery = part ? `uploadId=${part.uploadId}&partNumber=${part.partNumber}&` : "";
+        return `${this.apiBaseUrl}/storage/${encodedKey}?${partQuery}expires=${expires}&signature=${signature}`;
+    }
+
+    private sign(key: string, expires: number, method: "GET" | "PUT", part?: SignedPart, fileName?: string | null): string {
+        // upload signatures carry the method so a download link cannot be used to overwrite the object
+        let payload = method === "GET" ? `${key}:${expires}` : `${key}:${expires}:${method}`;
+        if (part) payload += `:${part.uploadId}:${part.partNumber}`;
+        if (fileName) payload += `:name=${fileName}`;
+        return createHmac("sha256", this.signingSecret)
+            .update(payload)
+            .digest("hex");
+    }
+
+    private async readMetadata(key: string): Promise<LocalObjectMetadata> {
+        try {
+            const raw = await readFile(this.resolveKey(this.metadataRoot, `${key}.json`), "utf-8");
+            return JSON.parse(raw) as LocalObjectMetadata;
+        } catch {
+            return {};
+        }
+    }
+
+    /**
+     * Writes a file through a temporary `.partial` file that is moved into place once
+     * complete, so an interrupted write never leaves a truncated file behind.
+     */
+    private async writeAtomically(filePath: string, write: (partialPath: string) => Promise<void>): Promise<void> {
+        const partialPath = `${filePath}.partial`;
+        try {
+            await write(partialPath);
+        } catch (error) {
+            await rm(partialPath, { force: true });
+            throw error;
+        }
+        await rename(partialPath, filePath);
+    }
+
+    /**
+     * Returns the directory of a multipart upload, checking that it was created for `key`.
+     */
+    private async resolveMultipartUpload(key: string, uploadId: string): Promise<string> {
+        const uploadDir = this.resolveKey(this.multipartRoot, uploadId);
+        try {
+            const record = JSON.parse(await readFile(path.join(uploadDir, "upload.json"), "utf-8")) as LocalMultipartUpload;
+            if (record.key === key) return uploadDir;
+        } catch {
+            // missing or unreadable record; reported below
+        }
+        throw new Error(`No such multipart upload: ${uploadId}`);
+    }
+
+    /**
+     * Maps a key to an absolute path under `base`, rejecting keys that escape it.
+     */
+    private resolveKey(base: string, key: string): string {
+        const resolved = path.resolve(base, key);
+        if (!resolved.startsWith(base + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return resolved;
+    }
+}
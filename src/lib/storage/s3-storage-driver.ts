@@ -0,0 +1,229 @@
+import {
+    PutObjectCommand, GetObjectCommand, CopyObjectCommand,
+    DeleteObjectCommand, DeleteObjectsCommand, HeadObjectCommand,
+    CreateMultipartUploadCommand, UploadPartCommand, ListPartsCommand,
+    CompleteMultipartUploadCommand, AbortMultipartUploadCommand, type S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import {
+    type IStorageDriver, type PutObjectOptions, type SignedUpload, type SignedUrlOptions,
+    type StorageObjectInfo, type UploadedPart,
+} from "@/interfaces/storage-driver.interface";
+
+/**
+ * @fileoverview AWS S3 implementation of the storage driver.
+ *
+ * @module lib/storage/s3-storage-driver
+ */
+
+/**
+ * Maximum number of keys S3 accepts in a single DeleteObjects request.
+ */
+const S3_DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Storage driver backed by an AWS S3 bucket.
+ *
+ * This is the production backend. It wraps the commands the services used to send
+ * directly (`PutObjectCommand`, `DeleteObjectCommand`, `getSignedUrl`, ...) behind
+ * the {@link IStorageDriver} interface.
+ *
+ * @implements {IStorageDriver}
+ *
+ * @example
+ * ```typescript
+ * import s3Client from '@/lib/s3-client';
+ *
+ * const driver = new S3StorageDriver(s3Client, 'my-bucket', 'us-east-1');
+ * await driver.putObject('root_user_abc/a.txt', Buffer.from('hi'), { contentType: 'text/plain' });
+ * const url = await driver.getSignedUrl('root_user_abc/a.txt', 3600);
+ * ```
+ *
+ * @remarks
+ * - Presigned URLs are limited by AWS to 7 days
+ * - Presigned uploads from the browser need a CORS rule on the bucket allowing `PUT`
+ * - Batch deletes are split into chunks of 1000 keys
+ * - Unfinished multipart uploads keep their parts (and storage costs) until aborted;
+ *   a bucket lifecycle rule for incomplete uploads is a useful safety net
+ */
+export class S3StorageDriver implements IStorageDriver {
+    /**
+     * Creates a new S3StorageDriver.
+     *
+     * @param client - The configured S3 client
+     * @param bucket - The bucket all objects are stored in
+     * @param region - The bucket's region (used to build object links)
+     */
+    constructor(
+        private client: S3Client,
+        private bucket: string,
+        private region: string,
+    ) {}
+
+    async putObject(key: string, body: Buffer | Uint8Array | string, options: PutObjectOptions = {}): Promise<void> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: body,
+            ContentType: options.contentType,
+            Metadata: options.metadata,
+        }));
+    }
+
+    async getObjectStream(key: string): Promise<ReadableStream<Uint8Array>> {
+        const response = await this.client.send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+        }));
+
+        if (!response.Body) {
+            throw new Error(`Object ${key} has no body`);
+        }
+
+        return response.Body.transformToWebStream() as ReadableStream<Uint8Array>;
+    }
+
+    async copyObject(sourceKey: string, destinationKey: string): Promise<void> {
+        await this.client.send(new CopyObjectCommand({
+            Bucket: this.bucket,
+            Key: destinationKey,
+            CopySource: `${this.bucket}/${sourceKey.split("/").map(encodeURIComponent).join("/")}`,
+        }));
+    }
+
+    async deleteObject(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+        }));
+    }
+
+    async deleteObjects(keys: string[]): Promise<void> {
+        for (let i = 0; i < keys.length; i += S3_DELETE_BATCH_SIZE) {
+            const batch = keys.slice(i, i + S3_DELETE_BATCH_SIZE);
+            await this.client.send(new DeleteObjectsCommand({
+                Bucket: this.bucket,
+                Delete: {
+                    Objects: batch.map((key) => ({ Key: key })),
+                    Quiet: true,
+                },
+            }));
+        }
+    }
+
+    async getSignedUrl(key: string, expiresInSeconds: number, options: SignedUrlOptions = {}): Promise<string> {
+        const command = new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ResponseContentDisposition: options.fileName
+                ? `inline; filename*=UTF-8''${encodeURIComponent(options.fileName)}`
+                : undefined,
+        });
+        return await getSignedUrl(this.client, command, { expiresIn: expiresInSeconds });
+    }
+
+    async getSignedUploadUrl(key: string, expiresInSeconds: number, options: Pick<PutObjectOptions, "contentType"> = {}): Promise<SignedUpload> {
+        const command = new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ContentType: options.contentType,
+        });
+        const url = await getSignedUrl(this.client, command, { expiresIn: expiresInSeconds });
+        return {
+            url,
+            method: "PUT",
+            headers: options.contentType ? { "Content-Type": options.contentType } : {},
+        };
+    }
+
+    async createMultipartUpload(key: string, options: Pick<PutObjectOptions, "contentType"> = {}): Promise<string> {
+        const response = await this.client.send(new CreateMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ContentType: options.contentType,
+        }));
+        if (!response.UploadId) {
+            throw new Error("S3 did not return an upload ID");
+        }
+        return response.UploadId;
+    }
+
+    async getSignedUploadPartUrl(key: string, uploadId: string, partNumber: number, expiresInSeconds: number): Promise<SignedUpload> {
+        const command = new UploadPartCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+        });
+        const url = await getSignedUrl(this.client, command, { expiresIn: expiresInSeconds });
+        return { url, method: "PUT", headers: {} };
+    }
+
+    async listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+        const parts: UploadedPart[] = [];
+        let marker: string | undefined;
+        // ListParts returns at most 1000 parts per page
+        do {
+            const response = await this.client.send(new ListPartsCommand({
+                Bucket: this.bucket,
+                Key: key,
+                UploadId: uploadId,
+                PartNumberMarker: marker,
+            }));
+            for (const part of response.Parts ?? []) {
+                parts.push({ partNumber: part.PartNumber ?? 0, etag: part.ETag ?? "", size: part.Size ?? 0 });
+            }
+            marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+        } while (marker);
+        return parts;
+    }
+
+    async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<void> {
+        await this.client.send(new CompleteMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            MultipartUpload: {
+                Parts: parts.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+            },
+        }));
+    }
+
+    async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+        try {
+            await this.client.send(new AbortMultipartUploadCommand({
+                Bucket: this.bucket,
+                Key: key,
+                UploadId: uploadId,
+            }));
+        } catch (error) {
+            if (error instanceof Error && error.name === 'NoSuchUpload') {
+                return;
+            }
+            throw error;
+        }
+    }
+
+    async headObject(key: string): Promise<StorageObjectInfo | null> {
+        try {
+            const response = await this.client.send(new HeadObjectCommand({
+                Bucket: this.bucket,
+                Key: key,
+            }));
+            return {
+                size: response.ContentLength ?? 0,
+                contentType: response.ContentType,
+                lastModified: response.LastModified,
+            };
+        } catch (error) {
+            if (error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey')) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    getObjectLink(key: string): string {
+        return `https://${this.bucket}.s3.${this.region}.amazonaws.com/${key}`;
+    }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { highlight, languageOf } from "./syntax-highlight";
+
+describe("languageOf", () => {
+    it("maps source file extensions to languages", () => {
+        expect(languageOf("app.TSX")).toBe("javascript");
+        expect(languageOf("main.py")).toBe("python");
+        expect(languageOf("page.html")).toBe("markup");
+        expect(languageOf("notes.txt")).toBeNull();
+        expect(languageOf("Makefile")).toBeNull();
+    });
+});
+
+describe("highlight", () => {
+    it("splits code into keywords, strings, numbers and comments", () => {
+        expect(highlight('const a = "x"; // one\nreturn 42;', "javascript")).toEqual([
+            { type: "keyword", text: "const" },
+            { type: "plain", text: " a = " },
+            { type: "string", text: '"x"' },
+            { type: "plain", text: "; " },
+            { type: "comment", text: "// one" },
+            { type: "plain", text: "\n" },
+            { type: "keyword", text: "return" },
+            { type: "plain", text: " " },
+            { type: "number", text: "42" },
+            { type: "plain", text: ";" },
+        ]);
+    });
+
+    it("does not look for keywords inside strings and comments", () => {
+        const tokens = highlight("# if this\nx = 'if' if y else None", "python");
+        expect(tokens.filter((token) => token.type === "keyword").map((token) => token.text)).toEqual(["if", "else", "None"]);
+        expect(tokens[0]).toEqual({ type: "comment", text: "# if this" });
+    });
+
+    it("keeps the code intact, including unclosed strings and comments", () => {
+        const code = "SELECT * FROM t /* open\nWHERE a = 'b";
+        const tokens = highlight(code, "sql");
+        expect(tokens.map((token) => token.text).join("")).toBe(code);
+        expect(tokens[0]).toEqual({ type: "keyword", text: "SELECT" });
+        expect(tokens[tokens.length - 1].type).toBe("comment");
+    });
+
+    it("returns the code as plain text for unknown languages", () => {
+        expect(highlight("if x", null)).toEqual([{ type: "plain", text: "if x" }]);
+        expect(highlight("", "javascript")).toEqual([]);
+    });
+});
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Lightweight syntax highlighting for file previews.
+ *
+ * Splits source code into comments, strings, numbers, keywords and plain text with one
+ * regular expression per language. It does not parse the code, so unusual constructs
+ * (nested template literals, heredocs, ...) may be coloured wrongly, but the text is
+ * always kept intact: joining the tokens gives back the input.
+ *
+ * @module lib/syntax-highlight
+ */
+
+/**
+ * A run of source code of one kind.
+ */
+export type HighlightToken = {
+    type: "plain" | "comment" | "string" | "number" | "keyword";
+    text: string;
+};
+
+type LanguageDefinition = {
+    keywords: string[];
+    lineComment?: string[];
+    blockComment?: [string, string][];
+    /** Quote characters that delimit single-line strings */
+    quotes: string[];
+    /** Whether backtick strings may span lines (JavaScript template literals, Go raw strings) */
+    multilineBackticks?: boolean;
+    caseInsensitive?: boolean;
+};
+
+const C_COMMENTS = { lineComment: ["//"], blockComment: [["/*", "*/"]] as [string, string][] };
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+    javascript: {
+        ...C_COMMENTS,
+        quotes: ['"', "'"],
+        multilineBackticks: true,
+        keywords: ["abstract", "as", "async", "await", "break", "case", "catch", "class", "const", "continue",
+            "debugger", "default", "delete", "do", "else", "enum", "export", "extends", "false", "finally", "for",
+            "from", "function", "if", "implements", "import", "in", "instanceof", "interface", "let", "new", "null",
+            "of", "private", "protected", "public", "readonly", "return", "static", "super", "switch", "this",
+            "throw", "true", "try", "type", "typeof", "undefined", "var", "void", "while", "yield"],
+    },
+    json: { quotes: ['"'], keywords: ["true", "false", "null"] },
+    python: {
+        lineComment: ["#"],
+        quotes: ['"', "'"],
+        keywords: ["and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif",
+            "else", "except", "False", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda",
+            "None", "nonlocal", "not", "or", "pass", "raise", "return", "True", "try", "while", "with", "yield"],
+    },
+    ruby: {
+        lineComment: ["#"],
+        quotes: ['"', "'"],
+        keywords: ["begin", "class", "def", "do", "else", "elsif", "end", "ensure", "false", "for", "if", "in",
+            "module", "next", "nil", "raise", "require", "rescue", "return", "self", "then", "true", "unless",
+            "until", "when", "while", "yield"],
+    },
+    shell: {
+        lineComment: ["#"],
+        quotes: ['"', "'"],
+        keywords: ["case", "do", "done", "elif", "else", "esac", "exit", "export", "fi", "for", "function", "if",
+            "in", "local", "return", "then", "until", "while"],
+    },
+    c: {
+        ...C_COMMENTS,
+        quotes: ['"', "'"],
+        keywords: ["auto", "bool", "break", "case", "char", "class", "const", "continue", "default", "delete",
+            "do", "double", "else", "enum", "extern", "false", "float", "for", "goto", "if", "include", "inline",
+            "int", "long", "namespace", "new", "nullptr", "private", "protected", "public", "return", "short",
+            "signed", "sizeof", "static", "struct", "switch", "template", "this", "true", "typedef", "union",
+            "unsigned", "using", "virtual", "void", "volatile", "while"],
+    },
+    java: {
+        ...C_COMMENTS,
+        quotes: ['"', "'"],
+        keywords: ["abstract", "boolean", "break", "byte", "case", "catch", "char", "class", "const", "continue",
+            "default", "do", "double", "else", "enum", "extends", "false", "final", "finally", "float", "for",
+            "fun", "if", "implements", "import", "int", "interface", "long", "namespace", "new", "null", "object",
+            "override", "package", "private", "protected", "public", "return", "short", "static", "string",
+            "super", "switch", "this", "throw", "throws", "true", "try", "using", "val", "var", "void", "while"],
+    },
+    go: {
+        ...C_COMMENTS,
+        quotes: ['"', "'"],
+        multilineBackticks: true,
+        keywords: ["break", "case", "chan", "const", "continue", "default", "defer", "else", "fallthrough",
+            "false", "for", "func", "go", "goto", "if", "import", "interface", "map", "nil", "package", "range",
+            "return", "select", "struct", "switch", "true", "type", "var"],
+    },
+    rust: {
+        ...C_COMMENTS,
+        quotes: ['"'],
+        keywords: ["as", "async", "await", "break", "const", "continue", "crate", "else", "enum", "false", "fn",
+            "for", "if", "impl", "in", "let", "loop", "match", "mod", "move", "mut", "pub", "ref", "return",
+            "self", "Self", "static", "struct", "super", "trait", "true", "type", "unsafe", "use", "where", "while"],
+    },
+    css: { blockComment: [["/*", "*/"]], quotes: ['"', "'"], keywords: ["important", "inherit", "initial", "none"] },
+    markup: { blockComment: [["<!--", "-->"]], quotes: ['"', "'"], keywords: [] },
+    sql: {
+        lineComment: ["--"],
+        blockComment: [["/*", "*/"]],
+        quotes: ["'", '"'],
+        caseInsensitive: true,
+        keywords: ["alter", "and", "as", "asc", "by", "create", "delete", "desc", "distinct", "drop", "from",
+            "group", "having", "in", "index", "insert", "into", "is", "join", "left", "limit", "not", "null", "on",
+            "or", "order", "primary", "references", "select", "set", "table", "union", "update", "values", "where",
+            "with"],
+    },
+    yaml: { lineComment: ["#"], quotes: ['"', "'"], keywords: ["true", "false", "null", "yes", "no"] },
+};
+
+const EXTENSIONS: Record<string, string> = {
+    js: "javascript", jsx: "javascript", mjs: "javascript", cjs: "javascript", ts: "javascript", tsx: "javascript",
+    json: "json",
+    py: "python",
+    rb: "ruby",
+    sh: "shell", bash: "shell", zsh: "shell",
+    c: "c", h: "c", cc: "c", cpp: "c", hpp: "c",
+    java: "java", kt: "java", cs: "java", scala: "java",
+    go: "go",
+    rs: "rust",
+    css: "css", scss: "css",
+    html: "markup", htm: "markup", xml: "markup", svg: "markup", vue: "markup",
+    sql: "sql",
+    yml: "yaml", yaml: "yaml", toml: "yaml",
+};
+
+const patterns = new Map<string, RegExp>();
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Builds the regular expression of a language, with one capture group per token type
+ * in the order comment, string, number, keyword.
+ */
+function patternOf(language: string): RegExp {
+    const cached = patterns.get(language);
+    if (cached) return cached;
+
+    const definition = LANGUAGES[language];
+    const comments = [
+        ...(definition.blockComment ?? []).map(([open, close]) => `${escape(open)}[\\s\\S]*?(?:${escape(close)}|$)`),
+        ...(definition.lineComment ?? []).map((marker) => `${escape(marker)}[^\\n]*`),
+    ];
+    const strings = [
+        ...definition.quotes.map((quote) => `${quote}(?:\\\\[^\\n]|[^${quote}\\\\\\n])*${quote}?`),
+        ...(definition.multilineBackticks ? ["`(?:\\\\[\\s\\S]|[^`\\\\])*`?"] : []),
+    ];
+    const numbers = "\\b(?:0[xX][0-9a-fA-F_]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b";
+    const keywords = definition.keywords.length ? `\\b(?:${definition.keywords.join("|")})\\b` : "(?!)";
+
+    const pattern = new RegExp(
+        `(${comments.length ? comments.join("|") : "(?!)"})|(${strings.join("|")})|(${numbers})|(${keywords})`,
+        definition.caseInsensitive ? "gi" : "g",
+    );
+    patterns.set(language, pattern);
+    return pattern;
+}
+
+/**
+ * Picks the highlighting language of a file from its extension.
+ *
+ * @param fileName - Name of the file
+ * @returns The language, or null if the file is not source code this module knows
+ *
+ * @example
+ * ```typescript
+ * languageOf('app.tsx');   // => 'javascript'
+ * languageOf('notes.txt'); // => null
+ * ```
+ */
+export function languageOf(fileName: string): string | null {
+    const extension = fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : "";
+    return EXTENSIONS[extension] ?? null;
+}
+
+/**
+ * Splits code into highlighted tokens.
+ *
+ * @param code - The source code
+ * @param language - A language returned by {@link languageOf}; unknown languages give
+ * a single plain token
+ * @returns The tokens in order; their texts joined are `code`
+ *
+ * @example
+ * ```typescript
+ * highlight('const a = 1; // one', 'javascript');
+ * // => keyword "const", plain " a = ", number "1", plain "; ", comment "// one"
+ * ```
+ */
+export function highlight(code: string, language: string | null): HighlightToken[] {
+    if (!language || !(language in LANGUAGES)) return code ? [{ type: "plain", text: code }] : [];
+
+    const tokens: HighlightToken[] = [];
+    const pattern = patternOf(language);
+    let last = 0;
+    for (const match of code.matchAll(pattern)) {
+        if (!match[0]) continue;
+        if (match.index > last) tokens.push({ type: "plain", text: code.slice(last, match.index) });
+        const type = match[1] !== undefined ? "comment" : match[2] !== undefined ? "string" : match[3] !== undefined ? "number" : "keyword";
+        tokens.push({ type, text: match[0] });
+        last = match.index + match[0].length;
+    }
+    if (last < code.length) tokens.push({ type: "plain", text: code.slice(last) });
+    return tokens;
+}
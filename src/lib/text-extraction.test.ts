@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { deflateSync } from "zlib";
+import { extractText, isTextExtractable } from "./text-extraction";
+
+/** Builds a minimal PDF whose pages draw the given content streams. */
+function pdfOf(...streams: { dictionary?: string, data: Buffer }[]): Buffer {
+    const parts: Buffer[] = [Buffer.from("%PDF-1.4\n")];
+    streams.forEach(({ dictionary = "", data }, i) => {
+        parts.push(
+            Buffer.from(`${i + 4} 0 obj\n<< /Length ${data.length} ${dictionary}>>\nstream\n`, "latin1"),
+            data,
+            Buffer.from("\nendstream\nendobj\n"),
+        );
+    });
+    parts.push(Buffer.from("trailer\n<< /Root 1 0 R >>\n%%EOF\n"));
+    return Buffer.concat(parts);
+}
+
+describe("isTextExtractable", () => {
+    it("accepts text, Markdown, CSV and PDF files", () => {
+        expect(["notes.txt", "README.MD", "data.csv", "paper.pdf"].every(isTextExtractable)).toBe(true);
+        expect(["photo.jpg", "archive.zip", "Makefile"].some(isTextExtractable)).toBe(false);
+    });
+});
+
+describe("extractText", () => {
+    it("decodes plain text formats", () => {
+        expect(extractText("data.csv", Buffer.from("\uFEFFname,total\n  alpha,\u00001\n"))).toBe("name,total\nalpha, 1");
+        expect(extractText("photo.jpg", Buffer.from("not text"))).toBeNull();
+    });
+
+    it("reads the text drawn by uncompressed and compressed PDF content streams", () => {
+        const pdf = pdfOf(
+            { data: Buffer.from("BT /F1 12 Tf 72 700 Td (Quarterly \\(draft\\)) Tj 0 -14 Td [(bud) 20 (get) -300 (review)] TJ ET") },
+            { dictionary: "/Filter /FlateDecode ", data: deflateSync("BT <FEFF00DC006200650072> Tj ET") },
+            { dictionary: "/Subtype /Image /Filter /DCTDecode ", data: Buffer.from("BT (not text) Tj ET") },
+        );
+
+        expect(extractText("report.pdf", pdf)).toBe("Quarterly (draft) budget review\nÜber");
+    });
+
+    it("skips streams it cannot read", () => {
+        const pdf = pdfOf(
+            { dictionary: "/Filter /FlateDecode ", data: Buffer.from("definitely not deflate data") },
+            { data: Buffer.from("BT (still here) Tj ET") },
+        );
+
+        expect(extractText("broken.pdf", pdf)).toBe("still here");
+        expect(extractText("empty.pdf", Buffer.from("not a pdf at all"))).toBe("");
+    });
+});
@@ -0,0 +1,251 @@
+import { inflateSync, constants } from "zlib";
+
+/**
+ * @fileoverview Text extraction for full-text search.
+ *
+ * Pulls the searchable text out of uploaded text, Markdown, CSV and PDF files. Plain
+ * text formats are decoded as UTF-8. PDFs are read on a best-effort basis: the text
+ * drawn by uncompressed and DEFLATE-compressed content streams is collected, which
+ * covers most generated documents; scanned pages and fonts without a byte-to-text
+ * mapping yield little or nothing.
+ *
+ * @module lib/text-extraction
+ */
+
+const TEXT_EXTENSIONS = new Set(["txt", "text", "md", "markdown", "csv"]);
+
+/** Longest text kept per file, well inside PostgreSQL's tsvector size limit */
+const MAX_TEXT_LENGTH = 200_000;
+
+/** Most bytes a single PDF stream may inflate to */
+const MAX_STREAM_LENGTH = 8 * 1024 * 1024;
+
+/** Stream dictionary entries of fonts, images, metadata and cross-reference data */
+const NON_CONTENT_STREAM = /\/Length[123]\b|\/Type\s*\/(?:XRef|ObjStm|Metadata|EmbeddedFile)\b|\/Subtype\s*\/(?!Form\b)/;
+
+function extensionOf(fileName: string): string {
+    const dot = fileName.lastIndexOf(".");
+    return dot === -1 ? "" : fileName.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Removes characters PostgreSQL text cannot hold, collapses whitespace and applies
+ * the length limit.
+ */
+function normalize(text: string): string {
+    return text
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFD]/g, " ")
+        .replace(/[ \t]+/g, " ")
+        .replace(/\s*\n\s*/g, "\n")
+        .trim()
+        .slice(0, MAX_TEXT_LENGTH);
+}
+
+/**
+ * Whether text can be extracted from a file, judging by its name.
+ *
+ * @param fileName - Name of the file, including its extension
+ * @returns True for `.txt`, `.md`, `.markdown`, `.csv` and `.pdf` files
+ */
+export function isTextExtractable(fileName: string): boolean {
+    const extension = extensionOf(fileName);
+    return TEXT_EXTENSIONS.has(extension) || extension === "pdf";
+}
+
+/**
+ * Extracts the searchable text of a file.
+ *
+ * @param fileName - Name of the file, used to pick the format
+ * @param content - The file's bytes
+ * @returns The text, with whitespace collapsed and cut to 200,000 characters, or
+ * null if the format is not supported
+ *
+ * @example
+ * ```typescript
+ * const text = extractText('minutes.pdf', buffer);
+ * if (text) await prisma.blob.update({ where: { id }, data: { content_text: text } });
+ * ```
+ *
+ * @remarks
+ * Never throws on malformed content: unreadable PDF streams are skipped, so a broken
+ * PDF gives whatever text could be read, possibly an empty string.
+ */
+export function extractText(fileName: string, content: Buffer): string | null {
+    const extension = extensionOf(fileName);
+    if (TEXT_EXTENSIONS.has(extension)) {
+        return normalize(content.toString("utf8").replace(/^\uFEFF/, ""));
+    }
+    if (extension === "pdf") {
+        return normalize(extractPdfText(content));
+    }
+    return null;
+}
+
+/**
+ * Collects the text shown by every content stream of a PDF.
+ */
+function extractPdfText(pdf: Buffer): string {
+    const source = pdf.toString("latin1");
+    const parts: string[] = [];
+    let length = 0;
+
+    for (let at = source.indexOf("stream"); at !== -1 && length < MAX_TEXT_LENGTH; at = source.indexOf("stream", at + 6)) {
+        // skip "endstream" and the word inside other data
+        if (!/[\s>]/.test(source[at - 1] ?? "")) continue;
+
+        const start = source[at + 6] === "\r" ? at + 8 : at + 7;
+        const end = source.indexOf("endstream", start);
+        if (end === -1) break;
+
+        const dictionary = source.slice(source.lastIndexOf("obj", at), at);
+        const text = readContentStream(dictionary, pdf.subarray(start, end));
+        if (text) {
+            parts.push(text);
+            length += text.length;
+        }
+        at = end;
+    }
+
+    return parts.join("\n");
+}
+
+function readContentStream(dictionary: string, data: Buffer): string {
+    if (NON_CONTENT_STREAM.test(dictionary)) return "";
+
+    const filters = dictionary.match(/\/Filter\s*(?:\[([^\]]*)\]|(\/\w+))/);
+    const filter = (filters?.[1] ?? filters?.[2] ?? "").trim();
+    let content: Buffer;
+    try {
+        if (!filter) {
+            content = data;
+        } else if (filter === "/FlateDecode") {
+            content = inflateSync(data, { maxOutputLength: MAX_STREAM_LENGTH, finishFlush: constants.Z_SYNC_FLUSH });
+        } else {
+            return "";
+        }
+    } catch {
+        return "";
+    }
+
+    const operators = content.toString("latin1");
+    return operators.includes("BT") ? readTextOperators(operators) : "";
+}
+
+/**
+ * Interprets the text-showing operators (`Tj`, `TJ`, `'`, `"`) of a content stream,
+ * starting new words and lines where the text is repositioned.
+ */
+function readTextOperators(stream: string): string {
+    let text = "";
+    let operands: (string | number)[] = [];
+    let array: (string | number)[] | null = null;
+
+    for (let i = 0; i < stream.length;) {
+        const c = stream[i];
+
+        if (c === "(") {
+            const [value, next] = readLiteralString(stream, i);
+            (array ?? operands).push(value);
+            i = next;
+        } else if (c === "<" && stream[i + 1] !== "<") {
+            const close = stream.indexOf(">", i);
+            if (close === -1) break;
+            (array ?? operands).push(decodeBytes(Buffer.from(stream.slice(i + 1, close).replace(/\s+/g, ""), "hex")));
+            i = close + 1;
+        } else if (c === "[") {
+            array = [];
+            i++;
+        } else if (c === "]") {
+            operands.push(array ? array.map((item) => typeof item === "number" ? (item < -250 ? " " : "") : item).join("") : "");
+            array = null;
+            i++;
+        } else if (c === "%") {
+            const newline = stream.slice(i).search(/[\r\n]/);
+            i = newline === -1 ? stream.length : i + newline;
+        } else if (c === "/") {
+            // a name operand, e.g. the font in "/F1 12 Tf"
+            i++;
+            while (i < stream.length && !/[\s()<>[\]{}\/%]/.test(stream[i])) i++;
+        } else if (/[\s<>{}]/.test(c)) {
+            i++;
+        } else {
+            let j = i;
+            while (j < stream.length && !/[\s()<>[\]{}\/%]/.test(stream[j])) j++;
+            const token = stream.slice(i, Math.max(j, i + 1));
+            i = Math.max(j, i + 1);
+
+            const number = Number(token);
+            if (token && !Number.isNaN(number)) {
+                (array ?? operands).push(number);
+                continue;
+            }
+            if (array) continue;
+
+            const shown = operands.filter((operand): operand is string => typeof operand === "string").pop();
+            if (token === "Tj" || token === "TJ") {
+                text += shown ?? "";
+            } else if (token === "'" || token === "\"") {
+                text += "\n" + (shown ?? "");
+            } else if (token === "Td" || token === "TD" || token === "T*" || token === "Tm") {
+                text += " ";
+            } else if (token === "ET") {
+                text += "\n";
+            }
+            operands = [];
+        }
+    }
+
+    return text;
+}
+
+/**
+ * Reads a `(...)` string starting at `start`, resolving escapes and balanced
+ * parentheses. Returns the decoded text and the index after the closing parenthesis.
+ */
+function readLiteralString(stream: string, start: number): [string, number] {
+    const bytes: number[] = [];
+    let depth = 0;
+    let i = start + 1;
+
+    for (; i < stream.length; i++) {
+        const c = stream[i];
+        if (c === "\\") {
+            const next = stream[++i];
+            const escaped: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+            if (next in escaped) {
+                bytes.push(escaped[next]);
+            } else if (/[0-7]/.test(next)) {
+                const octal = stream.slice(i, i + 3).match(/^[0-7]{1,3}/)![0];
+                bytes.push(parseInt(octal, 8) & 0xFF);
+                i += octal.length - 1;
+            } else if (next === "\r") {
+                if (stream[i + 1] === "\n") i++;
+            } else if (next !== "\n") {
+                bytes.push(next.charCodeAt(0));
+            }
+        } else if (c === "(") {
+            depth++;
+            bytes.push(40);
+        } else if (c === ")") {
+            if (depth === 0) break;
+            depth--;
+            bytes.push(41);
+        } else {
+            bytes.push(c.charCodeAt(0));
+        }
+    }
+
+    return [decodeBytes(Buffer.from(bytes)), i + 1];
+}
+
+/**
+ * Decodes the bytes of a PDF string: UTF-16 when it starts with a byte order mark,
+ * otherwise Latin-1, which matches PDFDocEncoding for the printable range.
+ */
+function decodeBytes(bytes: Buffer): string {
+    if (bytes.length >= 2 && bytes[0] === 0xFE && bytes[1] === 0xFF) {
+        const utf16 = Buffer.from(bytes.subarray(2, bytes.length - (bytes.length % 2)));
+        return utf16.swap16().toString("utf16le");
+    }
+    return bytes.toString("latin1");
+}
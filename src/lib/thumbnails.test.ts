@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { isThumbnailable, renderThumbnail } from "./thumbnails";
+
+/** Builds a PDF with one 200 by 300 point page per content stream. */
+function pdfOf(...pages: string[]): Buffer {
+    const objects = [
+        "<< /Type /Catalog /Pages 2 0 R >>",
+        `<< /Type /Pages /Kids [${pages.map((_, i) => `${3 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    ];
+    pages.forEach((content, i) => {
+        objects.push(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 200 300] /Contents ${4 + i * 2} 0 R `
+                + `/Resources << /Font << /F1 << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> >> >> >>`,
+            `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        );
+    });
+
+    let pdf = "%PDF-1.4\n";
+    const offsets = objects.map((object, i) => {
+        const offset = pdf.length;
+        pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+        + offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("")
+        + `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(pdf, "latin1");
+}
+
+const imageOf = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: "#3366cc" } });
+
+describe("isThumbnailable", () => {
+    it("accepts images sharp can read and PDFs", () => {
+        expect(["photo.JPG", "scan.tiff", "doc.pdf", "anim.gif"].every(isThumbnailable)).toBe(true);
+        expect(["drawing.svg", "notes.txt", "Makefile"].some(isThumbnailable)).toBe(false);
+    });
+});
+
+describe("renderThumbnail", () => {
+    it("scales images down to fit 256 pixels as WebP, never up", async () => {
+        const large = await renderThumbnail("photo.png", await imageOf(1024, 512).png().toBuffer());
+        expect(await sharp(large!).metadata()).toMatchObject({ format: "webp", width: 256, height: 128 });
+
+        const small = await renderThumbnail("icon.jpg", await imageOf(40, 30).jpeg().toBuffer());
+        expect(await sharp(small!).metadata()).toMatchObject({ width: 40, height: 30 });
+    });
+
+    it("renders the first page of a PDF, not a later one", async () => {
+        const pdf = pdfOf("0 0 1 rg 0 0 200 300 re f", "1 0 0 rg 0 0 200 300 re f");
+
+        const thumbnail = await renderThumbnail("scan.pdf", pdf);
+        const { data, info } = await sharp(thumbnail!).raw().toBuffer({ resolveWithObject: true });
+        expect(info).toMatchObject({ width: 171, height: 256 });
+        expect(data[2]).toBeGreaterThan(200);
+        expect(data[0]).toBeLessThan(50);
+    });
+
+    it("draws the text of a PDF page on white", async () => {
+        const pdf = pdfOf("BT /F1 24 Tf 20 250 Td (Quarterly report) Tj ET");
+
+        const thumbnail = await renderThumbnail("report.pdf", pdf);
+        const { data } = await sharp(thumbnail!).raw().toBuffer({ resolveWithObject: true });
+        expect(Math.min(...data.subarray(0, 3))).toBeGreaterThan(245);
+        expect(data.some((value) => value < 128)).toBe(true);
+    });
+
+    it("returns null for other files and throws on content it cannot decode", async () => {
+        expect(await renderThumbnail("notes.txt", Buffer.from("text"))).toBeNull();
+        await expect(renderThumbnail("broken.png", Buffer.from("not a png"))).rejects.toThrow();
+        await expect(renderThumbnail("broken.pdf", Buffer.from("not a pdf"))).rejects.toThrow();
+    });
+});
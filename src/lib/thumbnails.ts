@@ -0,0 +1,115 @@
+import { join } from "path";
+import sharp from "sharp";
+import { createCanvas } from "@napi-rs/canvas";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+/**
+ * @fileoverview Thumbnail rendering for images and PDFs.
+ *
+ * Images are scaled down to fit a 256 by 256 pixel box and encoded as WebP. PDFs get
+ * their first page rendered with pdf.js onto a server-side canvas, then scaled the
+ * same way.
+ *
+ * @module lib/thumbnails
+ */
+
+const IMAGE_EXTENSIONS = new Set(["jpg", "jpeg", "png", "gif", "webp", "avif", "tif", "tiff"]);
+
+/**
+ * Extensions of the files thumbnails are made for, lower-cased and without the dot.
+ */
+export const THUMBNAIL_EXTENSIONS: readonly string[] = [...IMAGE_EXTENSIONS, "pdf"];
+
+/** Width and height of the box thumbnails are scaled to fit */
+const THUMBNAIL_SIZE = 256;
+
+/** Longer side, in pixels, a PDF page is rendered at before it is scaled down */
+const PDF_RENDER_SIZE = THUMBNAIL_SIZE * 2;
+
+/** Fonts for PDFs that use the standard 14 fonts without embedding them */
+const STANDARD_FONTS_PATH = join(process.cwd(), "node_modules/pdfjs-dist/standard_fonts/");
+
+function extensionOf(fileName: string): string {
+    const dot = fileName.lastIndexOf(".");
+    return dot === -1 ? "" : fileName.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Whether a thumbnail can be made for a file, judging by its name.
+ *
+ * @param fileName - Name of the file, including its extension
+ * @returns True for JPEG, PNG, GIF, WebP, AVIF, TIFF and PDF files
+ */
+export function isThumbnailable(fileName: string): boolean {
+    const extension = extensionOf(fileName);
+    return IMAGE_EXTENSIONS.has(extension) || extension === "pdf";
+}
+
+/**
+ * Renders the thumbnail of a file.
+ *
+ * @param fileName - Name of the file, used to pick the format
+ * @param content - The file's bytes
+ * @returns The WebP thumbnail, at most 256 pixels wide and high, or null if the format
+ * is not supported
+ *
+ * @throws {@link Error}
+ * Throws an error if the content cannot be decoded
+ *
+ * @example
+ * ```typescript
+ * const thumbnail = await renderThumbnail('holiday.jpg', buffer);
+ * if (thumbnail) await storageDriver.putObject(key, thumbnail, { contentType: 'image/webp' });
+ * ```
+ *
+ * @remarks
+ * - Images are turned upright by their EXIF orientation and never enlarged; animated
+ *   GIF and WebP images give their first frame
+ * - A PDF thumbnail shows its first page, as drawn by pdf.js; pages are rendered
+ *   without scripts or form fields
+ */
+export async function renderThumbnail(fileName: string, content: Buffer): Promise<Buffer | null> {
+    const extension = extensionOf(fileName);
+    let image: sharp.Sharp;
+    if (IMAGE_EXTENSIONS.has(extension)) {
+        image = sharp(content).rotate();
+    } else if (extension === "pdf") {
+        image = sharp(await renderPdfFirstPage(content));
+    } else {
+        return null;
+    }
+
+    return await image
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+        .webp({ quality: 75 })
+        .toBuffer();
+}
+
+/**
+ * Renders the first page of a PDF as a PNG whose longer side is
+ * {@link PDF_RENDER_SIZE} pixels.
+ */
+async function renderPdfFirstPage(pdf: Buffer): Promise<Buffer> {
+    const document = await getDocument({
+        // pdf.js takes ownership of the array it is given, so hand it a copy
+        data: new Uint8Array(pdf),
+        isEvalSupported: false,
+        disableFontFace: true,
+        standardFontDataUrl: STANDARD_FONTS_PATH,
+        verbosity: 0,
+    }).promise;
+    try {
+        const page = await document.getPage(1);
+        const { width, height } = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: PDF_RENDER_SIZE / Math.max(width, height) });
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        await page.render({
+            canvas: canvas as unknown as HTMLCanvasElement,
+            canvasContext: canvas.getContext("2d") as unknown as CanvasRenderingContext2D,
+            viewport,
+        }).promise;
+        return canvas.toBuffer("image/png");
+    } finally {
+        await document.destroy();
+    }
+}
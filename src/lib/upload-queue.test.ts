@@ -0,0 +1,91 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { UploadQueue, type UploadFunction } from "./upload-queue";
+
+type PendingUpload = { name: string, resolve: () => void, reject: (error: Error) => void, signal: AbortSignal, onProgress: (progress: number) => void };
+
+/** An upload function whose calls stay pending until the test settles them. */
+const controllableUpload = () => {
+    const pending: PendingUpload[] = [];
+    const upload = vi.fn<UploadFunction>((item, { onProgress, signal }) => new Promise<void>((resolve, reject) => {
+        pending.push({ name: item.relativePath, resolve, reject, signal, onProgress });
+        signal.addEventListener("abort", () => reject(new Error("aborted")));
+    }));
+    return { upload, pending };
+};
+
+const request = (relativePath: string) => ({ file: new File(["x"], relativePath.split("/").pop()!), relativePath });
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+const statuses = (queue: UploadQueue) => queue.getSnapshot().map((item) => item.status);
+
+describe("UploadQueue", () => {
+    it("never runs more uploads than the concurrency limit", async () => {
+        const { upload, pending } = controllableUpload();
+        const queue = new UploadQueue({ concurrency: 2, upload });
+
+        queue.add(["a", "b", "c"].map(request), "folder-1");
+        expect(statuses(queue)).toEqual(["uploading", "uploading", "queued"]);
+
+        pending[0].resolve();
+        await flush();
+        expect(statuses(queue)).toEqual(["done", "uploading", "uploading"]);
+        expect(upload).toHaveBeenCalledTimes(3);
+        expect(upload.mock.calls[2][0]).toMatchObject({ relativePath: "c", folderId: "folder-1" });
+    });
+
+    it("reports progress and notifies subscribers", () => {
+        const { upload, pending } = controllableUpload();
+        const queue = new UploadQueue({ concurrency: 1, upload });
+        const listener = vi.fn();
+        queue.subscribe(listener);
+
+        queue.add([request("a")], "folder-1");
+        pending[0].onProgress(0.5);
+
+        expect(queue.getSnapshot()[0].progress).toBe(0.5);
+        expect(listener).toHaveBeenCalled();
+    });
+
+    it("cancels a running upload and starts the next one", async () => {
+        const { upload, pending } = controllableUpload();
+        const queue = new UploadQueue({ concurrency: 1, upload });
+
+        queue.add([request("a"), request("b")], "folder-1");
+        queue.cancel(queue.getSnapshot()[0].id);
+        await flush();
+
+        expect(pending[0].signal.aborted).toBe(true);
+        expect(statuses(queue)).toEqual(["cancelled", "uploading"]);
+    });
+
+    it("keeps the error and retries failed uploads", async () => {
+        const { upload, pending } = controllableUpload();
+        const onIdle = vi.fn();
+        const queue = new UploadQueue({ concurrency: 1, upload, onIdle });
+
+        queue.add([request("a")], "folder-1");
+        pending[0].reject(new Error("Storage unavailable"));
+        await flush();
+        expect(queue.getSnapshot()[0]).toMatchObject({ status: "error", error: "Storage unavailable" });
+        expect(onIdle).toHaveBeenCalledTimes(1);
+
+        queue.retry(queue.getSnapshot()[0].id);
+        expect(statuses(queue)).toEqual(["uploading"]);
+        pending[1].resolve();
+        await flush();
+        expect(queue.getSnapshot()[0]).toMatchObject({ status: "done", progress: 1, error: undefined });
+        expect(onIdle).toHaveBeenCalledTimes(2);
+    });
+
+    it("clears finished uploads only", async () => {
+        const { upload, pending } = controllableUpload();
+        const queue = new UploadQueue({ concurrency: 1, upload });
+
+        queue.add([request("a"), request("b")], "folder-1");
+        pending[0].resolve();
+        await flush();
+        queue.clearFinished();
+
+        expect(queue.getSnapshot().map((item) => item.relativePath)).toEqual(["b"]);
+    });
+});
@@ -0,0 +1,188 @@
+import { type UploadQueueItem } from "@/types/types";
+
+/**
+ * @fileoverview Upload queue with concurrency limits, cancellation and retries.
+ *
+ * This module holds the state of every upload the user has started in the current
+ * session. It is independent of React so it can be driven and tested on its own; the
+ * {@link UploadQueueProvider} exposes it to components.
+ *
+ * @module lib/upload-queue
+ */
+
+/**
+ * A file to add to the queue.
+ *
+ * @property file - The file to upload
+ * @property relativePath - Path of the file relative to the drop target, including
+ * its name (e.g. `Photos/2024/beach.jpg`); folders in the path are created as needed
+ */
+export type UploadRequest = {
+    file: File;
+    relativePath: string;
+};
+
+/**
+ * Performs a single upload. Must call `onProgress` with a value between 0 and 1 as
+ * bytes are sent, and reject when `signal` is aborted.
+ */
+export type UploadFunction = (
+    item: UploadQueueItem,
+    options: { onProgress: (progress: number) => void, signal: AbortSignal }
+) => Promise<void>;
+
+/**
+ * Queue of file uploads processed with a fixed number of uploads in flight.
+ *
+ * @example
+ * ```typescript
+ * const queue = new UploadQueue({
+ *   concurrency: 3,
+ *   upload: (item, { onProgress, signal }) => sendFile(item, onProgress, signal),
+ *   onIdle: () => refreshFolder(),
+ * });
+ * const unsubscribe = queue.subscribe(() => render(queue.getSnapshot()));
+ * queue.add([{ file, relativePath: file.name }], 'folder-123');
+ * ```
+ *
+ * @remarks
+ * - Items are started in the order they were added
+ * - Every change produces a new snapshot array, so it can back `useSyncExternalStore`
+ * - `onIdle` runs whenever the last running upload finishes and nothing is queued
+ */
+export class UploadQueue {
+    private items: UploadQueueItem[] = [];
+    private controllers = new Map<string, AbortController>();
+    private listeners = new Set<() => void>();
+    private nextId = 0;
+
+    private readonly concurrency: number;
+    private readonly upload: UploadFunction;
+    private readonly onIdle?: () => void;
+
+    /**
+     * Creates a new UploadQueue instance.
+     *
+     * @param options - How many uploads may run at once, the function performing each
+     * upload, and an optional callback for when the queue drains
+     */
+    constructor(options: { concurrency: number, upload: UploadFunction, onIdle?: () => void }) {
+        this.concurrency = options.concurrency;
+        this.upload = options.upload;
+        this.onIdle = options.onIdle;
+    }
+
+    /**
+     * Returns the current list of items. The array is replaced, never mutated.
+     */
+    getSnapshot = (): UploadQueueItem[] => this.items;
+
+    /**
+     * Registers a listener called after every change.
+     *
+     * @param listener - The callback to run
+     * @returns A function that removes the listener
+     */
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    };
+
+    /**
+     * Adds files to the end of the queue and starts as many as the limit allows.
+     *
+     * @param requests - The files to upload
+     * @param folderId - The folder the files (and their relative paths) are uploaded into
+     */
+    add(requests: UploadRequest[], folderId: string): void {
+        const added = requests.map((request): UploadQueueItem => ({
+            id: `upload-${this.nextId++}`,
+            file: request.file,
+            relativePath: request.relativePath,
+            folderId,
+            status: "queued",
+            progress: 0,
+        }));
+        this.setItems([...this.items, ...added]);
+        this.pump();
+    }
+
+    /**
+     * Cancels a queued or running upload. Finished uploads are left alone.
+     *
+     * @param id - The item to cancel
+     */
+    cancel(id: string): void {
+        const item = this.items.find((candidate) => candidate.id === id);
+        if (!item || (item.status !== "queued" && item.status !== "uploading")) return;
+
+        this.controllers.get(id)?.abort();
+        this.update(id, { status: "cancelled" });
+    }
+
+    /**
+     * Puts a failed or cancelled upload back in the queue.
+     *
+     * @param id - The item to retry
+     */
+    retry(id: string): void {
+        const item = this.items.find((candidate) => candidate.id === id);
+        if (!item || (item.status !== "error" && item.status !== "cancelled")) return;
+
+        this.update(id, { status: "queued", progress: 0, error: undefined });
+        this.pump();
+    }
+
+    /**
+     * Removes every item that is no longer queued or running.
+     */
+    clearFinished(): void {
+        this.setItems(this.items.filter((item) => item.status === "queued" || item.status === "uploading"));
+    }
+
+    private pump(): void {
+        let running = this.items.filter((item) => item.status === "uploading").length;
+        for (const item of this.items) {
+            if (running >= this.concurrency) break;
+            if (item.status !== "queued") continue;
+            running++;
+            void this.start(item);
+        }
+    }
+
+    private async start(item: UploadQueueItem): Promise<void> {
+        const controller = new AbortController();
+        this.controllers.set(item.id, controller);
+        this.update(item.id, { status: "uploading", progress: 0 });
+
+        try {
+            await this.upload(this.items.find((candidate) => candidate.id === item.id) ?? item, {
+                onProgress: (progress) => {
+                    if (!controller.signal.aborted) this.update(item.id, { progress });
+                },
+                signal: controller.signal,
+            });
+            if (!controller.signal.aborted) this.update(item.id, { status: "done", progress: 1 });
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                this.update(item.id, { status: "error", error: error instanceof Error ? error.message : "Upload failed" });
+            }
+        } finally {
+            // a cancelled attempt may settle after its retry has started
+            if (this.controllers.get(item.id) === controller) this.controllers.delete(item.id);
+            this.pump();
+            if (this.controllers.size === 0 && !this.items.some((candidate) => candidate.status === "queued")) {
+                this.onIdle?.();
+            }
+        }
+    }
+
+    private update(id: string, changes: Partial<UploadQueueItem>): void {
+        this.setItems(this.items.map((item) => item.id === id ? { ...item, ...changes } : item));
+    }
+
+    private setItems(items: UploadQueueItem[]): void {
+        this.items = items;
+        this.listeners.forEach((listener) => listener());
+    }
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { formatBytes } from "./utils";
+
+describe("formatBytes", () => {
+    it("picks the largest binary unit below 1024, with one decimal below 10", () => {
+        expect(formatBytes(0, "en-US")).toBe("0 B");
+        expect(formatBytes(1023, "en-US")).toBe("1,023 B");
+        expect(formatBytes(1536, "en-US")).toBe("1.5 KB");
+        expect(formatBytes(1024 * 1024, "en-US")).toBe("1 MB");
+        expect(formatBytes(12.4 * 1024 ** 3, "en-US")).toBe("12 GB");
+        expect(formatBytes(3 * 1024 ** 5, "en-US")).toBe("3 PB");
+    });
+
+    it("formats the number for the locale", () => {
+        expect(formatBytes(1536, "de-DE")).toBe("1,5 KB");
+        expect(formatBytes(1000, "de-DE")).toBe("1.000 B");
+    });
+});
@@ -73,3 +73,71 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Picks a name that does not clash with any of the given names by appending
+ * ` (1)`, ` (2)`, ... as needed.
+ * 
+ * @param name - The preferred name
+ * @param taken - Names already used at the destination
+ * @param options - `keepExtension` inserts the suffix before a file extension;
+ * `ignoreCase` compares names case-insensitively (as folder names are)
+ * @returns `name` itself if it is free, otherwise the first free suffixed variant
+ * 
+ * @example
+ * ```typescript
+ * getAvailableName('report.pdf', ['report.pdf'], { keepExtension: true });
+ * // => 'report (1).pdf'
+ * 
+ * getAvailableName('Template', ['template', 'Template (1)'], { ignoreCase: true });
+ * // => 'Template (2)'
+ * ```
+ */
+export function getAvailableName(
+  name: string,
+  taken: string[],
+  options: { keepExtension?: boolean, ignoreCase?: boolean } = {}
+): string {
+  const normalize = (value: string) => options.ignoreCase ? value.toLowerCase() : value;
+  const used = new Set(taken.map(normalize));
+  if (!used.has(normalize(name))) return name;
+
+  const dot = options.keepExtension ? name.lastIndexOf('.') : -1;
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+
+  let counter = 1;
+  while (used.has(normalize(`${base} (${counter})${extension}`))) {
+    counter++;
+  }
+  return `${base} (${counter})${extension}`;
+}
+
+/**
+ * Formats a size in bytes for display, using binary units (1 KB = 1024 B).
+ * 
+ * @param bytes - The size in bytes, as stored in `File.size`
+ * @param locale - The locale to format the number for; defaults to the user's (browser) locale
+ * @returns The size with one decimal below 10 units, e.g. `"512 B"`, `"1.5 MB"`, `"12 GB"`
+ * 
+ * @example
+ * ```typescript
+ * formatBytes(1536);            // => '1.5 KB'
+ * formatBytes(10 * 1024 ** 3);  // => '10 GB'
+ * formatBytes(1536, 'de-DE');   // => '1,5 KB'
+ * ```
+ * 
+ * @remarks
+ * Used wherever a size is shown, so every view agrees on units and rounding.
+ */
+export function formatBytes(bytes: number, locale?: string): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+  let value = bytes;
+  let unit = 0;
+  while (Math.abs(value) >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  // whole bytes, and one decimal for small values of the larger units
+  const digits = unit > 0 && Math.abs(value) < 10 ? 1 : 0;
+  return `${new Intl.NumberFormat(locale, { maximumFractionDigits: digits }).format(value)} ${units[unit]}`;
+}
@@ -0,0 +1,50 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { createZipStream, type ZipEntry } from "./zip-stream";
+import { readZipEntries } from "./zip-reader";
+
+const text = (content: string) => async () => new Response(content).body!;
+const zipOf = async (entries: ZipEntry[]) => Buffer.from(await new Response(createZipStream(entries)).arrayBuffer());
+
+/** Returns the offset of the first central directory header. */
+const centralDirectory = (zip: Buffer) => zip.readUInt32LE(zip.length - 22 + 16);
+
+describe("readZipEntries", () => {
+    it("lists and reads entries", async () => {
+        const entries = readZipEntries(await zipOf([
+            { name: "docs/" },
+            { name: "docs/a.txt", data: text("alpha") },
+            { name: "b.txt", data: text("b".repeat(10_000)) },
+        ]));
+
+        expect(entries.map(({ name, directory, size }) => ({ name, directory, size }))).toEqual([
+            { name: "docs/", directory: true, size: 0 },
+            { name: "docs/a.txt", directory: false, size: 5 },
+            { name: "b.txt", directory: false, size: 10_000 },
+        ]);
+        expect(entries[1].read().toString()).toBe("alpha");
+        expect(entries[2].read().toString()).toBe("b".repeat(10_000));
+        expect(entries[2].compressedSize).toBeLessThan(100);
+    });
+
+    it("refuses to inflate past the declared size", async () => {
+        const zip = await zipOf([{ name: "bomb.txt", data: text("0".repeat(100_000)) }]);
+        // claim the entry is tiny, as a zip bomb would
+        zip.writeUInt32LE(10, centralDirectory(zip) + 24);
+
+        const [entry] = readZipEntries(zip);
+        expect(entry.size).toBe(10);
+        expect(() => entry.read()).toThrow();
+    });
+
+    it("detects corrupted content", async () => {
+        const zip = await zipOf([{ name: "a.txt", data: text("alpha") }]);
+        zip.writeUInt32LE(0xDEADBEEF, centralDirectory(zip) + 16);
+
+        expect(() => readZipEntries(zip)[0].read()).toThrow("does not match its declared size or checksum");
+    });
+
+    it("rejects data that is not a ZIP archive", () => {
+        expect(() => readZipEntries(Buffer.from("definitely not a zip archive"))).toThrow("Not a ZIP archive");
+    });
+});
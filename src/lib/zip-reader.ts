@@ -0,0 +1,136 @@
+import { inflateRawSync } from "zlib";
+import { crc32 } from "@/lib/zip-stream";
+
+/**
+ * @fileoverview ZIP archive reader.
+ *
+ * Lists the entries of an in-memory ZIP archive from its central directory and
+ * decompresses them one at a time on demand. Sizes and checksums are verified on
+ * read, so an entry can never expand beyond the size its header declares.
+ *
+ * @module lib/zip-reader
+ */
+
+/**
+ * An entry listed in a ZIP archive's central directory.
+ *
+ * @property name - Path of the entry as stored in the archive (not sanitised)
+ * @property directory - Whether the entry is a directory marker
+ * @property size - Declared uncompressed size in bytes
+ * @property compressedSize - Size of the stored data in bytes
+ * @property read - Decompresses and returns the entry's content
+ */
+export type ZipArchiveEntry = {
+    name: string;
+    directory: boolean;
+    size: number;
+    compressedSize: number;
+    read: () => Buffer;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_LENGTH = 22;
+const MAX_COMMENT_LENGTH = 0xFFFF;
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+    const lowest = Math.max(0, zip.length - EOCD_LENGTH - MAX_COMMENT_LENGTH);
+    for (let offset = zip.length - EOCD_LENGTH; offset >= lowest; offset--) {
+        if (zip.readUInt32LE(offset) === EOCD_SIGNATURE) return offset;
+    }
+    throw new Error("Not a ZIP archive");
+}
+
+/**
+ * Lists the entries of a ZIP archive.
+ *
+ * Only the central directory is parsed; no entry is decompressed until its `read`
+ * function is called.
+ *
+ * @param zip - The complete archive
+ * @returns The archive's entries, in central directory order
+ *
+ * @throws {@link Error}
+ * Throws if the buffer is not a ZIP archive, is truncated, or uses ZIP64. `read`
+ * throws if the entry is encrypted, uses a compression method other than STORE or
+ * DEFLATE, or its content does not match the declared size or checksum.
+ *
+ * @example
+ * ```typescript
+ * for (const entry of readZipEntries(buffer)) {
+ *   if (!entry.directory) console.log(entry.name, entry.read().length);
+ * }
+ * ```
+ */
+export function readZipEntries(zip: Buffer): ZipArchiveEntry[] {
+    if (zip.length < EOCD_LENGTH) {
+        throw new Error("Not a ZIP archive");
+    }
+
+    const end = findEndOfCentralDirectory(zip);
+    const count = zip.readUInt16LE(end + 10);
+    const directoryOffset = zip.readUInt32LE(end + 16);
+    if (count === 0xFFFF || directoryOffset === 0xFFFFFFFF) {
+        throw new Error("ZIP64 archives are not supported");
+    }
+
+    const entries: ZipArchiveEntry[] = [];
+    let cursor = directoryOffset;
+    for (let i = 0; i < count; i++) {
+        if (cursor + 46 > zip.length || zip.readUInt32LE(cursor) !== CENTRAL_SIGNATURE) {
+            throw new Error("Corrupt ZIP central directory");
+        }
+
+        const flags = zip.readUInt16LE(cursor + 8);
+        const method = zip.readUInt16LE(cursor + 10);
+        const checksum = zip.readUInt32LE(cursor + 16);
+        const compressedSize = zip.readUInt32LE(cursor + 20);
+        const size = zip.readUInt32LE(cursor + 24);
+        const nameLength = zip.readUInt16LE(cursor + 28);
+        const extraLength = zip.readUInt16LE(cursor + 30);
+        const commentLength = zip.readUInt16LE(cursor + 32);
+        const localOffset = zip.readUInt32LE(cursor + 42);
+        const name = zip.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+
+        entries.push({
+            name,
+            directory: name.endsWith("/"),
+            size,
+            compressedSize,
+            read: () => {
+                if (flags & 0x1) {
+                    throw new Error(`"${name}" is encrypted`);
+                }
+                if (localOffset + 30 > zip.length || zip.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+                    throw new Error(`Corrupt local header for "${name}"`);
+                }
+
+                const start = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+                if (start + compressedSize > zip.length) {
+                    throw new Error(`"${name}" is truncated`);
+                }
+                const data = zip.subarray(start, start + compressedSize);
+
+                let content: Buffer;
+                if (method === 0) {
+                    content = Buffer.from(data);
+                } else if (method === 8) {
+                    // refuse to inflate past the declared size, whatever the data says
+                    content = inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+                } else {
+                    throw new Error(`"${name}" uses an unsupported compression method`);
+                }
+
+                if (content.length !== size || crc32(content) !== checksum) {
+                    throw new Error(`"${name}" does not match its declared size or checksum`);
+                }
+                return content;
+            },
+        });
+
+        cursor += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
@@ -0,0 +1,169 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { inflateRawSync } from "zlib";
+import { createZipStream, type ZipEntry } from "./zip-stream";
+
+const streamOf = (...chunks: string[]) => async () => new ReadableStream<Uint8Array>({
+    start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(new TextEncoder().encode(chunk)));
+        controller.close();
+    },
+});
+
+/** Reads an archive back through its central directory, as unzip tools do. */
+async function readZip(stream: ReadableStream<Uint8Array>): Promise<Record<string, string | null>> {
+    const zip = Buffer.from(await new Response(stream).arrayBuffer());
+    const end = zip.length - 22;
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+
+    const entries: Record<string, string | null> = {};
+    let cursor = zip.readUInt32LE(end + 16);
+    for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+        expect(zip.readUInt32LE(cursor)).toBe(0x02014b50);
+        const method = zip.readUInt16LE(cursor + 10);
+        const compressedSize = zip.readUInt32LE(cursor + 20);
+        const size = zip.readUInt32LE(cursor + 24);
+        const nameLength = zip.readUInt16LE(cursor + 28);
+        const offset = zip.readUInt32LE(cursor + 42);
+        const name = zip.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+
+        expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+        const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+        const data = zip.subarray(dataStart, dataStart + compressedSize);
+        const content = method === 8 ? inflateRawSync(data) : data;
+        expect(content.length).toBe(size);
+        entries[name] = name.endsWith("/") ? null : content.toString("utf8");
+
+        cursor += 46 + nameLength;
+    }
+    return entries;
+}
+
+type LocalEntry = { name: string, version: number, zip64: boolean, content: string, size: number };
+
+/**
+ * Reads an archive front to back from its local headers and data descriptors, as
+ * streaming unzip tools do: 8-byte descriptor sizes are expected only when the local
+ * header has a ZIP64 extra field.
+ */
+function readLocalEntries(zip: Buffer): LocalEntry[] {
+    const entries: LocalEntry[] = [];
+    let cursor = 0;
+    while (zip.readUInt32LE(cursor) === 0x04034b50) {
+        const version = zip.readUInt16LE(cursor + 4);
+        const method = zip.readUInt16LE(cursor + 8);
+        const nameLength = zip.readUInt16LE(cursor + 26);
+        const extraLength = zip.readUInt16LE(cursor + 28);
+        const name = zip.toString("utf8", cursor + 30, cursor + 30 + nameLength);
+        const extra = zip.subarray(cursor + 30 + nameLength, cursor + 30 + nameLength + extraLength);
+        const zip64 = extra.length >= 4 && extra.readUInt16LE(0) === 0x0001;
+        if (zip64) {
+            expect(extra.readUInt16LE(2)).toBe(16);
+            expect(extra.subarray(4, 20)).toEqual(Buffer.alloc(16));
+        }
+        cursor += 30 + nameLength + extraLength;
+
+        let content: Buffer = Buffer.alloc(0);
+        if (method === 8) {
+            // the end of the data is where the DEFLATE stream ends
+            const { buffer, engine } = inflateRawSync(zip.subarray(cursor), { info: true }) as unknown as { buffer: Buffer, engine: { bytesWritten: number } };
+            content = buffer;
+            cursor += engine.bytesWritten;
+        }
+
+        expect(zip.readUInt32LE(cursor)).toBe(0x08074b50);
+        const size = zip64 ? Number(zip.readBigUInt64LE(cursor + 16)) : zip.readUInt32LE(cursor + 12);
+        cursor += zip64 ? 24 : 16;
+        entries.push({ name, version, zip64, content: content.toString("utf8"), size });
+    }
+    expect(zip.readUInt32LE(cursor)).toBe(0x02014b50);
+    return entries;
+}
+
+describe("createZipStream", () => {
+    it("writes files and directories that read back intact", async () => {
+        const entries: ZipEntry[] = [
+            { name: "Template" },
+            { name: "Template/brief.txt", data: streamOf("hello ", "world") },
+            { name: "Template/assets/" },
+            { name: "Template/assets/ünïcode.txt", data: streamOf("x".repeat(100_000)) },
+            { name: "Template/empty.txt", data: streamOf() },
+        ];
+
+        expect(await readZip(createZipStream(entries))).toEqual({
+            "Template/": null,
+            "Template/brief.txt": "hello world",
+            "Template/assets/": null,
+            "Template/assets/ünïcode.txt": "x".repeat(100_000),
+            "Template/empty.txt": "",
+        });
+    });
+
+    it("produces a valid empty archive", async () => {
+        expect(await readZip(createZipStream([]))).toEqual({});
+    });
+
+    it("writes ZIP64 end records for more entries than the classic format holds", async () => {
+        const count = 70_000;
+        const zip = Buffer.from(await new Response(createZipStream(
+            Array.from({ length: count }, (_, i) => ({ name: `folder-${i}/` })))).arrayBuffer());
+
+        const end = zip.length - 22;
+        expect(zip.readUInt16LE(end + 10)).toBe(0xFFFF);
+        const locator = end - 20;
+        expect(zip.readUInt32LE(locator)).toBe(0x07064b50);
+        const zip64End = Number(zip.readBigUInt64LE(locator + 8));
+        expect(zip.readUInt32LE(zip64End)).toBe(0x06064b50);
+        expect(zip.readBigUInt64LE(zip64End + 32)).toBe(BigInt(count));
+        // the central directory starts where the ZIP64 end record says
+        expect(zip.readUInt32LE(Number(zip.readBigUInt64LE(zip64End + 48)))).toBe(0x02014b50);
+    });
+
+    it("marks entries that may reach 4 GiB as ZIP64 from their local header on", async () => {
+        const zip = Buffer.from(await new Response(createZipStream([
+            { name: "huge.bin", size: 5 * 2 ** 30, data: streamOf("big") },
+            { name: "almost.bin", size: 0xFFFFFFFF - 1000, data: streamOf("close") },
+            { name: "small.txt", size: 5, data: streamOf("small") },
+        ])).arrayBuffer());
+
+        expect(readLocalEntries(zip)).toEqual([
+            { name: "huge.bin", version: 45, zip64: true, content: "big", size: 3 },
+            { name: "almost.bin", version: 45, zip64: true, content: "close", size: 5 },
+            { name: "small.txt", version: 20, zip64: false, content: "small", size: 5 },
+        ]);
+
+        // the central record gives the real sizes in its own ZIP64 extra field
+        const central = zip.readUInt32LE(zip.length - 22 + 16);
+        expect(zip.readUInt16LE(central + 6)).toBe(45);
+        expect(zip.readUInt32LE(central + 20)).toBe(0xFFFFFFFF);
+        expect(zip.readUInt32LE(central + 24)).toBe(0xFFFFFFFF);
+        const extra = central + 46 + zip.readUInt16LE(central + 28);
+        expect(zip.readUInt16LE(extra)).toBe(0x0001);
+        expect(zip.readUInt16LE(extra + 2)).toBe(16);
+        expect(zip.readBigUInt64LE(extra + 4)).toBe(BigInt(3));
+    });
+
+        it("opens each entry only when the archive reaches it", async () => {
+        const opened: string[] = [];
+        async function* entries(): AsyncGenerator<ZipEntry> {
+            for (const name of ["a.txt", "b.txt"]) {
+                yield { name, data: async () => { opened.push(name); return streamOf(name)(); } };
+            }
+        }
+
+        const reader = createZipStream(entries()).getReader();
+        await reader.read();
+        expect(opened).toEqual([]);
+        await reader.read();
+        expect(opened).toEqual(["a.txt"]);
+        await reader.cancel();
+        expect(opened).toEqual(["a.txt"]);
+    });
+
+    it("errors the stream when an entry cannot be read", async () => {
+        const stream = createZipStream([
+            { name: "missing.txt", data: () => Promise.reject(new Error("Object not found")) },
+        ]);
+        await expect(new Response(stream).arrayBuffer()).rejects.toThrow("Object not found");
+    });
+});
@@ -1,7 +1,7 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
 import { NextResponse } from "next/server";
 
-const isPublicRoute = createRouteMatcher(["/", "/login(.*)", "/signup(.*)"]);
+const isPublicRoute = createRouteMatcher(["/", "/login(.*)", "/signup(.*)", "/api/storage(.*)", "/api/trash/purge", "/api/uploads/purge", "/api/uploads/deduplicate", "/api/thumbnails/process"]);
 
 export default clerkMiddleware(async (auth, req) => {
     const { userId } = await auth();
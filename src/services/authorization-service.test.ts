@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { AuthorizationService, AuthorizationError } from "./authorization-service";
+
+describe("AuthorizationService", () => {
+    const resource = { id: "folder-123", owner_clerk_id: "user-owner" };
+
+    const statusOf = (fn: () => void): number | null => {
+        try {
+            fn();
+            return null;
+        } catch (error) {
+            expect(error).toBeInstanceOf(AuthorizationError);
+            return (error as AuthorizationError).status;
+        }
+    };
+
+    describe("assertCanRead", () => {
+        it("allows the owner to read their resource", () => {
+            expect(statusOf(() => AuthorizationService.assertCanRead("user-owner", resource))).toBeNull();
+        });
+
+        it("rejects another user with 403", () => {
+            expect(statusOf(() => AuthorizationService.assertCanRead("user-intruder", resource))).toBe(403);
+        });
+
+        it("rejects unauthenticated requests with 401", () => {
+            expect(statusOf(() => AuthorizationService.assertCanRead(null, resource))).toBe(401);
+        });
+
+        it("rejects missing resources with 404", () => {
+            expect(statusOf(() => AuthorizationService.assertCanRead("user-owner", null))).toBe(404);
+        });
+    });
+
+    describe("assertCanWrite", () => {
+        it("allows the owner to modify their resource", () => {
+            expect(statusOf(() => AuthorizationService.assertCanWrite("user-owner", resource))).toBeNull();
+        });
+
+        it("rejects another user with 403", () => {
+            expect(statusOf(() => AuthorizationService.assertCanWrite("user-intruder", resource))).toBe(403);
+        });
+
+        it("checks authentication before existence", () => {
+            expect(statusOf(() => AuthorizationService.assertCanWrite(undefined, null))).toBe(401);
+        });
+    });
+});
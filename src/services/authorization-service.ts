@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Central authorization layer for owner-scoped resources.
+ *
+ * This module decides whether an authenticated Clerk user may read or modify a
+ * file or folder. Every owner-facing API route goes through these checks (via
+ * {@link FileService.authorizeFile} and {@link FolderService.authorizeFolder})
+ * so that knowing a resource's UUID is never enough to access it.
+ *
+ * @module services/authorization-service
+ */
+
+/**
+ * The kind of access being requested on a resource.
+ *
+ * - `read`: viewing metadata, listing contents, generating download URLs
+ * - `write`: deleting, sharing, uploading into or creating folders inside
+ */
+export type Permission = "read" | "write";
+
+/**
+ * The minimal shape of a resource that can be authorized.
+ * Both {@link File} and {@link Folder} satisfy this.
+ */
+export type OwnedResource = {
+    id: string;
+    owner_clerk_id: string;
+};
+
+/**
+ * Error thrown when an authorization check fails.
+ *
+ * Carries the HTTP status that the API route should respond with, so routes can
+ * turn it into a JSON response without knowing why the check failed.
+ *
+ * @extends Error
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await FileService.authorizeFile(userId, fileId, "write");
+ * } catch (error) {
+ *   if (error instanceof AuthorizationError) {
+ *     return NextResponse.json({ error: error.message }, { status: error.status });
+ *   }
+ *   throw error;
+ * }
+ * ```
+ *
+ * @remarks
+ * - `401` the request is not authenticated
+ * - `403` the resource exists but belongs to another user
+ * - `404` the resource does not exist
+ */
+export class AuthorizationError extends Error {
+    /**
+     * Creates a new AuthorizationError instance.
+     *
+     * @param message - Human-readable error message returned to the client
+     * @param status - HTTP status code the route should respond with
+     */
+    constructor(
+        message: string,
+        public status: 401 | 403 | 404
+    ) {
+        super(message);
+        this.name = 'AuthorizationError';
+    }
+}
+
+/**
+ * Service class enforcing ownership rules on files and folders.
+ *
+ * @remarks
+ * Access is currently owner-only: a user can read and write exactly the files
+ * and folders whose `owner_clerk_id` matches their Clerk user ID. Access granted
+ * through share tokens is validated separately by the `/api/shared/*` routes and
+ * does not go through this service.
+ *
+ * All methods are static and throw {@link AuthorizationError} on failure.
+ *
+ * @example
+ * ```typescript
+ * const { userId } = await auth();
+ * const folder = await FolderService.getFolder(folderId);
+ * AuthorizationService.assertCanWrite(userId, folder);
+ * // folder is now known to exist and belong to userId
+ * ```
+ */
+export class AuthorizationService {
+    /**
+     * Asserts that the user may read the given resource.
+     *
+     * @param userId - The Clerk user ID from `auth()`, or null if unauthenticated
+     * @param resource - The resource being accessed, or null if it wasn't found
+     *
+     * @throws {@link AuthorizationError}
+     * - `401` if `userId` is missing
+     * - `404` if `resource` is missing
+     * - `403` if the resource belongs to another user
+     */
+    static assertCanRead<T extends OwnedResource>(
+        userId: string | null | undefined,
+        resource: T | null | undefined): asserts resource is T {
+        AuthorizationService.assertPermission(userId, resource, "read");
+    }
+
+    /**
+     * Asserts that the user may modify the given resource.
+     *
+     * @param userId - The Clerk user ID from `auth()`, or null if unauthenticated
+     * @param resource - The resource being modified, or null if it wasn't found
+     *
+     * @throws {@link AuthorizationError}
+     * - `401` if `userId` is missing
+     * - `404` if `resource` is missing
+     * - `403` if the resource belongs to another user
+     */
+    static assertCanWrite<T extends OwnedResource>(
+        userId: string | null | undefined,
+        resource: T | null | undefined): asserts resource is T {
+        AuthorizationService.assertPermission(userId, resource, "write");
+    }
+
+    /**
+     * Asserts the given permission on a resource.
+     *
+     * @param userId - The Clerk user ID from `auth()`, or null if unauthenticated
+     * @param resource - The resource being accessed, or null if it wasn't found
+     * @param permission - The kind of access requested
+     *
+     * @throws {@link AuthorizationError} if access is not allowed
+     */
+    static assertPermission<T extends OwnedResource>(
+        userId: string | null | undefined,
+        resource: T | null | undefined,
+        permission: Permission): asserts resource is T {
+        if (!userId) {
+            throw new AuthorizationError("Unauthorized", 401);
+        }
+
+        if (!resource) {
+            throw new AuthorizationError("Resource not found", 404);
+        }
+
+        if (resource.owner_clerk_id !== userId) {
+            throw new AuthorizationError(`Forbidden: you do not have ${permission} access to this resource`, 403);
+        }
+    }
+}
@@ -0,0 +1,236 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { BlobService } from "./blob-service";
+import prisma from "@/lib/db-client";
+import s3Client from "@/lib/s3-client";
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => {
+    const client = {
+        file: {
+            aggregate: vi.fn(),
+            findUnique: vi.fn(),
+            update: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        fileVersion: {
+            aggregate: vi.fn(),
+        },
+        blob: {
+            updateMany: vi.fn(),
+            findUnique: vi.fn(),
+            upsert: vi.fn(),
+            update: vi.fn(),
+            deleteMany: vi.fn(),
+            aggregate: vi.fn(),
+        },
+        $transaction: vi.fn((operations: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>)) =>
+            typeof operations === "function" ? operations(client) : Promise.all(operations)),
+    };
+    return { default: client };
+});
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("BlobService", () => {
+    const blob = { id: "hash", size: 5, s3_key: "stored-key", ref_count: 1, created_at: new Date() };
+
+    describe("hashObject", () => {
+        it("hashes the object's bytes", async () => {
+            vi.mocked(s3Client.send).mockResolvedValueOnce({
+                Body: { transformToWebStream: () => new Response("hello").body },
+            } as never);
+
+            expect(await BlobService.hashObject("key")).toBe(BlobService.hashBuffer(Buffer.from("hello")));
+        });
+    });
+
+    describe("deduplicateFile", () => {
+        const uploaded = {
+            id: "file-1",
+            file_name: "report.pdf",
+            size: 5,
+            s3_key: "upload-key",
+            blob_id: null,
+            dedup_pending: true,
+            pending_until: null,
+        };
+
+        beforeEach(() => {
+            vi.mocked(prisma.file.findUnique).mockResolvedValue(uploaded as never);
+            vi.mocked(s3Client.send).mockResolvedValueOnce({
+                Body: { transformToWebStream: () => new Response("hello").body },
+            } as never);
+        });
+
+        it("shares content stored before and deletes the upload's own object", async () => {
+            vi.mocked(prisma.blob.upsert).mockResolvedValue({ ...blob, ref_count: 2 } as never);
+            vi.mocked(prisma.file.updateMany).mockResolvedValue({ count: 1 } as never);
+
+            expect(await BlobService.deduplicateFile("file-1")).toMatchObject({ s3_key: "stored-key" });
+            expect(prisma.blob.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: BlobService.hashBuffer(Buffer.from("hello")) },
+            }));
+            expect(prisma.file.updateMany).toHaveBeenCalledWith({
+                where: { id: "file-1", s3_key: "upload-key", blob_id: null },
+                data: expect.objectContaining({ blob_id: "hash", s3_key: "stored-key", dedup_pending: false }),
+            });
+            expect(vi.mocked(s3Client.send).mock.calls[1][0].input).toMatchObject({ Key: "upload-key" });
+        });
+
+        it("keeps the object when the file changed while it was hashed", async () => {
+            vi.mocked(prisma.blob.upsert).mockResolvedValue({ ...blob, ref_count: 2 } as never);
+            vi.mocked(prisma.file.updateMany).mockResolvedValue({ count: 0 } as never);
+
+            expect(await BlobService.deduplicateFile("file-1")).toBeNull();
+            expect(s3Client.send).toHaveBeenCalledTimes(1);
+        });
+
+        it("clears the flag of files too large to hash without reading them", async () => {
+            vi.mocked(prisma.file.findUnique).mockResolvedValue({ ...uploaded, size: 600 * 1024 * 1024 } as never);
+
+            expect(await BlobService.deduplicateFile("file-1")).toBeNull();
+            expect(prisma.file.update).toHaveBeenCalledWith({ where: { id: "file-1" }, data: { dedup_pending: false } });
+            expect(prisma.blob.upsert).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("claimBlob", () => {
+        it("takes a reference to content that is already stored", async () => {
+            vi.mocked(prisma.blob.updateMany).mockResolvedValue({ count: 1 } as never);
+            vi.mocked(prisma.blob.findUnique).mockResolvedValue(blob as never);
+
+            expect(await BlobService.claimBlob("hash")).toEqual(blob);
+            expect(prisma.blob.updateMany).toHaveBeenCalledWith({
+                where: { id: "hash" },
+                data: { ref_count: { increment: 1 } },
+            });
+        });
+
+        it("returns null for new content", async () => {
+            vi.mocked(prisma.blob.updateMany).mockResolvedValue({ count: 0 } as never);
+
+            expect(await BlobService.claimBlob("hash")).toBeNull();
+            expect(prisma.blob.findUnique).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("storeBlob", () => {
+        it("deletes the new object when the content was stored under another one", async () => {
+            vi.mocked(prisma.blob.upsert).mockResolvedValue({ ...blob, ref_count: 2 } as never);
+
+            const stored = await BlobService.storeBlob("hash", 5, "new-key");
+
+            expect(stored.s3_key).toBe("stored-key");
+            expect(vi.mocked(s3Client.send).mock.calls[0][0].input).toMatchObject({ Key: "new-key" });
+        });
+    });
+
+    describe("releaseContent", () => {
+        beforeEach(() => {
+            vi.mocked(prisma.blob.update).mockResolvedValue({ ...blob, ref_count: 0 } as never);
+        });
+
+        it("deletes the blob and its object with the last reference", async () => {
+            vi.mocked(prisma.blob.deleteMany).mockResolvedValue({ count: 1 } as never);
+
+            await BlobService.releaseContent({ blob_id: "hash", s3_key: "stored-key" });
+
+            expect(prisma.blob.update).toHaveBeenCalledWith({
+                where: { id: "hash" },
+                data: { ref_count: { decrement: 1 } },
+            });
+            expect(prisma.blob.deleteMany).toHaveBeenCalledWith({
+                where: { id: "hash", ref_count: { lte: 0 } },
+            });
+            expect(vi.mocked(s3Client.send).mock.calls[0][0].input).toMatchObject({ Key: "stored-key" });
+        });
+
+        it("keeps the object while other references remain", async () => {
+            vi.mocked(prisma.blob.deleteMany).mockResolvedValue({ count: 0 } as never);
+
+            await BlobService.releaseContent({ blob_id: "hash", s3_key: "stored-key" });
+
+            expect(s3Client.send).not.toHaveBeenCalled();
+        });
+
+        it("deletes the object of content stored before deduplication", async () => {
+            await BlobService.releaseContent({ blob_id: null, s3_key: "legacy-key" });
+
+            expect(prisma.blob.update).not.toHaveBeenCalled();
+            expect(vi.mocked(s3Client.send).mock.calls[0][0].input).toMatchObject({ Key: "legacy-key" });
+        });
+    });
+
+    describe("indexContent", () => {
+        beforeEach(() => {
+            vi.mocked(prisma.blob.findUnique).mockResolvedValue({ content_text: null } as never);
+        });
+
+        it("stores the text of content at hand", async () => {
+            await BlobService.indexContent(blob, "notes.md", Buffer.from("# Budget\n\nReview"));
+
+            expect(prisma.blob.update).toHaveBeenCalledWith({
+                where: { id: "hash" },
+                data: { content_text: "# Budget\nReview" },
+            });
+            expect(s3Client.send).not.toHaveBeenCalled();
+        });
+
+        it("reads the content from storage when it is not at hand", async () => {
+            vi.mocked(s3Client.send).mockResolvedValueOnce({
+                Body: { transformToWebStream: () => new Response("a,b\n1,2").body },
+            } as never);
+
+            await BlobService.indexContent(blob, "data.csv");
+
+            expect(vi.mocked(s3Client.send).mock.calls[0][0].input).toMatchObject({ Key: "stored-key" });
+            expect(prisma.blob.update).toHaveBeenCalledWith(expect.objectContaining({ data: { content_text: "a,b\n1,2" } }));
+        });
+
+        it("skips content that is indexed already or not text", async () => {
+            await BlobService.indexContent(blob, "photo.jpg", Buffer.from("jpeg"));
+            expect(prisma.blob.findUnique).not.toHaveBeenCalled();
+
+            vi.mocked(prisma.blob.findUnique).mockResolvedValue({ content_text: "indexed" } as never);
+            await BlobService.indexContent(blob, "notes.txt", Buffer.from("text"));
+            expect(prisma.blob.update).not.toHaveBeenCalled();
+        });
+
+        it("never fails the upload", async () => {
+            vi.mocked(prisma.blob.update).mockRejectedValue(new Error("database down"));
+            const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+            await expect(BlobService.indexContent(blob, "notes.txt", Buffer.from("text"))).resolves.toBeUndefined();
+            expect(consoleSpy).toHaveBeenCalled();
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe("getUsage", () => {
+        it("counts every file for logical bytes and each blob once for physical bytes", async () => {
+            vi.mocked(prisma.file.aggregate)
+                .mockResolvedValueOnce({ _sum: { size: BigInt(300) } } as never)
+                .mockResolvedValueOnce({ _sum: { size: BigInt(50) } } as never);
+            vi.mocked(prisma.fileVersion.aggregate)
+                .mockResolvedValueOnce({ _sum: { size: BigInt(100) } } as never)
+                .mockResolvedValueOnce({ _sum: { size: null } } as never);
+            vi.mocked(prisma.blob.aggregate).mockResolvedValue({ _sum: { size: BigInt(120) } } as never);
+
+            expect(await BlobService.getUsage("user-owner")).toEqual({ logical_bytes: 400, physical_bytes: 170 });
+            expect(prisma.file.aggregate).toHaveBeenCalledWith({
+                where: { owner_clerk_id: "user-owner", pending_until: null },
+                _sum: { size: true },
+            });
+        });
+    });
+});
@@ -0,0 +1,424 @@
+import { createHash } from 'crypto';
+import prisma from '@/lib/db-client';
+import storageDriver from '@/lib/storage-client';
+import { type StorageUsage } from '@/types/types';
+import { extractText, isTextExtractable } from '@/lib/text-extraction';
+
+/**
+ * @fileoverview Content-addressed storage of file bytes.
+ *
+ * Uploads are hashed with SHA-256 and the content is recorded once as a {@link StoredBlob},
+ * keyed by its hash. Every File and FileVersion row with that content points at the
+ * blob (`blob_id`) and shares its object, so uploading the same bytes twice, copying a
+ * file or keeping an unchanged version stores nothing new.
+ *
+ * Blobs are reference counted: each referencing row holds one reference, and the
+ * object is deleted when the last one is released. Rows stored before deduplication
+ * have no `blob_id` and own their object outright; {@link BlobService.releaseContent}
+ * handles both.
+ *
+ * Direct uploads never pass through the app, so they are hashed afterwards, in the
+ * background: the completed file is flagged `dedup_pending` and
+ * {@link BlobService.deduplicateFile} streams its object once the response is sent
+ * (or {@link BlobService.processPending} from a scheduled job).
+ *
+ * The searchable text of a blob ({@link BlobService.indexContent}) is stored with it,
+ * so it is extracted once however many files share the content.
+ *
+ * @module services/blob-service
+ */
+
+/**
+ * A stored content, shared by every file and version with the same bytes.
+ */
+export type StoredBlob = {
+    /** Hex SHA-256 of the content */
+    id: string;
+    /** Size of the content in bytes */
+    size: number;
+    /** Key of the object holding the content */
+    s3_key: string;
+    /** Number of File and FileVersion rows referencing the blob */
+    ref_count: number;
+    created_at: Date;
+};
+
+/**
+ * Largest content whose text is extracted for search, in bytes.
+ */
+const MAX_INDEXED_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Largest direct upload that is hashed and deduplicated, in bytes. Larger files keep
+ * their own object, so that hashing fits in a function timeout.
+ */
+const MAX_HASHED_BYTES = 512 * 1024 * 1024;
+
+/**
+ * Thrown inside the deduplication transaction to roll it back when the file's
+ * content changed while it was hashed.
+ */
+class ContentChangedError extends Error {}
+
+/**
+ * The storage a File or FileVersion row points at.
+ */
+export type StoredContent = {
+    blob_id?: string | null;
+    s3_key: string | null;
+};
+
+/**
+ * Service class for content-addressed blobs.
+ *
+ * All methods in this service are static and handle their own error management.
+ *
+ * @example
+ * ```typescript
+ * const hash = BlobService.hashBuffer(buffer);
+ * let blob = await BlobService.claimBlob(hash);
+ * if (!blob) {
+ *   await storageDriver.putObject(key, buffer);
+ *   blob = await BlobService.storeBlob(hash, buffer.length, key);
+ * }
+ * // ...later, when the file is deleted
+ * await BlobService.releaseContent({ blob_id: blob.id, s3_key: blob.s3_key });
+ * ```
+ */
+export class BlobService {
+    /**
+     * Computes the content hash of bytes held in memory.
+     *
+     * @param data - The content
+     * @returns The hex SHA-256 of the content
+     */
+    static hashBuffer(data: Buffer): string {
+        return createHash('sha256').update(data).digest('hex');
+    }
+
+    /**
+     * Computes the content hash of a stored object by streaming it from storage.
+     *
+     * @param key - The object key
+     * @returns A promise that resolves to the hex SHA-256 of the object
+     *
+     * @throws {@link Error}
+     * Throws an error if the object cannot be read
+     *
+     * @remarks
+     * Used for direct uploads, whose bytes never pass through the app: the client's
+     * word about the content cannot be trusted, and multipart checksums computed by
+     * the backend are not a hash of the whole object. Only call it in the background
+     * ({@link deduplicateFile}), never while a request waits.
+     */
+    static async hashObject(key: string): Promise<string> {
+        try {
+            const hash = createHash('sha256');
+            const reader = (await storageDriver.getObjectStream(key)).getReader();
+            for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+                hash.update(chunk.value);
+            }
+            return hash.digest('hex');
+        } catch (error) {
+            console.error("Error hashing object: ", error);
+            throw new Error(`Failed to hash object: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Takes a reference to an existing blob, if content with this hash is already stored.
+     *
+     * @param hash - The hex SHA-256 of the content
+     * @returns A promise that resolves to the blob, or null if the content is new
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @remarks
+     * The reference is taken before the blob is read back, so a concurrent release
+     * of the last other reference can no longer delete it.
+     */
+    static async claimBlob(hash: string): Promise<StoredBlob | null> {
+        try {
+            const { count } = await prisma.blob.updateMany({
+                where: { id: hash },
+                data: { ref_count: { increment: 1 } },
+            });
+            if (count === 0) return null;
+            return await prisma.blob.findUnique({ where: { id: hash } });
+        } catch (error) {
+            console.error("Error claiming blob: ", error);
+            throw new Error(`Failed to claim blob: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Records a stored object as the blob for its content and takes a reference to it.
+     *
+     * If the content is already stored under another object (e.g. two identical uploads
+     * completed at the same time), that blob is referenced instead and the given object
+     * is deleted as a duplicate.
+     *
+     * @param hash - The hex SHA-256 of the content
+     * @param size - Size of the content in bytes
+     * @param key - The object the content was stored under
+     * @returns A promise that resolves to the blob; its `s3_key` is the object to use
+     *
+     * @throws {@link Error}
+     * Throws an error if the database upsert or the duplicate's deletion fails
+     */
+    static async storeBlob(hash: string, size: number, key: string): Promise<StoredBlob> {
+        try {
+            const blob = await prisma.blob.upsert({
+                where: { id: hash },
+                create: { id: hash, size, s3_key: key, ref_count: 1 },
+                update: { ref_count: { increment: 1 } },
+            });
+            if (blob.s3_key !== key) {
+                await storageDriver.deleteObject(key);
+            }
+            return blob;
+        } catch (error) {
+            console.error("Error storing blob: ", error);
+            throw new Error(`Failed to store blob: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Hashes a directly uploaded file and shares its content with identical files.
+     *
+     * @param fileId - The unique identifier of the file
+     * @returns A promise that resolves to the file's blob, or null if none was recorded
+     *
+     * @remarks
+     * - Only files flagged `dedup_pending` are processed; the flag is cleared once done
+     * - Files over 512 MB are not hashed: the flag is cleared and they keep their own
+     *   object, like files stored before deduplication
+     * - If the content is already stored, the file is pointed at that object and its
+     *   own is deleted; otherwise its object becomes the blob's. Text content is then
+     *   indexed for search ({@link indexContent})
+     * - If the file's content changes while it is hashed (a new version, a rename), the
+     *   result is discarded; the file stays flagged and is processed again later
+     * - Never throws: a failure is logged and the file keeps its own object
+     */
+    static async deduplicateFile(fileId: string): Promise<StoredBlob | null> {
+        try {
+            const file = await prisma.file.findUnique({ where: { id: fileId } });
+            if (!file || !file.dedup_pending || !file.s3_key || file.pending_until) return null;
+            if (file.blob_id || file.size > MAX_HASHED_BYTES) {
+                await prisma.file.update({ where: { id: file.id }, data: { dedup_pending: false } });
+                return null;
+            }
+
+            const key = file.s3_key;
+            const hash = await BlobService.hashObject(key);
+            const blob = await prisma.$transaction(async (tx) => {
+                const blob = await tx.blob.upsert({
+                    where: { id: hash },
+                    create: { id: hash, size: file.size, s3_key: key, ref_count: 1 },
+                    update: { ref_count: { increment: 1 } },
+                });
+                // only if the file still holds the content that was hashed
+                const { count } = await tx.file.updateMany({
+                    where: { id: file.id, s3_key: key, blob_id: null },
+                    data: {
+                        blob_id: blob.id,
+                        s3_key: blob.s3_key,
+                        s3_link: storageDriver.getObjectLink(blob.s3_key),
+                        dedup_pending: false,
+                    },
+                });
+                if (count === 0) throw new ContentChangedError();
+                return blob;
+            });
+
+            if (blob.s3_key !== key) {
+                await storageDriver.deleteObject(key);
+            }
+            await BlobService.indexContent(blob, file.file_name);
+            return blob;
+        } catch (error) {
+            if (error instanceof ContentChangedError) return null;
+            console.error("Error deduplicating file: ", error);
+            return null;
+        }
+    }
+
+    /**
+     * Hashes and deduplicates direct uploads that were not processed after they completed.
+     *
+     * @param limit - Most files to process in one run
+     * @returns A promise that resolves to the number of files now sharing a blob
+     *
+     * @throws {@link Error}
+     * Throws an error if the files to process cannot be queried
+     *
+     * @remarks
+     * Files are processed oldest first, one at a time; failures on individual files are
+     * logged and skipped (see {@link deduplicateFile}).
+     */
+    static async processPending(limit: number): Promise<number> {
+        let pending: { id: string }[];
+        try {
+            pending = await prisma.file.findMany({
+                where: { dedup_pending: true, pending_until: null },
+                orderBy: { created_at: 'asc' },
+                take: limit,
+                select: { id: true },
+            });
+        } catch (error) {
+            console.error("Error finding files to deduplicate: ", error);
+            throw new Error(`Failed to process deduplication: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        let deduplicated = 0;
+        for (const { id } of pending) {
+            if (await BlobService.deduplicateFile(id)) deduplicated++;
+        }
+        return deduplicated;
+    }
+
+    /**
+     * Takes one more reference to a blob, e.g. for a copy of a file.
+     *
+     * @param blobId - The blob's hash
+     *
+     * @throws {@link Error}
+     * Throws an error if the blob does not exist or the database update fails
+     */
+    static async addReference(blobId: string): Promise<void> {
+        try {
+            await prisma.blob.update({
+                where: { id: blobId },
+                data: { ref_count: { increment: 1 } },
+            });
+        } catch (error) {
+            console.error("Error adding blob reference: ", error);
+            throw new Error(`Failed to add blob reference: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Releases the storage of a deleted File or FileVersion row.
+     *
+     * For deduplicated content one reference to the blob is released, and the blob and
+     * its object are deleted once no reference is left. Content stored before
+     * deduplication is deleted right away.
+     *
+     * @param content - The `blob_id` and `s3_key` of the deleted row
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update or object deletion fails
+     *
+     * @remarks
+     * Delete the row first and release its content afterwards: if releasing fails, the
+     * blob keeps one reference too many and its object is left behind, rather than
+     * an object that is still in use being deleted.
+     */
+    static async releaseContent(content: StoredContent): Promise<void> {
+        try {
+            if (!content.blob_id) {
+                if (content.s3_key) await storageDriver.deleteObject(content.s3_key);
+                return;
+            }
+
+            const blob = await prisma.blob.update({
+                where: { id: content.blob_id },
+                data: { ref_count: { decrement: 1 } },
+            });
+            // only delete if no reference was taken in the meantime
+            const { count } = await prisma.blob.deleteMany({
+                where: { id: blob.id, ref_count: { lte: 0 } },
+            });
+            if (count > 0) {
+                await storageDriver.deleteObject(blob.s3_key);
+            }
+        } catch (error) {
+            console.error("Error releasing content: ", error);
+            throw new Error(`Failed to release content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Extracts and stores the searchable text of a blob, unless that was done before.
+     *
+     * @param blob - The blob, as returned by {@link claimBlob} or {@link storeBlob}
+     * @param fileName - Name of the file being stored, which decides the format
+     * @param content - The content, if it is at hand; otherwise it is read from storage
+     *
+     * @remarks
+     * - Only text, Markdown, CSV and PDF files of up to 20 MB are indexed
+     *   (see {@link extractText}); anything else is skipped
+     * - Never throws: a failure is logged and the upload goes ahead, its content just
+     *   won't turn up in search results
+     */
+    static async indexContent(blob: Pick<StoredBlob, 'id' | 'size' | 's3_key'>, fileName: string, content?: Buffer): Promise<void> {
+        try {
+            if (!isTextExtractable(fileName) || blob.size > MAX_INDEXED_BYTES) return;
+
+            const stored = await prisma.blob.findUnique({ where: { id: blob.id }, select: { content_text: true } });
+            if (!stored || stored.content_text !== null) return;
+
+            let data = content;
+            if (!data) {
+                const chunks: Uint8Array[] = [];
+                const reader = (await storageDriver.getObjectStream(blob.s3_key)).getReader();
+                for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+                    chunks.push(chunk.value);
+                }
+                data = Buffer.concat(chunks);
+            }
+
+            await prisma.blob.update({
+                where: { id: blob.id },
+                data: { content_text: extractText(fileName, data) ?? "" },
+            });
+        } catch (error) {
+            console.error("Error indexing content: ", error);
+        }
+    }
+
+    /**
+     * Computes how much storage a user's files take up.
+     *
+     * @param userId - The Clerk user ID of the owner
+     * @returns A promise that resolves to the logical and physical bytes
+     *
+     * @throws {@link Error}
+     * Throws an error if a database query fails
+     *
+     * @remarks
+     * - Logical bytes add up every file and earlier version, trashed ones included
+     *   (they still take up space until the trash is purged); pending uploads are left out
+     * - Physical bytes count each of the user's blobs once, plus the content stored
+     *   before deduplication; a blob shared with another user counts for both
+     */
+    static async getUsage(userId: string): Promise<Pick<StorageUsage, 'logical_bytes' | 'physical_bytes'>> {
+        try {
+            const fileWhere = { owner_clerk_id: userId, pending_until: null };
+            const [files, versions, legacyFiles, legacyVersions, blobs] = await prisma.$transaction([
+                prisma.file.aggregate({ where: fileWhere, _sum: { size: true } }),
+                prisma.fileVersion.aggregate({ where: { file: fileWhere }, _sum: { size: true } }),
+                prisma.file.aggregate({ where: { ...fileWhere, blob_id: null }, _sum: { size: true } }),
+                prisma.fileVersion.aggregate({ where: { file: fileWhere, blob_id: null }, _sum: { size: true } }),
+                prisma.blob.aggregate({
+                    where: {
+                        OR: [
+                            { files: { some: fileWhere } },
+                            { versions: { some: { file: fileWhere } } },
+                        ],
+                    },
+                    _sum: { size: true },
+                }),
+            ]);
+
+            return {
+                logical_bytes: Number(files._sum.size ?? 0) + Number(versions._sum.size ?? 0),
+                physical_bytes: Number(legacyFiles._sum.size ?? 0) + Number(legacyVersions._sum.size ?? 0) + Number(blobs._sum.size ?? 0),
+            };
+        } catch (error) {
+            console.error("Error computing storage usage: ", error);
+            throw new Error(`Failed to compute storage usage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+}
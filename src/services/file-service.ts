@@ -1,17 +1,28 @@
 import prisma from '@/lib/db-client';
-import ConfigSingleton from '@/lib/config';
-import { DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
-import s3Client from '@/lib/s3-client';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { type File, type Folder } from '@/types/types';
+import storageDriver from '@/lib/storage-client';
+import { type File, type ShareLink } from '@/types/types';
+import { AuthorizationService, type Permission } from '@/services/authorization-service';
+import { BlobService } from '@/services/blob-service';
+import { ShareService } from '@/services/share-service';
+import { ThumbnailService } from '@/services/thumbnail-service';
+import { ValidationError } from '@/lib/errors';
+import { getAvailableName } from '@/lib/utils';
+import { randomUUID } from 'crypto';
 
 /**
- * Service class for managing file operations including S3 storage and database persistence.
+ * Lifetime of URLs handed out through a link with a download limit, in seconds; long
+ * enough to start a download or load a preview, short enough that the URL cannot
+ * stand in for the link.
+ */
+const LIMITED_LINK_URL_SECONDS = 5 * 60;
+
+/**
+ * Service class for managing file operations including object storage and database persistence.
  * 
  * @remarks
  * This service provides a centralized interface for all file-related operations, including:
  * - Generating presigned URLs for secure file access
- * - Deleting files from both S3 and the database
+ * - Deleting files from both storage and the database
  * - Creating shareable file links with expiration times
  * - Managing file permissions and folder hierarchies
  * 
@@ -22,10 +33,6 @@ import { type File, type Folder } from '@/types/types';
  * // Get a presigned URL for a file
  * const { url } = await FileService.getFileUrl('file-123');
  * 
- * // Share a file for 24 hours
- * const shareInfo = await FileService.shareFile('file-123', 24);
- * console.log(`File expires at: ${shareInfo.expires_at}`);
- * 
  * // Delete a file
  * await FileService.deleteFile('file-123');
  * ```
@@ -34,13 +41,7 @@ import { type File, type Folder } from '@/types/types';
  */
 export class FileService {
     /**
-     * Configuration singleton instance for accessing environment variables and app settings.
-     * @private
-     */
-    private static config = ConfigSingleton.getInstance().config;
-
-    /**
-     * Generates a temporary presigned URL for accessing a file stored in S3.
+     * Generates a temporary presigned URL for accessing a file in the storage backend.
      * 
      * This method retrieves file metadata from the database and creates a presigned URL
      * that allows temporary access to the file without requiring AWS credentials.
@@ -73,13 +74,15 @@ export class FileService {
      * could be made configurable in future versions.
      * 
      * @see {@link deleteFile} for removing files
-     * @see {@link shareFile} for creating shareable links with custom expiration times
+     * @see {@link ShareService.shareFile} for creating shareable links with custom expiration times
      */
     static async getFileUrl(fileId: string) : Promise<{ url: string }> {
         try {
             const file = await prisma.file.findUnique({
                 where: {
                     id: fileId,
+                    deleted_at: null,
+                    pending_until: null,
                 },
             });
 
@@ -93,12 +96,7 @@ export class FileService {
                 throw new Error("File S3 key not found");
             }
 
-            const command = new GetObjectCommand({
-                Bucket: this.config.APPLICATION_BUCKET_NAME,
-                Key: file?.s3_key as string,
-            });
-
-            const signedUrl = await getSignedUrl(s3Client, command, { expiresIn: 4000});
+            const signedUrl = await storageDriver.getSignedUrl(file.s3_key, 4000, { fileName: file.file_name });
 
             const message = {
                 message: "successful!",
@@ -113,10 +111,14 @@ export class FileService {
     }
 
     /**
-     * Permanently deletes a file from both S3 storage and the database.
+     * Permanently deletes a file from both the storage backend and the database.
      * 
      * This operation is irreversible. The method first retrieves the file metadata,
-     * removes the object from S3, and then deletes the database record.
+     * deletes the database record, and then releases its content. The content of the
+     * file's earlier versions is released too; their rows go with the file. Content
+     * shared with other files (see {@link BlobService}) is only removed from storage
+     * once its last reference is gone. The file's thumbnail, if it has one, is deleted
+     * as well ({@link ThumbnailService.deleteThumbnail}).
      * 
      * @param fileId - The unique identifier of the file to delete
      * 
@@ -125,8 +127,8 @@ export class FileService {
      * @throws {@link Error}
      * Throws an error if:
      * - The file is not found in the database
-     * - The S3 deletion fails
      * - The database deletion fails
+     * - Releasing the content fails
      * 
      * @example
      * ```typescript
@@ -153,21 +155,24 @@ export class FileService {
                 where: {
                     id: fileId
                 },
+                include: {
+                    versions: true,
+                },
             });
 
-            await s3Client.send(
-                new DeleteObjectCommand({
-                    Bucket: this.config.APPLICATION_BUCKET_NAME,
-                    Key: file?.s3_key as string,
-                })
-            );
-
+            // version rows cascade; the content is released once the rows are gone
             await prisma.file.delete({
                 where: {
                     id: file?.id,
                 },
             });
 
+            await BlobService.releaseContent(file as File);
+            for (const version of file?.versions ?? []) {
+                await BlobService.releaseContent(version);
+            }
+            await ThumbnailService.deleteThumbnail(file as File);
+
             const message = {
                 message: "deletion successful!"
             };
@@ -181,145 +186,260 @@ export class FileService {
     }
 
     /**
-     * Creates a shareable presigned URL for a file with a custom expiration time.
+     * Retrieves file metadata from the database by its unique identifier.
      * 
-     * This method generates a temporary URL that can be shared with others to provide
-     * time-limited access to a file. The file's expiration time in the database is also
-     * updated to match or extend the current expiration.
+     * This is a simple getter method that fetches a file record without any
+     * additional processing or URL generation. Files in the trash are treated as
+     * not found; use {@link TrashService} to work with them. So are direct uploads
+     * that have not been completed yet (see {@link UploadService}).
      * 
-     * @param fileId - The unique identifier of the file to share
-     * @param hours - The number of hours until the share link expires (converted to seconds internally)
+     * @param fileId - The unique identifier of the file to retrieve
      * 
-     * @returns A promise that resolves to an object containing:
-     * - `url`: The presigned URL for accessing the file
-     * - `expires_at`: The Date when the share link expires
-     * - `message`: A success message
+     * @returns A promise that resolves to the File object if found, or null if not found
      * 
      * @throws {@link Error}
-     * Throws an error if:
-     * - The file is not found in the database
-     * - The file doesn't have an S3 key
-     * - The presigned URL generation fails
-     * - The database update fails
+     * Throws an error if there's a database communication failure
      * 
      * @example
      * ```typescript
-     * // Share a file for 48 hours
-     * const shareInfo = await FileService.shareFile('file-789', 48);
-     * console.log(`Share this link: ${shareInfo.url}`);
-     * console.log(`Link expires: ${shareInfo.expires_at.toLocaleString()}`);
-     * 
-     * // Share for 1 hour
-     * const quickShare = await FileService.shareFile('file-789', 1);
+     * const file = await FileService.getFile('file-abc-123');
+     * if (file) {
+     *   console.log('File name:', file.name);
+     *   console.log('File size:', file.size);
+     *   console.log('Created at:', file.created_at);
+     * } else {
+     *   console.log('File not found');
+     * }
      * ```
      * 
-     * @remarks
-     * The method intelligently handles expiration times by taking the maximum of:
-     * 1. The new expiration time (now + hours)
-     * 2. The existing expiration time (if any)
-     * 
-     * This ensures that sharing a file multiple times extends the expiration rather
-     * than potentially shortening it.
-     * 
-     * @see {@link getFileUrl} for generating URLs without updating expiration
-     * @see {@link getFileFromShareToken} for accessing shared files via share tokens
-     * 
-     * @beta
-     * This method's expiration extension behavior may change in future versions to support
-     * more granular control over share link lifecycles.
+     * @see {@link File} for the complete file type definition
      */
-    static async shareFile(fileId: string, hours: number) : Promise<{ 
-        url: string, 
-        expires_at: Date,
-        message: string
-    }> {
+    static async getFile(fileId: string) : Promise<File | null> {
         try {
             const file = await prisma.file.findUnique({
                 where: {
                     id: fileId,
-                },
+                    deleted_at: null,
+                    pending_until: null,
+                }
             });
+            return file;
+        } catch (error) {
+            console.error("Error getting file: ", error);
+            throw new Error(`Failed to get file:  ${error instanceof Error ? error.message : 'Unknown error'}`);  
+        }
+    }
 
-            const expiresIn = hours * 60 * 60; // convert from hours to seconds
-            const command = new GetObjectCommand({
-                Bucket: this.config.APPLICATION_BUCKET_NAME,
-                Key: file?.s3_key as string,
-            });
+    /**
+     * Retrieves a file and verifies that the given user may access it.
+     *
+     * Every owner-facing file route calls this before operating on a file, so that
+     * a user cannot read, delete or share another user's file by guessing its ID.
+     *
+     * @param userId - The Clerk user ID from `auth()`, or null if unauthenticated
+     * @param fileId - The unique identifier of the file being accessed
+     * @param permission - Whether the caller intends to read or modify the file
+     *
+     * @returns A promise that resolves to the File object once access is granted
+     *
+     * @throws {@link AuthorizationError}
+     * Throws with status:
+     * - `401` if the user is not authenticated
+     * - `404` if the file does not exist
+     * - `403` if the file belongs to another user
+     *
+     * @example
+     * ```typescript
+     * const { userId } = await auth();
+     * const file = await FileService.authorizeFile(userId, 'file-123', 'write');
+     * await FileService.deleteFile(file.id);
+     * ```
+     *
+     * @see {@link AuthorizationService} for the ownership rules
+     */
+    static async authorizeFile(userId: string | null, fileId: string, permission: Permission) : Promise<File> {
+        const file = await FileService.getFile(fileId);
+        AuthorizationService.assertPermission(userId, file, permission);
+        return file;
+    }
 
-            const presignedUrl = await getSignedUrl(s3Client, command, { expiresIn });
-            const newExpiry = new Date(
-                Math.max(
-                    Date.now() + expiresIn*1000, // convert to ms
-                    file?.expires_at ? file?.expires_at.getTime() : 0,
-                )
-            );
+    /**
+     * Renames a file and/or moves it into another folder.
+     *
+     * @param file - The file to update, as returned by {@link authorizeFile}
+     * @param changes - The new name and/or the ID of the destination folder
+     *
+     * @returns A promise that resolves to the updated File
+     *
+     * @throws {@link ValidationError}
+     * Throws with status:
+     * - `400` if the new name is empty
+     * - `409` if the destination folder already holds a file with that name
+     *
+     * @throws {@link Error}
+     * Throws an error if the storage copy or database update fails
+     *
+     * @example
+     * ```typescript
+     * const file = await FileService.authorizeFile(userId, 'file-123', 'write');
+     * await FolderService.authorizeFolder(userId, 'folder-456', 'write');
+     * const moved = await FileService.updateFile(file, { name: 'final.pdf', parentFolderId: 'folder-456' });
+     * ```
+     *
+     * @remarks
+     * - Callers must authorize the destination folder; this method only checks names
+     * - Names are compared case-sensitively, matching the upload check
+     * - On rename the object is copied to a key ending in the new name (see
+     *   {@link buildObjectKey}) so downloads carry the new name, then the old object is removed.
+     *   Deduplicated content (`blob_id`) may be shared, so its object stays put; download
+     *   URLs carry the file's name instead
+     */
+    static async updateFile(file: File, changes: { name?: string, parentFolderId?: string }) : Promise<File> {
+        try {
+            const fileName = changes.name !== undefined ? changes.name.trim() : file.file_name;
+            const parentFolderId = changes.parentFolderId ?? file.parent_folder_id;
 
-            await prisma.file.update({
+            if (!fileName) {
+                throw new ValidationError("File name cannot be empty", 400);
+            }
+
+            const sibling = await prisma.file.findFirst({
                 where: {
-                    id: file?.id,
+                    parent_folder_id: parentFolderId,
+                    file_name: fileName,
+                    deleted_at: null,
+                    id: { not: file.id },
                 },
+            });
+
+            if (sibling) {
+                throw new ValidationError(`A file named "${fileName}" already exists in this location`, 409);
+            }
+
+            let s3Key = file.s3_key;
+            if (fileName !== file.file_name && file.s3_key && !file.blob_id) {
+                s3Key = FileService.buildObjectKey(file.owner_clerk_id, file.id, fileName);
+                await storageDriver.copyObject(file.s3_key, s3Key);
+            }
+
+            const updated = await prisma.file.update({
+                where: { id: file.id },
                 data: {
-                    expires_at: newExpiry,
-                }
+                    file_name: fileName,
+                    parent_folder_id: parentFolderId,
+                    s3_key: s3Key,
+                    s3_link: s3Key ? storageDriver.getObjectLink(s3Key) : file.s3_link,
+                },
             });
 
-            return {
-                message: "Successful!",
-                url: presignedUrl,
-                expires_at: newExpiry
-            };
-            
+            if (file.s3_key && s3Key !== file.s3_key) {
+                await storageDriver.deleteObject(file.s3_key);
+            }
+
+            return updated;
         } catch (error) {
-            console.error("Error sharing file: ", error);
-            throw new Error(`Failed to share file:  ${error instanceof Error ? error.message : 'Unknown error'}`);           
+            if (error instanceof ValidationError) throw error;
+            console.error("Error updating file: ", error);
+            throw new Error(`Failed to update file: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
-    
+
     /**
-     * Retrieves file metadata from the database by its unique identifier.
-     * 
-     * This is a simple getter method that fetches a file record without any
-     * additional processing or URL generation.
-     * 
-     * @param fileId - The unique identifier of the file to retrieve
-     * 
-     * @returns A promise that resolves to the File object if found, or null if not found
-     * 
+     * Copies a file into a folder, sharing or duplicating its stored content.
+     *
+     * @param file - The file to copy (must have an `s3_key`)
+     * @param destinationFolderId - The folder the copy is created in
+     *
+     * @returns A promise that resolves to the new File
+     *
      * @throws {@link Error}
-     * Throws an error if there's a database communication failure
-     * 
+     * Throws an error if the storage copy or database insert fails
+     *
      * @example
      * ```typescript
-     * const file = await FileService.getFile('file-abc-123');
-     * if (file) {
-     *   console.log('File name:', file.name);
-     *   console.log('File size:', file.size);
-     *   console.log('Created at:', file.created_at);
-     * } else {
-     *   console.log('File not found');
-     * }
+     * const file = await FileService.authorizeFile(userId, 'file-123', 'read');
+     * const copy = await FileService.copyFile(file, 'folder-456');
+     * console.log(copy.file_name); // "report (1).pdf"
      * ```
-     * 
-     * @see {@link File} for the complete file type definition
+     *
+     * @remarks
+     * - Callers must authorize both the file and the destination folder
+     * - If the destination already has a file with the same name, the copy is
+     *   renamed with a numeric suffix before the extension (see {@link getAvailableName})
+     * - Deduplicated content is shared: the copy takes a reference to the same blob
+     *   ({@link BlobService.addReference}) and nothing is stored
+     * - Older content is copied inside the storage backend ({@link IStorageDriver.copyObject}),
+     *   so file contents never pass through the server
      */
-    static async getFile(fileId: string) : Promise<File | null> {
+    static async copyFile(file: Pick<File, 'file_name' | 'size' | 'owner_clerk_id' | 's3_key' | 'blob_id'>, destinationFolderId: string) : Promise<File> {
         try {
-            const file = await prisma.file.findUnique({
-                where: {
+            if (!file.s3_key) {
+                throw new Error("File S3 key not found");
+            }
+
+            const siblings = await prisma.file.findMany({
+                where: { parent_folder_id: destinationFolderId, deleted_at: null },
+                select: { file_name: true },
+            });
+            const fileName = getAvailableName(file.file_name, siblings.map((sibling) => sibling.file_name), { keepExtension: true });
+
+            const fileId = randomUUID();
+            let s3Key = file.s3_key;
+            if (file.blob_id) {
+                await BlobService.addReference(file.blob_id);
+            } else {
+                s3Key = FileService.buildObjectKey(file.owner_clerk_id, fileId, fileName);
+                await storageDriver.copyObject(file.s3_key, s3Key);
+            }
+
+            return await prisma.file.create({
+                data: {
                     id: fileId,
-                }
+                    file_name: fileName,
+                    size: file.size,
+                    parent_folder_id: destinationFolderId,
+                    owner_clerk_id: file.owner_clerk_id,
+                    s3_key: s3Key,
+                    s3_link: storageDriver.getObjectLink(s3Key),
+                    blob_id: file.blob_id ?? null,
+                },
             });
-            return file;
         } catch (error) {
-            console.error("Error getting file: ", error);
-            throw new Error(`Failed to get file:  ${error instanceof Error ? error.message : 'Unknown error'}`);  
+            console.error("Error copying file: ", error);
+            throw new Error(`Failed to copy file: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
+    /**
+     * Builds the storage key for a file.
+     *
+     * Keys embed the file's ID so that every File row owns a distinct object, even when
+     * two files with the same name live in different folders. The original file name is
+     * kept as the last segment so downloads still carry a sensible name.
+     *
+     * @param ownerId - The Clerk user ID of the file's owner
+     * @param fileId - The unique identifier of the File row
+     * @param fileName - The file's name
+     *
+     * @returns The object key, e.g. `root_user_abc/files/1f0c.../report.pdf`
+     *
+     * @example
+     * ```typescript
+     * const fileId = randomUUID();
+     * const key = FileService.buildObjectKey(user.id, fileId, file.name);
+     * await storageDriver.putObject(key, buffer);
+     * ```
+     *
+     * @see {@link FolderService.uploadFileToFolder} which stores uploads under this key
+     */
+    static buildObjectKey(ownerId: string, fileId: string, fileName: string) : string {
+        return `root_user_${ownerId}/files/${fileId}/${fileName}`;
+    }
+
     /**
      * Determines whether a file exists within a specific folder hierarchy.
      * 
-     * This method traverses the folder tree upward from the file's parent folder
+     * This method walks the folder tree upward from the file's parent folder
      * to check if the specified root folder is an ancestor. This is useful for
      * permission checks and validating file access within shared folders.
      * 
@@ -349,10 +469,10 @@ export class FileService {
      * ```
      * 
      * @remarks
-     * The algorithm uses an iterative approach to traverse the folder tree:
+     * The walk is a single recursive CTE query:
      * 1. Start with the file's immediate parent folder
      * 2. Check if it matches the root folder ID
-     * 3. If not, move to the parent's parent folder
+     * 3. If not, move to the parent's parent folder, unless that folder is trashed
      * 4. Repeat until a match is found or the tree root is reached
      * 
      * This method is commonly used in conjunction with share token validation
@@ -360,47 +480,20 @@ export class FileService {
      * 
      * @see {@link getFileFromShareToken} which uses this method for permission validation
      * @see {@link Folder} for the folder type definition
-     * 
-     * @internal
-     * The current implementation makes multiple database queries during traversal.
-     * Consider optimizing with a recursive CTE or materialized path approach for
-     * better performance with deep folder hierarchies.
      */
     static async fileInRootFolder(rootFolderId: string, fileId: string) : Promise<boolean> {
         try {
-            const rootFolder = await prisma.folder.findUnique({
-                where: {
-                    id: rootFolderId,
-                }
-            });
-        
-            const currentFile = await prisma.file.findUnique({
-                where: {
-                    id: fileId,
-                }
-            });
-
-            if (!currentFile || !rootFolder) return false;
-
-            let currentFolderId = currentFile.parent_folder_id;  
-        
-            while (currentFolderId) {
-                if (currentFolderId === rootFolder.id) {
-                    return true;
-                }
-        
-                const parentFolder = await prisma.folder.findUnique({
-                    where: {
-                        id: currentFolderId,
-                    }
-                });
-        
-                if (!parentFolder) break;
-        
-                currentFolderId = parentFolder.parent_folder_id;
-            }
-        
-            return false;
+            const [{ found }] = await prisma.$queryRaw<{ found: boolean }[]>`
+                WITH RECURSIVE chain AS (
+                    SELECT parent_folder_id AS id FROM "File"
+                    WHERE id = ${fileId} AND deleted_at IS NULL AND pending_until IS NULL
+                    UNION ALL
+                    SELECT folder.parent_folder_id
+                    FROM "Folder" folder JOIN chain ON folder.id = chain.id
+                    WHERE chain.id <> ${rootFolderId} AND folder.deleted_at IS NULL
+                )
+                SELECT EXISTS (SELECT 1 FROM chain WHERE id = ${rootFolderId}) AS found`;
+            return found;
         } catch (error) {
             console.error("Error determining if file in root folder: ", error);
             throw new Error(`Failed to determine if file in root folder: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -408,19 +501,27 @@ export class FileService {
     }
 
     /**
-     * Generates a presigned URL for a file accessed via a share token.
+     * Generates a presigned URL for a file accessed through a share link.
      * 
-     * This method validates that the requested file belongs to the shared folder hierarchy
-     * and creates a presigned URL with an expiration time matching the folder's share token
-     * expiration. The URL expiration is capped at 168 hours (7 days) to comply with AWS
-     * S3 presigned URL limitations.
+     * This method checks that the requested file is the shared file, or lies inside the
+     * shared folder's hierarchy, counts downloads against the link's limit, and
+     * creates a presigned URL that lasts no longer than the link. The URL expiration is
+     * capped at 168 hours (7 days) to comply with AWS S3 presigned URL limitations.
      * 
-     * @param root_folder - The shared folder object containing the share token expiration
+     * @param link - The share link the token belongs to, from {@link ShareService.getShareLink}
      * @param file - The file object to generate a URL for
+     * @param options - Optional settings
+     * @param options.download - Whether the URL is for a download, which counts against
+     * the link's download limit; leave it out for previews
      * 
      * @returns A promise that resolves to:
-     * - An object with `url` and `expires_at` if the file is in the folder hierarchy
-     * - `null` if the file is not within the shared folder's hierarchy
+     * - An object with `url`, `expires_at` and `downloads_remaining` (after this
+     *   download, if it is one; null without a limit) if the link gives access to the file
+     * - `null` if the file is neither the shared file nor inside the shared folder
+     * 
+     * @throws {@link ValidationError}
+     * Throws with status `410` if a download is requested and the link has reached its
+     * download limit
      * 
      * @throws {@link Error}
      * Throws an error if:
@@ -430,21 +531,16 @@ export class FileService {
      * 
      * @example
      * ```typescript
-     * // Assuming we have a shared folder and file from a share token
-     * const sharedFolder = await getSharedFolder(shareToken);
-     * const requestedFile = await getFile(fileId);
+     * const link = await ShareService.getShareLink(token);
+     * const requestedFile = await FileService.getFile(fileId);
      * 
-     * const result = await FileService.getFileFromShareToken(
-     *   sharedFolder,
-     *   requestedFile
-     * );
+     * const result = await FileService.getFileFromShareToken(link, requestedFile);
      * 
      * if (result) {
      *   console.log('Access URL:', result.url);
-     *   console.log('Expires at:', result.expires_at);
-     *   // Redirect user to the presigned URL
+     *   console.log('Link expires at:', result.expires_at);
      * } else {
-     *   console.log('File not accessible via this share token');
+     *   console.log('File not accessible via this share link');
      * }
      * ```
      * 
@@ -452,42 +548,56 @@ export class FileService {
      * This method implements several important behaviors:
      * 
      * **Expiration Time Calculation:**
-     * - If the folder has an expiration, calculates remaining time in seconds
-     * - Defaults to 1 hour if expiration has passed or is not set
-     * - Converts to hours (rounded up) and caps at 168 hours (AWS S3 limit)
+     * - If the link has an expiration, the URL lasts for the time remaining
+     * - Defaults to 1 hour if the link never expires
+     * - Caps at 168 hours (AWS S3 limit)
+     * - Links with a download limit get URLs that last 5 minutes, so a counted download
+     *   cannot be repeated with the same URL later
      * 
      * **Security:**
-     * - Validates file belongs to the shared folder hierarchy before generating URL
-     * - Respects the folder's share token expiration
+     * - Validates the file against the link's target before generating a URL
+     * - Does not check the link's expiry; callers reject expired links first
+     *   (see {@link ShareService.isExpired})
      * - Returns null if validation fails (preventing unauthorized access)
      * 
+     * **Download Limits:**
+     * - Only downloads count, through {@link ShareService.recordDownload}; previews and
+     *   page loads do not
+     * - Files the link does not give access to are not counted
+     * 
      * **Performance:**
      * - Delegates hierarchy checking to {@link fileInRootFolder}
-     * - Delegates URL generation to {@link shareFile}
      * 
      * @see {@link fileInRootFolder} for the hierarchy validation logic
-     * @see {@link shareFile} for the presigned URL generation logic
      * @see {@link https://docs.aws.amazon.com/AmazonS3/latest/userguide/ShareObjectPreSignedURL.html | AWS S3 Presigned URL Limits}
      */
-    static async getFileFromShareToken(root_folder: Folder, file: File) : Promise<{ 
+    static async getFileFromShareToken(link: ShareLink, file: File, options: { download?: boolean } = {}) : Promise<{ 
         url: string,
-        expires_at: Date,
+        expires_at: Date | null,
+        downloads_remaining: number | null,
         } | null> {
         try {
-            if (await FileService.fileInRootFolder(root_folder.id, file.id)) {
-                const expiresInSeconds = root_folder.expires_at
-                    ? Math.max(1, Math.floor((root_folder.expires_at.getTime() - Date.now()) / 1000))
+            const shared = link.file_id
+                ? link.file_id === file.id
+                : await FileService.fileInRootFolder(link.folder_id as string, file.id);
+            if (shared) {
+                const downloadsRemaining = options.download
+                    ? await ShareService.recordDownload(link)
+                    : ShareService.downloadsRemaining(link);
+                const expiresInSeconds = link.expires_at
+                    ? Math.max(1, Math.floor((new Date(link.expires_at).getTime() - Date.now()) / 1000))
                     : 3600; // 1 hour default
-                const expiresInHours = Math.ceil(expiresInSeconds / 3600);
-                const cappedHours = Math.min(expiresInHours, 168);
-                const { url: presignedUrl } = await FileService.shareFile(file.id, cappedHours); 
+                const cappedSeconds = Math.min(expiresInSeconds, link.max_downloads !== null ? LIMITED_LINK_URL_SECONDS : 168 * 3600);
+                const presignedUrl = await storageDriver.getSignedUrl(file.s3_key as string, cappedSeconds, { fileName: file.file_name });
                 return {
                     url: presignedUrl,
-                    expires_at: root_folder.expires_at as Date,
+                    expires_at: link.expires_at,
+                    downloads_remaining: downloadsRemaining,
                 };
             }
             return null;
         } catch (error) {
+           if (error instanceof ValidationError) throw error;
            console.error("Error getting file from share token: ", error);
            throw new Error(`Failed to get file from share token: ${error instanceof Error ? error.message : 'Unknown error'}`); 
         }
@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { FileVersionService } from "./file-version-service";
+import prisma from "@/lib/db-client";
+import s3Client from "@/lib/s3-client";
+import { type File, type FileVersion } from "@/types/types";
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        file: {
+            update: vi.fn(),
+        },
+        fileVersion: {
+            create: vi.fn(),
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+            delete: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+        $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("FileVersionService", () => {
+    const uploadedAt = new Date("2024-01-02T00:00:00Z");
+    const file = {
+        id: "file-123",
+        file_name: "report.pdf",
+        size: 100,
+        owner_clerk_id: "user-owner",
+        s3_key: "key-v3",
+        created_at: new Date("2024-01-01T00:00:00Z"),
+        version: 3,
+        version_created_at: uploadedAt,
+    } as File;
+    const version: FileVersion = {
+        id: "version-1",
+        file_id: "file-123",
+        version: 1,
+        size: 40,
+        s3_key: "key-v1",
+        created_at: new Date("2023-12-01T00:00:00Z"),
+    };
+
+    beforeEach(() => {
+        vi.mocked(prisma.file.update).mockImplementation((({ data }: { data: object }) =>
+            Promise.resolve({ ...file, ...data })) as never);
+        vi.mocked(prisma.fileVersion.findMany).mockResolvedValue([]);
+    });
+
+    describe("addVersion", () => {
+        it("keeps the current content as a version and stores the new one", async () => {
+            const updated = await FileVersionService.addVersion(file, { s3Key: "key-v4", size: 120 }, 10);
+
+            expect(prisma.fileVersion.create).toHaveBeenCalledWith({
+                data: { file_id: "file-123", version: 3, size: 100, s3_key: "key-v3", blob_id: null, created_at: uploadedAt },
+            });
+            expect(updated).toMatchObject({ s3_key: "key-v4", size: 120, version: 4 });
+        });
+
+        it("deletes the versions beyond the limit, rows and objects", async () => {
+            vi.mocked(prisma.fileVersion.findMany).mockResolvedValue([
+                { id: "version-1", s3_key: "key-v1" },
+            ] as never);
+
+            await FileVersionService.addVersion(file, { s3Key: "key-v4", size: 120 }, 2);
+
+            expect(prisma.fileVersion.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { file_id: "file-123" },
+                orderBy: { version: "desc" },
+                skip: 2,
+            }));
+            expect(prisma.fileVersion.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ["version-1"] } } });
+            expect(vi.mocked(s3Client.send).mock.calls[0][0].input).toMatchObject({ Key: "key-v1" });
+        });
+    });
+
+    describe("getVersion", () => {
+        it("returns 404 for a version of another file", async () => {
+            vi.mocked(prisma.fileVersion.findUnique).mockResolvedValue({ ...version, file_id: "file-other" } as never);
+
+            await expect(FileVersionService.getVersion(file, "version-1")).rejects.toMatchObject({ status: 404 });
+        });
+    });
+
+    describe("restoreVersion", () => {
+        it("makes the version's content current under a new number, keeping the replaced content", async () => {
+            const restored = await FileVersionService.restoreVersion(file, version, 10);
+
+            expect(prisma.fileVersion.delete).toHaveBeenCalledWith({ where: { id: "version-1" } });
+            expect(prisma.fileVersion.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ version: 3, s3_key: "key-v3" }),
+            });
+            expect(restored).toMatchObject({ s3_key: "key-v1", size: 40, version: 4 });
+            expect(s3Client.send).not.toHaveBeenCalled();
+        });
+    });
+});
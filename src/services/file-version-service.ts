@@ -0,0 +1,290 @@
+import prisma from '@/lib/db-client';
+import storageDriver from '@/lib/storage-client';
+import { AuthorizationError } from '@/services/authorization-service';
+import { BlobService } from '@/services/blob-service';
+import { type File, type FileVersion } from '@/types/types';
+
+/**
+ * @fileoverview Version history of files.
+ *
+ * Uploading a file under a name that already exists in a folder does not create a
+ * second file: the existing File row takes the new content and its previous content
+ * is kept as a {@link FileVersion} row, still pointing at its blob in storage. The File row
+ * always describes the current version (`version`, `size`, `s3_key`); its earlier
+ * versions can be listed, downloaded and restored.
+ *
+ * Only the newest `maxVersions` earlier versions of a file are kept; older ones are
+ * deleted, and their blobs released, whenever a version is added.
+ *
+ * @module services/file-version-service
+ */
+
+/**
+ * Service class for file versions.
+ *
+ * All methods in this service are static and handle their own error management.
+ *
+ * @example
+ * ```typescript
+ * const file = await FileService.authorizeFile(userId, 'file-123', 'write');
+ * const versions = await FileVersionService.listVersions(file);
+ * const restored = await FileVersionService.restoreVersion(file, versions[0], 10);
+ * console.log(restored.version); // one more than before
+ * ```
+ */
+export class FileVersionService {
+    /**
+     * Finds the live file with the given name in a folder, the one a new upload of that
+     * name becomes a version of.
+     *
+     * @param folderId - The folder to look in
+     * @param fileName - The exact (case-sensitive) file name
+     * @param excludeFileId - A file to ignore, e.g. the pending upload itself
+     *
+     * @returns A promise that resolves to the File, or null if the name is free
+     *
+     * @throws {@link Error}
+     * Throws an error if the database query fails
+     *
+     * @remarks
+     * Trashed files and pending uploads are ignored. If older data holds several files
+     * with the name, the most recently created one is returned.
+     */
+    static async findFileByName(folderId: string, fileName: string, excludeFileId?: string): Promise<File | null> {
+        try {
+            return await prisma.file.findFirst({
+                where: {
+                    parent_folder_id: folderId,
+                    file_name: fileName,
+                    deleted_at: null,
+                    pending_until: null,
+                    ...(excludeFileId ? { id: { not: excludeFileId } } : {}),
+                },
+                orderBy: { created_at: 'desc' },
+            });
+        } catch (error) {
+            console.error("Error finding file by name: ", error);
+            throw new Error(`Failed to find file by name: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Makes already stored content the current version of a file, keeping the previous
+     * content as an earlier version.
+     *
+     * @param file - The file receiving the new content
+     * @param content - The storage key, size and blob of the new content
+     * @param maxVersions - Most earlier versions to keep for the file
+     *
+     * @returns A promise that resolves to the updated File
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @example
+     * ```typescript
+     * const key = FileService.buildObjectKey(userId, randomUUID(), file.file_name);
+     * await storageDriver.putObject(key, buffer);
+     * const blob = await BlobService.storeBlob(BlobService.hashBuffer(buffer), buffer.length, key);
+     * const updated = await FileVersionService.addVersion(file, { s3Key: blob.s3_key, size: blob.size, blobId: blob.id }, 10);
+     * ```
+     *
+     * @remarks
+     * - The new content must already be stored under `content.s3Key`, and the caller's
+     *   reference to its blob passes to the file
+     * - The previous version row and the file update are written in one transaction
+     * - Versions beyond `maxVersions` are then deleted (see {@link pruneVersions})
+     */
+    static async addVersion(file: File, content: { s3Key: string, size: number, blobId?: string | null }, maxVersions: number): Promise<File> {
+        try {
+            const [, updated] = await prisma.$transaction([
+                FileVersionService.archiveCurrent(file),
+                prisma.file.update({
+                    where: { id: file.id },
+                    data: FileVersionService.currentContent(file, content.s3Key, content.size, content.blobId),
+                }),
+            ]);
+
+            await FileVersionService.pruneVersions(file.id, maxVersions);
+            return updated;
+        } catch (error) {
+            console.error("Error adding file version: ", error);
+            throw new Error(`Failed to add file version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Lists the earlier versions of a file, newest first.
+     *
+     * @param file - The file, as returned by {@link FileService.authorizeFile}
+     * @returns A promise that resolves to the earlier versions (the current one is the file itself)
+     *
+     * @throws {@link Error}
+     * Throws an error if the database query fails
+     */
+    static async listVersions(file: File): Promise<FileVersion[]> {
+        try {
+            return await prisma.fileVersion.findMany({
+                where: { file_id: file.id },
+                orderBy: { version: 'desc' },
+            });
+        } catch (error) {
+            console.error("Error listing file versions: ", error);
+            throw new Error(`Failed to list file versions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Retrieves an earlier version of a file.
+     *
+     * @param file - The file, as returned by {@link FileService.authorizeFile}
+     * @param versionId - The unique identifier of the version
+     * @returns A promise that resolves to the version
+     *
+     * @throws {@link AuthorizationError}
+     * Throws with status `404` if the file has no such version
+     *
+     * @throws {@link Error}
+     * Throws an error if the database query fails
+     */
+    static async getVersion(file: File, versionId: string): Promise<FileVersion> {
+        try {
+            const version = await prisma.fileVersion.findUnique({
+                where: { id: versionId },
+            });
+            if (!version || version.file_id !== file.id) {
+                throw new AuthorizationError("Version not found", 404);
+            }
+            return version;
+        } catch (error) {
+            if (error instanceof AuthorizationError) throw error;
+            console.error("Error getting file version: ", error);
+            throw new Error(`Failed to get file version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Generates a temporary URL for downloading an earlier version.
+     *
+     * @param file - The file the version belongs to; the download is named after it
+     * @param version - The version, as returned by {@link getVersion}
+     * @returns A promise that resolves to an object containing the presigned URL
+     *
+     * @throws {@link Error}
+     * Throws an error if URL signing fails
+     *
+     * @remarks
+     * The URL expires after 4000 seconds, like {@link FileService.getFileUrl}.
+     */
+    static async getVersionUrl(file: File, version: FileVersion): Promise<{ url: string }> {
+        try {
+            return { url: await storageDriver.getSignedUrl(version.s3_key, 4000, { fileName: file.file_name }) };
+        } catch (error) {
+            console.error("Error getting file version URL: ", error);
+            throw new Error(`Failed to get file version URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Makes an earlier version the current content of its file again.
+     *
+     * The restored content becomes a new, highest-numbered version and the content it
+     * replaces is kept as an earlier version, so restoring never loses anything.
+     *
+     * @param file - The file, as returned by {@link FileService.authorizeFile}
+     * @param version - The version to restore, as returned by {@link getVersion}
+     * @param maxVersions - Most earlier versions to keep for the file
+     *
+     * @returns A promise that resolves to the updated File
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @remarks
+     * The version's blob is reused rather than copied, so its row is removed; the
+     * content (and its blob reference) lives on as the file's current version.
+     */
+    static async restoreVersion(file: File, version: FileVersion, maxVersions: number): Promise<File> {
+        try {
+            const [, , updated] = await prisma.$transaction([
+                prisma.fileVersion.delete({ where: { id: version.id } }),
+                FileVersionService.archiveCurrent(file),
+                prisma.file.update({
+                    where: { id: file.id },
+                    data: FileVersionService.currentContent(file, version.s3_key, version.size, version.blob_id),
+                }),
+            ]);
+
+            await FileVersionService.pruneVersions(file.id, maxVersions);
+            return updated;
+        } catch (error) {
+            console.error("Error restoring file version: ", error);
+            throw new Error(`Failed to restore file version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Deletes the earliest versions of a file until at most `maxVersions` remain.
+     *
+     * Rows are deleted first; content that cannot be released afterwards
+     * ({@link BlobService.releaseContent}) is logged and left behind rather than
+     * failing the upload that triggered the cleanup.
+     *
+     * @param fileId - The file whose versions are pruned
+     * @param maxVersions - Most earlier versions to keep
+     * @returns A promise that resolves to the number of versions deleted
+     */
+    static async pruneVersions(fileId: string, maxVersions: number): Promise<number> {
+        const expired = await prisma.fileVersion.findMany({
+            where: { file_id: fileId },
+            orderBy: { version: 'desc' },
+            skip: Math.max(0, maxVersions),
+            select: { id: true, s3_key: true, blob_id: true },
+        });
+        if (expired.length === 0) return 0;
+
+        await prisma.fileVersion.deleteMany({
+            where: { id: { in: expired.map((version) => version.id) } },
+        });
+        for (const version of expired) {
+            try {
+                await BlobService.releaseContent(version);
+            } catch (error) {
+                console.error(`Error releasing content of file version ${version.id}: `, error);
+            }
+        }
+        return expired.length;
+    }
+
+    /**
+     * Builds the insert that keeps a file's current content as an earlier version.
+     */
+    private static archiveCurrent(file: File) {
+        return prisma.fileVersion.create({
+            data: {
+                file_id: file.id,
+                version: file.version ?? 1,
+                size: file.size,
+                s3_key: file.s3_key as string,
+                blob_id: file.blob_id ?? null,
+                created_at: file.version_created_at ?? file.created_at,
+            },
+        });
+    }
+
+    /**
+     * Builds the File columns describing a new current version.
+     */
+    private static currentContent(file: File, s3Key: string, size: number, blobId?: string | null) {
+        return {
+            s3_key: s3Key,
+            blob_id: blobId ?? null,
+            // content without a blob (a direct upload, an old version) is deduplicated in the background
+            dedup_pending: !blobId,
+            s3_link: storageDriver.getObjectLink(s3Key),
+            size,
+            version: (file.version ?? 1) + 1,
+            version_created_at: new Date(),
+        };
+    }
+}
@@ -0,0 +1,170 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { type User } from "@clerk/nextjs/server";
+import { FolderService } from "./folder-service";
+import { FileService } from "./file-service";
+import prisma from "@/lib/db-client";
+import storageDriver from "@/lib/storage-client";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+            delete: vi.fn(),
+        },
+        file: {
+            findUnique: vi.fn(),
+            delete: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+vi.mock("@/lib/storage-client", () => ({
+    default: { abortMultipartUpload: vi.fn(), deleteObject: vi.fn() },
+}));
+
+/**
+ * Generates the rows the subtree query returns for a tree of `size` folders, each
+ * with `fanout` subfolders and one file, parents first.
+ */
+function generateTreeRows(size: number, fanout: number) {
+    const created_at = new Date("2025-01-01T00:00:00Z");
+    return Array.from({ length: size }, (_, i) => ({
+        id: `folder-${i}`,
+        folder_name: `Folder ${i}`,
+        display_name: null,
+        is_root: i === 0,
+        created_at,
+        updated_at: created_at,
+        parent_folder_id: i === 0 ? null : `folder-${Math.floor((i - 1) / fanout)}`,
+        files: [{ id: `file-${i}`, file_name: `file-${i}.txt`, size: "10", s3_key: `keys/file-${i}`, blob_id: null, created_at: created_at.toISOString() }],
+    }));
+}
+
+type TreeNode = { id: string, size: number, files: { size: number, created_at: Date }[], subfolders: TreeNode[] };
+const countNodes = (node: TreeNode): number => 1 + node.subfolders.reduce((sum, sub) => sum + countNodes(sub), 0);
+const depth = (node: TreeNode): number => 1 + Math.max(0, ...node.subfolders.map(depth));
+
+describe("FolderService tree queries", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe("getFolderRecursively", () => {
+        it("rebuilds the nested tree from the rows of one query", async () => {
+            vi.mocked(prisma.$queryRaw).mockResolvedValue(generateTreeRows(4, 2) as never);
+
+            const tree = await FolderService.getFolderRecursively("folder-0") as TreeNode;
+
+            expect(tree.subfolders.map((sub) => sub.id)).toEqual(["folder-1", "folder-2"]);
+            expect(tree.subfolders[0].subfolders.map((sub) => sub.id)).toEqual(["folder-3"]);
+            expect(tree.files[0]).toMatchObject({ size: 10, created_at: new Date("2025-01-01T00:00:00Z") });
+            expect(vi.mocked(prisma.$queryRaw).mock.calls[0].slice(1)).toEqual(["folder-0"]);
+            // every folder's size covers its subtree
+            expect([tree.size, tree.subfolders[0].size, tree.subfolders[1].size]).toEqual([40, 20, 10]);
+        });
+
+        it("returns null for a folder that does not exist", async () => {
+            vi.mocked(prisma.$queryRaw).mockResolvedValue([] as never);
+            expect(await FolderService.getFolderRecursively("missing")).toBeNull();
+        });
+    });
+
+    describe("getSharedFolderRecursively", () => {
+        it("leaves the files' storage keys and content hashes out of every level", async () => {
+            vi.mocked(prisma.$queryRaw).mockResolvedValue(generateTreeRows(4, 2) as never);
+
+            const tree = await FolderService.getSharedFolderRecursively("folder-0");
+
+            expect(tree?.files[0]).toEqual({ id: "file-0", file_name: "file-0.txt", size: 10, created_at: new Date("2025-01-01T00:00:00Z") });
+            expect(JSON.stringify(tree)).not.toMatch(/s3_key|blob_id/);
+            expect(tree?.subfolders[0].subfolders[0].files[0].id).toBe("file-3");
+        });
+    });
+
+    describe("round trips on a generated 10k-node tree", () => {
+        // The per-level walks these replace issued one query per folder: 10,000 round
+        // trips for the tree below, and one per level for the 10,000-deep chain. The
+        // database is mocked, so these count queries; they do not time them. For timings
+        // against Postgres, see `npm run benchmark:folders`.
+        const SIZE = 10_000;
+
+        it("reads the whole tree in one round trip", async () => {
+            vi.mocked(prisma.$queryRaw).mockResolvedValue(generateTreeRows(SIZE, 10) as never);
+
+            const tree = await FolderService.getFolderRecursively("folder-0") as TreeNode;
+
+            expect(countNodes(tree)).toBe(SIZE);
+            expect(depth(tree)).toBe(5);
+            expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+            expect(prisma.folder.findUnique).not.toHaveBeenCalled();
+        });
+
+        it("reads the breadcrumbs of a 10k-deep folder in one round trip", async () => {
+            vi.mocked(prisma.$queryRaw).mockResolvedValue(Array.from({ length: SIZE }, (_, i) => ({
+                id: `folder-${SIZE - 1 - i}`, folder_name: `Folder ${SIZE - 1 - i}`, display_name: null, deleted_at: null,
+            })) as never);
+
+            const ancestors = await FolderService.getAncestors(`folder-${SIZE - 1}`, { publicMetadata: {} } as unknown as User);
+
+            expect(ancestors).toHaveLength(SIZE);
+            expect(ancestors?.[0]).toEqual({ id: "folder-0", name: "Folder 0" });
+            expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+            expect(prisma.folder.findUnique).not.toHaveBeenCalled();
+        });
+
+        it("checks that a deeply nested file is in a shared folder in one round trip", async () => {
+            vi.mocked(prisma.$queryRaw).mockResolvedValue([{ found: true }] as never);
+
+            expect(await FileService.fileInRootFolder("folder-0", "file-9999")).toBe(true);
+            expect(vi.mocked(prisma.$queryRaw).mock.calls[0].slice(1)).toEqual(["file-9999", "folder-0", "folder-0"]);
+            expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+            expect(prisma.file.findUnique).not.toHaveBeenCalled();
+        });
+    });
+});
+
+describe("FolderService.deleteFolderRecursively", () => {
+    const file = (id: string, fields: object = {}) => ({
+        id, file_name: `${id}.bin`, s3_key: `keys/${id}`, blob_id: null, thumbnail_key: null,
+        multipart_upload_id: null, pending_until: null, versions: [], ...fields,
+    });
+
+    it("aborts the multipart upload of a pending file before deleting its object", async () => {
+        vi.mocked(prisma.folder.findUnique).mockResolvedValue({
+            id: "folder-1",
+            s3_link: null,
+            s3_key: null,
+            files: [file("done"), file("pending", { multipart_upload_id: "upload-1", pending_until: new Date() })],
+            subfolders: [],
+        } as never);
+
+        await FolderService.deleteFolderRecursively("folder-1");
+
+        expect(storageDriver.abortMultipartUpload).toHaveBeenCalledTimes(1);
+        expect(storageDriver.abortMultipartUpload).toHaveBeenCalledWith("keys/pending", "upload-1");
+        expect(storageDriver.deleteObject).toHaveBeenCalledWith("keys/pending");
+        expect(storageDriver.deleteObject).toHaveBeenCalledWith("keys/done");
+        expect(prisma.file.delete).toHaveBeenCalledTimes(2);
+        expect(prisma.file.findUnique).not.toHaveBeenCalled();
+        expect(prisma.folder.delete).toHaveBeenCalledWith({ where: { id: "folder-1" } });
+    });
+});
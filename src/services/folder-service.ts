@@ -1,9 +1,122 @@
 import { clerkClient, User } from '@clerk/nextjs/server';
 import prisma from '@/lib/db-client';
-import ConfigSingleton from '@/lib/config';
-import { PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
-import s3Client from '@/lib/s3-client';
-import { Folder, type File as CustomFile } from '@/types/types';
+import storageDriver from '@/lib/storage-client';
+import { FileService } from '@/services/file-service';
+import { FileVersionService } from '@/services/file-version-service';
+import { BlobService } from '@/services/blob-service';
+import { ThumbnailService } from '@/services/thumbnail-service';
+import { randomUUID } from 'crypto';
+import { Folder, type File as CustomFile, type CopyProgress, type ChildrenQuery, type FolderChildrenPage } from '@/types/types';
+import { AuthorizationService, type Permission } from '@/services/authorization-service';
+import { ValidationError } from '@/lib/errors';
+import { Prisma } from '@/../prisma/generated/prisma';
+import { getAvailableName } from '@/lib/utils';
+import { createZipStream, type ZipEntry } from '@/lib/zip-stream';
+import { readZipEntries, type ZipArchiveEntry } from '@/lib/zip-reader';
+
+/**
+ * A directory of an uploaded archive, built by {@link FolderService.extractArchiveToFolder}
+ * before anything is written.
+ */
+type ArchiveDirectory = {
+    name: string;
+    directories: Map<string, ArchiveDirectory>;
+    files: { name: string, entry: ZipArchiveEntry }[];
+};
+
+/**
+ * The shape of a node returned by {@link FolderService.getFolderRecursively}.
+ */
+type FolderTreeNode = {
+    id: string;
+    folder_name: string;
+    display_name: string | null;
+    is_root: boolean;
+    created_at: Date;
+    updated_at: Date;
+    parent_folder_id: string | null;
+    files: { id: string, file_name: string, size: number, s3_key: string | null, blob_id: string | null, created_at: Date }[];
+    subfolders: FolderTreeNode[];
+    /** Bytes of the files in the folder and all of its subfolders */
+    size: number;
+};
+
+/**
+ * The shape of a node returned by {@link FolderService.getSharedFolderRecursively}: a
+ * {@link FolderTreeNode} without the files' storage keys and content hashes.
+ */
+type SharedFolderTreeNode = Omit<FolderTreeNode, 'files' | 'subfolders'> & {
+    files: SharedFileSummary[];
+    subfolders: SharedFolderTreeNode[];
+};
+
+/** What visitors of a share link see of a file. */
+type SharedFileSummary = Pick<FolderTreeNode['files'][number], 'id' | 'file_name' | 'size' | 'created_at'>;
+
+/** What visitors of a share link see of a folder. */
+type SharedFolderSummary = Pick<FolderTreeNode, 'id' | 'folder_name' | 'display_name' | 'is_root' | 'created_at' | 'updated_at' | 'parent_folder_id'>;
+
+/**
+ * The shape returned by {@link FolderService.getSharedFolder}: a folder with its
+ * immediate children, without storage keys, content hashes or owners.
+ */
+type SharedFolderListing = SharedFolderSummary & {
+    files: SharedFileSummary[];
+    subfolders: SharedFolderSummary[];
+};
+
+/** Keeps only the fields of a file that visitors of a share link may see. */
+const toSharedFile = (file: SharedFileSummary): SharedFileSummary => ({
+    id: file.id,
+    file_name: file.file_name,
+    size: file.size,
+    created_at: file.created_at,
+});
+
+/** Keeps only the fields of a folder that visitors of a share link may see. */
+const toSharedFolder = (folder: Pick<Folder, keyof SharedFolderSummary>): SharedFolderSummary => ({
+    id: folder.id,
+    folder_name: folder.folder_name,
+    display_name: folder.display_name ?? null,
+    is_root: folder.is_root,
+    created_at: folder.created_at,
+    updated_at: folder.updated_at,
+    parent_folder_id: folder.parent_folder_id ?? null,
+});
+
+/**
+ * A folder row of the subtree query in {@link FolderService.getFolderRecursively}, with
+ * its files aggregated as JSON (so their dates arrive as strings).
+ */
+type FolderTreeRow = Omit<FolderTreeNode, 'files' | 'subfolders' | 'size'> & {
+    files: (Omit<FolderTreeNode['files'][number], 'created_at'> & { created_at: string })[];
+};
+
+/**
+ * A folder on the way from some folder up to the root, as read by
+ * {@link FolderService.getAncestorChain}.
+ */
+type AncestorRow = {
+    id: string;
+    folder_name: string;
+    display_name: string | null;
+    deleted_at: Date | null;
+};
+
+/**
+ * Where a page of children starts, decoded from the opaque cursor of
+ * {@link FolderService.getChildren}: after the folder or file with `id`, or at the
+ * first file when `id` is null.
+ */
+type ChildrenCursor = {
+    kind: 'folder' | 'file';
+    id: string | null;
+};
+
+/** Children listed per page when no limit is given. */
+const CHILDREN_PAGE_SIZE = 50;
+/** Most children a single page may hold. */
+const CHILDREN_PAGE_MAX = 200;
 
 /**
  * Service class for managing folder operations including S3 storage and database persistence
@@ -12,7 +125,7 @@ import { Folder, type File as CustomFile } from '@/types/types';
  * This service provides a centralized interface for all folder-related operations, including:
  * - create a "root Folder" for the user, where all subsequent folders are placed
  * - Deleting folders recursively from the database
- * - managing folder share 
+ * - Building ZIP archives of folders, for downloads and shared links
  * - Managing folder permission
  * 
  * All methods in this service are static and handle their own error management
@@ -27,15 +140,6 @@ import { Folder, type File as CustomFile } from '@/types/types';
  * ```
  */
 export class FolderService {
-    /**
-     * Configuration singleton instance for accessing environment variables and app settings
-     *
-     * @private
-     * @static
-     * @memberof FolderService
-     */
-    private static config = ConfigSingleton.getInstance().config;
-
     /**
      * Generate the rootFolder for a user where all file and folder uploads are contained in.
      * Each user has a unique rootFolder whose name is the name of the folder.
@@ -178,6 +282,9 @@ export class FolderService {
      * avoiding N+1 query problems. The returned folder will always include `files`
      * and `subfolders` arrays, even if they're empty.
      * 
+     * Folders in the trash are treated as not found, and trashed children are left
+     * out of `files` and `subfolders`.
+     * 
      * @see {@link getFolderRecursively} for retrieving the entire folder tree
      * @see {@link Folder} for the complete folder type definition
      */
@@ -186,10 +293,11 @@ export class FolderService {
             const folder = await prisma.folder.findUnique({
                 where: {
                     id: folderId,
+                    deleted_at: null,
                 },
                 include: {
-                    files: true,
-                    subfolders: true,
+                    files: { where: { deleted_at: null, pending_until: null } },
+                    subfolders: { where: { deleted_at: null } },
                 }
             });
             return folder as unknown as Folder;
@@ -199,6 +307,169 @@ export class FolderService {
         }
     }
 
+    /**
+     * Retrieves a folder and verifies that the given user may access it.
+     *
+     * Every owner-facing folder route calls this before operating on a folder, so that
+     * a user cannot list, delete, share or upload into another user's folder by
+     * guessing its ID.
+     *
+     * @param userId - The Clerk user ID from `auth()`, or null if unauthenticated
+     * @param folderId - The unique identifier of the folder being accessed
+     * @param permission - Whether the caller intends to read or modify the folder
+     * @param options - Set `contents: false` to skip loading the folder's files and
+     * subfolders, e.g. when they are listed page by page with {@link getChildren}
+     *
+     * @returns A promise that resolves to the Folder object (with files and subfolders,
+     * unless `contents` is false) once access is granted
+     *
+     * @throws {@link AuthorizationError}
+     * Throws with status:
+     * - `401` if the user is not authenticated
+     * - `404` if the folder does not exist
+     * - `403` if the folder belongs to another user
+     *
+     * @example
+     * ```typescript
+     * const { userId } = await auth();
+     * const folder = await FolderService.authorizeFolder(userId, 'folder-123', 'write');
+     * await FolderService.deleteFolderRecursively(folder.id);
+     * ```
+     *
+     * @see {@link AuthorizationService} for the ownership rules
+     */
+    static async authorizeFolder(userId: string | null, folderId: string, permission: Permission,
+        { contents = true }: { contents?: boolean } = {}): Promise<Folder> {
+        const folder = contents
+            ? await FolderService.getFolder(folderId)
+            : await prisma.folder.findUnique({ where: { id: folderId, deleted_at: null } }) as unknown as Folder | null;
+        AuthorizationService.assertPermission(userId, folder, permission);
+        return folder;
+    }
+
+    /**
+     * Renames a folder and/or moves it under another parent folder.
+     *
+     * @param folder - The folder to update, as returned by {@link authorizeFolder}
+     * @param changes - The new name and/or the ID of the destination parent folder
+     *
+     * @returns A promise that resolves to the updated Folder
+     *
+     * @throws {@link ValidationError}
+     * Throws with status:
+     * - `400` if the new name is empty, the folder is the root folder and a move was
+     *   requested, or the destination is the folder itself or one of its descendants
+     * - `409` if the destination already holds a folder with that name
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @example
+     * ```typescript
+     * const folder = await FolderService.authorizeFolder(userId, 'folder-123', 'write');
+     * await FolderService.authorizeFolder(userId, 'folder-456', 'write');
+     * const moved = await FolderService.updateFolder(folder, { parentFolderId: 'folder-456' });
+     * ```
+     *
+     * @remarks
+     * - Callers must authorize the destination folder; this method only checks structure
+     * - Renaming the root folder only changes its `display_name`; its `folder_name`
+     *   (`root_<userId>`) is an identifier and stays as is
+     * - Names are compared case-insensitively, matching the create-folder check
+     * - No objects are moved: file keys do not depend on the folder they live in
+     */
+    static async updateFolder(folder: Folder, changes: { name?: string, parentFolderId?: string }): Promise<Folder> {
+        try {
+            const folderName = changes.name !== undefined ? changes.name.trim() : folder.display_name || folder.folder_name;
+            const parentFolderId = changes.parentFolderId ?? folder.parent_folder_id;
+
+            if (!folderName) {
+                throw new ValidationError("Folder name cannot be empty", 400);
+            }
+
+            if (folder.is_root) {
+                if (changes.parentFolderId !== undefined) {
+                    throw new ValidationError("The root folder cannot be moved", 400);
+                }
+                const renamed = await prisma.folder.update({
+                    where: { id: folder.id },
+                    data: { display_name: folderName },
+                });
+                return renamed as unknown as Folder;
+            }
+
+            if (changes.parentFolderId !== undefined &&
+                await FolderService.isSameOrDescendant(folder.id, changes.parentFolderId)) {
+                throw new ValidationError("A folder cannot be moved into itself or one of its subfolders", 400);
+            }
+
+            const sibling = await prisma.folder.findFirst({
+                where: {
+                    parent_folder_id: parentFolderId,
+                    folder_name: { equals: folderName, mode: 'insensitive' },
+                    deleted_at: null,
+                    id: { not: folder.id },
+                },
+            });
+
+            if (sibling) {
+                throw new ValidationError(`A folder named "${folderName}" already exists in this location`, 409);
+            }
+
+            const updated = await prisma.folder.update({
+                where: { id: folder.id },
+                data: {
+                    folder_name: folderName,
+                    display_name: folderName,
+                    parent_folder_id: parentFolderId,
+                },
+            });
+            return updated as unknown as Folder;
+        } catch (error) {
+            if (error instanceof ValidationError) throw error;
+            console.error("Error updating folder: ", error);
+            throw new Error(`Failed to update folder: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Checks whether `candidateId` is the folder itself or sits somewhere below it,
+     * by looking for the folder among the candidate's ancestors.
+     *
+     * @param folderId - The folder being moved
+     * @param candidateId - The proposed new parent
+     *
+     * @private
+     * @internal
+     */
+    private static async isSameOrDescendant(folderId: string, candidateId: string): Promise<boolean> {
+        const chain = await FolderService.getAncestorChain(candidateId);
+        return chain.some((folder) => folder.id === folderId);
+    }
+
+    /**
+     * Reads a folder and all of its ancestors in a single recursive CTE query.
+     *
+     * @param folderId - The folder to start from
+     * @returns The folder followed by its parent, grandparent and so on up to the root,
+     * trashed ones included; empty if the folder does not exist
+     *
+     * @private
+     * @internal
+     */
+    private static async getAncestorChain(folderId: string): Promise<AncestorRow[]> {
+        return await prisma.$queryRaw<AncestorRow[]>`
+            WITH RECURSIVE chain AS (
+                SELECT id, folder_name, display_name, deleted_at, parent_folder_id, 0 AS depth
+                FROM "Folder" WHERE id = ${folderId}
+                UNION ALL
+                SELECT parent.id, parent.folder_name, parent.display_name, parent.deleted_at,
+                    parent.parent_folder_id, chain.depth + 1
+                FROM "Folder" parent JOIN chain ON parent.id = chain.parent_folder_id
+            )
+            SELECT id, folder_name, display_name, deleted_at FROM chain ORDER BY depth`;
+    }
+
     /**
      * Creates a new subfolder within an existing parent folder.
      * 
@@ -289,15 +560,15 @@ export class FolderService {
     }
 
     /**
-     * Constructs a direct HTTPS URL for accessing S3 objects.
+     * Constructs the permanent link for a storage object.
      * 
-     * This helper method generates a public S3 URL based on the configured bucket name,
-     * AWS region, and the object's path. Note that the URL being public doesn't mean
-     * the object is publicly accessible - access still depends on S3 bucket policies.
+     * Delegates to the configured storage driver. With the S3 driver this is the
+     * bucket's HTTPS URL; with the local driver it is a `local://` URI. Note that the
+     * link doesn't make the object publicly accessible.
      * 
-     * @param path - The S3 object key/path (e.g., "username/folder/file.txt")
+     * @param path - The object key/path (e.g., "username/folder/file.txt")
      * 
-     * @returns The complete HTTPS URL to the S3 object
+     * @returns The link to the object in the active storage backend
      * 
      * @example
      * ```typescript
@@ -306,15 +577,16 @@ export class FolderService {
      * ```
      * 
      * @remarks
-     * This method is used internally for generating S3 links stored in the database.
-     * The URLs are stored for reference but actual file access typically uses presigned URLs
+     * This method is used internally for generating links stored in the database.
+     * The links are stored for reference but actual file access uses signed URLs
      * for security.
      * 
      * @private
      * @internal
+     * @see {@link IStorageDriver.getObjectLink}
      */
     private static buildS3Link(path: string) : string {
-        return `https://${this.config.APPLICATION_BUCKET_NAME}.s3.${this.config.AWS_REGION}.amazonaws.com/${path}`;
+        return storageDriver.getObjectLink(path);
     }
 
     /**
@@ -365,19 +637,19 @@ export class FolderService {
         path: string, folder: Folder, 
         _rootFolderName: string): Promise<Folder> {
         try {
-            await s3Client.send(new PutObjectCommand({
-                Bucket: this.config.APPLICATION_BUCKET_NAME,
-                Key: `${path}/.folder-info.txt`,
-                Body: `#Folder: ${path}\n# Folder ID ${folder.id}\n Created ${new Date().toISOString()}`,
-                ContentType: 'text/plain',
-                Metadata: {
-                    'username': folder.folder_name,
-                    'folder-id': folder.id,
-                    'folder-name': folder.folder_name,
-                    'created-at': new Date().toISOString(),
-                    'folder-type': folder.is_root ? 'root': 'subfolder'
-                }
-            }));
+            await storageDriver.putObject(
+                `${path}/.folder-info.txt`,
+                `#Folder: ${path}\n# Folder ID ${folder.id}\n Created ${new Date().toISOString()}`,
+                {
+                    contentType: 'text/plain',
+                    metadata: {
+                        'username': folder.folder_name,
+                        'folder-id': folder.id,
+                        'folder-name': folder.folder_name,
+                        'created-at': new Date().toISOString(),
+                        'folder-type': folder.is_root ? 'root': 'subfolder'
+                    }
+                });
             return folder;
         } catch (error) {
             console.error("Error creating folder info file:", error);
@@ -423,14 +695,15 @@ export class FolderService {
      * 
      * @remarks
      * **Performance Considerations:**
-     * - This method makes N+1 database queries where N is the number of subfolders
-     * - For large folder hierarchies, this can be slow and expensive
-     * - Consider using pagination or limiting depth for production use
-     * - Future optimization could use recursive CTEs or graph queries
+     * - The whole subtree is read in a single query: a recursive CTE collects the
+     *   folder and its live descendants, and each folder's files are aggregated as JSON
+     * - The nesting is rebuilt in memory, so the cost grows with the size of the tree
+     *   rather than with the number of round trips
      * 
      * **Data Structure:**
-     * - Each folder includes: id, folder_name, is_root, created_at, updated_at, parent_folder_id
-     * - Files are included with: id, file_name, created_at
+     * - Each folder includes: id, folder_name, is_root, created_at, updated_at, parent_folder_id,
+     *   and `size`, the bytes of the files in it and its subfolders
+     * - Files are included with: id, file_name, size, s3_key, blob_id, created_at
      * - Subfolders are fully recursive (the entire tree is loaded)
      * 
      * @see {@link getFolder} for fetching a single folder without recursion
@@ -442,47 +715,503 @@ export class FolderService {
      */
     static async getFolderRecursively(folderId: string) : Promise<unknown> {
         try {
-            const folder = await prisma.folder.findUnique({
-                where: { id: folderId },
-                select: {
-                  id: true,
-                  folder_name: true,
-                  display_name: true,
-                  is_root: true,
-                  created_at: true,
-                  updated_at: true,
-                  parent_folder_id: true,
-                  files: {
-                    select: {
-                      id: true,
-                      file_name: true,
-                      created_at: true,
-                    },
-                  },
-                  subfolders: {
-                    select: {
-                      id: true,
-                      folder_name: true,
-                      display_name: true,
-                      created_at: true,
-                    },
-                  },
+            const rows = await prisma.$queryRaw<FolderTreeRow[]>`
+                WITH RECURSIVE tree AS (
+                    SELECT id, 0 AS depth FROM "Folder" WHERE id = ${folderId}
+                    UNION ALL
+                    SELECT child.id, tree.depth + 1
+                    FROM "Folder" child JOIN tree ON child.parent_folder_id = tree.id
+                    WHERE child.deleted_at IS NULL
+                )
+                SELECT folder.id, folder.folder_name, folder.display_name, folder.is_root,
+                    folder.created_at, folder.updated_at, folder.parent_folder_id,
+                    COALESCE((
+                        SELECT json_agg(json_build_object(
+                            'id', file.id, 'file_name', file.file_name, 'size', file.size,
+                            's3_key', file.s3_key, 'blob_id', file.blob_id, 'created_at', file.created_at
+                        ) ORDER BY file.created_at)
+                        FROM "File" file
+                        WHERE file.parent_folder_id = folder.id
+                            AND file.deleted_at IS NULL AND file.pending_until IS NULL
+                    ), '[]'::json) AS files
+                FROM tree JOIN "Folder" folder ON folder.id = tree.id
+                ORDER BY tree.depth, folder.created_at`;
+
+            const nodes = new Map<string, FolderTreeNode>();
+            for (const row of rows) {
+                const files = row.files.map((file) => ({ ...file, size: Number(file.size), created_at: new Date(file.created_at) }));
+                nodes.set(row.id, {
+                    ...row,
+                    files,
+                    subfolders: [],
+                    size: files.reduce((sum, file) => sum + file.size, 0),
+                });
+            }
+            // children are attached in row order, so subfolders stay sorted by creation
+            for (const node of nodes.values()) {
+                if (node.id !== folderId && node.parent_folder_id) {
+                    nodes.get(node.parent_folder_id)?.subfolders.push(node);
+                }
+            }
+            // rows come parents first, so adding each folder to its parent from the deepest up totals every subtree
+            for (const node of [...nodes.values()].reverse()) {
+                if (node.id !== folderId && node.parent_folder_id) {
+                    const parent = nodes.get(node.parent_folder_id);
+                    if (parent) parent.size += node.size;
+                }
+            }
+            return nodes.get(folderId) ?? null;
+        } catch (error) {
+            console.error("Error creating folder info file:", error);
+            throw new Error(`Failed to create folder info file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Retrieves a folder hierarchy for visitors of a share link.
+     * 
+     * @param folderId - The unique identifier of the shared folder
+     * 
+     * @returns A promise that resolves to the tree, as from {@link getFolderRecursively}
+     * but without the files' `s3_key` and `blob_id`, or `null` if the folder doesn't exist
+     * 
+     * @throws {@link Error}
+     * Throws an error if there's a database communication failure
+     * 
+     * @remarks
+     * Storage keys contain the owner's user ID and content hashes tell whether two files
+     * are the same, so neither leaves the server through a share link. Archives and
+     * copies, which need them, use {@link getFolderRecursively}.
+     */
+    static async getSharedFolderRecursively(folderId: string): Promise<SharedFolderTreeNode | null> {
+        const tree = await FolderService.getFolderRecursively(folderId) as FolderTreeNode | null;
+        const strip = (node: FolderTreeNode): SharedFolderTreeNode => ({
+            ...toSharedFolder(node),
+            size: node.size,
+            files: node.files.map(toSharedFile),
+            subfolders: node.subfolders.map(strip),
+        });
+        return tree && strip(tree);
+    }
+
+    /**
+     * Retrieves a folder with its immediate children for visitors of a share link.
+     * 
+     * @param folderId - The unique identifier of the shared folder
+     * 
+     * @returns A promise that resolves to the folder, as from {@link getFolder} but with
+     * only the fields listed in {@link getSharedFolderRecursively}'s tree, or `null` if
+     * the folder doesn't exist
+     * 
+     * @throws {@link Error}
+     * Throws an error if there's a database communication failure
+     * 
+     * @remarks
+     * Leaves out storage keys, content hashes, thumbnail keys and owners, like
+     * {@link getSharedFolderRecursively}.
+     */
+    static async getSharedFolder(folderId: string): Promise<SharedFolderListing | null> {
+        const folder = await FolderService.getFolder(folderId);
+        if (!folder) return null;
+        return {
+            ...toSharedFolder(folder),
+            files: (folder.files ?? []).map(toSharedFile),
+            subfolders: folder.subfolders.map(toSharedFolder),
+        };
+    }
+
+    /**
+     * Lists one page of a folder's live children: its subfolders first, then its files.
+     * 
+     * @param folder - The folder to list, as returned by {@link authorizeFolder}
+     * @param query - The cursor, page size and sort order
+     * 
+     * @returns A promise that resolves to the page, with the cursor of the next page
+     * 
+     * @throws {@link ValidationError}
+     * Throws with status `400` if the limit, sort, order, extension or cursor is invalid
+     * 
+     * @throws {@link Error}
+     * Throws an error if a database query fails
+     * 
+     * @example
+     * ```typescript
+     * const folder = await FolderService.authorizeFolder(userId, folderId, 'read', { contents: false });
+     * let page = await FolderService.getChildren(folder, { sort: 'name', limit: 100 });
+     * while (page.next_cursor) {
+     *   page = await FolderService.getChildren(folder, { sort: 'name', limit: 100, cursor: page.next_cursor });
+     * }
+     * ```
+     * 
+     * @remarks
+     * - Pages are keyed on the last item returned (Prisma cursor pagination), so items
+     *   added or removed between requests do not shift later pages
+     * - Ties in the sort field are broken by ID, which keeps the order stable
+     * - `limit` defaults to 50 and may be at most 200
+     * - Sorting by `size` orders the subfolders by the bytes in them and their
+     *   subfolders, like the `size` they carry; folder sizes are not stored, so every
+     *   subfolder is measured for each page ({@link getFoldersBySize})
+     * - Sorting by `type` orders the subfolders by name, as folders have none, and the
+     *   files by extension, then name
+     * - With `extension`, only files with that extension are listed and subfolders are
+     *   left out
+     * - Each subfolder carries its `size`: the bytes of the live files in it and its
+     *   subfolders, read for the whole page in one recursive query ({@link getFolderSizes})
+     * - A cursor is only valid with the sort, order and extension it was issued for
+     */
+    static async getChildren(folder: Folder, query: ChildrenQuery = {}): Promise<FolderChildrenPage> {
+        const limit = query.limit ?? CHILDREN_PAGE_SIZE;
+        const sort = query.sort ?? 'name';
+        const order = query.order ?? 'asc';
+        if (!Number.isInteger(limit) || limit < 1 || limit > CHILDREN_PAGE_MAX) {
+            throw new ValidationError(`limit must be a whole number from 1 to ${CHILDREN_PAGE_MAX}`, 400);
+        }
+        if (!['name', 'created_at', 'size', 'type'].includes(sort)) {
+            throw new ValidationError("sort must be one of name, created_at, size or type", 400);
+        }
+        if (!['asc', 'desc'].includes(order)) {
+            throw new ValidationError("order must be asc or desc", 400);
+        }
+        if (query.extension !== undefined && !/^[a-z0-9]{1,10}$/.test(query.extension)) {
+            throw new ValidationError("extension must be 1 to 10 lower-case letters or digits", 400);
+        }
+        const cursor = query.cursor ? FolderService.decodeChildrenCursor(query.cursor) : null;
+
+        try {
+            const encode = (next: ChildrenCursor) => Buffer.from(JSON.stringify(next)).toString('base64url');
+            const folderField = sort === 'created_at' ? 'created_at' : 'folder_name';
+            const fileOrder = sort === 'type'
+                ? [{ extension: order }, { file_name: order }, { id: order }]
+                : [{ [sort === 'name' ? 'file_name' : sort]: order }, { id: order }];
+
+            let folders: Folder[] = [];
+            if (query.extension === undefined && (!cursor || cursor.kind === 'folder')) {
+                if (sort === 'size') {
+                    folders = await FolderService.getFoldersBySize(folder.id, order, cursor?.id ?? null, limit + 1);
+                    if (folders.length > limit) {
+                        folders = folders.slice(0, limit);
+                        return { folder, folders, files: [], next_cursor: encode({ kind: 'folder', id: folders[limit - 1].id }) };
+                    }
+                } else {
+                    folders = await prisma.folder.findMany({
+                        where: { parent_folder_id: folder.id, deleted_at: null },
+                        orderBy: [{ [folderField]: order }, { id: order }],
+                        take: limit + 1,
+                        ...(cursor?.id ? { cursor: { id: cursor.id }, skip: 1 } : {}),
+                    }) as unknown as Folder[];
+                    if (folders.length > limit) {
+                        folders = await FolderService.withSizes(folders.slice(0, limit));
+                        return { folder, folders, files: [], next_cursor: encode({ kind: 'folder', id: folders[limit - 1].id }) };
+                    }
+                    folders = await FolderService.withSizes(folders);
+                }
+            }
+
+            // the page has room for this many files; one more tells whether there is a next page
+            const room = limit - folders.length;
+            const fileCursor = cursor?.kind === 'file' ? cursor.id : null;
+            const files = await prisma.file.findMany({
+                where: {
+                    parent_folder_id: folder.id,
+                    deleted_at: null,
+                    pending_until: null,
+                    ...(query.extension !== undefined ? { extension: query.extension } : {}),
                 },
-              }); 
-        
-            if (!folder) return null;
-        
-            const subfolders = await Promise.all(
-                folder.subfolders.map(async (sub) => await FolderService.getFolderRecursively(sub.id))
-            );
-        
+                orderBy: fileOrder,
+                take: room + 1,
+                ...(fileCursor ? { cursor: { id: fileCursor }, skip: 1 } : {}),
+            }) as unknown as CustomFile[];
+
+            if (files.length > room) {
+                const page = files.slice(0, room);
+                const next_cursor = encode({ kind: 'file', id: page.length > 0 ? page[page.length - 1].id : fileCursor });
+                return { folder, folders, files: await ThumbnailService.withThumbnailUrls(page), next_cursor };
+            }
+            return { folder, folders, files: await ThumbnailService.withThumbnailUrls(files), next_cursor: null };
+        } catch (error) {
+            if (error instanceof ValidationError) throw error;
+            console.error("Error listing folder children: ", error);
+            throw new Error(`Failed to list folder children: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Adds up the bytes in each of some folders, subfolders included.
+     *
+     * @param folderIds - The folders to measure
+     * @returns A promise that resolves to the bytes per folder ID; every requested ID is
+     * present, with `0` for empty folders
+     *
+     * @throws {@link Error}
+     * Throws an error if the database query fails
+     *
+     * @remarks
+     * Only live files count: trashed files, files in trashed subfolders and pending
+     * uploads are left out, as are earlier versions (see {@link QuotaService.getFolderUsage}
+     * for the bytes counted against the quota).
+     */
+    static async getFolderSizes(folderIds: string[]): Promise<Record<string, number>> {
+        if (folderIds.length === 0) return {};
+        try {
+            const rows = await prisma.$queryRaw<{ id: string, size: bigint }[]>`
+                WITH RECURSIVE tree AS (
+                    SELECT id AS top_id, id FROM "Folder" WHERE id IN (${Prisma.join(folderIds)})
+                    UNION ALL
+                    SELECT tree.top_id, child.id
+                    FROM "Folder" child JOIN tree ON child.parent_folder_id = tree.id
+                    WHERE child.deleted_at IS NULL
+                )
+                SELECT tree.top_id AS id, COALESCE(SUM(file.size), 0)::bigint AS size
+                FROM tree LEFT JOIN "File" file ON file.parent_folder_id = tree.id
+                    AND file.deleted_at IS NULL AND file.pending_until IS NULL
+                GROUP BY tree.top_id`;
+
+            const sizes: Record<string, number> = Object.fromEntries(folderIds.map((id) => [id, 0]));
+            for (const row of rows) {
+                sizes[row.id] = Number(row.size);
+            }
+            return sizes;
+        } catch (error) {
+            console.error("Error computing folder sizes: ", error);
+            throw new Error(`Failed to compute folder sizes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Reads a page of a folder's live subfolders in order of size, with `size` set.
+     *
+     * @param parentId - The folder whose subfolders to list
+     * @param order - `asc` for the smallest first, `desc` for the largest
+     * @param afterId - The last subfolder of the previous page, or null for the first page
+     * @param take - How many subfolders to return at most
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `400` if `afterId` is not one of the subfolders, e.g. because it
+     * was moved or trashed since the previous page
+     *
+     * @private
+     * @internal
+     */
+    private static async getFoldersBySize(parentId: string, order: 'asc' | 'desc', afterId: string | null, take: number): Promise<Folder[]> {
+        const subfolders = await FolderService.withSizes(await prisma.folder.findMany({
+            where: { parent_folder_id: parentId, deleted_at: null },
+        }) as unknown as Folder[]);
+        const direction = order === 'asc' ? 1 : -1;
+        // ties are broken by ID, as in the other sort orders
+        subfolders.sort((a, b) => direction * (((a.size ?? 0) - (b.size ?? 0)) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)));
+        const start = afterId ? subfolders.findIndex((subfolder) => subfolder.id === afterId) + 1 : 0;
+        if (afterId && start === 0) {
+            throw new ValidationError("Invalid cursor", 400);
+        }
+        return subfolders.slice(start, start + take);
+    }
+
+    /**
+     * Sets `size` on each of a page of folders, via {@link getFolderSizes}.
+     *
+     * @private
+     * @internal
+     */
+    private static async withSizes(folders: Folder[]): Promise<Folder[]> {
+        const sizes = await FolderService.getFolderSizes(folders.map((folder) => folder.id));
+        return folders.map((folder) => ({ ...folder, size: sizes[folder.id] }));
+    }
+
+    /**
+     * Decodes a cursor issued by {@link getChildren}.
+     * 
+     * @param cursor - The opaque cursor
+     * 
+     * @throws {@link ValidationError}
+     * Throws with status `400` if the cursor is malformed
+     * 
+     * @private
+     * @internal
+     */
+    private static decodeChildrenCursor(cursor: string): ChildrenCursor {
+        try {
+            const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+            if ((decoded.kind === 'folder' && typeof decoded.id === 'string')
+                || (decoded.kind === 'file' && (typeof decoded.id === 'string' || decoded.id === null))) {
+                return { kind: decoded.kind, id: decoded.id };
+            }
+        } catch {
+            // reported below
+        }
+        throw new ValidationError("Invalid cursor", 400);
+    }
+
+    /**
+     * Deep-copies a folder, with all of its subfolders and files, into another folder.
+     *
+     * The subtree is read with {@link getFolderRecursively}; every folder row is
+     * recreated with {@link createSubfolder} and every file with
+     * {@link FileService.copyFile}, which shares or copies the stored content server-side.
+     *
+     * @param source - The folder to copy, as returned by {@link authorizeFolder}
+     * @param destination - The folder the copy is placed in, as returned by {@link authorizeFolder}
+     * @param onProgress - Optional callback invoked after each folder or file is copied
+     * @param limits - `availableBytes` is what is left of the user's storage quota, if limited
+     *
+     * @returns A promise that resolves to the new top-level Folder
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `400` if the destination is the source folder or one of its
+     * descendants, or `413` if the files to copy need more than `availableBytes`
+     *
+     * @throws {@link Error}
+     * Throws an error if a storage copy or database insert fails
+     *
+     * @example
+     * ```typescript
+     * const template = await FolderService.authorizeFolder(userId, 'template-id', 'read');
+     * const projects = await FolderService.authorizeFolder(userId, 'projects-id', 'write');
+     * const copy = await FolderService.copyFolder(template, projects, ({ copied, total }) => {
+     *   console.log(`${copied}/${total}`);
+     * });
+     * ```
+     *
+     * @remarks
+     * - If the destination already has a folder with the same name, the copy is renamed
+     *   with a numeric suffix, e.g. "Template (1)"
+     * - Trashed items inside the source are not copied
+     * - Share settings are not copied; the new folders and files start out private
+     * - A failure part-way leaves the items copied so far in place
+     */
+    static async copyFolder(source: Folder, destination: Folder,
+        onProgress?: (progress: CopyProgress) => void, limits: { availableBytes?: number } = {}): Promise<Folder> {
+        try {
+            if (await FolderService.isSameOrDescendant(source.id, destination.id)) {
+                throw new ValidationError("A folder cannot be copied into itself or one of its subfolders", 400);
+            }
+
+            const tree = await FolderService.getFolderRecursively(source.id) as FolderTreeNode | null;
+            if (!tree) {
+                throw new Error("Folder not found");
+            }
+            if (limits.availableBytes !== undefined && tree.size > limits.availableBytes) {
+                throw new ValidationError(`Storage quota exceeded: the folder holds ${tree.size} bytes but only ${limits.availableBytes} are left`, 413);
+            }
+
+            const countItems = (node: FolderTreeNode): number =>
+                1 + node.files.length + node.subfolders.reduce((sum, sub) => sum + countItems(sub), 0);
+            const progress: CopyProgress = { copied: 0, total: countItems(tree), current: '' };
+            const report = (name: string) => {
+                progress.copied++;
+                progress.current = name;
+                onProgress?.({ ...progress });
+            };
+
+            const rootFolder = await prisma.folder.findFirst({
+                where: { owner_clerk_id: source.owner_clerk_id, is_root: true },
+            }) as unknown as Folder;
+
+            const siblings = await prisma.folder.findMany({
+                where: { parent_folder_id: destination.id, deleted_at: null },
+                select: { folder_name: true },
+            });
+            const topName = getAvailableName(
+                source.display_name || source.folder_name,
+                siblings.map((sibling) => sibling.folder_name),
+                { ignoreCase: true });
+
+            const copyNode = async (node: FolderTreeNode, parent: Folder, name: string): Promise<Folder> => {
+                const copy = await FolderService.createSubfolder(parent, name, rootFolder, source.owner_clerk_id);
+                report(name);
+
+                for (const file of node.files) {
+                    await FileService.copyFile({ ...file, owner_clerk_id: source.owner_clerk_id }, copy.id);
+                    report(file.file_name);
+                }
+
+                for (const subfolder of node.subfolders) {
+                    await copyNode(subfolder, copy, subfolder.display_name || subfolder.folder_name);
+                }
+
+                return copy;
+            };
+
+            return await copyNode(tree, destination, topName);
+        } catch (error) {
+            if (error instanceof ValidationError) throw error;
+            console.error("Error copying folder: ", error);
+            throw new Error(`Failed to copy folder: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Builds a streamed ZIP archive of a folder and everything below it.
+     *
+     * The folder tree is loaded up front, but file contents are only read from storage
+     * as the archive is consumed, one file at a time, so the archive is never held in
+     * memory.
+     *
+     * @param folderId - The unique identifier of the folder to archive
+     *
+     * @returns A promise resolving to the archive's suggested file name (e.g.
+     * `Reports.zip`) and a stream of its bytes
+     *
+     * @throws {@link Error}
+     * Throws an error if the folder is not found or the tree cannot be loaded. Errors
+     * while reading a file happen mid-stream and abort the stream instead.
+     *
+     * @example
+     * ```typescript
+     * const folder = await FolderService.authorizeFolder(userId, 'folder-123', 'read');
+     * const { fileName, stream } = await FolderService.createArchive(folder.id);
+     * return new Response(stream, {
+     *   headers: { 'Content-Disposition': `attachment; filename="${fileName}"` }
+     * });
+     * ```
+     *
+     * @remarks
+     * - The archive contains a top-level directory named after the folder
+     * - Empty subfolders are kept as directory entries
+     * - Entries that would clash inside the archive get a numeric suffix, and `/` or `\`
+     *   in names is replaced with `_`
+     * - Trashed files and folders are left out
+     */
+    static async createArchive(folderId: string): Promise<{ fileName: string, stream: ReadableStream<Uint8Array> }> {
+        try {
+            const tree = await FolderService.getFolderRecursively(folderId) as FolderTreeNode | null;
+            if (!tree) {
+                throw new Error("Folder not found");
+            }
+
+            const safeName = (name: string) => name.replace(/[\\/]/g, '_');
+            const rootName = safeName(tree.display_name || tree.folder_name);
+
+            async function* entries(node: FolderTreeNode, path: string): AsyncGenerator<ZipEntry> {
+                yield { name: `${path}/`, modifiedAt: node.created_at };
+
+                const taken: string[] = [];
+                for (const file of node.files) {
+                    const name = getAvailableName(safeName(file.file_name), taken, { keepExtension: true, ignoreCase: true });
+                    taken.push(name);
+                    if (!file.s3_key) continue;
+                    const key = file.s3_key;
+                    yield {
+                        name: `${path}/${name}`,
+                        modifiedAt: file.created_at,
+                        size: file.size,
+                        data: () => storageDriver.getObjectStream(key),
+                    };
+                }
+
+                for (const subfolder of node.subfolders) {
+                    const name = getAvailableName(safeName(subfolder.display_name || subfolder.folder_name), taken, { ignoreCase: true });
+                    taken.push(name);
+                    yield* entries(subfolder, `${path}/${name}`);
+                }
+            }
+
             return {
-                ...folder,
-                subfolders: subfolders,
+                fileName: `${rootName}.zip`,
+                stream: createZipStream(entries(tree, rootName)),
             };
         } catch (error) {
-            console.error("Error creating folder info file:", error);
-            throw new Error(`Failed to create folder info file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            console.error("Error creating folder archive: ", error);
+            throw new Error(`Failed to create folder archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
@@ -517,7 +1246,9 @@ export class FolderService {
      * 
      * @remarks
      * **Deletion Order:**
-     * 1. Files in the current folder (S3 then database)
+     * 1. Files in the current folder, with their earlier versions (database, then the
+     *    multipart upload of a pending file is aborted, their content is released with
+     *    {@link BlobService.releaseContent} and their thumbnails deleted)
      * 2. All subfolders (recursive)
      * 3. The folder's `.folder-info.txt` marker in S3
      * 4. The folder record itself
@@ -535,8 +1266,9 @@ export class FolderService {
      * 
      * **Safety:**
      * - This operation is **irreversible** - there is no undo
-     * - Consider implementing soft delete or a "trash" folder for production
-     * - Consider adding authorization checks before calling this method
+     * - User-facing deletes go through {@link TrashService.trashFolder} instead; this
+     *   method is only used when the trash is purged
+     * - Callers must check ownership first with {@link authorizeFolder}
      * 
      * @see {@link getFolderRecursively} for retrieving folder structure before deletion
      * @see {@link https://docs.aws.amazon.com/AmazonS3/latest/userguide/delete-objects.html | AWS S3 Delete Objects}
@@ -550,7 +1282,7 @@ export class FolderService {
                     id: folderId,
                 },
                 include: {
-                    files: true,
+                    files: { include: { versions: true } },
                     subfolders: true,
                 },
             });
@@ -558,24 +1290,23 @@ export class FolderService {
             // delete all the files
             if (curr_folder?.files) {
                 for (const leaf of curr_folder?.files) {
-                    await prisma.file.findUnique({
-                        where: {
-                            id: leaf?.id
-                        }});
-                    
                     try {
-                        // now we need to delete the file
-                        await s3Client.send(
-                            new DeleteObjectCommand({
-                                Bucket: ConfigSingleton.getInstance().config.APPLICATION_BUCKET_NAME,
-                                Key: leaf?.s3_key as string,
-                            }));
-                        // now we delete the file 
+                        // delete the file first (its version rows cascade)
                         await prisma.file.delete({
                             where: {
                                 id: leaf?.id,
                             },
                         });
+                        // an upload still in progress holds parts that storage keeps until it is aborted
+                        if (leaf.multipart_upload_id && leaf.s3_key) {
+                            await storageDriver.abortMultipartUpload(leaf.s3_key, leaf.multipart_upload_id);
+                        }
+                        // then release its content; shared blobs stay until their last reference goes
+                        await BlobService.releaseContent(leaf);
+                        for (const version of leaf.versions ?? []) {
+                            await BlobService.releaseContent(version);
+                        }
+                        await ThumbnailService.deleteThumbnail(leaf);
                     } catch(s3Error) {
                         console.error(`Error deleting file from S3: ${leaf.file_name}`, s3Error);
                     }
@@ -595,12 +1326,7 @@ export class FolderService {
         
             // delete the .info-text
             if (curr_folder?.s3_link) {
-                await s3Client.send(
-                    new DeleteObjectCommand({
-                        Bucket: ConfigSingleton.getInstance().config.APPLICATION_BUCKET_NAME,
-                        Key: curr_folder.s3_key as string,
-                    })
-                );
+                await storageDriver.deleteObject(curr_folder.s3_key as string);
             }
             
             // delete the folder in prisma
@@ -615,117 +1341,24 @@ export class FolderService {
         }
     }
 
-    /**
-     * Creates a shareable link for a folder with a time-limited access token.
-     * 
-     * This method generates a unique share token, sets an expiration time, and returns
-     * a complete URL that can be shared with others to provide temporary access to the
-     * folder and all its contents (including subfolders and files).
-     * 
-     * @param folderId - The unique identifier of the folder to share
-     * @param hours - The number of hours until the share link expires
-     * @param origin - The application's origin URL (e.g., "https://example.com")
-     * 
-     * @returns A promise that resolves to an object containing:
-     * - `url`: The complete shareable URL with the token
-     * - `expires_at`: The Date when the share link will expire
-     * 
-     * @throws {@link Error}
-     * Throws an error if:
-     * - The folder is not found
-     * - The database update fails
-     * 
-     * @example
-     * ```typescript
-     * // Share a folder for 48 hours
-     * const shareInfo = await FolderService.shareFolder(
-     *   'folder-123',
-     *   48,
-     *   'https://myapp.com'
-     * );
-     * 
-     * console.log('Share this link:', shareInfo.url);
-     * // Output: "https://myapp.com/shared/folder/abc-def-ghi-123"
-     * console.log('Expires at:', shareInfo.expires_at);
-     * // Output: 2024-10-25T12:00:00.000Z
-     * 
-     * // Share for 7 days (168 hours)
-     * const weekShare = await FolderService.shareFolder('folder-456', 168, origin);
-     * ```
-     * 
-     * @remarks
-     * **Security Features:**
-     * - Generates a cryptographically secure random UUID as the share token
-     * - Token is stored in the database and validated on access
-     * - Links automatically expire after the specified time
-     * - The token is unguessable (UUID v4 = 122 bits of randomness)
-     * 
-     * **Behavior:**
-     * - Sets the folder's `shared` flag to `true`
-     * - Generates a new `shareToken` (UUID)
-     * - Calculates `expires_at` as current time + hours
-     * - Returns a full URL: `{origin}/shared/folder/{shareToken}`
-     * 
-     * **Access Control:**
-     * - Anyone with the share link can access the folder until expiration
-     * - No authentication required for accessing shared folders
-     * - All files within the folder hierarchy are accessible via the share token
-     * - See {@link FileService.getFileFromShareToken} for how files are accessed
-     * 
-     * **Multiple Shares:**
-     * - Sharing a folder again overwrites the previous share token
-     * - Consider implementing multiple concurrent shares if needed
-     * 
-     * @see {@link getFolderByShareToken} for retrieving folders by their share token
-     * @see {@link FileService.getFileFromShareToken} for file access via share tokens
-     * 
-     * @public
-     */
-    static async shareFolder(folderId: string, hours: number, origin: string): Promise<{ url: string, expires_at: Date }> {
-        try {
-            await prisma.folder.findUnique({
-                where : {
-                    id: folderId,
-                },
-            });
-
-            const newExpiry = new Date(Date.now() + hours * 60 * 60 * 1000);
-            const shareToken = crypto.randomUUID();
-            
-            await prisma.folder.update({
-                where: {
-                    id: folderId,
-                },
-                data: {
-                    shared: true,
-                    shareToken: shareToken,
-                    expires_at: newExpiry,
-                }
-            });
-            const shareURL = `${origin}/shared/folder/${shareToken}`;
-            return { url: shareURL, expires_at: newExpiry };
-        } catch (error) {
-            console.error("Error creating folder info file: ", error);
-            throw new Error(`Failed to delete folder info file: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-    }
-
     /**
      * Uploads a file to S3 and creates a corresponding database record within a folder.
      * 
      * This method handles the complete file upload process: storing the file in S3,
      * creating a database record with metadata, and linking it to the parent folder.
-     * The file is stored at the root folder level in S3 but tracked within the
-     * current folder in the database hierarchy.
+     * The file's ID is generated up front so its object key is unique to this row.
      * 
      * @param root_folder - The user's root folder (used for S3 path construction)
      * @param curr_folder - The folder where the file will be logically stored
      * @param file - The browser File object containing metadata
      * @param buffer - The file's binary content as a Buffer
      * @param user - The Clerk user object (owner of the file)
+     * @param maxVersions - When given, an upload whose name already exists in the folder
+     * becomes a new version of that file, keeping at most this many earlier versions
      * 
      * @returns A promise that resolves to:
-     * - The newly created File object with database metadata
+     * - The newly created File object with database metadata, or the existing file it
+     *   became a new version of
      * - `null` if the upload fails (though typically throws an error instead)
      * 
      * @throws {@link Error}
@@ -756,9 +1389,10 @@ export class FolderService {
      * 
      * @remarks
      * **S3 Storage:**
-     * - Files are stored at: `{rootFolderName}/{fileName}`
+     * - Files are stored at: `root_user_{userId}/files/{fileId}/{fileName}` (see {@link FileService.buildObjectKey})
      * - The content type from the browser File object is preserved
-     * - File overwrites are possible if the same name exists (no automatic versioning)
+     * - Content is deduplicated by SHA-256 (see {@link BlobService}): if identical bytes are
+     *   already stored, the file shares that object and nothing is uploaded
      * 
      * **Database Record:**
      * - Stores: file_name, size, parent_folder_id, owner_clerk_id, s3_link, s3_key
@@ -770,11 +1404,15 @@ export class FolderService {
      * - The file is added to the folder's `files` relationship
      * - This enables easy querying of all files in a folder
      * 
+     * **Versions:**
+     * - With `maxVersions`, a same-named live file receives the upload as its new version
+     *   (see {@link FileVersionService.addVersion})
+     * - Without it, same-named files coexist as separate rows (archive extraction picks
+     *   unique names itself)
+     * 
      * **Limitations:**
-     * - No duplicate name checking (last upload wins)
      * - No virus scanning or content validation
      * - No file size limit enforcement (should be done before calling)
-     * - All files go to root folder path regardless of subfolder depth
      * 
      * @see {@link getFolder} to retrieve folders and their files
      * @see {@link FileService.deleteFile} to delete uploaded files
@@ -783,24 +1421,35 @@ export class FolderService {
      */
     static async uploadFileToFolder(
             root_folder: Folder, curr_folder: Folder, 
-            file: File, buffer: Buffer, user: User): Promise<CustomFile | null> {
+            file: File, buffer: Buffer, user: User, maxVersions?: number): Promise<CustomFile | null> {
         try {
-            const filePath = `root_user_${user.id}/${file.name}`; // Use userId for S3 paths
-            await s3Client.send(new PutObjectCommand({
-                Bucket: this.config.APPLICATION_BUCKET_NAME,
-                Key: filePath,
-                Body: buffer,
-                ContentType: file.type,
-            }));
+            const fileId = randomUUID();
+            const hash = BlobService.hashBuffer(buffer);
+            let blob = await BlobService.claimBlob(hash);
+            if (!blob) {
+                const filePath = FileService.buildObjectKey(user.id, fileId, file.name);
+                await storageDriver.putObject(filePath, buffer, { contentType: file.type });
+                blob = await BlobService.storeBlob(hash, buffer.length, filePath);
+            }
+            await BlobService.indexContent(blob, file.name, buffer);
+
+            const existing = maxVersions !== undefined
+                ? await FileVersionService.findFileByName(curr_folder.id, file.name)
+                : null;
+            if (existing) {
+                return await FileVersionService.addVersion(existing, { s3Key: blob.s3_key, size: file.size, blobId: blob.id }, maxVersions as number);
+            }
 
             const new_file = await prisma.file.create({
                 data: {
+                    id: fileId,
                     file_name: file.name as string,
                     size: file.size,
                     parent_folder_id: curr_folder?.id,
                     owner_clerk_id: user.id,
-                    s3_link: this.buildS3Link(filePath),
-                    s3_key: filePath
+                    s3_link: this.buildS3Link(blob.s3_key),
+                    s3_key: blob.s3_key,
+                    blob_id: blob.id,
                 }
             });
 
@@ -822,6 +1471,133 @@ export class FolderService {
         }
     }
 
+    /**
+     * Unpacks an uploaded ZIP archive into real folders and files.
+     *
+     * Every directory in the archive becomes a Folder created with {@link createSubfolder},
+     * and every file goes through {@link uploadFileToFolder}, exactly as if it had been
+     * uploaded on its own. The whole archive is validated before anything is written.
+     *
+     * @param root_folder - The user's root folder
+     * @param curr_folder - The folder to extract into
+     * @param buffer - The uploaded archive
+     * @param user - The Clerk user performing the upload
+     * @param limits - Most entries, and most uncompressed bytes in total, the archive may hold;
+     * `availableBytes` is what is left of the user's storage quota, if limited
+     *
+     * @returns A promise that resolves to the number of folders and files created
+     *
+     * @throws {@link ValidationError}
+     * Throws with status:
+     * - `400` if the file is not a readable ZIP archive, or an entry's path is absolute
+     *   or contains `..` (zip-slip)
+     * - `413` if the archive has more entries or expands to more bytes than `limits` allow,
+     *   or more than the storage quota leaves room for
+     *
+     * @throws {@link Error}
+     * Throws an error if creating a folder or storing a file fails
+     *
+     * @example
+     * ```typescript
+     * const { folders, files } = await FolderService.extractArchiveToFolder(
+     *   rootFolder, currentFolder, buffer, user,
+     *   { maxEntries: 5000, maxBytes: 1024 * 1024 * 1024 }
+     * );
+     * console.log(`Created ${folders} folders and ${files} files`);
+     * ```
+     *
+     * @remarks
+     * - Declared sizes are checked up front, and each entry is refused if it inflates
+     *   past its declared size, so the byte limit cannot be bypassed (zip bombs)
+     * - Top-level folders and files that clash with existing items in `curr_folder` get a
+     *   numeric suffix, e.g. `Photos (1)`; duplicate files inside the archive are suffixed too
+     * - Directories differing only in case are merged, since folder names are case-insensitive
+     * - `__MACOSX/` metadata entries are skipped
+     * - If storing a file fails midway, the folders and files created so far are kept
+     */
+    static async extractArchiveToFolder(
+            root_folder: Folder, curr_folder: Folder, buffer: Buffer, user: User,
+            limits: { maxEntries: number, maxBytes: number, availableBytes?: number }): Promise<{ folders: number, files: number }> {
+        let entries: ZipArchiveEntry[];
+        try {
+            entries = readZipEntries(buffer);
+        } catch (error) {
+            throw new ValidationError(`The archive could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`, 400);
+        }
+
+        if (entries.length > limits.maxEntries) {
+            throw new ValidationError(`The archive has more than ${limits.maxEntries} entries`, 413);
+        }
+        const totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+        if (totalBytes > limits.maxBytes) {
+            throw new ValidationError(`The archive expands to more than ${limits.maxBytes} bytes`, 413);
+        }
+        if (limits.availableBytes !== undefined && totalBytes > limits.availableBytes) {
+            throw new ValidationError(`Storage quota exceeded: the archive expands to ${totalBytes} bytes but only ${limits.availableBytes} are left`, 413);
+        }
+
+        const root: ArchiveDirectory = { name: '', directories: new Map(), files: [] };
+        for (const entry of entries) {
+            const name = entry.name.replace(/\\/g, '/');
+            const segments = name.split('/').filter((segment) => segment !== '' && segment !== '.');
+            if (name.startsWith('/') || /^[a-zA-Z]:/.test(name) || segments.includes('..')) {
+                throw new ValidationError(`The archive contains an unsafe path: "${entry.name}"`, 400);
+            }
+            if (segments.length === 0 || segments[0] === '__MACOSX') continue;
+
+            const fileName = entry.directory ? null : segments.pop()!;
+            let directory = root;
+            for (const segment of segments) {
+                const key = segment.toLowerCase();
+                if (!directory.directories.has(key)) {
+                    directory.directories.set(key, { name: segment, directories: new Map(), files: [] });
+                }
+                directory = directory.directories.get(key)!;
+            }
+            if (fileName) directory.files.push({ name: fileName, entry });
+        }
+
+        try {
+            const [siblingFolders, siblingFiles] = await Promise.all([
+                prisma.folder.findMany({
+                    where: { parent_folder_id: curr_folder.id, deleted_at: null },
+                    select: { folder_name: true },
+                }),
+                prisma.file.findMany({
+                    where: { parent_folder_id: curr_folder.id, deleted_at: null },
+                    select: { file_name: true },
+                }),
+            ]);
+
+            const created = { folders: 0, files: 0 };
+            const extract = async (directory: ArchiveDirectory, target: Folder, takenFolders: string[], takenFiles: string[]) => {
+                for (const { name, entry } of directory.files) {
+                    const fileName = getAvailableName(name, takenFiles, { keepExtension: true });
+                    takenFiles.push(fileName);
+                    const content = entry.read();
+                    await FolderService.uploadFileToFolder(root_folder, target, new File([new Uint8Array(content)], fileName, { type: "application/octet-stream" }), content, user);
+                    created.files++;
+                }
+
+                for (const subdirectory of directory.directories.values()) {
+                    const folderName = getAvailableName(subdirectory.name, takenFolders, { ignoreCase: true });
+                    takenFolders.push(folderName);
+                    const folder = await FolderService.createSubfolder(target, folderName, root_folder, user.id);
+                    created.folders++;
+                    await extract(subdirectory, folder, [], []);
+                }
+            };
+
+            await extract(root, curr_folder,
+                siblingFolders.map((sibling) => sibling.folder_name),
+                siblingFiles.map((sibling) => sibling.file_name));
+            return created;
+        } catch (error) {
+            console.error("Error extracting archive: ", error);
+            throw new Error(`Failed to extract archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
     /**
      * Retrieves the breadcrumb trail of folders from the root to a specified folder.
      * 
@@ -865,15 +1641,13 @@ export class FolderService {
      * @remarks
      * **Algorithm:**
      * 1. If `folderId` is null, returns just the root folder
-     * 2. Otherwise, starts from the specified folder
-     * 3. Traverses up the tree via `parent_folder_id`
+     * 2. Otherwise, reads the folder and its ancestors with {@link getAncestorChain}
+     * 3. Stops at the first trashed folder on the way up
      * 4. Collects each folder's id and name
      * 5. Reverses the array to show root → current order
      * 
      * **Performance:**
-     * - Makes N database queries where N is the depth of the folder
-     * - For deeply nested folders, this can be slow
-     * - Consider caching or optimizing with a recursive CTE
+     * - A single query, however deep the folder is
      * 
      * **Root Folder Access:**
      * - The root folder ID is retrieved from `user.publicMetadata.root_folder`
@@ -899,21 +1673,18 @@ export class FolderService {
                 }];
                 return res;
             } else {
-                let curr_folder = await FolderService.getFolder(folderId);
-                if (!curr_folder) {
+                const chain = await FolderService.getAncestorChain(folderId);
+                if (!chain[0] || chain[0].deleted_at) {
                     return null;
                 }
                 const ancestors: { id: string, name: string }[] = [];
 
-                while (curr_folder) {
+                for (const curr_folder of chain) {
+                    if (curr_folder.deleted_at) break;
                     ancestors.push({
                         id: curr_folder.id,
                         name: curr_folder.display_name || curr_folder.folder_name,
                     });
-
-                    if (!curr_folder?.parent_folder_id) break;
-
-                    curr_folder = await FolderService.getFolder(curr_folder.parent_folder_id);
                 }
 
                 return ancestors.reverse();
@@ -923,88 +1694,4 @@ export class FolderService {
             throw new Error(`Failed to delete folder info file: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
-
-    /**
-     * Retrieves a folder using its unique share token.
-     * 
-     * This method is used to look up shared folders when users access them via
-     * share links. It validates the share token and returns the folder if found.
-     * Note: This method does NOT validate expiration - that should be done by the caller.
-     * 
-     * @param shareToken - The unique share token (UUID) generated when the folder was shared
-     * 
-     * @returns A promise that resolves to the Folder object if found
-     * 
-     * @throws {@link Error}
-     * Throws an error if:
-     * - The database query fails
-     * - The folder is not found (returns null in current implementation, but this is inconsistent)
-     * 
-     * @example
-     * ```typescript
-     * // Access a shared folder
-     * const token = 'abc-def-123-456';
-     * 
-     * try {
-     *   const sharedFolder = await FolderService.getFolderByShareToken(token);
-     *   
-     *   // Check if the share has expired (must be done manually)
-     *   if (sharedFolder.expires_at && sharedFolder.expires_at < new Date()) {
-     *     console.log('Share link has expired');
-     *     return;
-     *   }
-     *   
-     *   // Check if sharing is still enabled
-     *   if (!sharedFolder.shared) {
-     *     console.log('Folder is no longer shared');
-     *     return;
-     *   }
-     *   
-     *   console.log('Access granted to:', sharedFolder.folder_name);
-     * } catch (error) {
-     *   console.error('Invalid share token:', error);
-     * }
-     * ```
-     * 
-     * @remarks
-     * **Important: Manual Validation Required**
-     * 
-     * This method only retrieves the folder - it does NOT:
-     * - Check if the share has expired (`expires_at`)
-     * - Verify the `shared` flag is still true
-     * - Validate any permissions
-     * 
-     * Callers MUST implement these checks to ensure secure access.
-     * 
-     * **Typical Usage Flow:**
-     * 1. User clicks share link with token in URL
-     * 2. Frontend extracts token from URL
-     * 3. Backend calls this method to get the folder
-     * 4. Backend validates `expires_at` and `shared` flag
-     * 5. If valid, grant access to folder contents
-     * 6. Use {@link FileService.getFileFromShareToken} for file access
-     * 
-     * **Security Considerations:**
-     * - Share tokens are cryptographically random UUIDs (secure)
-     * - Tokens don't expire automatically - must be checked manually
-     * - Revoking a share requires setting `shared = false` or changing the token
-     * 
-     * @see {@link shareFolder} which generates the share token
-     * @see {@link FileService.getFileFromShareToken} for accessing files via share tokens
-     * 
-     * @public
-     */
-    static async getFolderByShareToken(shareToken: string) : Promise<Folder> {
-        try {
-            const folder = await prisma.folder.findUnique({
-                where: {
-                    shareToken: shareToken,
-                }
-            });
-            return folder as unknown as Folder;
-        } catch (error) {
-            console.error("Error sharing file: ", error);
-            throw new Error(`Failed to share file:  ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-    }
 }
\ No newline at end of file
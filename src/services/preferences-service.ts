@@ -0,0 +1,99 @@
+import { clerkClient, type User } from '@clerk/nextjs/server';
+import { ValidationError } from '@/lib/errors';
+import { type ViewPreferences } from '@/types/types';
+
+/**
+ * @fileoverview Per-user preferences for browsing folders.
+ *
+ * Preferences are kept in the Clerk user's public metadata (`preferences`), next to
+ * `root_folder` and `storage_quota`, so they follow the user across devices. Users
+ * who have not chosen yet get {@link DEFAULT_PREFERENCES}.
+ *
+ * @module services/preferences-service
+ */
+
+/** Preferences of users who have not chosen any */
+const DEFAULT_PREFERENCES: ViewPreferences = { view: "table", sort: "name", order: "asc" };
+
+const VIEWS: ViewPreferences['view'][] = ["table", "grid"];
+const SORTS: ViewPreferences['sort'][] = ["name", "created_at", "size", "type"];
+const ORDERS: ViewPreferences['order'][] = ["asc", "desc"];
+
+/**
+ * Service class for user preferences.
+ *
+ * All methods in this service are static and handle their own error management.
+ *
+ * @example
+ * ```typescript
+ * const user = await (await clerkClient()).users.getUser(userId);
+ * const preferences = await PreferencesService.updatePreferences(user, { view: 'grid' });
+ * ```
+ */
+export class PreferencesService {
+    /**
+     * Returns a user's preferences.
+     *
+     * @param user - The Clerk user
+     * @returns The saved preferences, with defaults for anything not saved
+     *
+     * @remarks
+     * Saved values that are no longer valid are ignored, so the result is always complete.
+     */
+    static getPreferences(user: User): ViewPreferences {
+        const saved = (user.publicMetadata?.preferences ?? {}) as Partial<Record<keyof ViewPreferences, unknown>>;
+        return {
+            view: VIEWS.find((view) => view === saved.view) ?? DEFAULT_PREFERENCES.view,
+            sort: SORTS.find((sort) => sort === saved.sort) ?? DEFAULT_PREFERENCES.sort,
+            order: ORDERS.find((order) => order === saved.order) ?? DEFAULT_PREFERENCES.order,
+        };
+    }
+
+    /**
+     * Changes some of a user's preferences, keeping the others.
+     *
+     * @param user - The Clerk user
+     * @param changes - The preferences to change
+     * @returns A promise that resolves to all of the user's preferences after the change
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `400` if `view`, `sort` or `order` has an unknown value, or
+     * `changes` has other fields
+     *
+     * @throws {@link Error}
+     * Throws an error if the Clerk user cannot be updated
+     *
+     * @remarks
+     * The rest of the user's public metadata (`root_folder`, `storage_quota`) is kept.
+     */
+    static async updatePreferences(user: User, changes: Partial<ViewPreferences>): Promise<ViewPreferences> {
+        const unknown = Object.keys(changes).filter((key) => !(key in DEFAULT_PREFERENCES));
+        if (unknown.length > 0) {
+            throw new ValidationError(`Unknown preferences: ${unknown.join(", ")}`, 400);
+        }
+        if (changes.view !== undefined && !VIEWS.includes(changes.view)) {
+            throw new ValidationError(`view must be one of ${VIEWS.join(", ")}`, 400);
+        }
+        if (changes.sort !== undefined && !SORTS.includes(changes.sort)) {
+            throw new ValidationError(`sort must be one of ${SORTS.join(", ")}`, 400);
+        }
+        if (changes.order !== undefined && !ORDERS.includes(changes.order)) {
+            throw new ValidationError(`order must be one of ${ORDERS.join(", ")}`, 400);
+        }
+
+        const preferences = { ...PreferencesService.getPreferences(user), ...changes };
+        try {
+            const client = await clerkClient();
+            await client.users.updateUser(user.id, {
+                publicMetadata: {
+                    ...user.publicMetadata,
+                    preferences,
+                },
+            });
+            return preferences;
+        } catch (error) {
+            console.error("Error saving preferences: ", error);
+            throw new Error(`Failed to save preferences: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+}
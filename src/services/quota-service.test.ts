@@ -0,0 +1,72 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { type User } from "@clerk/nextjs/server";
+import { QuotaService } from "./quota-service";
+import prisma from "@/lib/db-client";
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findMany: vi.fn(),
+        },
+        file: {
+            aggregate: vi.fn(),
+            findMany: vi.fn(),
+        },
+        fileVersion: {
+            aggregate: vi.fn(),
+        },
+        $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+}));
+
+describe("QuotaService", () => {
+    const user = (publicMetadata: object) => ({ id: "user-owner", publicMetadata }) as unknown as User;
+
+    describe("getQuota", () => {
+        it("prefers the user's own quota over the default", () => {
+            expect(QuotaService.getQuota(user({ storage_quota: 500 }), 1000)).toBe(500);
+            expect(QuotaService.getQuota(user({}), 1000)).toBe(1000);
+            expect(QuotaService.getQuota(user({ storage_quota: "lots" }), 1000)).toBe(1000);
+        });
+
+        it("treats a quota of 0 as unlimited", () => {
+            expect(QuotaService.getQuota(user({ storage_quota: 0 }), 1000)).toBeNull();
+            expect(QuotaService.getQuota(user({}), 0)).toBeNull();
+        });
+    });
+
+    describe("assertWithinQuota", () => {
+        it("rejects content that does not fit with 413", async () => {
+            vi.mocked(prisma.file.aggregate).mockResolvedValue({ _sum: { size: BigInt(700) } } as never);
+            vi.mocked(prisma.fileVersion.aggregate).mockResolvedValue({ _sum: { size: BigInt(200) } } as never);
+
+            await expect(QuotaService.assertWithinQuota("user-owner", 1000, 100)).resolves.toBeUndefined();
+            await expect(QuotaService.assertWithinQuota("user-owner", 1000, 101)).rejects.toMatchObject({ status: 413 });
+            await expect(QuotaService.assertWithinQuota("user-owner", null, 10 ** 12)).resolves.toBeUndefined();
+        });
+    });
+
+    describe("getFolderUsage", () => {
+        it("adds up each folder's files, versions and subfolders", async () => {
+            vi.mocked(prisma.folder.findMany).mockResolvedValue([
+                { id: "root", parent_folder_id: null },
+                { id: "docs", parent_folder_id: "root" },
+                { id: "drafts", parent_folder_id: "docs" },
+                { id: "photos", parent_folder_id: "root" },
+            ] as never);
+            vi.mocked(prisma.file.findMany).mockResolvedValue([
+                { parent_folder_id: "root", size: 1, versions: [] },
+                { parent_folder_id: "docs", size: 10, versions: [{ size: 5 }] },
+                { parent_folder_id: "drafts", size: 100, versions: [] },
+            ] as never);
+
+            expect(await QuotaService.getFolderUsage("user-owner")).toEqual({
+                root: 116,
+                docs: 115,
+                drafts: 100,
+                photos: 0,
+            });
+        });
+    });
+});
@@ -0,0 +1,173 @@
+import { type User } from '@clerk/nextjs/server';
+import prisma from '@/lib/db-client';
+import { ValidationError } from '@/lib/errors';
+
+/**
+ * @fileoverview Per-user storage quotas and per-folder usage.
+ *
+ * Every user may store up to a quota of bytes. The quota is kept per user in the
+ * Clerk user's public metadata (`storage_quota`, in bytes), next to `root_folder`;
+ * users without one get the global default (`STORAGE_QUOTA_BYTES`). A quota of `0`
+ * means unlimited.
+ *
+ * Usage is the logical size of the user's content: every file and earlier version,
+ * trashed ones included, as they take up space until the trash is purged.
+ * Deduplication (see {@link BlobService}) does not lower it.
+ *
+ * @module services/quota-service
+ */
+
+/**
+ * Service class for storage quotas.
+ *
+ * All methods in this service are static and handle their own error management.
+ *
+ * @example
+ * ```typescript
+ * const { STORAGE_QUOTA_BYTES } = ConfigSingleton.getInstance().config;
+ * const quota = QuotaService.getQuota(user, STORAGE_QUOTA_BYTES);
+ * await QuotaService.assertWithinQuota(user.id, quota, file.size);
+ * ```
+ */
+export class QuotaService {
+    /**
+     * Returns a user's storage quota.
+     *
+     * @param user - The Clerk user
+     * @param defaultQuota - The quota of users without their own, in bytes (`0` for unlimited)
+     * @returns The quota in bytes, or null if the user's storage is unlimited
+     *
+     * @remarks
+     * The user's own quota is read from `publicMetadata.storage_quota`; anything but a
+     * non-negative whole number there is ignored.
+     */
+    static getQuota(user: User, defaultQuota: number): number | null {
+        const own = user.publicMetadata?.storage_quota;
+        const quota = Number.isInteger(own) && (own as number) >= 0 ? own as number : defaultQuota;
+        return quota > 0 ? quota : null;
+    }
+
+    /**
+     * Adds up the bytes a user's content takes up against their quota.
+     *
+     * @param userId - The Clerk user ID of the owner
+     * @returns A promise that resolves to the bytes used
+     *
+     * @throws {@link Error}
+     * Throws an error if a database query fails
+     *
+     * @remarks
+     * Pending uploads count with their declared size, so uploads started at the same
+     * time cannot together exceed the quota.
+     */
+    static async getUsedBytes(userId: string): Promise<number> {
+        try {
+            const [files, versions] = await prisma.$transaction([
+                prisma.file.aggregate({ where: { owner_clerk_id: userId }, _sum: { size: true } }),
+                prisma.fileVersion.aggregate({ where: { file: { owner_clerk_id: userId } }, _sum: { size: true } }),
+            ]);
+            return Number(files._sum.size ?? 0) + Number(versions._sum.size ?? 0);
+        } catch (error) {
+            console.error("Error computing used bytes: ", error);
+            throw new Error(`Failed to compute used bytes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Returns how many more bytes a user may store.
+     *
+     * @param userId - The Clerk user ID of the owner
+     * @param quota - The user's quota, as returned by {@link getQuota}
+     * @returns A promise that resolves to the bytes left (never negative), or `Infinity` if unlimited
+     *
+     * @throws {@link Error}
+     * Throws an error if a database query fails
+     */
+    static async getAvailableBytes(userId: string, quota: number | null): Promise<number> {
+        if (quota === null) return Infinity;
+        return Math.max(0, quota - await QuotaService.getUsedBytes(userId));
+    }
+
+    /**
+     * Rejects storing more bytes than a user's quota leaves room for.
+     *
+     * @param userId - The Clerk user ID of the owner
+     * @param quota - The user's quota, as returned by {@link getQuota}
+     * @param bytes - The size of the content about to be stored
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `413` if the content does not fit in the quota
+     *
+     * @throws {@link Error}
+     * Throws an error if a database query fails
+     */
+    static async assertWithinQuota(userId: string, quota: number | null, bytes: number): Promise<void> {
+        const available = await QuotaService.getAvailableBytes(userId, quota);
+        if (bytes > available) {
+            throw new ValidationError(`Storage quota exceeded: ${bytes} bytes needed but only ${available} of ${quota} bytes are left`, 413);
+        }
+    }
+
+    /**
+     * Computes the bytes used in each of a user's folders, subfolders included.
+     *
+     * @param userId - The Clerk user ID of the owner
+     * @returns A promise that resolves to the bytes used per folder ID
+     *
+     * @throws {@link Error}
+     * Throws an error if a database query fails
+     *
+     * @example
+     * ```typescript
+     * const usage = await QuotaService.getFolderUsage(userId);
+     * console.log(usage[rootFolderId]); // bytes in all live folders
+     * ```
+     *
+     * @remarks
+     * - A file counts with its earlier versions
+     * - Trashed files and folders and pending uploads are left out, so the root's total
+     *   is the user's usage minus the trash
+     */
+    static async getFolderUsage(userId: string): Promise<Record<string, number>> {
+        try {
+            const [folders, files] = await prisma.$transaction([
+                prisma.folder.findMany({
+                    where: { owner_clerk_id: userId, deleted_at: null },
+                    select: { id: true, parent_folder_id: true },
+                }),
+                prisma.file.findMany({
+                    where: { owner_clerk_id: userId, deleted_at: null, pending_until: null },
+                    select: { parent_folder_id: true, size: true, versions: { select: { size: true } } },
+                }),
+            ]);
+
+            const usage: Record<string, number> = {};
+            const children = new Map<string, string[]>();
+            for (const folder of folders) {
+                usage[folder.id] = 0;
+                if (folder.parent_folder_id) {
+                    children.set(folder.parent_folder_id, [...children.get(folder.parent_folder_id) ?? [], folder.id]);
+                }
+            }
+            for (const file of files) {
+                if (!file.parent_folder_id || !(file.parent_folder_id in usage)) continue;
+                usage[file.parent_folder_id] += file.size + file.versions.reduce((sum, version) => sum + version.size, 0);
+            }
+
+            const total = (folderId: string): number => {
+                for (const childId of children.get(folderId) ?? []) {
+                    usage[folderId] += total(childId);
+                }
+                return usage[folderId];
+            };
+            for (const folder of folders) {
+                // start from the tops: folders whose parent is missing (root or trashed)
+                if (!folder.parent_folder_id || !(folder.parent_folder_id in usage)) total(folder.id);
+            }
+            return usage;
+        } catch (error) {
+            console.error("Error computing folder usage: ", error);
+            throw new Error(`Failed to compute folder usage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+}
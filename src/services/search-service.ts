@@ -0,0 +1,165 @@
+import { type User } from '@clerk/nextjs/server';
+import prisma from '@/lib/db-client';
+import { Prisma } from '@/../prisma/generated/prisma';
+import { ValidationError } from '@/lib/errors';
+import { FolderService } from '@/services/folder-service';
+import { type Folder, type SearchQuery, type SearchResult } from '@/types/types';
+
+/**
+ * @fileoverview Full-text search over a user's files and folders.
+ *
+ * Names are matched word by word on the generated `search_vector` columns of File and
+ * Folder, each query word as a prefix ("rep" finds "report.pdf"). The text of text,
+ * Markdown, CSV and PDF files is matched on the `search_vector` of their Blob, with
+ * English stemming ("budgets" finds "budget"); it is extracted on upload by
+ * {@link BlobService.indexContent}. All three columns have GIN indexes.
+ *
+ * @module services/search-service
+ */
+
+/**
+ * A match as read from the search query, before its path is added.
+ */
+type SearchRow = Omit<SearchResult, 'size' | 'path'> & {
+    size: bigint | null;
+};
+
+const SEARCH_LIMIT = 50;
+const SEARCH_LIMIT_MAX = 100;
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Service class for searching files and folders.
+ *
+ * All methods in this service are static and handle their own error management.
+ *
+ * @example
+ * ```typescript
+ * const scope = await FolderService.authorizeFolder(userId, rootFolderId, "read", { contents: false });
+ * const results = await SearchService.search(user, scope, { q: 'budget', type: 'pdf' });
+ * ```
+ */
+export class SearchService {
+    /**
+     * Searches the files and folders inside a folder, at any depth.
+     *
+     * @param user - The Clerk user searching, for their breadcrumbs
+     * @param scope - The folder to search in, usually the user's root folder; it is
+     * not a result itself
+     * @param query - The words to look for and the filters to apply
+     * @returns A promise that resolves to at most `limit` results (default 50), best
+     * matches first, then newest first
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `400` if `q` has no letters or digits or is longer than 200
+     * characters, `limit` is not a whole number from 1 to 100, `type` is not `folder`,
+     * `file` or a file extension, a size is not a non-negative whole number, or a date
+     * is invalid
+     *
+     * @throws {@link Error}
+     * Throws an error if the database query fails
+     *
+     * @remarks
+     * - A result matches if its name contains every query word, or, for files, its
+     *   text does
+     * - Trashed items, everything inside trashed folders and unfinished uploads are
+     *   left out
+     * - Size filters apply to files only, so setting one leaves out folders
+     * - Each result carries its breadcrumb path ({@link FolderService.getAncestors});
+     *   results in the same folder share one lookup
+     */
+    static async search(user: User, scope: Folder, query: SearchQuery): Promise<SearchResult[]> {
+        const { q = "", type, min_size, max_size, from, to, limit = SEARCH_LIMIT } = query;
+
+        const words = q.length <= MAX_QUERY_LENGTH ? q.toLowerCase().match(/[\p{L}\p{N}]+/gu) : null;
+        if (!words) {
+            throw new ValidationError(`q must contain a letter or digit and be at most ${MAX_QUERY_LENGTH} characters`, 400);
+        }
+        if (!Number.isInteger(limit) || limit < 1 || limit > SEARCH_LIMIT_MAX) {
+            throw new ValidationError(`limit must be a whole number from 1 to ${SEARCH_LIMIT_MAX}`, 400);
+        }
+        if (type !== undefined && !/^[a-z0-9]{1,10}$/.test(type)) {
+            throw new ValidationError("type must be folder, file or a file extension", 400);
+        }
+        for (const size of [min_size, max_size]) {
+            if (size !== undefined && (!Number.isInteger(size) || size < 0)) {
+                throw new ValidationError("min_size and max_size must be non-negative whole numbers of bytes", 400);
+            }
+        }
+        for (const date of [from, to]) {
+            if (date !== undefined && Number.isNaN(date.getTime())) {
+                throw new ValidationError("from and to must be valid dates", 400);
+            }
+        }
+
+        try {
+            // words are letters and digits only, so they cannot break the tsquery syntax
+            const nameQuery = words.map((word) => `${word}:*`).join(" & ");
+
+            const shared: Prisma.Sql[] = [];
+            if (from) shared.push(Prisma.sql`AND item.created_at >= ${from}`);
+            if (to) shared.push(Prisma.sql`AND item.created_at <= ${to}`);
+
+            const fileFilters = [...shared];
+            if (type === "folder") fileFilters.push(Prisma.sql`AND false`);
+            if (type && type !== "folder" && type !== "file") fileFilters.push(Prisma.sql`AND item.extension = ${type}`);
+            if (min_size !== undefined) fileFilters.push(Prisma.sql`AND item.size >= ${min_size}`);
+            if (max_size !== undefined) fileFilters.push(Prisma.sql`AND item.size <= ${max_size}`);
+
+            const folderFilters = [...shared];
+            if ((type && type !== "folder") || min_size !== undefined || max_size !== undefined) {
+                folderFilters.push(Prisma.sql`AND false`);
+            }
+
+            const rows = await prisma.$queryRaw<SearchRow[]>`
+                WITH RECURSIVE scope AS (
+                    SELECT id FROM "Folder" WHERE id = ${scope.id}
+                    UNION ALL
+                    SELECT child.id FROM "Folder" child JOIN scope ON child.parent_folder_id = scope.id
+                    WHERE child.deleted_at IS NULL
+                ), matches AS (
+                    SELECT 'folder' AS kind, item.id, item.folder_name AS name, item.parent_folder_id,
+                        NULL::bigint AS size, item.created_at, false AS matched_content,
+                        ts_rank(item.search_vector, to_tsquery('simple', ${nameQuery})) AS rank
+                    FROM "Folder" item JOIN scope ON item.id = scope.id
+                    WHERE item.id <> ${scope.id}
+                        AND item.search_vector @@ to_tsquery('simple', ${nameQuery})
+                        ${SearchService.joinFilters(folderFilters)}
+                    UNION ALL
+                    SELECT 'file', item.id, item.file_name, item.parent_folder_id,
+                        item.size, item.created_at,
+                        COALESCE(blob.search_vector @@ plainto_tsquery('english', ${q}), false),
+                        GREATEST(
+                            ts_rank(item.search_vector, to_tsquery('simple', ${nameQuery})),
+                            COALESCE(ts_rank(blob.search_vector, plainto_tsquery('english', ${q})), 0))
+                    FROM "File" item JOIN scope ON item.parent_folder_id = scope.id
+                    LEFT JOIN "Blob" blob ON blob.id = item.blob_id
+                    WHERE item.deleted_at IS NULL AND item.pending_until IS NULL
+                        AND (item.search_vector @@ to_tsquery('simple', ${nameQuery})
+                            OR blob.search_vector @@ plainto_tsquery('english', ${q}))
+                        ${SearchService.joinFilters(fileFilters)}
+                )
+                SELECT kind, id, name, parent_folder_id, size, created_at, matched_content
+                FROM matches ORDER BY rank DESC, created_at DESC, id LIMIT ${limit}`;
+
+            const paths = new Map<string, Promise<{ id: string, name: string }[] | null>>();
+            return await Promise.all(rows.map(async (row) => {
+                if (!paths.has(row.parent_folder_id)) {
+                    paths.set(row.parent_folder_id, FolderService.getAncestors(row.parent_folder_id, user));
+                }
+                return {
+                    ...row,
+                    size: row.size === null ? null : Number(row.size),
+                    path: await paths.get(row.parent_folder_id) ?? [],
+                };
+            }));
+        } catch (error) {
+            console.error("Error searching: ", error);
+            throw new Error(`Failed to search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private static joinFilters(filters: Prisma.Sql[]): Prisma.Sql {
+        return filters.length ? Prisma.join(filters, " ") : Prisma.empty;
+    }
+}
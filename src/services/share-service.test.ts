@@ -0,0 +1,401 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ShareService } from "./share-service";
+import { RateLimitError, ValidationError } from "@/lib/errors";
+import { AuthorizationError } from "@/services/authorization-service";
+import prisma from "@/lib/db-client";
+import { type File, type Folder, type ShareLink } from "@/types/types";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        shareLink: {
+            create: vi.fn(({ data }) => Promise.resolve({ id: "link-new", created_at: new Date(), download_count: 0, ...data })),
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            update: vi.fn(({ where, data }) => Promise.resolve({ id: where.id, ...data })),
+            delete: vi.fn(),
+        },
+        shareUnlockAttempt: {
+            findUnique: vi.fn(),
+            upsert: vi.fn(({ create }) => Promise.resolve(create)),
+            update: vi.fn(),
+            delete: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+const HOUR = 60 * 60 * 1000;
+const ORIGIN = "https://app.example.com";
+const SECRET = "test-share-secret";
+const CLIENT = "client-hash";
+
+describe("ShareService", () => {
+    const now = new Date("2024-06-01T12:00:00.000Z");
+
+    const folder = {
+        id: "folder-1",
+        folder_name: "photos",
+        display_name: "Photos",
+        owner_clerk_id: "user-owner",
+    } as Folder;
+
+    const file = {
+        id: "file-1",
+        file_name: "report.pdf",
+        owner_clerk_id: "user-owner",
+    } as File;
+
+    const link = {
+        id: "link-1",
+        token: "token-1",
+        label: "Accountant",
+        permission: "download",
+        expires_at: new Date(now.getTime() + 2 * HOUR),
+        password_hash: null,
+        max_downloads: null,
+        download_count: 0,
+        created_at: now,
+        owner_clerk_id: "user-owner",
+        folder_id: "folder-1",
+        file_id: null,
+    } as ShareLink;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(now);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe("shareFolder", () => {
+        it("creates a new link with its own token, label and permission", async () => {
+            const share = await ShareService.shareFolder(folder, { hours: 24, label: "  Accountant ", permission: "view" }, ORIGIN);
+
+            const { data } = vi.mocked(prisma.shareLink.create).mock.calls[0][0];
+            expect(data).toMatchObject({
+                label: "Accountant",
+                permission: "view",
+                expires_at: new Date(now.getTime() + 24 * HOUR),
+                owner_clerk_id: "user-owner",
+                folder_id: "folder-1",
+                file_id: null,
+            });
+            expect(share).toMatchObject({
+                id: "link-new",
+                kind: "folder",
+                item_id: "folder-1",
+                name: "Photos",
+                url: `${ORIGIN}/shared/folder/${data.token}`,
+                expired: false,
+            });
+        });
+
+        it("gives every link a different token", async () => {
+            await ShareService.shareFolder(folder, { hours: 1 }, ORIGIN);
+            await ShareService.shareFolder(folder, { hours: 1 }, ORIGIN);
+
+            const [[first], [second]] = vi.mocked(prisma.shareLink.create).mock.calls;
+            expect(first.data.token).not.toEqual(second.data.token);
+            expect(first.data.permission).toBe("download");
+        });
+
+        it("rejects missing hours, unknown permissions and long labels", async () => {
+            await expect(ShareService.shareFolder(folder, {}, ORIGIN)).rejects.toThrow(ValidationError);
+            await expect(ShareService.shareFolder(folder, { hours: 1, permission: "edit" as never }, ORIGIN)).rejects.toThrow(ValidationError);
+            await expect(ShareService.shareFolder(folder, { hours: 1, label: "x".repeat(101) }, ORIGIN)).rejects.toThrow(ValidationError);
+            await expect(ShareService.shareFolder(folder, { hours: 1, max_downloads: 0 }, ORIGIN)).rejects.toThrow(ValidationError);
+            await expect(ShareService.shareFolder(folder, { hours: 1, max_downloads: 2.5 }, ORIGIN)).rejects.toThrow(ValidationError);
+            expect(prisma.shareLink.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("shareFile", () => {
+        it("links to the shared file page", async () => {
+            const share = await ShareService.shareFile(file, { hours: 24 }, ORIGIN);
+
+            const { data } = vi.mocked(prisma.shareLink.create).mock.calls[0][0];
+            expect(data).toMatchObject({ file_id: "file-1", folder_id: null });
+            expect(share).toMatchObject({ kind: "file", name: "report.pdf", url: `${ORIGIN}/shared/file/file-1/${data.token}` });
+        });
+    });
+
+    describe("listShares", () => {
+        it("lists each link of the user's untrashed items", async () => {
+            vi.mocked(prisma.shareLink.findMany).mockResolvedValue([
+                { ...link, expires_at: new Date(now.getTime() - HOUR), folder: { folder_name: "photos", display_name: "Photos" }, file: null },
+                { ...link, id: "link-2", token: "token-2", folder_id: null, file_id: "file-1", file: { file_name: "report.pdf" }, folder: null },
+            ] as never);
+
+            const shares = await ShareService.listShares("user-owner", ORIGIN);
+
+            const { where } = vi.mocked(prisma.shareLink.findMany).mock.calls[0][0]!;
+            expect(where).toMatchObject({ owner_clerk_id: "user-owner" });
+            expect(shares).toEqual([
+                expect.objectContaining({ id: "link-1", kind: "folder", name: "Photos", url: `${ORIGIN}/shared/folder/token-1`, expired: true }),
+                expect.objectContaining({ id: "link-2", kind: "file", name: "report.pdf", url: `${ORIGIN}/shared/file/file-1/token-2`, expired: false }),
+            ]);
+        });
+    });
+
+    describe("updateShareLink", () => {
+        it("adds the hours to the current expiry", async () => {
+            const updated = await ShareService.updateShareLink(link, { hours: 24 });
+
+            expect(updated.expires_at).toEqual(new Date(now.getTime() + 26 * HOUR));
+            expect(prisma.shareLink.update).toHaveBeenCalledWith({
+                where: { id: "link-1" },
+                data: { expires_at: new Date(now.getTime() + 26 * HOUR) },
+            });
+        });
+
+        it("counts from now when the link has expired", async () => {
+            const updated = await ShareService.updateShareLink({ ...link, expires_at: new Date(now.getTime() - 5 * HOUR) }, { hours: 24 });
+
+            expect(updated.expires_at).toEqual(new Date(now.getTime() + 24 * HOUR));
+        });
+
+        it("changes the permission and clears an empty label", async () => {
+            await ShareService.updateShareLink(link, { label: " ", permission: "view" });
+
+            expect(prisma.shareLink.update).toHaveBeenCalledWith({
+                where: { id: "link-1" },
+                data: { label: null, permission: "view" },
+            });
+        });
+
+        it("rejects an update that changes nothing", async () => {
+            await expect(ShareService.updateShareLink(link, {})).rejects.toThrow(ValidationError);
+            expect(prisma.shareLink.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("revokeShareLink", () => {
+        it("deletes only the given link", async () => {
+            await ShareService.revokeShareLink("link-1");
+
+            expect(prisma.shareLink.delete).toHaveBeenCalledWith({ where: { id: "link-1" } });
+        });
+    });
+
+    describe("getShareLink", () => {
+        it("returns the link without its relations", async () => {
+            vi.mocked(prisma.shareLink.findUnique).mockResolvedValue({ ...link, folder: { deleted_at: null }, file: null } as never);
+
+            expect(await ShareService.getShareLink("token-1")).toEqual(link);
+        });
+
+        it("treats links to trashed items as unknown", async () => {
+            vi.mocked(prisma.shareLink.findUnique).mockResolvedValue({ ...link, folder: { deleted_at: now }, file: null } as never);
+
+            expect(await ShareService.getShareLink("token-1")).toBeNull();
+        });
+
+        it("treats links to items inside a trashed folder as unknown", async () => {
+            vi.mocked(prisma.shareLink.findUnique).mockResolvedValue({ ...link, folder: { deleted_at: null, parent_folder_id: "parent-1" }, file: null } as never);
+            vi.mocked(prisma.$queryRaw).mockResolvedValue([{ trashed: true }] as never);
+
+            expect(await ShareService.getShareLink("token-1")).toBeNull();
+            expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+        });
+
+        it("keeps links to items whose folders are not trashed", async () => {
+            vi.mocked(prisma.shareLink.findUnique).mockResolvedValue({ ...link, folder: { deleted_at: null, parent_folder_id: "parent-1" }, file: null } as never);
+            vi.mocked(prisma.$queryRaw).mockResolvedValue([{ trashed: false }] as never);
+
+            expect(await ShareService.getShareLink("token-1")).toEqual(link);
+        });
+    });
+
+    describe("passwords", () => {
+        const hashOf = async (password: string) => {
+            await ShareService.shareFolder(folder, { hours: 1, password }, ORIGIN);
+            return vi.mocked(prisma.shareLink.create).mock.calls.at(-1)![0].data.password_hash as string;
+        };
+        const cookiesOf = (cookie: { name: string, value: string }) => ({
+            get: (name: string) => name === cookie.name ? { value: cookie.value } : undefined,
+        });
+
+        it("stores a salted hash, never the password", async () => {
+            const share = await ShareService.shareFolder(folder, { hours: 1, password: "secret-pass" }, ORIGIN);
+            const hash = vi.mocked(prisma.shareLink.create).mock.calls[0][0].data.password_hash;
+
+            expect(hash).toMatch(/^scrypt\$/);
+            expect(hash).not.toContain("secret-pass");
+            expect(await hashOf("secret-pass")).not.toEqual(hash);
+            expect(share.has_password).toBe(true);
+        });
+
+        it("rejects passwords that are too short", async () => {
+            await expect(ShareService.shareFolder(folder, { hours: 1, password: "abc" }, ORIGIN)).rejects.toThrow(ValidationError);
+            expect(prisma.shareLink.create).not.toHaveBeenCalled();
+        });
+
+        it("removes the password and lifts any lockout", async () => {
+            await ShareService.updateShareLink(link, { password: "" });
+
+            expect(prisma.shareLink.update).toHaveBeenCalledWith({
+                where: { id: "link-1" },
+                data: { password_hash: null, unlock_attempts: { deleteMany: {} } },
+            });
+        });
+
+        it("unlocks only this link, for an hour, with the right password", async () => {
+            const protectedLink = { ...link, password_hash: await hashOf("secret-pass") };
+            expect(ShareService.isUnlocked(protectedLink, { get: () => undefined }, SECRET)).toBe(false);
+
+            const cookie = await ShareService.unlockShareLink(protectedLink, "secret-pass", CLIENT, SECRET);
+
+            expect(cookie.expires).toEqual(new Date(now.getTime() + HOUR));
+            expect(ShareService.isUnlocked(protectedLink, cookiesOf(cookie), SECRET)).toBe(true);
+            expect(ShareService.isUnlocked({ ...protectedLink, id: "link-2" }, cookiesOf({ ...cookie, name: "share_link-2" }), SECRET)).toBe(false);
+            expect(ShareService.isUnlocked(protectedLink, cookiesOf(cookie), "another-secret")).toBe(false);
+
+            vi.setSystemTime(new Date(now.getTime() + HOUR + 1));
+            expect(ShareService.isUnlocked(protectedLink, cookiesOf(cookie), SECRET)).toBe(false);
+        });
+
+        it("signs out visitors when the password changes", async () => {
+            const protectedLink = { ...link, password_hash: await hashOf("secret-pass") };
+            const cookie = await ShareService.unlockShareLink(protectedLink, "secret-pass", CLIENT, SECRET);
+
+            const changed = { ...protectedLink, password_hash: await hashOf("secret-pass") };
+            expect(ShareService.isUnlocked(changed, cookiesOf(cookie), SECRET)).toBe(false);
+        });
+
+        it("lets anyone through links without a password", () => {
+            expect(ShareService.isUnlocked(link, { get: () => undefined }, SECRET)).toBe(true);
+        });
+
+        it("counts wrong passwords per client and locks the client out after five", async () => {
+            const protectedLink = { ...link, password_hash: await hashOf("secret-pass") };
+            const where = { link_id_client: { link_id: "link-1", client: CLIENT } };
+
+            await expect(ShareService.unlockShareLink(protectedLink, "wrong-pass", CLIENT, SECRET)).rejects.toThrow(AuthorizationError);
+            expect(prisma.shareUnlockAttempt.upsert).toHaveBeenCalledWith({
+                where,
+                create: { link_id: "link-1", client: CLIENT, failed_attempts: 1 },
+                update: { failed_attempts: { increment: 1 } },
+            });
+            expect(prisma.shareUnlockAttempt.update).not.toHaveBeenCalled();
+
+            vi.mocked(prisma.shareUnlockAttempt.upsert).mockResolvedValueOnce({ failed_attempts: 5 } as never);
+            await expect(ShareService.unlockShareLink(protectedLink, "wrong-pass", CLIENT, SECRET)).rejects.toMatchObject({ status: 401 });
+            expect(prisma.shareUnlockAttempt.update).toHaveBeenCalledWith({
+                where,
+                data: { failed_attempts: 0, locked_until: new Date(now.getTime() + 15 * 60 * 1000) },
+            });
+            expect(prisma.shareLink.update).not.toHaveBeenCalled();
+        });
+
+        it("refuses every attempt from a client while it is locked out", async () => {
+            const protectedLink = { ...link, password_hash: await hashOf("secret-pass") };
+            vi.mocked(prisma.shareUnlockAttempt.findUnique).mockResolvedValueOnce({
+                failed_attempts: 0,
+                locked_until: new Date(now.getTime() + 10 * 60 * 1000),
+            } as never);
+
+            const attempt = ShareService.unlockShareLink(protectedLink, "secret-pass", CLIENT, SECRET);
+
+            await expect(attempt).rejects.toThrow(RateLimitError);
+            await expect(attempt).rejects.toMatchObject({ retryAfterSeconds: 600 });
+            expect(prisma.shareUnlockAttempt.findUnique).toHaveBeenCalledWith({ where: { link_id_client: { link_id: "link-1", client: CLIENT } } });
+            expect(prisma.shareUnlockAttempt.upsert).not.toHaveBeenCalled();
+        });
+
+        it("lets other clients unlock a link someone else is locked out of", async () => {
+            const protectedLink = { ...link, password_hash: await hashOf("secret-pass") };
+            vi.mocked(prisma.shareUnlockAttempt.findUnique).mockImplementation((({ where }: { where: { link_id_client: { client: string } } }) =>
+                Promise.resolve(where.link_id_client.client === "attacker"
+                    ? { failed_attempts: 0, locked_until: new Date(now.getTime() + 10 * 60 * 1000) }
+                    : null)) as never);
+
+            await expect(ShareService.unlockShareLink(protectedLink, "secret-pass", "attacker", SECRET)).rejects.toThrow(RateLimitError);
+            const cookie = await ShareService.unlockShareLink(protectedLink, "secret-pass", CLIENT, SECRET);
+
+            expect(ShareService.isUnlocked(protectedLink, cookiesOf(cookie), SECRET)).toBe(true);
+        });
+
+        it("clears a client's count once it unlocks the link", async () => {
+            const protectedLink = { ...link, password_hash: await hashOf("secret-pass") };
+            vi.mocked(prisma.shareUnlockAttempt.findUnique).mockResolvedValueOnce({ failed_attempts: 3, locked_until: null } as never);
+
+            await ShareService.unlockShareLink(protectedLink, "secret-pass", CLIENT, SECRET);
+
+            expect(prisma.shareUnlockAttempt.delete).toHaveBeenCalledWith({ where: { link_id_client: { link_id: "link-1", client: CLIENT } } });
+        });
+
+        it("identifies clients by a hash of their IP address", () => {
+            const headersOf = (values: Record<string, string>) => new Headers(values);
+
+            const client = ShareService.unlockClient(headersOf({ "x-forwarded-for": "203.0.113.7, 10.0.0.1" }));
+
+            expect(client).toMatch(/^[0-9a-f]{64}$/);
+            expect(client).not.toContain("203.0.113.7");
+            expect(ShareService.unlockClient(headersOf({ "x-real-ip": "203.0.113.7" }))).toBe(client);
+            expect(ShareService.unlockClient(headersOf({ "x-forwarded-for": "198.51.100.1" }))).not.toBe(client);
+        });
+    });
+
+    describe("download limits", () => {
+        it("creates one-time links and reports the downloads left", async () => {
+            const share = await ShareService.shareFile(file, { hours: 24, max_downloads: 1 }, ORIGIN);
+
+            const { data } = vi.mocked(prisma.shareLink.create).mock.calls[0][0];
+            expect(data).toMatchObject({ max_downloads: 1 });
+            expect(share).toMatchObject({ max_downloads: 1, downloads_remaining: 1 });
+        });
+
+        it("counts each download and returns what is left", async () => {
+            vi.mocked(prisma.$queryRaw).mockResolvedValue([{ download_count: 3, max_downloads: 5 }] as never);
+
+            await expect(ShareService.recordDownload({ ...link, max_downloads: 5, download_count: 2 })).resolves.toBe(2);
+            expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+        });
+
+        it("never runs out for links without a limit", async () => {
+            vi.mocked(prisma.$queryRaw).mockResolvedValue([{ download_count: 100, max_downloads: null }] as never);
+
+            await expect(ShareService.recordDownload(link)).resolves.toBeNull();
+            expect(ShareService.isExhausted({ ...link, download_count: 100 })).toBe(false);
+        });
+
+        it("refuses downloads with 410 once the limit is reached", async () => {
+            vi.mocked(prisma.$queryRaw).mockResolvedValue([] as never);
+            const usedLink = { ...link, max_downloads: 1, download_count: 1 };
+
+            const attempt = ShareService.recordDownload(usedLink);
+
+            await expect(attempt).rejects.toThrow(ValidationError);
+            await expect(attempt).rejects.toMatchObject({ status: 410 });
+            expect(ShareService.isExhausted(usedLink)).toBe(true);
+            expect(ShareService.downloadsRemaining(usedLink)).toBe(0);
+        });
+    });
+
+    describe("isExpired", () => {
+        it("is false for links that never expire", () => {
+            expect(ShareService.isExpired({ expires_at: null })).toBe(false);
+            expect(ShareService.isExpired({ expires_at: new Date(now.getTime() - 1) })).toBe(true);
+        });
+    });
+});
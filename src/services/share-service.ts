@@ -0,0 +1,683 @@
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import prisma from '@/lib/db-client';
+import { RateLimitError, ValidationError } from '@/lib/errors';
+import { AuthorizationError, AuthorizationService } from '@/services/authorization-service';
+import { type File, type Folder, type Share, type ShareLink, type SharePermission } from '@/types/types';
+
+/**
+ * @fileoverview Share links for folders and files.
+ *
+ * A folder or file is shared by creating a {@link ShareLink}: a random token with its
+ * own label, permission and expiry. An item can have any number of links, so a new
+ * link for one person never invalidates the link given to another, and each link is
+ * revoked on its own. The public `/api/shared/...` routes resolve tokens through
+ * {@link ShareService.getShareLink}.
+ *
+ * A link can also have a password. Only a salted scrypt hash of it is stored. Visitors
+ * exchange the password for a short-lived signed cookie through
+ * {@link ShareService.unlockShareLink}, and the shared routes check that cookie with
+ * {@link ShareService.isUnlocked}. Wrong passwords are counted per visitor, by IP
+ * address, so someone guessing cannot lock out the person the link was meant for.
+ *
+ * A link can also be limited to a number of downloads, one for a one-time link. Each
+ * file URL or archive handed out through it is counted by
+ * {@link ShareService.recordDownload}, and once the limit is reached the link is gone.
+ *
+ * @module services/share-service
+ */
+
+/**
+ * Settings of a share link, as chosen when it is created or updated.
+ */
+export type ShareLinkOptions = {
+    /** Hours until the link expires; when updating, hours to add to its expiry */
+    hours?: number;
+    /** Who or what the link is for; empty to clear it */
+    label?: string | null;
+    /** What the link allows */
+    permission?: SharePermission;
+    /** Password visitors must enter; when updating, null or empty removes it */
+    password?: string | null;
+    /** Downloads after which the link stops working; null for no limit */
+    max_downloads?: number | null;
+};
+
+/**
+ * A signed cookie that unlocks a password-protected link, as returned by
+ * {@link ShareService.unlockShareLink}.
+ */
+export type ShareUnlockCookie = {
+    /** Cookie name, unique to the link */
+    name: string;
+    /** `{expiry}.{signature}` */
+    value: string;
+    /** When the cookie, and the access it grants, runs out */
+    expires: Date;
+};
+
+/** The parts of a request's cookies {@link ShareService.isUnlocked} reads */
+export type CookieReader = {
+    get(name: string): { value: string } | undefined;
+};
+
+/** The parts of a request's headers {@link ShareService.unlockClient} reads */
+export type HeaderReader = {
+    get(name: string): string | null;
+};
+
+/** Longest label a link can have, in characters */
+const MAX_LABEL_LENGTH = 100;
+
+const PERMISSIONS: readonly SharePermission[] = ["view", "download"];
+
+/** Shortest and longest password a link can have, in characters */
+const MIN_PASSWORD_LENGTH = 6;
+const MAX_PASSWORD_LENGTH = 128;
+
+/** Minutes an unlock cookie stays valid */
+const UNLOCK_MINUTES = 60;
+
+/** Wrong passwords in a row that lock a visitor out of a link, and minutes the lockout lasts */
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * Service class for creating, listing, updating, revoking and resolving share links.
+ *
+ * @remarks
+ * Callers must check ownership of the shared item first with
+ * {@link FolderService.authorizeFolder} or {@link FileService.authorizeFile}, and of a
+ * link with {@link ShareService.authorizeShareLink}.
+ *
+ * All methods in this service are static and handle their own error management.
+ *
+ * @example
+ * ```typescript
+ * const folder = await FolderService.authorizeFolder(userId, 'folder-123', 'write');
+ * const share = await ShareService.shareFolder(folder, { hours: 48, label: 'Accountant' }, origin);
+ * console.log(share.url); // https://myapp.com/shared/folder/<token>
+ *
+ * const link = await ShareService.authorizeShareLink(userId, share.id);
+ * await ShareService.revokeShareLink(link.id);
+ * ```
+ */
+export class ShareService {
+    /**
+     * Builds the URL a share link is handed out as.
+     *
+     * @param link - The share link
+     * @param origin - The application's origin
+     * @returns `{origin}/shared/folder/{token}` for a folder, or
+     * `{origin}/shared/file/{fileId}/{token}` for a file
+     */
+    static buildShareUrl(link: Pick<ShareLink, 'token' | 'file_id'>, origin: string): string {
+        return link.file_id
+            ? `${origin}/shared/file/${link.file_id}/${link.token}`
+            : `${origin}/shared/folder/${link.token}`;
+    }
+
+    /**
+     * Creates a new link sharing a folder and everything inside it.
+     *
+     * @param folder - The folder, as returned by {@link FolderService.authorizeFolder}
+     * @param options - The link's settings; `hours` is required
+     * @param origin - The application's origin, used to build the URL
+     * @returns A promise that resolves to the new share
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `400` if the hours, label, permission, password or download
+     * limit are invalid
+     *
+     * @throws {@link Error}
+     * Throws an error if the database insert fails
+     *
+     * @remarks
+     * Links default to the `download` permission and no download limit. Existing links to the folder are
+     * left untouched.
+     */
+    static async shareFolder(folder: Folder, options: ShareLinkOptions, origin: string): Promise<Share> {
+        return ShareService.createShareLink(
+            { kind: "folder", id: folder.id, name: folder.display_name || folder.folder_name, owner_clerk_id: folder.owner_clerk_id },
+            options, origin);
+    }
+
+    /**
+     * Creates a new link sharing a single file.
+     *
+     * @param file - The file, as returned by {@link FileService.authorizeFile}
+     * @param options - The link's settings; `hours` is required
+     * @param origin - The application's origin, used to build the URL
+     * @returns A promise that resolves to the new share
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `400` if the hours, label, permission, password or download
+     * limit are invalid
+     *
+     * @throws {@link Error}
+     * Throws an error if the database insert fails
+     *
+     * @remarks
+     * The URL leads to the shared file page, which fetches a presigned URL through
+     * {@link FileService.getFileFromShareToken} each time it is opened, so revoking the
+     * link turns away new visits immediately.
+     */
+    static async shareFile(file: File, options: ShareLinkOptions, origin: string): Promise<Share> {
+        return ShareService.createShareLink(
+            { kind: "file", id: file.id, name: file.file_name, owner_clerk_id: file.owner_clerk_id },
+            options, origin);
+    }
+
+    /**
+     * Lists a user's share links, including expired ones.
+     *
+     * @param userId - The Clerk user ID of the owner
+     * @param origin - The application's origin, used to build the URLs
+     * @returns A promise that resolves to the shares, soonest to expire first
+     *
+     * @throws {@link Error}
+     * Throws an error if the database query fails
+     *
+     * @remarks
+     * Links to trashed items are left out; they stop working while the item is in the
+     * trash and work again once it is restored.
+     */
+    static async listShares(userId: string, origin: string): Promise<Share[]> {
+        try {
+            const links = await prisma.shareLink.findMany({
+                where: {
+                    owner_clerk_id: userId,
+                    OR: [
+                        { folder: { deleted_at: null } },
+                        { file: { deleted_at: null, pending_until: null } },
+                    ],
+                },
+                include: {
+                    folder: { select: { folder_name: true, display_name: true } },
+                    file: { select: { file_name: true } },
+                },
+                orderBy: [{ expires_at: { sort: 'asc', nulls: 'last' } }, { created_at: 'desc' }],
+            });
+
+            return links.map((link) => ShareService.toShare(
+                link,
+                link.folder ? link.folder.display_name || link.folder.folder_name : link.file?.file_name ?? "",
+                origin));
+        } catch (error) {
+            console.error("Error listing shares: ", error);
+            throw new Error(`Failed to list shares: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Retrieves a share link and verifies that the given user owns it.
+     *
+     * @param userId - The Clerk user ID from `auth()`, or null if unauthenticated
+     * @param linkId - The unique identifier of the link
+     * @returns A promise that resolves to the ShareLink
+     *
+     * @throws {@link AuthorizationError}
+     * Throws with status `401`, `403`, or `404`
+     */
+    static async authorizeShareLink(userId: string | null, linkId: string): Promise<ShareLink> {
+        const link = await prisma.shareLink.findUnique({ where: { id: linkId } });
+        AuthorizationService.assertCanWrite(userId, link);
+        return link;
+    }
+
+    /**
+     * Extends a share link and/or changes its label, permission, password or download
+     * limit. The token, and so the URL, stays the same.
+     *
+     * @param link - The link, as returned by {@link authorizeShareLink}
+     * @param changes - Hours to add to the expiry, and the new label, permission,
+     * password or download limit
+     * @returns A promise that resolves to the updated ShareLink
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `400` if the hours, label, permission, password or download
+     * limit are invalid, or if nothing is to be changed
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @remarks
+     * The hours are added to the current expiry, or to the current time if the link
+     * has already expired, which brings an expired link back to life.
+     *
+     * Setting or removing the password invalidates every unlock cookie handed out for
+     * the old one, and lifts any lockout.
+     *
+     * A new download limit counts the downloads already made, so raising the limit of
+     * a used-up link brings it back to life.
+     */
+    static async updateShareLink(link: ShareLink, changes: ShareLinkOptions): Promise<ShareLink> {
+        const { hours, label, permission, password, max_downloads } = ShareService.validateOptions(changes);
+        if (hours === undefined && label === undefined && permission === undefined && password === undefined && max_downloads === undefined) {
+            throw new ValidationError("Provide hours, a label, a permission, a password and/or a download limit", 400);
+        }
+
+        try {
+            const updated = await prisma.shareLink.update({
+                where: { id: link.id },
+                data: {
+                    ...(hours !== undefined && { expires_at: ShareService.extendExpiry(link.expires_at, hours) }),
+                    ...(label !== undefined && { label }),
+                    ...(permission !== undefined && { permission }),
+                    ...(password !== undefined && {
+                        password_hash: password === null ? null : await ShareService.hashPassword(password),
+                        unlock_attempts: { deleteMany: {} },
+                    }),
+                    ...(max_downloads !== undefined && { max_downloads }),
+                },
+            });
+            return updated;
+        } catch (error) {
+            console.error("Error updating share link: ", error);
+            throw new Error(`Failed to update share link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Revokes a share link: its URL stops working immediately. Other links to the same
+     * item keep working.
+     *
+     * @param linkId - The unique identifier of the link
+     * @returns A promise that resolves to a success message
+     *
+     * @throws {@link Error}
+     * Throws an error if the database delete fails
+     */
+    static async revokeShareLink(linkId: string): Promise<{ message: string }> {
+        try {
+            await prisma.shareLink.delete({ where: { id: linkId } });
+            return { message: "share revoked" };
+        } catch (error) {
+            console.error("Error revoking share link: ", error);
+            throw new Error(`Failed to revoke share link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Looks up the share link a token belongs to.
+     *
+     * @param token - The token from the shared URL
+     * @returns A promise that resolves to the ShareLink, or null if there is no such
+     * link or the shared item is in the trash, itself or inside a trashed folder
+     *
+     * @throws {@link Error}
+     * Throws an error if the database query fails
+     *
+     * @remarks
+     * Expiry is not checked here, so callers can tell an expired link from an unknown
+     * one; use {@link isExpired}. Trashing a folder only stamps the folder itself, so
+     * the shared item's ancestors are checked too ({@link inTrashedFolder}).
+     */
+    static async getShareLink(token: string): Promise<ShareLink | null> {
+        try {
+            const link = await prisma.shareLink.findUnique({
+                where: { token },
+                include: {
+                    folder: { select: { deleted_at: true, parent_folder_id: true } },
+                    file: { select: { deleted_at: true, parent_folder_id: true } },
+                },
+            });
+            if (!link) return null;
+
+            const { folder, file, ...shareLink } = link;
+            if (folder?.deleted_at || file?.deleted_at) return null;
+            const parentId = folder?.parent_folder_id ?? file?.parent_folder_id;
+            if (parentId && await ShareService.inTrashedFolder(parentId)) return null;
+            return shareLink;
+        } catch (error) {
+            console.error("Error getting share link: ", error);
+            throw new Error(`Failed to get share link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Whether a share link has expired.
+     *
+     * @param link - The share link
+     * @returns True once `expires_at` has passed; false for links that never expire
+     */
+    static isExpired(link: Pick<ShareLink, 'expires_at'>): boolean {
+        return !!link.expires_at && new Date(link.expires_at).getTime() <= Date.now();
+    }
+
+    /**
+     * Downloads a share link has left.
+     *
+     * @param link - The share link
+     * @returns The number of downloads left, or null if the link has no download limit
+     */
+    static downloadsRemaining(link: Pick<ShareLink, 'max_downloads' | 'download_count'>): number | null {
+        return link.max_downloads === null ? null : Math.max(0, link.max_downloads - link.download_count);
+    }
+
+    /**
+     * Whether a share link has used up its downloads.
+     *
+     * @param link - The share link
+     * @returns True once the download limit is reached; false for links without one
+     */
+    static isExhausted(link: Pick<ShareLink, 'max_downloads' | 'download_count'>): boolean {
+        return ShareService.downloadsRemaining(link) === 0;
+    }
+
+    /**
+     * Counts a download through a share link, if it has any left.
+     *
+     * @param link - The link, as returned by {@link getShareLink}
+     * @returns A promise that resolves to the downloads left after this one, or null if
+     * the link has no download limit
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `410` if the link has reached its download limit
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @remarks
+     * The count is checked and incremented in a single statement, so concurrent
+     * requests cannot download a one-time link twice. Call it before handing out the
+     * file URL or archive.
+     */
+    static async recordDownload(link: ShareLink): Promise<number | null> {
+        let counted: { download_count: number, max_downloads: number | null }[];
+        try {
+            counted = await prisma.$queryRaw<{ download_count: number, max_downloads: number | null }[]>`
+                UPDATE "ShareLink" SET download_count = download_count + 1
+                WHERE id = ${link.id} AND (max_downloads IS NULL OR download_count < max_downloads)
+                RETURNING download_count, max_downloads`;
+        } catch (error) {
+            console.error("Error recording download: ", error);
+            throw new Error(`Failed to record download: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        if (counted.length === 0) {
+            throw new ValidationError("This link has reached its download limit", 410);
+        }
+        return ShareService.downloadsRemaining(counted[0]);
+    }
+
+    /**
+     * Exchanges a link's password for a signed cookie that unlocks the link.
+     *
+     * @param link - The link, as returned by {@link getShareLink}
+     * @param password - The password the visitor entered
+     * @param client - Who is trying, as returned by {@link unlockClient}
+     * @param secret - Secret the cookie is signed with (`SHARE_SIGNING_SECRET`)
+     * @returns A promise that resolves to the cookie to set, valid for an hour
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `400` if the link has no password
+     *
+     * @throws {@link RateLimitError}
+     * Throws if this client is locked out after too many wrong passwords
+     *
+     * @throws {@link AuthorizationError}
+     * Throws with status `401` if the password is wrong
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @remarks
+     * Five wrong passwords in a row from one client lock that client out of the link for
+     * 15 minutes; other visitors can still unlock it. The signature covers the password
+     * hash, so changing the password invalidates the cookies handed out for the old one.
+     */
+    static async unlockShareLink(link: ShareLink, password: unknown, client: string, secret: string): Promise<ShareUnlockCookie> {
+        if (!link.password_hash) {
+            throw new ValidationError("This link is not password protected", 400);
+        }
+
+        const where = { link_id_client: { link_id: link.id, client } };
+        let attempt: { failed_attempts: number, locked_until: Date | null } | null;
+        try {
+            attempt = await prisma.shareUnlockAttempt.findUnique({ where });
+        } catch (error) {
+            console.error("Error reading unlock attempts: ", error);
+            throw new Error(`Failed to unlock share link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        if (attempt?.locked_until && new Date(attempt.locked_until).getTime() > Date.now()) {
+            const retryAfterSeconds = Math.ceil((new Date(attempt.locked_until).getTime() - Date.now()) / 1000);
+            throw new RateLimitError("Too many incorrect passwords, try again later", retryAfterSeconds);
+        }
+
+        const correct = typeof password === "string" && await ShareService.verifyPassword(password, link.password_hash);
+
+        try {
+            if (!correct) {
+                // increment in the database so concurrent guesses are all counted
+                const { failed_attempts } = await prisma.shareUnlockAttempt.upsert({
+                    where,
+                    create: { link_id: link.id, client, failed_attempts: 1 },
+                    update: { failed_attempts: { increment: 1 } },
+                });
+                if (failed_attempts >= MAX_FAILED_ATTEMPTS) {
+                    await prisma.shareUnlockAttempt.update({
+                        where,
+                        data: { failed_attempts: 0, locked_until: new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000) },
+                    });
+                }
+            } else if (attempt) {
+                await prisma.shareUnlockAttempt.delete({ where });
+            }
+        } catch (error) {
+            console.error("Error recording unlock attempt: ", error);
+            throw new Error(`Failed to unlock share link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        if (!correct) {
+            throw new AuthorizationError("Incorrect password", 401);
+        }
+
+        const expires = Date.now() + UNLOCK_MINUTES * 60 * 1000;
+        return {
+            name: ShareService.unlockCookieName(link),
+            value: `${expires}.${ShareService.signUnlock(link, expires, secret)}`,
+            expires: new Date(expires),
+        };
+    }
+
+    /**
+     * Identifies the visitor behind an unlock attempt, so wrong passwords are counted
+     * per visitor rather than per link.
+     *
+     * @param headers - The request's headers, e.g. `request.headers`
+     * @returns A SHA-256 hash of the client's IP address; the address itself is not stored
+     *
+     * @remarks
+     * The address is the first entry of `X-Forwarded-For`, falling back to `X-Real-IP`,
+     * as set by the proxy in front of the app (Vercel sets both). Requests without
+     * either share one count.
+     */
+    static unlockClient(headers: HeaderReader): string {
+        const ip = headers.get("x-forwarded-for")?.split(",")[0].trim() || headers.get("x-real-ip")?.trim() || "unknown";
+        return createHash("sha256").update(ip).digest("hex");
+    }
+
+    /**
+     * Whether a request may use a share link: always for links without a password,
+     * otherwise only with a valid, unexpired cookie from {@link unlockShareLink}.
+     *
+     * @param link - The link, as returned by {@link getShareLink}
+     * @param cookies - The request's cookies, e.g. `request.cookies`
+     * @param secret - Secret the cookie was signed with (`SHARE_SIGNING_SECRET`)
+     * @returns True if the link is unlocked for this request
+     */
+    static isUnlocked(link: ShareLink, cookies: CookieReader, secret: string): boolean {
+        if (!link.password_hash) return true;
+
+        const [expires, signature] = (cookies.get(ShareService.unlockCookieName(link))?.value ?? "").split(".");
+        if (!expires || !signature || !(Number(expires) > Date.now())) return false;
+
+        const expected = Buffer.from(ShareService.signUnlock(link, Number(expires), secret));
+        const actual = Buffer.from(signature);
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+
+    /**
+     * Whether a folder or any folder above it is in the trash, read in a single
+     * recursive CTE query.
+     */
+    private static async inTrashedFolder(folderId: string): Promise<boolean> {
+        const [{ trashed }] = await prisma.$queryRaw<{ trashed: boolean }[]>`
+            WITH RECURSIVE chain AS (
+                SELECT id, parent_folder_id, deleted_at FROM "Folder" WHERE id = ${folderId}
+                UNION ALL
+                SELECT parent.id, parent.parent_folder_id, parent.deleted_at
+                FROM "Folder" parent JOIN chain ON parent.id = chain.parent_folder_id
+                WHERE chain.deleted_at IS NULL
+            )
+            SELECT EXISTS (SELECT 1 FROM chain WHERE deleted_at IS NOT NULL) AS trashed`;
+        return trashed;
+    }
+
+    /**
+     * Name of the cookie that unlocks a link.
+     */
+    private static unlockCookieName(link: Pick<ShareLink, 'id'>): string {
+        return `share_${link.id}`;
+    }
+
+    /**
+     * Signs an unlock cookie for a link and expiry.
+     */
+    private static signUnlock(link: ShareLink, expires: number, secret: string): string {
+        return createHmac("sha256", secret)
+            .update(`${link.id}:${expires}:${link.password_hash}`)
+            .digest("base64url");
+    }
+
+    /**
+     * Hashes a password with a random salt, as `scrypt$<salt>$<hash>`.
+     */
+    private static async hashPassword(password: string): Promise<string> {
+        const salt = randomBytes(16);
+        const hash = await ShareService.scrypt(password, salt);
+        return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+    }
+
+    /**
+     * Checks a password against a hash from {@link hashPassword}.
+     */
+    private static async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+        const [scheme, salt, hash] = passwordHash.split("$");
+        if (scheme !== "scrypt" || !salt || !hash) return false;
+
+        const expected = Buffer.from(hash, "base64");
+        const actual = await ShareService.scrypt(password, Buffer.from(salt, "base64"));
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+
+    private static scrypt(password: string, salt: Buffer): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => error ? reject(error) : resolve(key));
+        });
+    }
+
+    /**
+     * Inserts a share link for a folder or file.
+     */
+    private static async createShareLink(
+        item: { kind: "folder" | "file", id: string, name: string, owner_clerk_id: string },
+        options: ShareLinkOptions,
+        origin: string): Promise<Share> {
+        const { hours, label, permission, password, max_downloads } = ShareService.validateOptions(options);
+        if (hours === undefined) {
+            throw new ValidationError("Invalid expiration time", 400);
+        }
+
+        try {
+            const link = await prisma.shareLink.create({
+                data: {
+                    token: crypto.randomUUID(),
+                    label: label ?? null,
+                    permission: permission ?? "download",
+                    password_hash: password ? await ShareService.hashPassword(password) : null,
+                    max_downloads: max_downloads ?? null,
+                    expires_at: new Date(Date.now() + hours * 60 * 60 * 1000),
+                    owner_clerk_id: item.owner_clerk_id,
+                    folder_id: item.kind === "folder" ? item.id : null,
+                    file_id: item.kind === "file" ? item.id : null,
+                },
+            });
+            return ShareService.toShare(link, item.name, origin);
+        } catch (error) {
+            console.error("Error creating share link: ", error);
+            throw new Error(`Failed to create share link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Checks share link settings, trimming the label and turning an empty label or
+     * password into null.
+     */
+    private static validateOptions(options: ShareLinkOptions): ShareLinkOptions {
+        const { hours, permission, max_downloads } = options;
+        if (hours !== undefined && (typeof hours !== "number" || !Number.isFinite(hours) || hours <= 0)) {
+            throw new ValidationError("Invalid expiration time", 400);
+        }
+        if (permission !== undefined && !PERMISSIONS.includes(permission)) {
+            throw new ValidationError(`Permission must be one of: ${PERMISSIONS.join(", ")}`, 400);
+        }
+        if (max_downloads !== undefined && max_downloads !== null && (!Number.isInteger(max_downloads) || max_downloads < 1)) {
+            throw new ValidationError("Download limit must be a whole number of at least 1", 400);
+        }
+
+        let label = options.label;
+        if (label !== undefined && label !== null) {
+            if (typeof label !== "string") {
+                throw new ValidationError("Label must be a string", 400);
+            }
+            label = label.trim() || null;
+            if (label && label.length > MAX_LABEL_LENGTH) {
+                throw new ValidationError(`Label must be at most ${MAX_LABEL_LENGTH} characters`, 400);
+            }
+        }
+
+        let password = options.password;
+        if (password !== undefined && password !== null) {
+            if (typeof password !== "string") {
+                throw new ValidationError("Password must be a string", 400);
+            }
+            password = password || null;
+            if (password && (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH)) {
+                throw new ValidationError(`Password must be ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters`, 400);
+            }
+        }
+        return { hours, label, permission, password, max_downloads };
+    }
+
+    /**
+     * Adds hours to an expiration time, counting from now if it has passed or is unset.
+     */
+    private static extendExpiry(expiresAt: Date | null, hours: number): Date {
+        const from = Math.max(Date.now(), expiresAt ? new Date(expiresAt).getTime() : 0);
+        return new Date(from + hours * 60 * 60 * 1000);
+    }
+
+    /**
+     * Describes a share link for its owner.
+     */
+    private static toShare(link: ShareLink, name: string, origin: string): Share {
+        return {
+            id: link.id,
+            kind: link.file_id ? "file" : "folder",
+            item_id: (link.file_id ?? link.folder_id) as string,
+            name,
+            label: link.label,
+            permission: link.permission,
+            has_password: !!link.password_hash,
+            max_downloads: link.max_downloads,
+            downloads_remaining: ShareService.downloadsRemaining(link),
+            url: ShareService.buildShareUrl(link, origin),
+            created_at: link.created_at,
+            expires_at: link.expires_at,
+            expired: ShareService.isExpired(link),
+        };
+    }
+}
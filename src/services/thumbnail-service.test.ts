@@ -0,0 +1,158 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import sharp from "sharp";
+import { ThumbnailService } from "./thumbnail-service";
+import prisma from "@/lib/db-client";
+import s3Client from "@/lib/s3-client";
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        file: {
+            findUnique: vi.fn(),
+            updateMany: vi.fn(() => Promise.resolve({ count: 1 })),
+        },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+vi.mock("@aws-sdk/s3-request-presigner", () => ({
+    getSignedUrl: vi.fn(() => Promise.resolve("https://signed.example.com/thumbnail")),
+}));
+
+describe("ThumbnailService", () => {
+    const photo = {
+        id: "file-123",
+        file_name: "holiday.png",
+        size: 500,
+        owner_clerk_id: "user-owner",
+        s3_key: "stored-key",
+        version: 2,
+        deleted_at: null,
+        pending_until: null,
+        thumbnail_key: "root_user_user-owner/thumbnails/file-123/v1.webp",
+        thumbnail_version: 1,
+    };
+
+    let png: Buffer;
+    beforeEach(async () => {
+        png = await sharp({ create: { width: 512, height: 512, channels: 3, background: "#ff0000" } }).png().toBuffer();
+        vi.mocked(s3Client.send).mockImplementation((async (command: { constructor: { name: string } }) =>
+            command.constructor.name === "GetObjectCommand"
+                ? { Body: { transformToWebStream: () => new Response(new Uint8Array(png)).body } }
+                : {}) as never);
+    });
+
+    const sentCommands = () => vi.mocked(s3Client.send).mock.calls.map(([command]) => ({
+        name: command.constructor.name,
+        input: command.input as { Key: string, ContentType?: string },
+    }));
+
+    describe("generateThumbnail", () => {
+        it("stores a WebP thumbnail of the current version and replaces the old one", async () => {
+            vi.mocked(prisma.file.findUnique).mockResolvedValue(photo as never);
+
+            const key = await ThumbnailService.generateThumbnail("file-123");
+
+            expect(key).toBe("root_user_user-owner/thumbnails/file-123/v2.webp");
+            expect(sentCommands()).toEqual([
+                { name: "GetObjectCommand", input: expect.objectContaining({ Key: "stored-key" }) },
+                { name: "PutObjectCommand", input: expect.objectContaining({ Key: key, ContentType: "image/webp" }) },
+                { name: "DeleteObjectCommand", input: expect.objectContaining({ Key: photo.thumbnail_key }) },
+            ]);
+            expect(prisma.file.updateMany).toHaveBeenCalledWith({
+                where: { id: "file-123", version: 2 },
+                data: { thumbnail_key: key, thumbnail_version: 2 },
+            });
+        });
+
+        it("skips files that are up to date, not images or PDFs, or not live", async () => {
+            for (const file of [
+                { ...photo, thumbnail_version: 2 },
+                { ...photo, file_name: "notes.txt" },
+                { ...photo, deleted_at: new Date() },
+                { ...photo, pending_until: new Date() },
+                null,
+            ]) {
+                vi.mocked(prisma.file.findUnique).mockResolvedValueOnce(file as never);
+                await ThumbnailService.generateThumbnail("file-123");
+            }
+
+            expect(s3Client.send).not.toHaveBeenCalled();
+            expect(prisma.file.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("records content it cannot decode so it is not tried again", async () => {
+            png = Buffer.from("not a png");
+            vi.mocked(prisma.file.findUnique).mockResolvedValue({ ...photo, thumbnail_key: null, thumbnail_version: null } as never);
+            const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+            expect(await ThumbnailService.generateThumbnail("file-123")).toBeNull();
+            expect(prisma.file.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+                data: { thumbnail_key: null, thumbnail_version: 2 },
+            }));
+            expect(sentCommands().map((command) => command.name)).toEqual(["GetObjectCommand"]);
+            consoleSpy.mockRestore();
+        });
+
+        it("discards the thumbnail when a new version arrived in the meantime", async () => {
+            vi.mocked(prisma.file.findUnique).mockResolvedValue(photo as never);
+            vi.mocked(prisma.file.updateMany).mockResolvedValueOnce({ count: 0 } as never);
+
+            expect(await ThumbnailService.generateThumbnail("file-123")).toBeNull();
+            const deleted = sentCommands().filter((command) => command.name === "DeleteObjectCommand");
+            expect(deleted.map((command) => command.input.Key)).toEqual(["root_user_user-owner/thumbnails/file-123/v2.webp"]);
+        });
+    });
+
+    describe("processPending", () => {
+        it("generates the thumbnails of the files found", async () => {
+            vi.mocked(prisma.$queryRaw).mockResolvedValue([{ id: "file-123" }, { id: "file-456" }] as never);
+            vi.mocked(prisma.file.findUnique)
+                .mockResolvedValueOnce(photo as never)
+                .mockResolvedValueOnce(null as never);
+
+            expect(await ThumbnailService.processPending(20)).toBe(1);
+            expect(prisma.file.findUnique).toHaveBeenCalledWith({ where: { id: "file-456" } });
+        });
+
+        it("fails when the files cannot be queried", async () => {
+            vi.mocked(prisma.$queryRaw).mockRejectedValue(new Error("database down"));
+            const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+            await expect(ThumbnailService.processPending(20)).rejects.toThrow("Failed to process thumbnails: database down");
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe("deleteThumbnail", () => {
+        it("never fails the deletion of the file", async () => {
+            vi.mocked(s3Client.send).mockRejectedValue(new Error("storage down"));
+            const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+            await expect(ThumbnailService.deleteThumbnail(photo)).resolves.toBeUndefined();
+            await ThumbnailService.deleteThumbnail({ thumbnail_key: null });
+            expect(s3Client.send).toHaveBeenCalledTimes(1);
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe("withThumbnailUrls", () => {
+        it("signs the thumbnails of the files that have one", async () => {
+            const files = await ThumbnailService.withThumbnailUrls([photo, { ...photo, id: "file-456", thumbnail_key: null }]);
+
+            expect(files.map((file) => file.thumbnail_url)).toEqual(["https://signed.example.com/thumbnail", null]);
+        });
+    });
+});
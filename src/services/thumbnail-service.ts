@@ -0,0 +1,204 @@
+import prisma from '@/lib/db-client';
+import storageDriver from '@/lib/storage-client';
+import { Prisma } from '@/../prisma/generated/prisma';
+import { isThumbnailable, renderThumbnail, THUMBNAIL_EXTENSIONS } from '@/lib/thumbnails';
+import { type File } from '@/types/types';
+
+/**
+ * @fileoverview Background generation of image and PDF thumbnails.
+ *
+ * Thumbnails are made after an upload completes, outside the upload request, and
+ * stored as WebP objects next to the owner's files under a key derived from the file
+ * and its version ({@link ThumbnailService.buildThumbnailKey}). The File row records
+ * the key and the version it was made from, so a new or restored version is picked up
+ * again by {@link ThumbnailService.processPending}.
+ *
+ * @module services/thumbnail-service
+ */
+
+/**
+ * Largest content a thumbnail is made for, in bytes.
+ */
+const MAX_THUMBNAIL_SOURCE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Lifetime of the signed thumbnail URLs in folder listings, in seconds.
+ */
+const THUMBNAIL_URL_SECONDS = 60 * 60;
+
+/**
+ * Service class for file thumbnails.
+ *
+ * All methods in this service are static and handle their own error management.
+ *
+ * @example
+ * ```typescript
+ * // right after an upload, without holding up the response
+ * after(() => ThumbnailService.generateThumbnail(file.id));
+ *
+ * // from a scheduled job, for anything that was missed
+ * const generated = await ThumbnailService.processPending(20);
+ * ```
+ */
+export class ThumbnailService {
+    /**
+     * Builds the storage key of a file's thumbnail.
+     *
+     * @param userId - The Clerk user ID of the file's owner
+     * @param fileId - The unique identifier of the file
+     * @param version - The version of the content the thumbnail shows
+     * @returns The key, `root_user_{userId}/thumbnails/{fileId}/v{version}.webp`
+     */
+    static buildThumbnailKey(userId: string, fileId: string, version: number): string {
+        return `root_user_${userId}/thumbnails/${fileId}/v${version}.webp`;
+    }
+
+    /**
+     * Makes the thumbnail of a file's current content, unless that was done before.
+     *
+     * @param fileId - The unique identifier of the file
+     * @returns A promise that resolves to the thumbnail's key, or null if none was made
+     *
+     * @remarks
+     * - Only JPEG, PNG, GIF, WebP, AVIF, TIFF and PDF files of up to 50 MB get a
+     *   thumbnail (see {@link renderThumbnail}); trashed files and unfinished uploads
+     *   are skipped
+     * - The thumbnail of an earlier version is deleted once the new one is recorded
+     * - If a new version arrives while the thumbnail is made, the thumbnail is
+     *   discarded; the new version is processed in turn
+     * - Content that cannot be decoded is recorded as processed without a thumbnail,
+     *   so it is not tried again
+     * - Never throws: a failure is logged and the file simply has no thumbnail
+     */
+    static async generateThumbnail(fileId: string): Promise<string | null> {
+        try {
+            const file = await prisma.file.findUnique({ where: { id: fileId } });
+            if (!file || !file.s3_key || file.deleted_at || file.pending_until) return null;
+            if (file.thumbnail_version === file.version) return file.thumbnail_key;
+            if (!isThumbnailable(file.file_name) || file.size > MAX_THUMBNAIL_SOURCE_BYTES) return null;
+
+            let thumbnail: Buffer | null = null;
+            try {
+                thumbnail = await renderThumbnail(file.file_name, await ThumbnailService.readObject(file.s3_key));
+            } catch (error) {
+                console.error(`Error rendering thumbnail of ${file.id}: `, error);
+            }
+
+            let thumbnailKey: string | null = null;
+            if (thumbnail) {
+                thumbnailKey = ThumbnailService.buildThumbnailKey(file.owner_clerk_id, file.id, file.version);
+                await storageDriver.putObject(thumbnailKey, thumbnail, { contentType: "image/webp" });
+            }
+
+            // only record it against the version it was made from
+            const { count } = await prisma.file.updateMany({
+                where: { id: file.id, version: file.version },
+                data: { thumbnail_key: thumbnailKey, thumbnail_version: file.version },
+            });
+            if (count === 0) {
+                await ThumbnailService.deleteThumbnail({ thumbnail_key: thumbnailKey });
+                return null;
+            }
+            if (file.thumbnail_key && file.thumbnail_key !== thumbnailKey) {
+                await ThumbnailService.deleteThumbnail(file);
+            }
+            return thumbnailKey;
+        } catch (error) {
+            console.error("Error generating thumbnail: ", error);
+            return null;
+        }
+    }
+
+    /**
+     * Makes the thumbnails that are missing or out of date.
+     *
+     * Intended for a scheduled job: it catches files whose content changed without an
+     * upload (restored versions, copies) and uploads whose thumbnail was never made.
+     *
+     * @param limit - Most files to process in one run
+     * @returns A promise that resolves to the number of thumbnails made
+     *
+     * @throws {@link Error}
+     * Throws an error if the files to process cannot be queried
+     *
+     * @remarks
+     * Files are processed oldest first, one at a time; failures on individual files are
+     * logged and skipped (see {@link generateThumbnail}).
+     */
+    static async processPending(limit: number): Promise<number> {
+        let pending: { id: string }[];
+        try {
+            pending = await prisma.$queryRaw<{ id: string }[]>`
+                SELECT id FROM "File"
+                WHERE deleted_at IS NULL AND pending_until IS NULL AND s3_key IS NOT NULL
+                    AND extension IN (${Prisma.join(THUMBNAIL_EXTENSIONS)})
+                    AND size <= ${MAX_THUMBNAIL_SOURCE_BYTES}
+                    AND thumbnail_version IS DISTINCT FROM version
+                ORDER BY created_at LIMIT ${limit}`;
+        } catch (error) {
+            console.error("Error finding files without thumbnails: ", error);
+            throw new Error(`Failed to process thumbnails: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        let generated = 0;
+        for (const { id } of pending) {
+            if (await ThumbnailService.generateThumbnail(id)) generated++;
+        }
+        return generated;
+    }
+
+    /**
+     * Deletes a file's thumbnail from storage.
+     *
+     * @param file - The file, or any row with its `thumbnail_key`
+     *
+     * @remarks
+     * Never throws: a thumbnail that cannot be deleted is logged and left behind, so it
+     * never blocks deleting the file itself. The row is not updated; call this when the
+     * row is deleted or its key replaced.
+     */
+    static async deleteThumbnail(file: Pick<File, 'thumbnail_key'>): Promise<void> {
+        if (!file.thumbnail_key) return;
+        try {
+            await storageDriver.deleteObject(file.thumbnail_key);
+        } catch (error) {
+            console.error("Error deleting thumbnail: ", error);
+        }
+    }
+
+    /**
+     * Sets `thumbnail_url` on each of a page of files: a signed URL of its thumbnail, or
+     * null if it has none.
+     *
+     * @param files - The files, with their `thumbnail_key`
+     * @returns A promise that resolves to the files with `thumbnail_url` set
+     *
+     * @remarks
+     * - The URLs last an hour, like the other URLs in a folder listing
+     * - Never throws: a thumbnail whose URL cannot be signed is left out, and the file
+     *   is shown with its icon
+     */
+    static async withThumbnailUrls<T extends Pick<File, 'thumbnail_key'>>(files: T[]): Promise<(T & { thumbnail_url: string | null })[]> {
+        return await Promise.all(files.map(async (file) => {
+            if (!file.thumbnail_key) return { ...file, thumbnail_url: null };
+            try {
+                return { ...file, thumbnail_url: await storageDriver.getSignedUrl(file.thumbnail_key, THUMBNAIL_URL_SECONDS) };
+            } catch (error) {
+                console.error("Error signing thumbnail URL: ", error);
+                return { ...file, thumbnail_url: null };
+            }
+        }));
+    }
+
+    /**
+     * Reads a whole object from storage.
+     */
+    private static async readObject(key: string): Promise<Buffer> {
+        const chunks: Uint8Array[] = [];
+        const reader = (await storageDriver.getObjectStream(key)).getReader();
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            chunks.push(chunk.value);
+        }
+        return Buffer.concat(chunks);
+    }
+}
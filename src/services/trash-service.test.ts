@@ -0,0 +1,169 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TrashService } from "./trash-service";
+import { AuthorizationError } from "./authorization-service";
+import prisma from "@/lib/db-client";
+import { type File, type Folder } from "@/types/types";
+
+vi.mock("@clerk/nextjs/server", () => ({
+    auth: vi.fn(),
+    clerkClient: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        folder: {
+            findUnique: vi.fn(),
+            findFirst: vi.fn(),
+            findMany: vi.fn(),
+            update: vi.fn(),
+            delete: vi.fn(),
+        },
+        file: {
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+            update: vi.fn(),
+            delete: vi.fn(),
+        },
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+describe("TrashService", () => {
+    const trashedFile = {
+        id: "file-123",
+        file_name: "report.pdf",
+        owner_clerk_id: "user-owner",
+        parent_folder_id: "folder-456",
+        s3_key: "root_user_user-owner/files/file-123/report.pdf",
+        deleted_at: new Date("2024-01-01"),
+    } as File;
+
+    beforeEach(() => {
+        vi.mocked(prisma.folder.findFirst).mockResolvedValue({ id: "root-1", is_root: true } as never);
+        vi.mocked(prisma.file.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.folder.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.file.update).mockImplementation((({ data }: { data: object }) =>
+            Promise.resolve({ ...trashedFile, ...data })) as never);
+    });
+
+    describe("restoreFile", () => {
+        it("puts the file back into its original folder when it still exists", async () => {
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue({ id: "folder-456" } as never);
+
+            const restored = await TrashService.restoreFile(trashedFile);
+
+            expect(restored.parent_folder_id).toBe("folder-456");
+            expect(restored.deleted_at).toBeNull();
+        });
+
+        it("falls back to the root folder when the original folder is gone or trashed", async () => {
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue(null);
+
+            const restored = await TrashService.restoreFile(trashedFile);
+
+            expect(prisma.folder.findUnique).toHaveBeenCalledWith({
+                where: { id: "folder-456", deleted_at: null },
+            });
+            expect(restored.parent_folder_id).toBe("root-1");
+        });
+
+        it("renames the file if the folder has a live file with its name", async () => {
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue({ id: "folder-456" } as never);
+            vi.mocked(prisma.file.findMany).mockResolvedValue([{ file_name: "report.pdf" }] as never);
+
+            const restored = await TrashService.restoreFile(trashedFile);
+
+            expect(prisma.file.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { parent_folder_id: "folder-456", deleted_at: null },
+            }));
+            expect(restored.file_name).toBe("report (1).pdf");
+        });
+    });
+
+    describe("restoreFolder", () => {
+        it("falls back to the root folder when the parent is gone", async () => {
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue(null);
+            vi.mocked(prisma.folder.update).mockImplementation((({ data }: { data: object }) =>
+                Promise.resolve({ id: "folder-789", ...data })) as never);
+
+            const restored = await TrashService.restoreFolder({
+                id: "folder-789",
+                folder_name: "Invoices",
+                owner_clerk_id: "user-owner",
+                parent_folder_id: "folder-gone",
+            } as Folder);
+
+            expect(restored.parent_folder_id).toBe("root-1");
+            expect(restored.deleted_at).toBeNull();
+        });
+
+        it("renames the folder if the parent has a live folder with its name in any case", async () => {
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue({ id: "folder-456" } as never);
+            vi.mocked(prisma.folder.findMany).mockResolvedValue([{ folder_name: "INVOICES" }] as never);
+            vi.mocked(prisma.folder.update).mockImplementation((({ data }: { data: object }) =>
+                Promise.resolve({ id: "folder-789", ...data })) as never);
+
+            const restored = await TrashService.restoreFolder({
+                id: "folder-789",
+                folder_name: "Invoices",
+                owner_clerk_id: "user-owner",
+                parent_folder_id: "folder-456",
+            } as Folder);
+
+            expect(restored).toMatchObject({ folder_name: "Invoices (1)", display_name: "Invoices (1)" });
+        });
+    });
+
+    describe("authorizeTrashedFile", () => {
+        it("returns 404 for files that are not in the trash", async () => {
+            vi.mocked(prisma.file.findUnique).mockResolvedValue(null);
+            await expect(TrashService.authorizeTrashedFile("user-owner", "file-123"))
+                .rejects.toMatchObject({ status: 404 });
+        });
+
+        it("rejects another user's trashed file with 403", async () => {
+            vi.mocked(prisma.file.findUnique).mockResolvedValue(trashedFile as never);
+            await expect(TrashService.authorizeTrashedFile("user-intruder", "file-123"))
+                .rejects.toBeInstanceOf(AuthorizationError);
+        });
+    });
+
+    describe("purgeExpired", () => {
+        it("hard-deletes only items older than the retention period", async () => {
+            vi.mocked(prisma.folder.findMany).mockResolvedValue([]);
+            vi.mocked(prisma.file.findMany).mockResolvedValue([{ id: "file-123" }] as never);
+            vi.mocked(prisma.file.findUnique).mockResolvedValue(trashedFile as never);
+
+            const purged = await TrashService.purgeExpired(30);
+
+            const cutoff = vi.mocked(prisma.file.findMany).mock.calls[0][0]?.where?.deleted_at as { lt: Date };
+            const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+            expect(Math.abs(cutoff.lt.getTime() - thirtyDaysAgo)).toBeLessThan(5000);
+            expect(prisma.file.delete).toHaveBeenCalledWith({ where: { id: "file-123" } });
+            expect(purged).toEqual({ files: 1, folders: 0 });
+        });
+
+        it("skips folders already removed with an earlier purged folder", async () => {
+            vi.mocked(prisma.folder.findMany).mockResolvedValue([{ id: "folder-gone" }] as never);
+            vi.mocked(prisma.folder.findUnique).mockResolvedValue(null);
+            vi.mocked(prisma.file.findMany).mockResolvedValue([]);
+
+            const purged = await TrashService.purgeExpired(30);
+
+            expect(prisma.folder.delete).not.toHaveBeenCalled();
+            expect(purged).toEqual({ files: 0, folders: 0 });
+        });
+    });
+});
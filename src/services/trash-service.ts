@@ -0,0 +1,317 @@
+import prisma from '@/lib/db-client';
+import { FileService } from '@/services/file-service';
+import { FolderService } from '@/services/folder-service';
+import { AuthorizationService } from '@/services/authorization-service';
+import { getAvailableName } from '@/lib/utils';
+import { type File, type Folder } from '@/types/types';
+
+/**
+ * @fileoverview Trash bin: soft delete, restore and purge for files and folders.
+ *
+ * Deleting a file or folder from the UI only stamps `deleted_at`; the row and its
+ * stored object stay in place. Trashed items disappear from every live query
+ * ({@link FolderService.getFolder}, {@link FileService.getFile}, share lookups) and
+ * are listed under `/api/trash` instead. They can be restored, or purged for good
+ * either on request or once they are older than `TRASH_RETENTION_DAYS`.
+ *
+ * @module services/trash-service
+ */
+
+/**
+ * Contents of a user's trash.
+ */
+export type TrashContents = {
+    /** Files that were trashed directly */
+    files: File[];
+    /** Folders that were trashed directly (their contents travel with them) */
+    folders: Folder[];
+};
+
+/**
+ * Service class for moving files and folders in and out of the trash.
+ *
+ * @remarks
+ * Only the item the user deleted is stamped with `deleted_at`. The contents of a
+ * trashed folder are untouched and become reachable again as soon as the folder
+ * is restored.
+ *
+ * All methods in this service are static and handle their own error management.
+ *
+ * @example
+ * ```typescript
+ * // Move a file to the trash, then bring it back
+ * await TrashService.trashFile('file-123');
+ * const trashed = await TrashService.authorizeTrashedFile(userId, 'file-123');
+ * const restored = await TrashService.restoreFile(trashed);
+ *
+ * // Nightly job
+ * await TrashService.purgeExpired(30);
+ * ```
+ */
+export class TrashService {
+    /**
+     * Moves a file to the trash.
+     *
+     * @param fileId - The unique identifier of the file
+     * @returns A promise that resolves to a success message
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @remarks
+     * Callers must check ownership first with {@link FileService.authorizeFile}.
+     */
+    static async trashFile(fileId: string): Promise<{ message: string }> {
+        try {
+            await prisma.file.update({
+                where: { id: fileId },
+                data: { deleted_at: new Date() },
+            });
+            return { message: "moved to trash" };
+        } catch (error) {
+            console.error("Error moving file to trash: ", error);
+            throw new Error(`Failed to move file to trash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Moves a folder, and with it everything inside, to the trash.
+     *
+     * @param folderId - The unique identifier of the folder
+     * @returns A promise that resolves to a success message
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @remarks
+     * Callers must check ownership first with {@link FolderService.authorizeFolder}
+     * and must not pass the user's root folder.
+     */
+    static async trashFolder(folderId: string): Promise<{ message: string }> {
+        try {
+            await prisma.folder.update({
+                where: { id: folderId },
+                data: { deleted_at: new Date() },
+            });
+            return { message: "moved to trash" };
+        } catch (error) {
+            console.error("Error moving folder to trash: ", error);
+            throw new Error(`Failed to move folder to trash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Lists the files and folders a user has moved to the trash, newest first.
+     *
+     * @param userId - The Clerk user ID of the owner
+     * @returns A promise that resolves to the trashed files and folders
+     *
+     * @throws {@link Error}
+     * Throws an error if the database query fails
+     */
+    static async listTrash(userId: string): Promise<TrashContents> {
+        try {
+            const [files, folders] = await Promise.all([
+                prisma.file.findMany({
+                    where: { owner_clerk_id: userId, deleted_at: { not: null } },
+                    orderBy: { deleted_at: 'desc' },
+                }),
+                prisma.folder.findMany({
+                    where: { owner_clerk_id: userId, deleted_at: { not: null } },
+                    orderBy: { deleted_at: 'desc' },
+                }),
+            ]);
+            return {
+                files,
+                folders: folders as unknown as Folder[],
+            };
+        } catch (error) {
+            console.error("Error listing trash: ", error);
+            throw new Error(`Failed to list trash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Retrieves a trashed file and verifies that the given user owns it.
+     *
+     * @param userId - The Clerk user ID from `auth()`, or null if unauthenticated
+     * @param fileId - The unique identifier of the trashed file
+     * @returns A promise that resolves to the trashed File
+     *
+     * @throws {@link AuthorizationError}
+     * Throws with status `401`, `403`, or `404` (also when the file is not in the trash)
+     */
+    static async authorizeTrashedFile(userId: string | null, fileId: string): Promise<File> {
+        const file = await prisma.file.findUnique({
+            where: { id: fileId, deleted_at: { not: null } },
+        });
+        AuthorizationService.assertCanWrite(userId, file);
+        return file;
+    }
+
+    /**
+     * Retrieves a trashed folder and verifies that the given user owns it.
+     *
+     * @param userId - The Clerk user ID from `auth()`, or null if unauthenticated
+     * @param folderId - The unique identifier of the trashed folder
+     * @returns A promise that resolves to the trashed Folder
+     *
+     * @throws {@link AuthorizationError}
+     * Throws with status `401`, `403`, or `404` (also when the folder is not in the trash)
+     */
+    static async authorizeTrashedFolder(userId: string | null, folderId: string): Promise<Folder> {
+        const folder = await prisma.folder.findUnique({
+            where: { id: folderId, deleted_at: { not: null } },
+        });
+        AuthorizationService.assertCanWrite(userId, folder);
+        return folder as unknown as Folder;
+    }
+
+    /**
+     * Restores a trashed file into its original folder, or into the owner's root
+     * folder if the original folder no longer exists or is itself in the trash.
+     *
+     * @param file - The trashed file, as returned by {@link authorizeTrashedFile}
+     * @returns A promise that resolves to the restored File
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @remarks
+     * If a live file in the folder has taken the name in the meantime, the restored
+     * file is renamed with a numeric suffix before the extension (see
+     * {@link getAvailableName}), so names stay unique within a folder.
+     */
+    static async restoreFile(file: File): Promise<File> {
+        try {
+            const parentFolderId = await TrashService.resolveRestoreParent(file.owner_clerk_id, file.parent_folder_id);
+            const siblings = await prisma.file.findMany({
+                where: { parent_folder_id: parentFolderId, deleted_at: null },
+                select: { file_name: true },
+            });
+            const fileName = getAvailableName(file.file_name, siblings.map((sibling) => sibling.file_name), { keepExtension: true });
+            return await prisma.file.update({
+                where: { id: file.id },
+                data: {
+                    deleted_at: null,
+                    parent_folder_id: parentFolderId,
+                    file_name: fileName,
+                },
+            });
+        } catch (error) {
+            console.error("Error restoring file: ", error);
+            throw new Error(`Failed to restore file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Restores a trashed folder, together with its contents, into its original
+     * parent, or into the owner's root folder if the parent is gone or trashed.
+     *
+     * @param folder - The trashed folder, as returned by {@link authorizeTrashedFolder}
+     * @returns A promise that resolves to the restored Folder
+     *
+     * @throws {@link Error}
+     * Throws an error if the database update fails
+     *
+     * @remarks
+     * If a live folder in the parent has taken the name in the meantime (compared
+     * case-insensitively, as folder names are), the restored folder is renamed with a
+     * numeric suffix (see {@link getAvailableName}).
+     */
+    static async restoreFolder(folder: Folder): Promise<Folder> {
+        try {
+            const parentFolderId = await TrashService.resolveRestoreParent(folder.owner_clerk_id, folder.parent_folder_id);
+            const siblings = await prisma.folder.findMany({
+                where: { parent_folder_id: parentFolderId, deleted_at: null },
+                select: { folder_name: true },
+            });
+            const folderName = getAvailableName(folder.folder_name, siblings.map((sibling) => sibling.folder_name), { ignoreCase: true });
+            const restored = await prisma.folder.update({
+                where: { id: folder.id },
+                data: {
+                    deleted_at: null,
+                    parent_folder_id: parentFolderId,
+                    ...(folderName !== folder.folder_name && { folder_name: folderName, display_name: folderName }),
+                },
+            });
+            return restored as unknown as Folder;
+        } catch (error) {
+            console.error("Error restoring folder: ", error);
+            throw new Error(`Failed to restore folder: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Hard-deletes every trashed item older than the retention period.
+     *
+     * Folders are purged first (taking their contents with them), then any
+     * remaining files. Failures on individual items are logged and skipped so one
+     * bad object does not block the rest of the purge.
+     *
+     * @param retentionDays - How many days items stay in the trash
+     * @returns A promise that resolves to the number of files and folders purged
+     *
+     * @throws {@link Error}
+     * Throws an error if the trash cannot be queried
+     */
+    static async purgeExpired(retentionDays: number): Promise<{ files: number, folders: number }> {
+        try {
+            const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+            let purgedFolders = 0;
+            let purgedFiles = 0;
+
+            const folders = await prisma.folder.findMany({
+                where: { deleted_at: { lt: cutoff } },
+                select: { id: true },
+            });
+            for (const { id } of folders) {
+                try {
+                    // may already be gone if it was inside another purged folder
+                    const stillExists = await prisma.folder.findUnique({ where: { id } });
+                    if (!stillExists) continue;
+                    await FolderService.deleteFolderRecursively(id);
+                    purgedFolders++;
+                } catch (error) {
+                    console.error(`Error purging folder ${id}: `, error);
+                }
+            }
+
+            const files = await prisma.file.findMany({
+                where: { deleted_at: { lt: cutoff } },
+                select: { id: true },
+            });
+            for (const { id } of files) {
+                try {
+                    await FileService.deleteFile(id);
+                    purgedFiles++;
+                } catch (error) {
+                    console.error(`Error purging file ${id}: `, error);
+                }
+            }
+
+            return { files: purgedFiles, folders: purgedFolders };
+        } catch (error) {
+            console.error("Error purging trash: ", error);
+            throw new Error(`Failed to purge trash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Picks the folder a restored item goes back into: its original parent if that
+     * folder still exists outside the trash, otherwise the owner's root folder.
+     */
+    private static async resolveRestoreParent(ownerId: string, parentFolderId: string | null | undefined): Promise<string | null> {
+        if (parentFolderId) {
+            const parent = await prisma.folder.findUnique({
+                where: { id: parentFolderId, deleted_at: null },
+            });
+            if (parent) return parent.id;
+        }
+
+        const root = await prisma.folder.findFirst({
+            where: { owner_clerk_id: ownerId, is_root: true },
+        });
+        return root?.id ?? null;
+    }
+}
@@ -0,0 +1,273 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { UploadService, MAX_UPLOAD_SIZE, MIN_PART_SIZE } from "./upload-service";
+import { ValidationError } from "@/lib/errors";
+import prisma from "@/lib/db-client";
+import s3Client from "@/lib/s3-client";
+import { type File, type Folder } from "@/types/types";
+
+vi.mock("@/lib/config", () => ({
+    default: {
+        getInstance: () => ({
+            config: { APPLICATION_BUCKET_NAME: "test-bucket", AWS_REGION: "us-east-1" },
+        }),
+    },
+}));
+
+vi.mock("@/lib/db-client", () => ({
+    default: {
+        file: {
+            findUnique: vi.fn(),
+            findFirst: vi.fn(),
+            findMany: vi.fn(),
+            create: vi.fn(),
+            update: vi.fn(),
+            delete: vi.fn(),
+        },
+        fileVersion: {
+            create: vi.fn(),
+            findMany: vi.fn(() => Promise.resolve([])),
+            deleteMany: vi.fn(),
+        },
+        blob: {
+            upsert: vi.fn(({ create }: { create: object }) => Promise.resolve(create)),
+        },
+        $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+}));
+
+vi.mock("@/lib/s3-client", () => ({
+    default: { send: vi.fn() },
+}));
+
+vi.mock("@aws-sdk/s3-request-presigner", () => ({
+    getSignedUrl: vi.fn(() => Promise.resolve("https://signed.example.com/upload")),
+}));
+
+describe("UploadService", () => {
+    const folder = { id: "folder-123", owner_clerk_id: "user-owner" } as Folder;
+    const pendingFile = {
+        id: "file-123",
+        file_name: "report.pdf",
+        size: 1024,
+        owner_clerk_id: "user-owner",
+        parent_folder_id: "folder-123",
+        s3_key: "root_user_user-owner/files/file-123/report.pdf",
+        pending_until: new Date("2024-01-01T02:00:00Z"),
+    } as File;
+
+    beforeEach(() => {
+        vi.mocked(prisma.file.create).mockImplementation((({ data }: { data: object }) =>
+            Promise.resolve(data)) as never);
+        vi.mocked(prisma.file.update).mockImplementation((({ data }: { data: object }) =>
+            Promise.resolve({ ...pendingFile, ...data })) as never);
+    });
+
+    describe("createUpload", () => {
+        it("creates a pending file and returns a signed upload request", async () => {
+            const result = await UploadService.createUpload(folder, {
+                fileName: "report.pdf",
+                size: 1024,
+                contentType: "application/pdf",
+            }, "user-owner", 3600);
+
+            expect(result.upload).toEqual({
+                url: "https://signed.example.com/upload",
+                method: "PUT",
+                headers: { "Content-Type": "application/pdf" },
+            });
+            expect(result.file).toMatchObject({
+                file_name: "report.pdf",
+                size: 1024,
+                parent_folder_id: "folder-123",
+                owner_clerk_id: "user-owner",
+            });
+            expect(result.file.s3_key).toBe(`root_user_user-owner/files/${result.file.id}/report.pdf`);
+            expect(result.file.pending_until!.getTime()).toBeGreaterThan(result.expires_at.getTime());
+        });
+
+        it("rejects names with slashes and invalid or oversized sizes", async () => {
+            await expect(UploadService.createUpload(folder, { fileName: "a/b.txt", size: 1 }, "user-owner", 60))
+                .rejects.toMatchObject({ status: 400 });
+            await expect(UploadService.createUpload(folder, { fileName: "a.txt", size: -1 }, "user-owner", 60))
+                .rejects.toMatchObject({ status: 400 });
+            await expect(UploadService.createUpload(folder, { fileName: "a.txt", size: MAX_UPLOAD_SIZE + 1 }, "user-owner", 60))
+                .rejects.toMatchObject({ status: 413 });
+            expect(prisma.file.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("createMultipartUpload", () => {
+        it("starts a multipart upload with parts of at least the minimum size", async () => {
+            vi.mocked(s3Client.send).mockResolvedValueOnce({ UploadId: "upload-1" } as never);
+
+            const result = await UploadService.createMultipartUpload(folder, {
+                fileName: "video.mp4",
+                size: MIN_PART_SIZE * 2 + 1,
+            }, "user-owner", 24);
+
+            expect(result).toMatchObject({ part_size: MIN_PART_SIZE, part_count: 3 });
+            expect(result.file).toMatchObject({ file_name: "video.mp4", multipart_upload_id: "upload-1" });
+        });
+
+        it("grows the part size so a huge file fits in 10,000 parts", async () => {
+            vi.mocked(s3Client.send).mockResolvedValueOnce({ UploadId: "upload-1" } as never);
+
+            const result = await UploadService.createMultipartUpload(folder, {
+                fileName: "dataset.tar",
+                size: 200 * 1024 ** 3,
+            }, "user-owner", 24);
+
+            expect(result.part_count).toBeLessThanOrEqual(10_000);
+            expect(result.part_size % (1024 ** 2)).toBe(0);
+        });
+    });
+
+    describe("signUploadParts", () => {
+        const multipartFile = { ...pendingFile, size: MIN_PART_SIZE * 2, multipart_upload_id: "upload-1" } as File;
+
+        it("rejects part numbers outside the file and single-request uploads", async () => {
+            await expect(UploadService.signUploadParts(multipartFile, [3], 60, 24)).rejects.toMatchObject({ status: 400 });
+            await expect(UploadService.signUploadParts(pendingFile, [1], 60, 24)).rejects.toMatchObject({ status: 400 });
+            expect(prisma.file.update).not.toHaveBeenCalled();
+        });
+
+        it("signs the requested parts and keeps the upload alive", async () => {
+            const parts = await UploadService.signUploadParts(multipartFile, [1, 2], 60, 24);
+
+            expect(parts).toEqual([
+                { part_number: 1, url: "https://signed.example.com/upload", method: "PUT", headers: {} },
+                { part_number: 2, url: "https://signed.example.com/upload", method: "PUT", headers: {} },
+            ]);
+            expect(prisma.file.update).toHaveBeenCalledWith({
+                where: { id: "file-123" },
+                data: { pending_until: expect.any(Date) },
+            });
+        });
+    });
+
+    describe("completeUpload", () => {
+        it("clears pending_until and leaves hashing to the background, without reading the object", async () => {
+            vi.mocked(s3Client.send).mockResolvedValueOnce({ ContentLength: 1024 } as never);
+
+            const file = await UploadService.completeUpload(pendingFile, 10);
+
+            expect(file.pending_until).toBeNull();
+            expect(prisma.file.update).toHaveBeenCalledWith({
+                where: { id: "file-123" },
+                data: { pending_until: null, multipart_upload_id: null, dedup_pending: true },
+            });
+            expect(s3Client.send).toHaveBeenCalledTimes(1);
+            expect(prisma.blob.upsert).not.toHaveBeenCalled();
+        });
+
+        it("becomes a new version of a live file with the same name", async () => {
+            const existing = { ...pendingFile, id: "file-old", s3_key: "old-key", version: 2, pending_until: null };
+            vi.mocked(s3Client.send).mockResolvedValueOnce({ ContentLength: 1024 } as never);
+            vi.mocked(prisma.file.findFirst).mockResolvedValueOnce(existing as never);
+
+            const file = await UploadService.completeUpload(pendingFile, 10);
+
+            expect(prisma.file.delete).toHaveBeenCalledWith({ where: { id: "file-123" } });
+            expect(prisma.fileVersion.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ file_id: "file-old", version: 2, s3_key: "old-key" }),
+            });
+            expect(prisma.file.update).toHaveBeenCalledWith({
+                where: { id: "file-old" },
+                data: expect.objectContaining({ s3_key: pendingFile.s3_key, size: 1024, version: 3, blob_id: null, dedup_pending: true }),
+            });
+            expect(file.version).toBe(3);
+        });
+
+        it("returns 409 while nothing has been uploaded", async () => {
+            vi.mocked(s3Client.send).mockRejectedValueOnce(Object.assign(new Error("Not Found"), { name: "NotFound" }) as never);
+
+            await expect(UploadService.completeUpload(pendingFile, 10)).rejects.toMatchObject({ status: 409 });
+            expect(prisma.file.update).not.toHaveBeenCalled();
+        });
+
+        it("deletes the object and returns 400 when the size does not match", async () => {
+            vi.mocked(s3Client.send)
+                .mockResolvedValueOnce({ ContentLength: 10 } as never)
+                .mockResolvedValueOnce({} as never);
+
+            const result = UploadService.completeUpload(pendingFile, 10);
+
+            await expect(result).rejects.toBeInstanceOf(ValidationError);
+            await expect(result).rejects.toMatchObject({ status: 400 });
+            expect(vi.mocked(s3Client.send).mock.calls[1][0].constructor.name).toBe("DeleteObjectCommand");
+            expect(prisma.file.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("completeUpload with a multipart upload", () => {
+        const multipartFile = { ...pendingFile, size: MIN_PART_SIZE + 10, multipart_upload_id: "upload-1" } as File;
+
+        it("assembles the parts and completes the file", async () => {
+            vi.mocked(s3Client.send)
+                .mockResolvedValueOnce({ Parts: [
+                    { PartNumber: 1, ETag: '"a"', Size: MIN_PART_SIZE },
+                    { PartNumber: 2, ETag: '"b"', Size: 10 },
+                ] } as never)
+                .mockResolvedValueOnce({} as never)
+                .mockResolvedValueOnce({ ContentLength: MIN_PART_SIZE + 10 } as never);
+
+            const file = await UploadService.completeUpload(multipartFile, 10);
+
+            const complete = vi.mocked(s3Client.send).mock.calls[1][0];
+            expect(complete.constructor.name).toBe("CompleteMultipartUploadCommand");
+            expect(complete.input).toMatchObject({
+                UploadId: "upload-1",
+                MultipartUpload: { Parts: [{ PartNumber: 1, ETag: '"a"' }, { PartNumber: 2, ETag: '"b"' }] },
+            });
+            expect(file).toMatchObject({ pending_until: null, multipart_upload_id: null });
+        });
+
+        it("returns 409 while parts are missing and 400 for a part of the wrong size", async () => {
+            vi.mocked(s3Client.send).mockResolvedValueOnce({ Parts: [{ PartNumber: 1, ETag: '"a"', Size: MIN_PART_SIZE }] } as never);
+            await expect(UploadService.completeUpload(multipartFile, 10)).rejects.toMatchObject({ status: 409 });
+
+            vi.mocked(s3Client.send).mockResolvedValueOnce({ Parts: [
+                { PartNumber: 1, ETag: '"a"', Size: MIN_PART_SIZE },
+                { PartNumber: 2, ETag: '"b"', Size: 9 },
+            ] } as never);
+            await expect(UploadService.completeUpload(multipartFile, 10)).rejects.toMatchObject({ status: 400 });
+
+            expect(s3Client.send).toHaveBeenCalledTimes(2);
+            expect(prisma.file.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("purgeAbandonedUploads", () => {
+        it("removes expired pending files and their objects, skipping failures", async () => {
+            vi.mocked(prisma.file.findMany).mockResolvedValue([
+                { id: "file-1", s3_key: "key-1", multipart_upload_id: null },
+                { id: "file-2", s3_key: "key-2", multipart_upload_id: null },
+            ] as never);
+            vi.mocked(s3Client.send)
+                .mockResolvedValueOnce({} as never)
+                .mockRejectedValueOnce(new Error("S3 down") as never);
+            const now = new Date("2024-01-02T00:00:00Z");
+
+            const purged = await UploadService.purgeAbandonedUploads(now);
+
+            expect(purged).toBe(1);
+            expect(prisma.file.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { pending_until: { lt: now } },
+            }));
+            expect(prisma.file.delete).toHaveBeenCalledTimes(1);
+            expect(prisma.file.delete).toHaveBeenCalledWith({ where: { id: "file-1" } });
+        });
+
+        it("aborts multipart uploads before deleting them", async () => {
+            vi.mocked(prisma.file.findMany).mockResolvedValue([
+                { id: "file-1", s3_key: "key-1", multipart_upload_id: "upload-1" },
+            ] as never);
+            vi.mocked(s3Client.send).mockResolvedValue({} as never);
+
+            expect(await UploadService.purgeAbandonedUploads()).toBe(1);
+            expect(vi.mocked(s3Client.send).mock.calls[0][0].constructor.name).toBe("AbortMultipartUploadCommand");
+            expect(prisma.file.delete).toHaveBeenCalledWith({ where: { id: "file-1" } });
+        });
+    });
+});
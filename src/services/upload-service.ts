@@ -0,0 +1,518 @@
+import { randomUUID } from 'crypto';
+import prisma from '@/lib/db-client';
+import storageDriver from '@/lib/storage-client';
+import { ValidationError } from '@/lib/errors';
+import { FileService } from '@/services/file-service';
+import { FileVersionService } from '@/services/file-version-service';
+import { AuthorizationService } from '@/services/authorization-service';
+import { type SignedUpload } from '@/interfaces/storage-driver.interface';
+import { type File, type Folder } from '@/types/types';
+
+/**
+ * @fileoverview Direct uploads: clients send file bytes straight to storage.
+ *
+ * Instead of posting the file to the app, the client asks for an upload
+ * ({@link UploadService.createUpload}), which creates a pending File row and returns a
+ * signed URL. The client PUTs the bytes to that URL, then calls
+ * {@link UploadService.completeUpload}, which checks the stored object and turns the
+ * row into a regular file. Uploads that are never completed are removed by
+ * {@link UploadService.purgeAbandonedUploads}.
+ *
+ * Large files use a multipart upload instead ({@link UploadService.createMultipartUpload}):
+ * the file is split into fixed-size parts that are uploaded (and retried) separately,
+ * so a dropped connection only costs the part in flight and an upload can be resumed
+ * by listing the parts already stored.
+ *
+ * Pending rows carry `pending_until` and are left out of every live query
+ * ({@link FolderService.getFolder}, {@link FileService.getFile}, folder trees), so they
+ * never show up in listings or downloads. Completed uploads are hashed and deduplicated
+ * against content already stored in the background, never while the client waits
+ * (see {@link BlobService.deduplicateFile}). When an upload
+ * completes into a folder that already has a file of that name, it becomes a new
+ * version of that file instead (see {@link FileVersionService}).
+ *
+ * @module services/upload-service
+ */
+
+/**
+ * Largest file that can be uploaded in a single request (the S3 `PutObject` limit, 5 GiB).
+ */
+export const MAX_UPLOAD_SIZE = 5 * 1024 ** 3;
+
+/**
+ * Largest file that can be uploaded in parts (the S3 object size limit, 5 TiB).
+ */
+export const MAX_MULTIPART_UPLOAD_SIZE = 5 * 1024 ** 4;
+
+/**
+ * Smallest part size used for multipart uploads (S3 requires at least 5 MiB for every part but the last).
+ */
+export const MIN_PART_SIZE = 8 * 1024 ** 2;
+
+/**
+ * Most parts a multipart upload may have (an S3 limit).
+ */
+const MAX_PART_COUNT = 10_000;
+
+/**
+ * Most part URLs that can be requested at once.
+ */
+const MAX_PARTS_PER_REQUEST = 100;
+
+/**
+ * Extra time, after the upload URL expires, before a pending upload is collected,
+ * so a request that started just before expiry can still finish and be completed.
+ */
+const ABANDONED_UPLOAD_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Details of a file the client is about to upload.
+ */
+export type UploadDetails = {
+    /** Name the file will have in its folder */
+    fileName: string;
+    /** Exact size in bytes; the stored object must match it */
+    size: number;
+    /** MIME type the client will send with the upload, if any */
+    contentType?: string;
+};
+
+/**
+ * A pending upload, as returned to the client.
+ */
+export type PendingUpload = {
+    /** The pending File row */
+    file: File;
+    /** Where and how to send the file's bytes */
+    upload: SignedUpload;
+    /** When the upload URL stops working */
+    expires_at: Date;
+};
+
+/**
+ * A pending multipart upload, as returned to the client.
+ */
+export type MultipartUpload = {
+    /** The pending File row */
+    file: File;
+    /** Size of every part but the last, in bytes */
+    part_size: number;
+    /** Number of parts the file is split into */
+    part_count: number;
+};
+
+/**
+ * Where and how to send one part of a multipart upload.
+ */
+export type UploadPartRequest = SignedUpload & {
+    /** The 1-based part number */
+    part_number: number;
+};
+
+/**
+ * Progress of a multipart upload, used to resume it.
+ */
+export type MultipartUploadState = MultipartUpload & {
+    /** Parts stored so far */
+    parts: { part_number: number, size: number }[];
+};
+
+/**
+ * Service class for two-phase direct uploads.
+ *
+ * All methods in this service are static and handle their own error management.
+ *
+ * @example
+ * ```typescript
+ * // Phase 1: reserve the file and hand the client a URL
+ * const folder = await FolderService.authorizeFolder(userId, folderId, 'write');
+ * const { file, upload } = await UploadService.createUpload(folder, { fileName: 'a.pdf', size: 1024 }, userId, 3600);
+ *
+ * // Phase 2: after the client has sent the bytes
+ * const pending = await UploadService.authorizePendingUpload(userId, file.id);
+ * const ready = await UploadService.completeUpload(pending, 10);
+ * ```
+ */
+export class UploadService {
+    /**
+     * Creates a pending file in a folder and a signed URL to upload its content to.
+     *
+     * @param folder - The destination folder, already authorized for writing
+     * @param details - Name, size and content type of the file
+     * @param userId - The Clerk user ID of the uploader
+     * @param expiresInSeconds - How long the upload URL stays valid
+     *
+     * @returns A promise that resolves to the pending file and its upload request
+     *
+     * @throws {@link ValidationError}
+     * Throws with status:
+     * - `400` if the name is empty or contains a slash, or the size is not a whole number of bytes
+     * - `413` if the file is larger than {@link MAX_UPLOAD_SIZE}; use {@link createMultipartUpload}
+     *
+     * @throws {@link Error}
+     * Throws an error if the database insert or URL signing fails
+     *
+     * @remarks
+     * - The object key is built with {@link FileService.buildObjectKey}, as for regular uploads
+     * - The row is collected if it is still pending an hour after the URL expires
+     */
+    static async createUpload(folder: Folder, details: UploadDetails, userId: string, expiresInSeconds: number): Promise<PendingUpload> {
+        const fileName = UploadService.validateDetails(details, MAX_UPLOAD_SIZE);
+
+        try {
+            const fileId = randomUUID();
+            const s3Key = FileService.buildObjectKey(userId, fileId, fileName);
+            const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+
+            const upload = await storageDriver.getSignedUploadUrl(s3Key, expiresInSeconds, { contentType: details.contentType || undefined });
+            const file = await prisma.file.create({
+                data: {
+                    id: fileId,
+                    file_name: fileName,
+                    size: details.size,
+                    parent_folder_id: folder.id,
+                    owner_clerk_id: userId,
+                    s3_key: s3Key,
+                    s3_link: storageDriver.getObjectLink(s3Key),
+                    pending_until: new Date(expiresAt.getTime() + ABANDONED_UPLOAD_GRACE_MS),
+                },
+            });
+
+            return { file, upload, expires_at: expiresAt };
+        } catch (error) {
+            console.error("Error creating upload: ", error);
+            throw new Error(`Failed to create upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Creates a pending file in a folder and starts a multipart upload for its content.
+     *
+     * The part size is chosen so the file fits in at most 10,000 parts. Part URLs are
+     * requested afterwards with {@link signUploadParts}.
+     *
+     * @param folder - The destination folder, already authorized for writing
+     * @param details - Name, size and content type of the file
+     * @param userId - The Clerk user ID of the uploader
+     * @param idleHours - How long the upload may go without new part URLs before it is purged
+     *
+     * @returns A promise that resolves to the pending file and how to split it
+     *
+     * @throws {@link ValidationError}
+     * Throws with status:
+     * - `400` if the name is empty or contains a slash, or the size is not a whole number of bytes
+     * - `413` if the file is larger than {@link MAX_MULTIPART_UPLOAD_SIZE}
+     *
+     * @throws {@link Error}
+     * Throws an error if the storage backend or database insert fails
+     */
+    static async createMultipartUpload(folder: Folder, details: UploadDetails, userId: string, idleHours: number): Promise<MultipartUpload> {
+        const fileName = UploadService.validateDetails(details, MAX_MULTIPART_UPLOAD_SIZE);
+
+        try {
+            const fileId = randomUUID();
+            const s3Key = FileService.buildObjectKey(userId, fileId, fileName);
+
+            const uploadId = await storageDriver.createMultipartUpload(s3Key, { contentType: details.contentType || undefined });
+            const file = await prisma.file.create({
+                data: {
+                    id: fileId,
+                    file_name: fileName,
+                    size: details.size,
+                    parent_folder_id: folder.id,
+                    owner_clerk_id: userId,
+                    s3_key: s3Key,
+                    s3_link: storageDriver.getObjectLink(s3Key),
+                    pending_until: new Date(Date.now() + idleHours * 60 * 60 * 1000),
+                    multipart_upload_id: uploadId,
+                },
+            });
+
+            return { file, ...UploadService.getPartLayout(details.size) };
+        } catch (error) {
+            console.error("Error creating multipart upload: ", error);
+            throw new Error(`Failed to create multipart upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Lists the parts stored so far for a multipart upload, so the client can resume it.
+     *
+     * @param file - The pending file, as returned by {@link authorizePendingUpload}
+     * @returns A promise that resolves to the part layout and the stored parts
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `400` if the file is not being uploaded in parts
+     *
+     * @throws {@link Error}
+     * Throws an error if the storage backend fails
+     */
+    static async listUploadedParts(file: File): Promise<MultipartUploadState> {
+        const uploadId = UploadService.requireMultipart(file);
+
+        try {
+            const parts = await storageDriver.listUploadedParts(file.s3_key as string, uploadId);
+            return {
+                file,
+                ...UploadService.getPartLayout(file.size),
+                parts: parts.map((part) => ({ part_number: part.partNumber, size: part.size })),
+            };
+        } catch (error) {
+            console.error("Error listing uploaded parts: ", error);
+            throw new Error(`Failed to list uploaded parts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Creates signed URLs for uploading parts of a multipart upload.
+     *
+     * Every call also pushes back the time the upload is considered abandoned, so
+     * uploads that keep making progress are never purged.
+     *
+     * @param file - The pending file, as returned by {@link authorizePendingUpload}
+     * @param partNumbers - The 1-based numbers of the parts to upload (at most 100)
+     * @param expiresInSeconds - How long the URLs stay valid
+     * @param idleHours - How long the upload may go without new part URLs before it is purged
+     * @returns A promise that resolves to one upload request per part
+     *
+     * @throws {@link ValidationError}
+     * Throws with status `400` if the file is not being uploaded in parts, or a part
+     * number is out of range, or too many parts are requested
+     *
+     * @throws {@link Error}
+     * Throws an error if URL signing or the database update fails
+     */
+    static async signUploadParts(file: File, partNumbers: number[], expiresInSeconds: number, idleHours: number): Promise<UploadPartRequest[]> {
+        const uploadId = UploadService.requireMultipart(file);
+        const { part_count } = UploadService.getPartLayout(file.size);
+
+        if (!Array.isArray(partNumbers) || partNumbers.length === 0 || partNumbers.length > MAX_PARTS_PER_REQUEST) {
+            throw new ValidationError(`Between 1 and ${MAX_PARTS_PER_REQUEST} part numbers are required`, 400);
+        }
+        if (partNumbers.some((partNumber) => !Number.isInteger(partNumber) || partNumber < 1 || partNumber > part_count)) {
+            throw new ValidationError(`Part numbers must be between 1 and ${part_count}`, 400);
+        }
+
+        try {
+            await prisma.file.update({
+                where: { id: file.id },
+                data: { pending_until: new Date(Date.now() + idleHours * 60 * 60 * 1000) },
+            });
+
+            return await Promise.all(partNumbers.map(async (partNumber) => ({
+                part_number: partNumber,
+                ...await storageDriver.getSignedUploadPartUrl(file.s3_key as string, uploadId, partNumber, expiresInSeconds),
+            })));
+        } catch (error) {
+            console.error("Error signing upload parts: ", error);
+            throw new Error(`Failed to sign upload parts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Cancels a pending upload: discards anything stored for it and deletes the pending file.
+     *
+     * @param file - The pending file, as returned by {@link authorizePendingUpload}
+     *
+     * @throws {@link Error}
+     * Throws an error if the storage backend or database delete fails
+     */
+    static async abortUpload(file: File): Promise<void> {
+        try {
+            await UploadService.discardUpload(file);
+        } catch (error) {
+            console.error("Error aborting upload: ", error);
+            throw new Error(`Failed to abort upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Retrieves a pending upload and verifies that the given user started it.
+     *
+     * @param userId - The Clerk user ID from `auth()`, or null if unauthenticated
+     * @param fileId - The unique identifier of the pending file
+     * @returns A promise that resolves to the pending File
+     *
+     * @throws {@link AuthorizationError}
+     * Throws with status `401`, `403`, or `404` (also when the upload was already completed)
+     */
+    static async authorizePendingUpload(userId: string | null, fileId: string): Promise<File> {
+        const file = await prisma.file.findUnique({
+            where: { id: fileId, pending_until: { not: null } },
+        });
+        AuthorizationService.assertCanWrite(userId, file);
+        return file;
+    }
+
+    /**
+     * Verifies that a pending upload's object was stored and makes the file available.
+     *
+     * For multipart uploads the stored parts are checked and assembled into the object first.
+     * The object is not read: the file is flagged `dedup_pending` and keeps its own object
+     * until {@link BlobService.deduplicateFile} hashes it in the background, shares it with
+     * identical content and indexes it for search.
+     *
+     * @param file - The pending file, as returned by {@link authorizePendingUpload}
+     * @param maxVersions - Most earlier versions to keep when the upload replaces an existing file
+     * @returns A promise that resolves to the completed File, or the existing file it
+     * became a new version of
+     *
+     * @throws {@link ValidationError}
+     * Throws with status:
+     * - `409` if nothing, or not every part, has been uploaded yet (the client may upload and try again)
+     * - `400` if the stored object's size differs from the declared size; the object is deleted.
+     *   For multipart uploads, if a part has the wrong size; the part can be uploaded again
+     *
+     * @throws {@link Error}
+     * Throws an error if the storage lookup or database update fails
+     *
+     * @remarks
+     * If the folder already holds a live file with the same name, the pending row is
+     * deleted and its content becomes that file's current version
+     * ({@link FileVersionService.addVersion}).
+     */
+    static async completeUpload(file: File, maxVersions: number): Promise<File> {
+        try {
+            if (file.multipart_upload_id) {
+                await UploadService.assembleParts(file, file.multipart_upload_id);
+            }
+
+            const info = file.s3_key ? await storageDriver.headObject(file.s3_key) : null;
+            if (!info) {
+                throw new ValidationError("The file has not been uploaded yet", 409);
+            }
+            if (info.size !== file.size) {
+                await storageDriver.deleteObject(file.s3_key as string);
+                throw new ValidationError(`Uploaded ${info.size} bytes but ${file.size} were expected`, 400);
+            }
+
+            const existing = file.parent_folder_id
+                ? await FileVersionService.findFileByName(file.parent_folder_id, file.file_name, file.id)
+                : null;
+            if (existing) {
+                // drop the pending row first so the purge can never delete the object the new version uses
+                await prisma.file.delete({ where: { id: file.id } });
+                return await FileVersionService.addVersion(existing, { s3Key: file.s3_key as string, size: file.size }, maxVersions);
+            }
+
+            return await prisma.file.update({
+                where: { id: file.id },
+                data: {
+                    pending_until: null,
+                    multipart_upload_id: null,
+                    dedup_pending: true,
+                },
+            });
+        } catch (error) {
+            if (error instanceof ValidationError) throw error;
+            console.error("Error completing upload: ", error);
+            throw new Error(`Failed to complete upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Deletes pending uploads, and whatever was stored for them, once they have expired.
+     *
+     * Failures on individual uploads are logged and skipped so one bad object does not
+     * block the rest.
+     *
+     * @param now - The current time (pending rows expiring before it are removed)
+     * @returns A promise that resolves to the number of uploads removed
+     *
+     * @throws {@link Error}
+     * Throws an error if the pending uploads cannot be queried
+     */
+    static async purgeAbandonedUploads(now: Date = new Date()): Promise<number> {
+        try {
+            const abandoned = await prisma.file.findMany({
+                where: { pending_until: { lt: now } },
+                select: { id: true, s3_key: true, multipart_upload_id: true },
+            });
+
+            let purged = 0;
+            for (const file of abandoned) {
+                try {
+                    await UploadService.discardUpload(file);
+                    purged++;
+                } catch (error) {
+                    console.error(`Error purging upload ${file.id}: `, error);
+                }
+            }
+            return purged;
+        } catch (error) {
+            console.error("Error purging abandoned uploads: ", error);
+            throw new Error(`Failed to purge abandoned uploads: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Checks an upload's name and size, returning the trimmed name.
+     */
+    private static validateDetails(details: UploadDetails, maxSize: number): string {
+        const fileName = typeof details.fileName === "string" ? details.fileName.trim() : "";
+        if (!fileName || /[\\/]/.test(fileName)) {
+            throw new ValidationError("A file name without slashes is required", 400);
+        }
+        if (!Number.isInteger(details.size) || details.size < 0) {
+            throw new ValidationError("File size must be a whole number of bytes", 400);
+        }
+        if (details.size > maxSize) {
+            throw new ValidationError("File is too large", 413);
+        }
+        return fileName;
+    }
+
+    /**
+     * Splits a file size into parts of at least {@link MIN_PART_SIZE}, whole MiB each,
+     * with no more than 10,000 parts.
+     */
+    private static getPartLayout(size: number): { part_size: number, part_count: number } {
+        const mebibyte = 1024 ** 2;
+        const partSize = Math.max(MIN_PART_SIZE, Math.ceil(size / MAX_PART_COUNT / mebibyte) * mebibyte);
+        return { part_size: partSize, part_count: Math.max(1, Math.ceil(size / partSize)) };
+    }
+
+    /**
+     * Returns the multipart upload ID of a pending file, rejecting single-request uploads.
+     */
+    private static requireMultipart(file: File): string {
+        if (!file.multipart_upload_id) {
+            throw new ValidationError("This upload is not a multipart upload", 400);
+        }
+        return file.multipart_upload_id;
+    }
+
+    /**
+     * Checks that every part of a multipart upload is stored with the expected size and
+     * assembles them into the final object.
+     */
+    private static async assembleParts(file: File, uploadId: string): Promise<void> {
+        const { part_size, part_count } = UploadService.getPartLayout(file.size);
+        const parts = await storageDriver.listUploadedParts(file.s3_key as string, uploadId);
+
+        if (parts.length < part_count) {
+            throw new ValidationError(`${parts.length} of ${part_count} parts have been uploaded`, 409);
+        }
+        for (const part of parts) {
+            const expected = part.partNumber < part_count ? part_size : file.size - part_size * (part_count - 1);
+            if (part.size !== expected) {
+                throw new ValidationError(`Part ${part.partNumber} is ${part.size} bytes but ${expected} were expected`, 400);
+            }
+        }
+
+        await storageDriver.completeMultipartUpload(file.s3_key as string, uploadId, parts);
+    }
+
+    /**
+     * Deletes whatever was stored for a pending upload, then its row.
+     */
+    private static async discardUpload(file: Pick<File, "id" | "s3_key" | "multipart_upload_id">): Promise<void> {
+        if (file.s3_key) {
+            if (file.multipart_upload_id) {
+                await storageDriver.abortMultipartUpload(file.s3_key, file.multipart_upload_id);
+            }
+            await storageDriver.deleteObject(file.s3_key);
+        }
+        await prisma.file.delete({ where: { id: file.id } });
+    }
+}
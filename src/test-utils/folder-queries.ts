@@ -0,0 +1,40 @@
+/**
+ * Folders as the route tests describe them: keyed by ID, linked to their parent through
+ * `parent_folder_id` and to their children through `subfolders`.
+ */
+type FolderFixtures = Record<string, Record<string, unknown>>;
+
+/**
+ * Builds a `prisma.$queryRaw` implementation answering the recursive folder queries of
+ * FolderService from in-memory folders:
+ * - the subtree query (`getFolderRecursively`) gets the folder and its descendants,
+ *   with their files' dates as JSON strings
+ * - the ancestor query gets the folder and its ancestors, nearest first
+ */
+export function folderQueries(folders: FolderFixtures) {
+    return (sql: TemplateStringsArray, folderId: string) => {
+        const rows: Record<string, unknown>[] = [];
+        if (sql.join("").includes("WITH RECURSIVE tree")) {
+            const visit = (id: string, parentId: string | null) => {
+                const folder = folders[id];
+                if (!folder) return;
+                const { subfolders, files, ...fields } = folder;
+                rows.push({
+                    parent_folder_id: parentId,
+                    ...fields,
+                    files: ((files ?? []) as Record<string, unknown>[]).map((file) => ({
+                        ...file,
+                        created_at: file.created_at instanceof Date ? file.created_at.toISOString() : file.created_at,
+                    })),
+                });
+                for (const sub of (subfolders ?? []) as { id: string }[]) visit(sub.id, id);
+            };
+            visit(folderId, (folders[folderId]?.parent_folder_id as string | undefined) ?? null);
+        } else {
+            for (let folder = folders[folderId]; folder; folder = folders[folder.parent_folder_id as string]) {
+                rows.push({ deleted_at: null, display_name: null, ...folder });
+            }
+        }
+        return Promise.resolve(rows);
+    };
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { SidebarProvider } from '@/components/ui/sidebar';
 import { AuthFolderProvider } from '@/contexts/auth-folder-context';
+import { UploadQueueProvider } from '@/contexts/upload-queue-context';
 
 /**
  * Test wrapper component that provides all necessary context providers
@@ -10,7 +11,9 @@ export function TestWrapper({ children }: { children: React.ReactNode }) {
     return (
         <SidebarProvider>
             <AuthFolderProvider>
-                {children}
+                <UploadQueueProvider>
+                    {children}
+                </UploadQueueProvider>
             </AuthFolderProvider>
         </SidebarProvider>
     );
@@ -22,13 +22,13 @@
  * @property {Date} created_at - Timestamp when the folder was created
  * @property {Date} updated_at - Timestamp when the folder was last modified
  * @property {boolean} is_root - Whether this is the user's root folder
- * @property {string | null} s3_link - Share token for public folder access (null if not shared)
- * @property {boolean} shared - Whether the folder is currently shared
- * @property {Date | null} expires_at - Expiration time for shared folder access (null if no expiration)
+ * @property {string | null} s3_link - Link to the folder's object in storage
  * @property {string} owner_clerk_id - Clerk user ID of the folder owner
  * @property {string | null | undefined} parent_folder_id - ID of the parent folder (null for root folders)
  * @property {Folder[]} subfolders - Array of child folders contained within this folder
  * @property {File[]} [files] - Optional array of files contained within this folder
+ * @property {Date | null} [deleted_at] - When the folder was moved to the trash (null if not trashed)
+ * @property {number} [size] - Bytes of the live files in the folder and all of its subfolders; set by children listings and folder trees
  * 
  * @example
  * ```typescript
@@ -40,8 +40,6 @@
  *   updated_at: new Date("2024-01-01"),
  *   is_root: true,
  *   s3_link: null,
- *   shared: false,
- *   expires_at: null,
  *   owner_clerk_id: "user_abc123",
  *   parent_folder_id: null,
  *   subfolders: [],
@@ -51,16 +49,14 @@
  * 
  * @example
  * ```typescript
- * // Shared folder with expiration
- * const sharedFolder: Folder = {
+ * // Subfolder with contents
+ * const documents: Folder = {
  *   id: "folder-456",
  *   folder_name: "Documents",
  *   created_at: new Date("2024-01-01"),
  *   updated_at: new Date("2024-01-15"),
  *   is_root: false,
- *   s3_link: "share-token-abc123",
- *   shared: true,
- *   expires_at: new Date("2024-01-16"), // Expires in 24 hours
+ *   s3_link: null,
  *   owner_clerk_id: "user_abc123",
  *   parent_folder_id: "folder-123",
  *   subfolders: [
@@ -104,10 +100,9 @@
  * 
  * @remarks
  * - Root folders have `is_root: true` and `parent_folder_id: null`
- * - The `s3_link` field contains the share token when a folder is shared
  * - Recursive structures are supported for nested folder hierarchies
  * - The `files` property is optional and may not be included in all API responses
- * - Shared folders expire automatically based on the `expires_at` timestamp
+ * - Folders are shared through {@link ShareLink}s, not fields on the folder
  * 
  * @see {@link File} for the file type definition
  * @see {@link FolderService} for folder operations
@@ -120,13 +115,13 @@ export type Folder = {
     updated_at: Date;
     is_root: boolean;
     s3_link: string | null;
-    shared: boolean;
-    expires_at: Date | null;
     owner_clerk_id: string;
     // just added these
     parent_folder_id: string | null | undefined;
     subfolders: Folder[];
     files?: File[];
+    deleted_at?: Date | null;
+    size?: number;
 }
 
 /**
@@ -134,7 +129,7 @@ export type Folder = {
  * 
  * Files are stored in AWS S3 and their metadata is managed in the database.
  * Each file belongs to a parent folder and is owned by a specific user.
- * Files can be shared with expiration times for temporary access.
+ * Files can be shared through {@link ShareLink}s for temporary access.
  * 
  * @typedef {Object} File
  * 
@@ -142,12 +137,21 @@ export type Folder = {
  * @property {string} file_name - Display name of the file including extension
  * @property {number} size - File size in bytes
  * @property {Date} created_at - Timestamp when the file was uploaded
- * @property {boolean} shared - Whether the file is currently shared
- * @property {string | null} s3_link - Share link or presigned URL (null if not generated)
+ * @property {string | null} s3_link - Link to the file's object in storage
  * @property {string | null} s3_key - S3 object key/path for the file in the bucket
- * @property {Date | null} expires_at - Expiration time for shared file access (null if no expiration)
  * @property {string | null} parent_folder_id - ID of the containing folder
  * @property {string} owner_clerk_id - Clerk user ID of the file owner
+ * @property {Date | null} [deleted_at] - When the file was moved to the trash (null if not trashed)
+ * @property {Date | null} [pending_until] - Set while a direct upload is in progress (null once the upload is complete)
+ * @property {string | null} [multipart_upload_id] - Storage upload ID while the file is being uploaded in parts
+ * @property {number} [version] - Number of the current content, starting at 1 (see {@link FileVersion})
+ * @property {Date} [version_created_at] - When the current content was uploaded
+ * @property {string | null} [blob_id] - SHA-256 of the content, shared with identical files; null for older files and content not hashed yet
+ * @property {boolean} [dedup_pending] - Whether the content was uploaded directly and is still to be hashed and deduplicated in the background
+ * @property {string} [extension] - Lower-cased extension of `file_name` without the dot ("" if it has none), set by the database
+ * @property {string | null} [thumbnail_key] - Object key of the WebP thumbnail of an image or PDF (null until generated, or if none could be made)
+ * @property {number | null} [thumbnail_version] - Version of the content the thumbnail was generated from
+ * @property {string | null} [thumbnail_url] - Signed URL of the thumbnail, in folder listings
  * 
  * @example
  * ```typescript
@@ -157,10 +161,8 @@ export type Folder = {
  *   file_name: "document.pdf",
  *   size: 1024000, // 1 MB in bytes
  *   created_at: new Date("2024-01-15"),
- *   shared: false,
  *   s3_link: null,
  *   s3_key: "user_abc123/JohnDoe/Documents/document.pdf",
- *   expires_at: null,
  *   parent_folder_id: "folder-456",
  *   owner_clerk_id: "user_abc123"
  * };
@@ -168,39 +170,15 @@ export type Folder = {
  * 
  * @example
  * ```typescript
- * // Shared file with expiration
- * const sharedFile: File = {
- *   id: "file-789",
- *   file_name: "report.xlsx",
- *   size: 2048000, // 2 MB
- *   created_at: new Date("2024-01-10"),
- *   shared: true,
- *   s3_link: "https://s3.amazonaws.com/bucket/file?presigned-params",
- *   s3_key: "user_abc123/JohnDoe/Work/report.xlsx",
- *   expires_at: new Date("2024-01-17"), // Expires in 7 days
- *   parent_folder_id: "folder-work",
- *   owner_clerk_id: "user_abc123"
- * };
- * ```
- * 
- * @example
- * ```typescript
  * // Display file in UI
  * function FileListItem({ file }: { file: File }) {
  *   const sizeInMB = (file.size / 1024 / 1024).toFixed(2);
- *   const isExpired = file.expires_at && file.expires_at < new Date();
  *   
  *   return (
  *     <div>
  *       <h3>{file.file_name}</h3>
  *       <p>Size: {sizeInMB} MB</p>
  *       <p>Uploaded: {file.created_at.toLocaleDateString()}</p>
- *       {file.shared && (
- *         <span>
- *           {isExpired ? 'Share expired' : 'Shared'}
- *           {file.expires_at && ` until ${file.expires_at.toLocaleDateString()}`}
- *         </span>
- *       )}
  *     </div>
  *   );
  * }
@@ -224,8 +202,8 @@ export type Folder = {
  * @remarks
  * - File sizes are stored in bytes; convert to KB/MB/GB for display
  * - The `s3_key` follows the pattern: `{owner}/{rootFolder}/{path}/{filename}`
- * - Presigned URLs in `s3_link` are temporary and expire after a set time
- * - Shared files can be accessed without authentication using the share token
+ * - Shared files are reached through a {@link ShareLink}'s token, which yields a
+ *   short-lived presigned URL
  * - Files belong to exactly one parent folder (never null in practice)
  * 
  * @see {@link Folder} for the folder type definition
@@ -236,10 +214,395 @@ export type File = {
     file_name: string;
     size: number;
     created_at: Date;
-    shared: boolean;
     s3_link: string | null;
     s3_key: string | null;
-    expires_at: Date | null;
     parent_folder_id: string | null;
     owner_clerk_id: string;
-}
\ No newline at end of file
+    deleted_at?: Date | null;
+    pending_until?: Date | null;
+    multipart_upload_id?: string | null;
+    version?: number;
+    version_created_at?: Date;
+    blob_id?: string | null;
+    dedup_pending?: boolean;
+    extension?: string;
+    thumbnail_key?: string | null;
+    thumbnail_version?: number | null;
+    thumbnail_url?: string | null;
+}
+
+/**
+ * An earlier content of a file, kept when a file with the same name is uploaded
+ * into the same folder.
+ * 
+ * @property {string} id - Unique identifier of the version
+ * @property {string} file_id - The file this version belongs to
+ * @property {number} version - Version number; the file's own `version` is the current one
+ * @property {number} size - Size of this content in bytes
+ * @property {string} s3_key - Storage key of this content
+ * @property {Date} created_at - When this content was uploaded
+ * @property {string | null} [blob_id] - SHA-256 of the content; null for older versions
+ * 
+ * @see {@link File} for the current version
+ */
+export type FileVersion = {
+    id: string;
+    file_id: string;
+    version: number;
+    size: number;
+    s3_key: string;
+    created_at: Date;
+    blob_id?: string | null;
+}
+
+/**
+ * Storage used by a user, as returned by `GET /api/user/usage`.
+ * 
+ * @property {number} logical_bytes - Total size of the user's files and their earlier versions
+ * @property {number} physical_bytes - Bytes actually stored for them, counting identical content once
+ * @property {number | null} quota_bytes - Most bytes the user may store, or null if unlimited
+ * @property {Record<string, number>} folders - Bytes used in each folder, subfolders included, by folder ID
+ */
+export type StorageUsage = {
+    logical_bytes: number;
+    physical_bytes: number;
+    quota_bytes: number | null;
+    folders: Record<string, number>;
+}
+
+/**
+ * How the children of a folder are ordered in `GET /api/folders/[folderId]/children`.
+ * Folders have no size or type, so sorting by `size` or `type` orders them by name;
+ * `type` orders files by extension, then name.
+ */
+export type ChildrenSort = "name" | "created_at" | "size" | "type";
+
+/**
+ * Direction of a sort.
+ */
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Options for listing a page of a folder's children.
+ * 
+ * @property {string | null} cursor - `next_cursor` of the previous page, or empty for the first page
+ * @property {number} limit - Most children on the page
+ * @property {ChildrenSort} sort - The field to sort by
+ * @property {SortOrder} order - The direction to sort in
+ * @property {string} extension - Only list files with this extension (lower case, without the dot); leaves out subfolders
+ */
+export type ChildrenQuery = {
+    cursor?: string | null;
+    limit?: number;
+    sort?: ChildrenSort;
+    order?: SortOrder;
+    extension?: string;
+}
+
+/**
+ * How a user likes folder contents shown, as returned by `GET /api/user/preferences`.
+ * 
+ * @property {"table" | "grid"} view - A table with one row per item, or a grid of thumbnails
+ * @property {ChildrenSort} sort - The field to sort by
+ * @property {SortOrder} order - The direction to sort in
+ */
+export type ViewPreferences = {
+    view: "table" | "grid";
+    sort: ChildrenSort;
+    order: SortOrder;
+}
+
+/**
+ * A page of a folder's children, as returned by `GET /api/folders/[folderId]/children`.
+ * All subfolders come before the first file.
+ * 
+ * @property {Folder} folder - The folder itself, without its contents
+ * @property {Folder[]} folders - Subfolders on this page
+ * @property {File[]} files - Files on this page
+ * @property {string | null} next_cursor - Cursor of the next page, or null on the last page
+ */
+export type FolderChildrenPage = {
+    folder: Folder;
+    folders: Folder[];
+    files: File[];
+    next_cursor: string | null;
+}
+
+/**
+ * Filters for `GET /api/search`. All of them are optional except `q`.
+ * 
+ * @property {string} q - Words to look for in names and, for text files, content
+ * @property {string} type - `folder`, `file`, or a file extension such as `pdf`
+ * @property {number} min_size - Smallest file size in bytes (excludes folders)
+ * @property {number} max_size - Largest file size in bytes (excludes folders)
+ * @property {Date} from - Earliest creation time
+ * @property {Date} to - Latest creation time
+ * @property {number} limit - Most results to return
+ */
+export type SearchQuery = {
+    q: string;
+    type?: string;
+    min_size?: number;
+    max_size?: number;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+}
+
+/**
+ * A file or folder found by `GET /api/search`.
+ * 
+ * @property {"file" | "folder"} kind - Whether the match is a file or a folder
+ * @property {string} id - ID of the file or folder
+ * @property {string} name - File or folder name
+ * @property {string} parent_folder_id - The folder it is in
+ * @property {number | null} size - File size in bytes, or null for folders
+ * @property {Date} created_at - Creation time
+ * @property {boolean} matched_content - Whether the file's text matched, rather than only its name
+ * @property {{ id: string, name: string }[]} path - Breadcrumbs from the root folder to `parent_folder_id`
+ */
+export type SearchResult = {
+    kind: "file" | "folder";
+    id: string;
+    name: string;
+    parent_folder_id: string;
+    size: number | null;
+    created_at: Date;
+    matched_content: boolean;
+    path: { id: string, name: string }[];
+}
+
+/**
+ * What a share link lets its holder do: `view` to browse and preview, `download` to
+ * also download files and folder archives.
+ */
+export type SharePermission = "view" | "download";
+
+/**
+ * A link sharing a folder, with everything inside it, or a single file. A folder or
+ * file can have any number of links, each revoked on its own.
+ *
+ * @property {string} id - Unique identifier of the link
+ * @property {string} token - Secret part of the link's URL
+ * @property {string | null} label - Who or what the link is for, shown to the owner only
+ * @property {SharePermission} permission - What the link allows
+ * @property {Date | null} expires_at - When the link stops working, or null if it never expires
+ * @property {string | null} password_hash - Salted hash of the link's password, or null if it has none
+ * @property {number | null} max_downloads - Downloads after which the link stops working, or null for no limit
+ * @property {number} download_count - Downloads through the link so far
+ * @property {Date} created_at - When the link was created
+ * @property {string} owner_clerk_id - Clerk user ID of the owner of the shared item
+ * @property {string | null} folder_id - The shared folder, if a folder is shared
+ * @property {string | null} file_id - The shared file, if a file is shared
+ */
+export type ShareLink = {
+    id: string;
+    token: string;
+    label: string | null;
+    permission: SharePermission;
+    expires_at: Date | null;
+    password_hash: string | null;
+    max_downloads: number | null;
+    download_count: number;
+    created_at: Date;
+    owner_clerk_id: string;
+    folder_id: string | null;
+    file_id: string | null;
+}
+
+/**
+ * A share link as listed by `GET /api/shares`, with what it shares.
+ *
+ * @property {string} id - ID of the link
+ * @property {"file" | "folder"} kind - Whether a file or a folder is shared
+ * @property {string} item_id - ID of the file or folder
+ * @property {string} name - File or folder name
+ * @property {string | null} label - Who or what the link is for
+ * @property {SharePermission} permission - What the link allows
+ * @property {boolean} has_password - Whether the link asks for a password
+ * @property {number | null} max_downloads - Downloads the link allows, or null for no limit
+ * @property {number | null} downloads_remaining - Downloads left, or null for no limit
+ * @property {string} url - The link to hand out
+ * @property {Date} created_at - When the link was created
+ * @property {Date | null} expires_at - When the link stops working, or null if it never expires
+ * @property {boolean} expired - Whether `expires_at` has passed
+ */
+export type Share = {
+    id: string;
+    kind: "file" | "folder";
+    item_id: string;
+    name: string;
+    label: string | null;
+    permission: SharePermission;
+    has_password: boolean;
+    max_downloads: number | null;
+    downloads_remaining: number | null;
+    url: string;
+    created_at: Date;
+    expires_at: Date | null;
+    expired: boolean;
+}
+
+/**
+ * A folder as returned by `GET /api/shared/folder/{token}`, with the settings of the
+ * link it was opened through.
+ *
+ * @property {Date | null} expires_at - When the link stops working, or null if it never expires
+ * @property {SharePermission} permission - What the link allows
+ * @property {number | null} downloads_remaining - Downloads the link has left, or null for no limit
+ */
+export type SharedFolder = Folder & {
+    expires_at: Date | null;
+    permission: SharePermission;
+    downloads_remaining: number | null;
+}
+
+/**
+ * A file opened through a share link, as returned by
+ * `GET /api/shared/file/{fileId}/{token}`.
+ *
+ * @property {string | null} url - Presigned URL of the file's content; null if the link has a download limit, or through a `view` link if the file cannot be previewed
+ * @property {string} file_name - File name
+ * @property {number} size - File size in bytes
+ * @property {Date} created_at - When the file was uploaded
+ * @property {Date | null} expires_at - When the link stops working, or null if it never expires
+ * @property {SharePermission} permission - What the link allows
+ * @property {number | null} downloads_remaining - Downloads the link has left, or null for no limit
+ */
+export type SharedFile = {
+    message: string;
+    url: string | null;
+    file_name: string;
+    size: number;
+    created_at: Date;
+    expires_at: Date | null;
+    permission: SharePermission;
+    downloads_remaining: number | null;
+}
+
+/**
+ * A counted download of a shared file, as returned by
+ * `GET /api/shared/file/{fileId}/{token}/download`.
+ *
+ * @property {string} url - Presigned download URL
+ * @property {number | null} downloads_remaining - Downloads the link has left after this one, or null for no limit
+ */
+export type SharedFileDownload = Pick<SharedFile, "message" | "file_name" | "expires_at" | "downloads_remaining"> & { url: string };
+
+/**
+ * Progress of a folder copy, reported after each folder or file is copied.
+ * 
+ * @property {number} copied - Folders and files copied so far
+ * @property {number} total - Total number of folders and files in the subtree being copied
+ * @property {string} current - Name of the item that was just copied
+ */
+export type CopyProgress = {
+    copied: number;
+    total: number;
+    current: string;
+};
+
+/**
+ * A line of the newline-delimited JSON stream returned by
+ * `POST /api/folders/{folderId}/copy` when progress is requested.
+ * 
+ * @remarks
+ * - `progress` lines are sent after each folder or file is copied
+ * - The stream ends with exactly one `complete` or `error` line
+ * 
+ * @see {@link CopyProgress} for the progress fields
+ */
+export type CopyFolderEvent =
+    | ({ type: "progress" } & CopyProgress)
+    | { type: "complete", folder: Folder }
+    | { type: "error", error: string, status: number };
+
+/**
+ * State of an upload in the upload queue.
+ * 
+ * - `queued`: waiting for a free upload slot
+ * - `uploading`: bytes are being sent
+ * - `done`: the file was stored
+ * - `error`: the upload failed and can be retried
+ * - `cancelled`: the user stopped the upload; it can be retried
+ */
+export type UploadStatus = "queued" | "uploading" | "done" | "error" | "cancelled";
+
+/**
+ * A single file in the upload queue.
+ * 
+ * @property {string} id - Client-side identifier of the queue entry
+ * @property {globalThis.File} file - The browser file being uploaded
+ * @property {string} relativePath - Path relative to the target folder, including the
+ * file name; intermediate folders are created when missing
+ * @property {string} folderId - ID of the folder the upload was started in
+ * @property {UploadStatus} status - Current state of the upload
+ * @property {number} progress - Fraction of bytes sent, between 0 and 1
+ * @property {string} [error] - Why the last attempt failed
+ */
+export type UploadQueueItem = {
+    id: string;
+    file: globalThis.File;
+    relativePath: string;
+    folderId: string;
+    status: UploadStatus;
+    progress: number;
+    error?: string;
+};
+
+/**
+ * A direct upload as returned by `POST /api/folders/{folderId}/uploads`.
+ * 
+ * @property {File} file - The pending file; it stays hidden until the upload is completed
+ * @property {object} upload - The signed request the file's bytes must be sent with
+ * @property {string} upload.url - Where to send the bytes
+ * @property {"PUT"} upload.method - HTTP method to use
+ * @property {Record<string, string>} upload.headers - Headers the request must carry
+ * @property {string} expires_at - When the upload URL stops working (ISO 8601)
+ * 
+ * @see {@link File} for the file fields
+ */
+export type PendingUpload = {
+    file: File;
+    upload: {
+        url: string;
+        method: "PUT";
+        headers: Record<string, string>;
+    };
+    expires_at: string;
+};
+
+/**
+ * A multipart upload as returned by `POST /api/folders/{folderId}/uploads` with
+ * `multipart: true`.
+ * 
+ * @property {File} file - The pending file; it stays hidden until the upload is completed
+ * @property {number} part_size - Size of every part but the last, in bytes
+ * @property {number} part_count - Number of parts the file is split into
+ */
+export type MultipartUpload = {
+    file: File;
+    part_size: number;
+    part_count: number;
+};
+
+/**
+ * Progress of a multipart upload as returned by `GET /api/files/{fileId}/parts`.
+ * 
+ * @property {Array} parts - Parts stored so far, by 1-based `part_number`, with their `size` in bytes
+ * 
+ * @see {@link MultipartUpload} for the other fields
+ */
+export type MultipartUploadState = MultipartUpload & {
+    parts: { part_number: number, size: number }[];
+};
+
+/**
+ * A signed request for one part of a multipart upload, as returned by
+ * `POST /api/files/{fileId}/parts`.
+ * 
+ * @see {@link PendingUpload} for the request fields
+ */
+export type UploadPartRequest = PendingUpload["upload"] & {
+    part_number: number;
+};